@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getInternalApiHeaders } from '@/lib/api-auth'
+import { requireAdmin } from '@/lib/auth-roles'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * Clears one device's install error and warning events. Unlike
+ * `/api/admin/installs/clear-errors`, which clears the whole fleet's, this
+ * only touches the device named.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  const guard = await requireAdmin(request)
+  if (guard instanceof NextResponse) return guard
+
+  const { deviceId } = await params
+  const serial = encodeURIComponent(deviceId)
+
+  const apiBaseUrl = process.env.API_BASE_URL
+  if (!apiBaseUrl) {
+    return NextResponse.json({ error: 'API_BASE_URL not configured' }, { status: 500 })
+  }
+
+  try {
+    const response = await fetch(`${apiBaseUrl}/api/v1/device/${serial}/install-errors`, {
+      method: 'DELETE',
+      headers: getInternalApiHeaders(),
+      cache: 'no-store',
+    })
+    const data = await response.json()
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error('[ADMIN] Clear device install errors failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to clear device install errors', detail: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -1,17 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getInternalApiHeaders } from '@/lib/api-auth'
 import { requireAdmin } from '@/lib/auth-roles'
+import type { BulkResult } from '@/src/lib/devices/bulk'
+import { deviceRequestResult } from '@/src/lib/devices/bulkRunner'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
-type BulkResult = {
-  serialNumber: string
-  ok: boolean
-  status: number
-  detail?: string
-}
-
 export async function POST(request: NextRequest) {
   const guard = await requireAdmin(request)
   if (guard instanceof NextResponse) return guard
@@ -56,38 +50,17 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  const headers = getInternalApiHeaders()
+  // Larger selections go through the bulk job API (/api/admin/devices/bulk)
   const results: BulkResult[] = []
 
   for (const serialNumber of cleaned) {
-    try {
-      const response = await fetch(
+    results.push(
+      await deviceRequestResult(
+        serialNumber,
         `${apiBaseUrl}/api/v1/device/${encodeURIComponent(serialNumber)}?confirm=true`,
-        { method: 'DELETE', headers, cache: 'no-store' }
+        'DELETE'
       )
-      let detail: string | undefined
-      if (!response.ok) {
-        try {
-          const data = await response.json()
-          detail = data?.detail || data?.error
-        } catch {
-          detail = await response.text().catch(() => undefined)
-        }
-      }
-      results.push({
-        serialNumber,
-        ok: response.ok,
-        status: response.status,
-        detail,
-      })
-    } catch (error) {
-      results.push({
-        serialNumber,
-        ok: false,
-        status: 0,
-        detail: error instanceof Error ? error.message : String(error),
-      })
-    }
+    )
   }
 
   const succeeded = results.filter((r) => r.ok).length
@@ -0,0 +1,62 @@
+import { randomUUID } from 'node:crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth-roles'
+import { BulkJob, retrySerials, summarizeBulkJob } from '@/src/lib/devices/bulk'
+import { getBulkJob, startBulkJob } from '@/src/lib/devices/bulkRunner'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * Starts a new job with the same action over the devices that failed (or
+ * were never reached) in `jobId`. Answers 202 with the new job.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const guard = await requireAdmin(request)
+  if (guard instanceof NextResponse) return guard
+
+  const apiBaseUrl = process.env.API_BASE_URL
+  if (!apiBaseUrl) {
+    return NextResponse.json({ error: 'API_BASE_URL not configured' }, { status: 500 })
+  }
+
+  try {
+    const { jobId } = await params
+    const original = await getBulkJob(apiBaseUrl, jobId)
+    if (!original) {
+      return NextResponse.json({ error: 'No bulk job with that id' }, { status: 404 })
+    }
+    if (original.state === 'running') {
+      return NextResponse.json({ error: 'The job is still running' }, { status: 409 })
+    }
+    const serials = retrySerials(original)
+    if (serials.length === 0) {
+      return NextResponse.json({ error: 'The job has no failures to retry' }, { status: 409 })
+    }
+
+    const now = new Date().toISOString()
+    const job: BulkJob = {
+      id: randomUUID(),
+      action: original.action,
+      ...(original.tags ? { tags: original.tags } : {}),
+      serials,
+      results: [],
+      state: 'running',
+      retryOf: original.id,
+      ...(guard.user?.email ? { createdBy: guard.user.email } : {}),
+      createdAt: now,
+      updatedAt: now,
+    }
+    await startBulkJob(apiBaseUrl, job)
+    return NextResponse.json({ job: { ...job, summary: summarizeBulkJob(job) } }, { status: 202 })
+  } catch (error) {
+    console.error('[ADMIN] Retry bulk job failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to retry bulk job', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth-roles'
+import { summarizeBulkJob } from '@/src/lib/devices/bulk'
+import { getBulkJob } from '@/src/lib/devices/bulkRunner'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/** One bulk job with its per-device results so far and a progress summary. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const guard = await requireAdmin(request)
+  if (guard instanceof NextResponse) return guard
+
+  const apiBaseUrl = process.env.API_BASE_URL
+  if (!apiBaseUrl) {
+    return NextResponse.json({ error: 'API_BASE_URL not configured' }, { status: 500 })
+  }
+
+  try {
+    const { jobId } = await params
+    const job = await getBulkJob(apiBaseUrl, jobId)
+    if (!job) {
+      return NextResponse.json({ error: 'No bulk job with that id' }, { status: 404 })
+    }
+    return NextResponse.json({ job: { ...job, summary: summarizeBulkJob(job) } })
+  } catch (error) {
+    console.error('[ADMIN] Load bulk job failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to load bulk job', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { randomUUID } from 'node:crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth-roles'
+import { BulkJob, cleanSerials, summarizeBulkJob, validateBulkRequest } from '@/src/lib/devices/bulk'
+import { listBulkJobs, startBulkJob } from '@/src/lib/devices/bulkRunner'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/** Recent bulk jobs, newest first, each with its progress summary. */
+export async function GET(request: NextRequest) {
+  const guard = await requireAdmin(request)
+  if (guard instanceof NextResponse) return guard
+
+  const apiBaseUrl = process.env.API_BASE_URL
+  if (!apiBaseUrl) {
+    return NextResponse.json({ error: 'API_BASE_URL not configured' }, { status: 500 })
+  }
+
+  try {
+    const jobs = await listBulkJobs(apiBaseUrl)
+    return NextResponse.json({ jobs: jobs.map((job) => ({ ...job, summary: summarizeBulkJob(job) })) })
+  } catch (error) {
+    console.error('[ADMIN] List bulk jobs failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to load bulk jobs', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Starts a bulk job. Body: `{ action, serials, tags? }` where `tags` is
+ * `{ add?, remove? }` for the tag action. Answers 202 with the job; poll
+ * `/api/admin/devices/bulk/{id}` for progress.
+ */
+export async function POST(request: NextRequest) {
+  const guard = await requireAdmin(request)
+  if (guard instanceof NextResponse) return guard
+
+  const apiBaseUrl = process.env.API_BASE_URL
+  if (!apiBaseUrl) {
+    return NextResponse.json({ error: 'API_BASE_URL not configured' }, { status: 500 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const errors = validateBulkRequest(body)
+  if (errors.length) {
+    return NextResponse.json({ error: 'Invalid bulk action', errors }, { status: 422 })
+  }
+
+  try {
+    const now = new Date().toISOString()
+    const job: BulkJob = {
+      id: randomUUID(),
+      action: body.action,
+      ...(body.action === 'tag' ? { tags: body.tags } : {}),
+      serials: cleanSerials(body.serials),
+      results: [],
+      state: 'running',
+      ...(guard.user?.email ? { createdBy: guard.user.email } : {}),
+      createdAt: now,
+      updatedAt: now,
+    }
+    await startBulkJob(apiBaseUrl, job)
+    return NextResponse.json({ job: { ...job, summary: summarizeBulkJob(job) } }, { status: 202 })
+  } catch (error) {
+    console.error('[ADMIN] Start bulk job failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to start bulk job', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
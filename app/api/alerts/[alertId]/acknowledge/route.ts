@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-roles"
+import { acknowledgeAlert } from "@/src/lib/alerts/engine"
+import { loadAlerts, saveAlerts } from "@/src/lib/alerts/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** Acknowledges an open alert: it stays tracked but stops re-notifying. */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ alertId: string }> }
+) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(
+        { error: "Alerts are read-only in the demo environment" },
+        { status: 403 }
+      )
+    }
+
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const { alertId } = await params
+    const alerts = acknowledgeAlert(await loadAlerts(apiBaseUrl), alertId, guard.user?.email ?? undefined, new Date())
+    if (!alerts) {
+      return NextResponse.json({ error: "No open alert with that id" }, { status: 404 })
+    }
+    await saveAlerts(apiBaseUrl, alerts)
+    return NextResponse.json({ alert: alerts.find((a) => a.id === alertId) })
+  } catch (error) {
+    console.error("[ALERTS] acknowledge failed:", error)
+    return NextResponse.json(
+      { error: "Failed to acknowledge alert", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-roles"
+import { deliverAlerts } from "@/src/lib/alerts/channels"
+import type { Alert } from "@/src/lib/alerts/engine"
+import { CURRENT_SCHEMA_VERSION } from "@/src/lib/settings/defaults"
+import { validateSettingsDocument } from "@/src/lib/settings/validate"
+import type { AlertChannel } from "@/src/lib/settings/types"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * Sends a sample alert through a channel, saved or draft, so admins can check
+ * the URL or recipients before relying on it. Body: `{ channel: AlertChannel }`.
+ */
+export async function POST(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(
+        { error: "Alerting is disabled in the demo environment" },
+        { status: 403 }
+      )
+    }
+
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const body = await request.json().catch(() => null)
+    const channel = body?.channel as AlertChannel | undefined
+    const errors = validateSettingsDocument({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      alerts: { rules: [], channels: [channel] },
+    })
+    if (!channel || errors.length) {
+      return NextResponse.json({ error: "Invalid channel", errors }, { status: 422 })
+    }
+
+    const now = new Date().toISOString()
+    const sample: Alert = {
+      id: `test@${now}`,
+      key: "test",
+      ruleId: "test",
+      subject: "test",
+      severity: "info",
+      title: "Test alert from ReportMate",
+      message: `Sent by ${guard.user?.email ?? "an administrator"} to check this channel. No action needed.`,
+      link: "/settings",
+      state: "open",
+      firstSeenAt: now,
+      lastSeenAt: now,
+    }
+    const result = await deliverAlerts(channel, [sample], {
+      baseUrl: process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_SITE_URL,
+    })
+    return NextResponse.json(result, { status: result.ok ? 200 : 502 })
+  } catch (error) {
+    console.error("[ALERTS] channel test failed:", error)
+    return NextResponse.json(
+      { error: "Channel test failed", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
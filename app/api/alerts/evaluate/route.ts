@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders, requireInternalOrAdmin } from "@/lib/api-auth"
+import { alertsByChannel, deliverAlerts } from "@/src/lib/alerts/channels"
+import {
+  AlertEvent,
+  AlertInput,
+  alertSourcesFor,
+  alertWindowMinutes,
+  evaluateAlertRules,
+  markNotified,
+  mergeAcknowledgements,
+  reconcileAlerts,
+} from "@/src/lib/alerts/engine"
+import { loadAlerts, saveAlerts } from "@/src/lib/alerts/store"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** Most events one pass reads; a busier window is reported as `truncated`. */
+const EVENT_LIMIT = 1000
+
+/** GETs a FastAPI list, or undefined when it can't be loaded, so the rules
+ * over it are skipped this run instead of resolving their alerts. */
+async function loadSource<T>(url: string, pick: (data: any) => unknown): Promise<T[] | undefined> {
+  try {
+    const res = await fetch(url, { headers: getInternalApiHeaders(), cache: "no-store", signal: AbortSignal.timeout(90000) })
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    const list = pick(await res.json())
+    return Array.isArray(list) ? (list as T[]) : undefined
+  } catch (error) {
+    console.warn(`[ALERTS] could not load ${url.split("?")[0]}:`, error)
+    return undefined
+  }
+}
+
+/**
+ * One alerting pass: evaluates the alert rules over recent events, ingest
+ * failures, device status, security state and client versions, updates the tracked alerts
+ * (dedup, resolve, acknowledge carry-over) and delivers the ones due.
+ * Meant to be called every few minutes by a scheduler.
+ */
+export async function POST(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(
+        { error: "Alerting is disabled in the demo environment" },
+        { status: 403 }
+      )
+    }
+
+    // A scheduler presents the internal secret; anyone else needs an admin session.
+    const denied = await requireInternalOrAdmin(request)
+    if (denied) return denied
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const settings = await loadOrgSettings(apiBaseUrl).catch(() => undefined)
+    if (!settings) {
+      return NextResponse.json({ error: "Failed to load saved settings" }, { status: 502 })
+    }
+    const rules = settings.alerts?.rules ?? []
+    const channels = settings.alerts?.channels ?? []
+
+    const now = new Date()
+    const sources = alertSourcesFor(rules)
+    const eventWindow = alertWindowMinutes(rules, "eventBurst")
+    const failureHours = Math.ceil(alertWindowMinutes(rules, "ingestFailures") / 60)
+    const [events, ingestFailures, devices, securityRows, clientDevices, existing] = await Promise.all([
+      sources.has("events")
+        ? loadSource<any>(
+            `${apiBaseUrl}/api/v1/events?limit=${EVENT_LIMIT}&offset=0&startDate=${new Date(now.getTime() - eventWindow * 60000).toISOString()}`,
+            (data) => data?.events ?? data
+          )
+        : undefined,
+      sources.has("ingestFailures")
+        ? loadSource(`${apiBaseUrl}/api/v1/events/failures?hours=${failureHours}&outcome=rejected&limit=1000`, (data) => data?.failures)
+        : undefined,
+      sources.has("devices") ? loadSource(`${apiBaseUrl}/api/v1/devices`, (data) => data?.devices ?? data) : undefined,
+      sources.has("securityRows") ? loadSource(`${apiBaseUrl}/api/v1/security`, (data) => data) : undefined,
+      sources.has("clientDevices") ? loadSource(`${apiBaseUrl}/api/v1/installs/filters`, (data) => data?.devices) : undefined,
+      loadAlerts(apiBaseUrl),
+    ])
+
+    const input: AlertInput = {
+      now,
+      // Same field mapping as the events route.
+      events: events?.map((e): AlertEvent => ({
+        device: e.serialNumber || e.device || e.device_id || "unknown",
+        deviceName: e.deviceName,
+        kind: e.eventType || e.kind || "unknown",
+        ts: e.timestamp || e.ts,
+        payload: e.details || e.payload || {},
+      })),
+      ingestFailures: ingestFailures as AlertInput["ingestFailures"],
+      devices: devices as AlertInput["devices"],
+      securityRows: securityRows as AlertInput["securityRows"],
+      clientDevices: clientDevices as AlertInput["clientDevices"],
+    }
+    const evaluated = evaluateAlertRules(rules, input, {
+      fields: settings.inventory?.fields,
+      status: settings.status,
+      security: settings.security,
+      clientVersions: settings.clientVersions,
+    })
+    // A truncated event window only gives lower bounds: event bursts can still
+    // fire, but one that no longer reaches its threshold may just be cut off,
+    // so its alert stays open instead of resolving.
+    const truncated = (events?.length ?? 0) >= EVENT_LIMIT
+    if (truncated) console.warn(`[ALERTS] event window holds over ${EVENT_LIMIT} events; burst counts are lower bounds`)
+    const evaluation = truncated
+      ? {
+          ...evaluated,
+          evaluatedRuleIds: evaluated.evaluatedRuleIds.filter((id) => rules.find((r) => r.id === id)?.kind !== "eventBurst"),
+        }
+      : evaluated
+    const { alerts, notify } = reconcileAlerts(existing, evaluation, rules, now)
+
+    const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_SITE_URL
+    const grouped = [...alertsByChannel(notify, rules, channels)]
+    const deliveries = await Promise.all(grouped.map(([channel, due]) => deliverAlerts(channel, due, { baseUrl })))
+    const delivered = grouped.flatMap(([, due], i) => (deliveries[i].ok ? due.map((a) => a.id) : []))
+    for (const d of deliveries) {
+      if (!d.ok) console.error(`[ALERTS] delivery to ${d.channelId} failed: ${d.error}`)
+    }
+
+    // Acknowledgements made while the sources loaded and deliveries ran
+    // would otherwise be overwritten by this pass's copy of the store.
+    const latest = await loadAlerts(apiBaseUrl)
+    await saveAlerts(apiBaseUrl, mergeAcknowledgements(markNotified(alerts, delivered, now), latest))
+    return NextResponse.json({
+      evaluatedRules: evaluation.evaluatedRuleIds,
+      skippedRules: rules.filter((r) => r.enabled !== false && !evaluation.evaluatedRuleIds.includes(r.id)).map((r) => r.id),
+      firing: evaluation.candidates.length,
+      notified: new Set(delivered).size,
+      deliveries,
+      truncated,
+    })
+  } catch (error) {
+    console.error("[ALERTS] evaluate failed:", error)
+    return NextResponse.json(
+      { error: "Alert evaluation failed", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
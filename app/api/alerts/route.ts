@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth-roles"
+import { loadAlerts } from "@/src/lib/alerts/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** Tracked alerts (open, acknowledged, and recently resolved), newest first. */
+export async function GET(request: Request) {
+  try {
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const alerts = await loadAlerts(apiBaseUrl)
+    alerts.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+    return NextResponse.json({ alerts })
+  } catch (error) {
+    console.error("[ALERTS] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load alerts", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
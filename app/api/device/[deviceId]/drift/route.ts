@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { requireUser } from "@/lib/auth-roles"
+import { captureBaseline, evaluateDrift, resolveBaseline } from "@/src/lib/devices/drift"
+import { getDeviceContext } from "@/src/lib/rules/deviceContext"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * The baseline that applies to the device and how far the device has drifted
+ * from it; `drift` is null when no baseline covers the device. `capture=1`
+ * instead returns a baseline spec taken from the device as it is now (named
+ * `id`, default the serial number) for the settings editor to save.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ deviceId: string }> }) {
+  try {
+    const { deviceId } = await params
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ baseline: null, drift: null })
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const headers = getInternalApiHeaders()
+    const [deviceRes, settings] = await Promise.all([
+      fetch(`${apiBaseUrl}/api/v1/device/${encodeURIComponent(deviceId)}`, { headers, cache: "no-store" }),
+      loadOrgSettings(apiBaseUrl).catch(() => undefined),
+    ])
+    if (deviceRes.status === 404) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 })
+    }
+    if (!deviceRes.ok) {
+      throw new Error(`Device API returned ${deviceRes.status}`)
+    }
+    const raw = (await deviceRes.json())?.device
+    const device = { ...raw, serialNumber: raw?.serialNumber || deviceId }
+    const opts = { fields: settings?.inventory?.fields, security: settings?.security }
+
+    const { searchParams } = new URL(request.url)
+    if (searchParams.get("capture") === "1") {
+      const id = searchParams.get("id")?.trim() || device.serialNumber
+      return NextResponse.json({ baseline: captureBaseline(device, id, opts) })
+    }
+
+    const baseline = resolveBaseline(getDeviceContext(device, opts.fields), settings?.drift) ?? null
+    return NextResponse.json({ baseline, drift: baseline ? evaluateDrift(device, baseline, opts) : null })
+  } catch (error) {
+    console.error("[DEVICE DRIFT] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load drift", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
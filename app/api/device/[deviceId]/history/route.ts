@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth-roles"
+import { deviceHistory, diffSnapshots } from "@/src/lib/devices/history"
+import { loadDeviceSnapshots } from "@/src/lib/devices/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * The device's change timeline, newest first, and the list of stored
+ * snapshots. `a` and `b` (snapshot `capturedAt` values) add the per-module
+ * diff between the two. Snapshots are recorded by the snapshot pass
+ * (`POST /api/devices/snapshots`), not here.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ deviceId: string }> }) {
+  try {
+    const { deviceId } = await params
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ snapshots: [], history: [] })
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    // Snapshots are stored by serial number, which the device page passes
+    const serialNumber = deviceId
+    const doc = await loadDeviceSnapshots(apiBaseUrl, serialNumber)
+
+    const { searchParams } = new URL(request.url)
+    const a = doc.snapshots.find((s) => s.capturedAt === searchParams.get("a"))
+    const b = doc.snapshots.find((s) => s.capturedAt === searchParams.get("b"))
+    if ((searchParams.has("a") || searchParams.has("b")) && (!a || !b)) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      serialNumber,
+      snapshots: doc.snapshots
+        .map((s) => ({ capturedAt: s.capturedAt, collectedAt: s.collectedAt, applications: Object.keys(s.modules.applications ?? {}).length }))
+        .reverse(),
+      history: deviceHistory(doc.snapshots),
+      ...(a && b ? { diff: { a: a.capturedAt, b: b.capturedAt, modules: diffSnapshots(a, b) } } : {}),
+    })
+  } catch (error) {
+    console.error("[DEVICE HISTORY] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load device history", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getInternalApiHeaders } from '@/lib/api-auth'
+import { labelDeviceRecords } from '@/app/api/devices/groups/shared'
 
 // Force dynamic rendering and disable caching
 export const dynamic = 'force-dynamic'
@@ -206,6 +207,9 @@ export async function GET(
             modules: cleanedModules
           }
         }
+        // Tags and groups assigned in ReportMate
+        const [labelled] = await labelDeviceRecords(apiBaseUrl, [responseData.device])
+        Object.assign(responseData.device, labelled)
       
             
       // TIMESTAMP SYNCHRONIZATION: Fetch recent events to update lastSeen
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { requireUser } from "@/lib/auth-roles"
+import { compareColumn, compareDevices, CompareColumn, parseCompareDevices } from "@/src/lib/devices/compare"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * `devices` (comma-separated serial numbers, at most MAX_COMPARE_DEVICES)
+ * lined up module by module. Devices the API doesn't know come back in
+ * `missing` and are left out of the columns.
+ */
+export async function GET(request: Request) {
+  try {
+    const serials = parseCompareDevices(new URL(request.url).searchParams.get("devices"))
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ devices: [], missing: serials, sections: [] })
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+    if (serials.length < 2) {
+      return NextResponse.json({ error: "Validation failed", errors: ["Pick at least two devices to compare"] }, { status: 422 })
+    }
+
+    const headers = getInternalApiHeaders()
+    const [settings, ...deviceResponses] = await Promise.all([
+      loadOrgSettings(apiBaseUrl).catch(() => undefined),
+      ...serials.map((serial) =>
+        fetch(`${apiBaseUrl}/api/v1/device/${encodeURIComponent(serial)}`, { headers, cache: "no-store" })
+      ),
+    ])
+
+    const columns: CompareColumn[] = []
+    const missing: string[] = []
+    for (const [i, res] of deviceResponses.entries()) {
+      if (res.status === 404) {
+        missing.push(serials[i])
+        continue
+      }
+      if (!res.ok) throw new Error(`Device API returned ${res.status} for ${serials[i]}`)
+      const device = (await res.json())?.device
+      if (device?.modules) columns.push(compareColumn({ ...device, serialNumber: device.serialNumber || serials[i] }, settings?.inventory?.fields))
+      else missing.push(serials[i])
+    }
+
+    return NextResponse.json({
+      devices: columns.map(({ serialNumber, deviceName }) => ({ serialNumber, deviceName })),
+      missing,
+      sections: compareDevices(columns),
+    })
+  } catch (error) {
+    console.error("[COMPARE] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to compare devices", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
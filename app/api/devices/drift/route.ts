@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { requireUser } from "@/lib/auth-roles"
+import { DeviceDrift, evaluateDrift, resolveBaseline, summarizeDrift } from "@/src/lib/devices/drift"
+import { getDeviceContext, getDeviceRowContext } from "@/src/lib/rules/deviceContext"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+export const maxDuration = 60
+
+/** Device payloads looked up per request, most recently seen devices first. */
+const DRIFT_LOOKUPS = 200
+const DRIFT_CONCURRENCY = 6
+
+/**
+ * Fleet drift report: every device a baseline covers, scored against it,
+ * most drifted first, with per-baseline totals. `baseline` narrows it to one
+ * baseline. Devices are picked from the device list by their inventory, then
+ * measured (and their baseline re-resolved) from the full payload.
+ */
+export async function GET(request: Request) {
+  try {
+    const baselineId = new URL(request.url).searchParams.get("baseline")?.trim() || undefined
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ baselines: [], devices: [], lookups: { looked: 0, of: 0 } })
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const headers = getInternalApiHeaders()
+    const [settings, devicesRes] = await Promise.all([
+      loadOrgSettings(apiBaseUrl).catch(() => undefined),
+      fetch(`${apiBaseUrl}/api/v1/devices`, { headers, cache: "no-store", signal: AbortSignal.timeout(90000) }),
+    ])
+    if (!devicesRes.ok) throw new Error(`Devices returned ${devicesRes.status}`)
+    const fields = settings?.inventory?.fields
+    const opts = { fields, security: settings?.security }
+
+    const devicesData = await devicesRes.json()
+    const rows: any[] = devicesData?.devices ?? (Array.isArray(devicesData) ? devicesData : [])
+    const covered = rows
+      .filter((row) => row?.serialNumber)
+      .filter((row) => {
+        const baseline = resolveBaseline(getDeviceRowContext(row, fields), settings?.drift)
+        return baseline && (!baselineId || baseline.id === baselineId)
+      })
+      .sort((a, b) => String(b.lastSeen ?? "").localeCompare(String(a.lastSeen ?? "")))
+    const lookups = covered.slice(0, DRIFT_LOOKUPS)
+
+    const results: DeviceDrift[] = []
+    const queue = [...lookups]
+    const worker = async () => {
+      for (let row = queue.shift(); row; row = queue.shift()) {
+        try {
+          const res = await fetch(`${apiBaseUrl}/api/v1/device/${encodeURIComponent(row.serialNumber)}`, {
+            headers,
+            cache: "no-store",
+          })
+          if (!res.ok) continue
+          const raw = (await res.json())?.device
+          if (!raw?.modules) continue
+          const device = { ...raw, serialNumber: raw.serialNumber || row.serialNumber }
+          const baseline = resolveBaseline(getDeviceContext(device, fields), settings?.drift)
+          if (!baseline || (baselineId && baseline.id !== baselineId)) continue
+          results.push({
+            serialNumber: device.serialNumber,
+            deviceName: raw.modules.inventory?.deviceName || row.deviceName || row.name || device.serialNumber,
+            ...evaluateDrift(device, baseline, opts),
+          })
+        } catch {
+          // Left out of the report.
+        }
+      }
+    }
+    await Promise.all(Array.from({ length: DRIFT_CONCURRENCY }, worker))
+    results.sort((a, b) => b.score - a.score || a.deviceName.localeCompare(b.deviceName))
+
+    return NextResponse.json({
+      baselines: summarizeDrift(settings?.drift, results),
+      devices: results,
+      lookups: { looked: lookups.length, of: covered.length },
+    })
+  } catch (error) {
+    console.error("[DRIFT] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load drift report", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-roles"
+import { groupNameTaken, validateGroupInput } from "@/src/lib/devices/groups"
+import { loadDeviceGroups, saveDeviceGroups } from "@/src/lib/devices/store"
+import { inventoryFieldsFor } from "../shared"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+function demoModeResponse() {
+  return NextResponse.json(
+    { error: "Device groups are disabled in the demo environment" },
+    { status: 403 }
+  )
+}
+
+/**
+ * Renames a group, replaces a dynamic group's query, or adds and removes
+ * static members. Body: `{ name?, query?, add?, remove? }` (`add`/`remove`
+ * are serial numbers); a group's type can't change.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") return demoModeResponse()
+
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const { groupId } = await params
+    const body = await request.json().catch(() => null)
+    const errors = validateGroupInput(body, await inventoryFieldsFor(apiBaseUrl), true)
+    const doc = await loadDeviceGroups(apiBaseUrl)
+    const group = doc.groups.find((g) => g.id === groupId)
+    if (!group) {
+      return NextResponse.json({ error: "No group with that id" }, { status: 404 })
+    }
+    if (!errors.length && body.name !== undefined && groupNameTaken(doc.groups, body.name, groupId)) {
+      errors.push({ path: "name", message: "is already used by another group" })
+    }
+    if (!errors.length && group.type === "static" && body.query !== undefined) {
+      errors.push({ path: "query", message: "only dynamic groups have a query" })
+    }
+    if (!errors.length && group.type === "dynamic" && (body.add !== undefined || body.remove !== undefined)) {
+      errors.push({ path: "", message: "a dynamic group's members come from its query" })
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid group", errors }, { status: 422 })
+    }
+
+    const remove = new Set<string>(body.remove ?? [])
+    const updated = {
+      ...group,
+      ...(body.name !== undefined && { name: body.name.trim() }),
+      ...(body.query !== undefined && { query: body.query.trim() }),
+      serials: [...new Set<string>([...group.serials, ...(body.add ?? []).map((s: string) => s.trim())])].filter((s) => !remove.has(s)),
+      updatedAt: new Date().toISOString(),
+    }
+    await saveDeviceGroups(apiBaseUrl, { ...doc, groups: doc.groups.map((g) => (g.id === groupId ? updated : g)) })
+    return NextResponse.json({ group: updated })
+  } catch (error) {
+    console.error("[DEVICE GROUPS] PATCH failed:", error)
+    return NextResponse.json(
+      { error: "Failed to update device group", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/** Deletes a group. Rules that name it simply stop matching. */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") return demoModeResponse()
+
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const { groupId } = await params
+    const doc = await loadDeviceGroups(apiBaseUrl)
+    if (!doc.groups.some((g) => g.id === groupId)) {
+      return NextResponse.json({ error: "No group with that id" }, { status: 404 })
+    }
+    await saveDeviceGroups(apiBaseUrl, { ...doc, groups: doc.groups.filter((g) => g.id !== groupId) })
+    return NextResponse.json({ deleted: groupId })
+  } catch (error) {
+    console.error("[DEVICE GROUPS] DELETE failed:", error)
+    return NextResponse.json(
+      { error: "Failed to delete device group", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { randomUUID } from "node:crypto"
+import { NextResponse } from "next/server"
+import { requireAdmin, requireUser } from "@/lib/auth-roles"
+import { DeviceGroup, groupNameTaken, tagCounts, validateGroupInput } from "@/src/lib/devices/groups"
+import { loadDeviceGroups, saveDeviceGroups } from "@/src/lib/devices/store"
+import { inventoryFieldsFor } from "./shared"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * The groups and every tag assigned in ReportMate with its device count.
+ * `serial` adds that device's assigned tags and the static groups it's in.
+ */
+export async function GET(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ groups: [], tags: [] })
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const serial = new URL(request.url).searchParams.get("serial")?.trim()
+    const doc = await loadDeviceGroups(apiBaseUrl)
+    const groups = [...doc.groups].sort((a, b) => a.name.localeCompare(b.name))
+    return NextResponse.json({
+      groups,
+      tags: tagCounts(doc),
+      ...(serial
+        ? {
+            device: {
+              tags: doc.tags[serial] ?? [],
+              groups: groups.filter((g) => g.type === "static" && g.serials.includes(serial)).map((g) => g.id),
+            },
+          }
+        : {}),
+    })
+  } catch (error) {
+    console.error("[DEVICE GROUPS] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load device groups", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/** Creates a group. Body: `{ name, type, serials? }` for a static group, `{ name, type, query }` for a dynamic one. */
+export async function POST(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ error: "Device groups are disabled in the demo environment" }, { status: 403 })
+    }
+
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const errors = validateGroupInput(body, await inventoryFieldsFor(apiBaseUrl))
+    const doc = await loadDeviceGroups(apiBaseUrl)
+    if (!errors.length && groupNameTaken(doc.groups, body.name)) {
+      errors.push({ path: "name", message: "is already used by another group" })
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid group", errors }, { status: 422 })
+    }
+
+    const now = new Date().toISOString()
+    const group: DeviceGroup = {
+      id: randomUUID(),
+      name: body.name.trim(),
+      type: body.type,
+      serials: body.type === "static" ? [...new Set<string>((body.serials ?? []).map((s: string) => s.trim()))] : [],
+      ...(body.type === "dynamic" ? { query: body.query.trim() } : {}),
+      createdAt: now,
+      updatedAt: now,
+    }
+    await saveDeviceGroups(apiBaseUrl, { ...doc, groups: [...doc.groups, group] })
+    return NextResponse.json({ group }, { status: 201 })
+  } catch (error) {
+    console.error("[DEVICE GROUPS] POST failed:", error)
+    return NextResponse.json(
+      { error: "Failed to create device group", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Attaches ReportMate tags and groups to device records on their way out of
+ * the device routes, so every consumer (filters, rules, exports) sees them
+ * without fetching the group store itself.
+ */
+
+import { labelDevice } from "@/src/lib/devices/groups"
+import { loadDeviceGroups } from "@/src/lib/devices/store"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+import type { InventoryFieldMapping } from "@/src/lib/settings/types"
+
+/** The org's inventory field mapping, which dynamic group queries filter on. */
+export async function inventoryFieldsFor(apiBaseUrl: string): Promise<InventoryFieldMapping[] | undefined> {
+  return (await loadOrgSettings(apiBaseUrl).catch(() => undefined))?.inventory?.fields
+}
+
+/**
+ * The records with `tags` and `groups` attached. Settings are only read when
+ * a dynamic group needs the inventory field mapping. A store that can't be
+ * read leaves the records as they are rather than failing the list.
+ */
+export async function labelDeviceRecords<T extends Record<string, any>>(apiBaseUrl: string, records: T[]): Promise<T[]> {
+  try {
+    const doc = await loadDeviceGroups(apiBaseUrl)
+    if (doc.groups.length === 0 && Object.keys(doc.tags).length === 0) return records
+    const fields = doc.groups.some((g) => g.type === "dynamic") ? await inventoryFieldsFor(apiBaseUrl) : undefined
+    return records.map((record) => (record && typeof record === "object" ? labelDevice(record, doc, fields) : record))
+  } catch (error) {
+    console.error("[DEVICE GROUPS] Labelling devices failed:", error)
+    return records
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders, requireInternalOrAdmin } from "@/lib/api-auth"
+import { captureSnapshot, recordSnapshot, snapshotsDue } from "@/src/lib/devices/history"
+import { loadDeviceSnapshots, loadSnapshotPass, saveDeviceSnapshots, saveSnapshotPass } from "@/src/lib/devices/store"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+export const maxDuration = 60
+
+/** Devices snapshotted per pass, most recently seen first; later passes take the rest. */
+const SNAPSHOT_LOOKUPS = 200
+const SNAPSHOT_CONCURRENCY = 6
+
+/**
+ * Device history pass: snapshots every device that checked in since the
+ * last pass, keeping the snapshot only if something changed, so the history
+ * tab only reads. Meant to be called every hour or so by a scheduler.
+ */
+export async function POST(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ error: "Device history is disabled in the demo environment" }, { status: 403 })
+    }
+
+    // A scheduler presents the internal secret; anyone else needs an admin session.
+    const denied = await requireInternalOrAdmin(request)
+    if (denied) return denied
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const headers = getInternalApiHeaders()
+    const [settings, pass, devicesRes] = await Promise.all([
+      loadOrgSettings(apiBaseUrl).catch(() => undefined),
+      loadSnapshotPass(apiBaseUrl),
+      fetch(`${apiBaseUrl}/api/v1/devices`, { headers, cache: "no-store", signal: AbortSignal.timeout(90000) }),
+    ])
+    if (!devicesRes.ok) throw new Error(`Devices returned ${devicesRes.status}`)
+    const devicesData = await devicesRes.json()
+    const rows: any[] = devicesData?.devices ?? (Array.isArray(devicesData) ? devicesData : [])
+    const lastSeen = new Map(rows.map((row) => [row?.serialNumber, String(row?.lastSeen ?? "")]))
+    const due = snapshotsDue(pass, rows, SNAPSHOT_LOOKUPS)
+
+    const seen = { ...pass.seen }
+    let recorded = 0
+    const queue = [...due]
+    const worker = async () => {
+      for (let serialNumber = queue.shift(); serialNumber; serialNumber = queue.shift()) {
+        try {
+          const res = await fetch(`${apiBaseUrl}/api/v1/device/${encodeURIComponent(serialNumber)}`, { headers, cache: "no-store" })
+          if (!res.ok) continue
+          const device = (await res.json())?.device
+          if (device?.modules) {
+            const result = recordSnapshot(await loadDeviceSnapshots(apiBaseUrl, serialNumber), captureSnapshot(device, settings?.inventory?.fields))
+            if (result.recorded) {
+              await saveDeviceSnapshots(apiBaseUrl, serialNumber, result.doc)
+              recorded++
+            }
+          }
+          seen[serialNumber] = lastSeen.get(serialNumber)!
+        } catch (error) {
+          // Retried on the next pass.
+          console.error(`[DEVICE HISTORY] Snapshot of ${serialNumber} failed:`, error)
+        }
+      }
+    }
+    await Promise.all(Array.from({ length: SNAPSHOT_CONCURRENCY }, worker))
+
+    // Devices gone from the fleet don't need their check-ins remembered
+    await saveSnapshotPass(apiBaseUrl, { seen: Object.fromEntries(Object.entries(seen).filter(([serial]) => lastSeen.has(serial))) })
+    return NextResponse.json({ checked: due.length, recorded, remaining: snapshotsDue({ seen }, rows, rows.length).length })
+  } catch (error) {
+    console.error("[DEVICE HISTORY] Snapshot pass failed:", error)
+    return NextResponse.json(
+      { error: "Failed to snapshot devices", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-roles"
+import { applyTagChanges, validateTagChange } from "@/src/lib/devices/groups"
+import { loadDeviceGroups, saveDeviceGroups } from "@/src/lib/devices/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * Adds and removes tags on one device or a bulk selection. Body:
+ * `{ serials, add?, remove? }`. Returns each device's assigned tags after the change.
+ */
+export async function POST(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ error: "Device tags are disabled in the demo environment" }, { status: 403 })
+    }
+
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const errors = validateTagChange(body)
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid tag change", errors }, { status: 422 })
+    }
+
+    const serials: string[] = [...new Set<string>(body.serials.map((s: string) => s.trim()))]
+    const doc = applyTagChanges(await loadDeviceGroups(apiBaseUrl), serials, { add: body.add, remove: body.remove })
+    await saveDeviceGroups(apiBaseUrl, doc)
+    return NextResponse.json({ tags: Object.fromEntries(serials.map((s) => [s, doc.tags[s] ?? []])) })
+  } catch (error) {
+    console.error("[DEVICE TAGS] POST failed:", error)
+    return NextResponse.json(
+      { error: "Failed to update device tags", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
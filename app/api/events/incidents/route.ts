@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { correlateIncidents, IncidentEvent } from "@/src/lib/events/incidents"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+const HOURS_DEFAULT = 24
+const HOURS_MAX = 168
+
+/**
+ * Incidents over the last `hours` (default 24, at most 168): packages failing
+ * on many devices from the error events, and waves of missing devices per
+ * location from the device list. `window` (minutes) overrides the gap that
+ * still counts as one incident.
+ */
+export async function GET(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ incidents: [], hours: HOURS_DEFAULT })
+    }
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const hours = Math.min(Math.max(parseInt(searchParams.get("hours") ?? "", 10) || HOURS_DEFAULT, 1), HOURS_MAX)
+    const windowParam = parseInt(searchParams.get("window") ?? "", 10)
+    const windowMinutes = windowParam > 0 ? Math.min(windowParam, 24 * 60) : undefined
+
+    const now = new Date()
+    const headers = getInternalApiHeaders()
+    const startDate = new Date(now.getTime() - hours * 3600000).toISOString()
+    const [settings, eventsRes, devicesRes] = await Promise.all([
+      // Without saved settings the defaults (and the built-in error catalog) still correlate
+      loadOrgSettings(apiBaseUrl).catch(() => undefined),
+      fetch(`${apiBaseUrl}/api/v1/events?limit=1000&offset=0&type=error&startDate=${encodeURIComponent(startDate)}`, {
+        headers,
+        cache: "no-store",
+        signal: AbortSignal.timeout(30000),
+      }),
+      fetch(`${apiBaseUrl}/api/v1/devices`, { headers, cache: "no-store", signal: AbortSignal.timeout(90000) }),
+    ])
+    if (!eventsRes.ok) throw new Error(`Events returned ${eventsRes.status}`)
+    if (!devicesRes.ok) throw new Error(`Devices returned ${devicesRes.status}`)
+    const eventsData = await eventsRes.json()
+    const devicesData = await devicesRes.json()
+    const rawEvents: any[] = eventsData?.events ?? (Array.isArray(eventsData) ? eventsData : [])
+    // Same field mapping as the events route.
+    const events = rawEvents.map((e): IncidentEvent => ({
+      device: e.serialNumber || e.device || e.device_id || "unknown",
+      deviceName: e.deviceName,
+      kind: e.eventType || e.kind || "unknown",
+      ts: e.timestamp || e.ts,
+      message: e.message,
+      payload: e.details || e.payload || {},
+    }))
+    const devices = devicesData?.devices ?? (Array.isArray(devicesData) ? devicesData : [])
+
+    const incidents = correlateIncidents(
+      { events, devices, now },
+      {
+        windowMinutes,
+        fields: settings?.inventory?.fields,
+        status: settings?.status,
+        orgCodes: settings?.installErrors?.codes,
+      }
+    )
+    return NextResponse.json({ incidents, hours, truncated: rawEvents.length >= 1000 })
+  } catch (error) {
+    console.error("[INCIDENTS] failed:", error)
+    return NextResponse.json(
+      { error: "Failed to correlate incidents", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
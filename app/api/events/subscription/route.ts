@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth-roles"
+import { loadSubscriptions, saveSubscriptions } from "@/src/lib/events/store"
+import { EventSubscription, normalizeSubscription, validateSubscription } from "@/src/lib/events/subscriptions"
+import { viewUser } from "@/src/lib/views/views"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** The caller's dashboard event subscription; `{}` (the whole fleet) until they save one. */
+export async function GET(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ subscription: {} })
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const doc = await loadSubscriptions(apiBaseUrl)
+    const stored = doc.users[viewUser(guard.user)]
+    // A subscription stored by an older release may no longer validate; fall back to the fleet
+    const subscription: EventSubscription = stored && !validateSubscription(stored).length ? normalizeSubscription(stored) : {}
+    return NextResponse.json({ subscription })
+  } catch (error) {
+    console.error("[EVENT SUBSCRIPTION] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load event subscription", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/** Replaces the caller's subscription. Body: EventSubscription; `{}` subscribes to the whole fleet. */
+export async function PUT(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(
+        { error: "Event subscriptions are disabled in the demo environment" },
+        { status: 403 }
+      )
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const errors = validateSubscription(body)
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid subscription", errors }, { status: 422 })
+    }
+
+    const subscription = normalizeSubscription(body)
+    const doc = await loadSubscriptions(apiBaseUrl)
+    const users = { ...doc.users }
+    if (Object.keys(subscription).length) users[viewUser(guard.user)] = subscription
+    else delete users[viewUser(guard.user)]
+    await saveSubscriptions(apiBaseUrl, { users })
+    return NextResponse.json({ subscription })
+  } catch (error) {
+    console.error("[EVENT SUBSCRIPTION] update failed:", error)
+    return NextResponse.json(
+      { error: "Failed to save event subscription", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
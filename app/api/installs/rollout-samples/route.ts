@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders, requireInternalOrAdmin } from "@/lib/api-auth"
+import { fetchBulkInstallRecords } from "@/app/api/v1/installs/shared"
+import { historyLookupsFor, sampleRollouts } from "@/src/lib/installs/rollout"
+import { loadRolloutSamples, saveRolloutSamples } from "@/src/lib/installs/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+export const maxDuration = 60
+
+/** Package histories read per pass, most recently seen devices first; later passes read the rest. */
+const HISTORY_LOOKUPS = 200
+const HISTORY_CONCURRENCY = 6
+
+/** Package-history responses by serial number; devices whose lookup fails are left for the next pass. */
+async function packageHistories(apiBaseUrl: string, devices: { serialNumber: string; deviceId?: string }[]) {
+  const histories: Record<string, unknown> = {}
+  const queue = [...devices]
+  const worker = async () => {
+    for (let device = queue.shift(); device; device = queue.shift()) {
+      try {
+        const id = device.deviceId || device.serialNumber
+        const res = await fetch(`${apiBaseUrl}/api/v1/device/${encodeURIComponent(id)}/package-history`, {
+          headers: getInternalApiHeaders(),
+          cache: "no-store",
+        })
+        if (res.ok) histories[device.serialNumber] = await res.json()
+      } catch {
+        // Retried on the next pass.
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: HISTORY_CONCURRENCY }, worker))
+  return histories
+}
+
+/**
+ * Rollout sampling pass: records today's counts for each package's rollout
+ * of its newest version and reads the package histories that date when
+ * devices got it, so the rollout pages only read. Meant to be called a few
+ * times a day by a scheduler.
+ */
+export async function POST(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ error: "Rollout sampling is disabled in the demo environment" }, { status: 403 })
+    }
+
+    // A scheduler presents the internal secret; anyone else needs an admin session.
+    const denied = await requireInternalOrAdmin(request)
+    if (denied) return denied
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const [records, stored] = await Promise.all([fetchBulkInstallRecords(), loadRolloutSamples(apiBaseUrl)])
+    const lookups = historyLookupsFor(stored, records, HISTORY_LOOKUPS)
+    const histories = await packageHistories(apiBaseUrl, lookups)
+    const next = sampleRollouts(stored, records, histories, new Date())
+    await saveRolloutSamples(apiBaseUrl, next)
+
+    return NextResponse.json({
+      rollouts: Object.keys(next.reachedAt ?? {}).length,
+      historyLookups: { requested: lookups.length, read: Object.keys(histories).length },
+    })
+  } catch (error) {
+    console.error("[ROLLOUTS] Sampling failed:", error)
+    return NextResponse.json(
+      { error: "Failed to sample rollouts", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
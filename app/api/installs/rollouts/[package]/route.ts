@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth-roles"
+import { fetchBulkInstallRecords } from "@/app/api/v1/installs/shared"
+import {
+  collectRollout,
+  EMPTY_ROLLOUT_SAMPLES,
+  packageKey,
+  parseRolloutFilters,
+  rolloutFilterOptions,
+  rolloutKey,
+  RolloutSamplesDocument,
+  rolloutTimeline,
+  storedReachedAt,
+} from "@/src/lib/installs/rollout"
+import { loadRolloutSamples } from "@/src/lib/installs/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * One package's rollout: counts, the devices not yet on the version and the
+ * daily timeline, from the samples and update times the sampling pass
+ * (`POST /api/installs/rollout-samples`) stored.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ package: string }> }) {
+  try {
+    const { package: packageName } = await params
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ error: "Package not found" }, { status: 404 })
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const filters = parseRolloutFilters(new URL(request.url).searchParams)
+    const records = await fetchBulkInstallRecords()
+    const current = collectRollout(records, packageName, filters)
+    if (!current) {
+      return NextResponse.json({ error: "Package not found" }, { status: 404 })
+    }
+
+    let stored: RolloutSamplesDocument = EMPTY_ROLLOUT_SAMPLES
+    try {
+      stored = await loadRolloutSamples(apiBaseUrl)
+    } catch (error) {
+      console.error("[ROLLOUTS] Loading samples failed:", error)
+    }
+    const samples = stored.rollouts[rolloutKey(current.name, current.version, filters)] ?? []
+    const reachedAt = storedReachedAt(stored, current.name, current.version)
+
+    const now = new Date()
+    const rollout = collectRollout(records, packageName, { ...filters, version: current.version }, reachedAt, samples, now)!
+    const packageRecords = records.filter((r) => packageKey(r?.itemName || "") === rollout.key)
+    return NextResponse.json({
+      rollout,
+      timeline: rolloutTimeline(rollout, samples, now),
+      updateTimes: { known: rollout.devices.filter((d) => d.reachedAt).length, of: rollout.counts.updated },
+      ...rolloutFilterOptions(packageRecords),
+    })
+  } catch (error) {
+    console.error("[ROLLOUTS] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load rollout", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth-roles"
+import { fetchBulkInstallRecords } from "@/app/api/v1/installs/shared"
+import { collectRollouts, parseRolloutFilters, rolloutFilterOptions } from "@/src/lib/installs/rollout"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** Every package's rollout of its newest version, narrowed by `catalogs` and `manifests`. */
+export async function GET(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ rollouts: [], catalogs: [], manifests: [] })
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const { catalogs, manifests } = parseRolloutFilters(new URL(request.url).searchParams)
+    const records = await fetchBulkInstallRecords()
+    return NextResponse.json({ rollouts: collectRollouts(records, { catalogs, manifests }), ...rolloutFilterOptions(records) })
+  } catch (error) {
+    console.error("[ROLLOUTS] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load rollouts", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
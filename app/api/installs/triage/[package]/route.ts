@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth-roles"
+import { loadTriage, saveTriage } from "@/src/lib/installs/store"
+import { applyTriageUpdate, triageKey, validateTriageUpdate } from "@/src/lib/installs/triage"
+import { viewUser } from "@/src/lib/views/views"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * Sets a package's triage status and/or adds a note. Body:
+ * `{ status?, fixedInCatalog?, note?, firstSeen? }`; `firstSeen` is the
+ * earliest failure the page saw, remembered past the device history.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ package: string }> }
+) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(
+        { error: "Install triage is read-only in the demo environment" },
+        { status: 403 }
+      )
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const errors = validateTriageUpdate(body)
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid triage update", errors }, { status: 422 })
+    }
+
+    const { package: packageName } = await params
+    const key = triageKey(packageName)
+    if (!key) {
+      return NextResponse.json({ error: "Package name is required" }, { status: 400 })
+    }
+
+    const doc = await loadTriage(apiBaseUrl)
+    const triage = applyTriageUpdate(doc.packages[key], packageName.trim(), body, viewUser(guard.user))
+    await saveTriage(apiBaseUrl, { packages: { ...doc.packages, [key]: triage } })
+    return NextResponse.json({ triage })
+  } catch (error) {
+    console.error("[TRIAGE] PUT failed:", error)
+    return NextResponse.json(
+      { error: "Failed to update install triage", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth-roles"
+import { loadTriage } from "@/src/lib/installs/store"
+import { EMPTY_TRIAGE_DOCUMENT } from "@/src/lib/installs/triage"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** Triage state for every package that has any, keyed by triageKey. */
+export async function GET(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(EMPTY_TRIAGE_DOCUMENT)
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    return NextResponse.json(await loadTriage(apiBaseUrl))
+  } catch (error) {
+    console.error("[TRIAGE] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load install triage", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { loadReportFile, loadReportRuns } from "@/src/lib/reports/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** Downloads a past run's report file. */
+export async function GET(_request: Request, { params }: { params: Promise<{ runId: string }> }) {
+  try {
+    const { runId } = await params
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const run = (await loadReportRuns(apiBaseUrl)).find((r) => r.id === runId)
+    const file = run?.fileName ? await loadReportFile(apiBaseUrl, run.id) : null
+    if (!run?.fileName || !file) {
+      return NextResponse.json({ error: "Report file not found" }, { status: 404 })
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.headers.get("content-type") || "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${run.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[REPORTS] GET file failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load report file", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
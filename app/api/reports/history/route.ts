@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { loadReportRuns } from "@/src/lib/reports/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** The report history, newest first; `?scheduleId=` narrows it to one schedule. */
+export async function GET(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ runs: [] })
+    }
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const scheduleId = new URL(request.url).searchParams.get("scheduleId")
+    const runs = await loadReportRuns(apiBaseUrl)
+    return NextResponse.json({ runs: scheduleId ? runs.filter((r) => r.scheduleId === scheduleId) : runs })
+  } catch (error) {
+    console.error("[REPORTS] GET runs failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load report history", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
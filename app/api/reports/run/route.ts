@@ -0,0 +1,131 @@
+import { randomUUID } from "node:crypto"
+import { NextResponse } from "next/server"
+import { requireInternalOrAdmin } from "@/lib/api-auth"
+import { deliverReport } from "@/src/lib/reports/delivery"
+import { parseReportUrl } from "@/src/lib/reports/definition"
+import { loadReportTable } from "@/src/lib/reports/load"
+import { renderReport } from "@/src/lib/reports/render"
+import { dueSlot, lastSlots, reportFileName, ReportRun } from "@/src/lib/reports/schedule"
+import { loadReportRuns, recordReportRuns, saveReportFile } from "@/src/lib/reports/store"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+import type { AlertChannel, ReportSchedule } from "@/src/lib/settings/types"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** Loads, renders, stores and delivers one report. Never throws; a failure
+ * is recorded on the run. */
+async function runReport(
+  schedule: ReportSchedule,
+  slot: Date,
+  manual: boolean,
+  channels: AlertChannel[],
+  apiBaseUrl: string
+): Promise<ReportRun> {
+  const startedAt = new Date()
+  const run: ReportRun = {
+    id: randomUUID(),
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    url: schedule.url,
+    slot: slot.toISOString(),
+    ...(manual ? { manual: true } : {}),
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    status: "failed",
+    format: schedule.format,
+    deliveries: [],
+  }
+  try {
+    const parsed = parseReportUrl(schedule.url)
+    if ("error" in parsed) throw new Error(`url ${parsed.error}`)
+    const table = await loadReportTable(parsed.report)
+    const file = renderReport(table, schedule.format, startedAt)
+    await saveReportFile(apiBaseUrl, run.id, file.contentType, file.content)
+    run.fileName = reportFileName(schedule, slot, schedule.format)
+    run.rowCount = table.rows.length
+    run.status = "succeeded"
+
+    const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_SITE_URL
+    const targets = channels.filter((c) => c.enabled !== false && schedule.channels.includes(c.id))
+    run.deliveries = await Promise.all(
+      targets.map((channel) =>
+        deliverReport(channel, { run, title: schedule.name, description: table.title, rowCount: table.rows.length, file }, { baseUrl })
+      )
+    )
+    for (const d of run.deliveries) {
+      if (!d.ok) console.error(`[REPORTS] delivery of ${schedule.id} to ${d.channelId} failed: ${d.error}`)
+    }
+  } catch (error) {
+    run.error = error instanceof Error ? error.message : String(error)
+    console.error(`[REPORTS] ${schedule.id} failed:`, error)
+  }
+  run.finishedAt = new Date().toISOString()
+  return run
+}
+
+/**
+ * Runs the report schedules that are due, or `{ scheduleId }` right away
+ * ("Run now"), and records each run in the report history. Meant to be
+ * called every few minutes by a scheduler, like the alerting pass.
+ */
+export async function POST(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(
+        { error: "Scheduled reports are disabled in the demo environment" },
+        { status: 403 }
+      )
+    }
+
+    const denied = await requireInternalOrAdmin(request)
+    if (denied) return denied
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const scheduleId: unknown = body?.scheduleId
+    if (scheduleId !== undefined && typeof scheduleId !== "string") {
+      return NextResponse.json({ error: "scheduleId must be a string" }, { status: 400 })
+    }
+
+    const settings = await loadOrgSettings(apiBaseUrl).catch(() => undefined)
+    if (!settings) {
+      return NextResponse.json({ error: "Failed to load saved settings" }, { status: 502 })
+    }
+    const schedules = settings.reports?.schedules ?? []
+    const channels = settings.alerts?.channels ?? []
+
+    const now = new Date()
+    let due: { schedule: ReportSchedule; slot: Date; manual: boolean }[]
+    if (scheduleId !== undefined) {
+      const schedule = schedules.find((s) => s.id === scheduleId)
+      if (!schedule) return NextResponse.json({ error: "Schedule not found" }, { status: 404 })
+      due = [{ schedule, slot: now, manual: true }]
+    } else {
+      const last = lastSlots(await loadReportRuns(apiBaseUrl))
+      due = schedules.flatMap((schedule) => {
+        const slot = dueSlot(schedule, last.get(schedule.id), now)
+        return slot ? [{ schedule, slot, manual: false }] : []
+      })
+    }
+
+    // One at a time: each loads a full report through the API.
+    const runs: ReportRun[] = []
+    for (const { schedule, slot, manual } of due) {
+      runs.push(await runReport(schedule, slot, manual, channels, apiBaseUrl))
+    }
+    if (runs.length) await recordReportRuns(apiBaseUrl, runs)
+
+    return NextResponse.json({ ran: runs.length, runs })
+  } catch (error) {
+    console.error("[REPORTS] run failed:", error)
+    return NextResponse.json(
+      { error: "Report run failed", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
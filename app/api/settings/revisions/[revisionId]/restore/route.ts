@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { requireAdmin } from "@/lib/auth-roles"
+import { migrateSettings } from "@/src/lib/settings/migrate"
+import { validateSettingsDocument } from "@/src/lib/settings/validate"
+import type { SettingsRevision } from "@/src/lib/settings/types"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * Restore an older revision: its document is migrated to the current schema
+ * and saved as a new revision (history is never rewritten). The new revision
+ * records which one it was restored from.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ revisionId: string }> }
+) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(
+        { error: "Settings are read-only in the demo environment" },
+        { status: 403 }
+      )
+    }
+
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const { revisionId } = await params
+    const revisionRes = await fetch(`${apiBaseUrl}/api/v1/settings/revisions/${encodeURIComponent(revisionId)}`, {
+      headers: getInternalApiHeaders(),
+      cache: "no-store",
+    })
+    if (!revisionRes.ok) {
+      return NextResponse.json({ error: "Revision not found" }, { status: revisionRes.status })
+    }
+    const revision = (await revisionRes.json()) as SettingsRevision
+    if (!revision?.value || typeof revision.value !== "object") {
+      return NextResponse.json({ error: "Revision has no settings document" }, { status: 422 })
+    }
+
+    // Validated after migration: that's the document that gets saved.
+    const restored = migrateSettings(revision.value)
+    const errors = validateSettingsDocument(restored)
+    if (errors.length) {
+      return NextResponse.json({ error: "Revision is not a valid settings document", errors }, { status: 422 })
+    }
+
+    const headers = getInternalApiHeaders()
+    const actor = guard.user?.email
+    if (actor) headers["X-Updated-By"] = actor
+    headers["X-Restored-From"] = String(revision.id ?? revisionId)
+
+    const response = await fetch(`${apiBaseUrl}/api/v1/settings`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify(restored),
+      cache: "no-store",
+    })
+
+    const data = await response.json()
+    return NextResponse.json(data, { status: response.ok ? 200 : response.status })
+  } catch (error) {
+    console.error("[SETTINGS] revision restore failed:", error)
+    return NextResponse.json(
+      { error: "Failed to restore settings revision", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { requireAdmin } from "@/lib/auth-roles"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** One settings revision with its full document, as stored (not migrated). */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ revisionId: string }> }
+) {
+  try {
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const { revisionId } = await params
+    const response = await fetch(`${apiBaseUrl}/api/v1/settings/revisions/${encodeURIComponent(revisionId)}`, {
+      headers: getInternalApiHeaders(),
+      cache: "no-store",
+    })
+
+    const data = await response.json()
+    return NextResponse.json(data, { status: response.ok ? 200 : response.status })
+  } catch (error) {
+    console.error("[SETTINGS] revision GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load settings revision", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { requireAdmin } from "@/lib/auth-roles"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** Settings revision history, newest first. `?limit=` is passed through. */
+export async function GET(request: Request) {
+  try {
+    // History exposes who changed what, so it's admin-only.
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const limit = new URL(request.url).searchParams.get("limit")
+    const query = limit ? `?limit=${encodeURIComponent(limit)}` : ""
+    const response = await fetch(`${apiBaseUrl}/api/v1/settings/revisions${query}`, {
+      headers: getInternalApiHeaders(),
+      cache: "no-store",
+    })
+
+    const data = await response.json()
+    return NextResponse.json(data, { status: response.ok ? 200 : response.status })
+  } catch (error) {
+    console.error("[SETTINGS] revisions GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load settings history", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
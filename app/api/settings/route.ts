@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server"
 import { getInternalApiHeaders } from "@/lib/api-auth"
 import { requireAdmin } from "@/lib/auth-roles"
+import { validateSettingsDocument } from "@/src/lib/settings/validate"
 
 export const dynamic = "force-dynamic"
 export const revalidate = 0
@@ -49,6 +50,10 @@ export async function PUT(request: Request) {
     }
 
     const body = await request.json()
+    const errors = validateSettingsDocument(body)
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid settings", errors }, { status: 422 })
+    }
 
     const headers = getInternalApiHeaders()
     const actor = guard.user?.email
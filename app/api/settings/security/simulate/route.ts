@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server"
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { requireAdmin } from "@/lib/auth-roles"
+import { labelDeviceRecords } from "@/app/api/devices/groups/shared"
+import { withDefaults } from "@/src/lib/settings/defaults"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+import { validateSettingsDocument } from "@/src/lib/settings/validate"
+import { deviceRecordContexts, simulateSecurityRules } from "@/src/lib/rules/simulate"
+import type { SecurityConfig } from "@/src/lib/settings/types"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * Dry-run a draft SecurityConfig: evaluates the `/api/v1/security` device list
+ * with the saved config and with the draft, and returns the severity diff.
+ * Rules match on each device's `/api/v1/devices` record, as on the device page.
+ * Body: `{ security: SecurityConfig }`. Nothing is persisted.
+ */
+export async function POST(request: Request) {
+  try {
+    // Simulation exposes per-device inventory, so it's admin-only like discovery.
+    const guard = await requireAdmin(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const draft = body?.security as SecurityConfig | undefined
+    if (!draft || typeof draft !== "object" || !Array.isArray(draft.rules)) {
+      return NextResponse.json({ error: "Body must be { security: SecurityConfig }" }, { status: 400 })
+    }
+
+    const headers = getInternalApiHeaders()
+    const [saved, securityRes, devicesRes] = await Promise.all([
+      loadOrgSettings(apiBaseUrl).catch(() => undefined),
+      fetch(`${apiBaseUrl}/api/v1/security`, { headers, cache: "no-store", signal: AbortSignal.timeout(90000) }),
+      fetch(`${apiBaseUrl}/api/v1/devices`, { headers, cache: "no-store", signal: AbortSignal.timeout(90000) }),
+    ])
+    if (!saved) {
+      return NextResponse.json({ error: "Failed to load saved settings" }, { status: 502 })
+    }
+    if (!securityRes.ok) {
+      return NextResponse.json({ error: "Security data not available" }, { status: 503 })
+    }
+    if (!devicesRes.ok) {
+      return NextResponse.json({ error: "Device data not available" }, { status: 503 })
+    }
+
+    const errors = validateSettingsDocument({ ...saved, security: draft })
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid security rules", errors }, { status: 422 })
+    }
+    const devices = await securityRes.json()
+    const devicesData = await devicesRes.json()
+    const records = devicesData?.devices ?? (Array.isArray(devicesData) ? devicesData : [])
+    // Labelled like the devices route so rules on tags and groups match too
+    const contexts = deviceRecordContexts(await labelDeviceRecords(apiBaseUrl, records), saved.inventory?.fields)
+
+    const result = simulateSecurityRules(
+      Array.isArray(devices) ? devices : [],
+      saved.security!,
+      withDefaults({ ...saved, security: draft }).security!,
+      saved.inventory?.fields,
+      contexts
+    )
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("[SETTINGS] security simulate failed:", error)
+    return NextResponse.json(
+      { error: "Rule simulation failed", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getInternalApiHeaders } from '@/lib/api-auth'
+import { labelDeviceRecords } from '@/app/api/devices/groups/shared'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
@@ -49,6 +50,11 @@ export async function GET(request: NextRequest) {
 
     const fastApiData = await response.json()
 
+    // Tags and groups assigned in ReportMate ride along on each row
+    if (Array.isArray(fastApiData?.devices)) {
+      fastApiData.devices = await labelDeviceRecords(apiBaseUrl, fastApiData.devices)
+    }
+
     // No PowerShell-object conversion here: the fleet list payload was
     // audited (all ~880 devices) and contains no '@{...}' strings — modern
     // clients send clean JSON and every active device's stored data is
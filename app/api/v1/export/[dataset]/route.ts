@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server"
+import {
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  ExportDataset,
+  ExportFormat,
+  exportColumns,
+  exportRows,
+  indexDevices,
+  parseExportFilters,
+} from "@/src/lib/export/datasets"
+import { loadExport } from "@/src/lib/export/load"
+import { EXPORT_CONTENT_TYPES, exportStream } from "@/src/lib/export/stream"
+import { withDefaults } from "@/src/lib/settings/defaults"
+import { loadOrgSettings } from "@/src/lib/settings/store"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** The org's settings (inventory field mapping, minimum client versions); the defaults if they can't be read. */
+async function orgSettings(apiBaseUrl: string) {
+  try {
+    return await loadOrgSettings(apiBaseUrl)
+  } catch (error) {
+    console.error("[EXPORT] settings unavailable, using defaults:", error)
+    return withDefaults(undefined)
+  }
+}
+
+/**
+ * Streams a fleet list as CSV (default), NDJSON or XLSX:
+ * `/api/v1/export/{dataset}?format=xlsx&platform=mac&usages=Lab&q=studio`.
+ * Honours the list pages' `platform`, `usages`, `catalogs`, `locations` and
+ * `q` params (and `below=1` for clients), and adds the visible inventory
+ * fields as columns.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ dataset: string }> }) {
+  try {
+    const { dataset } = await params
+    if (!(EXPORT_DATASETS as readonly string[]).includes(dataset)) {
+      return NextResponse.json({ error: `Unknown export "${dataset}"`, datasets: EXPORT_DATASETS }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get("format") ?? "csv"
+    if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 })
+    }
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const filters = parseExportFilters(searchParams)
+    const settings = await orgSettings(apiBaseUrl)
+    const fields = settings.inventory!.fields
+    const { rows, devices } = await loadExport(dataset as ExportDataset, filters, settings.clientVersions)
+    const columns = exportColumns(dataset as ExportDataset, fields)
+    const cells = exportRows(rows, columns, filters, indexDevices(devices), fields)
+    const title = dataset.charAt(0).toUpperCase() + dataset.slice(1)
+    const fileName = `${dataset}-${new Date().toISOString().slice(0, 10)}.${format}`
+
+    return new Response(exportStream(format as ExportFormat, columns, cells, title), {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format as ExportFormat],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[EXPORT] failed:", error)
+    return NextResponse.json(
+      { error: "Export failed", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
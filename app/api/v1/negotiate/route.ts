@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { getInternalApiHeaders } from '@/lib/api-auth'
+import { parseSubscription, subscriptionGroups, validateSubscription } from '@/src/lib/events/subscriptions'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
@@ -11,17 +12,31 @@ export const revalidate = 0
  * The upstream negotiate endpoint mints real-time access tokens, so it must
  * never be reachable anonymously: the session gate in middleware.ts fronts
  * this route, and the internal secret authenticates the proxy hop.
+ *
+ * `scope`, `values` and `severities` pick the part of the event stream the
+ * client wants (see src/lib/events/subscriptions.ts). They are turned into
+ * Web PubSub groups here and forwarded as `groups`, so FastAPI mints a token
+ * that joins only those groups; without them the token joins `fleet`.
  */
 export async function GET(request: Request) {
-  try {
-    const { searchParams } = new URL(request.url)
+  const { searchParams } = new URL(request.url)
+  const subscription = parseSubscription(searchParams)
+  const errors = validateSubscription(subscription)
+  if (errors.length) {
+    return NextResponse.json({ error: 'Invalid subscription', errors }, { status: 422 })
+  }
 
+  try {
     const apiBaseUrl = process.env.API_BASE_URL
     if (!apiBaseUrl) {
       throw new Error('API_BASE_URL not configured')
     }
 
-    const fastApiUrl = `${apiBaseUrl}/api/v1/negotiate?${searchParams.toString()}`
+    const upstreamParams = new URLSearchParams(searchParams)
+    for (const key of ['scope', 'values', 'severities']) upstreamParams.delete(key)
+    upstreamParams.set('groups', subscriptionGroups(subscription).join(','))
+
+    const fastApiUrl = `${apiBaseUrl}/api/v1/negotiate?${upstreamParams.toString()}`
 
     const headers = getInternalApiHeaders()
 
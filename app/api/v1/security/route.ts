@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { getInternalApiHeaders } from '@/lib/api-auth'
+import { labelDeviceRecords } from '@/app/api/devices/groups/shared'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
@@ -36,7 +37,9 @@ export async function GET(request: Request) {
         throw new Error(`FastAPI error: ${response.status} ${response.statusText}`)
       }
       
-      const securityData = await response.json()
+      const fetched = await response.json()
+      // Tags and groups assigned in ReportMate, for the security rules to match on
+      const securityData = Array.isArray(fetched) ? await labelDeviceRecords(apiBaseUrl, fetched) : fetched
       console.log(`[SECURITY API] ${timestamp} - Retrieved ${Array.isArray(securityData) ? securityData.length : 0} devices`)
             
       // Data is already formatted by FastAPI /api/v1/security endpoint
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server"
+import { isAdmin, requireUser } from "@/lib/auth-roles"
+import { loadViews, saveViews } from "@/src/lib/views/store"
+import {
+  canEditView,
+  normalizeViewQuery,
+  removeView,
+  unshareView,
+  validateViewInput,
+  viewUser,
+  visibleViews,
+} from "@/src/lib/views/views"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+function demoModeResponse() {
+  return NextResponse.json(
+    { error: "Saved views are disabled in the demo environment" },
+    { status: 403 }
+  )
+}
+
+/**
+ * Renames a view, replaces its filters or changes whether it is shared. Body:
+ * `{ name?, query?, shared? }`; the page a view belongs to can't change.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ viewId: string }> }
+) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") return demoModeResponse()
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const errors = validateViewInput(body, true)
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid view", errors }, { status: 422 })
+    }
+
+    const { viewId } = await params
+    const user = viewUser(guard.user)
+    let doc = await loadViews(apiBaseUrl)
+    const view = visibleViews(doc.views, user).find((v) => v.id === viewId)
+    if (!view) {
+      return NextResponse.json({ error: "No view with that id" }, { status: 404 })
+    }
+    if (!canEditView(view, user, isAdmin(guard))) {
+      return NextResponse.json({ error: "Only the owner or an administrator can change this view" }, { status: 403 })
+    }
+
+    if (view.shared && body.shared === false) doc = unshareView(doc, viewId)
+    const updated = {
+      ...view,
+      ...(body.name !== undefined && { name: body.name.trim() }),
+      ...(body.query !== undefined && { query: normalizeViewQuery(body.query) }),
+      ...(body.shared !== undefined && { shared: body.shared }),
+      updatedAt: new Date().toISOString(),
+    }
+    await saveViews(apiBaseUrl, { ...doc, views: doc.views.map((v) => (v.id === viewId ? updated : v)) })
+    return NextResponse.json({ view: updated })
+  } catch (error) {
+    console.error("[VIEWS] PATCH failed:", error)
+    return NextResponse.json(
+      { error: "Failed to update view", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/** Deletes a view, and every user's pin or default on it. */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ viewId: string }> }
+) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") return demoModeResponse()
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const { viewId } = await params
+    const user = viewUser(guard.user)
+    const doc = await loadViews(apiBaseUrl)
+    const view = visibleViews(doc.views, user).find((v) => v.id === viewId)
+    if (!view) {
+      return NextResponse.json({ error: "No view with that id" }, { status: 404 })
+    }
+    if (!canEditView(view, user, isAdmin(guard))) {
+      return NextResponse.json({ error: "Only the owner or an administrator can delete this view" }, { status: 403 })
+    }
+
+    await saveViews(apiBaseUrl, removeView(doc, viewId))
+    return NextResponse.json({ deleted: viewId })
+  } catch (error) {
+    console.error("[VIEWS] DELETE failed:", error)
+    return NextResponse.json(
+      { error: "Failed to delete view", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
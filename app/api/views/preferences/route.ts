@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth-roles"
+import { loadViews, saveViews } from "@/src/lib/views/store"
+import { validatePreferences, viewUser, ViewPreferences, visibleViews } from "@/src/lib/views/views"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** Replaces the caller's pinned views and per-page defaults. Body: ViewPreferences. */
+export async function PUT(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(
+        { error: "Saved views are disabled in the demo environment" },
+        { status: 403 }
+      )
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const user = viewUser(guard.user)
+    const body = await request.json().catch(() => null)
+    const doc = await loadViews(apiBaseUrl)
+    const errors = validatePreferences(body, visibleViews(doc.views, user))
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid view preferences", errors }, { status: 422 })
+    }
+
+    const preferences: ViewPreferences = { pinned: [...new Set<string>(body.pinned)], defaults: body.defaults }
+    await saveViews(apiBaseUrl, { ...doc, preferences: { ...doc.preferences, [user]: preferences } })
+    return NextResponse.json({ preferences })
+  } catch (error) {
+    console.error("[VIEWS] preferences update failed:", error)
+    return NextResponse.json(
+      { error: "Failed to save view preferences", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
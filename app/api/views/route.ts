@@ -0,0 +1,91 @@
+import { randomUUID } from "node:crypto"
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth-roles"
+import { loadViews, saveViews } from "@/src/lib/views/store"
+import {
+  normalizeViewQuery,
+  preferencesFor,
+  SavedView,
+  validateViewInput,
+  viewUser,
+  ViewsResponse,
+  visibleViews,
+} from "@/src/lib/views/views"
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/** The caller's views (shared and their own), pins and per-page defaults. */
+export async function GET(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json({ views: [], preferences: { pinned: [], defaults: {} }, user: "" } satisfies ViewsResponse)
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const user = viewUser(guard.user)
+    const doc = await loadViews(apiBaseUrl)
+    const views = visibleViews(doc.views, user).sort((a, b) => a.name.localeCompare(b.name))
+    return NextResponse.json({ views, preferences: preferencesFor(doc, user), user } satisfies ViewsResponse)
+  } catch (error) {
+    console.error("[VIEWS] GET failed:", error)
+    return NextResponse.json(
+      { error: "Failed to load saved views", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/** Saves a view. Body: `{ name, path, query?, shared? }`. */
+export async function POST(request: Request) {
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO_MODE === "true") {
+      return NextResponse.json(
+        { error: "Saved views are disabled in the demo environment" },
+        { status: 403 }
+      )
+    }
+
+    const guard = await requireUser(request)
+    if (guard instanceof NextResponse) return guard
+
+    const apiBaseUrl = process.env.API_BASE_URL
+    if (!apiBaseUrl) {
+      return NextResponse.json({ error: "API_BASE_URL not configured" }, { status: 500 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const errors = validateViewInput(body)
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid view", errors }, { status: 422 })
+    }
+
+    const now = new Date().toISOString()
+    const view: SavedView = {
+      id: randomUUID(),
+      name: body.name.trim(),
+      path: body.path,
+      query: normalizeViewQuery(body.query ?? ""),
+      shared: body.shared === true,
+      owner: viewUser(guard.user),
+      createdAt: now,
+      updatedAt: now,
+    }
+    const doc = await loadViews(apiBaseUrl)
+    await saveViews(apiBaseUrl, { ...doc, views: [...doc.views, view] })
+    return NextResponse.json({ view }, { status: 201 })
+  } catch (error) {
+    console.error("[VIEWS] POST failed:", error)
+    return NextResponse.json(
+      { error: "Failed to save view", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    )
+  }
+}
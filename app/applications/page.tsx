@@ -11,6 +11,7 @@ import { PlatformBadge } from '@/src/components/ui/PlatformBadge'
 import { usePlatformFilterSafe } from '@/src/providers/PlatformFilterProvider'
 import { CollapsibleSection } from '@/src/components/ui/CollapsibleSection'
 import { useScrollCollapse } from '@/src/hooks/useScrollCollapse'
+import { useInventoryNormalizer } from '@/src/hooks/useInventoryNormalizer'
 import DeviceFilters, { FilterOptions as SharedFilterOptions } from '@/src/components/shared/DeviceFilters'
 
 interface ApplicationItem {
@@ -600,6 +601,21 @@ function ApplicationsPageContent() {
   const [selectedRooms, setSelectedRooms] = useState<string[]>([])
   const [selectedFleets, setSelectedFleets] = useState<string[]>([])
   const [selectedAreas, setSelectedAreas] = useState<string[]>([])
+  // Options and selections are normalized values (Settings > Inventory
+  // aliases); the applications API and rows still carry the raw spellings.
+  const normalize = useInventoryNormalizer()
+  const rawFilters = useMemo(() => {
+    // Usage, catalog and location are matched lowercased, as their toggles store them
+    const lower = (values: string[]) => Array.from(new Set(values.map(v => v.toLowerCase())))
+    return {
+      usages: lower(normalize.expand('usage', selectedUsages, filterOptions.usages)),
+      catalogs: lower(normalize.expand('catalog', selectedCatalogs, filterOptions.catalogs)),
+      locations: lower(normalize.expand('location', selectedLocations, filterOptions.locations)),
+      rooms: normalize.expand('location', selectedRooms, filterOptions.rooms),
+      fleets: normalize.expand('fleet', selectedFleets, filterOptions.fleets),
+      areas: normalize.expand('area', selectedAreas, filterOptions.areas),
+    }
+  }, [normalize, filterOptions, selectedUsages, selectedCatalogs, selectedLocations, selectedRooms, selectedFleets, selectedAreas])
   const [selectedVersions, setSelectedVersions] = useState<string[]>([])
   
   // Track last applied filters to detect changes
@@ -1158,23 +1174,23 @@ function ApplicationsPageContent() {
       if (selectedApplications.length > 0) {
         params.set('applicationNames', selectedApplications.join(','))
       }
-      if (selectedUsages.length > 0) {
-        params.set('usages', selectedUsages.join(','))
+      if (rawFilters.usages.length > 0) {
+        params.set('usages', rawFilters.usages.join(','))
       }
-      if (selectedCatalogs.length > 0) {
-        params.set('catalogs', selectedCatalogs.join(','))
+      if (rawFilters.catalogs.length > 0) {
+        params.set('catalogs', rawFilters.catalogs.join(','))
       }
-      if (selectedLocations.length > 0) {
-        params.set('locations', selectedLocations.join(','))
+      if (rawFilters.locations.length > 0) {
+        params.set('locations', rawFilters.locations.join(','))
       }
-      if (selectedAreas.length > 0) {
-        params.set('areas', selectedAreas.join(','))
+      if (rawFilters.areas.length > 0) {
+        params.set('areas', rawFilters.areas.join(','))
       }
-      if (selectedFleets.length > 0) {
-        params.set('fleets', selectedFleets.join(','))
+      if (rawFilters.fleets.length > 0) {
+        params.set('fleets', rawFilters.fleets.join(','))
       }
-      if (selectedRooms.length > 0) {
-        params.set('rooms', selectedRooms.join(','))
+      if (rawFilters.rooms.length > 0) {
+        params.set('rooms', rawFilters.rooms.join(','))
       }
       if (platformFilter !== 'all') {
         params.set('platforms', platformFilter)
@@ -1265,12 +1281,12 @@ function ApplicationsPageContent() {
       if (selectedAppsParam) {
         inventoryParams.set('applicationNames', selectedAppsParam)
       }
-      if (selectedUsages.length) inventoryParams.set('usages', selectedUsages.join(','))
-      if (selectedCatalogs.length) inventoryParams.set('catalogs', selectedCatalogs.join(','))
-      if (selectedAreas.length) inventoryParams.set('areas', selectedAreas.join(','))
-      if (selectedFleets.length) inventoryParams.set('fleets', selectedFleets.join(','))
-      if (selectedRooms.length) inventoryParams.set('rooms', selectedRooms.join(','))
-      if (selectedLocations.length) inventoryParams.set('locations', selectedLocations.join(','))
+      if (rawFilters.usages.length) inventoryParams.set('usages', rawFilters.usages.join(','))
+      if (rawFilters.catalogs.length) inventoryParams.set('catalogs', rawFilters.catalogs.join(','))
+      if (rawFilters.areas.length) inventoryParams.set('areas', rawFilters.areas.join(','))
+      if (rawFilters.fleets.length) inventoryParams.set('fleets', rawFilters.fleets.join(','))
+      if (rawFilters.rooms.length) inventoryParams.set('rooms', rawFilters.rooms.join(','))
+      if (rawFilters.locations.length) inventoryParams.set('locations', rawFilters.locations.join(','))
       if (platformFilter !== 'all') inventoryParams.set('platforms', platformFilter)
       // Without an applicationNames filter, raise the per-page cap so the broader
       // scope (e.g. area=Animation) still surfaces enough apps to render the report.
@@ -1286,12 +1302,12 @@ function ApplicationsPageContent() {
         ? (() => {
             const dp = new URLSearchParams()
             dp.set('applicationNames', selectedAppsParam)
-            if (selectedUsages.length) dp.set('usages', selectedUsages.join(','))
-            if (selectedCatalogs.length) dp.set('catalogs', selectedCatalogs.join(','))
-            if (selectedAreas.length) dp.set('areas', selectedAreas.join(','))
-            if (selectedFleets.length) dp.set('fleets', selectedFleets.join(','))
-            if (selectedRooms.length) dp.set('rooms', selectedRooms.join(','))
-            if (selectedLocations.length) dp.set('locations', selectedLocations.join(','))
+            if (rawFilters.usages.length) dp.set('usages', rawFilters.usages.join(','))
+            if (rawFilters.catalogs.length) dp.set('catalogs', rawFilters.catalogs.join(','))
+            if (rawFilters.areas.length) dp.set('areas', rawFilters.areas.join(','))
+            if (rawFilters.fleets.length) dp.set('fleets', rawFilters.fleets.join(','))
+            if (rawFilters.rooms.length) dp.set('rooms', rawFilters.rooms.join(','))
+            if (rawFilters.locations.length) dp.set('locations', rawFilters.locations.join(','))
             if (platformFilter !== 'all') dp.set('platforms', platformFilter)
             return `/api/v1/applications/distribution?${dp.toString()}`
           })()
@@ -1526,18 +1542,18 @@ function ApplicationsPageContent() {
     // Note: API already filtered by applicationNames (using substring matching for inclusiveness)
     // Client-side only applies inventory filters (usage, catalog, location, etc.)
     
-    const matchesUsages = selectedUsages.length === 0 || selectedUsages.includes(app.usage?.toLowerCase() || '')
-    const matchesCatalogs = selectedCatalogs.length === 0 || selectedCatalogs.includes(app.catalog?.toLowerCase() || '')
-    const matchesLocations = selectedLocations.length === 0 || selectedLocations.includes(app.location?.toLowerCase() || '')
-    const matchesRooms = selectedRooms.length === 0 ||
-      selectedRooms.some(room =>
+    const matchesUsages = rawFilters.usages.length === 0 || rawFilters.usages.includes(app.usage?.toLowerCase() || '')
+    const matchesCatalogs = rawFilters.catalogs.length === 0 || rawFilters.catalogs.includes(app.catalog?.toLowerCase() || '')
+    const matchesLocations = rawFilters.locations.length === 0 || rawFilters.locations.includes(app.location?.toLowerCase() || '')
+    const matchesRooms = rawFilters.rooms.length === 0 ||
+      rawFilters.rooms.some(room =>
         app.location?.toLowerCase().includes(room.toLowerCase()) ||
         app.room?.toLowerCase().includes(room.toLowerCase())
       )
     const appFleet = (app.fleet || '').toLowerCase()
-    const matchesFleets = selectedFleets.length === 0 || selectedFleets.some(f => f.toLowerCase() === appFleet)
+    const matchesFleets = rawFilters.fleets.length === 0 || rawFilters.fleets.some(f => f.toLowerCase() === appFleet)
     const appArea = (app.department || (app as any).area || '').toLowerCase()
-    const matchesAreas = selectedAreas.length === 0 || selectedAreas.some(a => a.toLowerCase() === appArea)
+    const matchesAreas = rawFilters.areas.length === 0 || rawFilters.areas.some(a => a.toLowerCase() === appArea)
 
     return matchesSearch && matchesUsages && matchesCatalogs && matchesLocations && matchesRooms && matchesFleets && matchesAreas
   })
@@ -1731,11 +1747,11 @@ function ApplicationsPageContent() {
       if (devicesWithApp.has(device.serialNumber)) return false
       
       // Apply same filters as the report
-      if (selectedUsages.length > 0 && !selectedUsages.includes(device.usage?.toLowerCase() || '')) return false
-      if (selectedCatalogs.length > 0 && !selectedCatalogs.includes(device.catalog?.toLowerCase() || '')) return false
-      if (selectedLocations.length > 0 && !selectedLocations.includes(device.location?.toLowerCase() || '')) return false
-      if (selectedRooms.length > 0) {
-        const matchesRoom = selectedRooms.some(room => 
+      if (rawFilters.usages.length > 0 && !rawFilters.usages.includes(device.usage?.toLowerCase() || '')) return false
+      if (rawFilters.catalogs.length > 0 && !rawFilters.catalogs.includes(device.catalog?.toLowerCase() || '')) return false
+      if (rawFilters.locations.length > 0 && !rawFilters.locations.includes(device.location?.toLowerCase() || '')) return false
+      if (rawFilters.rooms.length > 0) {
+        const matchesRoom = rawFilters.rooms.some(room => 
           device.location?.toLowerCase().includes(room.toLowerCase()) || 
           device.room?.toLowerCase().includes(room.toLowerCase())
         )
@@ -1775,7 +1791,7 @@ function ApplicationsPageContent() {
       const comparison = aVal.localeCompare(bVal)
       return missingTableSortDirection === 'asc' ? comparison : -comparison
     })
-  }, [allDevices, baseFilteredApplications, selectedApplications, selectedUsages, selectedCatalogs, selectedLocations, selectedRooms, reportMode, missingTableSortColumn, missingTableSortDirection])
+  }, [allDevices, baseFilteredApplications, selectedApplications, rawFilters, reportMode, missingTableSortColumn, missingTableSortDirection])
 
   // Version analysis - group by NORMALIZED application name and version
   // Uses baseFilteredApplications (without version filter) so widgets always show all versions.
@@ -2398,11 +2414,11 @@ function ApplicationsPageContent() {
           {!filtersLoading && (() => {
             const sharedFilterOptions: SharedFilterOptions = {
               statuses: [],
-              usages: filterOptions.usages,
-              catalogs: filterOptions.catalogs,
-              areas: filterOptions.areas,
-              locations: filterOptions.rooms,
-              fleets: filterOptions.fleets,
+              usages: normalize.options('usage', filterOptions.usages),
+              catalogs: normalize.options('catalog', filterOptions.catalogs),
+              areas: normalize.options('area', filterOptions.areas),
+              locations: normalize.options('location', filterOptions.rooms),
+              fleets: normalize.options('fleet', filterOptions.fleets),
             }
             const locCounts: Record<string, number> = {}
             allDevices.forEach(d => { if (d.room) locCounts[d.room] = (locCounts[d.room] || 0) + 1 })
@@ -0,0 +1,211 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import { Suspense, useEffect, useState } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import {
+  COMPARE_MODULE_LABELS,
+  CompareModule,
+  CompareSection,
+  MAX_COMPARE_DEVICES,
+  parseCompareDevices,
+} from "../../src/lib/devices/compare"
+
+interface CompareResponse {
+  devices: { serialNumber: string; deviceName: string }[]
+  missing: string[]
+  sections: CompareSection[]
+}
+
+// Device tab each module's rows link to
+const MODULE_TABS: Record<CompareModule, string> = {
+  system: 'system',
+  hardware: 'hardware',
+  installs: 'installs',
+  applications: 'applications',
+  security: 'security',
+  profiles: 'management',
+}
+
+function CompareTable({ section, devices, onlyDiff, fromUrl }: {
+  section: CompareSection
+  devices: CompareResponse['devices']
+  onlyDiff: boolean
+  fromUrl: string
+}) {
+  const rows = onlyDiff ? section.rows.filter(r => r.differs) : section.rows
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">{COMPARE_MODULE_LABELS[section.module]}</h2>
+        <span className={`text-xs ${section.differing ? 'text-amber-700 dark:text-amber-400 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+          {section.differing ? `${section.differing} of ${section.rows.length} differ` : section.rows.length ? 'Identical' : 'Not reported'}
+        </span>
+      </div>
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm table-fixed">
+            <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-700 dark:text-gray-300">
+              <tr>
+                <th className="w-56 px-4 py-2 text-left text-xs font-semibold uppercase tracking-wider" />
+                {devices.map(d => (
+                  <th key={d.serialNumber} className="w-48 px-4 py-2 text-left text-xs font-semibold">
+                    <Link
+                      href={`/device/${encodeURIComponent(d.serialNumber)}?from=${encodeURIComponent(fromUrl)}#${MODULE_TABS[section.module]}`}
+                      className="text-blue-600 dark:text-blue-400 hover:underline truncate block"
+                      title={d.serialNumber}
+                    >
+                      {d.deviceName}
+                    </Link>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {rows.map(row => (
+                <tr key={row.field} className={row.differs ? 'bg-amber-50 dark:bg-amber-900/20' : ''}>
+                  <td className="px-4 py-1.5 font-medium text-gray-900 dark:text-white break-words">{row.field}</td>
+                  {row.values.map((value, i) => (
+                    <td key={devices[i]?.serialNumber ?? i} className="px-4 py-1.5 text-gray-700 dark:text-gray-300 break-words">
+                      {value ?? <span className="text-red-600 dark:text-red-400">Missing</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ComparePageContent() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const query = searchParams.toString()
+  const serials = parseCompareDevices(searchParams.get('devices'))
+  const devicesParam = serials.join(',')
+  const onlyDiff = searchParams.get('diff') === '1'
+
+  const [data, setData] = useState<CompareResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const setUrl = (next: { serials?: string[]; onlyDiff?: boolean }) => {
+    const params = new URLSearchParams()
+    const s = next.serials ?? serials
+    if (s.length) params.set('devices', s.join(','))
+    if (next.onlyDiff ?? onlyDiff) params.set('diff', '1')
+    const from = searchParams.get('from')
+    if (from) params.set('from', from)
+    const qs = params.toString()
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false })
+  }
+
+  useEffect(() => {
+    if (devicesParam.split(',').filter(Boolean).length < 2) {
+      setLoading(false)
+      return
+    }
+    setLoading(true)
+    fetch(`/api/devices/compare?devices=${encodeURIComponent(devicesParam)}`)
+      .then(async resp => {
+        if (!resp.ok) throw new Error(`Request failed with status ${resp.status}`)
+        setData(await resp.json())
+        setError(null)
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to compare devices'))
+      .finally(() => setLoading(false))
+  }, [devicesParam])
+
+  const fromUrl = `${pathname}${query ? `?${query}` : ''}`
+  const backUrl = searchParams.get('from') || '/devices'
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black">
+      <div className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-6">
+
+        <div className="mb-4">
+          <Link href={backUrl} className="text-sm text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1">
+            ← Devices
+          </Link>
+        </div>
+
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Compare Devices</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Up to {MAX_COMPARE_DEVICES} devices side by side. Highlighted rows are where they differ.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={onlyDiff}
+              onChange={e => setUrl({ onlyDiff: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Only differences
+          </label>
+        </div>
+
+        {serials.length > 0 && (
+          <div className="flex flex-wrap gap-2 pb-4">
+            {serials.map(serial => (
+              <span key={serial} className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 font-mono">
+                {serial}
+                <button
+                  onClick={() => setUrl({ serials: serials.filter(s => s !== serial) })}
+                  className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                  aria-label={`Remove ${serial}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {data && data.missing.length > 0 && (
+          <p className="mb-4 text-sm text-amber-600 dark:text-amber-400">
+            Not found: {data.missing.join(', ')}
+          </p>
+        )}
+
+        {serials.length < 2 ? (
+          <div className="py-16 text-center text-sm text-gray-500 dark:text-gray-400">
+            Select at least two devices on the <Link href="/devices" className="text-blue-600 dark:text-blue-400 hover:underline">Devices</Link> page to compare them.
+          </div>
+        ) : loading && !data ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+          </div>
+        ) : error ? (
+          <div className="py-16 text-center">
+            <p className="text-red-600 dark:text-red-400 font-medium mb-2">Error comparing devices</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{error}</p>
+          </div>
+        ) : data ? (
+          <div className="space-y-4">
+            {data.sections.map(section => (
+              <CompareTable key={section.module} section={section} devices={data.devices} onlyDiff={onlyDiff} fromUrl={fromUrl} />
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+export default function ClientComparePage() {
+  return (
+    <Suspense fallback={<div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black" />}>
+      <ComparePageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import type { Metadata } from 'next';
+import ClientComparePage from './ClientComparePage';
+
+export const metadata: Metadata = {
+  title: 'Compare Devices',
+  description: 'Several devices side by side, module by module',
+};
+
+// Force dynamic rendering and disable caching
+export const dynamic = 'force-dynamic';
+
+export default function ComparePage() {
+  return <ClientComparePage />;
+}
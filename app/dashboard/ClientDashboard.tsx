@@ -9,8 +9,12 @@ import { OSVersionPieWidget } from "../../src/components/widgets/OSVersionPieWid
 import { StatusWidget } from "../../src/lib/modules/widgets/StatusWidget"
 import { PlatformDistributionWidget } from "../../src/lib/modules/widgets/PlatformDistributionWidget"
 import { DashboardSkeleton } from "../../src/components/skeleton/DashboardSkeleton"
-import { calculateDeviceStatus } from "../../src/lib/data-processing"
+import { useDeviceStatus } from "../../src/hooks/useDeviceStatus"
+import { useInventoryNormalizer } from "../../src/hooks/useInventoryNormalizer"
 import { usePlatformFilterSafe, getDevicePlatform } from "../../src/providers/PlatformFilterProvider"
+import { useEventSubscription } from "../../src/hooks/useEventSubscription"
+import { EventSubscriptionPicker } from "../../src/components/EventSubscriptionPicker"
+import { inventoryBySerial, matchesSubscription, subscriptionQuery } from "../../src/lib/events/subscriptions"
 
 // WebPubSub message types for JSON subprotocol
 interface WebPubSubMessage {
@@ -113,18 +117,54 @@ export default function ClientDashboard() {
   const connectionStatusRef = useRef(connectionStatus)
   const maxReconnectAttempts = 5
   const { platformFilter, isPlatformVisible } = usePlatformFilterSafe()
+  const deviceStatus = useDeviceStatus()
+  const deviceStatusRef = useRef(deviceStatus)
+  const { subscription, isLoaded: subscriptionLoaded, save: saveSubscription } = useEventSubscription()
+  const subscriptionKey = subscriptionQuery(subscription)
+
+  // Re-derive statuses when the status thresholds load or change; fetches read
+  // the latest thresholds through the ref
+  useEffect(() => {
+    deviceStatusRef.current = deviceStatus
+    setDevices(prev => {
+      let changed = false
+      const updated = prev.map(device => {
+        const status = deviceStatus(device)
+        if (status === device.status) return device
+        changed = true
+        return { ...device, status }
+      })
+      return changed ? updated : prev
+    })
+  }, [deviceStatus])
   
-  // Filter devices by platform
+  // Filter devices by platform; inventory values go through the field aliases
+  // so the widgets group "Labs" and "Lab" together
+  const normalize = useInventoryNormalizer()
   const filteredDevices = useMemo(() => {
-    if (platformFilter === 'all') return devices
-    return devices.filter(device => isPlatformVisible(getDevicePlatform(device)))
-  }, [devices, platformFilter, isPlatformVisible])
+    const normalized = devices.map(normalize.row)
+    if (platformFilter === 'all') return normalized
+    return normalized.filter(device => isPlatformVisible(getDevicePlatform(device)))
+  }, [devices, normalize, platformFilter, isPlatformVisible])
   
-  // Filter events by platform using the event's own platform field (populated by /api/events)
+  // Inventory lookup for inventory-scoped subscriptions, and the values the picker offers
+  const normalizedDevices = useMemo(() => devices.map(normalize.row), [devices, normalize])
+  const inventory = useMemo(() => inventoryBySerial(normalizedDevices), [normalizedDevices])
+  const subscriptionOptions = useMemo(() => {
+    const distinct = (key: 'catalog' | 'location' | 'usage' | 'platform') =>
+      [...new Set(normalizedDevices.map(d => d[key]).filter((v): v is string => !!v))].sort()
+    return { catalog: distinct('catalog'), location: distinct('location'), usage: distinct('usage'), platform: distinct('platform') }
+  }, [normalizedDevices])
+
+  // Filter events by platform using the event's own platform field (populated by /api/events).
+  // The socket only delivers the subscribed stream, but the consolidated
+  // /api/dashboard events cover the whole fleet, so the subscription applies here too.
   const filteredEvents = useMemo(() => {
-    if (platformFilter === 'all') return events
-    return events.filter(event => isPlatformVisible(event.platform || 'Unknown'))
-  }, [events, platformFilter, isPlatformVisible])
+    return events.filter(event =>
+      (platformFilter === 'all' || isPlatformVisible(event.platform || 'Unknown')) &&
+      matchesSubscription(event, subscription, inventory)
+    )
+  }, [events, platformFilter, isPlatformVisible, subscription, inventory])
   
   // Mark as mounted
   useEffect(() => {
@@ -188,7 +228,7 @@ export default function ClientDashboard() {
               const updated = prev.map(device => {
                 const fresh = lookup.get(device.serialNumber)
                 if (!fresh) return device
-                const newStatus = calculateDeviceStatus(fresh.lastSeen)
+                const newStatus = deviceStatusRef.current({ ...device, lastSeen: fresh.lastSeen })
                 if (device.lastSeen !== fresh.lastSeen || device.status !== newStatus) {
                   changed = true
                   return { ...device, lastSeen: fresh.lastSeen, status: newStatus }
@@ -240,7 +280,7 @@ export default function ClientDashboard() {
           
           // OS version string for display - used for compatibility with legacy components
           const osVersionString = systemOS.displayVersion || systemOS.version || apiDevice.osVersion || apiDevice.os || 'Unknown'
-          const calculatedStatus = calculateDeviceStatus(apiDevice.lastSeen)
+          const calculatedStatus = deviceStatusRef.current(apiDevice)
 
           // Build modules object with complete OS data from FastAPI
           const modules: Device['modules'] = {}
@@ -338,9 +378,12 @@ export default function ClientDashboard() {
     }
   }, [])
 
-  // SignalR WebSocket connection for real-time events
+  // SignalR WebSocket connection for real-time events, scoped to the
+  // caller's subscription; waits for it to load so it connects once
   useEffect(() => {
+    if (!subscriptionLoaded) return
     let isActive = true
+    reconnectAttemptsRef.current = 0
     let reconnectTimeout: NodeJS.Timeout | null = null
 
     async function connectWebSocket() {
@@ -349,18 +392,18 @@ export default function ClientDashboard() {
       try {
         // Check if WebPubSub is enabled
         const isEnabled = process.env.NEXT_PUBLIC_ENABLE_SIGNALR === "true"
-        const apiBaseUrl = process.env.NEXT_PUBLIC_API_BASE_URL
 
-        if (!isEnabled || !apiBaseUrl) {
+        if (!isEnabled) {
           setConnectionStatus('polling')
           return
         }
 
         setConnectionStatus('connecting')
 
-        // Get negotiate token from API with timeout
+        // Get a token for the subscribed groups via the session-gated BFF
+        // proxy, which turns the subscription into groups (with timeout)
         const negotiateResponse = await Promise.race([
-          fetch(`${apiBaseUrl}/api/v1/negotiate?device=dashboard`),
+          fetch(`/api/v1/negotiate?device=dashboard${subscriptionKey ? `&${subscriptionKey}` : ''}`),
           new Promise((_, reject) =>
             setTimeout(() => reject(new Error('Negotiate timeout')), 10000)
           )
@@ -459,7 +502,7 @@ export default function ClientDashboard() {
         reconnectTimeout = null
       }
     }
-  }, [])
+  }, [subscriptionLoaded, subscriptionKey])
 
   // Update relative times every 2 minutes (reduced from 60s to decrease processing)
   useEffect(() => {
@@ -507,6 +550,14 @@ export default function ClientDashboard() {
           <div className="lg:col-span-7 space-y-8">
             {/* Recent Events Table */}
             <ErrorBoundary fallback={<div className="p-4 bg-red-50 dark:bg-red-900 text-red-700 dark:text-red-300 rounded">Error loading events</div>}>
+              <div className="mb-3">
+                <EventSubscriptionPicker
+                  subscription={subscription}
+                  options={subscriptionOptions}
+                  onSave={saveSubscription}
+                  readOnly={process.env.NEXT_PUBLIC_DEMO_MODE === 'true'}
+                />
+              </div>
               <RecentEventsTable
                 events={filteredEvents}
                 connectionStatus={connectionStatus}
@@ -1,6 +1,7 @@
 "use client"
 
 import { useEffect, useState, useCallback, useRef } from "react"
+import { EventSubscription, matchesSubscription, subscriptionQuery } from "../../src/lib/events/subscriptions"
 
 export interface FleetEvent {
   id: string
@@ -8,6 +9,7 @@ export interface FleetEvent {
   kind: string
   ts: string
   message?: string // User-friendly message from database
+  platform?: string
   payload: Record<string, unknown>
 }
 
@@ -24,7 +26,17 @@ interface WebPubSubMessage {
   message?: string
 }
 
-export function useLiveEvents() {
+/**
+ * Live fleet events over Web PubSub, falling back to polling /api/events.
+ * `subscription` scopes the stream: the negotiate route mints a token for just
+ * its groups, and polled events are filtered to it (inventory scopes look the
+ * device up in `inventory`, keyed by serial number). Changing the subscription
+ * reconnects and starts the feed over.
+ */
+export function useLiveEvents(
+  subscription: EventSubscription = {},
+  inventory?: Map<string, Record<string, string | undefined>>
+) {
   const [events, setEvents] = useState<FleetEvent[]>([])
   const [connectionStatus, setConnectionStatus] = useState<string>("connecting")
   const [lastUpdateTime, setLastUpdateTime] = useState<Date | null>(null)
@@ -35,6 +47,11 @@ export function useLiveEvents() {
   const wsRef = useRef<WebSocket | null>(null)
   const reconnectAttemptsRef = useRef(0)
   const maxReconnectAttempts = 5
+  const query = subscriptionQuery(subscription)
+  const subscriptionRef = useRef(subscription)
+  const inventoryRef = useRef(inventory)
+  subscriptionRef.current = subscription
+  inventoryRef.current = inventory
 
   // Ensure we're mounted before showing time-dependent data
   useEffect(() => {
@@ -155,6 +172,7 @@ export function useLiveEvents() {
         kind: String(eventObj.kind || 'info'),
         ts: String(eventObj.ts || new Date().toISOString()),
         message: eventObj.message ? String(eventObj.message) : undefined, // PRESERVE message field from database
+        platform: eventObj.platform ? String(eventObj.platform) : undefined,
         payload: sanitizePayloadForDisplay(eventObj.payload)
       }
     } catch (error) {
@@ -175,14 +193,20 @@ export function useLiveEvents() {
     let progressInterval: NodeJS.Timeout | null = null
     let reconnectTimeout: NodeJS.Timeout | null = null
     let isActive = true // Track if component is still active
+    const subscription = subscriptionRef.current
+    setEvents([])
+    reconnectAttemptsRef.current = 0
     
-    // Function to fetch events from local API
+    // Function to fetch events from local API. Severities filter on the server;
+    // the rest of the subscription is applied to the recent fleet events.
     async function fetchLocalEvents() {
       try {
-        const response = await fetch('/api/events?limit=1000')
+        const types = subscription.severities?.length ? `&type=${subscription.severities.join(',')}` : ''
+        const response = await fetch(`/api/events?limit=1000${types}`)
         if (response.ok) {
           const data = await response.json()
           if (data.success && data.events) {
+            data.events = data.events.filter((e: FleetEvent) => matchesSubscription(e, subscription, inventoryRef.current))
             setEvents(prev => {
               // If no events exist, load all events initially
               if (prev.length === 0) {
@@ -274,7 +298,7 @@ export function useLiveEvents() {
         // Get negotiate token via the session-gated BFF proxy (same-origin,
         // carries the auth cookie; the proxy adds the internal secret upstream)
         const negotiateResponse = await Promise.race([
-          fetch('/api/v1/negotiate?device=dashboard'),
+          fetch(`/api/v1/negotiate?device=dashboard${query ? `&${query}` : ''}`),
           new Promise((_, reject) => 
             setTimeout(() => reject(new Error('Negotiate timeout')), 10000)
           )
@@ -324,7 +348,9 @@ export function useLiveEvents() {
             
             if (message.type === "message") {
               const eventData = message.data as FleetEvent
-              if (eventData && eventData.id) {
+              // The token's groups already scope delivery to the subscription;
+              // severities only narrow a scoped one, so check them here
+              if (eventData && eventData.id && matchesSubscription(eventData, { severities: subscription.severities })) {
                 setEvents(prev => {
                   const existingIds = new Set(prev.map(e => e.id))
                   if (!existingIds.has(eventData.id)) {
@@ -406,7 +432,7 @@ export function useLiveEvents() {
         reconnectTimeout = null
       }
     }
-  }, [sanitizeEventForDisplay])
+  }, [sanitizeEventForDisplay, query])
 
   return { 
     events, 
@@ -9,6 +9,7 @@ import { getDevicePlatform } from "../../../src/providers/PlatformFilterProvider
 import { PlatformBadge } from "../../../src/components/ui/PlatformBadge"
 // Import SMART loading hook (V2 - parallel loading)
 import { useSmartDeviceLoading } from "../../../src/hooks/useSmartDeviceLoading"
+import { useDeviceStatus } from "../../../src/hooks/useDeviceStatus"
 import { useHasRole } from "../../../hooks/useAuth"
 import { ADMIN_ROLE } from "../../../lib/auth-roles"
 import { 
@@ -26,6 +27,10 @@ import {
 } from "../../../src/components/tabs"
 import { DeviceDetailSkeleton } from "../../../src/components/skeleton/DeviceDetailSkeleton"
 import { ModuleLoadingState } from "../../../src/components/ModuleLoadingState"
+import { DeviceLiveTail } from "./DeviceLiveTail"
+import { DeviceHistory } from "./DeviceHistory"
+import { DeviceDriftCard } from "./DeviceDriftCard"
+import { DeviceTagsCard } from "./DeviceTagsCard"
 
 // Overflow Tabs Dropdown Component
 interface OverflowTabsDropdownProps {
@@ -213,7 +218,7 @@ function OverflowTabsDropdown({ tabs, activeTab, onTabChange }: OverflowTabsDrop
   )
 }
 
-type TabType = 'info' | 'installs' | 'applications' | 'management' | 'system' | 'hardware' | 'network' | 'security' | 'identity' | 'peripherals' | 'events'
+type TabType = 'info' | 'installs' | 'applications' | 'management' | 'system' | 'hardware' | 'network' | 'security' | 'identity' | 'peripherals' | 'events' | 'history'
 
 const tabs: { id: TabType; label: string; icon: string; description: string; accentColor: string }[] = [
   { id: 'info', label: 'Info', icon: 'M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z', description: 'Device information, management status, and system details', accentColor: 'monochrome' },
@@ -226,7 +231,8 @@ const tabs: { id: TabType; label: string; icon: string; description: string; acc
   { id: 'peripherals', label: 'Peripherals', icon: 'M8.8 3.2h6.4a1 1 0 0 1 1 1v2a1 1 0 0 1-1 1H8.8a1 1 0 0 1-1-1V4.2a1 1 0 0 1 1-1zM8.8 7.2h6.4a2 2 0 0 1 2 2v6a2 2 0 0 1-2 2H8.8a2 2 0 0 1-2-2V9.2a2 2 0 0 1 2-2zM10.4 17.2h3.2a1 1 0 0 1 1 1v4a1 1 0 0 1-1 1h-3.2a1 1 0 0 1-1-1v-4a1 1 0 0 1 1-1z', description: 'Displays, printers, and connected peripherals', accentColor: 'cyan' },
   { id: 'security', label: 'Security', icon: 'M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z', description: 'Security status and compliance', accentColor: 'red' },
   { id: 'network', label: 'Network', icon: 'M8.111 16.404a5.5 5.5 0 017.778 0M12 20h.01m-7.08-7.071c3.904-3.905 10.236-3.905 14.141 0M1.394 9.393c5.857-5.857 15.355-5.857 21.213 0', description: 'Network connectivity and settings', accentColor: 'teal' },
-  { id: 'events', label: 'Events', icon: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z', description: 'Event history and activity log', accentColor: 'monochrome' }
+  { id: 'events', label: 'Events', icon: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z', description: 'Event history and activity log', accentColor: 'monochrome' },
+  { id: 'history', label: 'History', icon: 'M3 3v5h5M3.05 13A9 9 0 106 5.3L3 8m9-1v5l4 2', description: 'Changes to the device over time and snapshot comparison', accentColor: 'monochrome' }
 ]
 
 export default function ClientDeviceDetailPage() {
@@ -246,6 +252,7 @@ export default function ClientDeviceDetailPage() {
     getModuleData,
     getModuleError
   } = useSmartDeviceLoading(deviceId)
+  const deviceStatus = useDeviceStatus()
   
   // Tab state — always starts as 'info' (SSR-safe), synced to URL hash via effect below
   const searchParams = useSearchParams()
@@ -430,7 +437,7 @@ export default function ClientDeviceDetailPage() {
 
   // Prefetch module data on hover
   const handleTabHover = (tabId: TabType) => {
-    if (tabId !== 'info' && !isModuleLoaded(tabId)) {
+    if (tabId !== 'info' && tabId !== 'history' && !isModuleLoaded(tabId)) {
       requestModule(tabId).catch(() => {})
     }
   }
@@ -577,7 +584,7 @@ export default function ClientDeviceDetailPage() {
     }
     
     // Request module if not already loaded (on-demand loading)
-    if (tabId !== 'info' && !isModuleLoaded(tabId)) {
+    if (tabId !== 'info' && tabId !== 'history' && !isModuleLoaded(tabId)) {
       try {
         await requestModule(tabId)
       } catch {
@@ -841,19 +848,16 @@ export default function ClientDeviceDetailPage() {
                         )
                       }
                       
-                      const lastSeenDate = deviceInfo.lastSeen ? new Date(deviceInfo.lastSeen) : null
-                      if (!lastSeenDate) return null
+                      if (!deviceInfo.lastSeen) return null
+                      const status = deviceStatus(deviceInfo)
                       
-                      const now = new Date()
-                      const hoursSinceLastSeen = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60)
-                      
-                      if (hoursSinceLastSeen > 72) {
+                      if (status === 'missing') {
                         return (
                           <span className="hidden sm:inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
                             Missing
                           </span>
                         )
-                      } else if (hoursSinceLastSeen > 24) {
+                      } else if (status === 'stale') {
                         return (
                           <span className="hidden sm:inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
                             Stale
@@ -1141,7 +1145,11 @@ export default function ClientDeviceDetailPage() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Info Tab - Always loaded fast */}
         {activeTab === 'info' && (
-          <InfoTab device={deviceInfo} />
+          <>
+            {deviceInfo?.serialNumber && <DeviceTagsCard serialNumber={deviceInfo.serialNumber} isAdmin={isAdmin} />}
+            {deviceInfo?.serialNumber && <DeviceDriftCard serialNumber={deviceInfo.serialNumber} />}
+            <InfoTab device={deviceInfo} />
+          </>
         )}
 
         {/* Installs Tab - Progressive loading */}
@@ -1342,6 +1350,7 @@ export default function ClientDeviceDetailPage() {
         {/* Events Tab - Progressive loading */}
         {activeTab === 'events' && (
           <div>
+          {deviceInfo?.serialNumber && <DeviceLiveTail serialNumber={deviceInfo.serialNumber} />}
           {isModuleError('events') ? (
             <ModuleLoadingState 
               moduleName="events" 
@@ -1364,6 +1373,11 @@ export default function ClientDeviceDetailPage() {
           )}
           </div>
         )}
+
+        {/* History Tab - snapshots recorded by the history route, not a device module */}
+        {activeTab === 'history' && deviceInfo?.serialNumber && (
+          <DeviceHistory serialNumber={deviceInfo.serialNumber} />
+        )}
       </div>
 
       {adminToast && (
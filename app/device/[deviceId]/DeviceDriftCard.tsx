@@ -0,0 +1,58 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { describeDeviation, DriftResult } from "../../../src/lib/devices/drift"
+
+interface DriftResponse {
+  baseline: { id: string; label?: string } | null
+  drift: DriftResult | null
+}
+
+/** How far the device has drifted from its segment's baseline; renders
+ * nothing when no baseline covers it. */
+export function DeviceDriftCard({ serialNumber }: { serialNumber: string }) {
+  const [data, setData] = useState<DriftResponse | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/device/${encodeURIComponent(serialNumber)}/drift`)
+      .then(async (resp) => (resp.ok ? setData(await resp.json()) : null))
+      .catch(() => {
+        // The card is optional; the rest of the Info tab stands on its own.
+      })
+  }, [serialNumber])
+
+  const drift = data?.drift
+  if (!drift) return null
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Baseline Drift</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Measured against{" "}
+            <Link href={`/devices/drift?baseline=${encodeURIComponent(drift.baselineId)}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+              {drift.baselineLabel}
+            </Link>
+            , {drift.expected} expectations
+          </p>
+        </div>
+        <span className={`text-lg font-semibold ${drift.score === 0 ? "text-green-700 dark:text-green-400" : drift.score < 25 ? "text-amber-700 dark:text-amber-400" : "text-red-700 dark:text-red-400"}`}>
+          {drift.score}%
+        </span>
+      </div>
+      {drift.deviations.length === 0 ? (
+        <div className="px-6 py-3 text-sm text-gray-500 dark:text-gray-400">Matches its baseline.</div>
+      ) : (
+        <ul className="px-6 py-3 space-y-1 text-sm text-gray-700 dark:text-gray-300">
+          {drift.deviations.map((d, i) => (
+            <li key={i}>{describeDeviation(d)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default DeviceDriftCard
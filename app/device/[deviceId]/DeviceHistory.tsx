@@ -0,0 +1,189 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  HistoryEntry,
+  ModuleDiff,
+  SNAPSHOT_MODULE_LABELS,
+  SNAPSHOT_MODULES,
+  SnapshotModule,
+} from "../../../src/lib/devices/history"
+import { formatExactTime, formatRelativeTime } from "../../../src/lib/time"
+
+interface SnapshotSummary {
+  capturedAt: string
+  collectedAt?: string
+  applications: number
+}
+
+interface HistoryResponse {
+  snapshots: SnapshotSummary[]
+  history: HistoryEntry[]
+  diff?: { a: string; b: string; modules: ModuleDiff[] }
+}
+
+const selectClass =
+  "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+
+const snapshotLabel = (s: SnapshotSummary) => formatExactTime(s.collectedAt ?? s.capturedAt)
+
+function DiffTable({ diff }: { diff: ModuleDiff }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <h4 className="px-4 py-2 text-sm font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700">
+        {SNAPSHOT_MODULE_LABELS[diff.module]}
+      </h4>
+      <table className="w-full text-sm">
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+          {diff.added.map((name) => (
+            <tr key={`+${name}`}>
+              <td className="px-4 py-1.5 text-gray-900 dark:text-white">{name}</td>
+              <td colSpan={2} className="px-4 py-1.5 text-green-700 dark:text-green-400">Installed</td>
+            </tr>
+          ))}
+          {diff.removed.map((name) => (
+            <tr key={`-${name}`}>
+              <td className="px-4 py-1.5 text-gray-900 dark:text-white">{name}</td>
+              <td colSpan={2} className="px-4 py-1.5 text-red-700 dark:text-red-400">Removed</td>
+            </tr>
+          ))}
+          {diff.changes.map((c) => (
+            <tr key={c.field}>
+              <td className="px-4 py-1.5 text-gray-900 dark:text-white w-1/3">{c.field}</td>
+              <td className="px-4 py-1.5 text-red-700 dark:text-red-400 line-through break-words">{c.before ?? "—"}</td>
+              <td className="px-4 py-1.5 text-green-700 dark:text-green-400 break-words">{c.after ?? "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+/**
+ * When the device's OS, hardware, applications, security posture, network
+ * addresses or inventory fields changed, from the snapshots the snapshot pass
+ * records, and a per-module comparison of any two snapshots.
+ */
+export function DeviceHistory({ serialNumber }: { serialNumber: string }) {
+  const [data, setData] = useState<HistoryResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [module, setModule] = useState<SnapshotModule | "">("")
+  const [compare, setCompare] = useState<{ a: string; b: string } | null>(null)
+  const [diff, setDiff] = useState<HistoryResponse["diff"] | null>(null)
+
+  const load = useCallback(async (pair?: { a: string; b: string }) => {
+    const query = pair ? `?a=${encodeURIComponent(pair.a)}&b=${encodeURIComponent(pair.b)}` : ""
+    const resp = await fetch(`/api/device/${encodeURIComponent(serialNumber)}/history${query}`)
+    if (!resp.ok) {
+      throw new Error(`Request failed with status ${resp.status}`)
+    }
+    return (await resp.json()) as HistoryResponse
+  }, [serialNumber])
+
+  useEffect(() => {
+    load()
+      .then((result) => {
+        setData(result)
+        const [newest, previous] = result.snapshots
+        if (newest && previous) setCompare({ a: previous.capturedAt, b: newest.capturedAt })
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : "Failed to load history"))
+  }, [load])
+
+  useEffect(() => {
+    if (!compare) return
+    load(compare)
+      .then((result) => setDiff(result.diff ?? null))
+      .catch((e) => setError(e instanceof Error ? e.message : "Failed to compare snapshots"))
+  }, [compare, load])
+
+  if (error) {
+    return (
+      <div className="py-16 text-center">
+        <p className="text-red-600 dark:text-red-400 font-medium mb-2">Error loading history</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{error}</p>
+      </div>
+    )
+  }
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+      </div>
+    )
+  }
+
+  const entries = module ? data.history.filter((e) => e.module === module) : data.history
+  const oldest = data.snapshots[data.snapshots.length - 1]
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Change History</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {oldest
+                ? `${data.snapshots.length} snapshots since ${formatExactTime(oldest.collectedAt ?? oldest.capturedAt)}`
+                : "No snapshots yet"}
+            </p>
+          </div>
+          <select value={module} onChange={(e) => setModule(e.target.value as SnapshotModule | "")} className={selectClass}>
+            <option value="">All changes</option>
+            {SNAPSHOT_MODULES.map((m) => (
+              <option key={m} value={m}>{SNAPSHOT_MODULE_LABELS[m]}</option>
+            ))}
+          </select>
+        </div>
+        {entries.length === 0 ? (
+          <div className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+            No changes recorded yet. A snapshot is kept each time this device reports something different.
+          </div>
+        ) : (
+          <ol className="max-h-[32rem] overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {entries.map((entry, i) => (
+              <li key={`${entry.at}-${entry.module}-${i}`} className="px-6 py-2 flex items-start gap-3 text-sm">
+                <span className="w-32 shrink-0 text-xs text-gray-500 dark:text-gray-400 pt-0.5" title={formatExactTime(entry.at)}>
+                  {formatRelativeTime(entry.at)}
+                </span>
+                <span className="w-32 shrink-0 font-medium text-gray-900 dark:text-white">{SNAPSHOT_MODULE_LABELS[entry.module]}</span>
+                <span className="flex-1 text-gray-700 dark:text-gray-300 break-words">{entry.summary}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {data.snapshots.length > 1 && compare && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-semibold text-gray-900 dark:text-white">Compare</span>
+            <select value={compare.a} onChange={(e) => setCompare({ ...compare, a: e.target.value })} className={selectClass}>
+              {data.snapshots.map((s) => (
+                <option key={s.capturedAt} value={s.capturedAt}>{snapshotLabel(s)}</option>
+              ))}
+            </select>
+            <span>with</span>
+            <select value={compare.b} onChange={(e) => setCompare({ ...compare, b: e.target.value })} className={selectClass}>
+              {data.snapshots.map((s) => (
+                <option key={s.capturedAt} value={s.capturedAt}>{snapshotLabel(s)}</option>
+              ))}
+            </select>
+          </div>
+          {!diff ? null : diff.modules.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No differences between these snapshots.</p>
+          ) : (
+            <div className="grid lg:grid-cols-2 gap-4">
+              {diff.modules.map((d) => (
+                <DiffTable key={d.module} diff={d} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DeviceHistory
@@ -0,0 +1,63 @@
+"use client"
+
+import { useMemo } from "react"
+import { useLiveEvents } from "../../dashboard/hooks"
+import { normalizeEventKind, severityToBadgeClasses } from "../../../src/lib/events/normalize"
+import type { EventSubscription } from "../../../src/lib/events/subscriptions"
+import { formatRelativeTime } from "../../../src/lib/time"
+
+const TAIL_LENGTH = 10
+
+const STATUS_LABELS: Record<string, { label: string; dot: string }> = {
+  connected: { label: "Live", dot: "bg-green-500 animate-pulse" },
+  connecting: { label: "Connecting", dot: "bg-amber-400" },
+  reconnecting: { label: "Reconnecting", dot: "bg-amber-400" },
+  polling: { label: "Polling every minute", dot: "bg-blue-400" },
+  error: { label: "Polling every minute", dot: "bg-blue-400" },
+}
+
+/**
+ * The newest events of one device as they arrive, above the Events tab's
+ * history. Subscribes to just this device's group, so the page doesn't
+ * receive the rest of the fleet's stream.
+ */
+export function DeviceLiveTail({ serialNumber }: { serialNumber: string }) {
+  const subscription = useMemo<EventSubscription>(() => ({ scope: "device", values: [serialNumber] }), [serialNumber])
+  const { events, connectionStatus, mounted } = useLiveEvents(subscription)
+  const status = STATUS_LABELS[connectionStatus] ?? STATUS_LABELS.connecting
+  const tail = events.slice(0, TAIL_LENGTH)
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Live Tail</h3>
+        <span className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+          <span className={`w-2 h-2 rounded-full ${status.dot}`} />
+          {status.label}
+        </span>
+      </div>
+      {tail.length === 0 ? (
+        <div className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+          {connectionStatus === "connecting" ? "Connecting to the event stream..." : "No recent events. New events from this device appear here as they arrive."}
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {tail.map((event) => {
+            const severity = normalizeEventKind(event.kind)
+            return (
+              <li key={event.id} className="px-6 py-2 flex items-center gap-3 text-sm">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${severityToBadgeClasses(severity)}`}>{severity}</span>
+                <span className="flex-1 truncate text-gray-700 dark:text-gray-300">{event.message || event.kind}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {mounted ? formatRelativeTime(event.ts) : ""}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default DeviceLiveTail
@@ -0,0 +1,135 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import type { DeviceGroup } from "../../../src/lib/devices/groups"
+
+interface GroupsResponse {
+  groups: DeviceGroup[]
+  device?: { tags: string[]; groups: string[] }
+}
+
+const chipClass =
+  "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+const inputClass =
+  "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+
+/** The tags and static groups assigned to the device in ReportMate; admins
+ * can edit them. Renders nothing for other users when there are none. */
+export function DeviceTagsCard({ serialNumber, isAdmin }: { serialNumber: string; isAdmin: boolean }) {
+  const [data, setData] = useState<GroupsResponse | null>(null)
+  const [tag, setTag] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(() => {
+    fetch(`/api/devices/groups?serial=${encodeURIComponent(serialNumber)}`)
+      .then(async (resp) => (resp.ok ? setData(await resp.json()) : null))
+      .catch(() => {
+        // The card is optional; the rest of the Info tab stands on its own.
+      })
+  }, [serialNumber])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const send = async (url: string, method: string, body: unknown) => {
+    setError(null)
+    try {
+      const resp = await fetch(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) })
+      if (!resp.ok) {
+        const failure = await resp.json().catch(() => null)
+        setError(failure?.errors?.[0] ? `${failure.errors[0].path} ${failure.errors[0].message}` : failure?.error || `Request failed (${resp.status})`)
+        return
+      }
+      load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const tags = data?.device?.tags ?? []
+  const memberOf = (data?.groups ?? []).filter((g) => data?.device?.groups.includes(g.id))
+  const joinable = (data?.groups ?? []).filter((g) => g.type === "static" && !data?.device?.groups.includes(g.id))
+  if (!data || (!isAdmin && tags.length === 0 && memberOf.length === 0)) return null
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Tags &amp; Groups</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">Assigned in ReportMate, alongside the device&apos;s Inventory.yaml</p>
+      </div>
+      <div className="px-6 py-3 space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-16 text-gray-500 dark:text-gray-400">Tags</span>
+          {tags.length === 0 && <span className="text-gray-400 dark:text-gray-500">None</span>}
+          {tags.map((t) => (
+            <span key={t} className={chipClass}>
+              <Link href={`/devices?tags=${encodeURIComponent(t)}`} className="hover:underline">
+                {t}
+              </Link>
+              {isAdmin && (
+                <button
+                  onClick={() => send("/api/devices/tags", "POST", { serials: [serialNumber], remove: [t] })}
+                  aria-label={`Remove tag ${t}`}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+          {isAdmin && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (!tag.trim()) return
+                send("/api/devices/tags", "POST", { serials: [serialNumber], add: [tag] }).then(() => setTag(""))
+              }}
+            >
+              <input value={tag} onChange={(e) => setTag(e.target.value)} placeholder="Add tag" aria-label="Add tag" className={`${inputClass} w-28`} />
+            </form>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-16 text-gray-500 dark:text-gray-400">Groups</span>
+          {memberOf.length === 0 && <span className="text-gray-400 dark:text-gray-500">None</span>}
+          {memberOf.map((g) => (
+            <span key={g.id} className={chipClass}>
+              <Link href={`/devices?groups=${encodeURIComponent(g.name)}`} className="hover:underline">
+                {g.name}
+              </Link>
+              {isAdmin && (
+                <button
+                  onClick={() => send(`/api/devices/groups/${encodeURIComponent(g.id)}`, "PATCH", { remove: [serialNumber] })}
+                  aria-label={`Remove from ${g.name}`}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+          {isAdmin && joinable.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && send(`/api/devices/groups/${encodeURIComponent(e.target.value)}`, "PATCH", { add: [serialNumber] })}
+              aria-label="Add to group"
+              className={inputClass}
+            >
+              <option value="">Add to group...</option>
+              {joinable.map((g) => (
+                <option key={g.id} value={g.id}>
+                  {g.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {error && <p className="text-red-700 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  )
+}
+
+export default DeviceTagsCard
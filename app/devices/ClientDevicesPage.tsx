@@ -4,13 +4,21 @@ import { useEffect, useState, useMemo, Suspense } from "react"
 import Link from "next/link"
 import { useSearchParams } from "next/navigation"
 import { formatRelativeTime } from "../../src/lib/time"
-import { calculateDeviceStatus } from "../../src/lib/data-processing"
+import { useDeviceStatus } from "../../src/hooks/useDeviceStatus"
 import { CopyButton } from "../../src/components/ui/CopyButton"
 import { normalizeKeys } from "../../src/lib/utils/powershell-parser"
 import { PlatformBadge } from "../../src/components/ui/PlatformBadge"
 import { usePlatformFilterSafe, getDevicePlatform } from "../../src/providers/PlatformFilterProvider"
 import DeviceFilters, { FilterOptions } from "../../src/components/shared/DeviceFilters"
 import { useScrollCollapse } from "../../src/hooks/useScrollCollapse"
+import { useCustomInventoryFilters } from "../../src/hooks/useCustomInventoryFilters"
+import { useInventoryNormalizer } from "../../src/hooks/useInventoryNormalizer"
+import { MAX_COMPARE_DEVICES } from "../../src/lib/devices/compare"
+import { useHasRole } from "../../hooks/useAuth"
+import { ADMIN_ROLE } from "../../lib/auth-roles"
+import { DeviceGroupActions } from "./DeviceGroupActions"
+import { useBulkSelection } from "../../src/hooks/useBulkSelection"
+import { BulkActionBar, BulkSelectAllCheckbox, BulkSelectCheckbox } from "../../src/components/shared/BulkActionBar"
 
 interface InventoryItem {
   id: string
@@ -45,7 +53,19 @@ const includesCI = (list: string[], value?: string | null) =>
   list.some(v => v.toLowerCase() === (value || '').toLowerCase())
 
 function DevicesPageContent() {
-  const [inventory, setInventory] = useState<InventoryItem[]>([])
+  const [inventoryRows, setInventoryRows] = useState<InventoryItem[]>([])
+  // Status is derived from lastSeen with the device's segment thresholds at
+  // render, so it follows the status settings once they load or change; the
+  // same goes for inventory values normalized through the field aliases
+  const deviceStatus = useDeviceStatus()
+  const normalize = useInventoryNormalizer()
+  const inventory = useMemo(
+    () => inventoryRows.map(item => ({
+      ...normalize.row(item),
+      raw: { ...normalize.row(item.raw), status: deviceStatus(item.raw, item.raw?.lastSeen, item.archived) }
+    })),
+    [inventoryRows, deviceStatus, normalize]
+  )
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
@@ -58,6 +78,9 @@ function DevicesPageContent() {
   const [filtersExpanded, setFiltersExpanded] = useState(false)
   const [sortColumn, setSortColumn] = useState<string>('deviceName')
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc')
+  // Bumped after a bulk action or group change so the list refetches
+  const [reloadKey, setReloadKey] = useState(0)
+  const isAdmin = useHasRole(ADMIN_ROLE)
   const searchParams = useSearchParams()
   const { platformFilter, isPlatformVisible } = usePlatformFilterSafe()
 
@@ -69,6 +92,10 @@ function DevicesPageContent() {
   const toggleIn = (setter: React.Dispatch<React.SetStateAction<string[]>>) => (value: string) =>
     setter(prev => (includesCI(prev, value) ? prev.filter(v => v.toLowerCase() !== value.toLowerCase()) : [...prev, value]))
 
+  // Org-defined inventory fields (Settings > Inventory) as extra dimensions
+  const activeDevices = useMemo(() => inventory.filter(item => !item.archived).map(item => item.raw), [inventory])
+  const customFilters = useCustomInventoryFilters(activeDevices)
+
   const toggleStatus = toggleIn(setSelectedStatuses)
   const toggleUsage = toggleIn(setSelectedUsages)
   const toggleCatalog = toggleIn(setSelectedCatalogs)
@@ -79,6 +106,7 @@ function DevicesPageContent() {
   const clearAllSelections = () => {
     setSelectedStatuses([]); setSelectedUsages([]); setSelectedCatalogs([])
     setSelectedAreas([]); setSelectedLocations([]); setSelectedFleets([])
+    customFilters.clear()
   }
 
   // Initialize search query and selections from URL parameters. Each dimension
@@ -90,8 +118,9 @@ function DevicesPageContent() {
         setSearchQuery(urlSearch)
       }
 
+      // Deep links may carry any variant of a value ("Labs"); select its normalized form
       const list = (key: string) =>
-        (searchParams.get(key) || '').split(',').map(v => v.trim()).filter(Boolean)
+        (searchParams.get(key) || '').split(',').map(v => v.trim()).filter(Boolean).map(v => normalize.value(key, v))
 
       const status = list('status')
       if (status.length) setSelectedStatuses(status)
@@ -105,10 +134,11 @@ function DevicesPageContent() {
       if (location.length) setSelectedLocations(location)
       const fleet = list('fleet')
       if (fleet.length) setSelectedFleets(fleet)
+      // Tags, groups and custom fields are read from the URL by useCustomInventoryFilters
     } catch (e) {
       console.warn('Failed to get search params:', e)
     }
-  }, [searchParams])
+  }, [searchParams, normalize])
 
   useEffect(() => {
     const fetchInventory = async () => {
@@ -130,9 +160,6 @@ function DevicesPageContent() {
             const inventory = normalizeKeys(rawInventory) as any
             const isArchived = device.archived === true
             
-            // Calculate status from lastSeen timestamp
-            const calculatedStatus = calculateDeviceStatus(device.lastSeen, {}, isArchived)
-            
             return {
               id: device.serialNumber || device.deviceId,
               deviceId: device.deviceId,
@@ -162,7 +189,7 @@ function DevicesPageContent() {
               uuid: inventory.uuid || device.deviceId,
               archived: isArchived,
               platform: getDevicePlatform(device),
-              raw: { ...device, status: calculatedStatus }
+              raw: device
             }
           })
           // Dedupe by serial number once at fetch time, so the render-path
@@ -174,9 +201,9 @@ function DevicesPageContent() {
             return true
           })
 
-          setInventory(uniqueItems)
+          setInventoryRows(uniqueItems)
         } else {
-                    setInventory([])
+                    setInventoryRows([])
         }
       } catch (err) {
         console.error('Error fetching inventory:', err)
@@ -187,7 +214,26 @@ function DevicesPageContent() {
     }
 
     fetchInventory()
-  }, [])
+  }, [reloadKey])
+
+  // The current selections as a dynamic group query (see URL_STATE_CONVENTIONS.md).
+  // Status is left out since it changes with check-ins, and groups since a
+  // group can't be defined by other groups.
+  const groupQuery = useMemo(() => {
+    const params = new URLSearchParams()
+    const add = (key: string, values: string[]) => { if (values.length) params.set(key, values.join(',')) }
+    add('usages', selectedUsages)
+    add('catalogs', selectedCatalogs)
+    add('areas', selectedAreas)
+    add('locations', selectedLocations)
+    add('fleets', selectedFleets)
+    for (const group of customFilters.groups) {
+      if (group.key !== 'groups') add(group.key, group.selected)
+    }
+    if (platformFilter !== 'all') params.set('platform', platformFilter === 'macOS' ? 'mac' : 'win')
+    if (searchQuery.trim()) params.set('q', searchQuery.trim())
+    return params.toString()
+  }, [selectedUsages, selectedCatalogs, selectedAreas, selectedLocations, selectedFleets, customFilters.groups, platformFilter, searchQuery])
 
   // Search predicate shared by the table filter and the counter row.
   const matchesSearch = (item: InventoryItem, query: string) => (
@@ -236,6 +282,9 @@ function DevicesPageContent() {
       if (selectedFleets.length > 0) {
         filtered = filtered.filter(item => includesCI(selectedFleets, item.fleet))
       }
+      if (customFilters.selectedCount > 0) {
+        filtered = filtered.filter(item => customFilters.matches(item.raw))
+      }
 
       // Apply global platform filter
       if (platformFilter !== 'all') {
@@ -303,7 +352,13 @@ function DevicesPageContent() {
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [inventory, selectedStatuses, selectedUsages, selectedCatalogs, selectedAreas, selectedLocations,
-      selectedFleets, platformFilter, isPlatformVisible, searchQuery, sortColumn, sortDirection])
+      selectedFleets, customFilters.selectedCount, customFilters.matches, platformFilter, isPlatformVisible,
+      searchQuery, sortColumn, sortDirection])
+
+  // Rows checked for /compare and the bulk actions
+  const visibleSerials = useMemo(() => filteredInventory.map(item => item.serialNumber), [filteredInventory])
+  const selection = useBulkSelection(visibleSerials)
+  const selectedSerials = selection.selected
 
   // Handle column header click for sorting
   const handleSort = (column: string) => {
@@ -349,7 +404,7 @@ function DevicesPageContent() {
   }, [inventory])
 
   const totalSelections = selectedStatuses.length + selectedUsages.length + selectedCatalogs.length +
-    selectedAreas.length + selectedLocations.length + selectedFleets.length
+    selectedAreas.length + selectedLocations.length + selectedFleets.length + customFilters.selectedCount
   const isFiltered = Boolean(searchQuery.trim()) || totalSelections > 0
 
   if (loading) {
@@ -484,6 +539,12 @@ function DevicesPageContent() {
                 </p>
               </div>
               <div className="flex items-center gap-4">
+                <Link
+                  href={`/devices/drift?from=${encodeURIComponent(`/devices${searchParams.toString() ? `?${searchParams.toString()}` : ''}`)}`}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+                >
+                  Drift report
+                </Link>
                 {/* Search Input */}
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -512,6 +573,25 @@ function DevicesPageContent() {
               </div>
             </div>
             
+            <BulkActionBar selection={selection} dataset="devices" onComplete={() => setReloadKey(k => k + 1)}>
+              {selectedSerials.length > MAX_COMPARE_DEVICES ? (
+                <span className="text-gray-500 dark:text-gray-400">Compare up to {MAX_COMPARE_DEVICES}</span>
+              ) : selectedSerials.length >= 2 ? (
+                <Link
+                  href={`/compare?devices=${selectedSerials.map(encodeURIComponent).join(',')}&from=${encodeURIComponent(`/devices${searchParams.toString() ? `?${searchParams.toString()}` : ''}`)}`}
+                  className="inline-flex items-center px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  Compare {selectedSerials.length} devices
+                </Link>
+              ) : null}
+            </BulkActionBar>
+
+            {isAdmin && (selectedSerials.length > 0 || groupQuery) && (
+              <div className="px-4 lg:px-6 py-2 border-b border-gray-200 dark:border-gray-700">
+                <DeviceGroupActions serials={selectedSerials} query={groupQuery} onChanged={() => setReloadKey(k => k + 1)} />
+              </div>
+            )}
+
             {/* Selections accordion (shared component, same as every other report) */}
             <DeviceFilters
               filterOptions={filterOptions}
@@ -533,12 +613,17 @@ function DevicesPageContent() {
               expanded={effectiveFiltersExpanded}
               onToggle={() => setFiltersExpanded(!filtersExpanded)}
               locationCounts={locationCounts}
+              customFilters={customFilters.groups}
+              onCustomToggle={customFilters.toggle}
             />
 
             <div ref={tableContainerRef} className="overflow-auto max-h-[calc(100vh-16rem)] table-scrollbar">
               <table className="w-full relative">
                 <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0 z-10 shadow-sm">
                   <tr>
+                    <th className="pl-4 lg:pl-6 py-3 w-8">
+                      <BulkSelectAllCheckbox selection={selection} label="Select all listed devices" />
+                    </th>
                     <th className="px-4 lg:px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       <button
                         onClick={() => handleSort('deviceName')}
@@ -648,7 +733,7 @@ function DevicesPageContent() {
                 <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                   {error ? (
                     <tr>
-                      <td colSpan={8} className="px-6 py-12 text-center">
+                      <td colSpan={9} className="px-6 py-12 text-center">
                         <div className="flex flex-col items-center justify-center">
                           <div className="w-12 h-12 mb-4 bg-red-50 dark:bg-red-900/20 rounded-full flex items-center justify-center">
                             <svg className="w-6 h-6 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -668,7 +753,7 @@ function DevicesPageContent() {
                     </tr>
                   ) : filteredInventory.length === 0 ? (
                     <tr>
-                      <td colSpan={8} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                      <td colSpan={9} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
                         <div className="flex flex-col items-center justify-center">
                           <svg className="w-12 h-12 mb-4 text-gray-300 dark:text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -686,6 +771,9 @@ function DevicesPageContent() {
                   ) : (
                     filteredInventory.map((item) => (
                     <tr key={`${item.serialNumber}-${item.id}`} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                      <td className="pl-4 lg:pl-6 py-4 w-8">
+                        <BulkSelectCheckbox selection={selection} serialNumber={item.serialNumber} label={item.deviceName} />
+                      </td>
                       <td className="px-4 lg:px-6 py-4" style={{ maxWidth: '220px' }}>
                         <div className="flex items-center gap-2">
                           <Link 
@@ -0,0 +1,128 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { DeviceGroup } from "../../src/lib/devices/groups"
+
+interface DeviceGroupActionsProps {
+  /** Serial numbers of the checked devices. */
+  serials: string[]
+  /** The list's current filters as a dynamic group query, empty when unfiltered. */
+  query: string
+  /** Called after a change so the list reloads the devices' groups. */
+  onChanged: () => void
+}
+
+const inputClass =
+  "px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+const buttonClass =
+  "px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+
+/** Why a request failed, from the route's `{ error, errors }` body. */
+async function failureOf(resp: Response): Promise<string> {
+  const body = await resp.json().catch(() => null)
+  const detail = body?.errors?.map((e: { path: string; message: string }) => `${e.path} ${e.message}`.trim()).join("; ")
+  return detail || body?.error || `Request failed (${resp.status})`
+}
+
+/**
+ * Admin group controls for the devices list: add the checked devices to a
+ * static group or start a new one, and save the current filters as a dynamic
+ * group. Tagging is a bulk action (BulkActionBar).
+ */
+export function DeviceGroupActions({ serials, query, onChanged }: DeviceGroupActionsProps) {
+  const [groups, setGroups] = useState<DeviceGroup[]>([])
+  const [groupId, setGroupId] = useState("")
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+
+  const loadGroups = useCallback(() => {
+    fetch("/api/devices/groups")
+      .then(async (resp) => (resp.ok ? setGroups((await resp.json()).groups ?? []) : null))
+      .catch(() => {
+        // Tagging still works without the group list
+      })
+  }, [])
+
+  useEffect(() => {
+    loadGroups()
+  }, [loadGroups])
+
+  const staticGroups = groups.filter((g) => g.type === "static")
+
+  const run = async (request: () => Promise<Response>, done: string) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const resp = await request()
+      if (!resp.ok) {
+        setMessage({ ok: false, text: await failureOf(resp) })
+        return
+      }
+      setMessage({ ok: true, text: done })
+      loadGroups()
+      onChanged()
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : String(err) })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const addToGroup = () =>
+    run(
+      () =>
+        fetch(`/api/devices/groups/${encodeURIComponent(groupId)}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ add: serials }),
+        }),
+      `Added ${serials.length} device${serials.length === 1 ? "" : "s"} to ${staticGroups.find((g) => g.id === groupId)?.name}`
+    )
+
+  const createGroup = (type: "static" | "dynamic") => {
+    const name = window.prompt(type === "static" ? "Name for a group of the selected devices" : "Name for a group of devices matching the current filters")
+    if (!name?.trim()) return
+    run(
+      () =>
+        fetch("/api/devices/groups", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(type === "static" ? { name, type, serials } : { name, type, query }),
+        }),
+      `Created group ${name.trim()}`
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {serials.length > 0 && (
+        <>
+          <select value={groupId} onChange={(e) => setGroupId(e.target.value)} aria-label="Static group" className={inputClass}>
+            <option value="">Group...</option>
+            {staticGroups.map((g) => (
+              <option key={g.id} value={g.id}>
+                {g.name}
+              </option>
+            ))}
+          </select>
+          <button onClick={addToGroup} disabled={busy || !groupId} className={buttonClass}>
+            Add to group
+          </button>
+          <button onClick={() => createGroup("static")} disabled={busy} className={buttonClass}>
+            New group
+          </button>
+        </>
+      )}
+      {query && (
+        <button onClick={() => createGroup("dynamic")} disabled={busy} className={buttonClass} title={query}>
+          Save filters as group
+        </button>
+      )}
+      {message && (
+        <span className={message.ok ? "text-green-700 dark:text-green-400" : "text-red-700 dark:text-red-400"}>{message.text}</span>
+      )}
+    </div>
+  )
+}
+
+export default DeviceGroupActions
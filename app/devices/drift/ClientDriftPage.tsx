@@ -0,0 +1,179 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import { Suspense, useEffect, useState } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { BaselineDriftSummary, describeDeviation, DeviceDrift, Deviation } from "../../../src/lib/devices/drift"
+
+interface DriftResponse {
+  baselines: BaselineDriftSummary[]
+  devices: DeviceDrift[]
+  lookups: { looked: number; of: number }
+}
+
+const KIND_LABELS: Record<Deviation['kind'], string> = {
+  os: 'OS',
+  application: 'App',
+  profile: 'Profile',
+  security: 'Security',
+}
+
+const scoreClass = (score: number) =>
+  score === 0
+    ? 'text-green-700 dark:text-green-400'
+    : score < 25
+      ? 'text-amber-700 dark:text-amber-400'
+      : 'text-red-700 dark:text-red-400'
+
+function DriftPageContent() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const query = searchParams.toString()
+  const baseline = searchParams.get('baseline') ?? ''
+
+  const [data, setData] = useState<DriftResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const setBaseline = (next: string) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (next) params.set('baseline', next)
+    else params.delete('baseline')
+    const qs = params.toString()
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false })
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    fetch(`/api/devices/drift${baseline ? `?baseline=${encodeURIComponent(baseline)}` : ''}`)
+      .then(async resp => {
+        if (!resp.ok) throw new Error(`Request failed with status ${resp.status}`)
+        setData(await resp.json())
+        setError(null)
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load drift report'))
+      .finally(() => setLoading(false))
+  }, [baseline])
+
+  const fromUrl = `${pathname}${query ? `?${query}` : ''}`
+  const backUrl = searchParams.get('from') || '/devices'
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black">
+      <div className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-6">
+
+        <div className="mb-4">
+          <Link href={backUrl} className="text-sm text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1">
+            ← Devices
+          </Link>
+        </div>
+
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4">
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Baseline Drift</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Devices measured against their segment&apos;s baseline. The score is the share of the baseline&apos;s
+            expectations a device misses. Baselines are set up in{' '}
+            <Link href="/settings" className="text-blue-600 dark:text-blue-400 hover:underline">Settings → Drift Baselines</Link>.
+          </p>
+        </div>
+
+        {loading && !data ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+          </div>
+        ) : error ? (
+          <div className="py-16 text-center">
+            <p className="text-red-600 dark:text-red-400 font-medium mb-2">Error loading drift report</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{error}</p>
+          </div>
+        ) : data && data.baselines.length === 0 ? (
+          <div className="py-16 text-center text-sm text-gray-500 dark:text-gray-400">
+            No baselines are set up yet.
+          </div>
+        ) : data ? (
+          <div className="space-y-4">
+            <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {data.baselines.map(b => (
+                <button
+                  key={b.baselineId}
+                  onClick={() => setBaseline(baseline === b.baselineId ? '' : b.baselineId)}
+                  className={`text-left bg-white dark:bg-gray-800 rounded-xl shadow-sm border p-4 ${baseline === b.baselineId ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'}`}
+                >
+                  <div className="text-sm font-semibold text-gray-900 dark:text-white truncate">{b.baselineLabel}</div>
+                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {baseline && baseline !== b.baselineId
+                      ? 'Select to show'
+                      : `${b.drifted} of ${b.devices} devices drifted · average ${b.averageScore}%`}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {data.lookups.looked < data.lookups.of && (
+              <p className="text-sm text-amber-600 dark:text-amber-400">
+                Measured the {data.lookups.looked} most recently seen of {data.lookups.of} covered devices.
+              </p>
+            )}
+
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+              {data.devices.length === 0 ? (
+                <div className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">No devices are covered by {baseline ? 'this baseline' : 'a baseline'}.</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-700 dark:text-gray-300">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-semibold uppercase tracking-wider">Device</th>
+                      <th className="px-4 py-2 text-left text-xs font-semibold uppercase tracking-wider">Baseline</th>
+                      <th className="px-4 py-2 text-right text-xs font-semibold uppercase tracking-wider">Drift</th>
+                      <th className="px-4 py-2 text-left text-xs font-semibold uppercase tracking-wider">Deviations</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {data.devices.map(d => (
+                      <tr key={d.serialNumber} className="align-top">
+                        <td className="px-4 py-2">
+                          <Link href={`/device/${encodeURIComponent(d.serialNumber)}?from=${encodeURIComponent(fromUrl)}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                            {d.deviceName}
+                          </Link>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 font-mono">{d.serialNumber}</div>
+                        </td>
+                        <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{d.baselineLabel}</td>
+                        <td className={`px-4 py-2 text-right font-semibold ${scoreClass(d.score)}`}>{d.score}%</td>
+                        <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
+                          {d.deviations.length === 0 ? (
+                            <span className="text-gray-400 dark:text-gray-500">Matches baseline</span>
+                          ) : (
+                            <ul className="space-y-0.5">
+                              {d.deviations.map((dev, i) => (
+                                <li key={i}>
+                                  <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">{KIND_LABELS[dev.kind]}</span>
+                                  {describeDeviation(dev)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+export default function ClientDriftPage() {
+  return (
+    <Suspense fallback={<div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black" />}>
+      <DriftPageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import type { Metadata } from 'next';
+import ClientDriftPage from './ClientDriftPage';
+
+export const metadata: Metadata = {
+  title: 'Baseline Drift',
+  description: 'How far devices have drifted from their baselines',
+};
+
+// Force dynamic rendering and disable caching
+export const dynamic = 'force-dynamic';
+
+export default function DriftPage() {
+  return <ClientDriftPage />;
+}
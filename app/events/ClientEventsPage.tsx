@@ -973,6 +973,10 @@ function EventsPageContent() {
                     <Link href="/events/failures" className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300">
                       Failed check-ins
                     </Link>
+                    {' · '}
+                    <Link href="/events/incidents" className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300">
+                      Incidents
+                    </Link>
                   </p>
                 </div>
                 <div className="flex flex-col sm:flex-row gap-4 sm:items-center sm:justify-between">
@@ -1330,6 +1334,10 @@ function EventsPageContent() {
                     <Link href="/events/failures" className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300">
                       Failed check-ins
                     </Link>
+                    {' · '}
+                    <Link href="/events/incidents" className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300">
+                      Incidents
+                    </Link>
                   </p>
                 </div>
                 <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
@@ -1698,6 +1706,10 @@ function EventsPageContent() {
                       <Link href="/events/failures" className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300">
                         Failed check-ins
                       </Link>
+                      {' · '}
+                      <Link href="/events/incidents" className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300">
+                        Incidents
+                      </Link>
                     </p>
                   </div>
                   {/* Date Range Picker */}
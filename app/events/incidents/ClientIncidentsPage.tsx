@@ -0,0 +1,245 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { formatExactTime, formatRelativeTime } from "../../../src/lib/time"
+import type { Incident, IncidentKind } from "../../../src/lib/events/incidents"
+
+const PERIOD_OPTIONS = [
+  { value: 1, label: 'Last 24 hours' },
+  { value: 3, label: 'Last 3 days' },
+  { value: 7, label: 'Last 7 days' },
+]
+
+const TYPE_PARAMS: Record<string, IncidentKind> = { packages: 'packageFailure', missing: 'missingWave' }
+
+const KIND_LABELS: Record<IncidentKind, { label: string; badge: string }> = {
+  packageFailure: { label: 'Package failure', badge: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+  missingWave: { label: 'Missing devices', badge: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300' },
+}
+
+function duration(start: string, end: string): string {
+  const minutes = Math.round((Date.parse(end) - Date.parse(start)) / 60000)
+  if (minutes < 1) return 'under a minute'
+  if (minutes < 120) return `${minutes} min`
+  return `${Math.round(minutes / 60)} h`
+}
+
+function IncidentCard({ incident, open, onToggle, fromUrl }: { incident: Incident; open: boolean; onToggle: () => void; fromUrl: string }) {
+  const kind = KIND_LABELS[incident.kind]
+  const { rootCause } = incident
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <button onClick={onToggle} className="w-full text-left px-6 py-4 flex flex-wrap items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${kind.badge}`}>{kind.label}</span>
+            {incident.ongoing && (
+              <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-900 text-white dark:bg-white dark:text-gray-900">Ongoing</span>
+            )}
+            <h3 className="text-base font-semibold text-gray-900 dark:text-white">{incident.title}</h3>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            <span className="font-medium text-gray-800 dark:text-gray-200">{rootCause.description}</span>
+            {rootCause.category && rootCause.share < 1 && ` (${Math.round(rootCause.share * 100)}% of devices)`}
+            {' — '}{rootCause.action}
+          </p>
+        </div>
+        <div className="text-right text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+          <div title={formatExactTime(incident.start)}>Started {formatRelativeTime(incident.start)}</div>
+          <div>{incident.devices.length} devices over {duration(incident.start, incident.end)}</div>
+        </div>
+      </button>
+
+      {open && (
+        <div className="grid lg:grid-cols-2 gap-6 px-6 pb-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-2">Timeline</h4>
+            <ol className="max-h-96 overflow-y-auto border-l-2 border-gray-200 dark:border-gray-700 ml-1 space-y-2">
+              {incident.timeline.map((entry, i) => (
+                <li key={`${entry.device}-${entry.ts}-${i}`} className="pl-4 relative text-sm">
+                  <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-gray-400 dark:bg-gray-500" />
+                  <span className="text-xs text-gray-500 dark:text-gray-400 font-mono mr-2">{formatExactTime(entry.ts)}</span>
+                  <span className="font-medium text-gray-900 dark:text-white">{entry.deviceName}</span>
+                  <div className="text-gray-600 dark:text-gray-400 break-words">{entry.message}</div>
+                </li>
+              ))}
+            </ol>
+          </div>
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-2">Affected Devices</h4>
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {incident.devices.map(d => (
+                    <tr key={d.serialNumber}>
+                      <td className="py-2 pr-3">
+                        <Link
+                          href={`/device/${encodeURIComponent(d.serialNumber)}?from=${encodeURIComponent(fromUrl)}#${incident.kind === 'packageFailure' ? 'installs' : 'info'}`}
+                          className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {d.deviceName}
+                        </Link>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 font-mono">{d.serialNumber}</div>
+                      </td>
+                      <td className="py-2 text-xs text-gray-600 dark:text-gray-400">
+                        {d.error || (incident.kind === 'missingWave' ? `Last seen ${formatRelativeTime(d.lastSeen)}` : '—')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function IncidentsPageContent() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const query = searchParams.toString()
+  const period = PERIOD_OPTIONS.some(o => String(o.value) === searchParams.get('period')) ? Number(searchParams.get('period')) : 1
+  const typeParam = searchParams.get('type') ?? ''
+  const kind = TYPE_PARAMS[typeParam]
+  const openId = searchParams.get('incident')
+
+  const [incidents, setIncidents] = useState<Incident[]>([])
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const setUrl = (next: { period?: number; type?: string; incident?: string | null }) => {
+    const params = new URLSearchParams()
+    const p = next.period ?? period
+    const t = next.type ?? (kind ? typeParam : '')
+    const i = next.incident === undefined ? openId : next.incident
+    if (p !== 1) params.set('period', String(p))
+    if (t) params.set('type', t)
+    if (i) params.set('incident', i)
+    const qs = params.toString()
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false })
+  }
+
+  const fetchIncidents = useCallback(async () => {
+    try {
+      const resp = await fetch(`/api/events/incidents?hours=${period * 24}`)
+      if (!resp.ok) {
+        throw new Error(`Request failed with status ${resp.status}`)
+      }
+      const data = await resp.json()
+      setIncidents(Array.isArray(data.incidents) ? data.incidents : [])
+      setTruncated(data.truncated === true)
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load incidents')
+    } finally {
+      setLoading(false)
+    }
+  }, [period])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchIncidents()
+    const interval = setInterval(fetchIncidents, 60000)
+    return () => clearInterval(interval)
+  }, [fetchIncidents])
+
+  const visible = useMemo(() => (kind ? incidents.filter(i => i.kind === kind) : incidents), [incidents, kind])
+  const counts = useMemo(() => ({
+    packages: incidents.filter(i => i.kind === 'packageFailure').length,
+    missing: incidents.filter(i => i.kind === 'missingWave').length,
+  }), [incidents])
+  const fromUrl = `${pathname}${query ? `?${query}` : ''}`
+
+  const chip = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm font-medium transition-colors border ${
+      active
+        ? 'bg-gray-900 text-white border-gray-900 dark:bg-white dark:text-gray-900 dark:border-white'
+        : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700 dark:hover:bg-gray-700'
+    }`
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black">
+      <div className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-6">
+
+        <div className="mb-4">
+          <Link href="/events" className="text-sm text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1">
+            ← Events
+          </Link>
+        </div>
+
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Incidents</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Related events across devices grouped together: a package failing on many devices within an hour of
+              each other, or devices in one location going missing together.
+            </p>
+          </div>
+          <select
+            value={period}
+            onChange={(e) => setUrl({ period: parseInt(e.target.value, 10), incident: null })}
+            className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {PERIOD_OPTIONS.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap gap-2 pb-4">
+          <button onClick={() => setUrl({ type: '' })} className={chip(!kind)}>All ({incidents.length})</button>
+          <button onClick={() => setUrl({ type: 'packages' })} className={chip(kind === 'packageFailure')}>Package failures ({counts.packages})</button>
+          <button onClick={() => setUrl({ type: 'missing' })} className={chip(kind === 'missingWave')}>Missing devices ({counts.missing})</button>
+        </div>
+
+        {truncated && (
+          <p className="mb-4 text-sm text-amber-600 dark:text-amber-400">
+            Only the newest 1000 error events of the period were correlated; pick a shorter period to see older incidents.
+          </p>
+        )}
+
+        {loading && incidents.length === 0 ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white"></div>
+          </div>
+        ) : error ? (
+          <div className="py-16 text-center">
+            <p className="text-red-600 dark:text-red-400 font-medium mb-2">Error loading incidents</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{error}</p>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="py-16 text-center text-sm text-gray-500 dark:text-gray-400">No incidents in this period.</div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map(incident => (
+              <IncidentCard
+                key={incident.id}
+                incident={incident}
+                open={openId === incident.id}
+                onToggle={() => setUrl({ incident: openId === incident.id ? null : incident.id })}
+                fromUrl={fromUrl}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function ClientIncidentsPage() {
+  return (
+    <Suspense fallback={<div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black" />}>
+      <IncidentsPageContent />
+    </Suspense>
+  )
+}
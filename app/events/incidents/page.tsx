@@ -0,0 +1,15 @@
+import React from 'react';
+import type { Metadata } from 'next';
+import ClientIncidentsPage from './ClientIncidentsPage';
+
+export const metadata: Metadata = {
+  title: 'Incidents',
+  description: 'Related events across devices grouped into incidents',
+};
+
+// Force dynamic rendering and disable caching
+export const dynamic = 'force-dynamic';
+
+export default function IncidentsPage() {
+  return <ClientIncidentsPage />;
+}
@@ -11,8 +11,11 @@ import { Copy } from "lucide-react"
 import { CollapsibleSection } from "@/src/components/ui/CollapsibleSection"
 import { useScrollCollapse } from "@/src/hooks/useScrollCollapse"
 import { useDeviceData } from "@/src/hooks/useDeviceData"
+import { useCustomInventoryFilters } from "@/src/hooks/useCustomInventoryFilters"
 import DeviceFilters, { FilterOptions } from "@/src/components/shared/DeviceFilters"
-import { calculateDeviceStatus } from "@/src/lib/data-processing"
+import { BulkActionBar, BulkSelectAllCheckbox, BulkSelectCheckbox } from "@/src/components/shared/BulkActionBar"
+import { useBulkSelection } from "@/src/hooks/useBulkSelection"
+import { useDeviceStatus } from "@/src/hooks/useDeviceStatus"
 import { 
   ArchitectureDonutChart, 
   MemoryBreakdownChart, 
@@ -57,6 +60,8 @@ interface HardwareRecord {
 function HardwarePageContent() {
   const [hardware, setHardware] = useState<HardwareRecord[]>([])
   const [loading, setLoading] = useState(true)
+  // Bumped after a bulk action so the list refetches
+  const [reloadKey, setReloadKey] = useState(0)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [processorFilter, setProcessorFilter] = useState<string>('all')
@@ -99,11 +104,23 @@ function HardwarePageContent() {
   
   // Main devices (with inventory) from the devices API
   const { devices: allDevices } = useDeviceData()
+  // Org-defined inventory fields, read from the same main devices rows
+  const customFilters = useCustomInventoryFilters(allDevices)
+
+  // Status comes from the shared helper so every report agrees on the same
+  // thresholds and the same lowercase values. Segment thresholds read the
+  // inventory from the main devices row.
+  const deviceStatus = useDeviceStatus()
+  const getDeviceStatus = (device: any): string =>
+    deviceStatus(
+      allDevices.find((d: any) => d.serialNumber === device.serialNumber || d.deviceId === device.deviceId) ?? device,
+      device.lastSeen || device.collectedAt
+    )
 
   // Filter options computed from inventory data
   const filterOptions: FilterOptions = {
     statuses: Array.from(new Set(
-      hardware.map(h => calculateDeviceStatus((h as any).lastSeen || (h as any).collectedAt))
+      hardware.map(getDeviceStatus)
     )).sort(),
     usages: Array.from(new Set(
       allDevices.map((d: any) => d.modules?.inventory?.usage).filter(Boolean)
@@ -205,7 +222,7 @@ function HardwarePageContent() {
     selectedArchitectures.length + selectedDeviceTypes.length + selectedProcessors.length +
     selectedGraphics.length + selectedPlatforms.length + selectedChipConfigs.length + selectedStatuses.length +
     selectedUsages.length + selectedCatalogs.length + selectedLocations.length +
-    selectedAreas.length + selectedFleets.length
+    selectedAreas.length + selectedFleets.length + customFilters.selectedCount
 
   const clearAllFilters = () => {
     setSelectedModels([])
@@ -223,6 +240,7 @@ function HardwarePageContent() {
     setSelectedLocations([])
     setSelectedAreas([])
     setSelectedFleets([])
+    customFilters.clear()
     setSearchQuery('')
   }
   
@@ -251,25 +269,12 @@ function HardwarePageContent() {
         const hardwareData = await hardwareResponse.json()
         
         if (Array.isArray(hardwareData)) {
-          // Process hardware data to include inventory and status
-          const processedData = hardwareData.map((h: any) => {
-            const inventory = h.inventory || {}
-            // Calculate device status from lastSeen
-            const now = new Date()
-            const lastSeen = h.lastSeen ? new Date(h.lastSeen) : null
-            let status = 'missing'
-            if (lastSeen) {
-              const hoursSince = (now.getTime() - lastSeen.getTime()) / (1000 * 60 * 60)
-              if (hoursSince < 2) status = 'active'
-              else if (hoursSince < 48) status = 'stale'
-            }
-            
-            return {
-              ...h,
-              inventory,
-              status
-            }
-          })
+          // Process hardware data to include inventory; status is derived at
+          // render by getDeviceStatus
+          const processedData = hardwareData.map((h: any) => ({
+            ...h,
+            inventory: h.inventory || {}
+          }))
           
           setHardware(processedData)
           setError(null)
@@ -285,7 +290,7 @@ function HardwarePageContent() {
       }
     }
     fetchData()
-  }, [])
+  }, [reloadKey])
 
   const processedHardware = hardware.map(hardwareRecord => {
     let architecture = 'Unknown'
@@ -618,11 +623,6 @@ function HardwarePageContent() {
     return name
   }
 
-  // Status comes from the shared helper so every report agrees on the same
-  // thresholds and the same lowercase values
-  const getDeviceStatus = (device: any): string =>
-    calculateDeviceStatus(device.lastSeen || device.collectedAt)
-
   // Helper to get inventory data
   const getInventory = (device: any) => {
     if (device.inventory && Object.keys(device.inventory).length > 0) return device.inventory
@@ -656,6 +656,8 @@ function HardwarePageContent() {
     if (selectedLocations.length > 0 && !selectedLocations.includes(inventory.location || '')) return false
     if (selectedAreas.length > 0 && !selectedAreas.includes((inventory as any).area || (inventory as any).department || '')) return false
     if (selectedFleets.length > 0 && !selectedFleets.includes((inventory as any).fleet || '')) return false
+    if (customFilters.selectedCount > 0 &&
+        !customFilters.matches(allDevices.find((d: any) => d.serialNumber === h.serialNumber || d.deviceId === h.deviceId) ?? h)) return false
 
     // Hardware-specific filters (from widget charts)
     if (selectedPlatforms.length > 0 && !selectedPlatforms.includes(getDevicePlatform(h))) return false
@@ -762,6 +764,9 @@ function HardwarePageContent() {
     return { total: `${storage.length} drives`, free: null }
   }
 
+  // Rows checked for the bulk actions
+  const selection = useBulkSelection(filteredHardware.map(h => h.serialNumber))
+
   const copyToClipboard = async (text: string) => {
     try { await navigator.clipboard.writeText(text) } catch { /* fallback */ }
   }
@@ -819,6 +824,8 @@ function HardwarePageContent() {
             expanded={effectiveFiltersExpanded}
             onToggle={() => setFiltersExpanded(!filtersExpanded)}
             locationCounts={locationCounts}
+            customFilters={customFilters.groups}
+            onCustomToggle={customFilters.toggle}
           />
 
           {/* Widgets Accordion */}
@@ -861,11 +868,14 @@ function HardwarePageContent() {
             </CollapsibleSection>
           </div>
 
+          <BulkActionBar selection={selection} dataset="hardware" onComplete={() => setReloadKey(k => k + 1)} />
+
           {/* Hardware Table */}
           <div ref={tableContainerRef} className="flex-1 overflow-auto min-h-0 table-scrollbar">
             <table className="w-full table-fixed">
               <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0 z-10">
                 <tr>
+                  <th className="pl-4 py-3 w-10 bg-gray-50 dark:bg-gray-700"><BulkSelectAllCheckbox selection={selection} label="Select all listed devices" /></th>
                   <th onClick={() => handleSort('device')} className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase w-56 bg-gray-50 dark:bg-gray-700 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 select-none"><div className="flex items-center gap-1">Device{sortColumn === 'device' && <svg className={`w-3 h-3 ${sortDirection === 'desc' ? 'rotate-180' : ''}`} fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg>}</div></th>
                   <th onClick={() => handleSort('model')} className={`px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase ${isMacPlatform ? 'w-56' : 'w-40'} bg-gray-50 dark:bg-gray-700 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 select-none`}><div className="flex items-center gap-1">Model{sortColumn === 'model' && <svg className={`w-3 h-3 ${sortDirection === 'desc' ? 'rotate-180' : ''}`} fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg>}</div></th>
                   {isMacPlatform && <th onClick={() => handleSort('chip')} className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase w-28 bg-gray-50 dark:bg-gray-700 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 select-none"><div className="flex items-center gap-1">Chip{sortColumn === 'chip' && <svg className={`w-3 h-3 ${sortDirection === 'desc' ? 'rotate-180' : ''}`} fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg>}</div></th>}
@@ -878,12 +888,13 @@ function HardwarePageContent() {
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {error ? (
-                  <tr><td colSpan={7} className="px-6 py-12 text-center"><div className="flex flex-col items-center"><div className="w-12 h-12 mb-4 bg-red-50 dark:bg-red-900/20 rounded-full flex items-center justify-center"><svg className="w-6 h-6 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg></div><p className="text-base font-medium text-gray-900 dark:text-white mb-2">Failed to load hardware</p><p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{error}</p><button onClick={() => window.location.reload()} className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg text-sm font-medium transition-colors">Try Again</button></div></td></tr>
+                  <tr><td colSpan={8} className="px-6 py-12 text-center"><div className="flex flex-col items-center"><div className="w-12 h-12 mb-4 bg-red-50 dark:bg-red-900/20 rounded-full flex items-center justify-center"><svg className="w-6 h-6 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg></div><p className="text-base font-medium text-gray-900 dark:text-white mb-2">Failed to load hardware</p><p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{error}</p><button onClick={() => window.location.reload()} className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg text-sm font-medium transition-colors">Try Again</button></div></td></tr>
                 ) : filteredHardware.length === 0 ? (
-                  <tr><td colSpan={7} className="px-6 py-12 text-center"><div className="flex flex-col items-center"><svg className="w-12 h-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" /></svg><h3 className="text-sm font-medium text-gray-900 dark:text-white mb-1">No hardware found</h3><p className="text-sm text-gray-500 dark:text-gray-400">Try adjusting your search criteria.</p></div></td></tr>
+                  <tr><td colSpan={8} className="px-6 py-12 text-center"><div className="flex flex-col items-center"><svg className="w-12 h-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" /></svg><h3 className="text-sm font-medium text-gray-900 dark:text-white mb-1">No hardware found</h3><p className="text-sm text-gray-500 dark:text-gray-400">Try adjusting your search criteria.</p></div></td></tr>
                 ) : (
                   filteredHardware.map((hw) => (
                     <tr key={hw.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="pl-4 py-3 w-10"><BulkSelectCheckbox selection={selection} serialNumber={hw.serialNumber} label={hw.deviceName} /></td>
                       <td className="px-4 py-3 w-56"><div className="flex flex-col justify-center min-w-0"><Link href={`/device/${encodeURIComponent(hw.serialNumber)}#hardware`} className="group block min-w-0" title={hw.deviceName || hw.serialNumber || 'Unknown Device'}><span className="font-medium text-gray-900 group-hover:text-gray-700 dark:text-white dark:group-hover:text-gray-200 text-sm leading-tight block truncate">{hw.deviceName || hw.serialNumber || 'Unknown Device'}</span></Link><div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 font-mono leading-tight"><span className="truncate max-w-32">{hw.serialNumber}</span><button onClick={() => copyToClipboard(hw.serialNumber)} className="p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 flex-shrink-0" title="Copy serial number"><Copy size={10} /></button>{hw.assetTag && <><span>|</span><span className="truncate max-w-20">{hw.assetTag}</span></>}</div></div></td>
                       <td className={`px-4 py-3 ${isMacPlatform ? 'w-56' : 'w-40'}`} style={{ maxWidth: isMacPlatform ? '224px' : '160px' }}>
                         <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{hw.manufacturer || ''}</div>
@@ -2,7 +2,7 @@
 
 export const dynamic = 'force-dynamic'
 
-import { useEffect, useState, Suspense } from "react"
+import { useEffect, useMemo, useState, Suspense } from "react"
 import Link from "next/link"
 import { useSearchParams } from "next/navigation"
 import { formatRelativeTime } from "@/src/lib/time"
@@ -10,7 +10,8 @@ import { usePlatformFilterSafe, normalizePlatform } from "@/src/providers/Platfo
 import { CollapsibleSection } from "@/src/components/ui/CollapsibleSection"
 import { useScrollCollapse } from "@/src/hooks/useScrollCollapse"
 import DeviceFilters, { FilterOptions } from "@/src/components/shared/DeviceFilters"
-import { calculateDeviceStatus } from "@/src/lib/data-processing"
+import { useDeviceStatus } from "@/src/hooks/useDeviceStatus"
+import { useInventoryNormalizer } from "@/src/hooks/useInventoryNormalizer"
 
 interface IdentityDevice {
   id: string
@@ -136,7 +137,11 @@ function IdentityPageContent() {
   const { platformFilter: globalPlatformFilter, isPlatformVisible } = usePlatformFilterSafe()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [identityDevices, setIdentityDevices] = useState<IdentityDevice[]>([])
+  const [identityRows, setIdentityRows] = useState<IdentityDevice[]>([])
+  // Inventory values normalized through the field aliases at render, so they
+  // follow the settings once they load
+  const normalize = useInventoryNormalizer()
+  const identityDevices = useMemo(() => identityRows.map(normalize.row), [identityRows, normalize])
   const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '')
   const [adminFilter, setAdminFilter] = useState('all')
   const [widgetsExpanded, setWidgetsExpanded] = useState(true)
@@ -171,8 +176,10 @@ function IdentityPageContent() {
     setSelectedLocations([]); setSelectedAreas([]); setSelectedFleets([])
   }
 
-  // Status is derived from lastSeen, the same rule every other report uses
-  const statusOf = (d: { lastSeen?: string }) => calculateDeviceStatus(d.lastSeen)
+  // Status is derived from lastSeen with the device's segment thresholds, the
+  // same rule every other report uses
+  const deviceStatus = useDeviceStatus()
+  const statusOf = (d: IdentityDevice) => deviceStatus(d)
   // Expandable legend categories
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set())
   const toggleCategory = (label: string) => {
@@ -226,7 +233,7 @@ function IdentityPageContent() {
         }
         
         const data = await response.json()
-        setIdentityDevices(data)
+        setIdentityRows(data)
       } catch (err) {
         console.error('Error fetching identity:', err)
         setError(err instanceof Error ? err.message : 'An unexpected error occurred')
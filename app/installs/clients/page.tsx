@@ -0,0 +1,248 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import { Suspense, useMemo } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { useInstallsFilterOptions } from "@/src/hooks/useInstallsData"
+import { CLIENT_LABELS, ClientVersionSummary, collectClientVersions, MANAGEMENT_CLIENTS, ManagementClient } from "@/src/lib/installs/client-versions"
+import { useSettingsOptional } from "@/src/providers/SettingsProvider"
+
+const CLIENT_PLATFORM: Record<ManagementClient, string> = { cimian: 'win', munki: 'mac' }
+
+function VersionDistribution({ summary }: { summary: ClientVersionSummary }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-baseline justify-between mb-1">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white">{CLIENT_LABELS[summary.client]} Versions</h2>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{summary.devices} devices</span>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        {summary.current} on the newest build{summary.newest ? ` (${summary.newest})` : ''}.{' '}
+        {summary.minimum
+          ? <>Minimum {summary.minimum}: <span className={summary.belowMinimum ? 'text-red-600 dark:text-red-400 font-medium' : ''}>{summary.belowMinimum} below</span>.</>
+          : 'No minimum set.'}
+      </p>
+      <div className="max-h-72 overflow-y-auto space-y-2">
+        {summary.versions.map(v => {
+          const percentage = summary.devices > 0 ? Math.round((v.devices / summary.devices) * 100) : 0
+          return (
+            <div key={v.version}>
+              <div className="flex items-center justify-between mb-1 text-sm">
+                <span className={`font-mono ${v.belowMinimum ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                  {v.version}
+                </span>
+                <span className="text-gray-500 dark:text-gray-400 ml-2 whitespace-nowrap">
+                  {v.buildsBehind > 0 && (
+                    <span className="text-xs mr-2">
+                      {v.buildsBehind} behind{v.daysBehind !== undefined && v.daysBehind > 0 ? `, ${v.daysBehind}d` : ''}
+                    </span>
+                  )}
+                  {v.devices} ({percentage}%)
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${v.belowMinimum ? 'bg-red-500' : v.buildsBehind === 0 ? 'bg-emerald-500' : 'bg-amber-400'}`}
+                  style={{ width: `${percentage}%` }}
+                />
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function ClientVersionsPageContent() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const query = searchParams.toString()
+  const search = searchParams.get('q') ?? ''
+  const showAll = searchParams.get('show') === 'all'
+  const belowOnly = searchParams.get('below') === '1'
+  const platform = searchParams.get('platform')
+
+  const { devices, isLoading, error } = useInstallsFilterOptions()
+  const policy = useSettingsOptional()?.settings.clientVersions
+  const report = useMemo(() => collectClientVersions(devices, policy), [devices, policy])
+  const clients = useMemo(
+    () => MANAGEMENT_CLIENTS.filter(c => report.clients[c].devices > 0 && (!platform || CLIENT_PLATFORM[c] === platform)),
+    [report, platform]
+  )
+
+  const setUrl = (next: { q?: string; showAll?: boolean; belowOnly?: boolean }) => {
+    const params = new URLSearchParams()
+    const q = (next.q ?? search).trim()
+    if (q) params.set('q', q)
+    if (next.showAll ?? showAll) params.set('show', 'all')
+    if (next.belowOnly ?? belowOnly) params.set('below', '1')
+    if (platform) params.set('platform', platform)
+    const qs = params.toString()
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false })
+  }
+
+  const rows = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return report.devices.filter(d =>
+      clients.includes(d.client) &&
+      (belowOnly ? d.belowMinimum : showAll || d.buildsBehind > 0) &&
+      (!q || [d.deviceName, d.serialNumber, d.version].some(v => v.toLowerCase().includes(q)))
+    )
+  }, [report, clients, search, showAll, belowOnly])
+
+  const fromUrl = `${pathname}${query ? `?${query}` : ''}`
+  const exportQuery = new URLSearchParams({
+    ...(platform ? { platform } : {}),
+    ...(search.trim() ? { q: search.trim() } : {}),
+    ...(belowOnly ? { below: '1' } : {}),
+  }).toString()
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black">
+      <div className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-6">
+
+        <div className="mb-4">
+          <Link href="/installs" className="text-sm text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1">
+            ← Installs
+          </Link>
+        </div>
+
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4">
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Client Versions</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Which Cimian and Munki builds the fleet runs, and how far each device is behind the newest build seen.
+            Cimian builds are compared by build date whatever encoding the client reports. Minimum versions are set
+            in <Link href="/settings" className="text-blue-600 dark:text-blue-400 hover:underline">Settings → Client Versions</Link>;
+            a &quot;Client below minimum&quot; alert rule notifies about the devices below them.
+          </p>
+        </div>
+
+        {error && <div className="mb-4 p-4 text-center text-red-600 dark:text-red-400 text-sm">{error.message}</div>}
+        {isLoading && devices.length === 0 && !error && (
+          <div className="mb-4 p-6 text-center text-gray-500 dark:text-gray-400 text-sm">Loading…</div>
+        )}
+        {!isLoading && !error && clients.length === 0 && (
+          <div className="mb-4 p-6 text-center text-gray-500 dark:text-gray-400 text-sm">No devices report a Cimian or Munki version.</div>
+        )}
+
+        {clients.length > 0 && (
+          <div className={`grid gap-4 mb-4 ${clients.length > 1 ? 'lg:grid-cols-2' : ''}`}>
+            {clients.map(c => <VersionDistribution key={c} summary={report.clients[c]} />)}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 px-6 py-4 mb-4">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <input
+              type="search"
+              value={search}
+              onChange={e => setUrl({ q: e.target.value })}
+              placeholder="Filter devices or versions..."
+              className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={belowOnly}
+                onChange={e => setUrl({ belowOnly: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Below minimum only
+            </label>
+            {!belowOnly && (
+              <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={showAll}
+                  onChange={e => setUrl({ showAll: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Include devices on the newest build
+              </label>
+            )}
+            <div className="ml-auto flex items-center gap-3 text-gray-500 dark:text-gray-400">
+              {rows.length} devices
+              {(['csv', 'xlsx'] as const).map(format => (
+                <a
+                  key={format}
+                  href={`/api/v1/export/clients?format=${format}${exportQuery ? `&${exportQuery}` : ''}`}
+                  className="text-blue-600 dark:text-blue-400 hover:underline uppercase text-xs"
+                  title={belowOnly ? 'Export the devices below the minimum' : 'Export every device with its client version'}
+                >
+                  {format}
+                </a>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Devices */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          {rows.length === 0 ? (
+            <div className="p-8 text-center text-gray-500 dark:text-gray-400 text-sm">
+              {belowOnly ? 'No devices are below the minimum version.' : 'Every device runs the newest build.'}
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Device</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Client</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Version</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider">Builds Behind</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider">Days Behind</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Last Seen</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.map(d => (
+                    <tr key={`${d.serialNumber}/${d.client}`} className="hover:bg-gray-50 dark:hover:bg-gray-900/40">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/device/${encodeURIComponent(d.serialNumber)}?from=${encodeURIComponent(fromUrl)}#installs`}
+                          className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {d.deviceName}
+                        </Link>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 font-mono">{d.serialNumber}</div>
+                      </td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{CLIENT_LABELS[d.client]}</td>
+                      <td className="px-4 py-3">
+                        <span className="font-mono text-xs text-gray-700 dark:text-gray-300">{d.version}</span>
+                        {d.belowMinimum && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded text-[11px] font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                            Below minimum
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">{d.buildsBehind || '—'}</td>
+                      <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">{d.daysBehind || '—'}</td>
+                      <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400">
+                        {d.lastSeen ? new Date(d.lastSeen).toLocaleString() : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function ClientVersionsPage() {
+  return (
+    <Suspense fallback={<div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black" />}>
+      <ClientVersionsPageContent />
+    </Suspense>
+  )
+}
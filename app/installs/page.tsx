@@ -5,7 +5,8 @@ import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { formatRelativeTime } from '@/src/lib/time'
 import { categorizeDevicesByInstallStatus, getDeviceInstallItems } from '@/src/hooks/useInstallsData'
-import { calculateDeviceStatus } from '@/src/lib/data-processing'
+import { useDeviceStatus } from '@/src/hooks/useDeviceStatus'
+import { useInventoryNormalizer } from '@/src/hooks/useInventoryNormalizer'
 import { InstallErrorsWidget, InstallWarningsWidget, SelectedItemMessages } from '@/src/components/widgets/InstallMessages'
 import { CopyButton } from '@/src/components/ui/CopyButton'
 import { PlatformBadge } from '@/src/components/ui/PlatformBadge'
@@ -13,6 +14,7 @@ import { getDevicePlatform, usePlatformFilterSafe } from '@/src/providers/Platfo
 import { CollapsibleSection } from '@/src/components/ui/CollapsibleSection'
 import { useScrollCollapse } from '@/src/hooks/useScrollCollapse'
 import DeviceFilters, { FilterOptions as SharedFilterOptions } from '@/src/components/shared/DeviceFilters'
+import { compareClientVersions } from '@/src/lib/installs/client-versions'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
@@ -100,6 +102,7 @@ function InstallsPageContent() {
   )
   const searchParams = useSearchParams()
   const { platformFilter, isPlatformVisible } = usePlatformFilterSafe()
+  const deviceStatus = useDeviceStatus()
 
   // Apply global platform filter (?platform=mac or ?platform=win)
   // For installs: mac = only devices with Munki data, win = only devices with Cimian data
@@ -151,6 +154,23 @@ function InstallsPageContent() {
     devicesWithData: 0
   })
 
+  // Options and selections are normalized values (Settings > Inventory
+  // aliases); the installs API and records still carry the raw spellings.
+  // Usage and catalog are matched lowercased, as their toggles store them.
+  const normalize = useInventoryNormalizer()
+  const rawFilters = useMemo(() => {
+    const observed = (options: string[], pick: (install: InstallRecord) => unknown) =>
+      [...options, ...installs.map(pick).filter((v): v is string => typeof v === 'string')]
+    const lower = (values: string[]) => Array.from(new Set(values.map(v => v.toLowerCase())))
+    return {
+      usages: lower(normalize.expand('usage', selectedUsages, observed(filterOptions.usages, i => i.usage))),
+      catalogs: lower(normalize.expand('catalog', selectedCatalogs, observed(filterOptions.catalogs, i => i.catalog))),
+      rooms: normalize.expand('location', selectedRooms, observed(filterOptions.rooms, i => i.room)),
+      fleets: normalize.expand('fleet', selectedFleets, observed(filterOptions.fleets, i => i.fleet)),
+      areas: normalize.expand('area', selectedAreas, observed(filterOptions.areas, i => i.area || i.department)),
+    }
+  }, [normalize, installs, filterOptions, selectedUsages, selectedCatalogs, selectedRooms, selectedFleets, selectedAreas])
+
   // Filter toggle functions
   const toggleInstall = (install: string) => {
     setSelectedInstalls(prev => 
@@ -371,11 +391,11 @@ function InstallsPageContent() {
 
       const params = new URLSearchParams()
       selectedInstalls.forEach(install => params.append('installs', install))
-      selectedUsages.forEach(usage => params.append('usages', usage))
-      selectedCatalogs.forEach(catalog => params.append('catalogs', catalog))
-      selectedRooms.forEach(room => params.append('rooms', room))
-      selectedFleets.forEach(fleet => params.append('fleets', fleet))
-      selectedAreas.forEach(area => params.append('areas', area))
+      rawFilters.usages.forEach(usage => params.append('usages', usage))
+      rawFilters.catalogs.forEach(catalog => params.append('catalogs', catalog))
+      rawFilters.rooms.forEach(room => params.append('rooms', room))
+      rawFilters.fleets.forEach(fleet => params.append('fleets', fleet))
+      rawFilters.areas.forEach(area => params.append('areas', area))
       selectedPlatforms.forEach(platform => params.append('platforms', platform))
 
       const response = await fetch(`/api/v1/installs?${params}`, {
@@ -630,17 +650,7 @@ function InstallsPageContent() {
     
     // Apply device status filter (Active/Stale/Missing based on lastSeen)
     if (deviceStatusFilter !== 'all') {
-      const now = new Date()
-      filtered = filtered.filter(device => {
-        if (!device.lastSeen) return deviceStatusFilter === 'missing'
-        const lastSeenDate = new Date(device.lastSeen)
-        const hoursSinceLastSeen = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60)
-        
-        if (deviceStatusFilter === 'active') return hoursSinceLastSeen <= 24
-        if (deviceStatusFilter === 'stale') return hoursSinceLastSeen > 24 && hoursSinceLastSeen <= 168
-        if (deviceStatusFilter === 'missing') return hoursSinceLastSeen > 168
-        return true
-      })
+      filtered = filtered.filter(device => deviceStatus(device) === deviceStatusFilter)
     }
     
     // Apply install status filter (Installed/Pending/Warnings/Errors/Removed)
@@ -676,28 +686,28 @@ function InstallsPageContent() {
     }
     
     // Filter by inventory filters (usage, catalog, fleet, platform, room)
-    if (selectedUsages.length > 0) {
+    if (rawFilters.usages.length > 0) {
       filtered = filtered.filter(device => {
         const usage = device.usage?.toLowerCase() || ''
-        return selectedUsages.some(u => usage.includes(u.toLowerCase()))
+        return rawFilters.usages.some(u => usage.includes(u.toLowerCase()))
       })
     }
-    if (selectedCatalogs.length > 0) {
+    if (rawFilters.catalogs.length > 0) {
       filtered = filtered.filter(device => {
         const catalog = device.catalog?.toLowerCase() || ''
-        return selectedCatalogs.some(c => catalog.includes(c.toLowerCase()))
+        return rawFilters.catalogs.some(c => catalog.includes(c.toLowerCase()))
       })
     }
-    if (selectedFleets.length > 0) {
+    if (rawFilters.fleets.length > 0) {
       filtered = filtered.filter(device => {
         const fleet = device.fleet?.toLowerCase() || ''
-        return selectedFleets.some(f => fleet.toLowerCase().includes(f.toLowerCase()))
+        return rawFilters.fleets.some(f => fleet.toLowerCase().includes(f.toLowerCase()))
       })
     }
-    if (selectedAreas.length > 0) {
+    if (rawFilters.areas.length > 0) {
       filtered = filtered.filter(device => {
         const area = (device.area || device.department || '').toLowerCase()
-        return selectedAreas.some(a => area.includes(a.toLowerCase()))
+        return rawFilters.areas.some(a => area.includes(a.toLowerCase()))
       })
     }
     if (selectedPlatforms.length > 0) {
@@ -706,10 +716,10 @@ function InstallsPageContent() {
         return selectedPlatforms.some(p => platform.includes(p.toLowerCase()))
       })
     }
-    if (selectedRooms.length > 0) {
+    if (rawFilters.rooms.length > 0) {
       filtered = filtered.filter(device => {
         const room = device.location?.toLowerCase() || ''
-        return selectedRooms.some(r => room.includes(r.toLowerCase()))
+        return rawFilters.rooms.some(r => room.includes(r.toLowerCase()))
       })
     }
     
@@ -745,7 +755,7 @@ function InstallsPageContent() {
     })
     
     return filtered
-  }, [configReportData, deviceStatusFilter, installStatusFilter, selectedManifest, selectedSoftwareRepo, selectedMunkiVersion, selectedCimianVersion, selectedUsages, selectedCatalogs, selectedFleets, selectedAreas, selectedPlatforms, selectedRooms, searchQuery, sortColumn, sortDirection])
+  }, [configReportData, deviceStatusFilter, installStatusFilter, selectedManifest, selectedSoftwareRepo, selectedMunkiVersion, selectedCimianVersion, rawFilters, selectedPlatforms, searchQuery, sortColumn, sortDirection, deviceStatus])
   
   // Filter installs based on search query AND inventory filters AND device status AND install status
   const filteredInstalls = useMemo(() => {
@@ -753,21 +763,7 @@ function InstallsPageContent() {
     
     // Apply device status filter (Active/Stale/Missing based on lastSeen)
     if (deviceStatusFilter !== 'all') {
-      const now = new Date()
-      filtered = filtered.filter(install => {
-        if (!install.lastSeen) return deviceStatusFilter === 'missing'
-        const lastSeenDate = new Date(install.lastSeen)
-        const hoursSinceLastSeen = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60)
-        
-        if (deviceStatusFilter === 'active') {
-          return hoursSinceLastSeen <= 24 // Active = seen in last 24 hours
-        } else if (deviceStatusFilter === 'stale') {
-          return hoursSinceLastSeen > 24 && hoursSinceLastSeen <= 168 // Stale = 1-7 days
-        } else if (deviceStatusFilter === 'missing') {
-          return hoursSinceLastSeen > 168 // Missing = not seen in 7+ days
-        }
-        return true
-      })
+      filtered = filtered.filter(install => deviceStatus(install) === deviceStatusFilter)
     }
     
     // Apply install status filter (Installed/Pending/Warnings/Errors/Removed)
@@ -811,29 +807,29 @@ function InstallsPageContent() {
     }
     
     // Apply Usage filter
-    if (selectedUsages.length > 0) {
+    if (rawFilters.usages.length > 0) {
       filtered = filtered.filter(install => 
-        install.usage && selectedUsages.includes(install.usage.toLowerCase())
+        install.usage && rawFilters.usages.includes(install.usage.toLowerCase())
       )
     }
     
     // Apply Catalog filter
-    if (selectedCatalogs.length > 0) {
+    if (rawFilters.catalogs.length > 0) {
       filtered = filtered.filter(install => 
-        install.catalog && selectedCatalogs.includes(install.catalog.toLowerCase())
+        install.catalog && rawFilters.catalogs.includes(install.catalog.toLowerCase())
       )
     }
     
     // Apply Fleet filter
-    if (selectedFleets.length > 0) {
+    if (rawFilters.fleets.length > 0) {
       filtered = filtered.filter(install =>
-        install.fleet && selectedFleets.includes(install.fleet)
+        install.fleet && rawFilters.fleets.includes(install.fleet)
       )
     }
     // Apply Area filter
-    if (selectedAreas.length > 0) {
+    if (rawFilters.areas.length > 0) {
       filtered = filtered.filter(install =>
-        (install.area || install.department) && selectedAreas.includes((install.area || install.department) as string)
+        (install.area || install.department) && rawFilters.areas.includes((install.area || install.department) as string)
       )
     }
     
@@ -845,9 +841,9 @@ function InstallsPageContent() {
     }
     
     // Apply Location filter
-    if (selectedRooms.length > 0) {
+    if (rawFilters.rooms.length > 0) {
       filtered = filtered.filter(install =>
-        install.room && selectedRooms.includes(install.room)
+        install.room && rawFilters.rooms.includes(install.room)
       )
     }
 
@@ -878,7 +874,7 @@ function InstallsPageContent() {
     })
 
     return sorted
-  }, [installs, searchQuery, selectedUsages, selectedCatalogs, selectedFleets, selectedAreas, selectedPlatforms, selectedRooms, deviceStatusFilter, installStatusFilter, sortColumn, sortDirection])
+  }, [installs, searchQuery, rawFilters, selectedPlatforms, deviceStatusFilter, installStatusFilter, sortColumn, sortDirection, deviceStatus])
 
   useEffect(() => {
     fetchFilterOptions()
@@ -926,7 +922,6 @@ function InstallsPageContent() {
   // This makes the counts dynamic - showing what would match if you clicked that status
   const deviceStatusCounts = useMemo(() => {
     const counts = { active: 0, stale: 0, missing: 0 }
-    const now = new Date()
     
     // If we're in config report mode with data, count from configReportData with other filters applied
     if (isConfigReport && configReportData.length > 0) {
@@ -966,28 +961,28 @@ function InstallsPageContent() {
       }
       
       // Apply inventory filters
-      if (selectedUsages.length > 0) {
+      if (rawFilters.usages.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const usage = device.usage?.toLowerCase() || ''
-          return selectedUsages.some(u => usage.includes(u.toLowerCase()))
+          return rawFilters.usages.some(u => usage.includes(u.toLowerCase()))
         })
       }
-      if (selectedCatalogs.length > 0) {
+      if (rawFilters.catalogs.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const catalog = device.catalog?.toLowerCase() || ''
-          return selectedCatalogs.some(c => catalog.includes(c.toLowerCase()))
+          return rawFilters.catalogs.some(c => catalog.includes(c.toLowerCase()))
         })
       }
-      if (selectedFleets.length > 0) {
+      if (rawFilters.fleets.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const fleet = device.fleet?.toLowerCase() || ''
-          return selectedFleets.some(f => fleet.toLowerCase().includes(f.toLowerCase()))
+          return rawFilters.fleets.some(f => fleet.toLowerCase().includes(f.toLowerCase()))
         })
       }
-      if (selectedAreas.length > 0) {
+      if (rawFilters.areas.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const area = (device.area || device.department || '').toLowerCase()
-          return selectedAreas.some(a => area.includes(a.toLowerCase()))
+          return rawFilters.areas.some(a => area.includes(a.toLowerCase()))
         })
       }
       if (selectedPlatforms.length > 0) {
@@ -996,24 +991,18 @@ function InstallsPageContent() {
           return selectedPlatforms.some(p => platform.includes(p.toLowerCase()))
         })
       }
-      if (selectedRooms.length > 0) {
+      if (rawFilters.rooms.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const room = device.location?.toLowerCase() || ''
-          return selectedRooms.some(r => room.includes(r.toLowerCase()))
+          return rawFilters.rooms.some(r => room.includes(r.toLowerCase()))
         })
       }
       
       // Now count device statuses from the filtered data
       dataToCount.forEach(device => {
-        if (!device.lastSeen) {
-          counts.missing++
-          return
-        }
-        const lastSeenDate = new Date(device.lastSeen)
-        const hoursSinceLastSeen = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60)
-        
-        if (hoursSinceLastSeen <= 24) counts.active++
-        else if (hoursSinceLastSeen <= 168) counts.stale++
+        const status = deviceStatus(device)
+        if (status === 'active') counts.active++
+        else if (status === 'stale') counts.stale++
         else counts.missing++
       })
       return counts
@@ -1061,24 +1050,24 @@ function InstallsPageContent() {
       }
       
       // Apply inventory filters
-      if (selectedUsages.length > 0) {
+      if (rawFilters.usages.length > 0) {
         installsToCount = installsToCount.filter(install => 
-          install.usage && selectedUsages.includes(install.usage.toLowerCase())
+          install.usage && rawFilters.usages.includes(install.usage.toLowerCase())
         )
       }
-      if (selectedCatalogs.length > 0) {
+      if (rawFilters.catalogs.length > 0) {
         installsToCount = installsToCount.filter(install => 
-          install.catalog && selectedCatalogs.includes(install.catalog.toLowerCase())
+          install.catalog && rawFilters.catalogs.includes(install.catalog.toLowerCase())
         )
       }
-      if (selectedFleets.length > 0) {
+      if (rawFilters.fleets.length > 0) {
         installsToCount = installsToCount.filter(install =>
-          install.fleet && selectedFleets.includes(install.fleet)
+          install.fleet && rawFilters.fleets.includes(install.fleet)
         )
       }
-      if (selectedAreas.length > 0) {
+      if (rawFilters.areas.length > 0) {
         installsToCount = installsToCount.filter(install =>
-          (install.area || install.department) && selectedAreas.includes((install.area || install.department) as string)
+          (install.area || install.department) && rawFilters.areas.includes((install.area || install.department) as string)
         )
       }
       if (selectedPlatforms.length > 0) {
@@ -1086,31 +1075,25 @@ function InstallsPageContent() {
           install.platform && selectedPlatforms.includes(install.platform)
         )
       }
-      if (selectedRooms.length > 0) {
+      if (rawFilters.rooms.length > 0) {
         installsToCount = installsToCount.filter(install => 
-          install.room && selectedRooms.includes(install.room)
+          install.room && rawFilters.rooms.includes(install.room)
         )
       }
       
-      // Get unique devices from filtered installs
-      const deviceLastSeen = new Map<string, string>()
+      // Get unique devices (latest install row each) from filtered installs
+      const latestByDevice = new Map<string, typeof installsToCount[number]>()
       installsToCount.forEach(install => {
-        const existing = deviceLastSeen.get(install.serialNumber)
-        if (!existing || (install.lastSeen && install.lastSeen > existing)) {
-          deviceLastSeen.set(install.serialNumber, install.lastSeen || '')
+        const existing = latestByDevice.get(install.serialNumber)
+        if (!existing || (install.lastSeen && install.lastSeen > (existing.lastSeen || ''))) {
+          latestByDevice.set(install.serialNumber, install)
         }
       })
       
-      deviceLastSeen.forEach((lastSeen) => {
-        if (!lastSeen) {
-          counts.missing++
-          return
-        }
-        const lastSeenDate = new Date(lastSeen)
-        const hoursSinceLastSeen = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60)
-        
-        if (hoursSinceLastSeen <= 24) counts.active++
-        else if (hoursSinceLastSeen <= 168) counts.stale++
+      latestByDevice.forEach((install) => {
+        const status = deviceStatus(install)
+        if (status === 'active') counts.active++
+        else if (status === 'stale') counts.stale++
         else counts.missing++
       })
       return counts
@@ -1162,7 +1145,7 @@ function InstallsPageContent() {
       }
       
       relevantDevices.forEach((device: any) => {
-        const status = calculateDeviceStatus(device.lastSeen)
+        const status = deviceStatus(device)
         if (status === 'active') counts.active++
         else if (status === 'stale') counts.stale++
         else counts.missing++
@@ -1170,14 +1153,14 @@ function InstallsPageContent() {
     } else {
       // Default: count all devices
       platformFilteredDevices.forEach((device: any) => {
-        const status = calculateDeviceStatus(device.lastSeen)
+        const status = deviceStatus(device)
         if (status === 'active') counts.active++
         else if (status === 'stale') counts.stale++
         else counts.missing++
       })
     }
     return counts
-  }, [installs, platformFilteredDevices, devicesWithErrors, devicesWithWarnings, devicesWithPending, searchQuery, itemsStatusFilter, isConfigReport, configReportData, installStatusFilter, selectedManifest, selectedSoftwareRepo, selectedMunkiVersion, selectedCimianVersion, selectedUsages, selectedCatalogs, selectedFleets, selectedAreas, selectedPlatforms, selectedRooms])
+  }, [installs, platformFilteredDevices, devicesWithErrors, devicesWithWarnings, devicesWithPending, searchQuery, itemsStatusFilter, isConfigReport, configReportData, installStatusFilter, selectedManifest, selectedSoftwareRepo, selectedMunkiVersion, selectedCimianVersion, rawFilters, selectedPlatforms, deviceStatus])
 
   // Calculate install status counts (Installed/Pending/Warnings/Errors/Removed)
   // Counts should reflect data with OTHER filters applied (not installStatusFilter itself)
@@ -1189,20 +1172,10 @@ function InstallsPageContent() {
     if (isConfigReport && configReportData.length > 0) {
       // Apply all filters EXCEPT installStatusFilter to get the base data
       let dataToCount = [...configReportData]
-      const now = new Date()
       
       // Apply device status filter
       if (deviceStatusFilter !== 'all') {
-        dataToCount = dataToCount.filter(device => {
-          if (!device.lastSeen) return deviceStatusFilter === 'missing'
-          const lastSeenDate = new Date(device.lastSeen)
-          const hoursSinceLastSeen = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60)
-          
-          if (deviceStatusFilter === 'active') return hoursSinceLastSeen <= 24
-          if (deviceStatusFilter === 'stale') return hoursSinceLastSeen > 24 && hoursSinceLastSeen <= 168
-          if (deviceStatusFilter === 'missing') return hoursSinceLastSeen > 168
-          return true
-        })
+        dataToCount = dataToCount.filter(device => deviceStatus(device) === deviceStatusFilter)
       }
       
       // Apply manifest filter
@@ -1226,28 +1199,28 @@ function InstallsPageContent() {
       }
       
       // Apply inventory filters
-      if (selectedUsages.length > 0) {
+      if (rawFilters.usages.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const usage = device.usage?.toLowerCase() || ''
-          return selectedUsages.some(u => usage.includes(u.toLowerCase()))
+          return rawFilters.usages.some(u => usage.includes(u.toLowerCase()))
         })
       }
-      if (selectedCatalogs.length > 0) {
+      if (rawFilters.catalogs.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const catalog = device.catalog?.toLowerCase() || ''
-          return selectedCatalogs.some(c => catalog.includes(c.toLowerCase()))
+          return rawFilters.catalogs.some(c => catalog.includes(c.toLowerCase()))
         })
       }
-      if (selectedFleets.length > 0) {
+      if (rawFilters.fleets.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const fleet = device.fleet?.toLowerCase() || ''
-          return selectedFleets.some(f => fleet.toLowerCase().includes(f.toLowerCase()))
+          return rawFilters.fleets.some(f => fleet.toLowerCase().includes(f.toLowerCase()))
         })
       }
-      if (selectedAreas.length > 0) {
+      if (rawFilters.areas.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const area = (device.area || device.department || '').toLowerCase()
-          return selectedAreas.some(a => area.includes(a.toLowerCase()))
+          return rawFilters.areas.some(a => area.includes(a.toLowerCase()))
         })
       }
       if (selectedPlatforms.length > 0) {
@@ -1256,10 +1229,10 @@ function InstallsPageContent() {
           return selectedPlatforms.some(p => platform.includes(p.toLowerCase()))
         })
       }
-      if (selectedRooms.length > 0) {
+      if (rawFilters.rooms.length > 0) {
         dataToCount = dataToCount.filter(device => {
           const room = device.location?.toLowerCase() || ''
-          return selectedRooms.some(r => room.includes(r.toLowerCase()))
+          return rawFilters.rooms.some(r => room.includes(r.toLowerCase()))
         })
       }
       
@@ -1274,20 +1247,10 @@ function InstallsPageContent() {
     } else if (installs.length > 0) {
       // Apply all filters EXCEPT installStatusFilter
       let installsToCount = [...installs]
-      const now = new Date()
       
       // Apply device status filter
       if (deviceStatusFilter !== 'all') {
-        installsToCount = installsToCount.filter(install => {
-          if (!install.lastSeen) return deviceStatusFilter === 'missing'
-          const lastSeenDate = new Date(install.lastSeen)
-          const hoursSinceLastSeen = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60)
-          
-          if (deviceStatusFilter === 'active') return hoursSinceLastSeen <= 24
-          if (deviceStatusFilter === 'stale') return hoursSinceLastSeen > 24 && hoursSinceLastSeen <= 168
-          if (deviceStatusFilter === 'missing') return hoursSinceLastSeen > 168
-          return true
-        })
+        installsToCount = installsToCount.filter(install => deviceStatus(install) === deviceStatusFilter)
       }
       
       // Apply search query filter
@@ -1304,24 +1267,24 @@ function InstallsPageContent() {
       }
       
       // Apply inventory filters
-      if (selectedUsages.length > 0) {
+      if (rawFilters.usages.length > 0) {
         installsToCount = installsToCount.filter(install => 
-          install.usage && selectedUsages.includes(install.usage.toLowerCase())
+          install.usage && rawFilters.usages.includes(install.usage.toLowerCase())
         )
       }
-      if (selectedCatalogs.length > 0) {
+      if (rawFilters.catalogs.length > 0) {
         installsToCount = installsToCount.filter(install => 
-          install.catalog && selectedCatalogs.includes(install.catalog.toLowerCase())
+          install.catalog && rawFilters.catalogs.includes(install.catalog.toLowerCase())
         )
       }
-      if (selectedFleets.length > 0) {
+      if (rawFilters.fleets.length > 0) {
         installsToCount = installsToCount.filter(install =>
-          install.fleet && selectedFleets.includes(install.fleet)
+          install.fleet && rawFilters.fleets.includes(install.fleet)
         )
       }
-      if (selectedAreas.length > 0) {
+      if (rawFilters.areas.length > 0) {
         installsToCount = installsToCount.filter(install =>
-          (install.area || install.department) && selectedAreas.includes((install.area || install.department) as string)
+          (install.area || install.department) && rawFilters.areas.includes((install.area || install.department) as string)
         )
       }
       if (selectedPlatforms.length > 0) {
@@ -1329,9 +1292,9 @@ function InstallsPageContent() {
           install.platform && selectedPlatforms.includes(install.platform)
         )
       }
-      if (selectedRooms.length > 0) {
+      if (rawFilters.rooms.length > 0) {
         installsToCount = installsToCount.filter(install => 
-          install.room && selectedRooms.includes(install.room)
+          install.room && rawFilters.rooms.includes(install.room)
         )
       }
       
@@ -1352,7 +1315,7 @@ function InstallsPageContent() {
       })
     }
     return counts
-  }, [installs, configReportData, isConfigReport, deviceStatusFilter, searchQuery, selectedManifest, selectedSoftwareRepo, selectedMunkiVersion, selectedCimianVersion, selectedUsages, selectedCatalogs, selectedFleets, selectedAreas, selectedPlatforms, selectedRooms])
+  }, [installs, configReportData, isConfigReport, deviceStatusFilter, searchQuery, selectedManifest, selectedSoftwareRepo, selectedMunkiVersion, selectedCimianVersion, rawFilters, selectedPlatforms, deviceStatus])
 
   // Compute available filter options from the current report data (installs array)
   // Only show filter values that actually exist in the report
@@ -1423,34 +1386,34 @@ function InstallsPageContent() {
     // Filter by device status (active/stale/missing)
     if (deviceStatusFilter !== 'all') {
       filtered = filtered.filter((device: any) => {
-        const status = calculateDeviceStatus(device.lastSeen)
+        const status = deviceStatus(device)
         return status === deviceStatusFilter
       })
     }
     
     // Filter by inventory filters (usage, catalog, fleet, platform, room)
-    if (selectedUsages.length > 0) {
+    if (rawFilters.usages.length > 0) {
       filtered = filtered.filter((device: any) => {
         const usage = device.modules?.inventory?.usage?.toLowerCase() || ''
-        return selectedUsages.some(u => usage.includes(u.toLowerCase()))
+        return rawFilters.usages.some(u => usage.includes(u.toLowerCase()))
       })
     }
-    if (selectedCatalogs.length > 0) {
+    if (rawFilters.catalogs.length > 0) {
       filtered = filtered.filter((device: any) => {
         const catalog = device.modules?.inventory?.catalog?.toLowerCase() || ''
-        return selectedCatalogs.some(c => catalog.includes(c.toLowerCase()))
+        return rawFilters.catalogs.some(c => catalog.includes(c.toLowerCase()))
       })
     }
-    if (selectedFleets.length > 0) {
+    if (rawFilters.fleets.length > 0) {
       filtered = filtered.filter((device: any) => {
         const fleet = device.modules?.inventory?.fleet?.toLowerCase() || ''
-        return selectedFleets.some(f => fleet.toLowerCase().includes(f.toLowerCase()))
+        return rawFilters.fleets.some(f => fleet.toLowerCase().includes(f.toLowerCase()))
       })
     }
-    if (selectedAreas.length > 0) {
+    if (rawFilters.areas.length > 0) {
       filtered = filtered.filter((device: any) => {
         const area = (device.modules?.inventory?.area || device.modules?.inventory?.department || '').toLowerCase()
-        return selectedAreas.some(a => area.includes(a.toLowerCase()))
+        return rawFilters.areas.some(a => area.includes(a.toLowerCase()))
       })
     }
     if (selectedPlatforms.length > 0) {
@@ -1459,10 +1422,10 @@ function InstallsPageContent() {
         return selectedPlatforms.some(p => platform.includes(p.toLowerCase()))
       })
     }
-    if (selectedRooms.length > 0) {
+    if (rawFilters.rooms.length > 0) {
       filtered = filtered.filter((device: any) => {
         const room = device.modules?.inventory?.location?.toLowerCase() || ''
-        return selectedRooms.some(r => room.includes(r.toLowerCase()))
+        return rawFilters.rooms.some(r => room.includes(r.toLowerCase()))
       })
     }
     
@@ -1536,7 +1499,7 @@ function InstallsPageContent() {
     }
     
     return filtered
-  }, [itemsStatusFilter, deviceStatusFilter, platformFilteredDevices, devicesWithErrors, devicesWithWarnings, devicesWithPending, searchQuery, selectedInstalls, selectedUsages, selectedCatalogs, selectedFleets, selectedAreas, selectedPlatforms, selectedRooms])
+  }, [itemsStatusFilter, deviceStatusFilter, platformFilteredDevices, devicesWithErrors, devicesWithWarnings, devicesWithPending, searchQuery, selectedInstalls, rawFilters, selectedPlatforms, deviceStatus])
 
   // Aggregate items with errors across all devices
   const itemsWithErrors = useMemo(() => {
@@ -2275,9 +2238,19 @@ function InstallsPageContent() {
                       </svg>
                       Items with Errors
                     </h3>
-                    <span className="text-sm font-semibold text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30 px-2 py-0.5 rounded-full">
-                      {itemsWithErrors.reduce((sum, item) => sum + item.count, 0)} total
-                    </span>
+                    <div className="flex items-center gap-3">
+                      <Link
+                        href="/installs/triage"
+                        onClick={(e) => e.stopPropagation()}
+                        className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                        title="Per-package triage: affected devices, error history, status and notes"
+                      >
+                        Triage
+                      </Link>
+                      <span className="text-sm font-semibold text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30 px-2 py-0.5 rounded-full">
+                        {itemsWithErrors.reduce((sum, item) => sum + item.count, 0)} total
+                      </span>
+                    </div>
                   </div>
                   <div className="max-h-48 overflow-y-auto">
                     {filtersLoading ? (
@@ -2497,9 +2470,19 @@ function InstallsPageContent() {
                       </svg>
                       Items with Pending
                     </h3>
-                    <span className="text-sm font-semibold text-cyan-600 dark:text-cyan-400 bg-cyan-100 dark:bg-cyan-900/30 px-2 py-0.5 rounded-full">
-                      {itemsWithPending.reduce((sum, item) => sum + item.count, 0)} total
-                    </span>
+                    <div className="flex items-center gap-3">
+                      <Link
+                        href="/installs/rollouts"
+                        onClick={(e) => e.stopPropagation()}
+                        className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                        title="Per-package rollout of the newest version: progress over time and devices stuck on older versions"
+                      >
+                        Rollouts
+                      </Link>
+                      <span className="text-sm font-semibold text-cyan-600 dark:text-cyan-400 bg-cyan-100 dark:bg-cyan-900/30 px-2 py-0.5 rounded-full">
+                        {itemsWithPending.reduce((sum, item) => sum + item.count, 0)} total
+                      </span>
+                    </div>
                   </div>
                   <div className="max-h-48 overflow-y-auto">
                     {filtersLoading ? (
@@ -2733,9 +2716,18 @@ function InstallsPageContent() {
               {/* Second Column: Munki Version Distribution - Only show if there are Munki installations */}
               {hasMunkiInstalls && (
               <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-6 border border-gray-200 dark:border-gray-600">
-                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
-                  Munki Versions
-                </h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                    Munki Versions
+                  </h3>
+                  <Link
+                    href="/installs/clients"
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    title="Builds behind the newest, minimum version policy and devices below it"
+                  >
+                    Client health
+                  </Link>
+                </div>
                 <div className="h-40 overflow-y-auto space-y-2">
                   {(() => {
                                         
@@ -2787,7 +2779,7 @@ function InstallsPageContent() {
                     ).sort(([versionA], [versionB]) => {
                       if (versionA === 'Unknown') return 1
                       if (versionB === 'Unknown') return -1
-                      return versionB.localeCompare(versionA, undefined, { numeric: true, sensitivity: 'base' })
+                      return compareClientVersions('munki', versionB, versionA)
                     })
                     
                     return versionGroups.map(([version, data]) => {
@@ -2849,9 +2841,18 @@ function InstallsPageContent() {
               {/* Third Column: Cimian Version Distribution - Only show if there are Cimian installations */}
               {hasCimianInstalls && (
               <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-6 border border-gray-200 dark:border-gray-600">
-                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
-                  Cimian Versions
-                </h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                    Cimian Versions
+                  </h3>
+                  <Link
+                    href="/installs/clients"
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    title="Builds behind the newest, minimum version policy and devices below it"
+                  >
+                    Client health
+                  </Link>
+                </div>
                 <div className="h-40 overflow-y-auto space-y-2">
                   {(() => {
                                         
@@ -2905,7 +2906,7 @@ function InstallsPageContent() {
                     ).sort(([versionA], [versionB]) => {
                       if (versionA === 'Unknown') return 1
                       if (versionB === 'Unknown') return -1
-                      return versionB.localeCompare(versionA, undefined, { numeric: true, sensitivity: 'base' })
+                      return compareClientVersions('cimian', versionB, versionA)
                     })
                     
                                         
@@ -3208,11 +3209,11 @@ function InstallsPageContent() {
             const activeFilters = installs.length > 0 ? reportFilterOptions : filterOptions
             const sharedFilterOptions: SharedFilterOptions = {
               statuses: [],
-              usages: activeFilters.usages || [],
-              catalogs: activeFilters.catalogs || [],
-              areas: (activeFilters as any).areas || [],
-              locations: (activeFilters as any).rooms || [],
-              fleets: activeFilters.fleets || [],
+              usages: normalize.options('usage', activeFilters.usages || []),
+              catalogs: normalize.options('catalog', activeFilters.catalogs || []),
+              areas: normalize.options('area', (activeFilters as any).areas || []),
+              locations: normalize.options('location', (activeFilters as any).rooms || []),
+              fleets: normalize.options('fleet', activeFilters.fleets || []),
             }
             return (
               <DeviceFilters
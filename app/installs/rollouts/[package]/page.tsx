@@ -0,0 +1,283 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import { Suspense, useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useParams, usePathname, useRouter, useSearchParams } from "next/navigation"
+import {
+  parseRolloutFilters,
+  Rollout,
+  ROLLOUT_HISTORY_DAYS,
+  ROLLOUT_STUCK_HOURS,
+  rolloutFiltersQuery,
+  RolloutFilters,
+  RolloutTimelinePoint,
+} from "@/src/lib/installs/rollout"
+import { ROLLOUT_STATE_COLORS, ROLLOUT_STATE_LABELS, RolloutLegend, RolloutProgressBar } from "@/src/components/installs/RolloutProgress"
+import { RolloutFilterBar } from "@/src/components/installs/RolloutFilterBar"
+import { formatExactTime, formatRelativeTime } from "@/src/lib/time"
+
+interface RolloutResponse {
+  rollout: Rollout
+  timeline: RolloutTimelinePoint[]
+  updateTimes: { known: number; of: number }
+  catalogs: string[]
+  manifests: string[]
+}
+
+const percent = (n: number, total: number) => (total ? Math.round((n / total) * 100) : 0)
+
+function PackageRolloutPageContent() {
+  const params = useParams<{ package: string }>()
+  const packageName = decodeURIComponent(params.package)
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const query = searchParams.toString()
+  const filters = useMemo(() => parseRolloutFilters(new URLSearchParams(query)), [query])
+  const fromParam = searchParams.get('from')
+  const showUpdated = searchParams.get('show') === 'all'
+
+  const [data, setData] = useState<RolloutResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const filterQuery = rolloutFiltersQuery(filters)
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    fetch(`/api/installs/rollouts/${encodeURIComponent(packageName)}${filterQuery ? `?${filterQuery}` : ''}`)
+      .then(r => r.ok ? r.json() : r.json().then(d => Promise.reject(new Error(d.error || `HTTP ${r.status}`))))
+      .then(d => { if (!cancelled) setData(d) })
+      .catch(e => { if (!cancelled) { setError(e.message); setData(null) } })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [packageName, filterQuery])
+
+  const setUrl = (next: { filters?: RolloutFilters; showUpdated?: boolean }) => {
+    const params = new URLSearchParams(rolloutFiltersQuery(next.filters ?? filters))
+    if (next.showUpdated ?? showUpdated) params.set('show', 'all')
+    for (const keep of ['platform', 'from']) {
+      const value = searchParams.get(keep)
+      if (value) params.set(keep, value)
+    }
+    const qs = params.toString()
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false })
+  }
+
+  const rollout = data?.rollout
+  const versions = useMemo(() => {
+    if (!rollout) return []
+    const older = rollout.oldVersions.map(v => v.version).filter(v => v !== 'not installed')
+    return [...new Set([rollout.version, ...(filters.version ? [filters.version] : []), ...older])]
+  }, [rollout, filters.version])
+  const devices = useMemo(() => {
+    const order = { error: 0, pending: 1, updated: 2 }
+    return (rollout?.devices ?? [])
+      .filter(d => showUpdated || d.state !== 'updated')
+      .sort((a, b) => Number(b.stuck) - Number(a.stuck) || order[a.state] - order[b.state] || a.deviceName.localeCompare(b.deviceName))
+  }, [rollout, showUpdated])
+  const stuck = rollout?.devices.filter(d => d.stuck).length ?? 0
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black">
+      <div className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-6">
+
+        <div className="mb-4">
+          <Link href={fromParam || '/installs/rollouts'} className="text-sm text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1">
+            ← Package Rollouts
+          </Link>
+        </div>
+
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4">
+          <div className="flex items-start justify-between flex-wrap gap-4">
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white">{rollout?.name ?? packageName}</h1>
+              {rollout && (
+                <div className="mt-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  Rolling out
+                  <select
+                    value={filters.version ?? rollout.version}
+                    onChange={e => setUrl({ filters: { ...filters, version: e.target.value } })}
+                    className="px-2 py-1 font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    {versions.map(v => <option key={v} value={v}>{v}</option>)}
+                  </select>
+                  {rollout.startedAt && (
+                    <span title={formatExactTime(rollout.startedAt)} suppressHydrationWarning>
+                      since {formatRelativeTime(rollout.startedAt)}
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+            {rollout && (
+              <dl className="grid grid-cols-4 gap-6 text-sm">
+                <div>
+                  <dt className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">On new version</dt>
+                  <dd className="text-2xl font-semibold text-emerald-700 dark:text-emerald-400">{percent(rollout.counts.updated, rollout.counts.total)}%</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">Pending</dt>
+                  <dd className="text-2xl font-semibold text-amber-700 dark:text-amber-400">{rollout.counts.pending}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">Erroring</dt>
+                  <dd className="text-2xl font-semibold text-red-700 dark:text-red-400">{rollout.counts.error}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">Stuck</dt>
+                  <dd className="text-2xl font-semibold text-gray-900 dark:text-white">{stuck}</dd>
+                </div>
+              </dl>
+            )}
+          </div>
+          {rollout && <RolloutProgressBar counts={rollout.counts} className="mt-4" />}
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 px-6 py-4 mb-4">
+          <RolloutFilterBar
+            filters={filters}
+            onChange={f => setUrl({ filters: f })}
+            catalogs={data?.catalogs ?? []}
+            manifests={data?.manifests ?? []}
+          />
+        </div>
+
+        {error && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4 text-center text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+        {loading && !data && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4 text-center text-sm text-gray-500 dark:text-gray-400">
+            Loading…
+          </div>
+        )}
+
+        {data && rollout && (
+          <>
+            {/* Timeline */}
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-4">Rollout over time</h2>
+              <div className="flex items-end gap-1 h-32">
+                {data.timeline.map(point => {
+                  const known = point.pending !== undefined
+                  return (
+                    <div
+                      key={point.date}
+                      className="flex-1 flex flex-col-reverse h-full bg-gray-100 dark:bg-gray-700/50"
+                      title={`${point.date}: ${percent(point.updated, point.total)}% on ${rollout.version}${known ? `, ${point.pending} pending, ${point.error} erroring` : ''}`}
+                    >
+                      <div className={ROLLOUT_STATE_COLORS.updated} style={{ height: `${percent(point.updated, point.total)}%` }} />
+                      {known && <div className={ROLLOUT_STATE_COLORS.pending} style={{ height: `${percent(point.pending!, point.total)}%` }} />}
+                      {known && <div className={ROLLOUT_STATE_COLORS.error} style={{ height: `${percent(point.error!, point.total)}%` }} />}
+                    </div>
+                  )
+                })}
+              </div>
+              <div className="flex justify-between text-[11px] text-gray-500 dark:text-gray-400 mt-1">
+                <span>{data.timeline[0]?.date}</span>
+                <span>{data.timeline[data.timeline.length - 1]?.date}</span>
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-3 mt-3">
+                <RolloutLegend />
+                <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                  Last {ROLLOUT_HISTORY_DAYS} days at most. Pending and erroring counts show from the days the whole fleet was sampled.
+                  {data.updateTimes.known < data.updateTimes.of &&
+                    ` Update times from ${data.updateTimes.known} of ${data.updateTimes.of} updated devices.`}
+                </p>
+              </div>
+            </div>
+
+            {/* Devices */}
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+              <div className="px-6 py-4 flex flex-wrap items-center justify-between gap-3 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+                  {showUpdated ? 'Devices' : `Devices not on ${rollout.version}`}
+                  <span className="ml-2 text-gray-500 dark:text-gray-400 font-normal">{devices.length}</span>
+                </h2>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={showUpdated}
+                    onChange={e => setUrl({ showUpdated: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Include updated devices
+                </label>
+              </div>
+              {devices.length === 0 ? (
+                <p className="p-8 text-center text-sm text-gray-500 dark:text-gray-400">Every targeted device is on {rollout.version}.</p>
+              ) : (
+                <div className="overflow-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-700 dark:text-gray-300">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Device</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Installed</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">State</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Catalog</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Manifest</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Last seen</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {devices.map(d => (
+                        <tr key={d.serialNumber} className="hover:bg-gray-50 dark:hover:bg-gray-900/40">
+                          <td className="px-4 py-3">
+                            <Link href={`/device/${d.serialNumber}#installs`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                              {d.deviceName}
+                            </Link>
+                            <div className="text-[11px] text-gray-500 dark:text-gray-500 font-mono">{d.serialNumber}</div>
+                          </td>
+                          <td className="px-4 py-3 font-mono text-xs text-gray-700 dark:text-gray-300">{d.installedVersion || '—'}</td>
+                          <td className="px-4 py-3">
+                            <span className="inline-flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
+                              <span className={`w-2 h-2 rounded-full ${ROLLOUT_STATE_COLORS[d.state]}`} />
+                              {ROLLOUT_STATE_LABELS[d.state]}
+                            </span>
+                            {d.stuck && (
+                              <span
+                                className="ml-2 inline-block px-2 py-0.5 rounded text-[10px] font-semibold uppercase bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200"
+                                title={`Not on ${rollout.version} ${ROLLOUT_STUCK_HOURS} hours after the rollout started`}
+                              >
+                                Stuck
+                              </span>
+                            )}
+                            {d.reachedAt && (
+                              <div className="text-[11px] text-gray-500 dark:text-gray-400" suppressHydrationWarning>
+                                updated {formatRelativeTime(d.reachedAt)}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{d.catalog || '—'}</td>
+                          <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400 break-all">{d.manifest || '—'}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-gray-700 dark:text-gray-300" title={d.lastSeen ? formatExactTime(d.lastSeen) : undefined} suppressHydrationWarning>
+                            {d.lastSeen ? formatRelativeTime(d.lastSeen) : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function PackageRolloutPage() {
+  return (
+    <Suspense fallback={<div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black" />}>
+      <PackageRolloutPageContent />
+    </Suspense>
+  )
+}
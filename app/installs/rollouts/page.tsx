@@ -0,0 +1,169 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import { Suspense, useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { parseRolloutFilters, rolloutFiltersQuery, RolloutFilters, RolloutSummary } from "@/src/lib/installs/rollout"
+import { RolloutLegend, RolloutProgressBar } from "@/src/components/installs/RolloutProgress"
+import { RolloutFilterBar } from "@/src/components/installs/RolloutFilterBar"
+
+function RolloutsPageContent() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const query = searchParams.toString()
+  const filters = useMemo(() => parseRolloutFilters(new URLSearchParams(query)), [query])
+  const search = searchParams.get('q') ?? ''
+  const showAll = searchParams.get('show') === 'all'
+
+  const [data, setData] = useState<{ rollouts: RolloutSummary[]; catalogs: string[]; manifests: string[] } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const filterQuery = rolloutFiltersQuery(filters)
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+    fetch(`/api/installs/rollouts${filterQuery ? `?${filterQuery}` : ''}`)
+      .then(r => r.ok ? r.json() : r.json().then(d => Promise.reject(new Error(d.error || `HTTP ${r.status}`))))
+      .then(d => { if (!cancelled) setData(d) })
+      .catch(e => !cancelled && setError(e.message))
+    return () => { cancelled = true }
+  }, [filterQuery])
+
+  const setUrl = (next: { filters?: RolloutFilters; q?: string; showAll?: boolean }) => {
+    const params = new URLSearchParams(rolloutFiltersQuery(next.filters ?? filters))
+    const q = (next.q ?? search).trim()
+    if (q) params.set('q', q)
+    if (next.showAll ?? showAll) params.set('show', 'all')
+    const platform = searchParams.get('platform')
+    if (platform) params.set('platform', platform)
+    const qs = params.toString()
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false })
+  }
+
+  const rows = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return (data?.rollouts ?? []).filter(r =>
+      (showAll || r.counts.updated < r.counts.total) && (!q || r.name.toLowerCase().includes(q))
+    )
+  }, [data, search, showAll])
+
+  const fromUrl = `${pathname}${query ? `?${query}` : ''}`
+  const detailQuery = rolloutFiltersQuery({ ...filters, version: undefined })
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black">
+      <div className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-6">
+
+        <div className="mb-4">
+          <Link href="/installs" className="text-sm text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1">
+            ← Installs
+          </Link>
+        </div>
+
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4">
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Package Rollouts</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            How far the newest version of each managed install has got across the devices that get it. Narrow the
+            target to catalogs or manifests to follow a staged rollout.
+          </p>
+          <div className="mt-4"><RolloutLegend /></div>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 px-6 py-4 mb-4 space-y-3">
+          <RolloutFilterBar
+            filters={filters}
+            onChange={f => setUrl({ filters: f })}
+            catalogs={data?.catalogs ?? []}
+            manifests={data?.manifests ?? []}
+          />
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <input
+              type="search"
+              value={search}
+              onChange={e => setUrl({ q: e.target.value })}
+              placeholder="Filter packages..."
+              className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={showAll}
+                onChange={e => setUrl({ showAll: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Include completed rollouts
+            </label>
+            <div className="text-gray-500 dark:text-gray-400 ml-auto">
+              {data ? `${rows.length} of ${data.rollouts.length} packages` : ''}
+            </div>
+          </div>
+        </div>
+
+        {/* Table */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          {error && <div className="p-6 text-center text-red-600 dark:text-red-400 text-sm">{error}</div>}
+          {!data && !error && <div className="p-6 text-center text-gray-500 dark:text-gray-400 text-sm">Loading…</div>}
+          {data && rows.length === 0 && (
+            <div className="p-8 text-center text-gray-500 dark:text-gray-400 text-sm">
+              {data.rollouts.length === 0 ? 'No managed installs match these devices.' : 'Every matching package is fully rolled out.'}
+            </div>
+          )}
+          {data && rows.length > 0 && (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Package</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Version</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider w-1/3">Progress</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider">Pending</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider">Erroring</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Still on</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.map(r => (
+                    <tr key={r.key} className="hover:bg-gray-50 dark:hover:bg-gray-900/40">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/installs/rollouts/${encodeURIComponent(r.name)}?${detailQuery ? `${detailQuery}&` : ''}from=${encodeURIComponent(fromUrl)}`}
+                          className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {r.name}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs text-gray-700 dark:text-gray-300">{r.version}</td>
+                      <td className="px-4 py-3">
+                        <RolloutProgressBar counts={r.counts} />
+                        <div className="text-[11px] text-gray-500 dark:text-gray-400 mt-0.5">{r.counts.updated} of {r.counts.total} devices</div>
+                      </td>
+                      <td className="px-4 py-3 text-right text-amber-700 dark:text-amber-400">{r.counts.pending || '—'}</td>
+                      <td className="px-4 py-3 text-right text-red-600 dark:text-red-400">{r.counts.error || '—'}</td>
+                      <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400">
+                        {r.oldVersions.slice(0, 3).map(v => `${v.version} (${v.devices})`).join(', ')}
+                        {r.oldVersions.length > 3 && `, +${r.oldVersions.length - 3} more`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function RolloutsPage() {
+  return (
+    <Suspense fallback={<div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black" />}>
+      <RolloutsPageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,331 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import { Fragment, useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { useInstallsFilterOptions } from "@/src/hooks/useInstallsData"
+import { ErrorCategory } from "@/src/lib/data-processing/modules/installs"
+import { useSettingsOptional } from "@/src/providers/SettingsProvider"
+import {
+  collectInstallFailures,
+  ERROR_CATEGORY_LABELS,
+  failingAfterFix,
+  firstSeenOf,
+  PackageTriage,
+  TRIAGE_STATUS_LABELS,
+  TRIAGE_STATUSES,
+  triageKey,
+  TriageStatus,
+} from "@/src/lib/installs/triage"
+import { CategoryChips, RegressionBadge, TriageStatusBadge } from "@/src/components/installs/TriageBadges"
+import { InstallErrorHint } from "@/src/components/installs/InstallErrorHint"
+import { formatExactTime, formatRelativeTime } from "@/src/lib/time"
+
+const CATEGORY_COLORS: Record<ErrorCategory, string> = {
+  [ErrorCategory.ARCHITECTURE]: 'bg-purple-500',
+  [ErrorCategory.MSI_INSTALLER]: 'bg-red-500',
+  [ErrorCategory.EXE_INSTALLER]: 'bg-orange-500',
+  [ErrorCategory.CHOCOLATEY]: 'bg-amber-500',
+  [ErrorCategory.POWERSHELL]: 'bg-blue-500',
+  [ErrorCategory.TIMEOUT]: 'bg-yellow-400',
+  [ErrorCategory.DEPENDENCY]: 'bg-teal-500',
+  [ErrorCategory.SYSTEM]: 'bg-gray-400',
+}
+
+export default function PackageTriagePage() {
+  const params = useParams<{ package: string }>()
+  const packageName = decodeURIComponent(params.package)
+  const key = triageKey(packageName)
+
+  const { devices, filterOptions, isLoading, error: devicesError } = useInstallsFilterOptions()
+  const [triage, setTriage] = useState<PackageTriage | undefined>()
+  const [triageError, setTriageError] = useState<string | null>(null)
+
+  const [status, setStatus] = useState<TriageStatus>('new')
+  const [catalog, setCatalog] = useState('')
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const [openLog, setOpenLog] = useState<string | null>(null)
+  const [logs, setLogs] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/installs/triage')
+      .then(r => r.ok ? r.json() : Promise.reject(new Error(`HTTP ${r.status}`)))
+      .then(d => {
+        if (cancelled) return
+        const t: PackageTriage | undefined = d?.packages?.[key]
+        setTriage(t)
+        setStatus(t?.status ?? 'new')
+        setCatalog(t?.fixedInCatalog ?? '')
+      })
+      .catch(e => !cancelled && setTriageError(e.message))
+    return () => { cancelled = true }
+  }, [key])
+
+  const orgCodes = useSettingsOptional()?.settings.installErrors?.codes
+  const failures = useMemo(() => collectInstallFailures(devices, new Date(), orgCodes).find(f => f.key === key), [devices, key, orgCodes])
+  const firstSeen = failures ? firstSeenOf(failures, triage) : triage?.firstSeen
+  const maxDay = Math.max(1, ...(failures?.timeline ?? []).map(d => Object.values(d.counts).reduce((a, b) => a + (b ?? 0), 0)))
+
+  const save = async (body: { status?: TriageStatus; fixedInCatalog?: string; note?: string }) => {
+    setSaving(true)
+    setTriageError(null)
+    try {
+      const res = await fetch(`/api/installs/triage/${encodeURIComponent(triage?.package ?? failures?.name ?? packageName)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, ...(failures?.firstSeen ? { firstSeen: failures.firstSeen } : {}) }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.errors?.map((e: { path: string; message: string }) => `${e.path} ${e.message}`.trim()).join('; ') || data.error || `HTTP ${res.status}`)
+      setTriage(data.triage)
+      return true
+    } catch (e) {
+      setTriageError(e instanceof Error ? e.message : 'Failed to save')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleLog = async (serialNumber: string) => {
+    if (openLog === serialNumber) { setOpenLog(null); return }
+    setOpenLog(serialNumber)
+    if (logs[serialNumber] !== undefined) return
+    try {
+      const res = await fetch(`/api/device/${encodeURIComponent(serialNumber)}/installs/log`)
+      const data = res.ok ? await res.json() : null
+      setLogs(l => ({ ...l, [serialNumber]: data ? data.runLog || 'No log data available' : 'Failed to load log data' }))
+    } catch {
+      setLogs(l => ({ ...l, [serialNumber]: 'Error loading log data' }))
+    }
+  }
+
+  const statusChanged = status !== (triage?.status ?? 'new') || (status === 'fixed' && catalog.trim() !== (triage?.fixedInCatalog ?? ''))
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black">
+      <div className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-6">
+
+        <div className="mb-4">
+          <Link href="/installs/triage" className="text-sm text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1">
+            ← Install Failure Triage
+          </Link>
+        </div>
+
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4">
+          <div className="flex items-start justify-between flex-wrap gap-3">
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white">{failures?.name ?? packageName}</h1>
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <TriageStatusBadge status={triage?.status ?? 'new'} fixedInCatalog={triage?.fixedInCatalog} />
+                {failures?.regression && <RegressionBadge newlyFailing={failures.newlyFailing} />}
+                {failures && failingAfterFix(failures, triage) && (
+                  <span className="inline-block px-2 py-0.5 rounded text-[10px] font-semibold uppercase bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200">
+                    Failing after fix
+                  </span>
+                )}
+              </div>
+            </div>
+            <dl className="grid grid-cols-3 gap-6 text-sm">
+              <div>
+                <dt className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">Devices failing</dt>
+                <dd className="text-2xl font-semibold text-red-700 dark:text-red-400">{failures?.devices.length ?? 0}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">First seen</dt>
+                <dd className="mt-1 text-gray-900 dark:text-white" title={firstSeen ? formatExactTime(firstSeen) : undefined} suppressHydrationWarning>
+                  {firstSeen ? formatRelativeTime(firstSeen) : '—'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">Last seen</dt>
+                <dd className="mt-1 text-gray-900 dark:text-white" title={failures?.lastSeen ? formatExactTime(failures.lastSeen) : undefined} suppressHydrationWarning>
+                  {failures?.lastSeen ? formatRelativeTime(failures.lastSeen) : '—'}
+                </dd>
+              </div>
+            </dl>
+          </div>
+          {failures && <div className="mt-4"><CategoryChips categories={failures.categories} /></div>}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+          {/* Timeline */}
+          <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-4">Failed attempts by error category</h2>
+            {failures ? (
+              <>
+                <div className="flex items-end gap-1 h-32">
+                  {failures.timeline.map(day => {
+                    const total = Object.values(day.counts).reduce((a, b) => a + (b ?? 0), 0)
+                    return (
+                      <div key={day.date} className="flex-1 flex flex-col-reverse h-full" title={`${day.date}: ${total} failed attempts`}>
+                        {(Object.entries(day.counts) as [ErrorCategory, number][]).map(([category, n]) => (
+                          <div key={category} className={CATEGORY_COLORS[category]} style={{ height: `${(n / maxDay) * 100}%` }} />
+                        ))}
+                      </div>
+                    )
+                  })}
+                </div>
+                <div className="flex justify-between text-[11px] text-gray-500 dark:text-gray-400 mt-1">
+                  <span>{failures.timeline[0].date}</span>
+                  <span>{failures.timeline[failures.timeline.length - 1].date}</span>
+                </div>
+                <div className="flex flex-wrap gap-3 mt-3 text-[11px] text-gray-600 dark:text-gray-400">
+                  {(Object.keys(failures.categories) as ErrorCategory[]).map(category => (
+                    <span key={category} className="inline-flex items-center gap-1">
+                      <span className={`w-2.5 h-2.5 rounded-sm ${CATEGORY_COLORS[category]}`} />
+                      {ERROR_CATEGORY_LABELS[category]}
+                    </span>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{isLoading ? 'Loading…' : 'No devices are failing this package right now.'}</p>
+            )}
+          </div>
+
+          {/* Triage */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Triage</h2>
+            {triageError && <p className="text-sm text-red-600 dark:text-red-400">{triageError}</p>}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={status}
+                onChange={e => setStatus(e.target.value as TriageStatus)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {TRIAGE_STATUSES.map(s => <option key={s} value={s}>{TRIAGE_STATUS_LABELS[s]}</option>)}
+              </select>
+              {status === 'fixed' && (
+                <>
+                  <span className="text-gray-600 dark:text-gray-400">in catalog</span>
+                  <input
+                    list="triage-catalogs"
+                    value={catalog}
+                    onChange={e => setCatalog(e.target.value)}
+                    placeholder="Production"
+                    className="w-32 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <datalist id="triage-catalogs">
+                    {(filterOptions?.catalogs ?? []).map(c => <option key={c} value={c} />)}
+                  </datalist>
+                </>
+              )}
+              <button
+                onClick={() => save({ status, ...(status === 'fixed' ? { fixedInCatalog: catalog.trim() } : {}) })}
+                disabled={saving || !statusChanged || (status === 'fixed' && !catalog.trim())}
+                className="px-3 py-1 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            <div>
+              <textarea
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                rows={3}
+                placeholder="Add a note: what was tried, ticket links..."
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <button
+                onClick={async () => { if (await save({ note })) setNote('') }}
+                disabled={saving || !note.trim()}
+                className="mt-2 px-3 py-1 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                Add note
+              </button>
+            </div>
+            {triage?.notes.length ? (
+              <ul className="space-y-3 max-h-64 overflow-y-auto">
+                {[...triage.notes].reverse().map(n => (
+                  <li key={`${n.at}-${n.by}`} className="text-sm">
+                    <div className="text-xs text-gray-500 dark:text-gray-400" title={formatExactTime(n.at)}>
+                      {n.by || 'Someone'} · {formatRelativeTime(n.at)}
+                    </div>
+                    <p className="text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{n.text}</p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-400 dark:text-gray-500 italic">No notes yet.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Devices */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          {devicesError && (
+            <div className="p-6 text-center text-red-600 dark:text-red-400 text-sm">{(devicesError as Error).message}</div>
+          )}
+          {failures && failures.devices.length > 0 && (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Device</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Version</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Error</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Failing since</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Last success</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider">Log</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {failures.devices.map(d => {
+                    return (
+                      <Fragment key={d.serialNumber}>
+                        <tr className="hover:bg-gray-50 dark:hover:bg-gray-900/40 align-top">
+                          <td className="px-4 py-3">
+                            <Link href={`/device/${d.serialNumber}#installs`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                              {d.deviceName}
+                            </Link>
+                            <div className="text-[11px] text-gray-500 dark:text-gray-500 font-mono">{d.serialNumber}</div>
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-gray-700 dark:text-gray-300">{d.version || '—'}</td>
+                          <td className="px-4 py-3 text-gray-700 dark:text-gray-300 max-w-md">
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {ERROR_CATEGORY_LABELS[d.category]}
+                              {d.code && <> · code {d.code}</>}
+                            </div>
+                            <div className="break-words">{d.message}</div>
+                            <InstallErrorHint code={d.code} message={d.message} className="mt-1" />
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-gray-700 dark:text-gray-300" suppressHydrationWarning>
+                            {d.failingSince ? formatRelativeTime(d.failingSince) : '—'}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-gray-700 dark:text-gray-300" suppressHydrationWarning>
+                            {d.lastSuccess ? formatRelativeTime(d.lastSuccess) : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            <button onClick={() => toggleLog(d.serialNumber)} className="text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap">
+                              {openLog === d.serialNumber ? 'Hide log' : 'View log'}
+                            </button>
+                          </td>
+                        </tr>
+                        {openLog === d.serialNumber && (
+                          <tr>
+                            <td colSpan={6} className="px-4 pb-4">
+                              <pre className="max-h-96 overflow-auto text-xs font-mono bg-gray-900 text-gray-100 rounded-md p-3 whitespace-pre-wrap">
+                                {logs[d.serialNumber] ?? 'Loading log…'}
+                              </pre>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
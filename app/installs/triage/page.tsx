@@ -0,0 +1,213 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useInstallsFilterOptions } from "@/src/hooks/useInstallsData"
+import { useSettingsOptional } from "@/src/providers/SettingsProvider"
+import {
+  collectInstallFailures,
+  failingAfterFix,
+  firstSeenOf,
+  REGRESSION_MIN_DEVICES,
+  REGRESSION_WINDOW_HOURS,
+  TRIAGE_STATUS_LABELS,
+  TRIAGE_STATUSES,
+  TriageDocument,
+  TriageStatus,
+} from "@/src/lib/installs/triage"
+import { CategoryChips, RegressionBadge, TriageStatusBadge } from "@/src/components/installs/TriageBadges"
+import { formatExactTime, formatRelativeTime } from "@/src/lib/time"
+
+type StatusFilter = 'open' | 'all' | 'regressions' | 'refailing' | TriageStatus
+
+export default function InstallTriagePage() {
+  const { devices, isLoading, error: devicesError } = useInstallsFilterOptions()
+  const [triage, setTriage] = useState<TriageDocument>({ packages: {} })
+  const [triageError, setTriageError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open')
+  const [search, setSearch] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/installs/triage')
+      .then(r => r.ok ? r.json() : Promise.reject(new Error(`HTTP ${r.status}`)))
+      .then(d => { if (!cancelled) setTriage({ packages: d?.packages ?? {} }) })
+      .catch(e => !cancelled && setTriageError(e.message))
+    return () => { cancelled = true }
+  }, [])
+
+  const orgCodes = useSettingsOptional()?.settings.installErrors?.codes
+  const failures = useMemo(() => collectInstallFailures(devices, new Date(), orgCodes), [devices, orgCodes])
+
+  const rows = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return failures
+      .map(f => ({ failures: f, triage: triage.packages[f.key] }))
+      .filter(({ failures: f, triage: t }) => {
+        const status = t?.status ?? 'new'
+        if (q && !f.name.toLowerCase().includes(q)) return false
+        switch (statusFilter) {
+          case 'all': return true
+          case 'open': return status !== 'fixed' || failingAfterFix(f, t)
+          case 'regressions': return f.regression
+          case 'refailing': return failingAfterFix(f, t)
+          default: return status === statusFilter
+        }
+      })
+  }, [failures, triage, statusFilter, search])
+
+  const summary = useMemo(() => ({
+    packages: failures.length,
+    devices: new Set(failures.flatMap(f => f.devices.map(d => d.serialNumber))).size,
+    regressions: failures.filter(f => f.regression).length,
+    untriaged: failures.filter(f => !triage.packages[f.key]).length,
+  }), [failures, triage])
+
+  const error = devicesError ? (devicesError as Error).message : triageError
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 dark:bg-black">
+      <div className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-6">
+
+        <div className="mb-4">
+          <Link href="/installs" className="text-sm text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1">
+            ← Installs
+          </Link>
+        </div>
+
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-4">
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Install Failure Triage</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Packages failing to install, by package. A <b>regression</b> is a package that at least {REGRESSION_MIN_DEVICES} devices
+            installed fine within the last {REGRESSION_WINDOW_HOURS} hours and now fail.
+          </p>
+          <div className="mt-5 grid grid-cols-2 md:grid-cols-4 gap-3">
+            <SummaryStat label="Failing packages" value={summary.packages} tone="neutral" />
+            <SummaryStat label="Devices affected" value={summary.devices} tone="neutral" />
+            <SummaryStat label="Regressions" value={summary.regressions} tone="critical" />
+            <SummaryStat label="Not yet triaged" value={summary.untriaged} tone="warn" />
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 px-6 py-4 mb-4 flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <label className="text-gray-600 dark:text-gray-400">Show:</label>
+            <select
+              value={statusFilter}
+              onChange={e => setStatusFilter(e.target.value as StatusFilter)}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="open">Open (not fixed, or failing again)</option>
+              <option value="all">All failing packages</option>
+              <option value="regressions">Regressions</option>
+              <option value="refailing">Failing after fix</option>
+              {TRIAGE_STATUSES.map(s => <option key={s} value={s}>{TRIAGE_STATUS_LABELS[s]}</option>)}
+            </select>
+          </div>
+          <input
+            type="search"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Filter packages..."
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <div className="text-sm text-gray-500 dark:text-gray-400 ml-auto">
+            {!isLoading ? `${rows.length} of ${failures.length} packages` : ''}
+          </div>
+        </div>
+
+        {/* Table */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          {error && (
+            <div className="p-6 text-center text-red-600 dark:text-red-400 text-sm">{error}</div>
+          )}
+          {isLoading && (
+            <div className="p-6 text-center text-gray-500 dark:text-gray-400 text-sm">Loading…</div>
+          )}
+          {!isLoading && rows.length === 0 && (
+            <div className="p-8 text-center text-gray-500 dark:text-gray-400 text-sm">
+              {failures.length === 0 ? 'No packages are failing to install.' : 'No packages match the current filter.'}
+            </div>
+          )}
+          {!isLoading && rows.length > 0 && (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Package</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider">Devices</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Errors</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">First seen</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">Last seen</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.map(({ failures: f, triage: t }) => {
+                    const firstSeen = firstSeenOf(f, t)
+                    return (
+                      <tr key={f.key} className="hover:bg-gray-50 dark:hover:bg-gray-900/40">
+                        <td className="px-4 py-3">
+                          <Link href={`/installs/triage/${encodeURIComponent(f.name)}`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                            {f.name}
+                          </Link>
+                          {t?.notes.length ? (
+                            <div className="text-[11px] text-gray-500 dark:text-gray-500 truncate max-w-xs" title={t.notes[t.notes.length - 1].text}>
+                              {t.notes[t.notes.length - 1].text}
+                            </div>
+                          ) : null}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex flex-wrap gap-1">
+                            <TriageStatusBadge status={t?.status ?? 'new'} fixedInCatalog={t?.fixedInCatalog} />
+                            {f.regression && <RegressionBadge newlyFailing={f.newlyFailing} />}
+                            {failingAfterFix(f, t) && (
+                              <span className="inline-block px-2 py-0.5 rounded text-[10px] font-semibold uppercase bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200">
+                                Failing after fix
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-right font-semibold text-red-600 dark:text-red-400">
+                          {f.devices.length}
+                          {f.newlyFailing > 0 && (
+                            <div className="text-[11px] font-normal text-gray-500 dark:text-gray-400">+{f.newlyFailing} new</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3"><CategoryChips categories={f.categories} /></td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-700 dark:text-gray-300" title={firstSeen ? formatExactTime(firstSeen) : undefined} suppressHydrationWarning>
+                          {firstSeen ? formatRelativeTime(firstSeen) : '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-700 dark:text-gray-300" title={f.lastSeen ? formatExactTime(f.lastSeen) : undefined} suppressHydrationWarning>
+                          {f.lastSeen ? formatRelativeTime(f.lastSeen) : '—'}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function SummaryStat({ label, value, tone }: { label: string; value: number; tone: 'neutral' | 'warn' | 'critical' }) {
+  const colors = {
+    neutral:  'text-gray-900 dark:text-white',
+    warn:     'text-yellow-700 dark:text-yellow-400',
+    critical: 'text-red-700 dark:text-red-400',
+  }[tone]
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+      <div className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">{label}</div>
+      <div className={`text-2xl font-semibold mt-1 ${colors}`}>{value.toLocaleString()}</div>
+    </div>
+  )
+}
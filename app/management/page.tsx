@@ -2,11 +2,12 @@
 
 export const dynamic = 'force-dynamic'
 
-import { useEffect, useState, Suspense } from "react"
+import { useEffect, useMemo, useState, Suspense } from "react"
 import Link from "next/link"
 import { useSearchParams } from "next/navigation"
 import { CopyButton } from "@/src/components/ui/CopyButton"
-import { calculateDeviceStatus } from "@/src/lib/data-processing"
+import { useDeviceStatus } from "@/src/hooks/useDeviceStatus"
+import { useInventoryNormalizer } from "@/src/hooks/useInventoryNormalizer"
 import DeviceFilters, { FilterOptions } from "@/src/components/shared/DeviceFilters"
 import { usePlatformFilterSafe, normalizePlatform } from "@/src/providers/PlatformFilterProvider"
 import { CollapsibleSection } from "@/src/components/ui/CollapsibleSection"
@@ -127,7 +128,15 @@ function ManagementPageContent() {
   const { platformFilter: globalPlatformFilter, isPlatformVisible } = usePlatformFilterSafe()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [management, setManagement] = useState<Management[]>([])
+  const [managementRows, setManagementRows] = useState<Management[]>([])
+  // Status is derived here rather than at fetch time so it follows the status
+  // thresholds once settings load or change
+  const deviceStatus = useDeviceStatus()
+  const normalize = useInventoryNormalizer()
+  const management = useMemo(
+    () => managementRows.map(m => ({ ...normalize.row(m), status: deviceStatus(m) })),
+    [managementRows, deviceStatus, normalize]
+  )
   const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '')
   const [providerFilter, setProviderFilter] = useState('all')
   const [enrollmentStatusFilter, setEnrollmentStatusFilter] = useState('all')
@@ -247,8 +256,6 @@ function ManagementPageContent() {
                 
         // Map API response to Management interface
         const combinedData = (Array.isArray(managementList) ? managementList : []).map((mgmt: any) => {
-          const status = calculateDeviceStatus(mgmt.lastSeen)
-          
           // Normalize provider - "Microsoft Intune (Co-managed)" -> "Microsoft Intune"
           let provider = mgmt.provider || 'Unmanaged'
           if (provider.startsWith('Microsoft Intune')) {
@@ -282,7 +289,6 @@ function ManagementPageContent() {
             // Inventory fields from consolidated response
             usage: mgmt.usage,
             catalog: mgmt.catalog,
-            status: status,
             assetTag: mgmt.assetTag,
             location: mgmt.location,
             department: mgmt.department,
@@ -291,7 +297,7 @@ function ManagementPageContent() {
           }
         })
         
-        setManagement(combinedData)
+        setManagementRows(combinedData)
       } catch (err) {
         console.error('Error fetching management:', err)
         setError(err instanceof Error ? err.message : 'An unexpected error occurred')
@@ -7,12 +7,15 @@ import Link from "next/link"
 import { useSearchParams } from "next/navigation"
 import { extractNetwork } from "@/src/lib/data-processing/modules/network"
 import { useDeviceData } from "@/src/hooks/useDeviceData"
+import { useCustomInventoryFilters } from "@/src/hooks/useCustomInventoryFilters"
 import { usePlatformFilterSafe, getDevicePlatform } from "@/src/providers/PlatformFilterProvider"
 import { Copy } from "lucide-react"
 import { CollapsibleSection } from "@/src/components/ui/CollapsibleSection"
 import { useScrollCollapse } from "@/src/hooks/useScrollCollapse"
 import DeviceFilters, { FilterOptions } from "@/src/components/shared/DeviceFilters"
-import { calculateDeviceStatus } from "@/src/lib/data-processing"
+import { BulkActionBar, BulkSelectAllCheckbox, BulkSelectCheckbox } from "@/src/components/shared/BulkActionBar"
+import { useBulkSelection } from "@/src/hooks/useBulkSelection"
+import { useDeviceStatus } from "@/src/hooks/useDeviceStatus"
 
 interface NetworkDevice {
   id: string
@@ -33,6 +36,8 @@ interface NetworkDevice {
 function NetworkPageContent() {
   const [networkDevices, setNetworkDevices] = useState<NetworkDevice[]>([])
   const [loading, setLoading] = useState(true)
+  // Bumped after a bulk action so the list refetches
+  const [reloadKey, setReloadKey] = useState(0)
   const [, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [connectionFilter, setConnectionFilter] = useState<'all' | 'wired' | 'wireless' | 'vpn'>('all')
@@ -68,9 +73,6 @@ function NetworkPageContent() {
     }
   }
 
-  // Status is derived from lastSeen, the same rule every other report uses
-  const statusOf = (d: { lastSeen?: string }) => calculateDeviceStatus(d.lastSeen)
-
   // Toggle functions for filters
   const toggleStatus = (status: string) => {
     setSelectedStatuses(prev =>
@@ -115,6 +117,7 @@ function NetworkPageContent() {
     setSelectedLocations([])
     setSelectedAreas([])
     setSelectedFleets([])
+    customFilters.clear()
     setConnectionFilter('all')
     setSearchQuery('')
   }
@@ -124,6 +127,16 @@ function NetworkPageContent() {
     includeModuleData: false
   })
 
+  // Status is derived from lastSeen with the thresholds of the device's segment,
+  // read from the main devices API row (which carries inventory), the same rule
+  // every other report uses
+  const deviceStatus = useDeviceStatus()
+  const statusOf = (row: { deviceId?: string; serialNumber?: string; lastSeen?: string }) =>
+    deviceStatus(devices.find(d => d.deviceId === row.deviceId || d.serialNumber === row.serialNumber) ?? row, row.lastSeen)
+
+  // Org-defined inventory fields, also read from the main devices API rows
+  const customFilters = useCustomInventoryFilters(devices)
+
   useEffect(() => {
     const urlSearch = searchParams.get('search')
     if (urlSearch) setSearchQuery(urlSearch)
@@ -162,7 +175,7 @@ function NetworkPageContent() {
     }
 
     fetchNetworkDevices()
-  }, [])
+  }, [reloadKey])
 
   // Filter and process network devices
   const processedNetworkDevices = networkDevices.map(networkDevice => {
@@ -341,6 +354,7 @@ function NetworkPageContent() {
     if (selectedLocations.length > 0 && !selectedLocations.includes(inventory?.location || '')) return false
     if (selectedAreas.length > 0 && !selectedAreas.includes(inventory?.area || inventory?.department || '')) return false
     if (selectedFleets.length > 0 && !selectedFleets.includes(inventory?.fleet || '')) return false
+    if (customFilters.selectedCount > 0 && !customFilters.matches(deviceFromMainAPI)) return false
 
     // Network quality widget filter
     if (speedFilter) {
@@ -407,6 +421,9 @@ function NetworkPageContent() {
   })
 
   // Helper function to copy text to clipboard
+  // Rows checked for the bulk actions
+  const selection = useBulkSelection(filteredNetworkDevices.map(n => n.serialNumber))
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text)
@@ -712,6 +729,8 @@ function NetworkPageContent() {
             expanded={effectiveFiltersExpanded}
             onToggle={() => setFiltersExpanded(!filtersExpanded)}
             locationCounts={locationCounts}
+            customFilters={customFilters.groups}
+            onCustomToggle={customFilters.toggle}
           />
 
           {/* Widgets Accordion */}
@@ -854,10 +873,15 @@ function NetworkPageContent() {
             </CollapsibleSection>
           </div>
 
+          <BulkActionBar selection={selection} dataset="network" onComplete={() => setReloadKey(k => k + 1)} />
+
           <div ref={tableContainerRef} className="flex-1 overflow-y-auto min-h-0 table-scrollbar">
             <table className="w-full table-fixed divide-y divide-gray-200 dark:divide-gray-700">
               <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0 z-10">
                 <tr>
+                  <th className="pl-4 py-3 w-10 bg-gray-50 dark:bg-gray-700">
+                    <BulkSelectAllCheckbox selection={selection} label="Select all listed devices" />
+                  </th>
                   <th 
                     onClick={() => handleSort('device')}
                     className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase w-56 bg-gray-50 dark:bg-gray-700 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 select-none"
@@ -917,7 +941,7 @@ function NetworkPageContent() {
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {filteredNetworkDevices.length === 0 ? (
                   <tr>
-                    <td colSpan={6} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                    <td colSpan={7} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
                       <svg className="w-12 h-12 mx-auto mb-4 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9v-9m0-9v9" />
                       </svg>
@@ -931,6 +955,9 @@ function NetworkPageContent() {
                     
                     return (
                       <tr key={networkDevice.deviceId} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                        <td className="pl-4 py-3 w-10">
+                          <BulkSelectCheckbox selection={selection} serialNumber={networkDevice.serialNumber} label={networkDevice.deviceName} />
+                        </td>
                         <td className="px-4 py-3 w-56">
                           <div className="flex flex-col justify-center h-12 min-w-0">
                             <Link
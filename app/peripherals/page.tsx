@@ -2,11 +2,12 @@
 
 export const dynamic = 'force-dynamic'
 
-import { useEffect, useState, Suspense } from "react"
+import { useEffect, useMemo, useState, Suspense } from "react"
 import Link from "next/link"
 import { useSearchParams } from "next/navigation"
 import { formatRelativeTime } from "@/src/lib/time"
-import { calculateDeviceStatus } from "@/src/lib/data-processing"
+import { useDeviceStatus } from "@/src/hooks/useDeviceStatus"
+import { useInventoryNormalizer } from "@/src/hooks/useInventoryNormalizer"
 import { usePlatformFilterSafe, normalizePlatform } from "@/src/providers/PlatformFilterProvider"
 import { CollapsibleSection } from "@/src/components/ui/CollapsibleSection"
 import { useScrollCollapse } from "@/src/hooks/useScrollCollapse"
@@ -138,7 +139,11 @@ function PeripheralsPageContent() {
   const searchParams = useSearchParams()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [peripherals, setPeripherals] = useState<Peripheral[]>([])
+  const [peripheralRows, setPeripheralRows] = useState<Peripheral[]>([])
+  // Inventory values normalized through the field aliases at render, so they
+  // follow the settings once they load
+  const normalize = useInventoryNormalizer()
+  const peripherals = useMemo(() => peripheralRows.map(normalize.row), [peripheralRows, normalize])
   const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '')
   // Multi-select peripheral-type pills, replacing the old dropdown
   const [selectedTypes, setSelectedTypes] = useState<PeripheralTypeKey[]>([])
@@ -170,8 +175,10 @@ function PeripheralsPageContent() {
     setSelectedLocations([]); setSelectedAreas([]); setSelectedFleets([])
   }
 
-  // Status is derived from lastSeen, the same rule every other report uses
-  const statusOf = (peripheral: Peripheral) => calculateDeviceStatus(peripheral.lastSeen)
+  // Status is derived from lastSeen with the device's segment thresholds, the
+  // same rule every other report uses
+  const deviceStatus = useDeviceStatus()
+  const statusOf = (peripheral: Peripheral) => deviceStatus(peripheral)
 
   const { tableContainerRef, effectiveFiltersExpanded, effectiveWidgetsExpanded } = useScrollCollapse(
     { filters: filtersExpanded, widgets: widgetsExpanded },
@@ -204,7 +211,7 @@ function PeripheralsPageContent() {
         }
         
         const data = await response.json()
-        setPeripherals(data)
+        setPeripheralRows(data)
       } catch (err) {
         console.error('Error fetching peripherals:', err)
         setError(err instanceof Error ? err.message : 'An unexpected error occurred')
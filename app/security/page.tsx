@@ -5,11 +5,20 @@ export const dynamic = 'force-dynamic'
 import { useEffect, useState, useCallback, useMemo, Suspense } from "react"
 import Link from "next/link"
 import { useSearchParams } from "next/navigation"
-import { calculateDeviceStatus } from "@/src/lib/data-processing"
+import { useDeviceStatus } from "@/src/hooks/useDeviceStatus"
+import { useInventoryNormalizer } from "@/src/hooks/useInventoryNormalizer"
 import DeviceFilters, { FilterOptions } from "@/src/components/shared/DeviceFilters"
 import { usePlatformFilterSafe, normalizePlatform } from "@/src/providers/PlatformFilterProvider"
 import { CollapsibleSection } from "@/src/components/ui/CollapsibleSection"
 import { useScrollCollapse } from "@/src/hooks/useScrollCollapse"
+import { useSettingsOptional } from "@/src/providers/SettingsProvider"
+import { DEFAULT_INVENTORY_FIELDS, DEFAULT_SECURITY_CONFIG } from "@/src/lib/settings/defaults"
+import { explainSecurity, type SecurityEvaluation } from "@/src/lib/rules/evaluateSecurity"
+import { deviceRecordContexts, securityCheckStates, summaryRowContext, type SecurityDeviceSummary } from "@/src/lib/rules/simulate"
+import { SeverityTracePopover } from "@/src/components/shared/SeverityTracePopover"
+import { BulkActionBar, BulkSelectAllCheckbox, BulkSelectCheckbox } from "@/src/components/shared/BulkActionBar"
+import { useBulkSelection } from "@/src/hooks/useBulkSelection"
+import type { Severity } from "@/src/lib/settings/types"
 
 // ============ TYPE DEFINITIONS ============
 
@@ -274,6 +283,23 @@ function Badge({ className, children }: { className: string; children: React.Rea
   return <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>{children}</span>
 }
 
+const severityBadge: Record<Severity, string> = {
+  ok: greenBadge,
+  danger: redBadge,
+  warning: amberBadge,
+  neutral: grayBadge,
+  unknown: grayBadge,
+}
+
+/** Badge colored by the settings-driven severity; clicking explains it. */
+function SeverityBadge({ evaluation, children }: { evaluation: SecurityEvaluation; children: React.ReactNode }) {
+  return (
+    <SeverityTracePopover evaluation={evaluation}>
+      <Badge className={severityBadge[evaluation.severity]}>{children}</Badge>
+    </SeverityTracePopover>
+  )
+}
+
 // ============ SORTABLE HEADER ============
 
 function SortHeader({ label, column, sortColumn, sortDirection, onSort }: {
@@ -303,8 +329,20 @@ function SecurityPageContent() {
   const { platformFilter: globalPlatformFilter, isPlatformVisible } = usePlatformFilterSafe()
 
   // Data
-  const [devices, setDevices] = useState<SecurityDevice[]>([])
+  const [securityRows, setSecurityRows] = useState<SecurityDevice[]>([])
+  // Status is derived at render so it follows the status thresholds once
+  // settings load or change
+  const deviceStatus = useDeviceStatus()
+  const normalize = useInventoryNormalizer()
+  const devices = useMemo(
+    () => securityRows.map(s => ({ ...normalize.row(s), status: deviceStatus(s) })),
+    [securityRows, deviceStatus, normalize]
+  )
+  // Device records the severity rules match on, as on the device page
+  const [deviceRecords, setDeviceRecords] = useState<unknown[]>([])
   const [loading, setLoading] = useState(true)
+  // Bumped after a bulk action so the list refetches
+  const [reloadKey, setReloadKey] = useState(0)
   const [error, setError] = useState<string | null>(null)
 
   // Filters
@@ -373,11 +411,7 @@ function SecurityPageContent() {
         })
         if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`)
         const data = await response.json()
-        const enriched = data.map((s: SecurityDevice) => ({
-          ...s,
-          status: calculateDeviceStatus(s.lastSeen)
-        }))
-        setDevices(enriched)
+        setSecurityRows(data)
       } catch (err) {
         console.error('Error fetching security:', err)
         setError(err instanceof Error ? err.message : 'An unexpected error occurred')
@@ -386,7 +420,12 @@ function SecurityPageContent() {
       }
     }
     fetchSecurity()
-  }, [])
+    fetch('/api/v1/devices', { credentials: 'include' })
+      .then(async (response) => (response.ok ? setDeviceRecords((await response.json()).devices ?? []) : null))
+      .catch(() => {
+        // Severities fall back to the facts the security rows carry
+      })
+  }, [reloadKey])
 
   // ============ CERTIFICATE SEARCH ============
 
@@ -481,6 +520,21 @@ function SecurityPageContent() {
 
   const isWin = (d: SecurityDevice) => normalizePlatform(d.platform) === 'Windows'
 
+  // Settings-driven severity per check, evaluated the same way the device
+  // Security tab does so both pages agree and can explain their colors.
+  const settings = useSettingsOptional()
+  const securityConfig = settings?.securityConfig ?? DEFAULT_SECURITY_CONFIG
+  const inventoryFields = settings?.inventoryFields?.length ? settings.inventoryFields : DEFAULT_INVENTORY_FIELDS
+  const recordContexts = useMemo(() => deviceRecordContexts(deviceRecords, inventoryFields), [deviceRecords, inventoryFields])
+  const explainRow = (d: SecurityDevice): Record<string, SecurityEvaluation> => {
+    const row = d as unknown as SecurityDeviceSummary
+    const ctx = recordContexts.get(row.serialNumber) ?? summaryRowContext(row, inventoryFields)
+    const states = securityCheckStates(row)
+    return Object.fromEntries(
+      Object.entries(states).map(([check, enabled]) => [check, explainSecurity(check, enabled, ctx, securityConfig)])
+    )
+  }
+
   const getTamperSecured = (d: SecurityDevice) =>
     isWin(d) ? (d.tpmPresent && d.tpmEnabled) : (d.sipEnabled === true)
 
@@ -635,6 +689,9 @@ function SecurityPageContent() {
     return sortDirection === 'asc' ? av.localeCompare(bv) : bv.localeCompare(av)
   })
 
+  // Rows checked for the bulk actions
+  const selection = useBulkSelection(filteredDevices.map(d => d.serialNumber))
+
   // ============ CSV EXPORT ============
 
   const exportCSV = () => {
@@ -976,11 +1033,16 @@ function SecurityPageContent() {
             </CollapsibleSection>
           </div>
 
+          <BulkActionBar selection={selection} dataset="security" onComplete={() => setReloadKey(k => k + 1)} />
+
           {/* Table */}
           <div ref={tableContainerRef} className="flex-1 overflow-auto min-h-0 table-scrollbar">
             <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
               <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0 z-10">
                 <tr>
+                  <th className="pl-3 py-3 w-8">
+                    <BulkSelectAllCheckbox selection={selection} label="Select all listed devices" />
+                  </th>
                   <SortHeader label="Device" column="device" sortColumn={sortColumn} sortDirection={sortDirection} onSort={handleSort} />
                   <SortHeader label="Encryption" column="encryption" sortColumn={sortColumn} sortDirection={sortDirection} onSort={handleSort} />
                   <SortHeader label="Protection" column="protection" sortColumn={sortColumn} sortDirection={sortDirection} onSort={handleSort} />
@@ -995,7 +1057,7 @@ function SecurityPageContent() {
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {error ? (
                   <tr>
-                    <td colSpan={9} className="px-6 py-12 text-center">
+                    <td colSpan={10} className="px-6 py-12 text-center">
                       <div className="flex flex-col items-center">
                         <div className="w-12 h-12 mb-4 bg-red-50 dark:bg-red-900/20 rounded-full flex items-center justify-center">
                           <svg className="w-6 h-6 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1012,7 +1074,7 @@ function SecurityPageContent() {
                   </tr>
                 ) : filteredDevices.length === 0 ? (
                   <tr>
-                    <td colSpan={9} className="px-6 py-12 text-center">
+                    <td colSpan={10} className="px-6 py-12 text-center">
                       <div className="flex flex-col items-center">
                         <svg className="w-12 h-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
@@ -1025,8 +1087,12 @@ function SecurityPageContent() {
                 ) : (
                   filteredDevices.map((d) => {
                     const win = isWin(d)
+                    const trace = explainRow(d)
                     return (
                       <tr key={d.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                        <td className="pl-3 py-3 w-8">
+                          <BulkSelectCheckbox selection={selection} serialNumber={d.serialNumber} label={d.deviceName} />
+                        </td>
                         {/* Device */}
                         <td className="px-3 py-3 max-w-48">
                           <Link href={`/device/${d.serialNumber}#security`} className="group block min-w-0" title={d.deviceName || 'Unknown Device'}>
@@ -1039,9 +1105,9 @@ function SecurityPageContent() {
                         </td>
                         {/* Encryption */}
                         <td className="px-3 py-3">
-                          <Badge className={d.encryptionEnabled ? greenBadge : redBadge}>
+                          <SeverityBadge evaluation={trace.encryption}>
                             {win ? 'BitLocker' : 'FileVault'} {d.encryptionEnabled ? 'On' : 'Off'}
-                          </Badge>
+                          </SeverityBadge>
                         </td>
                         {/* Protection */}
                         <td className="px-3 py-3">
@@ -1075,9 +1141,9 @@ function SecurityPageContent() {
                             ) : (
                               <>
                                 {d.sipEnabled !== undefined && (
-                                  <Badge className={d.sipEnabled ? greenBadge : redBadge}>
+                                  <SeverityBadge evaluation={trace.sip}>
                                     SIP {d.sipEnabled ? 'On' : 'Off'}
-                                  </Badge>
+                                  </SeverityBadge>
                                 )}
                                 <Badge className={d.secureBootEnabled ? greenBadge : redBadge}>
                                   SB {d.secureBootEnabled ? 'On' : 'Off'}
@@ -1098,18 +1164,18 @@ function SecurityPageContent() {
                         </td>
                         {/* Firewall */}
                         <td className="px-3 py-3">
-                          <Badge className={grayBadge}>
+                          <SeverityBadge evaluation={trace.firewall}>
                             {d.firewallEnabled ? 'On' : 'Off'}
-                          </Badge>
+                          </SeverityBadge>
                         </td>
                         {/* Access */}
                         <td className="px-3 py-3">
                           <div className="flex flex-wrap gap-1">
                             {d.secureShell?.isServiceRunning && (
-                              <Badge className={grayBadge}>SSH</Badge>
+                              <SeverityBadge evaluation={trace.ssh}>SSH</SeverityBadge>
                             )}
                             {win && d.rdpEnabled && (
-                              <Badge className={grayBadge}>RDP</Badge>
+                              <SeverityBadge evaluation={trace.rdp}>RDP</SeverityBadge>
                             )}
                             {!d.secureShell?.isServiceRunning && !(win && d.rdpEnabled) && (
                               <span className="text-xs text-gray-400">None</span>
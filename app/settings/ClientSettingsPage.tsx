@@ -9,13 +9,25 @@ import { ADMIN_ROLE } from '../../lib/auth-roles'
 import Link from 'next/link'
 import { InventoryMappingEditor } from '../../src/components/settings/InventoryMappingEditor'
 import { SecurityRulesEditor } from '../../src/components/settings/SecurityRulesEditor'
+import { StatusThresholdsEditor } from '../../src/components/settings/StatusThresholdsEditor'
+import { SettingsHistory } from '../../src/components/settings/SettingsHistory'
+import { SettingsTransfer } from '../../src/components/settings/SettingsTransfer'
+import { AlertsEditor } from '../../src/components/settings/AlertsEditor'
+import { AlertsList } from '../../src/components/settings/AlertsList'
+import { ReportSchedulesEditor } from '../../src/components/settings/ReportSchedulesEditor'
+import { ReportRunsList } from '../../src/components/settings/ReportRunsList'
+import { InstallErrorCodesEditor } from '../../src/components/settings/InstallErrorCodesEditor'
+import { ClientVersionsEditor } from '../../src/components/settings/ClientVersionsEditor'
+import { BaselinesEditor } from '../../src/components/settings/BaselinesEditor'
+import { DeviceGroupsManager } from '../../src/components/settings/DeviceGroupsManager'
 import { useSettings } from '../../src/providers/SettingsProvider'
 
 type MaintStatus = { type: 'idle' | 'loading' | 'success' | 'error'; message?: string }
 
 export default function ClientSettingsPage() {
   const { isFirstTime } = useSettings()
-  const [activeSection, setActiveSection] = useState<'general' | 'inventory' | 'rules' | 'modules' | 'security' | 'integrations' | 'maintenance'>('general')
+  const [activeSection, setActiveSection] = useState<'general' | 'inventory' | 'rules' | 'status' | 'alerts' | 'reports' | 'installErrors' | 'clientVersions' | 'drift' | 'groups' | 'history' | 'transfer' | 'modules' | 'security' | 'integrations' | 'maintenance'>('general')
+  const [reportRuns, setReportRuns] = useState(0)
   const [clearDays, setClearDays] = useState(10)
   const [clearStatus, setClearStatus] = useState<MaintStatus>({ type: 'idle' })
   const [deleteSerial, setDeleteSerial] = useState('')
@@ -34,10 +46,19 @@ export default function ClientSettingsPage() {
     { id: 'general', name: 'General', icon: '' },
     { id: 'inventory', name: 'Inventory Mapping', icon: '' },
     { id: 'rules', name: 'Security Rules', icon: '' },
+    { id: 'status', name: 'Device Status', icon: '' },
+    { id: 'alerts', name: 'Alerts', icon: '' },
+    { id: 'reports', name: 'Scheduled Reports', icon: '' },
+    { id: 'installErrors', name: 'Installer Errors', icon: '' },
+    { id: 'clientVersions', name: 'Client Versions', icon: '' },
+    { id: 'drift', name: 'Drift Baselines', icon: '' },
+    { id: 'groups', name: 'Device Groups', icon: '' },
+    { id: 'history', name: 'History', icon: '' },
+    { id: 'transfer', name: 'Import / Export', icon: '' },
     { id: 'maintenance', name: 'Maintenance', icon: '' },
   ]
   const menuItems = isDemoMode
-    ? allMenuItems.filter((i) => ['general', 'inventory', 'rules'].includes(i.id))
+    ? allMenuItems.filter((i) => ['general', 'inventory', 'rules', 'status'].includes(i.id))
     : allMenuItems
 
   async function handleClearInstallsErrors() {
@@ -226,6 +247,103 @@ export default function ClientSettingsPage() {
                 </div>
               )}
 
+              {activeSection === 'status' && (
+                <div className="p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                    Device Status
+                  </h2>
+                  <StatusThresholdsEditor readOnly={!canEdit} />
+                </div>
+              )}
+
+              {activeSection === 'alerts' && (
+                <div className="p-6 space-y-8">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                      Active Alerts
+                    </h2>
+                    <AlertsList readOnly={!canEdit} />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                      Alert Rules
+                    </h2>
+                    <AlertsEditor readOnly={!canEdit} />
+                  </div>
+                </div>
+              )}
+
+              {activeSection === 'reports' && (
+                <div className="p-6 space-y-8">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                      Scheduled Reports
+                    </h2>
+                    <ReportSchedulesEditor readOnly={!canEdit} onRan={() => setReportRuns((n) => n + 1)} />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                      Report History
+                    </h2>
+                    <ReportRunsList refreshKey={reportRuns} />
+                  </div>
+                </div>
+              )}
+
+              {activeSection === 'installErrors' && (
+                <div className="p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                    Installer Error Codes
+                  </h2>
+                  <InstallErrorCodesEditor readOnly={!canEdit} />
+                </div>
+              )}
+
+              {activeSection === 'clientVersions' && (
+                <div className="p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                    Minimum Client Versions
+                  </h2>
+                  <ClientVersionsEditor readOnly={!canEdit} />
+                </div>
+              )}
+
+              {activeSection === 'drift' && (
+                <div className="p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                    Drift Baselines
+                  </h2>
+                  <BaselinesEditor readOnly={!canEdit} />
+                </div>
+              )}
+
+              {activeSection === 'groups' && (
+                <div className="p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                    Device Groups &amp; Tags
+                  </h2>
+                  <DeviceGroupsManager readOnly={!canEdit} />
+                </div>
+              )}
+
+              {activeSection === 'history' && (
+                <div className="p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                    Settings History
+                  </h2>
+                  <SettingsHistory readOnly={!canEdit} />
+                </div>
+              )}
+
+              {activeSection === 'transfer' && (
+                <div className="p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                    Import / Export
+                  </h2>
+                  <SettingsTransfer readOnly={!canEdit} />
+                </div>
+              )}
+
               {activeSection === 'modules' && (
                 <div className="p-6">
                   <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
@@ -520,7 +638,7 @@ export default function ClientSettingsPage() {
                       Bulk Delete Devices
                     </h3>
                     <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-                      Paste one serial number per line (or comma-separated). Each device is deleted independently; per-device results are reported below. Capped at 100 devices per request.
+                      Paste one serial number per line (or comma-separated). Each device is deleted independently; per-device results are reported below. Capped at 100 devices per request; for larger selections, check devices on the Devices, Security, Hardware or Network lists and use the bulk action bar.
                     </p>
 
                     <div className="mb-4">
@@ -13,11 +13,12 @@ import { UptimeDistributionChart, getUptimeBucketKey } from "@/src/lib/modules/g
 import { PendingUpdatesChart, getPendingUpdatesBucketKey } from "@/src/lib/modules/graphs/PendingUpdatesChart"
 import { LicenseSourceChart } from "@/src/lib/modules/graphs/LicenseSourceChart"
 import { useDeviceData } from "@/src/hooks/useDeviceData"
+import { useCustomInventoryFilters } from "@/src/hooks/useCustomInventoryFilters"
 import { usePlatformFilterSafe, normalizePlatform } from "@/src/providers/PlatformFilterProvider"
 import { CollapsibleSection } from "@/src/components/ui/CollapsibleSection"
 import { useScrollCollapse } from "@/src/hooks/useScrollCollapse"
 import DeviceFilters, { FilterOptions } from "@/src/components/shared/DeviceFilters"
-import { calculateDeviceStatus } from "@/src/lib/data-processing"
+import { useDeviceStatus } from "@/src/hooks/useDeviceStatus"
 
 interface SystemDevice {
   id: string
@@ -306,9 +307,6 @@ function SystemPageContent() {
     )
   }
 
-  // Status is derived from lastSeen, the same rule every other report uses
-  const statusOf = (d: { lastSeen?: string }) => calculateDeviceStatus(d.lastSeen)
-
   const toggleStatus = (status: string) => {
     setSelectedStatuses(prev =>
       prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]
@@ -390,6 +388,7 @@ function SystemPageContent() {
     setSelectedLocations([])
     setSelectedAreas([])
     setSelectedFleets([])
+    customFilters.clear()
     setSelectedEditions([])
     setSelectedActivationStatus([])
     setSelectedLicenseType([])
@@ -405,20 +404,30 @@ function SystemPageContent() {
     if (osVersionFilter) router.push('/system')
   }
   
+  // Use the new hook to get both devices data (with inventory) and system module data
+  const { devices, moduleData: systemModuleData, devicesLoading, moduleLoading, error } = useDeviceData({
+    includeModuleData: true,
+    moduleType: 'system'
+  })
+
+  // Status is derived from lastSeen with the thresholds of the device's segment,
+  // read from the main devices API row (which carries inventory), the same rule
+  // every other report uses
+  const deviceStatus = useDeviceStatus()
+  const statusOf = (row: { deviceId?: string; serialNumber?: string; lastSeen?: string }) =>
+    deviceStatus(devices.find(d => d.deviceId === row.deviceId || d.serialNumber === row.serialNumber) ?? row, row.lastSeen)
+
+  // Org-defined inventory fields, also read from the main devices API rows
+  const customFilters = useCustomInventoryFilters(devices)
+
   const totalActiveFilters = selectedStatuses.length + selectedUsages.length + selectedCatalogs.length +
-    selectedLocations.length + selectedAreas.length + selectedFleets.length +
+    selectedLocations.length + selectedAreas.length + selectedFleets.length + customFilters.selectedCount +
     selectedEditions.length + selectedActivationStatus.length + selectedLicenseType.length +
     selectedArchitectures.length + selectedTimeZones.length + selectedUptimeBuckets.length + selectedLicenseSources.length +
     selectedPendingBuckets.length +
     (activationFilter !== 'all' ? 1 : 0) + (firmwareLicenseFilter !== 'all' ? 1 : 0) +
     (osVersionFilter ? 1 : 0)
 
-  // Use the new hook to get both devices data (with inventory) and system module data
-  const { devices, moduleData: systemModuleData, devicesLoading, moduleLoading, error } = useDeviceData({
-    includeModuleData: true,
-    moduleType: 'system'
-  })
-
   useEffect(() => {
     console.log('[SystemPage] Hook data:', {
       devices: devices.length,
@@ -653,6 +662,7 @@ function SystemPageContent() {
     if (selectedLocations.length > 0 && !selectedLocations.includes(inventory?.location || '')) return false
     if (selectedAreas.length > 0 && !selectedAreas.includes((inventory as any)?.area || (inventory as any)?.department || '')) return false
     if (selectedFleets.length > 0 && !selectedFleets.includes((inventory as any)?.fleet || '')) return false
+    if (customFilters.selectedCount > 0 && !customFilters.matches(deviceFromMainAPI)) return false
     
     return true
   })
@@ -919,6 +929,8 @@ function SystemPageContent() {
             expanded={effectiveFiltersExpanded}
             onToggle={() => setFiltersExpanded(!filtersExpanded)}
             locationCounts={locationCounts}
+            customFilters={customFilters.groups}
+            onCustomToggle={customFilters.toggle}
           />
 
           {/* Widgets Accordion - OS Version Charts */}
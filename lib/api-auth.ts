@@ -10,6 +10,10 @@
  * 2. REPORTMATE_PASSPHRASE (local development fallback)
  */
 
+import { timingSafeEqual } from 'node:crypto'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from './auth-roles'
+
 /**
  * Get authentication headers for internal API requests.
  * Must include X-Internal-Secret for container-to-container communication.
@@ -97,3 +101,21 @@ export async function fetchFromApi(
     headers
   })
 }
+
+/**
+ * Guard for routes a scheduler (cron job, Container Apps job) calls with the
+ * internal secret and an admin may also call from the UI. Returns null when
+ * authorized, otherwise a 401/403 response to return directly.
+ */
+export async function requireInternalOrAdmin(request: Request): Promise<NextResponse | null> {
+  const secret = process.env.API_INTERNAL_SECRET
+  const presented = request.headers.get('x-internal-secret')
+  if (secret && presented) {
+    const a = Buffer.from(presented)
+    const b = Buffer.from(secret)
+    if (a.length === b.length && timingSafeEqual(a, b)) return null
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  const guard = await requireAdmin(request)
+  return guard instanceof NextResponse ? guard : null
+}
@@ -30,6 +30,28 @@ export function tokenIsAdmin(token: JWT | null): boolean {
   return hasRole(token?.roles, ADMIN_ROLE)
 }
 
+function sessionFromToken(token: JWT): Session {
+  return {
+    user: {
+      id: token.sub ?? '',
+      provider: (token.provider as string) ?? '',
+      roles: (token.roles as string[]) ?? [],
+      tenantId: token.tenantId as string | undefined,
+      name: token.name ?? null,
+      email: token.email ?? null,
+      image: token.picture ?? null,
+    },
+  } as unknown as Session
+}
+
+function readToken(request: Request): Promise<JWT | null> {
+  return getToken({
+    req: request as any,
+    secret: process.env.NEXTAUTH_SECRET,
+    secureCookie: process.env.NODE_ENV === 'production',
+  })
+}
+
 /**
  * Server-side guard for API route handlers. Returns a minimal session built
  * from the JWT on success, or a `NextResponse` with a 401/403 that the caller
@@ -40,11 +62,7 @@ export function tokenIsAdmin(token: JWT | null): boolean {
  *   // ...authorized work...
  */
 export async function requireAdmin(request: Request): Promise<Session | NextResponse> {
-  const token = await getToken({
-    req: request as any,
-    secret: process.env.NEXTAUTH_SECRET,
-    secureCookie: process.env.NODE_ENV === 'production',
-  })
+  const token = await readToken(request)
 
   if (!token) {
     return NextResponse.json({ error: 'Unauthenticated' }, { status: 401 })
@@ -57,15 +75,17 @@ export async function requireAdmin(request: Request): Promise<Session | NextResp
     )
   }
 
-  return {
-    user: {
-      id: token.sub ?? '',
-      provider: (token.provider as string) ?? '',
-      roles: (token.roles as string[]) ?? [],
-      tenantId: token.tenantId as string | undefined,
-      name: token.name ?? null,
-      email: token.email ?? null,
-      image: token.picture ?? null,
-    },
-  } as unknown as Session
+  return sessionFromToken(token)
+}
+
+/** Like requireAdmin, for routes any signed-in user may call but that act on
+ * their own data and so need to know who they are. */
+export async function requireUser(request: Request): Promise<Session | NextResponse> {
+  const token = await readToken(request)
+
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthenticated' }, { status: 401 })
+  }
+
+  return sessionFromToken(token)
 }
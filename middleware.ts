@@ -9,6 +9,10 @@ const publicRoutes = [
   '/api/healthz',       // Health check endpoint for Front Door
   '/api/health',        // Alternative health check endpoint
   '/api/version',       // Build/version metadata endpoint for status widgets
+  '/api/alerts/evaluate', // Alerting pass (scheduler via X-Internal-Secret, or an admin session)
+  '/api/reports/run',   // Scheduled reports (scheduler via X-Internal-Secret, or an admin session)
+  '/api/installs/rollout-samples', // Rollout sampling pass (scheduler via X-Internal-Secret, or an admin session)
+  '/api/devices/snapshots', // Device history pass (scheduler via X-Internal-Secret, or an admin session)
   '/auth',
   '/_next',
   '/favicon',              // favicon.ico + favicon-16x16/32x32/48x48.png
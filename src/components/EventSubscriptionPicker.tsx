@@ -0,0 +1,188 @@
+"use client"
+
+/**
+ * Event Subscription Picker
+ * Shows which part of the event stream the live feed receives and edits it
+ */
+
+import React, { useMemo, useState } from "react"
+import {
+  describeSubscription,
+  EVENT_SEVERITIES,
+  EventSubscription,
+  normalizeSubscription,
+  SUBSCRIPTION_SCOPES,
+  SubscriptionScope,
+  validateSubscription,
+} from "../lib/events/subscriptions"
+import type { EventSeverity } from "../lib/events/normalize"
+
+const SCOPE_LABELS: Record<SubscriptionScope, string> = {
+  device: "Devices",
+  catalog: "Catalog",
+  location: "Location",
+  usage: "Usage",
+  platform: "Platform",
+}
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+
+interface EventSubscriptionPickerProps {
+  subscription: EventSubscription
+  /** Known values per scope, offered as checkboxes; devices are typed as serial numbers. */
+  options: Partial<Record<SubscriptionScope, string[]>>
+  onSave: (subscription: EventSubscription) => Promise<void>
+  readOnly?: boolean
+}
+
+export const EventSubscriptionPicker: React.FC<EventSubscriptionPickerProps> = ({ subscription, options, onSave, readOnly = false }) => {
+  const [editing, setEditing] = useState(false)
+  const [scope, setScope] = useState<SubscriptionScope | "">("")
+  const [values, setValues] = useState<string[]>([])
+  const [serials, setSerials] = useState("")
+  const [severities, setSeverities] = useState<EventSeverity[]>([])
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "error"; message?: string }>({ type: "idle" })
+
+  const open = () => {
+    setScope(subscription.scope ?? "")
+    setValues(subscription.scope === "device" ? [] : subscription.values ?? [])
+    setSerials(subscription.scope === "device" ? (subscription.values ?? []).join(", ") : "")
+    setSeverities(subscription.severities ?? [])
+    setStatus({ type: "idle" })
+    setEditing(true)
+  }
+
+  const draft = useMemo<EventSubscription>(() => {
+    const picked = scope === "device" ? serials.split(",").map((s) => s.trim()).filter(Boolean) : values
+    return {
+      ...(scope ? { scope, values: picked } : {}),
+      ...(severities.length ? { severities } : {}),
+    }
+  }, [scope, values, serials, severities])
+  const errors = validateSubscription(draft)
+
+  const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter((i) => i !== item) : [...list, item])
+
+  async function save() {
+    if (errors.length) {
+      setStatus({ type: "error", message: scope === "device" ? "Enter at least one serial number" : "Pick at least one value" })
+      return
+    }
+    setStatus({ type: "saving" })
+    try {
+      await onSave(normalizeSubscription(draft))
+      setEditing(false)
+      setStatus({ type: "idle" })
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Save failed" })
+    }
+  }
+
+  const scoped = Boolean(subscription.scope || subscription.severities?.length)
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+        <span>
+          Live feed: <span className={scoped ? "font-medium text-gray-900 dark:text-white" : ""}>{describeSubscription(subscription)}</span>
+        </span>
+        {!readOnly && !editing && (
+          <button onClick={open} className="text-blue-600 dark:text-blue-400 hover:underline">
+            Change
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="mt-3 p-4 space-y-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <span className="w-20 font-medium">Scope</span>
+            <select
+              value={scope}
+              onChange={(e) => {
+                setScope(e.target.value as SubscriptionScope | "")
+                setValues([])
+                setStatus({ type: "idle" })
+              }}
+              className={inputClass}
+            >
+              <option value="">Whole fleet</option>
+              {SUBSCRIPTION_SCOPES.map((s) => (
+                <option key={s} value={s}>{SCOPE_LABELS[s]}</option>
+              ))}
+            </select>
+          </label>
+
+          {scope === "device" && (
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              <span className="w-20 font-medium">Serials</span>
+              <input
+                value={serials}
+                onChange={(e) => setSerials(e.target.value)}
+                placeholder="C02XK1JHJG5J, 5CD1234XYZ"
+                className={`flex-1 font-mono ${inputClass}`}
+              />
+            </label>
+          )}
+          {scope && scope !== "device" && (
+            <div className="flex gap-2 text-gray-700 dark:text-gray-300">
+              <span className="w-20 shrink-0 font-medium">{SCOPE_LABELS[scope]}</span>
+              {(options[scope] ?? []).length === 0 ? (
+                <span className="text-gray-500 dark:text-gray-400">No devices report a {scope}.</span>
+              ) : (
+                <div className="flex flex-wrap gap-x-4 gap-y-1 max-h-32 overflow-y-auto">
+                  {(options[scope] ?? []).map((v) => (
+                    <label key={v} className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={values.includes(v)}
+                        onChange={() => setValues((prev) => toggle(prev, v))}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {v}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2 text-gray-700 dark:text-gray-300">
+            <span className="w-20 shrink-0 font-medium">Severity</span>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {EVENT_SEVERITIES.map((s) => (
+                <label key={s} className="flex items-center gap-1.5 capitalize">
+                  <input
+                    type="checkbox"
+                    checked={severities.includes(s)}
+                    onChange={() => setSeverities((prev) => toggle(prev, s))}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {s}
+                </label>
+              ))}
+              <span className="text-xs text-gray-500 dark:text-gray-400">None checked receives every severity.</span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={save}
+              disabled={status.type === "saving"}
+              className={`px-3 py-1.5 text-sm font-medium rounded-md text-white ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}
+            >
+              {status.type === "saving" ? "Saving..." : "Save"}
+            </button>
+            <button onClick={() => setEditing(false)} className="text-gray-600 dark:text-gray-400 hover:underline">
+              Cancel
+            </button>
+            {status.type === "error" && <span className="text-red-600 dark:text-red-400">{status.message}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default EventSubscriptionPicker
@@ -0,0 +1,23 @@
+"use client"
+
+import React from "react"
+import { getErrorCodeInfo } from "../../lib/data-processing/modules/installs"
+import { useSettingsOptional } from "../../providers/SettingsProvider"
+
+/** What an install error means and what to do about it, from the org's error
+ * catalog and the built-in one. Renders nothing for errors neither knows. */
+export function InstallErrorHint({ code, message, className = "" }: { code?: string; message?: string; className?: string }) {
+  const orgCodes = useSettingsOptional()?.settings.installErrors?.codes ?? []
+  const info = getErrorCodeInfo(code, orgCodes, message)
+  if (!info) return null
+  return (
+    <p className={`text-xs text-gray-600 dark:text-gray-400 ${className}`}>
+      <span className={`font-medium ${info.severity === "warning" ? "text-amber-700 dark:text-amber-400" : "text-gray-800 dark:text-gray-200"}`}>
+        {info.description}
+      </span>
+      {" — "}{info.action}
+    </p>
+  )
+}
+
+export default InstallErrorHint
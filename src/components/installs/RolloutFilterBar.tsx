@@ -0,0 +1,68 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import type { RolloutFilters } from "../../lib/installs/rollout"
+
+const inputClass =
+  "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+
+/** Which devices a rollout targets: catalogs to toggle and manifest prefixes. */
+export function RolloutFilterBar({
+  filters,
+  onChange,
+  catalogs,
+  manifests,
+}: {
+  filters: RolloutFilters
+  onChange: (filters: RolloutFilters) => void
+  catalogs: string[]
+  manifests: string[]
+}) {
+  const selected = filters.catalogs ?? []
+  const [manifestText, setManifestText] = useState((filters.manifests ?? []).join(", "))
+  useEffect(() => setManifestText((filters.manifests ?? []).join(", ")), [filters.manifests])
+
+  const applyManifests = () => {
+    const next = manifestText.split(",").map(m => m.trim().replace(/\/+$/, "")).filter(Boolean)
+    if (next.join(",") !== (filters.manifests ?? []).join(",")) onChange({ ...filters, manifests: next })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-sm">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-gray-600 dark:text-gray-400 mr-1">Catalogs:</span>
+        {catalogs.length === 0 && <span className="text-gray-400 dark:text-gray-500">none reported</span>}
+        {catalogs.map(c => {
+          const on = selected.some(s => s.toLowerCase() === c.toLowerCase())
+          return (
+            <button
+              key={c}
+              onClick={() => onChange({ ...filters, catalogs: on ? selected.filter(s => s.toLowerCase() !== c.toLowerCase()) : [...selected, c] })}
+              className={`px-2 py-0.5 rounded-full border text-xs ${on
+                ? "bg-blue-600 border-blue-600 text-white"
+                : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"}`}
+            >
+              {c}
+            </button>
+          )
+        })}
+      </div>
+      <label className="flex items-center gap-2">
+        <span className="text-gray-600 dark:text-gray-400">Manifests:</span>
+        <input
+          type="text"
+          list="rollout-manifests"
+          value={manifestText}
+          onChange={e => setManifestText(e.target.value)}
+          onBlur={applyManifests}
+          onKeyDown={e => e.key === "Enter" && applyManifests()}
+          placeholder="e.g. Assigned/Staff, Shared/Lab"
+          className={`w-72 ${inputClass}`}
+        />
+        <datalist id="rollout-manifests">
+          {manifests.map(m => <option key={m} value={m} />)}
+        </datalist>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import React from "react"
+import type { RolloutCounts, RolloutState } from "../../lib/installs/rollout"
+
+export const ROLLOUT_STATE_LABELS: Record<RolloutState, string> = {
+  updated: "On new version",
+  pending: "Pending",
+  error: "Erroring",
+}
+
+export const ROLLOUT_STATE_COLORS: Record<RolloutState, string> = {
+  updated: "bg-emerald-500",
+  pending: "bg-amber-400",
+  error: "bg-red-500",
+}
+
+const percent = (n: number, total: number) => (total ? Math.round((n / total) * 100) : 0)
+
+/** Stacked bar of a rollout's devices by state, with the updated percentage. */
+export function RolloutProgressBar({ counts, className = "" }: { counts: RolloutCounts; className?: string }) {
+  const states: RolloutState[] = ["updated", "pending", "error"]
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <div
+        className="flex-1 h-2.5 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700 flex"
+        title={states.map(s => `${ROLLOUT_STATE_LABELS[s]}: ${counts[s]}`).join(", ")}
+      >
+        {states.map(s => counts[s] > 0 && (
+          <div key={s} className={ROLLOUT_STATE_COLORS[s]} style={{ width: `${(counts[s] / counts.total) * 100}%` }} />
+        ))}
+      </div>
+      <span className="text-xs font-semibold text-gray-700 dark:text-gray-300 w-10 text-right">{percent(counts.updated, counts.total)}%</span>
+    </div>
+  )
+}
+
+export function RolloutLegend() {
+  return (
+    <div className="flex flex-wrap gap-3 text-[11px] text-gray-600 dark:text-gray-400">
+      {(Object.keys(ROLLOUT_STATE_LABELS) as RolloutState[]).map(s => (
+        <span key={s} className="inline-flex items-center gap-1">
+          <span className={`w-2.5 h-2.5 rounded-sm ${ROLLOUT_STATE_COLORS[s]}`} />
+          {ROLLOUT_STATE_LABELS[s]}
+        </span>
+      ))}
+    </div>
+  )
+}
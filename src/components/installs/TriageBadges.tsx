@@ -0,0 +1,46 @@
+"use client"
+
+import React from "react"
+import type { ErrorCategory } from "../../lib/data-processing/modules/installs"
+import { ERROR_CATEGORY_LABELS, TRIAGE_STATUS_LABELS, TriageStatus } from "../../lib/installs/triage"
+
+const STATUS_CLASSES: Record<TriageStatus, string> = {
+  new: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
+  acknowledged: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200",
+  investigating: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200",
+  fixed: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200",
+}
+
+/** Triage status pill; "fixed" shows the catalog the fix went to. */
+export function TriageStatusBadge({ status, fixedInCatalog }: { status: TriageStatus; fixedInCatalog?: string }) {
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded text-[10px] font-semibold uppercase whitespace-nowrap ${STATUS_CLASSES[status]}`}>
+      {TRIAGE_STATUS_LABELS[status]}{status === "fixed" && fixedInCatalog ? ` in ${fixedInCatalog}` : ""}
+    </span>
+  )
+}
+
+export function RegressionBadge({ newlyFailing }: { newlyFailing: number }) {
+  return (
+    <span
+      className="inline-block px-2 py-0.5 rounded text-[10px] font-semibold uppercase whitespace-nowrap bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200"
+      title={`${newlyFailing} devices were installing this fine within the last day`}
+    >
+      Regression
+    </span>
+  )
+}
+
+/** Error categories with device counts, largest first. */
+export function CategoryChips({ categories }: { categories: Partial<Record<ErrorCategory, number>> }) {
+  const entries = (Object.entries(categories) as [ErrorCategory, number][]).sort((a, b) => b[1] - a[1])
+  return (
+    <div className="flex flex-wrap gap-1">
+      {entries.map(([category, n]) => (
+        <span key={category} className="px-1.5 py-0.5 rounded text-[11px] bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 whitespace-nowrap">
+          {ERROR_CATEGORY_LABELS[category]} · {n}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import Link from "next/link"
 import Image from "next/image"
 import { usePathname } from "next/navigation"
 import { DevicePageNavigation } from "./DevicePageNavigation"
+import { PinnedViews, SavedViewsMenu } from "./SavedViewsMenu"
 import { DeviceSearchField } from "../search/DeviceSearchField"
 import { SearchModal } from "../search/SearchModal"
 import { PlatformToggle } from "../ui/PlatformToggle"
@@ -108,10 +109,13 @@ export function AppToolbar({ preloadedDevices = [] }: AppToolbarProps) {
             
             {/* Actions (right side) */}
             <div className="flex items-center gap-2">
+              {/* Saved views need a signed-in user and the view store */}
+              {!isDemoMode && <PinnedViews className="hidden xl:flex" />}
               <DevicePageNavigation 
                 className="flex items-center gap-2" 
                 currentPage={getCurrentPage()} 
               />
+              {!isDemoMode && <SavedViewsMenu />}
               {!isDemoMode && (
                 <Link 
                   href="/settings" 
@@ -0,0 +1,260 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { usePathname, useRouter } from "next/navigation"
+import { useHasRole } from "../../../hooks/useAuth"
+import { ADMIN_ROLE } from "../../../lib/auth-roles"
+import { useSavedViews } from "../../hooks/useSavedViews"
+import {
+  canEditView,
+  defaultViewFor,
+  MAX_PINNED_VIEWS,
+  MAX_VIEW_NAME_LENGTH,
+  normalizeViewQuery,
+  SavedView,
+  viewHref,
+} from "../../lib/views/views"
+
+const buttonClass =
+  "flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+
+/**
+ * Opens a view. List pages read their filters from the URL once on mount, so
+ * a view of the page already open needs a full load rather than a client-side
+ * query change.
+ */
+function useOpenView() {
+  const pathname = usePathname()
+  const router = useRouter()
+  return (view: SavedView) => {
+    if (view.path === pathname) window.location.assign(viewHref(view))
+    else router.push(viewHref(view))
+  }
+}
+
+/** The user's pinned views as toolbar links, on wide screens. */
+export function PinnedViews({ className = "" }: { className?: string }) {
+  const { views, preferences } = useSavedViews()
+  const pathname = usePathname()
+  const openView = useOpenView()
+  const pinned = preferences.pinned
+    .map((id) => views.find((v) => v.id === id))
+    .filter((v): v is SavedView => Boolean(v))
+
+  if (pinned.length === 0) return null
+
+  return (
+    <div className={`items-center gap-1 ${className}`}>
+      {pinned.map((view) => (
+        <Link
+          key={view.id}
+          href={viewHref(view)}
+          onClick={(e) => {
+            if (view.path !== pathname || e.metaKey || e.ctrlKey) return
+            e.preventDefault()
+            openView(view)
+          }}
+          title={`${view.name} (${view.path})`}
+          className="max-w-[10rem] truncate px-2 py-1 rounded-md text-xs font-medium text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100"
+        >
+          {view.name}
+        </Link>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Saved views for the current page: open, save the current filters as a new
+ * view, pin to the toolbar, make one the page default, share with the team.
+ * Also applies the page default when a page is opened without a query string.
+ */
+export function SavedViewsMenu() {
+  const pathname = usePathname()
+  const { views, preferences, user, isLoading, error, create, update, remove, setPreferences } = useSavedViews()
+  const isAdmin = useHasRole(ADMIN_ROLE)
+  const openView = useOpenView()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [shared, setShared] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+  const appliedDefaultFor = useRef<string | null>(null)
+
+  const pageViews = views.filter((v) => v.path === pathname)
+  const pageDefault = defaultViewFor(views, preferences, pathname)
+
+  // A bare URL means "no filters chosen yet"; open the user's default view
+  // instead. Once per visit to a page, so clearing the filters sticks.
+  useEffect(() => {
+    if (isLoading || appliedDefaultFor.current === pathname) return
+    appliedDefaultFor.current = pathname
+    if (pageDefault && !window.location.search && pageDefault.query) {
+      window.location.replace(viewHref(pageDefault))
+    }
+  }, [isLoading, pathname, pageDefault])
+
+  useEffect(() => {
+    if (!open) return
+    const onClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener("mousedown", onClick)
+    return () => document.removeEventListener("mousedown", onClick)
+  }, [open])
+
+  async function run(action: () => Promise<unknown>, done?: string) {
+    setBusy(true)
+    setMessage(null)
+    try {
+      await action()
+      if (done) setMessage(done)
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Something went wrong")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const currentQuery = () => normalizeViewQuery(window.location.search)
+
+  function saveCurrent(e: React.FormEvent) {
+    e.preventDefault()
+    if (!name.trim()) return
+    run(async () => {
+      await create({ name: name.trim(), path: pathname, query: currentQuery(), shared })
+      setName("")
+      setShared(false)
+    }, "View saved")
+  }
+
+  function togglePin(view: SavedView) {
+    const isPinned = preferences.pinned.includes(view.id)
+    if (!isPinned && preferences.pinned.length >= MAX_PINNED_VIEWS) {
+      setMessage(`At most ${MAX_PINNED_VIEWS} views can be pinned`)
+      return
+    }
+    run(() =>
+      setPreferences({
+        ...preferences,
+        pinned: isPinned ? preferences.pinned.filter((id) => id !== view.id) : [...preferences.pinned, view.id],
+      })
+    )
+  }
+
+  function toggleDefault(view: SavedView) {
+    const defaults = { ...preferences.defaults }
+    if (defaults[pathname] === view.id) delete defaults[pathname]
+    else defaults[pathname] = view.id
+    run(() => setPreferences({ ...preferences, defaults }))
+  }
+
+  const current = typeof window === "undefined" ? "" : currentQuery()
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button onClick={() => setOpen((o) => !o)} className={buttonClass} aria-expanded={open} aria-haspopup="menu">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+        </svg>
+        <span className="text-sm font-medium">Views</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-[200]">
+          <div className="px-4 pt-3 pb-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Views of {pathname}
+          </div>
+          {error ? (
+            <p className="px-4 pb-3 text-sm text-red-600 dark:text-red-400">Couldn&apos;t load saved views.</p>
+          ) : isLoading ? (
+            <p className="px-4 pb-3 text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+          ) : pageViews.length === 0 ? (
+            <p className="px-4 pb-3 text-sm text-gray-400 dark:text-gray-500 italic">No saved views for this page yet.</p>
+          ) : (
+            <ul className="max-h-72 overflow-y-auto pb-1">
+              {pageViews.map((view) => {
+                const editable = canEditView(view, user, isAdmin)
+                const isPinned = preferences.pinned.includes(view.id)
+                const isDefault = pageDefault?.id === view.id
+                return (
+                  <li key={view.id} className="flex items-center gap-1 px-2 hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <button
+                      onClick={() => openView(view)}
+                      className={`flex-1 min-w-0 text-left px-2 py-2 text-sm truncate ${view.query === current ? "font-semibold text-gray-900 dark:text-white" : "text-gray-700 dark:text-gray-300"}`}
+                      title={view.query ? `?${decodeURIComponent(view.query)}` : "No filters"}
+                    >
+                      {view.name}
+                      {view.shared && (
+                        <span className="ml-2 text-xs font-normal text-gray-400 dark:text-gray-500">
+                          {view.owner === user ? "shared" : view.owner}
+                        </span>
+                      )}
+                    </button>
+                    <button onClick={() => toggleDefault(view)} disabled={busy} title={isDefault ? "Stop opening this view by default" : "Open this view by default"}
+                      className={`p-1 text-xs rounded ${isDefault ? "text-amber-500" : "text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"}`}>
+                      {isDefault ? "★" : "☆"}
+                    </button>
+                    <button onClick={() => togglePin(view)} disabled={busy} title={isPinned ? "Unpin from toolbar" : "Pin to toolbar"}
+                      className={`px-1 text-xs rounded ${isPinned ? "text-blue-600 dark:text-blue-400" : "text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"}`}>
+                      {isPinned ? "Pinned" : "Pin"}
+                    </button>
+                    {editable && (
+                      <>
+                        <button onClick={() => run(() => update(view.id, { query: current }), `Updated "${view.name}"`)} disabled={busy || view.query === current}
+                          title="Replace this view's filters with the current ones"
+                          className="px-1 text-xs text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-40">
+                          Update
+                        </button>
+                        <button onClick={() => run(() => update(view.id, { shared: !view.shared }))} disabled={busy}
+                          title={view.shared ? "Make this view personal" : "Share this view with the team"}
+                          className="px-1 text-xs text-gray-400 hover:text-gray-700 dark:hover:text-gray-200">
+                          {view.shared ? "Unshare" : "Share"}
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (window.confirm(`Delete the view "${view.name}"${view.shared ? " for everyone" : ""}?`)) run(() => remove(view.id))
+                          }}
+                          disabled={busy}
+                          title="Delete view"
+                          className="px-1 text-xs text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                        >
+                          ✕
+                        </button>
+                      </>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+
+          <form onSubmit={saveCurrent} className="border-t border-gray-200 dark:border-gray-700 p-3 space-y-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Save current filters as..."
+              maxLength={MAX_VIEW_NAME_LENGTH}
+              className="w-full px-2 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+            />
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+                Share with the team
+              </label>
+              <button type="submit" disabled={busy || !name.trim()}
+                className="px-3 py-1 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+                Save
+              </button>
+            </div>
+            {message && <p className="text-xs text-gray-500 dark:text-gray-400">{message}</p>}
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SavedViewsMenu
@@ -0,0 +1,405 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { useSettings } from "../../providers/SettingsProvider"
+import { DEFAULT_ALERT_SETTINGS } from "../../lib/settings/defaults"
+import { ALERT_RULE_DEFAULTS } from "../../lib/alerts/engine"
+import { SIMULATED_CHECKS } from "../../lib/rules/simulate"
+import {
+  AlertChannel,
+  AlertChannelType,
+  AlertRule,
+  AlertRuleKind,
+  AlertSettings,
+  SettingsDocument,
+} from "../../lib/settings/types"
+import { errorsUnder, SettingsValidationError, validateSettingsDocument } from "../../lib/settings/validate"
+import { RuleConditionEditor, pruneCondition } from "./RuleConditionEditor"
+import { ValidationErrors } from "./ValidationErrors"
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+const secondaryButtonClass =
+  "px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+
+const KIND_LABELS: Record<AlertRuleKind, string> = {
+  eventBurst: "Package event burst",
+  deviceStatus: "Device status",
+  securityCheck: "Security check",
+  ingestFailures: "Rejected check-ins",
+  clientVersion: "Client below minimum",
+}
+
+/** Kinds that watch devices, and so take a `when` condition. */
+const DEVICE_RULE_KINDS: AlertRuleKind[] = ["deviceStatus", "securityCheck", "clientVersion"]
+
+const CHANNEL_LABELS: Record<AlertChannelType, string> = {
+  webhook: "Webhook (JSON)",
+  slack: "Slack",
+  teams: "Microsoft Teams",
+  email: "Email",
+}
+
+function NumberInput({ value, placeholder, onChange }: { value?: number; placeholder: number; onChange: (v: number | undefined) => void }) {
+  return (
+    <input type="number" min={0} value={value ?? ""} placeholder={String(placeholder)}
+      onChange={(e) => onChange(Number.isFinite(e.target.valueAsNumber) ? e.target.valueAsNumber : undefined)}
+      className={`w-20 ${inputClass}`} />
+  )
+}
+
+let seq = 0
+const nextId = (prefix: string) => `${prefix}-${Date.now()}-${++seq}`
+
+/** The settings a rule kind reads, inline with the rule. */
+function RuleParams({ rule, onChange }: { rule: AlertRule; onChange: (patch: Partial<AlertRule>) => void }) {
+  const withinWindow = (
+    <>
+      within
+      <NumberInput value={rule.windowMinutes} placeholder={ALERT_RULE_DEFAULTS.windowMinutes} onChange={(windowMinutes) => onChange({ windowMinutes })} />
+      minutes
+    </>
+  )
+  if (rule.kind === "eventBurst") {
+    return (
+      <>
+        <NumberInput value={rule.threshold} placeholder={ALERT_RULE_DEFAULTS.eventBurstThreshold} onChange={(threshold) => onChange({ threshold })} />
+        or more devices report
+        <select value={rule.eventKind ?? ALERT_RULE_DEFAULTS.eventKind} onChange={(e) => onChange({ eventKind: e.target.value })} className={inputClass}>
+          {["error", "warning"].map((k) => <option key={k} value={k}>{k}</option>)}
+        </select>
+        for the same package {withinWindow}
+      </>
+    )
+  }
+  if (rule.kind === "ingestFailures") {
+    return (
+      <>
+        <NumberInput value={rule.threshold} placeholder={ALERT_RULE_DEFAULTS.ingestFailureThreshold} onChange={(threshold) => onChange({ threshold })} />
+        or more check-ins rejected {withinWindow}
+      </>
+    )
+  }
+  if (rule.kind === "deviceStatus") {
+    return (
+      <>
+        a device is
+        <select value={rule.status ?? ALERT_RULE_DEFAULTS.status} onChange={(e) => onChange({ status: e.target.value as AlertRule["status"] })} className={inputClass}>
+          <option value="missing">missing</option>
+          <option value="stale">stale or missing</option>
+        </select>
+        per the device status thresholds
+      </>
+    )
+  }
+  if (rule.kind === "clientVersion") {
+    return <>a device&apos;s Cimian or Munki client is older than the minimum set under Client Versions</>
+  }
+  const checks = rule.checks ?? []
+  return (
+    <>
+      a check is rated
+      <select value={rule.checkSeverity ?? ALERT_RULE_DEFAULTS.checkSeverity} onChange={(e) => onChange({ checkSeverity: e.target.value as AlertRule["checkSeverity"] })} className={inputClass}>
+        <option value="danger">danger</option>
+        <option value="warning">warning or danger</option>
+      </select>
+      by the security rules:
+      {SIMULATED_CHECKS.map((check) => (
+        <label key={check} className="flex items-center gap-1">
+          <input type="checkbox" checked={checks.includes(check)}
+            onChange={(e) => onChange({ checks: e.target.checked ? [...checks, check] : checks.filter((c) => c !== check) })}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+          {check}
+        </label>
+      ))}
+      {checks.length === 0 && <span className="text-gray-400 dark:text-gray-500">(all)</span>}
+    </>
+  )
+}
+
+function ChannelRow({ channel, cleaned, errors, prefix, onChange, onRemove }: {
+  channel: AlertChannel
+  /** The channel as it would be saved; what the test sends through. */
+  cleaned: AlertChannel
+  errors: SettingsValidationError[]
+  prefix: string
+  onChange: (patch: Partial<AlertChannel>) => void
+  onRemove: () => void
+}) {
+  const [test, setTest] = useState<{ type: "idle" | "sending" | "ok" | "error"; message?: string }>({ type: "idle" })
+  const viaEnv = channel.urlEnv !== undefined
+
+  async function sendTest() {
+    setTest({ type: "sending" })
+    try {
+      const res = await fetch("/api/alerts/channels/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel: cleaned }),
+      })
+      const data = await res.json()
+      if (res.ok) setTest({ type: "ok", message: "Test alert sent" })
+      else setTest({ type: "error", message: data.error === "Invalid channel" ? "Fix the channel first" : data.error || data.details || "Test failed" })
+    } catch (err) {
+      setTest({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
+  }
+
+  return (
+    <div className={`border rounded-md p-3 space-y-3 ${errors.length ? "border-red-300 dark:border-red-700" : "border-gray-200 dark:border-gray-700"}`}>
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={channel.enabled !== false} onChange={(e) => onChange({ enabled: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+          On
+        </label>
+        <input type="text" value={channel.label ?? ""} placeholder="Name (e.g. IT on-call)"
+          onChange={(e) => onChange({ label: e.target.value })} className={inputClass} />
+        <select value={channel.type} className={inputClass}
+          onChange={(e) => {
+            const type = e.target.value as AlertChannelType
+            onChange(type === "email"
+              ? { type, url: undefined, urlEnv: undefined, headers: undefined, to: channel.to ?? [] }
+              : { type, to: undefined, url: channel.url ?? (viaEnv ? undefined : ""), urlEnv: channel.urlEnv })
+          }}>
+          {(Object.keys(CHANNEL_LABELS) as AlertChannelType[]).map((t) => <option key={t} value={t}>{CHANNEL_LABELS[t]}</option>)}
+        </select>
+        <button onClick={sendTest} disabled={test.type === "sending"} className={secondaryButtonClass}>
+          {test.type === "sending" ? "Sending..." : "Send test"}
+        </button>
+        {test.type === "ok" && <span className="text-green-600 dark:text-green-400">{test.message}</span>}
+        {test.type === "error" && <span className="text-red-600 dark:text-red-400">{test.message}</span>}
+        <button onClick={onRemove} className="ml-auto text-sm text-red-600 hover:text-red-800 dark:text-red-400">Remove</button>
+      </div>
+
+      {channel.type === "email" ? (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          To
+          <input type="text" value={(channel.to ?? []).join(", ")} placeholder="it-alerts@example.com, ..."
+            onChange={(e) => onChange({ to: e.target.value.split(",").map((s) => s.trim()) })}
+            className={`flex-1 min-w-[16rem] ${inputClass}`} />
+          <span className="text-xs text-gray-400 dark:text-gray-500">Sent through the SMTP_* server settings.</span>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <select value={viaEnv ? "env" : "url"} className={inputClass}
+            onChange={(e) => onChange(e.target.value === "env" ? { url: undefined, urlEnv: "" } : { urlEnv: undefined, url: "" })}>
+            <option value="url">URL</option>
+            <option value="env">URL from environment variable</option>
+          </select>
+          {viaEnv ? (
+            <input type="text" value={channel.urlEnv} placeholder="ALERTS_TEAMS_URL"
+              onChange={(e) => onChange({ urlEnv: e.target.value })} className={`w-64 font-mono ${inputClass}`} />
+          ) : (
+            <input type="url" value={channel.url ?? ""} placeholder="https://..."
+              onChange={(e) => onChange({ url: e.target.value })} className={`flex-1 min-w-[16rem] ${inputClass}`} />
+          )}
+          {!viaEnv && (
+            <span className="text-xs text-amber-600 dark:text-amber-400">
+              Visible to every signed-in user; use an environment variable for URLs that carry a token.
+            </span>
+          )}
+        </div>
+      )}
+      <ValidationErrors errors={errors} prefix={prefix} />
+    </div>
+  )
+}
+
+/** Edits `settings.alerts`: what raises an alert and where it's delivered. */
+export function AlertsEditor({ readOnly = false }: { readOnly?: boolean }) {
+  const { settings, inventoryFields, validationErrors, refresh } = useSettings()
+  const [config, setConfig] = useState<AlertSettings>(() => structuredClone(settings.alerts ?? DEFAULT_ALERT_SETTINGS))
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string; errors?: SettingsValidationError[] }>({ type: "idle" })
+
+  const edit = (update: (c: AlertSettings) => AlertSettings) => {
+    setConfig(update)
+    setStatus({ type: "idle" })
+  }
+  const updateRule = (id: string, patch: Partial<AlertRule>) =>
+    edit((c) => ({ ...c, rules: c.rules.map((r) => (r.id === id ? { ...r, ...patch } : r)) }))
+  const updateChannel = (id: string, patch: Partial<AlertChannel>) =>
+    edit((c) => ({ ...c, channels: c.channels.map((ch) => (ch.id === id ? { ...ch, ...patch } : ch)) }))
+
+  const addRule = () =>
+    edit((c) => ({
+      ...c,
+      rules: [...c.rules, { id: nextId("alert"), label: "", enabled: true, kind: "deviceStatus", severity: "warning", channels: c.channels.map((ch) => ch.id) }],
+    }))
+  const addChannel = () =>
+    edit((c) => ({ ...c, channels: [...c.channels, { id: nextId("channel"), label: "", type: "teams", enabled: true, urlEnv: "" }] }))
+  const removeChannel = (id: string) =>
+    edit((c) => ({
+      rules: c.rules.map((r) => ({ ...r, channels: r.channels.filter((ch) => ch !== id) })),
+      channels: c.channels.filter((ch) => ch.id !== id),
+    }))
+
+  const draft = useMemo<AlertSettings>(() => ({
+    rules: config.rules.map((r) => ({
+      ...r,
+      label: r.label?.trim() || undefined,
+      checks: r.checks?.length ? r.checks : undefined,
+      when: DEVICE_RULE_KINDS.includes(r.kind) ? pruneCondition(r.when) : undefined,
+    })),
+    channels: config.channels.map((c) => ({
+      ...c,
+      label: c.label?.trim() || undefined,
+      url: c.url?.trim(),
+      urlEnv: c.urlEnv?.trim(),
+      to: c.to?.filter((t) => t !== ""),
+    })),
+  }), [config])
+  const errors = useMemo(() => validateSettingsDocument({ ...settings, alerts: draft }), [settings, draft])
+  // Problems with the stored alerts the draft no longer reproduces, i.e.
+  // entries dropped when settings were loaded.
+  const storedErrors = errorsUnder(validationErrors, "alerts").filter(
+    (e) => !errors.some((d) => d.path === e.path && d.message === e.message)
+  )
+
+  async function save() {
+    if (errors.length) {
+      setStatus({ type: "error", message: "Fix the alert settings marked below before saving" })
+      return
+    }
+    setStatus({ type: "saving" })
+    const doc: SettingsDocument = { ...settings, alerts: draft }
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(doc),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setStatus({ type: "error", message: data.error || data.detail || "Save failed", errors: data.errors })
+        return
+      }
+      setStatus({ type: "saved", message: "Alert settings saved" })
+      await refresh()
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
+  }
+
+  return (
+    <fieldset disabled={readOnly} className="space-y-8 min-w-0 border-0 m-0 p-0">
+      {readOnly && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          Read-only preview. Sign in as an administrator on a non-demo instance to edit.
+        </p>
+      )}
+      {storedErrors.length > 0 && (
+        <div className="p-3 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            Some stored alert rules or channels were invalid and are being ignored. Saving replaces them.
+          </p>
+          <ValidationErrors errors={storedErrors} />
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Channels</h3>
+          <button onClick={addChannel} className={secondaryButtonClass}>+ Add channel</button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Where alerts are sent. Each evaluation sends a channel one message with every alert that&apos;s due.
+        </p>
+        {config.channels.length === 0 && (
+          <p className="text-sm text-gray-400 dark:text-gray-500 italic">No channels. Alerts are only listed below.</p>
+        )}
+        <div className="space-y-3">
+          {config.channels.map((c, i) => (
+            <ChannelRow key={c.id} channel={c} cleaned={draft.channels[i]} errors={errorsUnder(errors, `alerts.channels[${i}]`)}
+              prefix={`alerts.channels[${i}]`} onChange={(patch) => updateChannel(c.id, patch)} onRemove={() => removeChannel(c.id)} />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Rules</h3>
+          <button onClick={addRule} className={secondaryButtonClass}>+ Add rule</button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Each rule raises one alert per package, device or check while its condition holds, notifies once, and
+          resolves on its own when the condition clears. Acknowledged alerts stop re-notifying.
+        </p>
+        {config.rules.length === 0 && (
+          <p className="text-sm text-gray-400 dark:text-gray-500 italic">No alert rules.</p>
+        )}
+        <div className="space-y-3">
+          {config.rules.map((r, i) => {
+            const ruleErrors = errorsUnder(errors, `alerts.rules[${i}]`)
+            return (
+              <div key={r.id} className={`border rounded-md p-3 space-y-3 ${ruleErrors.length ? "border-red-300 dark:border-red-700" : "border-gray-200 dark:border-gray-700"}`}>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={r.enabled !== false} onChange={(e) => updateRule(r.id, { enabled: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                    On
+                  </label>
+                  <input type="text" value={r.label ?? ""} placeholder="Name (e.g. Lab machines offline)"
+                    onChange={(e) => updateRule(r.id, { label: e.target.value })} className={inputClass} />
+                  <select value={r.kind} className={inputClass}
+                    onChange={(e) => updateRule(r.id, { kind: e.target.value as AlertRuleKind })}>
+                    {(Object.keys(KIND_LABELS) as AlertRuleKind[]).map((k) => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+                  </select>
+                  <select value={r.severity} className={inputClass}
+                    onChange={(e) => updateRule(r.id, { severity: e.target.value as AlertRule["severity"] })}>
+                    {["info", "warning", "critical"].map((s) => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                  <button onClick={() => edit((c) => ({ ...c, rules: c.rules.filter((x) => x.id !== r.id) }))}
+                    className="ml-auto text-sm text-red-600 hover:text-red-800 dark:text-red-400">Remove</button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  Alert when <RuleParams rule={r} onChange={(patch) => updateRule(r.id, patch)} />
+                </div>
+
+                {DEVICE_RULE_KINDS.includes(r.kind) && (
+                  <div>
+                    <span className="block text-sm text-gray-500 dark:text-gray-400 mb-1">for devices where</span>
+                    <RuleConditionEditor condition={r.when} fields={inventoryFields} onChange={(when) => updateRule(r.id, { when })} />
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  Notify
+                  {config.channels.length === 0 && <span className="text-gray-400 dark:text-gray-500">(add a channel above)</span>}
+                  {config.channels.map((c) => (
+                    <label key={c.id} className="flex items-center gap-1">
+                      <input type="checkbox" checked={r.channels.includes(c.id)}
+                        onChange={(e) => updateRule(r.id, { channels: e.target.checked ? [...r.channels, c.id] : r.channels.filter((id) => id !== c.id) })}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                      {c.label?.trim() || CHANNEL_LABELS[c.type]}
+                    </label>
+                  ))}
+                  <span className="ml-4">again after resolving no sooner than</span>
+                  <NumberInput value={r.throttleMinutes} placeholder={ALERT_RULE_DEFAULTS.throttleMinutes} onChange={(throttleMinutes) => updateRule(r.id, { throttleMinutes })} />
+                  min, repeat every
+                  <NumberInput value={r.repeatMinutes} placeholder={0} onChange={(repeatMinutes) => updateRule(r.id, { repeatMinutes })} />
+                  min until acknowledged (0: never)
+                </div>
+
+                <ValidationErrors errors={ruleErrors} prefix={`alerts.rules[${i}]`} />
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button onClick={save} disabled={status.type === "saving"}
+          className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
+          {status.type === "saving" ? "Saving..." : "Save Alerts"}
+        </button>
+        {status.type === "saved" && <span className="text-sm text-green-600 dark:text-green-400">{status.message}</span>}
+        {status.type === "error" && <span className="text-sm text-red-600 dark:text-red-400">{status.message}</span>}
+      </div>
+      {status.type === "error" && status.errors && <ValidationErrors errors={status.errors} />}
+    </fieldset>
+  )
+}
+
+export default AlertsEditor
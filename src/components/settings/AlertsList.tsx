@@ -0,0 +1,97 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import type { Alert } from "../../lib/alerts/engine"
+import { formatExactTime, formatRelativeTime } from "../../lib/time"
+
+const SEVERITY_CLASSES: Record<Alert["severity"], string> = {
+  info: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  warning: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+  critical: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+}
+
+/** Open and acknowledged alerts, with Acknowledge for admins. Resolved ones
+ * are summarized as a count. */
+export function AlertsList({ readOnly = false }: { readOnly?: boolean }) {
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [acking, setAcking] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/alerts")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `Request failed with status ${res.status}`)
+      setAlerts(Array.isArray(data.alerts) ? data.alerts : [])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load alerts")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  async function acknowledge(id: string) {
+    setAcking(id)
+    try {
+      const res = await fetch(`/api/alerts/${encodeURIComponent(id)}/acknowledge`, { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Acknowledge failed")
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Acknowledge failed")
+    } finally {
+      setAcking(null)
+    }
+  }
+
+  const active = alerts.filter((a) => a.state !== "resolved")
+  const resolved = alerts.length - active.length
+
+  if (loading) return <p className="text-sm text-gray-500 dark:text-gray-400">Loading alerts...</p>
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {active.length === 0 ? (
+        <p className="text-sm text-gray-400 dark:text-gray-500 italic">Nothing is alerting right now.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+          {active.map((a) => (
+            <li key={a.id} className="flex flex-wrap items-start gap-3 p-3 text-sm">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_CLASSES[a.severity]}`}>{a.severity}</span>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-900 dark:text-white">
+                  {a.link ? <Link href={a.link} className="hover:underline">{a.title}</Link> : a.title}
+                </div>
+                <div className="text-gray-500 dark:text-gray-400">{a.message}</div>
+                <div className="text-xs text-gray-400 dark:text-gray-500 mt-1" title={formatExactTime(a.firstSeenAt)}>
+                  Since {formatRelativeTime(a.firstSeenAt)}
+                  {a.state === "acknowledged" && a.acknowledgedAt &&
+                    ` · acknowledged ${formatRelativeTime(a.acknowledgedAt)}${a.acknowledgedBy ? ` by ${a.acknowledgedBy}` : ""}`}
+                </div>
+              </div>
+              {a.state === "open" && !readOnly && (
+                <button onClick={() => acknowledge(a.id)} disabled={acking === a.id}
+                  className="px-3 py-1 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50">
+                  {acking === a.id ? "Acknowledging..." : "Acknowledge"}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {resolved > 0 && (
+        <p className="text-xs text-gray-400 dark:text-gray-500">{resolved} resolved in the last 7 days.</p>
+      )}
+    </div>
+  )
+}
+
+export default AlertsList
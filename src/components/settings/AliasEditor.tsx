@@ -0,0 +1,90 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { suggestAliases } from "../../lib/rules/inventoryMapping"
+import { InventoryFieldMapping } from "../../lib/settings/types"
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+
+/** Edits one inventory field's value aliases ("Labs" -> "Lab") and offers
+ * merges suggested from the values seen across the fleet. */
+export function AliasEditor({ field, sampleValues, onChange }: {
+  field: InventoryFieldMapping
+  /** Observed values for the field, e.g. discovery sample values. */
+  sampleValues: string[]
+  onChange: (aliases: Record<string, string>) => void
+}) {
+  const aliases = useMemo(() => field.aliases ?? {}, [field.aliases])
+  const [variant, setVariant] = useState("")
+  const [target, setTarget] = useState("")
+  const suggestions = useMemo(() => Object.entries(suggestAliases(sampleValues, field)), [sampleValues, field])
+
+  const remove = (key: string) => {
+    const next = { ...aliases }
+    delete next[key]
+    onChange(next)
+  }
+  const add = () => {
+    if (!variant.trim() || !target.trim()) return
+    onChange({ ...aliases, [variant.trim()]: target.trim() })
+    setVariant("")
+    setTarget("")
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {Object.keys(aliases).length === 0 ? (
+        <p className="text-gray-400 dark:text-gray-500 italic">No aliases. Values are used as collected, trimmed.</p>
+      ) : (
+        <ul className="flex flex-wrap gap-2">
+          {Object.entries(aliases).map(([from, to]) => (
+            <li key={from} className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300">
+              <span className="font-mono">{from}</span>
+              <span className="text-gray-400">→</span>
+              <span className="font-mono">{to}</span>
+              <button onClick={() => remove(from)} aria-label={`Remove alias ${from}`}
+                className="ml-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400">×</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input value={variant} onChange={(e) => setVariant(e.target.value)} placeholder="Variant (e.g. Labs)" className={`w-40 ${inputClass}`} />
+        <span className="text-gray-400">→</span>
+        <input value={target} onChange={(e) => setTarget(e.target.value)} placeholder="Value (e.g. Lab)"
+          list={`alias-targets-${field.key}`} className={`w-40 ${inputClass}`} />
+        <datalist id={`alias-targets-${field.key}`}>
+          {(field.knownValues ?? []).map((v) => <option key={v} value={v} />)}
+        </datalist>
+        <button onClick={add} disabled={!variant.trim() || !target.trim()}
+          className="px-3 py-1 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50">
+          Add alias
+        </button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div>
+          <div className="flex items-center gap-3 mb-1">
+            <span className="text-gray-500 dark:text-gray-400">Suggested merges from collected values</span>
+            <button onClick={() => onChange({ ...aliases, ...Object.fromEntries(suggestions) })}
+              className="text-blue-600 hover:text-blue-800 dark:text-blue-400">Accept all</button>
+          </div>
+          <ul className="flex flex-wrap gap-2">
+            {suggestions.map(([from, to]) => (
+              <li key={from}>
+                <button onClick={() => onChange({ ...aliases, [from]: to })}
+                  className="px-2 py-0.5 rounded-full border border-dashed border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/20">
+                  <span className="font-mono">{from}</span> → <span className="font-mono">{to}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AliasEditor
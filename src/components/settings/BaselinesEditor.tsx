@@ -0,0 +1,253 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import Link from "next/link"
+import { useSettings } from "../../providers/SettingsProvider"
+import { DEFAULT_DRIFT_SETTINGS } from "../../lib/settings/defaults"
+import { Baseline, BaselineApplication, DriftSettings, SecurityCheckId, SettingsDocument } from "../../lib/settings/types"
+import { errorsUnder, SettingsValidationError, validateSettingsDocument } from "../../lib/settings/validate"
+import { RuleConditionEditor, pruneCondition } from "./RuleConditionEditor"
+import { ValidationErrors } from "./ValidationErrors"
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+const secondaryButtonClass =
+  "px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+
+const CHECKS: { id: SecurityCheckId; label: string }[] = [
+  { id: "encryption", label: "Disk encryption" },
+  { id: "firewall", label: "Firewall" },
+  { id: "ssh", label: "SSH" },
+  { id: "rdp", label: "RDP" },
+  { id: "sip", label: "SIP" },
+]
+
+/** A baseline as edited: applications and profiles as one-per-line text. */
+type BaselineRow = Baseline & { appsText: string; profilesText: string }
+
+const appsToText = (apps?: BaselineApplication[]) =>
+  (apps ?? []).map((a) => (a.version ? `${a.name} = ${a.version}` : a.name)).join("\n")
+
+/** "Firefox = 121.0" or just "Firefox" for any version. */
+function textToApps(text: string): BaselineApplication[] {
+  return text.split("\n").map((line) => line.trim()).filter(Boolean).map((line) => {
+    const at = line.lastIndexOf("=")
+    if (at < 0) return { name: line }
+    const version = line.slice(at + 1).trim()
+    return { name: line.slice(0, at).trim(), ...(version ? { version } : {}) }
+  })
+}
+
+const textToList = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean)
+
+const toRow = (b: Baseline): BaselineRow => ({ ...b, appsText: appsToText(b.applications), profilesText: (b.profiles ?? []).join("\n") })
+
+let seq = 0
+const nextId = () => `baseline-${Date.now()}-${++seq}`
+
+/** Edits `settings.drift`: the golden-image baselines devices are measured
+ * against, each scoped to a segment and captured from a device or written by hand. */
+export function BaselinesEditor({ readOnly = false }: { readOnly?: boolean }) {
+  const { settings, inventoryFields, validationErrors, refresh } = useSettings()
+  const [rows, setRows] = useState<BaselineRow[]>(() =>
+    structuredClone(settings.drift ?? DEFAULT_DRIFT_SETTINGS).baselines.map(toRow)
+  )
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string; errors?: SettingsValidationError[] }>({ type: "idle" })
+  const [capture, setCapture] = useState<Record<string, { serial: string; busy?: boolean; error?: string }>>({})
+
+  const edit = (update: (rows: BaselineRow[]) => BaselineRow[]) => {
+    setRows(update)
+    setStatus({ type: "idle" })
+  }
+  const updateRow = (id: string, patch: Partial<BaselineRow>) =>
+    edit((rs) => rs.map((r) => (r.id === id ? { ...r, ...patch } : r)))
+  const addRow = () =>
+    edit((rs) => [...rs, toRow({ id: nextId(), label: "", enabled: true, when: { inventory: { catalog: { eq: "Production" } } } })])
+
+  const draft = useMemo<DriftSettings>(() => ({
+    baselines: rows.map(({ appsText, profilesText, ...b }) => {
+      const applications = textToApps(appsText)
+      const profiles = textToList(profilesText)
+      return {
+        ...b,
+        label: b.label?.trim() || undefined,
+        when: pruneCondition(b.when),
+        osBuild: b.osBuild?.trim() || undefined,
+        applications: applications.length ? applications : undefined,
+        profiles: profiles.length ? profiles : undefined,
+        securityChecks: b.securityChecks?.length ? b.securityChecks : undefined,
+      }
+    }),
+  }), [rows])
+  const errors = useMemo(() => validateSettingsDocument({ ...settings, drift: draft }), [settings, draft])
+  const storedErrors = errorsUnder(validationErrors, "drift").filter(
+    (e) => !errors.some((d) => d.path === e.path && d.message === e.message)
+  )
+
+  async function captureFrom(row: BaselineRow) {
+    const serial = capture[row.id]?.serial?.trim()
+    if (!serial) return
+    setCapture((c) => ({ ...c, [row.id]: { serial, busy: true } }))
+    try {
+      const res = await fetch(`/api/device/${encodeURIComponent(serial)}/drift?capture=1&id=${encodeURIComponent(row.id)}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `Request failed with status ${res.status}`)
+      const captured: Baseline = data.baseline
+      updateRow(row.id, {
+        sourceSerial: captured.sourceSerial,
+        osBuild: captured.osBuild,
+        securityChecks: captured.securityChecks,
+        appsText: appsToText(captured.applications),
+        profilesText: (captured.profiles ?? []).join("\n"),
+      })
+      setCapture((c) => ({ ...c, [row.id]: { serial } }))
+    } catch (err) {
+      setCapture((c) => ({ ...c, [row.id]: { serial, error: err instanceof Error ? err.message : "Capture failed" } }))
+    }
+  }
+
+  async function save() {
+    if (errors.length) {
+      setStatus({ type: "error", message: "Fix the baselines marked below before saving" })
+      return
+    }
+    setStatus({ type: "saving" })
+    const doc: SettingsDocument = { ...settings, drift: draft }
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(doc),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setStatus({ type: "error", message: data.error || data.detail || "Save failed", errors: data.errors })
+        return
+      }
+      setStatus({ type: "saved", message: "Baselines saved" })
+      await refresh()
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
+  }
+
+  return (
+    <fieldset disabled={readOnly} className="space-y-6 min-w-0 border-0 m-0 p-0">
+      {readOnly && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          Read-only preview. Sign in as an administrator on a non-demo instance to edit.
+        </p>
+      )}
+      {storedErrors.length > 0 && (
+        <div className="p-3 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            Some stored baselines were invalid and are being ignored. Saving replaces them.
+          </p>
+          <ValidationErrors errors={storedErrors} />
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            What a segment&apos;s devices should look like: OS build, applications (one per line, &quot;Name = version&quot;
+            or just the name for any version), configuration profiles and security checks that must rate ok. Each device
+            is measured against the most specific baseline that matches it; see the{" "}
+            <Link href="/devices/drift" className="text-blue-600 dark:text-blue-400 hover:underline">Drift report</Link>.
+          </p>
+          <button onClick={addRow} className={`ml-4 shrink-0 ${secondaryButtonClass}`}>+ Add baseline</button>
+        </div>
+        {rows.length === 0 && (
+          <p className="text-sm text-gray-400 dark:text-gray-500 italic">No baselines; drift isn&apos;t measured.</p>
+        )}
+        <div className="space-y-3">
+          {rows.map((r, i) => {
+            const rowErrors = errorsUnder(errors, `drift.baselines[${i}]`)
+            const cap = capture[r.id]
+            return (
+              <div key={r.id} className={`border rounded-md p-3 space-y-3 ${rowErrors.length ? "border-red-300 dark:border-red-700" : "border-gray-200 dark:border-gray-700"}`}>
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                    <input type="checkbox" checked={r.enabled !== false} onChange={(e) => updateRow(r.id, { enabled: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                    On
+                  </label>
+                  <input type="text" value={r.label ?? ""} placeholder="Name (e.g. Production workstation)"
+                    onChange={(e) => updateRow(r.id, { label: e.target.value })} className={inputClass} />
+                  <input type="text" value={r.osBuild ?? ""} placeholder="OS build (e.g. 26100.2605)"
+                    onChange={(e) => updateRow(r.id, { osBuild: e.target.value })} className={`w-48 font-mono ${inputClass}`} />
+                  <button onClick={() => edit((rs) => rs.filter((x) => x.id !== r.id))}
+                    className="ml-auto text-sm text-red-600 hover:text-red-800 dark:text-red-400">Remove</button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="text" value={cap?.serial ?? ""} placeholder="Serial number"
+                    onChange={(e) => setCapture((c) => ({ ...c, [r.id]: { serial: e.target.value } }))}
+                    className={`w-48 font-mono ${inputClass}`} />
+                  <button onClick={() => captureFrom(r)} disabled={!cap?.serial?.trim() || cap?.busy} className={secondaryButtonClass}>
+                    {cap?.busy ? "Capturing..." : "Capture from device"}
+                  </button>
+                  {r.sourceSerial && !cap?.error && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Captured from {r.sourceSerial}</span>
+                  )}
+                  {cap?.error && <span className="text-xs text-red-600 dark:text-red-400">{cap.error}</span>}
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-3">
+                  <label className="block text-sm text-gray-500 dark:text-gray-400">
+                    Applications
+                    <textarea value={r.appsText} rows={5} placeholder={"Google Chrome = 131.0.6778.86\nMicrosoft Teams"}
+                      onChange={(e) => updateRow(r.id, { appsText: e.target.value })}
+                      className={`mt-1 block w-full font-mono ${inputClass}`} />
+                  </label>
+                  <label className="block text-sm text-gray-500 dark:text-gray-400">
+                    Configuration profiles
+                    <textarea value={r.profilesText} rows={5} placeholder={"Wi-Fi\nFileVault Escrow"}
+                      onChange={(e) => updateRow(r.id, { profilesText: e.target.value })}
+                      className={`mt-1 block w-full font-mono ${inputClass}`} />
+                  </label>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+                  <span className="text-gray-500 dark:text-gray-400">Security checks rate ok:</span>
+                  {CHECKS.map(({ id, label }) => (
+                    <label key={id} className="flex items-center gap-1">
+                      <input type="checkbox" checked={r.securityChecks?.includes(id) ?? false}
+                        onChange={(e) => updateRow(r.id, {
+                          securityChecks: e.target.checked
+                            ? [...(r.securityChecks ?? []), id]
+                            : (r.securityChecks ?? []).filter((c) => c !== id),
+                        })}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+
+                <div>
+                  <span className="block text-sm text-gray-500 dark:text-gray-400 mb-1">when</span>
+                  <RuleConditionEditor condition={r.when} fields={inventoryFields}
+                    onChange={(when) => updateRow(r.id, { when })} />
+                </div>
+
+                <ValidationErrors errors={rowErrors} prefix={`drift.baselines[${i}]`} />
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button onClick={save} disabled={status.type === "saving"}
+          className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
+          {status.type === "saving" ? "Saving..." : "Save Baselines"}
+        </button>
+        {status.type === "saved" && <span className="text-sm text-green-600 dark:text-green-400">{status.message}</span>}
+        {status.type === "error" && <span className="text-sm text-red-600 dark:text-red-400">{status.message}</span>}
+      </div>
+      {status.type === "error" && status.errors && <ValidationErrors errors={status.errors} />}
+    </fieldset>
+  )
+}
+
+export default BaselinesEditor
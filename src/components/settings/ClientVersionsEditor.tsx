@@ -0,0 +1,133 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import Link from "next/link"
+import { useSettings } from "../../providers/SettingsProvider"
+import { useInstallsFilterOptions } from "../../hooks/useInstallsData"
+import { normalizeCimianVersion } from "../../lib/data-processing/cimian-version"
+import { CLIENT_LABELS, collectClientVersions } from "../../lib/installs/client-versions"
+import { DEFAULT_CLIENT_VERSION_SETTINGS } from "../../lib/settings/defaults"
+import { ClientVersionSettings, SettingsDocument } from "../../lib/settings/types"
+import { errorsUnder, SettingsValidationError, validateSettingsDocument } from "../../lib/settings/validate"
+import { ValidationErrors } from "./ValidationErrors"
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+
+/** Edits `settings.clientVersions`: the oldest Cimian and Munki builds the org
+ * accepts, with how many devices each floor would put below it. */
+export function ClientVersionsEditor({ readOnly = false }: { readOnly?: boolean }) {
+  const { settings, validationErrors, refresh } = useSettings()
+  const { devices } = useInstallsFilterOptions()
+  const [config, setConfig] = useState<ClientVersionSettings>(() => ({
+    ...(settings.clientVersions ?? DEFAULT_CLIENT_VERSION_SETTINGS),
+  }))
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string; errors?: SettingsValidationError[] }>({ type: "idle" })
+
+  const edit = (patch: ClientVersionSettings) => {
+    setConfig((c) => ({ ...c, ...patch }))
+    setStatus({ type: "idle" })
+  }
+
+  const draft = useMemo<ClientVersionSettings>(() => ({
+    ...(config.minimumCimian?.trim() ? { minimumCimian: config.minimumCimian.trim() } : {}),
+    ...(config.minimumMunki?.trim() ? { minimumMunki: config.minimumMunki.trim() } : {}),
+  }), [config])
+  const errors = useMemo(() => validateSettingsDocument({ ...settings, clientVersions: draft }), [settings, draft])
+  const storedErrors = errorsUnder(validationErrors, "clientVersions").filter(
+    (e) => !errors.some((d) => d.path === e.path && d.message === e.message)
+  )
+  const report = useMemo(() => (errors.length ? null : collectClientVersions(devices, draft)), [devices, draft, errors])
+  const canonicalCimian = normalizeCimianVersion(draft.minimumCimian)?.canonical
+
+  async function save() {
+    if (errors.length) {
+      setStatus({ type: "error", message: "Fix the versions marked below before saving" })
+      return
+    }
+    setStatus({ type: "saving" })
+    const doc: SettingsDocument = { ...settings, clientVersions: draft }
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(doc),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setStatus({ type: "error", message: data.error || data.detail || "Save failed", errors: data.errors })
+        return
+      }
+      setStatus({ type: "saved", message: "Minimum versions saved" })
+      await refresh()
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
+  }
+
+  const fields = [
+    { key: "minimumCimian" as const, client: "cimian" as const, placeholder: "2026.07.20.0632" },
+    { key: "minimumMunki" as const, client: "munki" as const, placeholder: "6.6.5" },
+  ]
+
+  return (
+    <fieldset disabled={readOnly} className="space-y-6 min-w-0 border-0 m-0 p-0">
+      {readOnly && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          Read-only preview. Sign in as an administrator on a non-demo instance to edit.
+        </p>
+      )}
+      {storedErrors.length > 0 && (
+        <div className="p-3 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            The stored minimum versions were invalid and are being ignored. Saving replaces them.
+          </p>
+          <ValidationErrors errors={storedErrors} />
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        The oldest client builds your fleet should run. Devices below a minimum are listed on the{" "}
+        <Link href="/installs/clients" className="text-blue-600 dark:text-blue-400 hover:underline">Client Versions</Link>{" "}
+        page, and a &quot;Client below minimum&quot; alert rule can notify you about them. Leave a field empty to not
+        enforce a minimum for that client.
+      </p>
+
+      <div className="space-y-4">
+        {fields.map(({ key, client, placeholder }) => {
+          const summary = report?.clients[client]
+          return (
+            <div key={key} className="space-y-1">
+              <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <span className="w-40 font-medium">Minimum {CLIENT_LABELS[client]}</span>
+                <input value={config[key] ?? ""} placeholder={placeholder} onChange={(e) => edit({ [key]: e.target.value })}
+                  className={`w-48 font-mono ${inputClass}`} />
+                {client === "cimian" && canonicalCimian && canonicalCimian !== draft.minimumCimian && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">reads as {canonicalCimian}</span>
+                )}
+                {summary && summary.devices > 0 && draft[key] && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {summary.belowMinimum} of {summary.devices} devices below; newest seen {summary.newest}
+                  </span>
+                )}
+              </label>
+              <ValidationErrors errors={errorsUnder(errors, `clientVersions.${key}`)} prefix="clientVersions" />
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button onClick={save} disabled={status.type === "saving"}
+          className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
+          {status.type === "saving" ? "Saving..." : "Save Minimum Versions"}
+        </button>
+        {status.type === "saved" && <span className="text-sm text-green-600 dark:text-green-400">{status.message}</span>}
+        {status.type === "error" && <span className="text-sm text-red-600 dark:text-red-400">{status.message}</span>}
+      </div>
+      {status.type === "error" && status.errors && <ValidationErrors errors={status.errors} />}
+    </fieldset>
+  )
+}
+
+export default ClientVersionsEditor
@@ -0,0 +1,191 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import type { DeviceGroup, GroupValidationError } from "../../lib/devices/groups"
+
+const inputClass =
+  "px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+
+/** The device groups and tags assigned in ReportMate: create dynamic groups
+ * from a filter query, rename or delete groups, and see how many devices
+ * carry each tag. Static groups are filled from the devices list or a device
+ * page. */
+export function DeviceGroupsManager({ readOnly = false }: { readOnly?: boolean }) {
+  const [groups, setGroups] = useState<DeviceGroup[] | null>(null)
+  const [tags, setTags] = useState<{ tag: string; devices: number }[]>([])
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [name, setName] = useState("")
+  const [query, setQuery] = useState("")
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "error"; message?: string; errors?: GroupValidationError[] }>({ type: "idle" })
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/devices/groups", { cache: "no-store" })
+      const data = await res.json()
+      if (!res.ok) {
+        setLoadError(data.error || "Failed to load groups")
+        return
+      }
+      setLoadError(null)
+      setGroups(data.groups ?? [])
+      setTags(data.tags ?? [])
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Network error")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    setStatus({ type: "saving" })
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setStatus({ type: "error", message: data.error || "Save failed", errors: data.errors })
+        return false
+      }
+      setStatus({ type: "idle" })
+      await load()
+      return true
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+      return false
+    }
+  }
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await send("/api/devices/groups", "POST", { name, type: "dynamic", query: query.replace(/^\?/, "") })) {
+      setName("")
+      setQuery("")
+    }
+  }
+
+  const rename = (group: DeviceGroup) => {
+    const next = window.prompt("Group name", group.name)
+    if (next?.trim() && next.trim() !== group.name) send(`/api/devices/groups/${encodeURIComponent(group.id)}`, "PATCH", { name: next })
+  }
+
+  const remove = (group: DeviceGroup) => {
+    if (window.confirm(`Delete the group "${group.name}"? Rules and saved filters that name it will stop matching.`)) {
+      send(`/api/devices/groups/${encodeURIComponent(group.id)}`, "DELETE")
+    }
+  }
+
+  if (loadError) return <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+  if (!groups) return <p className="text-sm text-gray-500 dark:text-gray-400">Loading groups...</p>
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Tags and groups live in ReportMate rather than on the device, and can be used in device filters (
+        <code>?tags=</code>, <code>?groups=</code>), security rules and exports. Add devices to static groups from the
+        devices list or a device page; a dynamic group holds whichever devices match its filter query.
+      </p>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No groups yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+              <th className="py-2">Group</th>
+              <th className="py-2">Type</th>
+              <th className="py-2">Members</th>
+              {!readOnly && <th className="py-2" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {groups.map((group) => (
+              <tr key={group.id}>
+                <td className="py-2">
+                  <Link href={`/devices?groups=${encodeURIComponent(group.name)}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                    {group.name}
+                  </Link>
+                </td>
+                <td className="py-2 text-gray-700 dark:text-gray-300">{group.type === "dynamic" ? "Dynamic" : "Static"}</td>
+                <td className="py-2 text-gray-700 dark:text-gray-300">
+                  {group.type === "dynamic" ? <code className="text-xs">{group.query}</code> : `${group.serials.length} devices`}
+                </td>
+                {!readOnly && (
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button onClick={() => rename(group)} className="text-blue-600 dark:text-blue-400 hover:underline mr-3">
+                      Rename
+                    </button>
+                    <button onClick={() => remove(group)} className="text-red-600 dark:text-red-400 hover:underline">
+                      Delete
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {!readOnly && (
+        <form onSubmit={create} className="flex flex-wrap items-end gap-3">
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">New dynamic group</span>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClass} />
+          </label>
+          <label className="flex-1 min-w-[16rem] text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">Filter query</span>
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="usages=Lab&platform=mac"
+              className={`${inputClass} w-full font-mono`}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={status.type === "saving" || !name.trim() || !query.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium disabled:opacity-50"
+          >
+            Create
+          </button>
+        </form>
+      )}
+
+      {status.type === "error" && (
+        <div className="text-sm text-red-600 dark:text-red-400">
+          <p>{status.message}</p>
+          {status.errors?.map((e, i) => (
+            <p key={i}>
+              {e.path ? `${e.path}: ` : ""}
+              {e.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {tags.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Tags</h3>
+          <div className="flex flex-wrap gap-2">
+            {tags.map(({ tag, devices }) => (
+              <Link
+                key={tag}
+                href={`/devices?tags=${encodeURIComponent(tag)}`}
+                className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:underline"
+              >
+                {tag} ({devices})
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DeviceGroupsManager
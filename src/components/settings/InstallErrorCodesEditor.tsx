@@ -0,0 +1,239 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { useSettings } from "../../providers/SettingsProvider"
+import { DEFAULT_INSTALL_ERROR_SETTINGS } from "../../lib/settings/defaults"
+import { builtinInstallErrorCodes, lookupInstallError } from "../../lib/data-processing/install-error-codes"
+import {
+  INSTALL_ERROR_CATEGORIES,
+  InstallErrorCategory,
+  InstallErrorCode,
+  InstallErrorSettings,
+  SettingsDocument,
+} from "../../lib/settings/types"
+import { errorsUnder, SettingsValidationError, validateSettingsDocument } from "../../lib/settings/validate"
+import { ValidationErrors } from "./ValidationErrors"
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+const secondaryButtonClass =
+  "px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+
+const CATEGORY_LABELS: Record<InstallErrorCategory, string> = {
+  architecture: "Architecture",
+  msi_installer: "MSI installer",
+  exe_installer: "EXE installer",
+  chocolatey: "Chocolatey",
+  powershell: "PowerShell",
+  timeout: "Timeout",
+  dependency: "Dependency",
+  system: "System",
+}
+
+let seq = 0
+const nextId = () => `error-${Date.now()}-${++seq}`
+
+/** Edits `settings.installErrors`: the org's own installer error codes and
+ * message patterns, checked in order before the built-in catalog. */
+export function InstallErrorCodesEditor({ readOnly = false }: { readOnly?: boolean }) {
+  const { settings, validationErrors, refresh } = useSettings()
+  const [config, setConfig] = useState<InstallErrorSettings>(() =>
+    structuredClone(settings.installErrors ?? DEFAULT_INSTALL_ERROR_SETTINGS)
+  )
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string; errors?: SettingsValidationError[] }>({ type: "idle" })
+  const [sample, setSample] = useState({ code: "", message: "" })
+  const builtin = useMemo(() => builtinInstallErrorCodes(), [])
+
+  const edit = (update: (c: InstallErrorSettings) => InstallErrorSettings) => {
+    setConfig(update)
+    setStatus({ type: "idle" })
+  }
+  const updateCode = (id: string, patch: Partial<InstallErrorCode>) =>
+    edit((c) => ({ codes: c.codes.map((e) => (e.id === id ? { ...e, ...patch } : e)) }))
+  const move = (index: number, by: number) =>
+    edit((c) => {
+      const codes = [...c.codes]
+      const [entry] = codes.splice(index, 1)
+      codes.splice(index + by, 0, entry)
+      return { codes }
+    })
+  const addCode = () =>
+    edit((c) => ({
+      codes: [...c.codes, { id: nextId(), code: "", pattern: "", description: "", action: "", category: "msi_installer", severity: "error" }],
+    }))
+
+  const draft = useMemo<InstallErrorSettings>(() => ({
+    codes: config.codes.map((e) => ({
+      ...e,
+      code: e.code?.trim() || undefined,
+      pattern: e.pattern || undefined,
+      description: e.description.trim(),
+      action: e.action.trim(),
+    })),
+  }), [config])
+  const errors = useMemo(() => validateSettingsDocument({ ...settings, installErrors: draft }), [settings, draft])
+  const storedErrors = errorsUnder(validationErrors, "installErrors").filter(
+    (e) => !errors.some((d) => d.path === e.path && d.message === e.message)
+  )
+  const match = useMemo(
+    () => (sample.code.trim() || sample.message.trim() ? lookupInstallError({ code: sample.code.trim() || undefined, message: sample.message }, draft.codes) : null),
+    [sample, draft]
+  )
+
+  async function save() {
+    if (errors.length) {
+      setStatus({ type: "error", message: "Fix the error codes marked below before saving" })
+      return
+    }
+    setStatus({ type: "saving" })
+    const doc: SettingsDocument = { ...settings, installErrors: draft }
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(doc),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setStatus({ type: "error", message: data.error || data.detail || "Save failed", errors: data.errors })
+        return
+      }
+      setStatus({ type: "saved", message: "Error codes saved" })
+      await refresh()
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
+  }
+
+  return (
+    <fieldset disabled={readOnly} className="space-y-6 min-w-0 border-0 m-0 p-0">
+      {readOnly && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          Read-only preview. Sign in as an administrator on a non-demo instance to edit.
+        </p>
+      )}
+      {storedErrors.length > 0 && (
+        <div className="p-3 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            Some stored error codes were invalid and are being ignored. Saving replaces them.
+          </p>
+          <ValidationErrors errors={storedErrors} />
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Explain the errors your installers report. An entry matches an install error by its code, or by a regular
+            expression on the message text (case-insensitive). Entries are checked top to bottom, before the built-in
+            table below, so an entry for a built-in code replaces it.
+          </p>
+          <button onClick={addCode} className={`ml-4 shrink-0 ${secondaryButtonClass}`}>+ Add error code</button>
+        </div>
+        {config.codes.length === 0 && (
+          <p className="text-sm text-gray-400 dark:text-gray-500 italic">No custom error codes; only the built-in table applies.</p>
+        )}
+        <div className="space-y-3">
+          {config.codes.map((e, i) => {
+            const entryErrors = errorsUnder(errors, `installErrors.codes[${i}]`)
+            return (
+              <div key={e.id} className={`border rounded-md p-3 space-y-3 ${entryErrors.length ? "border-red-300 dark:border-red-700" : "border-gray-200 dark:border-gray-700"}`}>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="text" value={e.code ?? ""} placeholder="Code (e.g. 1603)"
+                    onChange={(ev) => updateCode(e.id, { code: ev.target.value })} className={`w-40 font-mono ${inputClass}`} />
+                  or
+                  <input type="text" value={e.pattern ?? ""} placeholder="Message pattern (e.g. license server .* unreachable)"
+                    onChange={(ev) => updateCode(e.id, { pattern: ev.target.value })} className={`flex-1 min-w-[16rem] font-mono ${inputClass}`} />
+                  <button onClick={() => move(i, -1)} disabled={i === 0} className="text-gray-500 hover:text-gray-700 disabled:opacity-30" title="Move up">↑</button>
+                  <button onClick={() => move(i, 1)} disabled={i === config.codes.length - 1} className="text-gray-500 hover:text-gray-700 disabled:opacity-30" title="Move down">↓</button>
+                  <button onClick={() => edit((c) => ({ codes: c.codes.filter((x) => x.id !== e.id) }))}
+                    className="text-sm text-red-600 hover:text-red-800 dark:text-red-400">Remove</button>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="text" value={e.description} placeholder="Description (e.g. License server unreachable)"
+                    onChange={(ev) => updateCode(e.id, { description: ev.target.value })} className={`w-72 ${inputClass}`} />
+                  <select value={e.category} className={inputClass}
+                    onChange={(ev) => updateCode(e.id, { category: ev.target.value as InstallErrorCategory })}>
+                    {INSTALL_ERROR_CATEGORIES.map((c) => <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>)}
+                  </select>
+                  <select value={e.severity} className={inputClass}
+                    onChange={(ev) => updateCode(e.id, { severity: ev.target.value as InstallErrorCode["severity"] })}>
+                    <option value="error">Error</option>
+                    <option value="warning">Warning</option>
+                  </select>
+                </div>
+                <input type="text" value={e.action} placeholder="What to do about it"
+                  onChange={(ev) => updateCode(e.id, { action: ev.target.value })} className={`w-full ${inputClass}`} />
+                <ValidationErrors errors={entryErrors} prefix={`installErrors.codes[${i}]`} />
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="border border-gray-200 dark:border-gray-700 rounded-md p-3 space-y-2">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Try an error</p>
+        <div className="flex flex-wrap gap-3">
+          <input type="text" value={sample.code} placeholder="Code"
+            onChange={(ev) => setSample((s) => ({ ...s, code: ev.target.value }))} className={`w-40 font-mono ${inputClass}`} />
+          <input type="text" value={sample.message} placeholder="Paste an error message from a device"
+            onChange={(ev) => setSample((s) => ({ ...s, message: ev.target.value }))} className={`flex-1 min-w-[16rem] ${inputClass}`} />
+        </div>
+        {(sample.code.trim() || sample.message.trim()) && (
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {match ? (
+              <>
+                <span className="font-medium">{match.description}</span>
+                {" · "}{CATEGORY_LABELS[match.category]}{match.severity === "warning" ? " (warning)" : ""}
+                {" · "}{match.action}
+                <span className="text-xs text-gray-400 dark:text-gray-500">
+                  {" "}({match.matchedBy ? `entry ${config.codes.findIndex((c) => c.id === match.matchedBy) + 1}` : "built-in"})
+                </span>
+              </>
+            ) : (
+              <span className="text-gray-400 dark:text-gray-500">No entry matches; the error is categorized from its message.</span>
+            )}
+          </p>
+        )}
+      </div>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-600 dark:text-gray-400">Built-in error codes ({builtin.length})</summary>
+        <div className="mt-2 max-h-96 overflow-auto border border-gray-200 dark:border-gray-700 rounded-md">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-700 dark:text-gray-300 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold">Code</th>
+                <th className="px-3 py-2 text-left font-semibold">Description</th>
+                <th className="px-3 py-2 text-left font-semibold">Category</th>
+                <th className="px-3 py-2 text-left font-semibold">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {builtin.map(([code, info]) => (
+                <tr key={code}>
+                  <td className="px-3 py-1.5 font-mono">{code}</td>
+                  <td className="px-3 py-1.5">{info.description}{info.severity === "warning" ? " (warning)" : ""}</td>
+                  <td className="px-3 py-1.5">{CATEGORY_LABELS[info.category]}</td>
+                  <td className="px-3 py-1.5">{info.action}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+
+      <div className="flex items-center gap-4">
+        <button onClick={save} disabled={status.type === "saving"}
+          className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
+          {status.type === "saving" ? "Saving..." : "Save Error Codes"}
+        </button>
+        {status.type === "saved" && <span className="text-sm text-green-600 dark:text-green-400">{status.message}</span>}
+        {status.type === "error" && <span className="text-sm text-red-600 dark:text-red-400">{status.message}</span>}
+      </div>
+      {status.type === "error" && status.errors && <ValidationErrors errors={status.errors} />}
+    </fieldset>
+  )
+}
+
+export default InstallErrorCodesEditor
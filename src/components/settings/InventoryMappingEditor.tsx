@@ -1,24 +1,136 @@
 "use client"
 
-import React, { useState } from "react"
+import React, { useEffect, useMemo, useState } from "react"
 import { useSettings } from "../../providers/SettingsProvider"
-import { InventoryFieldMapping, SettingsDocument } from "../../lib/settings/types"
+import { DiscoveredInventoryKey, InventoryFieldMapping, RESERVED_URL_PARAMS, SettingsDocument } from "../../lib/settings/types"
+import { errorsUnder, SettingsValidationError, validateSettingsDocument } from "../../lib/settings/validate"
+import { AliasEditor } from "./AliasEditor"
+import { ValidationErrors } from "./ValidationErrors"
+
+/** 1-based rule number from a `security.rules[i]...` error path. */
+const ruleNumber = (path: string) => Number(/^security\.rules\[(\d+)\]/.exec(path)?.[1] ?? 0) + 1
+
+/** Suggested field key for a raw inventory key: "cost_center" -> "costCenter". */
+const toFieldKey = (sourceKey: string) =>
+  sourceKey
+    .replace(/[^A-Za-z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ""))
+    .replace(/^[^A-Za-z]+/, "")
+    .replace(/^./, (c) => c.toLowerCase())
+
+/** "costCenter" -> "Cost Center". */
+const toLabel = (key: string) => key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/^./, (c) => c.toUpperCase())
 
 /** Editable table for how raw inventory keys map to ReportMate's canonical
- * fields (label, source key, order, visibility, known values). Saves the full
- * settings document via the admin-gated PUT proxy. */
+ * fields (label, source key, order, visibility, known values), plus
+ * org-defined custom fields picked from the discovered inventory keys. Saves
+ * the full settings document via the admin-gated PUT proxy. */
 export function InventoryMappingEditor({ readOnly = false }: { readOnly?: boolean }) {
-  const { settings, inventoryFields, refresh } = useSettings()
+  const { settings, inventoryFields, validationErrors, refresh } = useSettings()
   const [fields, setFields] = useState<InventoryFieldMapping[]>(() =>
     [...inventoryFields].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
   )
-  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string }>({ type: "idle" })
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string; errors?: SettingsValidationError[] }>({ type: "idle" })
+  const [discovered, setDiscovered] = useState<DiscoveredInventoryKey[]>([])
+  const [newSourceKey, setNewSourceKey] = useState("")
+  const [newKey, setNewKey] = useState("")
+  const [aliasesOpen, setAliasesOpen] = useState<string | null>(null)
+
+  // Discovery is admin-only, so a read-only preview skips it and offers
+  // free-text source keys only.
+  useEffect(() => {
+    if (readOnly) return
+    let cancelled = false
+    ;(async () => {
+      try {
+        const res = await fetch("/api/settings/inventory/discover", { cache: "no-store" })
+        const data = await res.json()
+        if (!cancelled && res.ok) setDiscovered(data.keys || [])
+      } catch {
+        // Without discovery the source key is typed by hand.
+      }
+    })()
+    return () => { cancelled = true }
+  }, [readOnly])
+
+  // Discovered keys no field reads yet, most widely collected first.
+  // Discovery sample values per field, for alias suggestions.
+  const samplesFor = (f: InventoryFieldMapping) =>
+    discovered.find((k) => k.key === f.sourceKey || toFieldKey(k.key) === toFieldKey(f.sourceKey))?.sampleValues ?? []
+
+  const unmapped = useMemo(
+    () =>
+      discovered
+        .filter((k) => !fields.some((f) => f.sourceKey === k.key || toFieldKey(f.sourceKey) === toFieldKey(k.key)))
+        .sort((a, b) => b.deviceCount - a.deviceCount),
+    [discovered, fields]
+  )
+
+  const draft = useMemo<SettingsDocument>(
+    () => ({ ...settings, inventory: { fields: fields.map((f, i) => ({ ...f, order: i })) } }),
+    [settings, fields]
+  )
+  // Validated live against the whole draft document, so removing a known
+  // value that a rule still uses shows up here too.
+  const errors = useMemo(() => validateSettingsDocument(draft), [draft])
+  // Problems with the stored mapping that the draft no longer reproduces,
+  // i.e. entries dropped when settings were loaded.
+  const storedErrors = errorsUnder(validationErrors, "inventory").filter(
+    (e) => !errors.some((d) => d.path === e.path && d.message === e.message)
+  )
+  // Errors for the row at `index`: its own fields, plus rules using its values.
+  const rowErrors = (index: number, key: string) => [
+    ...errorsUnder(errors, `inventory.fields[${index}]`),
+    ...errors
+      .filter((e) => e.path.startsWith("security.rules[") && e.path.includes(`.inventory.${key}.`))
+      .map((e) => ({ path: "", message: `Rule ${ruleNumber(e.path)}: ${e.message}` })),
+  ]
+  // Rules still referencing a custom field that was removed from the draft.
+  const orphanErrors = errors.filter((e) => !e.path.startsWith("inventory") && e.message.startsWith("unknown field"))
+  const invalid = (index: number, prop: keyof InventoryFieldMapping) =>
+    errorsUnder(errors, `inventory.fields[${index}].${prop}`).length > 0
+  const borderFor = (bad: boolean) => (bad ? "border-red-500 dark:border-red-500" : "border-gray-300 dark:border-gray-600")
 
   const update = (key: string, patch: Partial<InventoryFieldMapping>) => {
     setFields((prev) => prev.map((f) => (f.key === key ? { ...f, ...patch } : f)))
     setStatus({ type: "idle" })
   }
 
+  const addCustomField = () => {
+    const sourceKey = newSourceKey.trim()
+    const key = newKey.trim() || toFieldKey(sourceKey)
+    if (!sourceKey || !key) return
+    if (fields.some((f) => f.key === key)) {
+      setStatus({ type: "error", message: `There is already a "${key}" field` })
+      return
+    }
+    if ((RESERVED_URL_PARAMS as readonly string[]).includes(key)) {
+      setStatus({ type: "error", message: `"${key}" is already a URL parameter of the list pages; pick another field key` })
+      return
+    }
+    const sample = discovered.find((k) => k.key === sourceKey)
+    setFields((prev) => [
+      ...prev,
+      {
+        key,
+        sourceKey,
+        label: toLabel(key),
+        order: prev.length,
+        visible: true,
+        // Few distinct values reads as a category worth pinning as known values.
+        knownValues: sample && sample.distinctCount <= 20 ? sample.sampleValues : [],
+        custom: true,
+      },
+    ])
+    setNewSourceKey("")
+    setNewKey("")
+    setStatus({ type: "idle" })
+  }
+
+  const removeField = (key: string) => {
+    setFields((prev) => prev.filter((f) => f.key !== key).map((f, i) => ({ ...f, order: i })))
+    setStatus({ type: "idle" })
+  }
+
   const move = (index: number, dir: -1 | 1) => {
     setFields((prev) => {
       const next = [...prev]
@@ -31,20 +143,20 @@ export function InventoryMappingEditor({ readOnly = false }: { readOnly?: boolea
   }
 
   async function save() {
-    setStatus({ type: "saving" })
-    const doc: SettingsDocument = {
-      ...settings,
-      inventory: { fields: fields.map((f, i) => ({ ...f, order: i })) },
+    if (errors.length) {
+      setStatus({ type: "error", message: "Fix the highlighted fields before saving" })
+      return
     }
+    setStatus({ type: "saving" })
     try {
       const res = await fetch("/api/settings", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(doc),
+        body: JSON.stringify(draft),
       })
       const data = await res.json()
       if (!res.ok) {
-        setStatus({ type: "error", message: data.error || data.detail || "Save failed" })
+        setStatus({ type: "error", message: data.error || data.detail || "Save failed", errors: data.errors })
         return
       }
       setStatus({ type: "saved", message: "Inventory mapping saved" })
@@ -61,10 +173,19 @@ export function InventoryMappingEditor({ readOnly = false }: { readOnly?: boolea
           Read-only preview. Sign in as an administrator on a non-demo instance to edit.
         </p>
       )}
+      {storedErrors.length > 0 && (
+        <div className="p-3 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            Some stored inventory fields were invalid and are being ignored. Saving replaces them.
+          </p>
+          <ValidationErrors errors={storedErrors} />
+        </div>
+      )}
       <p className="text-gray-600 dark:text-gray-400">
         Map the keys from each device&apos;s <code className="font-mono text-sm">Inventory.yaml</code> to
         ReportMate&apos;s fields. Adjust the label, source key, order, and visibility. Known values for
-        <span className="font-mono"> usage</span> drive the security rules below.
+        <span className="font-mono"> usage</span> drive the security rules below. Aliases fold variants such as
+        &quot;Labs&quot; or &quot;lab&quot; into one value for filters, rules and charts.
       </p>
 
       <div className="border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden">
@@ -77,44 +198,120 @@ export function InventoryMappingEditor({ readOnly = false }: { readOnly?: boolea
               <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Label</th>
               <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Known values</th>
               <th className="px-3 py-2 text-center font-medium text-gray-500 dark:text-gray-400">Visible</th>
+              <th className="px-3 py-2" />
             </tr>
           </thead>
           <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-            {fields.map((f, i) => (
-              <tr key={f.key}>
-                <td className="px-3 py-2 whitespace-nowrap">
-                  <div className="flex gap-1">
-                    <button onClick={() => move(i, -1)} disabled={i === 0}
-                      className="px-1.5 text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30" aria-label="Move up">↑</button>
-                    <button onClick={() => move(i, 1)} disabled={i === fields.length - 1}
-                      className="px-1.5 text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30" aria-label="Move down">↓</button>
-                  </div>
-                </td>
-                <td className="px-3 py-2 font-mono text-gray-900 dark:text-gray-100">{f.key}</td>
-                <td className="px-3 py-2">
-                  <input value={f.sourceKey} onChange={(e) => update(f.key, { sourceKey: e.target.value })}
-                    className="w-32 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono" />
-                </td>
-                <td className="px-3 py-2">
-                  <input value={f.label} onChange={(e) => update(f.key, { label: e.target.value })}
-                    className="w-36 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white" />
-                </td>
-                <td className="px-3 py-2">
-                  <input value={(f.knownValues || []).join(", ")}
-                    onChange={(e) => update(f.key, { knownValues: e.target.value.split(",").map((s) => s.trim()).filter(Boolean) })}
-                    placeholder="e.g. Assigned, Shared, Lab"
-                    className="w-56 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white" />
-                </td>
-                <td className="px-3 py-2 text-center">
-                  <input type="checkbox" checked={f.visible} onChange={(e) => update(f.key, { visible: e.target.checked })}
-                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
-                </td>
-              </tr>
-            ))}
+            {fields.map((f, i) => {
+              const problems = rowErrors(i, f.key)
+              return (
+                <React.Fragment key={f.key}>
+                  <tr>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <div className="flex gap-1">
+                        <button onClick={() => move(i, -1)} disabled={i === 0}
+                          className="px-1.5 text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30" aria-label="Move up">↑</button>
+                        <button onClick={() => move(i, 1)} disabled={i === fields.length - 1}
+                          className="px-1.5 text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30" aria-label="Move down">↓</button>
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 font-mono text-gray-900 dark:text-gray-100">
+                      {f.key}
+                      {f.custom && (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs font-sans rounded bg-cyan-100 dark:bg-cyan-900/30 text-cyan-800 dark:text-cyan-200">custom</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <input value={f.sourceKey} onChange={(e) => update(f.key, { sourceKey: e.target.value })}
+                        className={`w-32 px-2 py-1 border ${borderFor(invalid(i, "sourceKey"))} rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono`} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input value={f.label} onChange={(e) => update(f.key, { label: e.target.value })}
+                        className={`w-36 px-2 py-1 border ${borderFor(invalid(i, "label"))} rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white`} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input value={(f.knownValues || []).join(", ")}
+                        onChange={(e) => update(f.key, { knownValues: e.target.value.split(",").map((s) => s.trim()).filter(Boolean) })}
+                        placeholder="e.g. Assigned, Shared, Lab"
+                        className={`w-56 px-2 py-1 border ${borderFor(invalid(i, "knownValues") || problems.some((p) => !p.path))} rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white`} />
+                      <button onClick={() => setAliasesOpen(aliasesOpen === f.key ? null : f.key)}
+                        className={`block mt-1 text-xs ${invalid(i, "aliases") ? "text-red-600 dark:text-red-400" : "text-blue-600 hover:text-blue-800 dark:text-blue-400"}`}>
+                        Aliases ({Object.keys(f.aliases ?? {}).length})
+                      </button>
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      <input type="checkbox" checked={f.visible} onChange={(e) => update(f.key, { visible: e.target.checked })}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {f.custom && (
+                        <button onClick={() => removeField(f.key)}
+                          className="text-sm text-red-600 hover:text-red-800 dark:text-red-400">Remove</button>
+                      )}
+                    </td>
+                  </tr>
+                  {aliasesOpen === f.key && (
+                    <tr>
+                      <td colSpan={7} className="px-3 pb-3 pt-0">
+                        <AliasEditor field={f} sampleValues={samplesFor(f)}
+                          onChange={(aliases) => update(f.key, { aliases: Object.keys(aliases).length ? aliases : undefined })} />
+                      </td>
+                    </tr>
+                  )}
+                  {problems.length > 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-3 pb-2 pt-0">
+                        <ValidationErrors errors={problems} prefix={`inventory.fields[${i}]`} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              )
+            })}
           </tbody>
         </table>
       </div>
 
+      <div className="border border-gray-200 dark:border-gray-700 rounded-md p-3 space-y-2">
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white">Add custom field</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Track an inventory key ReportMate doesn&apos;t know about (cost center, project, ...). Custom fields show on
+          device pages, can be used in rules and appear under Selections in the device reports.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <input list="inventory-discovered-keys" value={newSourceKey} placeholder="Source key"
+            onChange={(e) => setNewSourceKey(e.target.value)}
+            className="w-48 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm" />
+          <datalist id="inventory-discovered-keys">
+            {unmapped.map((k) => (
+              <option key={k.key} value={k.key}>
+                {`${k.deviceCount} devices, ${k.distinctCount} values`}
+              </option>
+            ))}
+          </datalist>
+          <input value={newKey} placeholder={toFieldKey(newSourceKey) || "Field key"}
+            onChange={(e) => setNewKey(e.target.value)}
+            className="w-40 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm" />
+          <button onClick={addCustomField} disabled={!newSourceKey.trim()}
+            className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50">
+            + Add field
+          </button>
+        </div>
+        {unmapped.length > 0 && (
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            {unmapped.length} discovered key{unmapped.length === 1 ? "" : "s"} not mapped yet, e.g.{" "}
+            {unmapped.slice(0, 5).map((k) => k.key).join(", ")}
+          </p>
+        )}
+      </div>
+
+      {orphanErrors.length > 0 && (
+        <div className="p-3 rounded-md border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+          <p className="text-sm text-red-700 dark:text-red-300">Rules still use fields that are no longer defined:</p>
+          <ValidationErrors errors={orphanErrors} />
+        </div>
+      )}
+
       <div className="flex items-center gap-4">
         <button onClick={save} disabled={status.type === "saving"}
           className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
@@ -123,6 +320,7 @@ export function InventoryMappingEditor({ readOnly = false }: { readOnly?: boolea
         {status.type === "saved" && <span className="text-sm text-green-600 dark:text-green-400">{status.message}</span>}
         {status.type === "error" && <span className="text-sm text-red-600 dark:text-red-400">{status.message}</span>}
       </div>
+      {status.type === "error" && status.errors && <ValidationErrors errors={status.errors} />}
     </fieldset>
   )
 }
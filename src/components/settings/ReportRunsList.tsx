@@ -0,0 +1,84 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import type { ReportRun } from "../../lib/reports/schedule"
+import { formatExactTime, formatRelativeTime } from "../../lib/time"
+
+/** Runs shown; the store keeps more for downloads linked from messages. */
+const SHOWN_RUNS = 50
+
+/** Past report runs with their files. `refreshKey` reloads it, e.g. after Run now. */
+export function ReportRunsList({ refreshKey = 0 }: { refreshKey?: number }) {
+  const [runs, setRuns] = useState<ReportRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/reports/history")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `Request failed with status ${res.status}`)
+      setRuns(Array.isArray(data.runs) ? data.runs : [])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load report history")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load, refreshKey])
+
+  if (loading) return <p className="text-sm text-gray-500 dark:text-gray-400">Loading report history...</p>
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {runs.length === 0 ? (
+        <p className="text-sm text-gray-400 dark:text-gray-500 italic">No reports have run yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+          {runs.slice(0, SHOWN_RUNS).map((run) => {
+            const failed = run.deliveries.filter((d) => !d.ok)
+            return (
+              <li key={run.id} className="flex flex-wrap items-start gap-3 p-3 text-sm">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${run.status === "succeeded"
+                  ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                  : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"}`}>
+                  {run.status}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-white">
+                    <Link href={run.url} className="hover:underline">{run.scheduleName}</Link>
+                  </div>
+                  <div className="text-gray-500 dark:text-gray-400">
+                    {run.status === "succeeded"
+                      ? `${run.rowCount ?? 0} rows · sent to ${run.deliveries.length - failed.length} of ${run.deliveries.length} channels`
+                      : run.error}
+                  </div>
+                  {failed.map((d) => (
+                    <div key={d.channelId} className="text-xs text-red-600 dark:text-red-400">{d.channelId}: {d.error}</div>
+                  ))}
+                  <div className="text-xs text-gray-400 dark:text-gray-500 mt-1" title={formatExactTime(run.startedAt)}>
+                    {run.manual ? "Run manually" : "Scheduled"} {formatRelativeTime(run.startedAt)}
+                  </div>
+                </div>
+                {run.fileName && (
+                  <a href={`/api/reports/history/${encodeURIComponent(run.id)}/file`}
+                    className="px-3 py-1 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
+                    Download {run.format.toUpperCase()}
+                  </a>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default ReportRunsList
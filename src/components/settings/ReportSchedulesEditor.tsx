@@ -0,0 +1,253 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { useSettings } from "../../providers/SettingsProvider"
+import { DEFAULT_REPORT_SETTINGS } from "../../lib/settings/defaults"
+import {
+  DEFAULT_REPORT_DAY_OF_MONTH,
+  DEFAULT_REPORT_DAY_OF_WEEK,
+  DEFAULT_REPORT_HOUR,
+  nextSlot,
+} from "../../lib/reports/schedule"
+import {
+  REPORT_FORMATS,
+  ReportFormat,
+  ReportFrequency,
+  ReportSchedule,
+  ReportSettings,
+  SettingsDocument,
+} from "../../lib/settings/types"
+import { errorsUnder, SettingsValidationError, validateSettingsDocument } from "../../lib/settings/validate"
+import { formatExactTime } from "../../lib/time"
+import { ValidationErrors } from "./ValidationErrors"
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+const secondaryButtonClass =
+  "px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+
+const FORMAT_LABELS: Record<ReportFormat, string> = { csv: "CSV", xlsx: "Excel (XLSX)", pdf: "PDF" }
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+let seq = 0
+const nextId = () => `report-${Date.now()}-${++seq}`
+
+/** Edits `settings.reports`: which report URLs are delivered when, and where. */
+export function ReportSchedulesEditor({ readOnly = false, onRan }: { readOnly?: boolean; onRan?: () => void }) {
+  const { settings, validationErrors, refresh } = useSettings()
+  const [config, setConfig] = useState<ReportSettings>(() => structuredClone(settings.reports ?? DEFAULT_REPORT_SETTINGS))
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string; errors?: SettingsValidationError[] }>({ type: "idle" })
+  const [running, setRunning] = useState<{ id: string; message?: string; failed?: boolean } | null>(null)
+  const channels = settings.alerts?.channels ?? []
+  const saved = new Set((settings.reports?.schedules ?? []).map((s) => s.id))
+
+  const edit = (update: (c: ReportSettings) => ReportSettings) => {
+    setConfig(update)
+    setStatus({ type: "idle" })
+  }
+  const updateSchedule = (id: string, patch: Partial<ReportSchedule>) =>
+    edit((c) => ({ schedules: c.schedules.map((s) => (s.id === id ? { ...s, ...patch } : s)) }))
+  const addSchedule = () =>
+    edit((c) => ({
+      schedules: [
+        ...c.schedules,
+        { id: nextId(), name: "", url: "", format: "xlsx", frequency: "weekly", dayOfWeek: DEFAULT_REPORT_DAY_OF_WEEK, hour: DEFAULT_REPORT_HOUR, channels: [], enabled: true },
+      ],
+    }))
+
+  const draft = useMemo<ReportSettings>(() => ({
+    schedules: config.schedules.map((s) => ({
+      ...s,
+      name: s.name.trim(),
+      url: s.url.trim(),
+      dayOfWeek: s.frequency === "weekly" ? s.dayOfWeek : undefined,
+      dayOfMonth: s.frequency === "monthly" ? s.dayOfMonth : undefined,
+    })),
+  }), [config])
+  const errors = useMemo(() => validateSettingsDocument({ ...settings, reports: draft }), [settings, draft])
+  const storedErrors = errorsUnder(validationErrors, "reports").filter(
+    (e) => !errors.some((d) => d.path === e.path && d.message === e.message)
+  )
+
+  async function save() {
+    if (errors.length) {
+      setStatus({ type: "error", message: "Fix the report schedules marked below before saving" })
+      return
+    }
+    setStatus({ type: "saving" })
+    const doc: SettingsDocument = { ...settings, reports: draft }
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(doc),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setStatus({ type: "error", message: data.error || data.detail || "Save failed", errors: data.errors })
+        return
+      }
+      setStatus({ type: "saved", message: "Report schedules saved" })
+      await refresh()
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
+  }
+
+  async function runNow(id: string) {
+    setRunning({ id })
+    try {
+      const res = await fetch("/api/reports/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scheduleId: id }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || data.details || "Run failed")
+      const run = data.runs?.[0]
+      const failedDeliveries = (run?.deliveries ?? []).filter((d: { ok: boolean }) => !d.ok).length
+      setRunning({
+        id,
+        failed: run?.status !== "succeeded" || failedDeliveries > 0,
+        message: run?.status !== "succeeded"
+          ? run?.error || "Run failed"
+          : failedDeliveries ? `Generated; ${failedDeliveries} deliveries failed` : `Generated ${run.rowCount} rows`,
+      })
+      onRan?.()
+    } catch (err) {
+      setRunning({ id, failed: true, message: err instanceof Error ? err.message : "Run failed" })
+    }
+  }
+
+  return (
+    <fieldset disabled={readOnly} className="space-y-6 min-w-0 border-0 m-0 p-0">
+      {readOnly && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          Read-only preview. Sign in as an administrator on a non-demo instance to edit.
+        </p>
+      )}
+      {storedErrors.length > 0 && (
+        <div className="p-3 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            Some stored report schedules were invalid and are being ignored. Saving replaces them.
+          </p>
+          <ValidationErrors errors={storedErrors} />
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Open an Applications (usage, versions or missing) or Installs report, pick what it should show and paste its
+            address here. Reports go to the alert channels: email attaches the file, the others get a download link.
+            Times are UTC.
+          </p>
+          <button onClick={addSchedule} className={`ml-4 shrink-0 ${secondaryButtonClass}`}>+ Add schedule</button>
+        </div>
+        {config.schedules.length === 0 && (
+          <p className="text-sm text-gray-400 dark:text-gray-500 italic">No scheduled reports.</p>
+        )}
+        <div className="space-y-3">
+          {config.schedules.map((s, i) => {
+            const scheduleErrors = errorsUnder(errors, `reports.schedules[${i}]`)
+            return (
+              <div key={s.id} className={`border rounded-md p-3 space-y-3 ${scheduleErrors.length ? "border-red-300 dark:border-red-700" : "border-gray-200 dark:border-gray-700"}`}>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={s.enabled !== false} onChange={(e) => updateSchedule(s.id, { enabled: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                    On
+                  </label>
+                  <input type="text" value={s.name} placeholder="Name (e.g. Houdini licensing review)"
+                    onChange={(e) => updateSchedule(s.id, { name: e.target.value })} className={`w-72 ${inputClass}`} />
+                  <select value={s.format} className={inputClass} onChange={(e) => updateSchedule(s.id, { format: e.target.value as ReportFormat })}>
+                    {REPORT_FORMATS.map((f) => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+                  </select>
+                  {saved.has(s.id) && (
+                    <button onClick={() => runNow(s.id)} disabled={running?.id === s.id && !running.message} className={secondaryButtonClass}>
+                      {running?.id === s.id && !running.message ? "Running..." : "Run now"}
+                    </button>
+                  )}
+                  {running?.id === s.id && running.message && (
+                    <span className={running.failed ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}>{running.message}</span>
+                  )}
+                  <button onClick={() => edit((c) => ({ schedules: c.schedules.filter((x) => x.id !== s.id) }))}
+                    className="ml-auto text-sm text-red-600 hover:text-red-800 dark:text-red-400">Remove</button>
+                </div>
+
+                <input type="text" value={s.url} placeholder="/applications?type=usage&period=30&apps=Houdini"
+                  onChange={(e) => updateSchedule(s.id, { url: e.target.value })} className={`w-full font-mono ${inputClass}`} />
+
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <select value={s.frequency} className={inputClass}
+                    onChange={(e) => updateSchedule(s.id, { frequency: e.target.value as ReportFrequency })}>
+                    <option value="daily">Daily</option>
+                    <option value="weekly">Weekly</option>
+                    <option value="monthly">Monthly</option>
+                  </select>
+                  {s.frequency === "weekly" && (
+                    <>
+                      on
+                      <select value={s.dayOfWeek ?? DEFAULT_REPORT_DAY_OF_WEEK} className={inputClass}
+                        onChange={(e) => updateSchedule(s.id, { dayOfWeek: Number(e.target.value) })}>
+                        {WEEKDAYS.map((d, n) => <option key={d} value={n}>{d}</option>)}
+                      </select>
+                    </>
+                  )}
+                  {s.frequency === "monthly" && (
+                    <>
+                      on day
+                      <select value={s.dayOfMonth ?? DEFAULT_REPORT_DAY_OF_MONTH} className={inputClass}
+                        onChange={(e) => updateSchedule(s.id, { dayOfMonth: Number(e.target.value) })}>
+                        {Array.from({ length: 28 }, (_, n) => <option key={n} value={n + 1}>{n + 1}</option>)}
+                      </select>
+                    </>
+                  )}
+                  at
+                  <select value={s.hour ?? DEFAULT_REPORT_HOUR} className={inputClass}
+                    onChange={(e) => updateSchedule(s.id, { hour: Number(e.target.value) })}>
+                    {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{String(h).padStart(2, "0")}:00</option>)}
+                  </select>
+                  UTC
+                  {s.enabled !== false && scheduleErrors.length === 0 && (
+                    <span className="text-xs text-gray-400 dark:text-gray-500">
+                      · next {formatExactTime(nextSlot(s, new Date()).toISOString())}
+                    </span>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  Send to
+                  {channels.length === 0 && <span className="text-gray-400 dark:text-gray-500">(add a channel under Alerts)</span>}
+                  {channels.map((c) => (
+                    <label key={c.id} className="flex items-center gap-1">
+                      <input type="checkbox" checked={s.channels.includes(c.id)}
+                        onChange={(e) => updateSchedule(s.id, { channels: e.target.checked ? [...s.channels, c.id] : s.channels.filter((id) => id !== c.id) })}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                      {c.label?.trim() || c.type}
+                    </label>
+                  ))}
+                </div>
+
+                <ValidationErrors errors={scheduleErrors} prefix={`reports.schedules[${i}]`} />
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button onClick={save} disabled={status.type === "saving"}
+          className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
+          {status.type === "saving" ? "Saving..." : "Save Schedules"}
+        </button>
+        {status.type === "saved" && <span className="text-sm text-green-600 dark:text-green-400">{status.message}</span>}
+        {status.type === "error" && <span className="text-sm text-red-600 dark:text-red-400">{status.message}</span>}
+      </div>
+      {status.type === "error" && status.errors && <ValidationErrors errors={status.errors} />}
+    </fieldset>
+  )
+}
+
+export default ReportSchedulesEditor
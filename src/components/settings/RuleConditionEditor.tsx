@@ -0,0 +1,290 @@
+"use client"
+
+import React from "react"
+import {
+  DEVICE_FACT_KEYS,
+  DeviceFactKey,
+  InventoryFieldMapping,
+  RULE_OPERATOR_NAMES,
+  RuleCondition,
+  RuleOperator,
+  RuleOperatorName,
+} from "../../lib/settings/types"
+
+const OPERATOR_LABELS: Record<RuleOperatorName, string> = {
+  in: "is one of",
+  notIn: "is not one of",
+  eq: "equals",
+  ne: "does not equal",
+  matches: "matches regex",
+  glob: "matches glob",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  exists: "is set",
+  missing: "is not set",
+}
+
+const DEVICE_FACT_LABELS: Record<DeviceFactKey, string> = {
+  platform: "Platform",
+  osName: "OS name",
+  osVersion: "OS version",
+  osBuild: "OS build",
+  osEdition: "OS edition",
+  model: "Hardware model",
+  architecture: "Architecture",
+  enrollmentType: "Enrollment type",
+  tags: "Tags",
+  groups: "Groups",
+}
+
+const LIST_OPS: RuleOperatorName[] = ["in", "notIn"]
+const NUMERIC_OPS: RuleOperatorName[] = ["gt", "gte", "lt", "lte"]
+const FLAG_OPS: RuleOperatorName[] = ["exists", "missing"]
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+const linkButtonClass = "text-xs text-blue-600 hover:text-blue-800 dark:text-blue-400"
+
+type OperandValue = RuleOperator[RuleOperatorName]
+
+type Namespace = "inventory" | "device"
+
+/** One (namespace, key, operator) triple from a condition's `inventory` or
+ * `device` block — the unit the editor renders as a row. */
+export interface ConditionClause {
+  ns: Namespace
+  key: string
+  op: RuleOperatorName
+  value: OperandValue
+}
+
+export function clausesOf(condition: RuleCondition | undefined): ConditionClause[] {
+  const clauses: ConditionClause[] = []
+  for (const ns of ["inventory", "device"] as const) {
+    for (const [key, operator] of Object.entries(condition?.[ns] ?? {})) {
+      if (!operator) continue
+      for (const op of RULE_OPERATOR_NAMES) {
+        if (operator[op] !== undefined) clauses.push({ ns, key, op, value: operator[op] })
+      }
+    }
+  }
+  return clauses
+}
+
+function withClauses(condition: RuleCondition, clauses: ConditionClause[]): RuleCondition {
+  const blocks: Record<Namespace, Record<string, RuleOperator>> = { inventory: {}, device: {} }
+  for (const c of clauses) {
+    blocks[c.ns][c.key] = { ...(blocks[c.ns][c.key] ?? {}), [c.op]: c.value }
+  }
+  const next: RuleCondition = { ...condition }
+  delete next.inventory
+  delete next.device
+  if (Object.keys(blocks.inventory).length) next.inventory = blocks.inventory as RuleCondition["inventory"]
+  if (Object.keys(blocks.device).length) next.device = blocks.device as RuleCondition["device"]
+  return next
+}
+
+/** Convert an operand when the operator changes so the typed value survives
+ * where it makes sense (e.g. "Lab" under `eq` becomes ["Lab"] under `in`). */
+function convertOperand(value: OperandValue, to: RuleOperatorName): OperandValue {
+  const text = Array.isArray(value) ? value.join(", ") : value === undefined || typeof value === "boolean" ? "" : String(value)
+  if (LIST_OPS.includes(to)) return text.split(",").map((s) => s.trim()).filter(Boolean)
+  if (NUMERIC_OPS.includes(to)) {
+    const n = Number(text)
+    return Number.isFinite(n) ? n : 0
+  }
+  if (to === "exists" || to === "missing") return true
+  return text
+}
+
+function isEmptyCondition(condition: RuleCondition): boolean {
+  return (
+    clausesOf(condition).length === 0 &&
+    !condition.allOf?.length &&
+    !condition.anyOf?.length &&
+    !condition.not
+  )
+}
+
+/** Drop empty inventory/device blocks, empty groups and unfinished (empty) branches
+ * before saving. Returns undefined when nothing is left, i.e. "every device". */
+export function pruneCondition(condition: RuleCondition | undefined): RuleCondition | undefined {
+  if (!condition) return undefined
+  const pruned: RuleCondition = withClauses({}, clausesOf(condition))
+  const prune = (list?: RuleCondition[]) =>
+    (list ?? []).map(pruneCondition).filter((c): c is RuleCondition => c !== undefined)
+  const allOf = prune(condition.allOf)
+  const anyOf = prune(condition.anyOf)
+  const not = pruneCondition(condition.not)
+  if (allOf.length) pruned.allOf = allOf
+  if (anyOf.length) pruned.anyOf = anyOf
+  if (not) pruned.not = not
+  return isEmptyCondition(pruned) ? undefined : pruned
+}
+
+function OperandInput({ clause, onChange }: { clause: ConditionClause; onChange: (v: OperandValue) => void }) {
+  if (FLAG_OPS.includes(clause.op)) return null
+  if (LIST_OPS.includes(clause.op)) {
+    const list = Array.isArray(clause.value) ? clause.value : []
+    return (
+      <input value={list.join(", ")} placeholder="Shared, Lab"
+        onChange={(e) => onChange(e.target.value.split(",").map((s) => s.trim()).filter(Boolean))}
+        className={`w-44 ${inputClass}`} />
+    )
+  }
+  if (NUMERIC_OPS.includes(clause.op)) {
+    return (
+      <input type="number" value={typeof clause.value === "number" ? clause.value : 0}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={`w-24 ${inputClass}`} />
+    )
+  }
+  return (
+    <input value={typeof clause.value === "string" ? clause.value : ""}
+      placeholder={clause.op === "matches" ? "^Lab" : clause.op === "glob" ? "Van*" : "Shared"}
+      onChange={(e) => onChange(e.target.value)}
+      className={`w-44 ${inputClass} ${clause.op === "matches" || clause.op === "glob" ? "font-mono" : ""}`} />
+  )
+}
+
+type GroupKind = "allOf" | "anyOf" | "not"
+
+const GROUP_LABELS: Record<GroupKind, string> = {
+  allOf: "All of",
+  anyOf: "Any of",
+  not: "Not",
+}
+
+/** Recursive builder for a rule's `when` condition: inventory and device-fact
+ * clauses at this level plus nested all-of / any-of / not groups. Empty
+ * branches are kept while editing and dropped by `pruneCondition` on save. */
+export function RuleConditionEditor({
+  condition,
+  onChange,
+  fields,
+  depth = 0,
+}: {
+  condition: RuleCondition | undefined
+  onChange: (next: RuleCondition) => void
+  fields: InventoryFieldMapping[]
+  depth?: number
+}) {
+  const current = condition ?? {}
+  const clauses = clausesOf(current)
+  const fieldKeys = fields.map((f) => f.key as string)
+  const labelFor = (key: string) => fields.find((f) => f.key === key)?.label ?? key
+  // Both namespaces share one select; options are encoded as "ns:key".
+  const targets = [
+    ...fieldKeys.map((key) => `inventory:${key}`),
+    ...DEVICE_FACT_KEYS.map((key) => `device:${key}`),
+  ]
+
+  const setClauses = (next: ConditionClause[]) => onChange(withClauses(current, next))
+  const updateClause = (index: number, patch: Partial<ConditionClause>) =>
+    setClauses(clauses.map((c, i) => (i === index ? { ...c, ...patch } : c)))
+
+  const addClause = () => {
+    const used = new Set(clauses.map((c) => `${c.ns}:${c.key}`))
+    const target = targets.find((t) => !used.has(t))
+    if (!target) return
+    const [ns, key] = target.split(":") as [Namespace, string]
+    setClauses([...clauses, { ns, key, op: "in", value: [] }])
+  }
+
+  const setGroup = (kind: GroupKind, value: RuleCondition[] | RuleCondition | undefined) => {
+    const next = { ...current, [kind]: value }
+    if (value === undefined) delete next[kind]
+    onChange(next)
+  }
+
+  const addGroup = (kind: GroupKind) => {
+    if (kind === "not") setGroup("not", {})
+    else setGroup(kind, [...(current[kind] ?? []), {}])
+  }
+
+  const renderBranches = (kind: "allOf" | "anyOf") => {
+    const branches = current[kind]
+    if (!branches) return null
+    return (
+      <div className="border-l-2 border-blue-300 dark:border-blue-700 pl-3 space-y-2">
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">{GROUP_LABELS[kind]}</span>
+          <button type="button" onClick={() => setGroup(kind, [...branches, {}])} className={linkButtonClass}>+ Branch</button>
+          <button type="button" onClick={() => setGroup(kind, undefined)} className="text-xs text-red-600 hover:text-red-800 dark:text-red-400">Remove group</button>
+        </div>
+        {branches.map((branch, i) => (
+          <div key={i} className="flex items-start gap-2">
+            <div className="flex-1 min-w-0 border border-dashed border-gray-300 dark:border-gray-600 rounded p-2">
+              <RuleConditionEditor condition={branch} fields={fields} depth={depth + 1}
+                onChange={(c) => setGroup(kind, branches.map((b, j) => (j === i ? c : b)))} />
+            </div>
+            <button type="button" onClick={() => setGroup(kind, branches.filter((_, j) => j !== i))}
+              className="text-xs text-gray-400 hover:text-red-600" aria-label="Remove branch">✕</button>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {clauses.length === 0 && depth === 0 && !current.allOf && !current.anyOf && !current.not && (
+        <p className="text-xs text-gray-400 dark:text-gray-500 italic">Applies to every device.</p>
+      )}
+
+      {clauses.map((c, i) => (
+        <div key={`${c.ns}-${c.key}-${c.op}`} className="flex flex-wrap items-center gap-2">
+          <select value={`${c.ns}:${c.key}`} className={inputClass} onChange={(e) => {
+            const [ns, key] = e.target.value.split(":") as [Namespace, string]
+            updateClause(i, { ns, key })
+          }}>
+            <optgroup label="Inventory">
+              {[...new Set([...fieldKeys, ...(c.ns === "inventory" ? [c.key] : [])])].map((k) => (
+                <option key={k} value={`inventory:${k}`}>{labelFor(k)}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Device">
+              {DEVICE_FACT_KEYS.map((k) => <option key={k} value={`device:${k}`}>{DEVICE_FACT_LABELS[k]}</option>)}
+            </optgroup>
+          </select>
+          <select value={c.op} onChange={(e) => {
+            const op = e.target.value as RuleOperatorName
+            updateClause(i, { op, value: convertOperand(c.value, op) })
+          }} className={inputClass}>
+            {RULE_OPERATOR_NAMES.map((op) => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+          </select>
+          <OperandInput clause={c} onChange={(value) => updateClause(i, { value })} />
+          <button type="button" onClick={() => setClauses(clauses.filter((_, j) => j !== i))}
+            className="text-xs text-gray-400 hover:text-red-600" aria-label="Remove condition">✕</button>
+        </div>
+      ))}
+
+      {renderBranches("anyOf")}
+      {renderBranches("allOf")}
+
+      {current.not && (
+        <div className="border-l-2 border-red-300 dark:border-red-700 pl-3 space-y-2">
+          <div className="flex items-center gap-3">
+            <span className="text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">{GROUP_LABELS.not}</span>
+            <button type="button" onClick={() => setGroup("not", undefined)} className="text-xs text-red-600 hover:text-red-800 dark:text-red-400">Remove group</button>
+          </div>
+          <div className="border border-dashed border-gray-300 dark:border-gray-600 rounded p-2">
+            <RuleConditionEditor condition={current.not} fields={fields} depth={depth + 1}
+              onChange={(c) => setGroup("not", c)} />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button type="button" onClick={addClause} disabled={clauses.length >= targets.length} className={`${linkButtonClass} disabled:opacity-40`}>+ Field</button>
+        {!current.anyOf && <button type="button" onClick={() => addGroup("anyOf")} className={linkButtonClass}>+ Any of</button>}
+        {!current.allOf && <button type="button" onClick={() => addGroup("allOf")} className={linkButtonClass}>+ All of</button>}
+        {!current.not && <button type="button" onClick={() => addGroup("not")} className={linkButtonClass}>+ Not</button>}
+      </div>
+    </div>
+  )
+}
+
+export default RuleConditionEditor
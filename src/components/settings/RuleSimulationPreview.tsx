@@ -0,0 +1,109 @@
+"use client"
+
+import React from "react"
+import Link from "next/link"
+import type { SimulationResult } from "../../lib/rules/simulate"
+import type { Severity } from "../../lib/settings/types"
+
+const SEVERITY_TEXT: Record<Severity, string> = {
+  ok: "text-green-600 dark:text-green-400",
+  warning: "text-amber-600 dark:text-amber-400",
+  danger: "text-red-600 dark:text-red-400",
+  neutral: "text-gray-700 dark:text-gray-300",
+  unknown: "text-gray-400 dark:text-gray-500",
+}
+
+/** Largest device list rendered inline; the per-check summary always covers all. */
+const MAX_ROWS = 200
+
+/** Fleet impact of a draft rule set: per-check counts of severity transitions
+ * plus the affected devices, shown before the draft is saved. */
+export function RuleSimulationPreview({ result }: { result: SimulationResult }) {
+  const summaryOnly = result.summaryOnlyCount > 0 && (
+    <p className="text-xs text-amber-700 dark:text-amber-400">
+      {result.summaryOnlyCount} device{result.summaryOnlyCount === 1 ? " has" : "s have"} no device record, so rules on
+      facts beyond platform, tags, groups and inventory can&apos;t match {result.summaryOnlyCount === 1 ? "it" : "them"} here.
+    </p>
+  )
+
+  if (result.changes.length === 0) {
+    return (
+      <div className="space-y-1">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          No severity changes across {result.deviceCount} device{result.deviceCount === 1 ? "" : "s"}.
+        </p>
+        {summaryOnly}
+      </div>
+    )
+  }
+
+  const rows = result.changes.slice(0, MAX_ROWS)
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-700 dark:text-gray-300">
+        {result.changedDeviceCount} of {result.deviceCount} device{result.deviceCount === 1 ? "" : "s"} would change severity.
+      </p>
+      {summaryOnly}
+
+      <div className="border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Check</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Changed</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Transitions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {result.checks.filter((c) => c.changed > 0).map((c) => (
+              <tr key={c.check}>
+                <td className="px-3 py-2 text-gray-900 dark:text-gray-100">{c.check}</td>
+                <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{c.changed} / {c.evaluated}</td>
+                <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                  {Object.entries(c.transitions).map(([t, n]) => `${t} ×${n}`).join(", ")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden max-h-80 overflow-y-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Device</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Check</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">State</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">From</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">To</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map((c) => (
+              <tr key={`${c.serialNumber}-${c.check}`}>
+                <td className="px-3 py-2">
+                  <Link href={`/device/${encodeURIComponent(c.serialNumber)}#security`} className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                    {c.deviceName || c.serialNumber}
+                  </Link>
+                </td>
+                <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{c.check}</td>
+                <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{c.enabled ? "enabled" : "disabled"}</td>
+                <td className={`px-3 py-2 font-medium ${SEVERITY_TEXT[c.from]}`}>{c.from}</td>
+                <td className={`px-3 py-2 font-medium ${SEVERITY_TEXT[c.to]}`}>{c.to}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {result.changes.length > rows.length && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Showing {rows.length} of {result.changes.length} changes.
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default RuleSimulationPreview
@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useState } from "react"
+import React, { useMemo, useState } from "react"
 import { useSettings } from "../../providers/SettingsProvider"
 import {
   SecurityConfig,
@@ -8,6 +8,11 @@ import {
   SettingsDocument,
   Severity,
 } from "../../lib/settings/types"
+import { errorsUnder, SettingsValidationError, validateSettingsDocument } from "../../lib/settings/validate"
+import type { SimulationResult } from "../../lib/rules/simulate"
+import { RuleConditionEditor, pruneCondition } from "./RuleConditionEditor"
+import { RuleSimulationPreview } from "./RuleSimulationPreview"
+import { ValidationErrors } from "./ValidationErrors"
 
 const CHECKS = ["encryption", "firewall", "ssh", "rdp", "sip"] as const
 const SEVERITIES: Severity[] = ["ok", "warning", "danger", "neutral"]
@@ -33,28 +38,28 @@ function SeveritySelect({ value, onChange }: { value: Severity; onChange: (v: Se
 let ruleSeq = 0
 
 export function SecurityRulesEditor({ readOnly = false }: { readOnly?: boolean }) {
-  const { settings, securityConfig, inventoryFields, refresh } = useSettings()
+  const { settings, securityConfig, inventoryFields, validationErrors, refresh } = useSettings()
   const [config, setConfig] = useState<SecurityConfig>(() => ({
     defaults: { ...securityConfig.defaults },
     rules: securityConfig.rules.map((r) => ({ ...r })),
   }))
-  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string }>({ type: "idle" })
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string; errors?: SettingsValidationError[] }>({ type: "idle" })
+  // Fleet impact of the draft, computed before each save. Any edit discards it.
+  const [preview, setPreview] = useState<{ type: "idle" | "loading" | "ready" | "error"; result?: SimulationResult; message?: string }>({ type: "idle" })
 
-  const knownUsage = inventoryFields.find((f) => f.key === "usage")?.knownValues ?? []
+  const touch = () => {
+    setStatus({ type: "idle" })
+    setPreview({ type: "idle" })
+  }
 
   const setDefault = (check: string, which: "enabledSeverity" | "disabledSeverity", v: Severity) => {
     setConfig((c) => ({ ...c, defaults: { ...c.defaults, [check]: { ...c.defaults[check], [which]: v } } }))
-    setStatus({ type: "idle" })
+    touch()
   }
 
   const updateRule = (id: string, patch: Partial<SecurityRule>) => {
     setConfig((c) => ({ ...c, rules: c.rules.map((r) => (r.id === id ? { ...r, ...patch } : r)) }))
-    setStatus({ type: "idle" })
-  }
-
-  const setRuleUsage = (id: string, csv: string) => {
-    const values = csv.split(",").map((s) => s.trim()).filter(Boolean)
-    updateRule(id, { when: values.length ? { inventory: { usage: { in: values } } } : undefined })
+    touch()
   }
 
   const addRule = () => {
@@ -69,17 +74,57 @@ export function SecurityRulesEditor({ readOnly = false }: { readOnly?: boolean }
       when: { inventory: { usage: { in: ["Shared"] } } },
     }
     setConfig((c) => ({ ...c, rules: [...c.rules, rule] }))
-    setStatus({ type: "idle" })
+    touch()
   }
 
   const removeRule = (id: string) => {
     setConfig((c) => ({ ...c, rules: c.rules.filter((r) => r.id !== id) }))
+    touch()
+  }
+
+  const draftConfig = useMemo<SecurityConfig>(() => ({
+    ...config,
+    rules: config.rules.map((r) => ({ ...r, when: pruneCondition(r.when) })),
+  }), [config])
+  // Validated live against the whole draft document (rule operands are checked
+  // against the inventory fields' known values).
+  const errors = useMemo(
+    () => validateSettingsDocument({ ...settings, security: draftConfig }),
+    [settings, draftConfig]
+  )
+  // Problems with the stored rules that the draft no longer reproduces, i.e.
+  // entries dropped when settings were loaded.
+  const storedErrors = errorsUnder(validationErrors, "security").filter(
+    (e) => !errors.some((d) => d.path === e.path && d.message === e.message)
+  )
+
+  async function previewChanges() {
+    if (errors.length) {
+      setStatus({ type: "error", message: "Fix the rules marked below before saving" })
+      return
+    }
     setStatus({ type: "idle" })
+    setPreview({ type: "loading" })
+    try {
+      const res = await fetch("/api/settings/security/simulate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ security: draftConfig }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setPreview({ type: "error", message: data.error || data.detail || "Preview failed" })
+        return
+      }
+      setPreview({ type: "ready", result: data })
+    } catch (err) {
+      setPreview({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
   }
 
   async function save() {
     setStatus({ type: "saving" })
-    const doc: SettingsDocument = { ...settings, security: config }
+    const doc: SettingsDocument = { ...settings, security: draftConfig }
     try {
       const res = await fetch("/api/settings", {
         method: "PUT",
@@ -88,20 +133,17 @@ export function SecurityRulesEditor({ readOnly = false }: { readOnly?: boolean }
       })
       const data = await res.json()
       if (!res.ok) {
-        setStatus({ type: "error", message: data.error || data.detail || "Save failed" })
+        setStatus({ type: "error", message: data.error || data.detail || "Save failed", errors: data.errors })
         return
       }
       setStatus({ type: "saved", message: "Security rules saved" })
+      setPreview({ type: "idle" })
       await refresh()
     } catch (err) {
       setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
     }
   }
 
-  const ruleUsageValues = (r: SecurityRule) => r.when?.inventory?.usage?.in ?? []
-  const unknownUsage = (r: SecurityRule) =>
-    knownUsage.length > 0 && ruleUsageValues(r).some((v) => !knownUsage.includes(v))
-
   return (
     <fieldset disabled={readOnly} className="space-y-8 min-w-0 border-0 m-0 p-0">
       {readOnly && (
@@ -109,6 +151,14 @@ export function SecurityRulesEditor({ readOnly = false }: { readOnly?: boolean }
           Read-only preview. Sign in as an administrator on a non-demo instance to edit.
         </p>
       )}
+      {storedErrors.length > 0 && (
+        <div className="p-3 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            Some stored rules or defaults were invalid and are being ignored. Saving replaces them.
+          </p>
+          <ValidationErrors errors={storedErrors} />
+        </div>
+      )}
       {/* Baseline defaults */}
       <div>
         <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Baseline severities</h3>
@@ -144,16 +194,18 @@ export function SecurityRulesEditor({ readOnly = false }: { readOnly?: boolean }
       {/* Rules */}
       <div>
         <div className="flex items-center justify-between mb-3">
-          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Usage-aware rules</h3>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Rules</h3>
           <button onClick={addRule}
             className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
             + Add rule
           </button>
         </div>
         <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-          Override the baseline for devices matching a usage. Example: encryption disabled on
+          Override the baseline for devices matching inventory values or device facts (platform, OS, model,
+          enrollment, tags). Example: encryption disabled on
           <span className="font-mono"> Shared</span>/<span className="font-mono">Lab</span> devices → neutral instead of red.
-          When multiple rules match, the most specific wins (ties broken by the last rule).
+          Conditions can be grouped with <em>any of</em>, <em>all of</em> and <em>not</em>.
+          When multiple rules match, the most specific wins (each constrained field counts once; ties broken by the last rule).
         </p>
 
         {config.rules.length === 0 && (
@@ -161,53 +213,81 @@ export function SecurityRulesEditor({ readOnly = false }: { readOnly?: boolean }
         )}
 
         <div className="space-y-3">
-          {config.rules.map((r) => (
-            <div key={r.id} className="border border-gray-200 dark:border-gray-700 rounded-md p-3 flex flex-wrap items-center gap-3">
-              <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
-                <input type="checkbox" checked={r.enabled !== false} onChange={(e) => updateRule(r.id, { enabled: e.target.checked })}
-                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
-                On
-              </label>
-
-              <select value={r.check} onChange={(e) => updateRule(r.id, { check: e.target.value })}
-                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm">
-                {CHECKS.map((c) => <option key={c} value={c}>{c}</option>)}
-              </select>
-
-              <select value={r.state ?? "any"} onChange={(e) => updateRule(r.id, { state: e.target.value as SecurityRule["state"] })}
-                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm">
-                {STATES.map((s) => <option key={s} value={s}>{s}</option>)}
-              </select>
-
-              <span className="text-sm text-gray-500 dark:text-gray-400">when usage in</span>
-              <input value={ruleUsageValues(r).join(", ")} onChange={(e) => setRuleUsage(r.id, e.target.value)}
-                placeholder="Shared, Lab"
-                className="w-44 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm" />
-
-              <span className="text-sm text-gray-500 dark:text-gray-400">→</span>
-              <SeveritySelect value={r.severity} onChange={(v) => updateRule(r.id, { severity: v })} />
-
-              <button onClick={() => removeRule(r.id)}
-                className="ml-auto text-sm text-red-600 hover:text-red-800 dark:text-red-400">Remove</button>
-
-              {unknownUsage(r) && (
-                <p className="w-full text-xs text-amber-600 dark:text-amber-400">
-                  Warning: references a usage value not seen in the fleet&apos;s known values ({knownUsage.join(", ") || "none discovered"}).
-                </p>
-              )}
-            </div>
-          ))}
+          {config.rules.map((r, i) => {
+            const ruleErrors = errorsUnder(errors, `security.rules[${i}]`)
+            return (
+              <div key={r.id} className={`border rounded-md p-3 space-y-3 ${ruleErrors.length ? "border-red-300 dark:border-red-700" : "border-gray-200 dark:border-gray-700"}`}>
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                    <input type="checkbox" checked={r.enabled !== false} onChange={(e) => updateRule(r.id, { enabled: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                    On
+                  </label>
+
+                  <select value={r.check} onChange={(e) => updateRule(r.id, { check: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm">
+                    {CHECKS.map((c) => <option key={c} value={c}>{c}</option>)}
+                  </select>
+
+                  <select value={r.state ?? "any"} onChange={(e) => updateRule(r.id, { state: e.target.value as SecurityRule["state"] })}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm">
+                    {STATES.map((s) => <option key={s} value={s}>{s}</option>)}
+                  </select>
+
+                  <span className="text-sm text-gray-500 dark:text-gray-400">→</span>
+                  <SeveritySelect value={r.severity} onChange={(v) => updateRule(r.id, { severity: v })} />
+
+                  <button onClick={() => removeRule(r.id)}
+                    className="ml-auto text-sm text-red-600 hover:text-red-800 dark:text-red-400">Remove</button>
+                </div>
+
+                <div>
+                  <span className="block text-sm text-gray-500 dark:text-gray-400 mb-1">when</span>
+                  <RuleConditionEditor condition={r.when} fields={inventoryFields}
+                    onChange={(when) => updateRule(r.id, { when })} />
+                </div>
+
+                <ValidationErrors errors={ruleErrors} prefix={`security.rules[${i}]`} />
+              </div>
+            )
+          })}
         </div>
       </div>
 
+      {(preview.type === "ready" || preview.type === "error") && (
+        <div className="border border-blue-200 dark:border-blue-800 rounded-md p-4 bg-blue-50/40 dark:bg-blue-900/10 space-y-3">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white">Impact on the fleet</h3>
+          {preview.type === "ready" && preview.result && <RuleSimulationPreview result={preview.result} />}
+          {preview.type === "error" && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              Couldn&apos;t simulate the draft: {preview.message}. You can still save without a preview.
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center gap-4">
-        <button onClick={save} disabled={status.type === "saving"}
-          className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
-          {status.type === "saving" ? "Saving..." : "Save Rules"}
-        </button>
+        {preview.type === "ready" || preview.type === "error" ? (
+          <>
+            <button onClick={save} disabled={status.type === "saving"}
+              className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
+              {status.type === "saving" ? "Saving..." : preview.type === "error" ? "Save Anyway" : "Confirm & Save"}
+            </button>
+            <button onClick={() => setPreview({ type: "idle" })}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
+              Keep Editing
+            </button>
+          </>
+        ) : (
+          <button onClick={previewChanges} disabled={preview.type === "loading"}
+            className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${preview.type === "loading" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
+            {preview.type === "loading" ? "Simulating..." : "Preview & Save"}
+          </button>
+        )}
         {status.type === "saved" && <span className="text-sm text-green-600 dark:text-green-400">{status.message}</span>}
         {status.type === "error" && <span className="text-sm text-red-600 dark:text-red-400">{status.message}</span>}
       </div>
+      {status.type === "error" && status.errors && <ValidationErrors errors={status.errors} />}
     </fieldset>
   )
 }
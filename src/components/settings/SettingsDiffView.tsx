@@ -0,0 +1,103 @@
+"use client"
+
+import React from "react"
+import { SettingsChange, SettingsDiffSection } from "../../lib/settings/diff"
+
+const SECTION_LABELS: Record<SettingsDiffSection, string> = {
+  general: "General",
+  inventory: "Inventory fields",
+  securityDefaults: "Security defaults",
+  securityRules: "Security rules",
+  statusDefaults: "Status thresholds",
+  statusRules: "Status threshold rules",
+  alertRules: "Alert rules",
+  alertChannels: "Alert channels",
+  reportSchedules: "Report schedules",
+  installErrorCodes: "Installer error codes",
+  clientVersions: "Minimum client versions",
+  baselines: "Drift baselines",
+}
+
+const KIND_CLASSES: Record<SettingsChange["kind"], string> = {
+  added: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  removed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  changed: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+}
+
+function compact(value: unknown): string {
+  if (value === undefined) return "—"
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+function ChangeRow({ change }: { change: SettingsChange }) {
+  const before = (change.before ?? {}) as Record<string, unknown>
+  const after = (change.after ?? {}) as Record<string, unknown>
+  return (
+    <li className="py-2">
+      <div className="flex items-center gap-2">
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${KIND_CLASSES[change.kind]}`}>{change.kind}</span>
+        <span className="font-mono text-sm text-gray-900 dark:text-gray-100">{change.key}</span>
+      </div>
+      {change.kind === "changed" && change.fields ? (
+        <ul className="mt-1 ml-4 space-y-0.5">
+          {change.fields.map((f) => (
+            <li key={f} className="text-xs font-mono text-gray-600 dark:text-gray-400 break-all">
+              {f}:{" "}
+              {f === "position" ? (
+                "moved"
+              ) : (
+                <>
+                  <span className="text-red-600 dark:text-red-400">{compact(before[f])}</span>
+                  {" → "}
+                  <span className="text-green-600 dark:text-green-400">{compact(after[f])}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : change.kind === "changed" ? (
+        <p className="mt-1 ml-4 text-xs font-mono text-gray-600 dark:text-gray-400 break-all">
+          <span className="text-red-600 dark:text-red-400">{compact(change.before)}</span>
+          {" → "}
+          <span className="text-green-600 dark:text-green-400">{compact(change.after)}</span>
+        </p>
+      ) : (
+        <p className="mt-1 ml-4 text-xs font-mono text-gray-600 dark:text-gray-400 break-all">
+          {compact(change.kind === "added" ? change.after : change.before)}
+        </p>
+      )}
+    </li>
+  )
+}
+
+/** Structured settings diff grouped by section, shared by the revision
+ * history and the import preview. */
+export function SettingsDiffView({ changes }: { changes: SettingsChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No differences.</p>
+  }
+
+  const grouped = changes.reduce<Partial<Record<SettingsDiffSection, SettingsChange[]>>>((acc, c) => {
+    ;(acc[c.section] ??= []).push(c)
+    return acc
+  }, {})
+
+  return (
+    <div className="space-y-3">
+      {(Object.keys(SECTION_LABELS) as SettingsDiffSection[]).filter((s) => grouped[s]).map((section) => (
+        <div key={section}>
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+            {SECTION_LABELS[section]}
+          </h4>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {grouped[section]!.map((c) => (
+              <ChangeRow key={`${c.section}-${c.key}`} change={c} />
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default SettingsDiffView
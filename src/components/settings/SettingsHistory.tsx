@@ -0,0 +1,189 @@
+"use client"
+
+import React, { useCallback, useEffect, useMemo, useState } from "react"
+import { useSettings } from "../../providers/SettingsProvider"
+import { diffSettings } from "../../lib/settings/diff"
+import { SettingsRevision, SettingsRevisionSummary } from "../../lib/settings/types"
+import type { SettingsValidationError } from "../../lib/settings/validate"
+import { SettingsDiffView } from "./SettingsDiffView"
+import { ValidationErrors } from "./ValidationErrors"
+
+function formatWhen(iso: string): string {
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString()
+}
+
+/** Revision history of the settings document: who saved it and when, a
+ * structured diff between any two revisions, and restore. Restoring saves the
+ * older document (migrated to the current schema) as a new revision. */
+export function SettingsHistory({ readOnly = false }: { readOnly?: boolean }) {
+  const { refresh } = useSettings()
+  const [revisions, setRevisions] = useState<SettingsRevisionSummary[] | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  // Full documents fetched so far, by revision id.
+  const [documents, setDocuments] = useState<Record<string, SettingsRevision>>({})
+  const [baseId, setBaseId] = useState<string | null>(null)
+  const [targetId, setTargetId] = useState<string | null>(null)
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string; errors?: SettingsValidationError[] }>({ type: "idle" })
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const res = await fetch("/api/settings/revisions", { cache: "no-store" })
+      const data = await res.json()
+      if (!res.ok) {
+        setLoadError(data.error || data.detail || "Failed to load history")
+        return
+      }
+      const list: SettingsRevisionSummary[] = Array.isArray(data) ? data : data.revisions || []
+      setLoadError(null)
+      setRevisions(list)
+      // Default to "what the latest save changed".
+      setTargetId(list[0]?.id ?? null)
+      setBaseId(list[1]?.id ?? null)
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Network error")
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRevisions()
+  }, [loadRevisions])
+
+  // Fetch any selected document we don't have yet.
+  useEffect(() => {
+    const missing = [...new Set([baseId, targetId])].filter((id): id is string => !!id && !documents[id])
+    if (missing.length === 0) return
+    let cancelled = false
+    ;(async () => {
+      try {
+        const fetched = await Promise.all(
+          missing.map(async (id) => {
+            const res = await fetch(`/api/settings/revisions/${encodeURIComponent(id)}`, { cache: "no-store" })
+            const data = await res.json()
+            if (!res.ok) throw new Error(data.error || data.detail || "Failed to load revision")
+            return data as SettingsRevision
+          })
+        )
+        if (cancelled) return
+        setDocuments((prev) => ({ ...prev, ...Object.fromEntries(missing.map((id, i) => [id, fetched[i]])) }))
+      } catch (err) {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : "Network error")
+      }
+    })()
+    return () => { cancelled = true }
+  }, [baseId, targetId, documents])
+
+  const base = baseId ? documents[baseId] : undefined
+  const target = targetId ? documents[targetId] : undefined
+  const changes = useMemo(
+    () => (base && target ? diffSettings(base.value, target.value) : null),
+    [base, target]
+  )
+
+  async function restore(revision: SettingsRevisionSummary) {
+    const confirmed = window.confirm(
+      `Restore the settings saved ${formatWhen(revision.updatedAt)}${revision.updatedBy ? ` by ${revision.updatedBy}` : ""}? ` +
+        "The current settings stay in history and can be restored later."
+    )
+    if (!confirmed) return
+
+    setStatus({ type: "saving" })
+    try {
+      const res = await fetch(`/api/settings/revisions/${encodeURIComponent(revision.id)}/restore`, { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) {
+        setStatus({ type: "error", message: data.error || data.detail || "Restore failed", errors: data.errors })
+        return
+      }
+      setStatus({ type: "saved", message: "Revision restored" })
+      await refresh()
+      await loadRevisions()
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
+  }
+
+  if (loadError && !revisions) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+  }
+  if (!revisions) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading history...</p>
+  }
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-600 dark:text-gray-400">No settings have been saved yet.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-gray-600 dark:text-gray-400">
+        Every save is kept as a revision. Pick two revisions to compare (A is the older side), or restore an
+        earlier one.
+      </p>
+
+      <div className="border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden max-h-80 overflow-y-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-center font-medium text-gray-500 dark:text-gray-400">A</th>
+              <th className="px-3 py-2 text-center font-medium text-gray-500 dark:text-gray-400">B</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Saved</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">By</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Schema</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {revisions.map((r, i) => (
+              <tr key={r.id}>
+                <td className="px-3 py-2 text-center">
+                  <input type="radio" name="history-base" checked={baseId === r.id} onChange={() => setBaseId(r.id)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500" aria-label="Compare from this revision" />
+                </td>
+                <td className="px-3 py-2 text-center">
+                  <input type="radio" name="history-target" checked={targetId === r.id} onChange={() => setTargetId(r.id)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500" aria-label="Compare to this revision" />
+                </td>
+                <td className="px-3 py-2 text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                  {formatWhen(r.updatedAt)}
+                  {i === 0 && <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">current</span>}
+                  {r.restoredFrom && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">restored from #{r.restoredFrom}</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{r.updatedBy || "—"}</td>
+                <td className="px-3 py-2 text-gray-700 dark:text-gray-300">v{r.schemaVersion}</td>
+                <td className="px-3 py-2 text-right">
+                  {!readOnly && i > 0 && (
+                    <button onClick={() => restore(r)} disabled={status.type === "saving"}
+                      className="px-2 py-1 text-xs font-medium rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50">
+                      Restore
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {status.type === "saving" && <p className="text-sm text-gray-500 dark:text-gray-400">Restoring...</p>}
+      {status.type === "saved" && <p className="text-sm text-green-600 dark:text-green-400">{status.message}</p>}
+      {status.type === "error" && <p className="text-sm text-red-600 dark:text-red-400">{status.message}</p>}
+      {status.type === "error" && status.errors && <ValidationErrors errors={status.errors} />}
+      {loadError && <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>}
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Changes from A to B</h3>
+        {!baseId || !targetId ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Select two revisions to compare.</p>
+        ) : !changes ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading revisions...</p>
+        ) : (
+          <SettingsDiffView changes={changes} />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default SettingsHistory
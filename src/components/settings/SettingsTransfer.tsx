@@ -0,0 +1,184 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { useSettings } from "../../providers/SettingsProvider"
+import {
+  applySettingsImport,
+  createSettingsBundle,
+  parseSettingsBundle,
+  ParsedSettingsBundle,
+  serializeSettingsBundle,
+  SettingsBundleEncoding,
+  SettingsImportMode,
+} from "../../lib/settings/bundle"
+import { diffSettings } from "../../lib/settings/diff"
+import { validateSettingsDocument } from "../../lib/settings/validate"
+import { SettingsDiffView } from "./SettingsDiffView"
+import { ValidationErrors } from "./ValidationErrors"
+
+function download(text: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/** Export the settings document as a checksummed JSON/YAML bundle, and import
+ * one from another instance: validate, migrate, preview the diff against the
+ * current settings, then merge or replace. */
+export function SettingsTransfer({ readOnly = false }: { readOnly?: boolean }) {
+  const { settings, refresh } = useSettings()
+  const [imported, setImported] = useState<(ParsedSettingsBundle & { fileName: string }) | null>(null)
+  const [mode, setMode] = useState<SettingsImportMode>("merge")
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string }>({ type: "idle" })
+
+  const result = useMemo(
+    () => (imported?.settings ? applySettingsImport(settings, imported.settings, mode) : null),
+    [imported, settings, mode]
+  )
+  const changes = useMemo(() => (result ? diffSettings(settings, result) : null), [settings, result])
+  // A merge can still produce an invalid document, e.g. imported rules that
+  // reference values the current inventory fields don't know.
+  const resultErrors = useMemo(() => (result ? validateSettingsDocument(result) : []), [result])
+  const blocked = status.type === "saving" || !changes || changes.length === 0 || resultErrors.length > 0
+
+  async function exportAs(encoding: SettingsBundleEncoding) {
+    const bundle = await createSettingsBundle(settings, { source: settings.general?.fleetName ?? null })
+    const date = bundle.exportedAt.slice(0, 10)
+    download(
+      serializeSettingsBundle(bundle, encoding),
+      `reportmate-settings-${date}.${encoding === "yaml" ? "yaml" : "json"}`,
+      encoding === "yaml" ? "application/yaml" : "application/json"
+    )
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+    setStatus({ type: "idle" })
+    const parsed = await parseSettingsBundle(await file.text())
+    setImported({ ...parsed, fileName: file.name })
+  }
+
+  async function apply() {
+    if (!result) return
+    setStatus({ type: "saving" })
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setStatus({ type: "error", message: data.error || data.detail || "Import failed" })
+        return
+      }
+      setStatus({ type: "saved", message: `Imported ${imported?.fileName}` })
+      setImported(null)
+      await refresh()
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Export</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Download inventory mappings, security defaults and rules, and status thresholds as a checksummed file to
+          import into another ReportMate instance.
+        </p>
+        <div className="flex gap-2">
+          <button onClick={() => exportAs("json")}
+            className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">
+            Export JSON
+          </button>
+          <button onClick={() => exportAs("yaml")}
+            className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">
+            Export YAML
+          </button>
+        </div>
+      </section>
+
+      <fieldset disabled={readOnly} className="space-y-3 min-w-0 border-0 m-0 p-0">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Import</h3>
+        {readOnly && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            Sign in as an administrator on a non-demo instance to import settings.
+          </p>
+        )}
+        <input type="file" accept=".json,.yaml,.yml,application/json,application/yaml" onChange={onFile}
+          className="block text-sm text-gray-700 dark:text-gray-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 dark:file:bg-blue-900 dark:file:text-blue-200" />
+
+        {imported && imported.errors.length > 0 && (
+          <div className="p-3 rounded-md border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+            <p className="text-sm font-medium text-red-700 dark:text-red-300">{imported.fileName} can&apos;t be imported:</p>
+            <div className="mt-1">
+              <ValidationErrors errors={imported.errors} />
+            </div>
+          </div>
+        )}
+
+        {imported?.bundle && changes && (
+          <div className="space-y-3 p-4 rounded-md border border-gray-200 dark:border-gray-700">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="font-medium">{imported.fileName}</span>
+              {imported.bundle.source && <> from {imported.bundle.source}</>}, exported{" "}
+              {new Date(imported.bundle.exportedAt).toLocaleString()}
+              {imported.bundle.schemaVersion !== imported.settings?.schemaVersion && (
+                <> (schema v{imported.bundle.schemaVersion}, upgraded to v{imported.settings?.schemaVersion})</>
+              )}
+            </p>
+
+            <div className="flex gap-4 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                <input type="radio" name="import-mode" checked={mode === "merge"} onChange={() => setMode("merge")}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500" />
+                Merge (keep settings the file doesn&apos;t mention)
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" name="import-mode" checked={mode === "replace"} onChange={() => setMode("replace")}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500" />
+                Replace
+              </label>
+            </div>
+
+            <SettingsDiffView changes={changes} />
+
+            {resultErrors.length > 0 && (
+              <div className="p-3 rounded-md border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+                <p className="text-sm font-medium text-red-700 dark:text-red-300">
+                  The {mode === "merge" ? "merged" : "imported"} settings would be invalid:
+                </p>
+                <div className="mt-1">
+                  <ValidationErrors errors={resultErrors} />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-3">
+              <button onClick={apply} disabled={blocked}
+                className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${blocked ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
+                {status.type === "saving" ? "Importing..." : mode === "merge" ? "Merge Settings" : "Replace Settings"}
+              </button>
+              <button onClick={() => setImported(null)}
+                className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {status.type === "saved" && <p className="text-sm text-green-600 dark:text-green-400">{status.message}</p>}
+        {status.type === "error" && <p className="text-sm text-red-600 dark:text-red-400">{status.message}</p>}
+      </fieldset>
+    </div>
+  )
+}
+
+export default SettingsTransfer
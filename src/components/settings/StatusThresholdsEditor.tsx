@@ -0,0 +1,206 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { useSettings } from "../../providers/SettingsProvider"
+import { DEFAULT_STATUS_SETTINGS } from "../../lib/settings/defaults"
+import {
+  SettingsDocument,
+  StatusSettings,
+  StatusThresholdRule,
+  StatusThresholds,
+} from "../../lib/settings/types"
+import { errorsUnder, SettingsValidationError, validateSettingsDocument } from "../../lib/settings/validate"
+import { RuleConditionEditor, pruneCondition } from "./RuleConditionEditor"
+import { ValidationErrors } from "./ValidationErrors"
+
+function HoursInput({ value, invalid, onChange }: { value: number; invalid?: boolean; onChange: (v: number) => void }) {
+  return (
+    <input type="number" min={1} value={Number.isFinite(value) ? value : ""} onChange={(e) => onChange(e.target.valueAsNumber)}
+      className={`w-24 px-2 py-1 border rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm ${invalid ? "border-red-400 dark:border-red-600" : "border-gray-300 dark:border-gray-600"}`} />
+  )
+}
+
+function ThresholdInputs({ value, errors, onChange }: {
+  value: StatusThresholds
+  errors: SettingsValidationError[]
+  onChange: (v: StatusThresholds) => void
+}) {
+  const invalid = (key: keyof StatusThresholds) => errors.some((e) => e.path.endsWith(key))
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+      Active within
+      <HoursInput value={value.activeThresholdHours} invalid={invalid("activeThresholdHours")}
+        onChange={(v) => onChange({ ...value, activeThresholdHours: v })} />
+      h, stale within
+      <HoursInput value={value.staleThresholdHours} invalid={invalid("staleThresholdHours")}
+        onChange={(v) => onChange({ ...value, staleThresholdHours: v })} />
+      h, missing after that
+    </div>
+  )
+}
+
+let ruleSeq = 0
+
+/** Edits `settings.status`: the fleet-wide active/stale thresholds and
+ * per-segment overrides (usage, catalog, platform, ...). */
+export function StatusThresholdsEditor({ readOnly = false }: { readOnly?: boolean }) {
+  const { settings, inventoryFields, validationErrors, refresh } = useSettings()
+  const [config, setConfig] = useState<StatusSettings>(() => structuredClone(settings.status ?? DEFAULT_STATUS_SETTINGS))
+  const [status, setStatus] = useState<{ type: "idle" | "saving" | "saved" | "error"; message?: string; errors?: SettingsValidationError[] }>({ type: "idle" })
+
+  const updateRule = (id: string, patch: Partial<StatusThresholdRule>) => {
+    setConfig((c) => ({ ...c, rules: c.rules.map((r) => (r.id === id ? { ...r, ...patch } : r)) }))
+    setStatus({ type: "idle" })
+  }
+
+  const addRule = () => {
+    ruleSeq += 1
+    const rule: StatusThresholdRule = {
+      id: `status-${Date.now()}-${ruleSeq}`,
+      label: "",
+      enabled: true,
+      when: { inventory: { usage: { in: ["Lab"] } } },
+      thresholds: { ...config.defaults },
+    }
+    setConfig((c) => ({ ...c, rules: [...c.rules, rule] }))
+    setStatus({ type: "idle" })
+  }
+
+  const removeRule = (id: string) => {
+    setConfig((c) => ({ ...c, rules: c.rules.filter((r) => r.id !== id) }))
+    setStatus({ type: "idle" })
+  }
+
+  const draft = useMemo<StatusSettings>(() => ({
+    ...config,
+    rules: config.rules.map((r) => ({ ...r, label: r.label?.trim() || undefined, when: pruneCondition(r.when) })),
+  }), [config])
+  const errors = useMemo(() => validateSettingsDocument({ ...settings, status: draft }), [settings, draft])
+  // Problems with the stored thresholds the draft no longer reproduces, i.e.
+  // entries dropped when settings were loaded.
+  const storedErrors = errorsUnder(validationErrors, "status").filter(
+    (e) => !errors.some((d) => d.path === e.path && d.message === e.message)
+  )
+
+  async function save() {
+    if (errors.length) {
+      setStatus({ type: "error", message: "Fix the thresholds marked below before saving" })
+      return
+    }
+    setStatus({ type: "saving" })
+    const doc: SettingsDocument = { ...settings, status: draft }
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(doc),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setStatus({ type: "error", message: data.error || data.detail || "Save failed", errors: data.errors })
+        return
+      }
+      setStatus({ type: "saved", message: "Status thresholds saved" })
+      await refresh()
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Network error" })
+    }
+  }
+
+  const defaultErrors = errorsUnder(errors, "status.defaults")
+
+  return (
+    <fieldset disabled={readOnly} className="space-y-8 min-w-0 border-0 m-0 p-0">
+      {readOnly && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          Read-only preview. Sign in as an administrator on a non-demo instance to edit.
+        </p>
+      )}
+      {storedErrors.length > 0 && (
+        <div className="p-3 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            Some stored thresholds were invalid and are being ignored. Saving replaces them.
+          </p>
+          <ValidationErrors errors={storedErrors} />
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Default thresholds</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          How long since its last check-in a device counts as active, then stale, before it&apos;s reported missing.
+          Used by device lists, reports and the dashboard status chart.
+        </p>
+        <ThresholdInputs value={config.defaults} errors={defaultErrors}
+          onChange={(defaults) => { setConfig((c) => ({ ...c, defaults })); setStatus({ type: "idle" }) }} />
+        <div className="mt-2">
+          <ValidationErrors errors={defaultErrors} prefix="status.defaults" />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Segment overrides</h3>
+          <button onClick={addRule}
+            className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
+            + Add override
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Different thresholds for part of the fleet, e.g. laptops that travel or lab machines that are powered off at
+          weekends. Match on usage, catalog, platform or any other inventory value or device fact. When several
+          overrides match, the most specific wins (ties go to the last one).
+        </p>
+
+        {config.rules.length === 0 && (
+          <p className="text-sm text-gray-400 dark:text-gray-500 italic">No overrides. The defaults above apply to every device.</p>
+        )}
+
+        <div className="space-y-3">
+          {config.rules.map((r, i) => {
+            const ruleErrors = errorsUnder(errors, `status.rules[${i}]`)
+            return (
+              <div key={r.id} className={`border rounded-md p-3 space-y-3 ${ruleErrors.length ? "border-red-300 dark:border-red-700" : "border-gray-200 dark:border-gray-700"}`}>
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                    <input type="checkbox" checked={r.enabled !== false} onChange={(e) => updateRule(r.id, { enabled: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                    On
+                  </label>
+                  <input type="text" value={r.label ?? ""} placeholder="Name (e.g. Lab machines)"
+                    onChange={(e) => updateRule(r.id, { label: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm" />
+                  <button onClick={() => removeRule(r.id)}
+                    className="ml-auto text-sm text-red-600 hover:text-red-800 dark:text-red-400">Remove</button>
+                </div>
+
+                <ThresholdInputs value={r.thresholds} errors={errorsUnder(ruleErrors, `status.rules[${i}].thresholds`)}
+                  onChange={(thresholds) => updateRule(r.id, { thresholds })} />
+
+                <div>
+                  <span className="block text-sm text-gray-500 dark:text-gray-400 mb-1">when</span>
+                  <RuleConditionEditor condition={r.when} fields={inventoryFields}
+                    onChange={(when) => updateRule(r.id, { when })} />
+                </div>
+
+                <ValidationErrors errors={ruleErrors} prefix={`status.rules[${i}]`} />
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button onClick={save} disabled={status.type === "saving"}
+          className={`px-4 py-2 text-sm font-medium rounded-md text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${status.type === "saving" ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"}`}>
+          {status.type === "saving" ? "Saving..." : "Save Thresholds"}
+        </button>
+        {status.type === "saved" && <span className="text-sm text-green-600 dark:text-green-400">{status.message}</span>}
+        {status.type === "error" && <span className="text-sm text-red-600 dark:text-red-400">{status.message}</span>}
+      </div>
+      {status.type === "error" && status.errors && <ValidationErrors errors={status.errors} />}
+    </fieldset>
+  )
+}
+
+export default StatusThresholdsEditor
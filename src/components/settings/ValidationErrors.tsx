@@ -0,0 +1,24 @@
+"use client"
+
+import React from "react"
+import type { SettingsValidationError } from "../../lib/settings/validate"
+
+/** Inline list of settings validation errors. Paths are shown relative to
+ * `prefix` (e.g. `when.inventory.usage.in` under `security.rules[2]`). */
+export function ValidationErrors({ errors, prefix = "" }: { errors: SettingsValidationError[]; prefix?: string }) {
+  if (errors.length === 0) return null
+  const relative = (path: string) =>
+    prefix && path.startsWith(prefix) ? path.slice(prefix.length).replace(/^\./, "") : path
+  return (
+    <ul className="space-y-0.5">
+      {errors.map((e, i) => (
+        <li key={`${e.path}-${i}`} className="text-xs text-red-600 dark:text-red-400">
+          {relative(e.path) && <span className="font-mono">{relative(e.path)}: </span>}
+          {e.message}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default ValidationErrors
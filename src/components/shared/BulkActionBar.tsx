@@ -0,0 +1,228 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useHasRole } from "../../../hooks/useAuth"
+import { ADMIN_ROLE } from "../../../lib/auth-roles"
+import type { BulkSelection } from "../../hooks/useBulkSelection"
+import { BULK_ACTION_LABELS, BULK_ACTIONS, BulkAction, BulkJob, BulkSummary, describeBulkJob } from "../../lib/devices/bulk"
+import type { ExportDataset } from "../../lib/export/datasets"
+
+type JobWithSummary = BulkJob & { summary: BulkSummary }
+
+const POLL_MS = 1000
+
+const inputClass =
+  "px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+const buttonClass =
+  "px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+
+/** Actions that change or remove devices ask first. */
+const CONFIRM: Partial<Record<BulkAction, string>> = {
+  archive: "Archive {n}? Archived devices drop out of the fleet lists until unarchived.",
+  delete: "Permanently delete {n} and all their data? This cannot be undone.",
+  clearInstallErrors: "Clear the install errors and warnings of {n}? Other devices keep theirs.",
+}
+
+/** Header checkbox: checks every visible row, indeterminate when some are. */
+export function BulkSelectAllCheckbox({ selection, label = "Select all" }: { selection: BulkSelection; label?: string }) {
+  const ref = useRef<HTMLInputElement>(null)
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = selection.someSelected
+  }, [selection.someSelected])
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      checked={selection.allSelected}
+      onChange={selection.toggleAll}
+      aria-label={label}
+      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+    />
+  )
+}
+
+export function BulkSelectCheckbox({ selection, serialNumber, label }: { selection: BulkSelection; serialNumber: string; label?: string }) {
+  return (
+    <input
+      type="checkbox"
+      checked={selection.isSelected(serialNumber)}
+      onChange={() => selection.toggle(serialNumber)}
+      aria-label={`Select ${label || serialNumber}`}
+      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+    />
+  )
+}
+
+interface BulkActionBarProps {
+  selection: BulkSelection
+  /** The export dataset of the list, for exporting the selection. */
+  dataset: ExportDataset
+  /** Called when a job finishes, so the list can reload. */
+  onComplete?: () => void
+  /** Extra controls shown with the selection, e.g. the devices list's compare link. */
+  children?: React.ReactNode
+}
+
+/**
+ * The fleet lists' bulk action bar: export the checked devices, and for
+ * admins archive, unarchive, delete, tag or clear their install errors as a
+ * server-side job with per-device progress and a retry for the failures.
+ */
+export function BulkActionBar({ selection, dataset, onComplete, children }: BulkActionBarProps) {
+  const isAdmin = useHasRole(ADMIN_ROLE)
+  const [action, setAction] = useState<BulkAction>("archive")
+  const [tag, setTag] = useState("")
+  const [untag, setUntag] = useState(false)
+  const [job, setJob] = useState<JobWithSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showResults, setShowResults] = useState(false)
+  const onCompleteRef = useRef(onComplete)
+  onCompleteRef.current = onComplete
+
+  const running = job?.state === "running"
+  const jobId = job?.id
+
+  // Poll the running job until it finishes
+  useEffect(() => {
+    if (!running || !jobId) return
+    const timer = setInterval(async () => {
+      try {
+        const resp = await fetch(`/api/admin/devices/bulk/${encodeURIComponent(jobId)}`, { cache: "no-store" })
+        if (!resp.ok) return
+        const next: JobWithSummary = (await resp.json()).job
+        setJob(next)
+        if (next.state !== "running") onCompleteRef.current?.()
+      } catch {
+        // Try again on the next tick
+      }
+    }, POLL_MS)
+    return () => clearInterval(timer)
+  }, [running, jobId])
+
+  const start = async (url: string, body?: unknown) => {
+    setError(null)
+    setShowResults(false)
+    try {
+      const resp = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      })
+      const data = await resp.json().catch(() => null)
+      if (!resp.ok) {
+        setError(data?.errors?.map((e: { path: string; message: string }) => `${e.path} ${e.message}`).join("; ") || data?.error || `Request failed (${resp.status})`)
+        return
+      }
+      setJob(data.job)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const run = () => {
+    const n = `${selection.selected.length} device${selection.selected.length === 1 ? "" : "s"}`
+    const question = CONFIRM[action]
+    if (question && !window.confirm(question.replace("{n}", n))) return
+    start("/api/admin/devices/bulk", {
+      action,
+      serials: selection.selected,
+      ...(action === "tag" ? { tags: { [untag ? "remove" : "add"]: [tag] } } : {}),
+    })
+  }
+
+  const failures = job?.results.filter((r) => !r.ok) ?? []
+  if (selection.selected.length === 0 && !job) return null
+
+  const exportHref = (format: string) =>
+    `/api/v1/export/${dataset}?format=${format}&devices=${selection.selected.map(encodeURIComponent).join(",")}`
+
+  return (
+    <div className="px-4 lg:px-6 py-2 border-b border-gray-200 dark:border-gray-700 bg-blue-50/50 dark:bg-blue-900/10 text-sm space-y-2">
+      {selection.selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-gray-900 dark:text-white">{selection.selected.length} selected</span>
+          <button onClick={selection.clear} className="text-gray-600 dark:text-gray-400 hover:underline">
+            Clear
+          </button>
+          {children}
+          <a href={exportHref("csv")} className={buttonClass}>
+            Export CSV
+          </a>
+          <a href={exportHref("xlsx")} className={buttonClass}>
+            Export XLSX
+          </a>
+          {isAdmin && (
+            <>
+              <select value={action} onChange={(e) => setAction(e.target.value as BulkAction)} aria-label="Bulk action" className={inputClass}>
+                {BULK_ACTIONS.map((a) => (
+                  <option key={a} value={a}>
+                    {BULK_ACTION_LABELS[a]}
+                  </option>
+                ))}
+              </select>
+              {action === "tag" && (
+                <>
+                  <select value={untag ? "remove" : "add"} onChange={(e) => setUntag(e.target.value === "remove")} aria-label="Add or remove" className={inputClass}>
+                    <option value="add">Add</option>
+                    <option value="remove">Remove</option>
+                  </select>
+                  <input value={tag} onChange={(e) => setTag(e.target.value)} placeholder="Tag" aria-label="Tag" className={`${inputClass} w-32`} />
+                </>
+              )}
+              <button onClick={run} disabled={running || (action === "tag" && !tag.trim())} className={buttonClass}>
+                Run
+              </button>
+            </>
+          )}
+          {error && <span className="text-red-700 dark:text-red-400">{error}</span>}
+        </div>
+      )}
+
+      {job && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-gray-700 dark:text-gray-300">{describeBulkJob(job)}</span>
+          <div className="w-40 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden" aria-hidden>
+            <div
+              className={`h-full ${job.summary.failed ? "bg-amber-500" : "bg-blue-600"}`}
+              style={{ width: `${Math.round(((job.summary.requested - job.summary.pending) / Math.max(job.summary.requested, 1)) * 100)}%` }}
+            />
+          </div>
+          <span className="text-gray-600 dark:text-gray-400">
+            {job.summary.requested - job.summary.pending} of {job.summary.requested}
+            {job.summary.failed > 0 && <span className="text-red-700 dark:text-red-400">, {job.summary.failed} failed</span>}
+            {job.state === "interrupted" && ", interrupted"}
+            {job.state === "done" && job.summary.failed === 0 && ", done"}
+          </span>
+          {failures.length > 0 && (
+            <button onClick={() => setShowResults(!showResults)} className="text-blue-600 dark:text-blue-400 hover:underline">
+              {showResults ? "Hide failures" : "Show failures"}
+            </button>
+          )}
+          {!running && (failures.length > 0 || job.state === "interrupted") && (
+            <button onClick={() => start(`/api/admin/devices/bulk/${encodeURIComponent(job.id)}/retry`)} className={buttonClass}>
+              Retry failed
+            </button>
+          )}
+          {!running && (
+            <button onClick={() => setJob(null)} className="text-gray-600 dark:text-gray-400 hover:underline">
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+
+      {job && showResults && failures.length > 0 && (
+        <ul className="max-h-40 overflow-auto font-mono text-xs text-gray-700 dark:text-gray-300">
+          {failures.map((r) => (
+            <li key={r.serialNumber}>
+              {r.serialNumber}: {r.status || "unreachable"}
+              {r.detail ? ` ${r.detail}` : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default BulkActionBar
@@ -16,6 +16,14 @@ export interface FilterOptions {
   usages: string[]
 }
 
+/** A selection dimension for an org-defined inventory field (e.g. Cost Center). */
+export interface CustomFilterGroup {
+  key: string
+  label: string
+  options: string[]
+  selected: string[]
+}
+
 interface DeviceFiltersProps {
   filterOptions: FilterOptions
   selectedStatuses: string[]
@@ -40,6 +48,9 @@ interface DeviceFiltersProps {
   onToggle?: () => void
   /** Optional device count per location for proportional sizing */
   locationCounts?: Record<string, number>
+  /** Custom inventory field dimensions, rendered after Location */
+  customFilters?: CustomFilterGroup[]
+  onCustomToggle?: (key: string, value: string) => void
 }
 
 export default function DeviceFilters({
@@ -59,14 +70,17 @@ export default function DeviceFilters({
   onClearAll,
   expanded: externalExpanded,
   onToggle,
-  locationCounts
+  locationCounts,
+  customFilters = [],
+  onCustomToggle
 }: DeviceFiltersProps) {
   const [internalExpanded, setInternalExpanded] = useState(false)
   const filtersExpanded = externalExpanded !== undefined ? externalExpanded : internalExpanded
   const setFiltersExpanded = (val: boolean) => setInternalExpanded(val)
 
   const totalActiveFilters = selectedStatuses.length + selectedCatalogs.length + selectedAreas.length +
-    selectedLocations.length + selectedFleets.length + selectedUsages.length
+    selectedLocations.length + selectedFleets.length + selectedUsages.length +
+    customFilters.reduce((n, group) => n + group.selected.length, 0)
 
   return (
     <div className="border-b border-gray-200 dark:border-gray-700">
@@ -276,6 +290,31 @@ export default function DeviceFilters({
               </div>
             </div>
           )}
+
+          {/* Custom inventory fields defined in Settings > Inventory */}
+          {customFilters.map(group => (
+            <div key={group.key} className="mt-4">
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">{group.label}</div>
+              <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+                {group.options.map(option => {
+                  const isSelected = group.selected.some(s => s.toLowerCase() === option.toLowerCase())
+                  return (
+                    <button
+                      key={option}
+                      onClick={() => onCustomToggle?.(group.key, option)}
+                      className={`px-3 py-1 text-xs font-medium rounded-full border whitespace-nowrap transition-colors ${
+                        isSelected
+                          ? 'bg-cyan-100 dark:bg-cyan-900/30 text-cyan-800 dark:text-cyan-200 border-cyan-300 dark:border-cyan-700'
+                          : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
         </div>
       </CollapsibleSection>
 
@@ -0,0 +1,184 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from "react"
+import { useSettingsOptional } from "../../providers/SettingsProvider"
+import { DEFAULT_SECURITY_CONFIG } from "../../lib/settings/defaults"
+import type { RuleOutcome, SecurityEvaluation } from "../../lib/rules/evaluateSecurity"
+import type { RuleCondition, RuleOperator, SecurityRule, Severity } from "../../lib/settings/types"
+
+const SEVERITY_TEXT: Record<Severity, string> = {
+  ok: "text-green-600 dark:text-green-400",
+  warning: "text-amber-600 dark:text-amber-400",
+  danger: "text-red-600 dark:text-red-400",
+  neutral: "text-gray-700 dark:text-gray-300",
+  unknown: "text-gray-400 dark:text-gray-500",
+}
+
+const PANEL_WIDTH = 320
+
+const OUTCOME_LABELS: Record<RuleOutcome, string> = {
+  disabled: "rule is off",
+  "state-mismatch": "state doesn't apply",
+  "no-match": "conditions not met",
+  matched: "matched",
+}
+
+const OPERATOR_SYMBOLS: Record<Exclude<keyof RuleOperator, "exists" | "missing">, string> = {
+  in: "in",
+  notIn: "not in",
+  eq: "=",
+  ne: "≠",
+  matches: "matches",
+  glob: "like",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+}
+
+function describeOperator(key: string, op: RuleOperator): string[] {
+  return (Object.keys(op) as (keyof RuleOperator)[]).map((name) => {
+    const value = op[name]
+    if (name === "exists") return `${key} ${value ? "exists" : "missing"}`
+    if (name === "missing") return `${key} ${value ? "missing" : "exists"}`
+    const shown = Array.isArray(value) ? `[${value.join(", ")}]` : String(value)
+    return `${key} ${OPERATOR_SYMBOLS[name]} ${shown}`
+  })
+}
+
+/** One-line, human-readable form of a rule condition, e.g.
+ * `usage in [Lab, Shared] and not (location = Vancouver)`. */
+function describeCondition(when: RuleCondition | undefined): string {
+  if (!when) return "always"
+  const parts: string[] = []
+  for (const [key, op] of Object.entries(when.inventory ?? {})) if (op) parts.push(...describeOperator(key, op))
+  for (const [key, op] of Object.entries(when.device ?? {})) if (op) parts.push(...describeOperator(key, op))
+  if (when.allOf?.length) parts.push(...when.allOf.map((c) => `(${describeCondition(c)})`))
+  if (when.anyOf?.length) parts.push(`any of (${when.anyOf.map(describeCondition).join("; ")})`)
+  if (when.not) parts.push(`not (${describeCondition(when.not)})`)
+  return parts.length ? parts.join(" and ") : "always"
+}
+
+/**
+ * Wraps a security severity badge so clicking it explains the severity: the
+ * baseline it started from, each org rule for the check and why it did or
+ * didn't apply, and which rule won.
+ */
+export function SeverityTracePopover({ evaluation, children }: { evaluation: SecurityEvaluation; children: React.ReactNode }) {
+  // Viewport position of the open panel. Fixed positioning keeps it clear of
+  // the scrolling table containers the badges sit in.
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null)
+  const open = position !== null
+  const ref = useRef<HTMLSpanElement>(null)
+  const settings = useSettingsOptional()
+  const rulesById = new Map<string, SecurityRule>((settings?.securityConfig ?? DEFAULT_SECURITY_CONFIG).rules.map((r) => [r.id, r]))
+
+  useEffect(() => {
+    if (!open) return
+    const close = () => setPosition(null)
+    const onPointer = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) close()
+    }
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") close()
+    }
+    document.addEventListener("mousedown", onPointer)
+    document.addEventListener("keydown", onKey)
+    window.addEventListener("scroll", close, true)
+    window.addEventListener("resize", close)
+    return () => {
+      document.removeEventListener("mousedown", onPointer)
+      document.removeEventListener("keydown", onKey)
+      window.removeEventListener("scroll", close, true)
+      window.removeEventListener("resize", close)
+    }
+  }, [open])
+
+  const { baseline, considered, winner } = evaluation
+
+  return (
+    <span ref={ref} className="inline-flex">
+      <button
+        type="button"
+        onClick={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          if (open) return setPosition(null)
+          const rect = e.currentTarget.getBoundingClientRect()
+          setPosition({
+            top: rect.bottom + 4,
+            left: Math.max(8, Math.min(rect.left, window.innerWidth - PANEL_WIDTH - 8)),
+          })
+        }}
+        className="inline-flex items-center cursor-help underline decoration-dotted decoration-gray-400 underline-offset-2"
+        title="Why this severity?"
+        aria-expanded={open}
+      >
+        {children}
+      </button>
+      {open && (
+        <div
+          role="dialog"
+          onClick={(e) => e.stopPropagation()}
+          style={{ ...position, width: PANEL_WIDTH }}
+          className="fixed z-50 p-3 text-left bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg space-y-2"
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-gray-900 dark:text-white">{evaluation.check}</span>
+            <span className={`text-xs font-medium ${SEVERITY_TEXT[evaluation.severity]}`}>{evaluation.severity}</span>
+          </div>
+
+          {baseline ? (
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Baseline for {evaluation.enabled ? "enabled" : "disabled"}:{" "}
+              <span className={`font-medium ${SEVERITY_TEXT[baseline.severity]}`}>{baseline.severity}</span>
+              {baseline.source === "fallback" ? " (no default configured for this check)" : " (check default)"}
+            </p>
+          ) : (
+            <p className="text-xs text-gray-600 dark:text-gray-400">State not reported, so no rules were evaluated.</p>
+          )}
+
+          {baseline && considered.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No rules target this check.</p>
+          )}
+
+          {considered.length > 0 && (
+            <ul className="space-y-1.5">
+              {considered.map((entry) => {
+                const rule = rulesById.get(entry.ruleId)
+                const won = entry.ruleId === winner
+                return (
+                  <li
+                    key={`${entry.index}-${entry.ruleId}`}
+                    className={`text-xs rounded px-2 py-1 ${won ? "bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800" : "bg-gray-50 dark:bg-gray-900/40"}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-gray-700 dark:text-gray-300">
+                        Rule {entry.index + 1} → <span className={`font-medium ${SEVERITY_TEXT[entry.severity]}`}>{entry.severity}</span>
+                      </span>
+                      <span className={entry.outcome === "matched" ? "text-gray-900 dark:text-white font-medium" : "text-gray-400 dark:text-gray-500"}>
+                        {won ? "applied" : OUTCOME_LABELS[entry.outcome]}
+                        {entry.specificity !== undefined && ` · specificity ${entry.specificity}`}
+                      </span>
+                    </div>
+                    {rule && (
+                      <div className="mt-0.5 font-mono text-[11px] text-gray-500 dark:text-gray-400 break-words">
+                        {rule.state && rule.state !== "any" ? `when ${rule.state}, ` : ""}{describeCondition(rule.when)}
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+
+          {baseline && !winner && considered.length > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No rule applied; the baseline stands.</p>
+          )}
+        </div>
+      )}
+    </span>
+  )
+}
+
+export default SeverityTracePopover
@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { formatRelativeTime, formatExactTime } from '../../lib/time';
 import { InstallsInfo, InstallPackage, ErrorMessage, WarningMessage } from '../../lib/data-processing/modules/installs';
+import { InstallErrorHint } from '../installs/InstallErrorHint';
 
 // Helper function to format item size from bytes to human readable format
 const formatItemSize = (sizeBytes?: string): string => {
@@ -704,6 +705,7 @@ export const ManagedInstallsTable: React.FC<ManagedInstallsTableProps> = ({ data
                                                     <p className="text-sm text-red-700 dark:text-red-300">
                                                       {error.message}
                                                     </p>
+                                                    <InstallErrorHint code={error.code} message={error.message} className="mt-1" />
                                                     {error.details && (
                                                       <pre className="text-xs text-gray-600 dark:text-gray-400 mt-2 whitespace-pre-wrap font-mono bg-gray-50 dark:bg-gray-900 p-3 rounded border border-gray-200 dark:border-gray-700 max-h-[300px] overflow-y-auto">
                                                         {error.details}
@@ -940,6 +942,7 @@ export const ManagedInstallsTable: React.FC<ManagedInstallsTableProps> = ({ data
                                             <p className="text-sm text-red-700 dark:text-red-300">
                                               {error.message}
                                             </p>
+                                            <InstallErrorHint code={error.code} message={error.message} className="mt-1" />
                                             {error.details && (
                                               <pre className="text-xs text-gray-600 dark:text-gray-400 mt-2 whitespace-pre-wrap font-mono bg-gray-50 dark:bg-gray-900 p-3 rounded border border-gray-200 dark:border-gray-700 max-h-[300px] overflow-y-auto">
                                                 {error.details}
@@ -20,10 +20,11 @@ import { DebugAccordion } from '../DebugAccordion'
 import { Lock, BrickWall, HardDrive, Cpu, Terminal, Shield, ShieldCheck, Search, Award, AlertTriangle, CheckCircle, XCircle, ChevronDown } from 'lucide-react'
 import { useSettingsOptional } from '../../providers/SettingsProvider'
 import { DEFAULT_SECURITY_CONFIG, DEFAULT_INVENTORY_FIELDS } from '../../lib/settings/defaults'
-import { evaluateSecurity } from '../../lib/rules/evaluateSecurity'
-import { getDeviceInventoryContext } from '../../lib/rules/inventoryMapping'
+import { explainSecurity, type SecurityEvaluation } from '../../lib/rules/evaluateSecurity'
+import { getDeviceContext } from '../../lib/rules/deviceContext'
 import type { Severity } from '../../lib/settings/types'
 import { ModuleSlot } from '../modules/ModuleSlot'
+import { SeverityTracePopover } from '../shared/SeverityTracePopover'
 
 interface SecurityTabProps {
   device: any
@@ -38,13 +39,14 @@ const SEVERITY_TEXT: Record<Exclude<Severity, 'unknown'>, string> = {
   neutral: 'text-gray-900 dark:text-gray-100',
 }
 
-const StatusBadge = ({ enabled, activeLabel = 'Enabled', inactiveLabel = 'Disabled', neutral, danger, severity }: {
+const StatusBadge = ({ enabled, activeLabel = 'Enabled', inactiveLabel = 'Disabled', neutral, danger, severity, evaluation }: {
   enabled: boolean | undefined,
   activeLabel?: string,
   inactiveLabel?: string,
   neutral?: boolean,
   danger?: boolean,
-  severity?: Severity
+  severity?: Severity,
+  evaluation?: SecurityEvaluation
 }) => {
   if (enabled === undefined) {
     return (
@@ -55,13 +57,16 @@ const StatusBadge = ({ enabled, activeLabel = 'Enabled', inactiveLabel = 'Disabl
   }
 
   // When a settings-derived severity is supplied, it takes precedence over the
-  // legacy neutral/danger booleans.
-  if (severity && severity !== 'unknown') {
-    return (
-      <span className={`text-sm font-medium ${SEVERITY_TEXT[severity]}`}>
+  // legacy neutral/danger booleans. An evaluation also makes the badge
+  // clickable to show how that severity was reached.
+  const resolved = evaluation?.severity ?? severity
+  if (resolved && resolved !== 'unknown') {
+    const badge = (
+      <span className={`text-sm font-medium ${SEVERITY_TEXT[resolved]}`}>
         {enabled ? activeLabel : inactiveLabel}
       </span>
     )
+    return evaluation ? <SeverityTracePopover evaluation={evaluation}>{badge}</SeverityTracePopover> : badge
   }
 
   if (!enabled) {
@@ -95,7 +100,7 @@ const StatusBadge = ({ enabled, activeLabel = 'Enabled', inactiveLabel = 'Disabl
   )
 }
 
-const DetailRow = ({ label, value, activeLabel, inactiveLabel, isStatus, enabled, mono, neutral, danger, severity, tooltip }: {
+const DetailRow = ({ label, value, activeLabel, inactiveLabel, isStatus, enabled, mono, neutral, danger, severity, evaluation, tooltip }: {
   label: string,
   value?: string,
   activeLabel?: string,
@@ -106,12 +111,13 @@ const DetailRow = ({ label, value, activeLabel, inactiveLabel, isStatus, enabled
   neutral?: boolean,
   danger?: boolean,
   severity?: Severity,
+  evaluation?: SecurityEvaluation,
   tooltip?: string
 }) => (
   <div className="flex items-center justify-between py-1">
     <span className="text-sm text-gray-500 dark:text-gray-400">{label}</span>
     {isStatus ? (
-      <StatusBadge enabled={enabled} activeLabel={activeLabel || value || 'Yes'} inactiveLabel={inactiveLabel || value || 'No'} neutral={neutral} danger={danger} severity={severity} />
+      <StatusBadge enabled={enabled} activeLabel={activeLabel || value || 'Yes'} inactiveLabel={inactiveLabel || value || 'No'} neutral={neutral} danger={danger} severity={severity} evaluation={evaluation} />
     ) : (
       <span 
         className={`text-sm font-medium text-gray-900 dark:text-white ${mono ? 'font-mono' : ''} ${tooltip ? 'cursor-help' : ''}`}
@@ -143,14 +149,15 @@ export const SecurityTab: React.FC<SecurityTabProps> = ({ device }) => {
   const isMac = isMacOS(device)
 
   // Settings-driven, usage-aware severity. `sev(check, enabled)` returns the
-  // severity to color a check, applying org rules (e.g. shared/lab devices with
-  // encryption off shouldn't be red) on top of the historical defaults.
+  // evaluation used to color a check, applying org rules (e.g. shared/lab
+  // devices with encryption off shouldn't be red) on top of the historical
+  // defaults, along with the trace the badge popover explains.
   const settings = useSettingsOptional()
   const securityConfig = settings?.securityConfig ?? DEFAULT_SECURITY_CONFIG
   const inventoryFields = settings?.inventoryFields?.length ? settings.inventoryFields : DEFAULT_INVENTORY_FIELDS
-  const inventoryCtx = getDeviceInventoryContext(device?.modules?.inventory as Record<string, unknown>, inventoryFields)
-  const sev = (check: string, enabled: boolean | undefined): Severity =>
-    evaluateSecurity(check, enabled, inventoryCtx, securityConfig)
+  const deviceCtx = React.useMemo(() => getDeviceContext(device, inventoryFields), [device, inventoryFields])
+  const sev = (check: string, enabled: boolean | undefined): SecurityEvaluation =>
+    explainSecurity(check, enabled, deviceCtx, securityConfig)
   
   // Certificate filter state
   const [certFilter, setCertFilter] = React.useState<'all' | 'valid' | 'expiringsoon' | 'expired'>('all')
@@ -287,7 +294,7 @@ export const SecurityTab: React.FC<SecurityTabProps> = ({ device }) => {
             {isMac ? (
               // macOS: SIP + Secure Enclave + Root User + Secure Boot
               <>
-                <DetailRow label="System Integrity Protection" isStatus severity={sev('sip', sipEnabled)} enabled={sipEnabled} activeLabel="Enabled" inactiveLabel="Disabled" />
+                <DetailRow label="System Integrity Protection" isStatus evaluation={sev('sip', sipEnabled)} enabled={sipEnabled} activeLabel="Enabled" inactiveLabel="Disabled" />
                 {/* Secure Enclave - no divider */}
                 <DetailRow 
                   label="Secure Enclave" 
@@ -344,7 +351,7 @@ export const SecurityTab: React.FC<SecurityTabProps> = ({ device }) => {
                     label="Tamper Protection"
                     isStatus
                     enabled={!!security.tamperProtection.isTamperProtected}
-                    severity={sev('tamperProtection', !!security.tamperProtection.isTamperProtected)}
+                    evaluation={sev('tamperProtection', !!security.tamperProtection.isTamperProtected)}
                   />
                 )}
 
@@ -627,7 +634,7 @@ export const SecurityTab: React.FC<SecurityTabProps> = ({ device }) => {
                       label="LSA Protection"
                       isStatus
                       enabled={!!security.lsaProtection.enabled}
-                      severity={sev('lsaProtection', !!security.lsaProtection.enabled)}
+                      evaluation={sev('lsaProtection', !!security.lsaProtection.enabled)}
                       activeLabel={security.lsaProtection.mode === 'PPLBoot' ? 'Enabled (UEFI Lock)' : 'Enabled'}
                       inactiveLabel="Disabled"
                     />
@@ -990,7 +997,7 @@ export const SecurityTab: React.FC<SecurityTabProps> = ({ device }) => {
                     ? security.fileVault.encryptedVolumes.map((v: any) => v.name || v.volumeName || v).join(', ')
                     : fileVaultEnabled ? 'System Volume' : 'None'
                 } />
-                <DetailRow label="Status" isStatus severity={sev('encryption', fileVaultEnabled)} enabled={fileVaultEnabled} value={fileVaultEnabled ? 'Encrypted' : 'Not Encrypted'} />
+                <DetailRow label="Status" isStatus evaluation={sev('encryption', fileVaultEnabled)} enabled={fileVaultEnabled} value={fileVaultEnabled ? 'Encrypted' : 'Not Encrypted'} />
               </>
             ) : (
               // Windows BitLocker (now all camelCase after normalization)
@@ -1004,7 +1011,7 @@ export const SecurityTab: React.FC<SecurityTabProps> = ({ device }) => {
                   <DetailRow label="Drives" value="None encrypted" />
                 )}
                 <DetailRow label="Method" value={security?.encryption?.encryptedVolumes?.[0]?.encryptionMethod || 'XTS-AES'} />
-                <DetailRow label="Status" isStatus severity={sev('encryption', Boolean(security?.encryption?.bitLocker?.isEnabled))} enabled={Boolean(security?.encryption?.bitLocker?.isEnabled)} value={security?.encryption?.bitLocker?.status || (security?.encryption?.bitLocker?.isEnabled ? 'Enabled' : 'Disabled')} />
+                <DetailRow label="Status" isStatus evaluation={sev('encryption', Boolean(security?.encryption?.bitLocker?.isEnabled))} enabled={Boolean(security?.encryption?.bitLocker?.isEnabled)} value={security?.encryption?.bitLocker?.status || (security?.encryption?.bitLocker?.isEnabled ? 'Enabled' : 'Disabled')} />
               </>
             )}
           </div>
@@ -1026,7 +1033,7 @@ export const SecurityTab: React.FC<SecurityTabProps> = ({ device }) => {
                 <DetailRow
                   label="Global State"
                   isStatus
-                  severity={sev('firewall', firewallEnabled)}
+                  evaluation={sev('firewall', firewallEnabled)}
                   enabled={firewallEnabled}
                   value={firewallEnabled ? 'On' : 'Off'}
                 />
@@ -1083,7 +1090,7 @@ export const SecurityTab: React.FC<SecurityTabProps> = ({ device }) => {
                 <DetailRow
                   label="Secure Shell (Remote Login)"
                   isStatus
-                  severity={sev('ssh', isPowerShellTrue(security?.ssh?.enabled) ||
+                  evaluation={sev('ssh', isPowerShellTrue(security?.ssh?.enabled) ||
                           isPowerShellTrue(remoteManagement?.remoteLoginEnabled) ||
                           isPowerShellTrue(remoteManagement?.remote_login_enabled))}
                   enabled={isPowerShellTrue(security?.ssh?.enabled) ||
@@ -1155,7 +1162,7 @@ export const SecurityTab: React.FC<SecurityTabProps> = ({ device }) => {
                 <DetailRow
                   label="Remote Desktop (RDP)"
                   isStatus
-                  severity={sev('rdp', Boolean(security?.rdp?.isEnabled || security?.rdp?.is_enabled))}
+                  evaluation={sev('rdp', Boolean(security?.rdp?.isEnabled || security?.rdp?.is_enabled))}
                   enabled={security?.rdp?.isEnabled || security?.rdp?.is_enabled}
                 />
                 <DetailRow 
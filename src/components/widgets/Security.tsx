@@ -11,7 +11,7 @@ import { convertPowerShellObjects, normalizeKeys } from '../../lib/utils/powersh
 import { useSettingsOptional } from '../../providers/SettingsProvider'
 import { DEFAULT_SECURITY_CONFIG, DEFAULT_INVENTORY_FIELDS } from '../../lib/settings/defaults'
 import { evaluateSecurity } from '../../lib/rules/evaluateSecurity'
-import { getDeviceInventoryContext } from '../../lib/rules/inventoryMapping'
+import { getDeviceContext } from '../../lib/rules/deviceContext'
 import type { Severity } from '../../lib/settings/types'
 
 /** Map the portable severity vocabulary onto the widget's StatusBadge types. */
@@ -89,15 +89,15 @@ export const SecurityWidget: React.FC<SecurityWidgetProps> = ({ device }) => {
   const isMacOS = platform.includes('mac') || platform.includes('darwin')
   const isLinux = platform.includes('linux')
 
-  // Settings-driven, usage-aware coloring. The device's inventory context (e.g.
-  // usage=Shared) lets org rules downgrade severities — e.g. shared/lab devices
-  // with disk encryption off aren't flagged red.
+  // Settings-driven, usage-aware coloring. The device's context (inventory like
+  // usage=Shared, plus facts like platform or model) lets org rules downgrade
+  // severities — e.g. shared/lab devices with disk encryption off aren't flagged red.
   const settings = useSettingsOptional()
   const securityConfig = settings?.securityConfig ?? DEFAULT_SECURITY_CONFIG
   const inventoryFields = settings?.inventoryFields?.length ? settings.inventoryFields : DEFAULT_INVENTORY_FIELDS
-  const inventoryCtx = getDeviceInventoryContext(device?.modules?.inventory as Record<string, unknown>, inventoryFields)
+  const deviceCtx = React.useMemo(() => getDeviceContext(device, inventoryFields), [device, inventoryFields])
   const encryptionSeverity = (enabled?: boolean) =>
-    severityToWidgetType(evaluateSecurity('encryption', enabled, inventoryCtx, securityConfig))
+    severityToWidgetType(evaluateSecurity('encryption', enabled, deviceCtx, securityConfig))
   
   // Get remote management data from Management module (Mac collects screen sharing there)
   const rawManagement = device?.modules?.management || device?.management
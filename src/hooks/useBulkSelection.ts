@@ -0,0 +1,58 @@
+"use client"
+
+import { useCallback, useMemo, useState } from "react"
+
+export interface BulkSelection {
+  /** Checked serial numbers, in the order they were picked. */
+  selected: string[]
+  isSelected: (serialNumber: string) => boolean
+  toggle: (serialNumber: string) => void
+  /** Checks every visible row, or unchecks them when all are checked. */
+  toggleAll: () => void
+  /** Every visible row is checked. */
+  allSelected: boolean
+  /** Some but not all visible rows are checked, for the header checkbox. */
+  someSelected: boolean
+  clear: () => void
+}
+
+/**
+ * Row selection for a fleet list's bulk actions. `visible` is the serial
+ * numbers of the rows the filters currently show; selections outside them
+ * are kept, so narrowing the filters doesn't lose what was picked.
+ */
+export function useBulkSelection(visible: string[]): BulkSelection {
+  const [selected, setSelected] = useState<string[]>([])
+  const selectedSet = useMemo(() => new Set(selected), [selected])
+
+  const toggle = useCallback(
+    (serialNumber: string) =>
+      setSelected((prev) => (prev.includes(serialNumber) ? prev.filter((s) => s !== serialNumber) : [...prev, serialNumber])),
+    []
+  )
+
+  const visibleSelected = visible.filter((s) => selectedSet.has(s)).length
+  const allSelected = visible.length > 0 && visibleSelected === visible.length
+
+  const toggleAll = useCallback(() => {
+    setSelected((prev) => {
+      const have = new Set(prev)
+      const shown = new Set(visible)
+      if (visible.every((s) => have.has(s))) return prev.filter((s) => !shown.has(s))
+      return [...prev, ...visible.filter((s) => !have.has(s))]
+    })
+  }, [visible])
+
+  const clear = useCallback(() => setSelected([]), [])
+  const isSelected = useCallback((serialNumber: string) => selectedSet.has(serialNumber), [selectedSet])
+
+  return {
+    selected,
+    isSelected,
+    toggle,
+    toggleAll,
+    allSelected,
+    someSelected: visibleSelected > 0 && !allSelected,
+    clear,
+  }
+}
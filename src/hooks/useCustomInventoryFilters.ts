@@ -0,0 +1,158 @@
+"use client"
+
+import { useCallback, useMemo } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import type { CustomFilterGroup } from "@/src/components/shared/DeviceFilters"
+import { getDeviceRowInventory, getDeviceTags } from "@/src/lib/rules/deviceContext"
+import type { InventoryContext } from "@/src/lib/rules/evaluateSecurity"
+import { RESERVED_URL_PARAMS } from "@/src/lib/settings/types"
+import { useSettingsOptional } from "@/src/providers/SettingsProvider"
+
+export interface CustomInventoryFilters {
+  /** One group per org-defined field that has values, then device tags and
+   * groups when any device has them, for DeviceFilters. */
+  groups: CustomFilterGroup[]
+  toggle: (key: string, value: string) => void
+  /** Replaces a dimension's selection. */
+  set: (key: string, values: string[]) => void
+  clear: () => void
+  selectedCount: number
+  /** Whether a device row passes the custom selections (OR within a field,
+   * AND across fields). Pass the row carrying inventory, e.g. the main
+   * devices API row. */
+  matches: (device: any) => boolean
+}
+
+/** Multi-valued dimensions the device routes attach to every row. */
+const LIST_DIMENSIONS = [
+  { key: "tags", label: "Tags", read: (device: any) => getDeviceTags(device) },
+  { key: "groups", label: "Groups", read: (device: any): string[] => (Array.isArray(device?.groups) ? device.groups : []) },
+]
+
+const splitList = (value: string | null) =>
+  (value ?? "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean)
+
+/**
+ * Selections for the org's custom inventory fields (cost center, project, ...)
+ * and the device tags and groups assigned in ReportMate. Options are drawn
+ * from `devices`, the rows that carry raw inventory, so a field nobody has
+ * collected yet hides itself like the built-in dimensions.
+ *
+ * The selections live in the URL (see URL_STATE_CONVENTIONS.md): one
+ * comma-separated param per field key, plus `tags` and `groups`, which is
+ * also what saved views and dynamic group queries capture.
+ */
+export function useCustomInventoryFilters(devices: any[]): CustomInventoryFilters {
+  const settings = useSettingsOptional()
+  const inventoryFields = settings?.inventoryFields
+  // A field saved before its key was reserved would fight the page's own
+  // param, or share one with tags or groups
+  const fields = useMemo(
+    () =>
+      (inventoryFields ?? []).filter(
+        (f) =>
+          f.custom &&
+          !(RESERVED_URL_PARAMS as readonly string[]).includes(f.key) &&
+          !LIST_DIMENSIONS.some((d) => d.key === f.key)
+      ),
+    [inventoryFields]
+  )
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const keys = useMemo(() => [...fields.map((f) => f.key), ...LIST_DIMENSIONS.map((d) => d.key)], [fields])
+  const selected = useMemo(() => {
+    const out: Record<string, string[]> = {}
+    for (const key of keys) {
+      const values = splitList(searchParams.get(key))
+      if (values.length) out[key] = values
+    }
+    return out
+  }, [keys, searchParams])
+
+  // Reads the address bar rather than `searchParams` so quick successive
+  // toggles build on each other and the callbacks stay stable.
+  const update = useCallback(
+    (next: (current: URLSearchParams) => void) => {
+      const params = new URLSearchParams(window.location.search)
+      const before = params.toString()
+      next(params)
+      const qs = params.toString()
+      if (qs !== before) router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false })
+    },
+    [router, pathname]
+  )
+
+  // Rows are re-read on every filter pass; map each once per field set.
+  const valuesOf = useMemo(() => {
+    const cache = new WeakMap<object, InventoryContext>()
+    return (device: any): InventoryContext => {
+      if (!device || typeof device !== "object") return {}
+      let values = cache.get(device)
+      if (!values) {
+        values = getDeviceRowInventory(device, fields)
+        cache.set(device, values)
+      }
+      return values
+    }
+  }, [fields])
+
+  const groups = useMemo<CustomFilterGroup[]>(
+    () =>
+      [
+        ...fields.map((f) => ({
+          key: f.key,
+          label: f.label || f.key,
+          options: Array.from(new Set(devices.map((d) => valuesOf(d)[f.key]).filter(Boolean) as string[])).sort(),
+          selected: selected[f.key] ?? [],
+        })),
+        ...LIST_DIMENSIONS.map((dim) => ({
+          key: dim.key,
+          label: dim.label,
+          options: Array.from(new Set(devices.flatMap(dim.read))).sort(),
+          selected: selected[dim.key] ?? [],
+        })),
+      ].filter((g) => g.options.length > 0),
+    [fields, devices, valuesOf, selected]
+  )
+
+  const set = useCallback(
+    (key: string, values: string[]) =>
+      update((params) => (values.length ? params.set(key, values.join(",")) : params.delete(key))),
+    [update]
+  )
+
+  const toggle = useCallback(
+    (key: string, value: string) =>
+      update((params) => {
+        const current = splitList(params.get(key))
+        const next = current.some((v) => v.toLowerCase() === value.toLowerCase())
+          ? current.filter((v) => v.toLowerCase() !== value.toLowerCase())
+          : [...current, value]
+        if (next.length) params.set(key, next.join(","))
+        else params.delete(key)
+      }),
+    [update]
+  )
+
+  const clear = useCallback(() => update((params) => keys.forEach((key) => params.delete(key))), [update, keys])
+
+  const matches = useCallback(
+    (device: any) =>
+      Object.entries(selected).every(([key, values]) => {
+        if (values.length === 0) return true
+        const dim = LIST_DIMENSIONS.find((d) => d.key === key)
+        const have = dim ? dim.read(device).map((v) => v.toLowerCase()) : [(valuesOf(device)[key] ?? "").toLowerCase()]
+        return values.some((v) => have.includes(v.toLowerCase()))
+      }),
+    [selected, valuesOf]
+  )
+
+  const selectedCount = Object.values(selected).reduce((n, values) => n + values.length, 0)
+
+  return { groups, toggle, set, clear, selectedCount, matches }
+}
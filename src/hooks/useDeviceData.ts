@@ -1,4 +1,5 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useInventoryNormalizer } from './useInventoryNormalizer'
 
 interface Device {
   deviceId: string
@@ -64,7 +65,11 @@ interface UseDeviceDataReturn {
 export function useDeviceData(options: UseDeviceDataOptions = {}): UseDeviceDataReturn {
   const { includeModuleData = false, moduleType } = options
   
-  const [devices, setDevices] = useState<Device[]>([])
+  const [deviceRows, setDeviceRows] = useState<Device[]>([])
+  // Inventory values go through the org's aliases, so every report filters
+  // and charts on the same normalized values
+  const normalize = useInventoryNormalizer()
+  const devices = useMemo(() => deviceRows.map(normalize.row), [deviceRows, normalize])
   const [moduleData, setModuleData] = useState<any[]>([])
   const [devicesLoading, setDevicesLoading] = useState(true)
   const [moduleLoading, setModuleLoading] = useState(includeModuleData)
@@ -87,7 +92,7 @@ export function useDeviceData(options: UseDeviceDataOptions = {}): UseDeviceData
       const data = await response.json()
       // FastAPI returns { devices: [...], total: ..., message: ... }
       // Extract the devices array
-      setDevices(Array.isArray(data) ? data : (data.devices || []))
+      setDeviceRows(Array.isArray(data) ? data : (data.devices || []))
     } catch (err) {
       console.error('Error fetching devices:', err)
       setError(err instanceof Error ? err.message : 'Failed to fetch devices')
@@ -0,0 +1,42 @@
+"use client"
+
+import { useCallback } from "react"
+import { calculateDeviceStatus, type DeviceStatus } from "@/src/lib/data-processing/device-status"
+import { getDeviceRowContext } from "@/src/lib/rules/deviceContext"
+import { hasStatusRules, resolveStatusThresholds } from "@/src/lib/rules/statusThresholds"
+import { DEFAULT_INVENTORY_FIELDS, DEFAULT_STATUS_SETTINGS } from "@/src/lib/settings/defaults"
+import type { StatusThresholds } from "@/src/lib/settings/types"
+import { useSettingsOptional } from "@/src/providers/SettingsProvider"
+
+/**
+ * The org's status thresholds for one device (row or raw payload), for code
+ * that computes the status itself, such as mapDeviceData.
+ */
+export function useStatusThresholds(): (device: any) => StatusThresholds {
+  const settings = useSettingsOptional()
+  const config = settings?.settings.status ?? DEFAULT_STATUS_SETTINGS
+  const fields = settings?.inventoryFields ?? DEFAULT_INVENTORY_FIELDS
+
+  return useCallback(
+    (device) =>
+      // Skip building a context per row when no rule could apply.
+      hasStatusRules(config) ? resolveStatusThresholds(getDeviceRowContext(device, fields), config).thresholds : config.defaults,
+    [config, fields]
+  )
+}
+
+/**
+ * calculateDeviceStatus with the org's status thresholds: each device gets the
+ * thresholds of its segment (usage, catalog, platform, ...). Pass the device
+ * row or raw payload; `lastSeen` defaults to `device.lastSeen`. Outside the
+ * settings provider the standard 24h / 7d thresholds apply.
+ */
+export function useDeviceStatus(): (device: any, lastSeen?: string | Date | null, isArchived?: boolean) => DeviceStatus {
+  const thresholdsFor = useStatusThresholds()
+
+  return useCallback(
+    (device, lastSeen = device?.lastSeen, isArchived = false) =>
+      calculateDeviceStatus(lastSeen, thresholdsFor(device), isArchived),
+    [thresholdsFor]
+  )
+}
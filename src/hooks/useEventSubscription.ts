@@ -0,0 +1,53 @@
+"use client"
+
+import { useCallback } from "react"
+import useSWR from "swr"
+import type { EventSubscription } from "@/src/lib/events/subscriptions"
+
+const fetcher = async (url: string): Promise<{ subscription: EventSubscription }> => {
+  const response = await fetch(url, { cache: "no-store" })
+  if (!response.ok) {
+    throw new Error(`Failed to fetch: ${response.status}`)
+  }
+  return response.json()
+}
+
+export interface EventSubscriptionState {
+  subscription: EventSubscription
+  /** False until the stored subscription has loaded, so the feed doesn't connect twice. */
+  isLoaded: boolean
+  error: Error | undefined
+  save: (subscription: EventSubscription) => Promise<void>
+}
+
+/** The caller's dashboard event subscription from /api/events/subscription. */
+export function useEventSubscription(): EventSubscriptionState {
+  const { data, error, mutate } = useSWR("/api/events/subscription", fetcher, {
+    revalidateOnFocus: false,
+    dedupingInterval: 60000,
+  })
+
+  const save = useCallback<EventSubscriptionState["save"]>(
+    async (subscription) => {
+      const res = await fetch("/api/events/subscription", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(subscription),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        const detail = Array.isArray(body.errors) && body.errors.length ? `: ${body.errors[0].path} ${body.errors[0].message}` : ""
+        throw new Error(`${body.error || `Request failed with status ${res.status}`}${detail}`)
+      }
+      await mutate({ subscription: body.subscription }, { revalidate: false })
+    },
+    [mutate]
+  )
+
+  return {
+    subscription: data?.subscription ?? {},
+    isLoaded: data !== undefined || error !== undefined,
+    error,
+    save,
+  }
+}
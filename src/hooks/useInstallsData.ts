@@ -1,6 +1,12 @@
 "use client"
 
 import useSWR, { preload, SWRConfiguration } from 'swr'
+import {
+  installStatusInBucket,
+  isErrorInstallStatus,
+  isPendingInstallStatus,
+  isWarningInstallStatus,
+} from '../lib/data-processing/install-status'
 
 // Fetcher with error handling
 const fetcher = async (url: string) => {
@@ -105,25 +111,9 @@ export function categorizeDevicesByInstallStatus(devices: any[]) {
     
     const cimianItems = getDeviceInstallItems(device)
     
-    const hasError = cimianItems.some((item: any) => {
-      const status = (item.currentStatus || item.status || '').toLowerCase()
-      return status.includes('error') || status.includes('failed') || status.includes('problem') || status === 'needs_reinstall'
-    })
-    
-    const hasWarning = cimianItems.some((item: any) => {
-      const status = (item.currentStatus || item.status || '').toLowerCase()
-      // Warnings are issues that need attention - NOT pending changes
-      return status.includes('warning') || status === 'needs-attention'
-    })
-
-    const hasPending = cimianItems.some((item: any) => {
-      const status = (item.currentStatus || item.status || '').toLowerCase()
-      // Pending are scheduled changes - installations, removals, updates
-      return status.includes('will-be-installed') || status.includes('update-available') || 
-             status.includes('update_available') || status.includes('will-be-removed') || 
-             status.includes('pending') || status.includes('scheduled') || 
-             status === 'managed-update-available'
-    })
+    const hasError = cimianItems.some((item: any) => isErrorInstallStatus(item.currentStatus || item.status))
+    const hasWarning = cimianItems.some((item: any) => isWarningInstallStatus(item.currentStatus || item.status))
+    const hasPending = cimianItems.some((item: any) => isPendingInstallStatus(item.currentStatus || item.status))
     
     // Devices can be in multiple categories - they're not mutually exclusive
     // A device with errors can also have pending items
@@ -154,25 +144,8 @@ export function getInstallItemsByStatus(devices: any[], statusFilter: 'errors' |
     const cimianItems = getDeviceInstallItems(device)
     
     for (const item of cimianItems) {
-      const status = (item.currentStatus || item.status || '').toLowerCase()
-      
-      if (statusFilter === 'all') {
+      if (statusFilter === 'all' || installStatusInBucket(item.currentStatus || item.status, statusFilter)) {
         items.push({ ...item, device })
-      } else if (statusFilter === 'errors') {
-        if (status.includes('error') || status.includes('failed') || status.includes('problem') || status === 'needs_reinstall') {
-          items.push({ ...item, device })
-        }
-      } else if (statusFilter === 'warnings') {
-        if (status.includes('warning') || status === 'needs-attention') {
-          items.push({ ...item, device })
-        }
-      } else if (statusFilter === 'pending') {
-        if (status.includes('will-be-installed') || status.includes('update-available') || 
-            status.includes('update_available') || status.includes('will-be-removed') || 
-            status.includes('pending') || status.includes('scheduled') || 
-            status === 'managed-update-available') {
-          items.push({ ...item, device })
-        }
       }
     }
   }
@@ -0,0 +1,43 @@
+"use client"
+
+import { useMemo } from "react"
+import {
+  expandInventorySelection,
+  foldInventoryOptions,
+  normalizeInventoryRow,
+  normalizeInventoryValue,
+} from "@/src/lib/rules/inventoryMapping"
+import { DEFAULT_INVENTORY_FIELDS } from "@/src/lib/settings/defaults"
+import { useSettingsOptional } from "@/src/providers/SettingsProvider"
+
+export interface InventoryNormalizer {
+  /** The row with its inventory values (flat and nested) normalized. */
+  row: <T>(row: T) => T
+  /** A single value of field `key`, e.g. a `?usage=` URL param. */
+  value: (key: string, value: string) => string
+  /** Filter options of field `key` from its raw values, folded. */
+  options: (key: string, values: string[]) => string[]
+  /** The raw values behind a selection of field `key`, for filters that
+   * match raw values (see expandInventorySelection). */
+  expand: (key: string, selected: string[], values: string[]) => string[]
+}
+
+/**
+ * The org's inventory value normalization (aliases, known value casing), so
+ * "Labs", "lab" and "LAB " filter, chart and link as "Lab". Rows are derived
+ * at render like device status, so they follow the settings once they load.
+ */
+export function useInventoryNormalizer(): InventoryNormalizer {
+  const settings = useSettingsOptional()
+  const fields = settings?.inventoryFields ?? DEFAULT_INVENTORY_FIELDS
+
+  return useMemo(() => {
+    const fieldOf = (key: string) => fields.find((f) => f.key === key) ?? { knownValues: [] }
+    return {
+      row: (row) => normalizeInventoryRow(row, fields),
+      value: (key, value) => normalizeInventoryValue(value, fieldOf(key)) ?? value,
+      options: (key, values) => foldInventoryOptions(values, fieldOf(key)),
+      expand: (key, selected, values) => expandInventorySelection(selected, values, fieldOf(key)),
+    }
+  }, [fields])
+}
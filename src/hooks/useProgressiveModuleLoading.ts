@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { mapDeviceData } from '../lib/data-processing/device-mapper-modular'
+import { useStatusThresholds } from './useDeviceStatus'
 
 /**
  * Module Loading States
@@ -57,6 +58,11 @@ export function useProgressiveModuleLoading(
   
   // Device info (minimal metadata)
   const [deviceInfo, setDeviceInfo] = useState<any>(null)
+  // The org's status thresholds, read when the payload arrives without
+  // refetching the device whenever settings change
+  const statusThresholds = useStatusThresholds()
+  const thresholdsRef = useRef(statusThresholds)
+  thresholdsRef.current = statusThresholds
   const [infoLoading, setInfoLoading] = useState(true)
   const [infoError, setInfoError] = useState<string | null>(null)
   
@@ -219,7 +225,7 @@ export function useProgressiveModuleLoading(
         }
         
         // Process data through mapDeviceData to ensure proper structure
-        const processedDevice = mapDeviceData(result.device)
+        const processedDevice = mapDeviceData(result.device, thresholdsRef.current(result.device))
         setDeviceInfo(processedDevice)
         
         // Mark info modules as loaded
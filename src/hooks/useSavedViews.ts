@@ -0,0 +1,101 @@
+"use client"
+
+import { useCallback } from "react"
+import useSWR from "swr"
+import type { SavedView, ViewPreferences, ViewsResponse } from "@/src/lib/views/views"
+
+const fetcher = async (url: string): Promise<ViewsResponse> => {
+  const response = await fetch(url, { cache: "no-store" })
+  if (!response.ok) {
+    throw new Error(`Failed to fetch: ${response.status}`)
+  }
+  return response.json()
+}
+
+async function send(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    const detail = Array.isArray(data.errors) && data.errors.length ? `: ${data.errors[0].path} ${data.errors[0].message}` : ""
+    throw new Error(`${data.error || `Request failed with status ${res.status}`}${detail}`)
+  }
+  return data
+}
+
+export interface SavedViewsState {
+  views: SavedView[]
+  preferences: ViewPreferences
+  /** Who the server knows the caller as, to tell their views from shared ones. */
+  user: string
+  isLoading: boolean
+  error: Error | undefined
+  create: (input: { name: string; path: string; query: string; shared: boolean }) => Promise<SavedView>
+  update: (id: string, changes: { name?: string; query?: string; shared?: boolean }) => Promise<void>
+  remove: (id: string) => Promise<void>
+  setPreferences: (preferences: ViewPreferences) => Promise<void>
+}
+
+/**
+ * The caller's saved views, pins and page defaults from /api/views. Pass
+ * `enabled: false` (demo mode) to skip loading.
+ */
+export function useSavedViews(enabled = true): SavedViewsState {
+  const { data, error, isLoading, mutate } = useSWR<ViewsResponse>(enabled ? "/api/views" : null, fetcher, {
+    revalidateOnFocus: false,
+    dedupingInterval: 60000,
+  })
+
+  const create = useCallback<SavedViewsState["create"]>(
+    async (input) => {
+      const { view } = await send("/api/views", "POST", input)
+      await mutate()
+      return view
+    },
+    [mutate]
+  )
+
+  const update = useCallback<SavedViewsState["update"]>(
+    async (id, changes) => {
+      await send(`/api/views/${encodeURIComponent(id)}`, "PATCH", changes)
+      await mutate()
+    },
+    [mutate]
+  )
+
+  const remove = useCallback<SavedViewsState["remove"]>(
+    async (id) => {
+      await send(`/api/views/${encodeURIComponent(id)}`, "DELETE")
+      await mutate()
+    },
+    [mutate]
+  )
+
+  const setPreferences = useCallback<SavedViewsState["setPreferences"]>(
+    async (preferences) => {
+      await mutate(
+        async (current) => {
+          await send("/api/views/preferences", "PUT", preferences)
+          return current && { ...current, preferences }
+        },
+        { optimisticData: (current) => ({ views: [], user: "", ...current, preferences }), rollbackOnError: true }
+      )
+    },
+    [mutate]
+  )
+
+  return {
+    views: data?.views ?? [],
+    preferences: data?.preferences ?? { pinned: [], defaults: {} },
+    user: data?.user ?? "",
+    isLoading,
+    error,
+    create,
+    update,
+    remove,
+    setPreferences,
+  }
+}
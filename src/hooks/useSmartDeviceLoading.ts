@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { mapDeviceData } from '../lib/data-processing/device-mapper-modular'
+import { useStatusThresholds } from './useDeviceStatus'
 
 /**
  * Smart Device Loading Hook - V4 (Simplified & Robust)
@@ -28,6 +29,11 @@ const BACKGROUND_MODULES: string[] = ['events', 'installs', 'applications', 'per
 export function useSmartDeviceLoading(deviceId: string) {
   // Device info (core identity + info tab modules)
   const [deviceInfo, setDeviceInfo] = useState<any>(null)
+  // The org's status thresholds, read when the payload arrives without
+  // refetching the device whenever settings change
+  const statusThresholds = useStatusThresholds()
+  const thresholdsRef = useRef(statusThresholds)
+  thresholdsRef.current = statusThresholds
   const [infoLoading, setInfoLoading] = useState(true)
   const [infoError, setInfoError] = useState<string | null>(null)
   
@@ -93,7 +99,7 @@ export function useSmartDeviceLoading(deviceId: string) {
         }
         
         // Process through mapDeviceData to ensure proper structure
-        const processed = mapDeviceData(result.device)
+        const processed = mapDeviceData(result.device, thresholdsRef.current(result.device))
         
         if (cancelled) return
         
@@ -0,0 +1,187 @@
+/** @jest-environment node */
+import http from 'node:http'
+import net from 'node:net'
+import type { AddressInfo } from 'node:net'
+import { alertsByChannel, deliverAlerts } from './channels'
+import type { Alert } from './engine'
+import { formatMessage } from './smtp'
+import type { AlertChannel } from '../settings/types'
+
+const alert: Alert = {
+  id: 'missing:C02X@2026-03-02T12:00:00.000Z',
+  key: 'missing:C02X',
+  ruleId: 'missing',
+  subject: 'C02X',
+  severity: 'critical',
+  title: 'Lab-07 is missing',
+  message: 'Lab-07 was last seen 2026-02-20T08:00:00Z.',
+  link: '/device/C02X',
+  state: 'open',
+  firstSeenAt: '2026-03-02T12:00:00.000Z',
+  lastSeenAt: '2026-03-02T12:00:00.000Z',
+}
+
+interface Received {
+  headers: http.IncomingHttpHeaders
+  body: any
+}
+
+/** Local HTTP stub standing in for a webhook receiver. */
+function startHttpStub(status = 200) {
+  const received: Received[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      received.push({ headers: req.headers, body: JSON.parse(body) })
+      res.writeHead(status).end(status === 200 ? 'ok' : 'nope')
+    })
+  })
+  return new Promise<{ url: string; received: Received[]; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({
+        url: `http://127.0.0.1:${port}/hook`,
+        received,
+        close: () => new Promise((done) => server.close(() => done())),
+      })
+    })
+  })
+}
+
+/** Scripted SMTP server recording the commands and message it receives. */
+function startSmtpStub() {
+  const commands: string[] = []
+  let data = ''
+  const server = net.createServer((socket) => {
+    let inData = false
+    let buffer = ''
+    socket.write('220 stub ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString()
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n')
+        if (end < 0) return
+        data = buffer.slice(0, end)
+        buffer = buffer.slice(end + 5)
+        inData = false
+        socket.write('250 queued\r\n')
+      }
+      let i: number
+      while (!inData && (i = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, i)
+        buffer = buffer.slice(i + 2)
+        commands.push(line)
+        if (line.startsWith('EHLO')) socket.write('250-stub\r\n250 AUTH PLAIN\r\n')
+        else if (line.startsWith('AUTH')) socket.write('235 ok\r\n')
+        else if (line === 'DATA') {
+          inData = true
+          socket.write('354 go ahead\r\n')
+        } else if (line === 'QUIT') socket.end('221 bye\r\n')
+        else socket.write('250 ok\r\n')
+      }
+    })
+  })
+  return new Promise<{ port: number; commands: string[]; message: () => string; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        commands,
+        message: () => data,
+        close: () => new Promise((done) => server.close(() => done())),
+      })
+    })
+  })
+}
+
+describe('deliverAlerts', () => {
+  it('posts the alerts as JSON to a generic webhook with its headers and absolute links', async () => {
+    const stub = await startHttpStub()
+    try {
+      const channel: AlertChannel = { id: 'hook', type: 'webhook', url: stub.url, headers: { 'X-Token': 'abc' } }
+      const result = await deliverAlerts(channel, [alert], { baseUrl: 'https://reportmate.example.com' })
+      expect(result).toEqual({ channelId: 'hook', alertCount: 1, ok: true })
+      expect(stub.received[0].headers['x-token']).toBe('abc')
+      expect(stub.received[0].body.alerts[0]).toMatchObject({ key: 'missing:C02X', link: 'https://reportmate.example.com/device/C02X' })
+    } finally {
+      await stub.close()
+    }
+  })
+
+  it('formats Slack text and a Teams card, resolving the URL from the environment', async () => {
+    const stub = await startHttpStub()
+    try {
+      const env = { ALERTS_CHAT_URL: stub.url }
+      expect((await deliverAlerts({ id: 's', type: 'slack', urlEnv: 'ALERTS_CHAT_URL' }, [alert], { env })).ok).toBe(true)
+      expect((await deliverAlerts({ id: 't', type: 'teams', urlEnv: 'ALERTS_CHAT_URL' }, [alert, alert], { env })).ok).toBe(true)
+      expect(stub.received[0].body.text).toContain('*[critical]* </device/C02X|Lab-07 is missing>')
+      expect(stub.received[1].body).toMatchObject({ '@type': 'MessageCard', title: '2 ReportMate alerts', themeColor: 'DC2626' })
+      expect(stub.received[1].body.sections).toHaveLength(2)
+    } finally {
+      await stub.close()
+    }
+  })
+
+  it('reports failures instead of throwing', async () => {
+    const stub = await startHttpStub(500)
+    try {
+      const result = await deliverAlerts({ id: 'hook', type: 'webhook', url: stub.url }, [alert])
+      expect(result).toMatchObject({ ok: false, error: 'HTTP 500: nope' })
+      expect((await deliverAlerts({ id: 'x', type: 'slack', urlEnv: 'UNSET_URL' }, [alert], { env: {} })).error).toBe('UNSET_URL is not set')
+    } finally {
+      await stub.close()
+    }
+  })
+
+  it('sends email through SMTP', async () => {
+    const stub = await startSmtpStub()
+    try {
+      const smtp = { host: '127.0.0.1', port: stub.port, user: 'alerts', password: 'pw', from: 'ReportMate <alerts@example.com>' }
+      const result = await deliverAlerts({ id: 'mail', type: 'email', to: ['ops@example.com', 'it@example.com'] }, [alert], { smtp })
+      expect(result.ok).toBe(true)
+      expect(stub.commands).toEqual([
+        'EHLO reportmate',
+        `AUTH PLAIN ${Buffer.from('\0alerts\0pw').toString('base64')}`,
+        'MAIL FROM:<alerts@example.com>',
+        'RCPT TO:<ops@example.com>',
+        'RCPT TO:<it@example.com>',
+        'DATA',
+        'QUIT',
+      ])
+      expect(stub.message()).toContain('Subject: [ReportMate] Lab-07 is missing')
+      expect(stub.message()).toContain('To: ops@example.com, it@example.com')
+    } finally {
+      await stub.close()
+    }
+  })
+})
+
+describe('formatMessage', () => {
+  it('dot-stuffs the body and encodes non-ASCII subjects', () => {
+    const text = formatMessage('a@example.com', { to: ['b@example.com'], subject: 'Café', text: '.hidden\nline' }, new Date(0))
+    expect(text).toContain('Subject: =?UTF-8?B?Q2Fmw6k=?=')
+    expect(text.endsWith('\r\n..hidden\r\nline\r\n.\r\n')).toBe(true)
+  })
+
+  it('sends attachments as base64 parts of a multipart/mixed message', () => {
+    const text = formatMessage(
+      'a@example.com',
+      { to: ['b@example.com'], subject: 'Report', text: 'Attached.', attachments: [{ filename: 'r.csv', contentType: 'text/csv', content: Buffer.from('a,b') }] },
+      new Date(0)
+    )
+    expect(text).toMatch(/Content-Type: multipart\/mixed; boundary="([^"]+)"/)
+    expect(text).toContain('Content-Disposition: attachment; filename="r.csv"')
+    expect(text).toContain(Buffer.from('a,b').toString('base64'))
+  })
+})
+
+describe('alertsByChannel', () => {
+  it('groups due alerts by the enabled channels their rule names', () => {
+    const channels: AlertChannel[] = [
+      { id: 'ops', type: 'slack', url: 'https://hooks.example.com/ops' },
+      { id: 'off', type: 'slack', url: 'https://hooks.example.com/off', enabled: false },
+    ]
+    const grouped = alertsByChannel([alert], [{ id: 'missing', kind: 'deviceStatus', severity: 'critical', channels: ['ops', 'off', 'gone'] }], channels)
+    expect([...grouped.keys()].map((c) => c.id)).toEqual(['ops'])
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Alert delivery. One sender per channel type; a run sends each channel a
+ * single message with every alert due for it, so a fleet-wide outage is one
+ * post rather than hundreds. Adding a channel type is a sender here plus its
+ * entry in AlertChannelType.
+ */
+
+import { AlertChannel, AlertChannelType, AlertRule, AlertSeverity } from "@/src/lib/settings/types"
+import type { Alert } from "./engine"
+import { sendMail, SmtpConfig, smtpConfigFromEnv } from "./smtp"
+
+export interface DeliveryOptions {
+  /** Defaults to the global fetch; tests pass a stub-bound one. */
+  fetch?: typeof fetch
+  /** Defaults to the SMTP_* environment. */
+  smtp?: SmtpConfig
+  /** Origin alert links are made absolute against. */
+  baseUrl?: string
+  /** Where `urlEnv` is looked up; defaults to process.env. */
+  env?: Record<string, string | undefined>
+}
+
+export interface AlertDelivery {
+  channelId: string
+  ok: boolean
+  alertCount: number
+  error?: string
+}
+
+type Sender = (channel: AlertChannel, alerts: Alert[], options: DeliveryOptions) => Promise<void>
+
+/** Alerts listed in full per message; the rest are summarized as a count. */
+const MAX_LISTED = 20
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 }
+
+/** Card accent per severity (Teams themeColor). */
+const SEVERITY_COLORS: Record<AlertSeverity, string> = { info: "2563EB", warning: "D97706", critical: "DC2626" }
+
+function highestSeverity(alerts: Alert[]): AlertSeverity {
+  return alerts.reduce<AlertSeverity>((max, a) => (SEVERITY_RANK[a.severity] > SEVERITY_RANK[max] ? a.severity : max), "info")
+}
+
+function heading(alerts: Alert[]): string {
+  return alerts.length === 1 ? alerts[0].title : `${alerts.length} ReportMate alerts`
+}
+
+function absoluteLink(alert: Alert, options: DeliveryOptions): string | undefined {
+  if (!alert.link) return undefined
+  return options.baseUrl ? new URL(alert.link, options.baseUrl).toString() : alert.link
+}
+
+function listed(alerts: Alert[]): { shown: Alert[]; more: number } {
+  return { shown: alerts.slice(0, MAX_LISTED), more: Math.max(0, alerts.length - MAX_LISTED) }
+}
+
+function channelUrl(channel: AlertChannel, options: DeliveryOptions): string {
+  const url = channel.url ?? (channel.urlEnv ? (options.env ?? process.env)[channel.urlEnv] : undefined)
+  if (!url) throw new Error(channel.urlEnv ? `${channel.urlEnv} is not set` : "No URL configured")
+  return url
+}
+
+/** POSTs JSON to a webhook-style channel; throws on a non-2xx answer. */
+export async function postToChannel(channel: AlertChannel, body: unknown, options: DeliveryOptions) {
+  const res = await (options.fetch ?? fetch)(channelUrl(channel, options), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(channel.headers ?? {}) },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10000),
+  })
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "")
+    throw new Error(`HTTP ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`)
+  }
+}
+
+const SENDERS: Record<AlertChannelType, Sender> = {
+  /** The alerts as JSON, for automation and ticketing systems. */
+  webhook: (channel, alerts, options) =>
+    postToChannel(channel, { source: "reportmate", alerts: alerts.map((a) => ({ ...a, link: absoluteLink(a, options) })) }, options),
+
+  slack: (channel, alerts, options) => {
+    const { shown, more } = listed(alerts)
+    const lines = shown.map((a) => {
+      const link = absoluteLink(a, options)
+      return `• *[${a.severity}]* ${link ? `<${link}|${a.title}>` : a.title}\n  ${a.message}`
+    })
+    if (more) lines.push(`…and ${more} more`)
+    return postToChannel(channel, { text: `*${heading(alerts)}*\n${lines.join("\n")}` }, options)
+  },
+
+  teams: (channel, alerts, options) => {
+    const { shown, more } = listed(alerts)
+    return postToChannel(
+      channel,
+      {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        summary: heading(alerts),
+        themeColor: SEVERITY_COLORS[highestSeverity(alerts)],
+        title: heading(alerts),
+        sections: [
+          ...shown.map((a) => {
+            const link = absoluteLink(a, options)
+            return {
+              activityTitle: `[${a.severity}] ${a.title}`,
+              text: link ? `${a.message} [Open](${link})` : a.message,
+            }
+          }),
+          ...(more ? [{ text: `…and ${more} more` }] : []),
+        ],
+      },
+      options
+    )
+  },
+
+  email: async (channel, alerts, options) => {
+    const smtp = options.smtp ?? smtpConfigFromEnv()
+    if (!smtp) throw new Error("SMTP is not configured (SMTP_HOST, SMTP_FROM)")
+    const { shown, more } = listed(alerts)
+    const blocks = shown.map((a) => {
+      const link = absoluteLink(a, options)
+      return [`[${a.severity}] ${a.title}`, a.message, ...(link ? [link] : [])].join("\n")
+    })
+    if (more) blocks.push(`...and ${more} more`)
+    await sendMail(smtp, { to: channel.to ?? [], subject: `[ReportMate] ${heading(alerts)}`, text: blocks.join("\n\n") })
+  },
+}
+
+/** Sends `alerts` to one channel. Never throws; failures come back in the result. */
+export async function deliverAlerts(channel: AlertChannel, alerts: Alert[], options: DeliveryOptions = {}): Promise<AlertDelivery> {
+  const result = { channelId: channel.id, alertCount: alerts.length }
+  try {
+    await SENDERS[channel.type](channel, alerts, options)
+    return { ...result, ok: true }
+  } catch (err) {
+    return { ...result, ok: false, error: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+/** Due alerts per enabled channel, following each alert's rule. Channels a
+ * rule names that don't exist are skipped (validation reports them). */
+export function alertsByChannel(alerts: Alert[], rules: AlertRule[], channels: AlertChannel[]): Map<AlertChannel, Alert[]> {
+  const byId = new Map(channels.filter((c) => c.enabled !== false).map((c) => [c.id, c]))
+  const rulesById = new Map(rules.map((r) => [r.id, r]))
+  const grouped = new Map<AlertChannel, Alert[]>()
+  for (const alert of alerts) {
+    for (const id of rulesById.get(alert.ruleId)?.channels ?? []) {
+      const channel = byId.get(id)
+      if (!channel) continue
+      grouped.set(channel, [...(grouped.get(channel) ?? []), alert])
+    }
+  }
+  return grouped
+}
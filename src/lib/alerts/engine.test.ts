@@ -0,0 +1,131 @@
+import { acknowledgeAlert, evaluateAlertRules, markNotified, mergeAcknowledgements, reconcileAlerts } from './engine'
+import type { Alert, AlertEvent } from './engine'
+import type { AlertRule } from '../settings/types'
+
+const now = new Date('2026-03-02T12:00:00Z')
+const minutesAgo = (n: number) => new Date(now.getTime() - n * 60000).toISOString()
+const later = (n: number) => new Date(now.getTime() + n * 60000)
+
+const burst: AlertRule = { id: 'burst', kind: 'eventBurst', severity: 'warning', channels: ['ops'], threshold: 3, windowMinutes: 30 }
+const missing: AlertRule = { id: 'missing', kind: 'deviceStatus', severity: 'critical', channels: ['ops'] }
+
+const failedInstall = (device: string, minutes: number, name = 'Firefox'): AlertEvent => ({
+  device,
+  kind: 'install_error',
+  ts: minutesAgo(minutes),
+  payload: { failed_items: [{ name, displayName: `${name} Browser`, error: 'exit 1' }] },
+})
+
+describe('evaluateAlertRules', () => {
+  it('fires an event burst per package once enough devices report it within the window', () => {
+    const events = [
+      failedInstall('A', 5),
+      failedInstall('A', 6),
+      failedInstall('B', 10),
+      failedInstall('C', 45),
+      failedInstall('D', 2, 'Chrome'),
+    ]
+    expect(evaluateAlertRules([burst], { now, events }).candidates).toEqual([])
+    const { candidates } = evaluateAlertRules([burst], { now, events: [...events, failedInstall('C', 20)] })
+    expect(candidates).toHaveLength(1)
+    expect(candidates[0]).toMatchObject({ key: 'burst:Firefox', title: 'Firefox Browser: error on 3 devices' })
+  })
+
+  it('fires for devices past their status threshold and security checks rated danger', () => {
+    const devices = [
+      { serialNumber: 'OLD', lastSeen: minutesAgo(8 * 24 * 60) },
+      { serialNumber: 'NEW', lastSeen: minutesAgo(10) },
+      { serialNumber: 'GONE', lastSeen: minutesAgo(30 * 24 * 60), archived: true },
+    ]
+    const securityRows = [
+      { serialNumber: 'X1', platform: 'macOS', encryptionEnabled: false, firewallEnabled: false },
+      { serialNumber: 'X2', platform: 'macOS', encryptionEnabled: true, usage: 'Lab' },
+    ]
+    const rules: AlertRule[] = [
+      missing,
+      { id: 'sec', kind: 'securityCheck', severity: 'critical', channels: ['ops'] },
+    ]
+    const { candidates, evaluatedRuleIds } = evaluateAlertRules(rules, { now, devices, securityRows })
+    expect(candidates.map((c) => c.key)).toEqual(['missing:OLD', 'sec:X1/encryption'])
+    expect(evaluatedRuleIds).toEqual(['missing', 'sec'])
+  })
+
+  it('fires for devices running a client below the minimum', () => {
+    const clientDevices = [
+      { serialNumber: 'W1', modules: { installs: { cimian: { version: '2026.7.2006' } } } },
+      { serialNumber: 'W2', modules: { installs: { cimian: { version: '2026.08.01.0900' } } } },
+      { serialNumber: 'M1', modules: { installs: { munki: { version: '6.2' } } } },
+    ]
+    const rule: AlertRule = { id: 'client', kind: 'clientVersion', severity: 'warning', channels: ['ops'] }
+    expect(evaluateAlertRules([rule], { now, clientDevices }).candidates).toEqual([])
+    const { candidates } = evaluateAlertRules([rule], { now, clientDevices }, { clientVersions: { minimumCimian: '2026.07.25.0000' } })
+    expect(candidates.map((c) => c.key)).toEqual(['client:W1/cimian'])
+    expect(candidates[0].title).toBe('W1: Cimian 2026.07.20.0600 is below 2026.07.25.0000')
+  })
+
+  it('skips rules whose source was not loaded', () => {
+    expect(evaluateAlertRules([burst, missing], { now, devices: [] }).evaluatedRuleIds).toEqual(['missing'])
+  })
+})
+
+describe('reconcileAlerts', () => {
+  const evaluation = evaluateAlertRules([missing], { now, devices: [{ serialNumber: 'OLD', lastSeen: minutesAgo(8 * 24 * 60) }] })
+
+  it('opens one alert per key and notifies it once', () => {
+    const first = reconcileAlerts([], evaluation, [missing], now)
+    expect(first.alerts).toHaveLength(1)
+    expect(first.notify.map((a) => a.key)).toEqual(['missing:OLD'])
+
+    const delivered = markNotified(first.alerts, first.notify.map((a) => a.id), now)
+    const second = reconcileAlerts(delivered, evaluateAlertRules([missing], { now: later(5), devices: [{ serialNumber: 'OLD', lastSeen: minutesAgo(8 * 24 * 60) }] }), [missing], later(5))
+    expect(second.alerts).toHaveLength(1)
+    expect(second.alerts[0].id).toBe(first.alerts[0].id)
+    expect(second.notify).toEqual([])
+  })
+
+  it('retries an undelivered alert and re-notifies on the repeat interval until acknowledged', () => {
+    const repeating = { ...missing, repeatMinutes: 30 }
+    const first = reconcileAlerts([], evaluation, [repeating], now)
+    expect(reconcileAlerts(first.alerts, evaluation, [repeating], later(1)).notify).toHaveLength(1)
+
+    const delivered = markNotified(first.alerts, [first.alerts[0].id], now)
+    expect(reconcileAlerts(delivered, evaluation, [repeating], later(10)).notify).toEqual([])
+    expect(reconcileAlerts(delivered, evaluation, [repeating], later(31)).notify).toHaveLength(1)
+
+    const acked = acknowledgeAlert(delivered, delivered[0].id, 'admin@example.com', later(1))!
+    expect(acked[0]).toMatchObject({ state: 'acknowledged', acknowledgedBy: 'admin@example.com' })
+    const afterAck = reconcileAlerts(acked, evaluation, [repeating], later(31))
+    expect(afterAck.notify).toEqual([])
+    expect(afterAck.alerts[0].state).toBe('acknowledged')
+    expect(acknowledgeAlert(acked, acked[0].id, undefined, later(2))).toBeNull()
+  })
+
+  it('keeps an acknowledgement made while a pass was running', () => {
+    const first = reconcileAlerts([], evaluation, [missing], now)
+    const acked = acknowledgeAlert(first.alerts, first.alerts[0].id, 'admin@example.com', later(1))!
+    // The next pass read the store before the acknowledgement
+    const pass = reconcileAlerts(first.alerts, evaluation, [missing], later(2))
+    expect(mergeAcknowledgements(pass.alerts, acked)[0]).toMatchObject({ state: 'acknowledged', acknowledgedBy: 'admin@example.com' })
+    const cleared = reconcileAlerts(first.alerts, { candidates: [], evaluatedRuleIds: ['missing'] }, [missing], later(2))
+    expect(mergeAcknowledgements(cleared.alerts, acked)[0].state).toBe('resolved')
+  })
+
+  it('resolves cleared alerts and throttles a quick reopen', () => {
+    const first = reconcileAlerts([], evaluation, [missing], now)
+    const delivered = markNotified(first.alerts, [first.alerts[0].id], now)
+    const cleared = reconcileAlerts(delivered, { candidates: [], evaluatedRuleIds: ['missing'] }, [missing], later(10))
+    expect(cleared.alerts[0]).toMatchObject({ state: 'resolved', resolvedAt: later(10).toISOString() })
+
+    const reopened = reconcileAlerts(cleared.alerts, evaluation, [missing], later(20))
+    expect(reopened.alerts.map((a) => a.state)).toEqual(['resolved', 'open'])
+    expect(reopened.notify).toEqual([])
+    // Still firing once the throttle has passed: notified then.
+    expect(reconcileAlerts(reopened.alerts, evaluation, [missing], later(61)).notify).toHaveLength(1)
+  })
+
+  it('keeps alerts of rules that were not evaluated and resolves those of removed rules', () => {
+    const open: Alert[] = reconcileAlerts([], evaluation, [missing], now).alerts
+    expect(reconcileAlerts(open, { candidates: [], evaluatedRuleIds: [] }, [missing], later(5)).alerts[0].state).toBe('open')
+    expect(reconcileAlerts(open, { candidates: [], evaluatedRuleIds: [] }, [], later(5)).alerts[0].state).toBe('resolved')
+  })
+})
@@ -0,0 +1,415 @@
+/**
+ * Alerting engine: turns the event stream and device state into alerts, at
+ * most one open alert per rule and subject (a package, a device check, ...),
+ * and decides which of them to notify. Fetching and delivery live in the
+ * evaluation route and channels.ts.
+ */
+
+import { calculateDeviceStatus } from "@/src/lib/data-processing/device-status"
+import { normalizeEventKind } from "@/src/lib/events/normalize"
+import { CLIENT_LABELS, collectClientVersions } from "@/src/lib/installs/client-versions"
+import { getDeviceRowContext } from "@/src/lib/rules/deviceContext"
+import { conditionMatches, evaluateSecurity } from "@/src/lib/rules/evaluateSecurity"
+import { SecurityDeviceSummary, securityCheckStates, SIMULATED_CHECKS, summaryRowContext } from "@/src/lib/rules/simulate"
+import { resolveStatusThresholds } from "@/src/lib/rules/statusThresholds"
+import { DEFAULT_INVENTORY_FIELDS, DEFAULT_SECURITY_CONFIG, DEFAULT_STATUS_SETTINGS } from "@/src/lib/settings/defaults"
+import {
+  AlertRule,
+  AlertRuleKind,
+  AlertSeverity,
+  ClientVersionSettings,
+  InventoryFieldMapping,
+  SecurityConfig,
+  StatusSettings,
+} from "@/src/lib/settings/types"
+
+/** Defaults for the optional AlertRule settings. */
+export const ALERT_RULE_DEFAULTS = {
+  eventKind: "error",
+  eventBurstThreshold: 5,
+  ingestFailureThreshold: 20,
+  windowMinutes: 60,
+  status: "missing",
+  checkSeverity: "danger",
+  throttleMinutes: 60,
+} as const
+
+/** How long resolved alerts are kept, for the alert list and for throttling. */
+export const RESOLVED_ALERT_RETENTION_HOURS = 7 * 24
+
+/** An event as the events route normalizes it. */
+export interface AlertEvent {
+  device: string
+  deviceName?: string
+  kind: string
+  ts: string
+  payload?: Record<string, unknown>
+}
+
+/** A rejected check-in from the ingest failures endpoint. */
+export interface AlertIngestFailure {
+  ts: string | null
+  reason: string
+  serialNumber?: string | null
+}
+
+/** A `/api/v1/devices` row. */
+export interface AlertDeviceRow {
+  serialNumber: string
+  deviceName?: string
+  lastSeen?: string | null
+  archived?: boolean
+  [key: string]: unknown
+}
+
+/** What the rules are evaluated over. Every source is optional: rules over a
+ * source that wasn't loaded are skipped, and their open alerts kept as-is
+ * rather than resolved. */
+export interface AlertInput {
+  now: Date
+  events?: AlertEvent[]
+  devices?: AlertDeviceRow[]
+  securityRows?: SecurityDeviceSummary[]
+  ingestFailures?: AlertIngestFailure[]
+  /** Device records with their Cimian/Munki client versions (the installs filters endpoint). */
+  clientDevices?: AlertDeviceRow[]
+}
+
+/** The org's settings the device rules read. */
+export interface AlertContext {
+  fields?: InventoryFieldMapping[]
+  status?: StatusSettings
+  security?: SecurityConfig
+  clientVersions?: ClientVersionSettings
+}
+
+export type AlertSource = Exclude<keyof AlertInput, "now">
+
+export const ALERT_SOURCE_OF: Record<AlertRuleKind, AlertSource> = {
+  eventBurst: "events",
+  deviceStatus: "devices",
+  securityCheck: "securityRows",
+  ingestFailures: "ingestFailures",
+  clientVersion: "clientDevices",
+}
+
+/** One firing condition found by an evaluation. */
+export interface AlertCandidate {
+  /** `${ruleId}:${subject}`; alerts with the same key are the same problem. */
+  key: string
+  ruleId: string
+  subject: string
+  severity: AlertSeverity
+  title: string
+  message: string
+  /** App path with more detail, e.g. `/device/C02X`. */
+  link?: string
+}
+
+export interface AlertEvaluation {
+  candidates: AlertCandidate[]
+  /** Rules whose source was loaded: their alerts that no longer fire resolve. */
+  evaluatedRuleIds: string[]
+}
+
+export type AlertState = "open" | "acknowledged" | "resolved"
+
+/** A tracked alert, as persisted by the FastAPI `/api/v1/alerts` store. */
+export interface Alert extends AlertCandidate {
+  id: string
+  state: AlertState
+  firstSeenAt: string
+  lastSeenAt: string
+  lastNotifiedAt?: string
+  acknowledgedAt?: string
+  acknowledgedBy?: string
+  resolvedAt?: string
+}
+
+/** Sources the enabled rules need, so callers only fetch those. */
+export function alertSourcesFor(rules: AlertRule[]): Set<AlertSource> {
+  return new Set(rules.filter((r) => r.enabled !== false).map((r) => ALERT_SOURCE_OF[r.kind]))
+}
+
+/** The longest window the enabled rules of `kind` count over (minutes). */
+export function alertWindowMinutes(rules: AlertRule[], kind: AlertRuleKind): number {
+  return Math.max(
+    0,
+    ...rules.filter((r) => r.enabled !== false && r.kind === kind).map((r) => r.windowMinutes ?? ALERT_RULE_DEFAULTS.windowMinutes)
+  )
+}
+
+const minutes = (n: number) => n * 60 * 1000
+
+function inWindow(ts: string | null | undefined, now: Date, windowMinutes: number): boolean {
+  const t = ts ? Date.parse(ts) : NaN
+  return t <= now.getTime() && t > now.getTime() - minutes(windowMinutes)
+}
+
+function candidate(rule: AlertRule, subject: string, fields: Omit<AlertCandidate, "key" | "ruleId" | "subject" | "severity">): AlertCandidate {
+  return { key: `${rule.id}:${subject}`, ruleId: rule.id, subject, severity: rule.severity, ...fields }
+}
+
+/** Package name -> display name for every package an event is about: its
+ * failed/warning items, or the single package the payload names. */
+function packagesOf(event: AlertEvent): Map<string, string> {
+  const packages = new Map<string, string>()
+  const payload = event.payload ?? {}
+  for (const list of [payload.failed_items, payload.warning_items]) {
+    if (!Array.isArray(list)) continue
+    for (const item of list as Array<Record<string, unknown>>) {
+      const name = typeof item?.name === "string" ? item.name.trim() : ""
+      if (name) packages.set(name, typeof item.displayName === "string" && item.displayName.trim() ? item.displayName.trim() : name)
+    }
+  }
+  if (packages.size === 0) {
+    for (const key of ["package", "packageName", "package_name", "item"]) {
+      const name = typeof payload[key] === "string" ? (payload[key] as string).trim() : ""
+      if (name) {
+        packages.set(name, name)
+        break
+      }
+    }
+  }
+  return packages
+}
+
+function eventBurst(rule: AlertRule, events: AlertEvent[], now: Date): AlertCandidate[] {
+  const kind = rule.eventKind ?? ALERT_RULE_DEFAULTS.eventKind
+  const windowMinutes = rule.windowMinutes ?? ALERT_RULE_DEFAULTS.windowMinutes
+  const threshold = rule.threshold ?? ALERT_RULE_DEFAULTS.eventBurstThreshold
+  const byPackage = new Map<string, { label: string; devices: Set<string> }>()
+  for (const event of events) {
+    if (normalizeEventKind(event.kind) !== kind || !inWindow(event.ts, now, windowMinutes)) continue
+    for (const [name, label] of packagesOf(event)) {
+      const entry = byPackage.get(name) ?? { label, devices: new Set<string>() }
+      entry.devices.add(event.device)
+      byPackage.set(name, entry)
+    }
+  }
+  return [...byPackage.entries()]
+    .filter(([, { devices }]) => devices.size >= threshold)
+    .map(([name, { label, devices }]) =>
+      candidate(rule, name, {
+        title: `${label}: ${kind} on ${devices.size} devices`,
+        message: `${devices.size} devices reported ${kind} events for ${label} in the last ${windowMinutes} minutes.`,
+        link: `/events?filter=${kind}`,
+      })
+    )
+}
+
+function deviceStatus(rule: AlertRule, devices: AlertDeviceRow[], now: Date, ctx: AlertContext): AlertCandidate[] {
+  const status = rule.status ?? ALERT_RULE_DEFAULTS.status
+  const config = ctx.status ?? DEFAULT_STATUS_SETTINGS
+  const found: AlertCandidate[] = []
+  for (const row of devices) {
+    if (!row?.serialNumber || row.archived === true) continue
+    const deviceCtx = getDeviceRowContext(row, ctx.fields ?? DEFAULT_INVENTORY_FIELDS)
+    if (rule.when && !conditionMatches(rule.when, deviceCtx)) continue
+    const current = calculateDeviceStatus(row.lastSeen, resolveStatusThresholds(deviceCtx, config).thresholds, false, now)
+    if (current !== "missing" && !(status === "stale" && current === "stale")) continue
+    const name = row.deviceName || row.serialNumber
+    found.push(
+      candidate(rule, row.serialNumber, {
+        title: `${name} is ${current}`,
+        message: row.lastSeen ? `${name} was last seen ${row.lastSeen}.` : `${name} has never checked in.`,
+        link: `/device/${encodeURIComponent(row.serialNumber)}`,
+      })
+    )
+  }
+  return found
+}
+
+function securityCheck(rule: AlertRule, rows: SecurityDeviceSummary[], ctx: AlertContext): AlertCandidate[] {
+  const fires = (rule.checkSeverity ?? ALERT_RULE_DEFAULTS.checkSeverity) === "warning" ? ["warning", "danger"] : ["danger"]
+  const checks = rule.checks?.length ? rule.checks : SIMULATED_CHECKS
+  const config = ctx.security ?? DEFAULT_SECURITY_CONFIG
+  const found: AlertCandidate[] = []
+  for (const row of rows) {
+    if (!row?.serialNumber) continue
+    const deviceCtx = summaryRowContext(row, ctx.fields ?? DEFAULT_INVENTORY_FIELDS)
+    if (rule.when && !conditionMatches(rule.when, deviceCtx)) continue
+    const states = securityCheckStates(row)
+    for (const check of checks) {
+      const enabled = states[check]
+      if (enabled === undefined) continue
+      const severity = evaluateSecurity(check, enabled, deviceCtx, config)
+      if (!fires.includes(severity)) continue
+      const name = row.deviceName || row.serialNumber
+      found.push(
+        candidate(rule, `${row.serialNumber}/${check}`, {
+          title: `${name}: ${check} is ${severity}`,
+          message: `${check} is ${enabled ? "on" : "off"} on ${name}, which the security rules rate ${severity}.`,
+          link: `/device/${encodeURIComponent(row.serialNumber)}#security`,
+        })
+      )
+    }
+  }
+  return found
+}
+
+function ingestFailures(rule: AlertRule, failures: AlertIngestFailure[], now: Date): AlertCandidate[] {
+  const windowMinutes = rule.windowMinutes ?? ALERT_RULE_DEFAULTS.windowMinutes
+  const recent = failures.filter((f) => inWindow(f.ts, now, windowMinutes))
+  if (recent.length < (rule.threshold ?? ALERT_RULE_DEFAULTS.ingestFailureThreshold)) return []
+  const reasons = new Map<string, number>()
+  for (const f of recent) reasons.set(f.reason, (reasons.get(f.reason) ?? 0) + 1)
+  const top = [...reasons.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3)
+  return [
+    candidate(rule, "fleet", {
+      title: `${recent.length} rejected check-ins in ${windowMinutes} minutes`,
+      message: `Most common: ${top.map(([reason, n]) => `${reason} (${n})`).join(", ")}.`,
+      link: "/events/failures",
+    }),
+  ]
+}
+
+function clientVersion(rule: AlertRule, devices: AlertDeviceRow[], ctx: AlertContext): AlertCandidate[] {
+  const fields = ctx.fields ?? DEFAULT_INVENTORY_FIELDS
+  const covered = rule.when ? devices.filter((row) => row && conditionMatches(rule.when!, getDeviceRowContext(row, fields))) : devices
+  return collectClientVersions(covered, ctx.clientVersions)
+    .devices.filter((d) => d.belowMinimum)
+    .map((d) => {
+      const client = CLIENT_LABELS[d.client]
+      const minimum = d.client === "cimian" ? ctx.clientVersions?.minimumCimian : ctx.clientVersions?.minimumMunki
+      return candidate(rule, `${d.serialNumber}/${d.client}`, {
+        title: `${d.deviceName}: ${client} ${d.version} is below ${minimum}`,
+        message: `${d.deviceName} runs ${client} ${d.version}, below the minimum of ${minimum} (${d.buildsBehind} builds behind the newest).`,
+        link: `/device/${encodeURIComponent(d.serialNumber)}#installs`,
+      })
+    })
+}
+
+/** Every firing condition for the enabled rules, deduplicated by key. */
+export function evaluateAlertRules(rules: AlertRule[], input: AlertInput, ctx: AlertContext = {}): AlertEvaluation {
+  const candidates = new Map<string, AlertCandidate>()
+  const evaluatedRuleIds: string[] = []
+  for (const rule of rules) {
+    if (rule.enabled === false) continue
+    let found: AlertCandidate[]
+    if (rule.kind === "eventBurst" && input.events) found = eventBurst(rule, input.events, input.now)
+    else if (rule.kind === "deviceStatus" && input.devices) found = deviceStatus(rule, input.devices, input.now, ctx)
+    else if (rule.kind === "securityCheck" && input.securityRows) found = securityCheck(rule, input.securityRows, ctx)
+    else if (rule.kind === "ingestFailures" && input.ingestFailures) found = ingestFailures(rule, input.ingestFailures, input.now)
+    else if (rule.kind === "clientVersion" && input.clientDevices) found = clientVersion(rule, input.clientDevices, ctx)
+    else continue
+    evaluatedRuleIds.push(rule.id)
+    for (const c of found) if (!candidates.has(c.key)) candidates.set(c.key, c)
+  }
+  return { candidates: [...candidates.values()], evaluatedRuleIds }
+}
+
+export interface AlertReconciliation {
+  alerts: Alert[]
+  /** Alerts to send now; mark them with markNotified once delivered. */
+  notify: Alert[]
+}
+
+const elapsed = (since: string | undefined, now: Date) => (since ? now.getTime() - Date.parse(since) : Infinity)
+
+/** An open alert not yet notified (new, throttled, or its delivery failed)
+ * is due once the throttle has passed since its key last notified; a notified
+ * one every `repeatMinutes`, if set. */
+function notificationDue(alert: Alert, rule: AlertRule, now: Date): boolean {
+  if (alert.state !== "open") return false
+  const pending = !alert.lastNotifiedAt || alert.lastNotifiedAt < alert.firstSeenAt
+  if (pending) return elapsed(alert.lastNotifiedAt, now) >= minutes(rule.throttleMinutes ?? ALERT_RULE_DEFAULTS.throttleMinutes)
+  const repeat = rule.repeatMinutes ?? 0
+  return repeat > 0 && elapsed(alert.lastNotifiedAt, now) >= minutes(repeat)
+}
+
+/**
+ * Merges an evaluation into the tracked alerts. A candidate updates the open
+ * (or acknowledged) alert with its key, or opens a new one; open alerts whose
+ * rule was evaluated and no longer fires, or whose rule is gone or disabled,
+ * resolve. New alerts notify unless the same key notified within the rule's
+ * throttle (then once it passes, if still firing); open ones re-notify every
+ * `repeatMinutes` until acknowledged.
+ * Resolved alerts are dropped after RESOLVED_ALERT_RETENTION_HOURS.
+ */
+export function reconcileAlerts(
+  existing: Alert[],
+  evaluation: AlertEvaluation,
+  rules: AlertRule[],
+  now: Date
+): AlertReconciliation {
+  const at = now.toISOString()
+  const rulesById = new Map(rules.filter((r) => r.enabled !== false).map((r) => [r.id, r]))
+  const evaluated = new Set(evaluation.evaluatedRuleIds)
+  const firing = new Map(evaluation.candidates.map((c) => [c.key, c]))
+  const lastNotified = new Map<string, string>()
+  for (const a of existing) {
+    const prev = lastNotified.get(a.key)
+    if (a.lastNotifiedAt && (!prev || a.lastNotifiedAt > prev)) lastNotified.set(a.key, a.lastNotifiedAt)
+  }
+
+  const alerts: Alert[] = []
+  const notify: Alert[] = []
+  const tracked = new Set<string>()
+  for (const alert of existing) {
+    if (alert.state === "resolved") {
+      if (elapsed(alert.resolvedAt, now) < RESOLVED_ALERT_RETENTION_HOURS * 60 * 60 * 1000) alerts.push(alert)
+      continue
+    }
+    const rule = rulesById.get(alert.ruleId)
+    const match = firing.get(alert.key)
+    if (rule && match && !tracked.has(alert.key)) {
+      const updated: Alert = { ...alert, ...match, lastSeenAt: at }
+      tracked.add(alert.key)
+      alerts.push(updated)
+      if (notificationDue(updated, rule, now)) notify.push(updated)
+    } else if (rule && !evaluated.has(rule.id)) {
+      alerts.push(alert)
+      tracked.add(alert.key)
+    } else {
+      alerts.push({ ...alert, state: "resolved", resolvedAt: at })
+    }
+  }
+
+  for (const c of evaluation.candidates) {
+    const rule = rulesById.get(c.ruleId)
+    if (!rule || tracked.has(c.key)) continue
+    tracked.add(c.key)
+    const alert: Alert = {
+      ...c,
+      id: `${c.key}@${at}`,
+      state: "open",
+      firstSeenAt: at,
+      lastSeenAt: at,
+      lastNotifiedAt: lastNotified.get(c.key),
+    }
+    alerts.push(alert)
+    if (notificationDue(alert, rule, now)) notify.push(alert)
+  }
+  return { alerts, notify }
+}
+
+/** Records a successful delivery of the alerts with these ids. */
+export function markNotified(alerts: Alert[], ids: Iterable<string>, now: Date): Alert[] {
+  const sent = new Set(ids)
+  return alerts.map((a) => (sent.has(a.id) ? { ...a, lastNotifiedAt: now.toISOString() } : a))
+}
+
+/** Acknowledges an open alert: it stays listed and keeps tracking the
+ * condition but stops re-notifying until it resolves. Null when no open alert
+ * has that id. */
+export function acknowledgeAlert(alerts: Alert[], id: string, by: string | undefined, now: Date): Alert[] | null {
+  if (!alerts.some((a) => a.id === id && a.state === "open")) return null
+  return alerts.map((a) =>
+    a.id === id ? { ...a, state: "acknowledged", acknowledgedAt: now.toISOString(), acknowledgedBy: by } : a
+  )
+}
+
+/**
+ * Carries acknowledgements recorded in `latest` (the store as reloaded just
+ * before a save) onto `alerts`, so a pass that read the store earlier doesn't
+ * write over an acknowledgement made while it ran. Alerts the pass resolved
+ * stay resolved.
+ */
+export function mergeAcknowledgements(alerts: Alert[], latest: Alert[]): Alert[] {
+  const acked = new Map(latest.filter((a) => a.state === "acknowledged").map((a) => [a.id, a]))
+  return alerts.map((a) => {
+    const ack = a.state === "open" ? acked.get(a.id) : undefined
+    return ack ? { ...a, state: "acknowledged", acknowledgedAt: ack.acknowledgedAt, acknowledgedBy: ack.acknowledgedBy } : a
+  })
+}
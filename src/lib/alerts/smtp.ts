@@ -0,0 +1,203 @@
+/**
+ * Minimal SMTP client for alert and report email: EHLO, STARTTLS when the
+ * server offers it, AUTH PLAIN, one plain-text message with optional
+ * attachments. Enough for a relay or Office 365 / SendGrid submission without
+ * pulling a mail library into the web tier.
+ */
+
+import net from "node:net"
+import tls from "node:tls"
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when offered. */
+  secure?: boolean
+  user?: string
+  password?: string
+  from: string
+  timeoutMs?: number
+}
+
+export interface MailAttachment {
+  filename: string
+  contentType: string
+  content: Buffer
+}
+
+export interface MailMessage {
+  to: string[]
+  subject: string
+  text: string
+  attachments?: MailAttachment[]
+}
+
+/** SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER,
+ * SMTP_PASSWORD and SMTP_FROM; undefined when no host or sender is set. */
+export function smtpConfigFromEnv(env: Record<string, string | undefined> = process.env): SmtpConfig | undefined {
+  if (!env.SMTP_HOST || !env.SMTP_FROM) return undefined
+  const secure = env.SMTP_SECURE === "true"
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.SMTP_FROM,
+  }
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+/** Reads multi-line replies ("250-..." continued, "250 ..." final) off
+ * whichever socket is current; STARTTLS swaps the socket mid-session. */
+class ReplyReader {
+  private buffer = ""
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null
+  private failure: Error | null = null
+  private socket: net.Socket | null = null
+  private readonly onData = (chunk: Buffer) => this.push(chunk.toString("utf8"))
+  private readonly onError = (err: Error) => this.fail(err)
+  private readonly onClose = () => this.fail(new Error("SMTP connection closed"))
+
+  attach(socket: net.Socket) {
+    this.socket?.off("data", this.onData).off("error", this.onError).off("close", this.onClose)
+    this.socket = socket
+    socket.on("data", this.onData).on("error", this.onError).on("close", this.onClose)
+  }
+
+  next(): Promise<SmtpReply> {
+    const reply = this.replies.shift()
+    if (reply) return Promise.resolve(reply)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+    })
+  }
+
+  private push(text: string) {
+    this.buffer += text
+    let end: number
+    while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, end)
+      this.buffer = this.buffer.slice(end + 2)
+      this.lines.push(line)
+      if (!/^\d{3}(?: |$)/.test(line)) continue
+      const reply = { code: Number(line.slice(0, 3)), text: this.lines.map((l) => l.slice(4)).join("\n") }
+      this.lines = []
+      if (this.waiting) {
+        this.waiting.resolve(reply)
+        this.waiting = null
+      } else {
+        this.replies.push(reply)
+      }
+    }
+  }
+
+  private fail(err: Error) {
+    this.failure ??= err
+    this.waiting?.reject(this.failure)
+    this.waiting = null
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket))
+    socket.once("error", reject)
+  })
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured))
+    secured.once("error", reject)
+  })
+}
+
+/** RFC 2047 encoded-word for a header carrying non-ASCII text. */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`
+}
+
+/** The DATA payload: headers, CRLF line endings, dot-stuffed, terminated.
+ * With attachments it's multipart/mixed, the text first and each file base64. */
+export function formatMessage(from: string, message: MailMessage, date = new Date()): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    "MIME-Version: 1.0",
+  ]
+  const textPart = ["Content-Type: text/plain; charset=utf-8", "Content-Transfer-Encoding: 8bit", "", ...message.text.split(/\r?\n/)]
+  let lines: string[]
+  if (!message.attachments?.length) {
+    lines = [...headers, ...textPart]
+  } else {
+    const boundary = `reportmate-${date.getTime().toString(36)}-${message.attachments.length}`
+    lines = [...headers, `Content-Type: multipart/mixed; boundary="${boundary}"`, "", `--${boundary}`, ...textPart]
+    for (const file of message.attachments) {
+      const name = encodeHeader(file.filename).replace(/"/g, "")
+      lines.push(
+        `--${boundary}`,
+        `Content-Type: ${file.contentType}; name="${name}"`,
+        "Content-Transfer-Encoding: base64",
+        `Content-Disposition: attachment; filename="${name}"`,
+        "",
+        ...(file.content.toString("base64").match(/.{1,76}/g) ?? [])
+      )
+    }
+    lines.push(`--${boundary}--`)
+  }
+  const body = lines.map((line) => (line.startsWith(".") ? `.${line}` : line))
+  return `${body.join("\r\n")}\r\n.\r\n`
+}
+
+/** Sends one message. Rejects with the server's reply when a command fails. */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  let socket = await connect(config)
+  socket.setTimeout(config.timeoutMs ?? 15000, () => socket.destroy(new Error("SMTP timed out")))
+  const reader = new ReplyReader()
+  reader.attach(socket)
+
+  const expect = async (codes: number[], step: string) => {
+    const reply = await reader.next()
+    if (!codes.includes(reply.code)) throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.text}`)
+    return reply
+  }
+  const command = (line: string, codes: number[], step = line.split(" ")[0]) => {
+    socket.write(`${line}\r\n`)
+    return expect(codes, step)
+  }
+
+  try {
+    await expect([220], "greeting")
+    const ehlo = await command("EHLO reportmate", [250], "EHLO")
+    if (!config.secure && /^STARTTLS\b/im.test(ehlo.text)) {
+      await command("STARTTLS", [220])
+      socket = await upgrade(socket, config.host)
+      reader.attach(socket)
+      await command("EHLO reportmate", [250], "EHLO")
+    }
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ""}`, "utf8").toString("base64")
+      await command(`AUTH PLAIN ${credentials}`, [235], "AUTH")
+    }
+    await command(`MAIL FROM:<${config.from.replace(/^.*<([^>]+)>.*$/, "$1")}>`, [250], "MAIL")
+    for (const to of message.to) await command(`RCPT TO:<${to}>`, [250, 251], "RCPT")
+    await command("DATA", [354])
+    socket.write(formatMessage(config.from, message))
+    await expect([250], "message")
+    await command("QUIT", [221]).catch(() => undefined)
+  } finally {
+    socket.end()
+  }
+}
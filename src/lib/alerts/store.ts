@@ -0,0 +1,26 @@
+/**
+ * Alert state lives in FastAPI (`/api/v1/alerts`) as one opaque list, like the
+ * settings document; the web tier owns its shape (Alert) and every change.
+ */
+
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import type { Alert } from "./engine"
+
+/** The tracked alerts. A store that has never been written is empty. */
+export async function loadAlerts(apiBaseUrl: string): Promise<Alert[]> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/alerts`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return []
+  if (!res.ok) throw new Error(`Alert store returned ${res.status}`)
+  const data = await res.json()
+  return Array.isArray(data?.alerts) ? data.alerts : []
+}
+
+export async function saveAlerts(apiBaseUrl: string, alerts: Alert[]): Promise<void> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/alerts`, {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify({ alerts }),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Alert store returned ${res.status}`)
+}
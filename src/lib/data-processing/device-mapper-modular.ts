@@ -3,6 +3,7 @@
  */
 
 import { calculateDeviceStatus, normalizeLastSeen, type DeviceStatus } from './device-status'
+import type { StatusThresholds } from '../settings/types'
 import { extractHardware, type HardwareInfo } from './modules/hardware'
 import { extractNetwork, type NetworkInfo } from './modules/network'
 import { extractSystem, type SystemInfo } from './modules/system'
@@ -113,7 +114,11 @@ function inferPlatformFromHardware(modules: any): string | undefined {
   return undefined
 }
 
-export function mapDeviceData(rawDevice: any): ProcessedDeviceInfo {
+/**
+ * `thresholds` are the device's status thresholds as resolved from the org's
+ * status settings (useStatusThresholds); the standard 24h / 7d apply without.
+ */
+export function mapDeviceData(rawDevice: any, thresholds?: StatusThresholds): ProcessedDeviceInfo {
   // Extract modules data with correct nesting
   const modules = rawDevice.modules || {}
   
@@ -140,7 +145,7 @@ export function mapDeviceData(rawDevice: any): ProcessedDeviceInfo {
   
   // Calculate status using centralized logic (single source of truth)
   const normalizedLastSeen = normalizeLastSeen(rawDevice.lastSeen)
-  const calculatedStatus = calculateDeviceStatus(normalizedLastSeen)
+  const calculatedStatus = calculateDeviceStatus(normalizedLastSeen, thresholds)
   
   return {
     // Core identifiers  
@@ -18,11 +18,13 @@ const DEFAULT_CONFIG: StatusConfig = {
 /**
  * Calculate device status based on lastSeen timestamp
  * MODULAR: Self-contained status logic
+ * Measured against `now`, which defaults to the current time
  */
 export function calculateDeviceStatus(
   lastSeen: string | Date | null | undefined, 
   config: Partial<StatusConfig> = {},
-  isArchived: boolean = false
+  isArchived: boolean = false,
+  now: Date = new Date()
 ): DeviceStatus {
   const finalConfig = { ...DEFAULT_CONFIG, ...config }
   
@@ -33,7 +35,6 @@ export function calculateDeviceStatus(
     const lastSeenDate = new Date(lastSeen)
     if (isNaN(lastSeenDate.getTime())) return 'missing'
     
-    const now = new Date()
     const diffHours = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60)
     
     if (diffHours < finalConfig.activeThresholdHours) return 'active'
@@ -0,0 +1,35 @@
+import { errorCodeOf, lookupInstallError } from './install-error-codes'
+import type { InstallErrorCode } from '../settings/types'
+
+const org: InstallErrorCode[] = [
+  { id: 'lic', pattern: 'license server .* unreachable', description: 'License server down', action: 'Check the VPN', category: 'system', severity: 'error' },
+  { id: '1603', code: '1603', description: 'Our 1603', action: 'Ask packaging', category: 'msi_installer', severity: 'error' },
+]
+
+describe('lookupInstallError', () => {
+  it('uses the built-in MSI table for codes given or found in the message', () => {
+    expect(lookupInstallError({ code: '1638' })).toMatchObject({ description: 'Another Version Installed', category: 'msi_installer' })
+    expect(lookupInstallError({ code: 'ERROR', message: 'MSI failed with exit code 1633' })).toMatchObject({ category: 'architecture' })
+    expect(lookupInstallError({ code: '3010' })?.severity).toBe('warning')
+    expect(lookupInstallError({ message: 'Download failed' })).toBeNull()
+  })
+
+  it('checks org entries first, by code and by message pattern', () => {
+    expect(lookupInstallError({ message: 'exit code 1603' }, org)).toMatchObject({ description: 'Our 1603', matchedBy: '1603' })
+    expect(lookupInstallError({ code: 'ERROR', message: 'License Server flexlm01 unreachable' }, org)).toMatchObject({ category: 'system', matchedBy: 'lic' })
+    expect(lookupInstallError({ code: '1618' }, org)).toMatchObject({ description: 'Installer Conflict' })
+  })
+
+  it('ignores org patterns that do not compile', () => {
+    const broken = [{ ...org[0], pattern: '(unclosed' }]
+    expect(lookupInstallError({ message: '(unclosed' }, broken)).toBeNull()
+  })
+})
+
+describe('errorCodeOf', () => {
+  it('reads installer exit codes out of messages', () => {
+    expect(errorCodeOf('Installer failed with exit code 1618')).toBe('1618')
+    expect(errorCodeOf('HRESULT 0x80070643 during install')).toBe('0x80070643')
+    expect(errorCodeOf('Download failed')).toBeUndefined()
+  })
+})
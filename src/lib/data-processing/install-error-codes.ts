@@ -0,0 +1,176 @@
+/**
+ * Installer Error Code Catalog
+ * What an install error means and what to do about it. The org's own entries
+ * (Settings → Installer Errors), matched by code or by a regex on the message,
+ * come first; then the built-in table: the Windows Installer exit codes plus
+ * Cimian's own error keys.
+ */
+
+import type { InstallErrorCategory, InstallErrorCode } from '../settings/types'
+
+export interface InstallErrorInfo {
+  description: string
+  severity: 'error' | 'warning'
+  action: string
+  category: InstallErrorCategory
+  /** Id of the org entry that matched; unset for built-in entries. */
+  matchedBy?: string
+}
+
+const MSI_ACTION = 'Check the verbose MSI log (msiexec /l*v) and the Windows Application event log'
+
+/** Windows Installer exit codes: [code, description, action?]. */
+const MSI_EXIT_CODES: [string, string, string?][] = [
+  ['13', 'Invalid Data'],
+  ['87', 'Invalid Parameter', 'Check the installer command line and properties'],
+  ['120', 'Function Not Available'],
+  ['1259', 'Blocked by Application Compatibility', 'The app is blocked on this version of Windows; use a supported build'],
+  ['1601', 'Windows Installer Service Unavailable', 'Check that the Windows Installer service (msiserver) is running'],
+  ['1602', 'Installation Cancelled', 'The installation was cancelled by the user or a script; retry'],
+  ['1603', 'Fatal Installation Error', 'Check system requirements and installer logs'],
+  ['1604', 'Installation Suspended'],
+  ['1605', 'Product Not Installed', 'The action only applies to installed products; check the product code'],
+  ['1606', 'Unknown Feature'],
+  ['1607', 'Unknown Component'],
+  ['1608', 'Unknown Property'],
+  ['1609', 'Invalid Handle State'],
+  ['1610', 'Corrupt Product Configuration', 'Repair or reinstall the product'],
+  ['1611', 'Component Qualifier Missing'],
+  ['1612', 'Installation Source Unavailable', 'The original installer is missing from the cache; reinstall from the package'],
+  ['1613', 'Windows Installer Version Too Old', 'Update Windows Installer on this device'],
+  ['1614', 'Product Uninstalled'],
+  ['1615', 'Invalid Query Syntax'],
+  ['1616', 'Record Field Missing'],
+  ['1618', 'Installer Conflict', 'Another installation is in progress - wait and retry'],
+  ['1619', 'Package Could Not Be Opened', 'Check the package downloaded completely and is readable'],
+  ['1620', 'Invalid Package', 'The package is corrupt or not a Windows Installer package; rebuild or re-download it'],
+  ['1621', 'Installer UI Failed'],
+  ['1622', 'Log File Error', 'Check the log path exists and is writable'],
+  ['1623', 'Language Not Supported'],
+  ['1624', 'Transform Failed', 'Check the MST transforms exist and match the package'],
+  ['1625', 'Blocked by Policy', 'A system policy prohibits this installation'],
+  ['1626', 'Function Not Called'],
+  ['1627', 'Function Failed'],
+  ['1628', 'Invalid Table'],
+  ['1629', 'Data Type Mismatch'],
+  ['1630', 'Unsupported Data Type'],
+  ['1631', 'Windows Installer Service Failed to Start', 'Restart the Windows Installer service'],
+  ['1632', 'Temp Folder Unavailable', 'Free space in or fix permissions on the Temp folder'],
+  ['1633', 'Unsupported Processor Type', 'Package not compatible with system architecture'],
+  ['1634', 'Component Not Used'],
+  ['1635', 'Patch Could Not Be Opened'],
+  ['1636', 'Invalid Patch'],
+  ['1637', 'Unsupported Patch', 'Update Windows Installer on this device'],
+  ['1638', 'Another Version Installed', 'Uninstall the existing version first or use an upgrade package'],
+  ['1639', 'Invalid Command Line', 'Check the installer command line and properties'],
+  ['1640', 'Remote Install Not Allowed'],
+  ['1641', 'Restart Initiated', 'Installation successful; the installer restarted the device'],
+  ['1642', 'Upgrade Target Not Found', 'The product to upgrade is missing or a different version'],
+  ['1643', 'Patch Blocked by Policy'],
+  ['1644', 'Customization Blocked by Policy'],
+  ['1645', 'Remote Desktop Install Not Allowed'],
+  ['1646', 'Patch Not Removable'],
+  ['1647', 'Patch Not Applied'],
+  ['1648', 'No Valid Patch Sequence'],
+  ['1649', 'Patch Removal Blocked by Policy'],
+  ['1650', 'Invalid Patch XML'],
+  ['1651', 'Advertised Product Patch Failed'],
+  ['1652', 'Installer Unavailable in Safe Mode', 'Restart the device normally and retry'],
+  ['1653', 'Rollback Disabled'],
+  ['1654', 'App Not Supported on This Windows Version'],
+  ['3010', 'Reboot Required', 'System restart needed to complete installation'],
+]
+
+const WARNING_CODES = new Set(['1641', '3010'])
+
+const BUILTIN_ERROR_CODES: Record<string, InstallErrorInfo> = {
+  ...Object.fromEntries(
+    MSI_EXIT_CODES.map(([code, description, action]): [string, InstallErrorInfo] => [
+      code,
+      {
+        description,
+        severity: WARNING_CODES.has(code) ? 'warning' : 'error',
+        action: action ?? MSI_ACTION,
+        category: code === '1633' ? 'architecture' : 'msi_installer',
+      },
+    ])
+  ),
+
+  // Architecture Errors
+  'ARCH_MISMATCH': { description: 'Architecture Incompatibility', severity: 'error', action: 'Package not compatible with system architecture', category: 'architecture' },
+  'architecture_check': { description: 'Architecture Validation Failed', severity: 'error', action: 'Package architecture not supported on this system', category: 'architecture' },
+
+  // Chocolatey Errors
+  'CHOCO_DEPENDENCY': { description: 'Dependency Resolution Failed', severity: 'error', action: 'Required dependencies unavailable or incompatible', category: 'chocolatey' },
+  'chocolatey_install': { description: 'Chocolatey Installation Failed', severity: 'error', action: 'Check Chocolatey logs and package availability', category: 'chocolatey' },
+  'chocolatey_upgrade': { description: 'Chocolatey Upgrade Failed', severity: 'error', action: 'Check package version compatibility', category: 'chocolatey' },
+
+  // EXE Errors
+  'EXE_TIMEOUT': { description: 'Installation Timeout', severity: 'error', action: 'Installation process exceeded time limit', category: 'timeout' },
+  'exe_timeout': { description: 'EXE Installer Timeout', severity: 'error', action: 'Installer did not complete within expected time', category: 'timeout' },
+  'exe_exit_code_error': { description: 'EXE Installer Failed', severity: 'error', action: 'Check installer exit code and system requirements', category: 'exe_installer' },
+
+  // PowerShell Errors
+  'PS_SCRIPT_FAILED': { description: 'Script Execution Failed', severity: 'error', action: 'Pre/post installation script encountered an error', category: 'powershell' },
+
+  // MSI Specific Actions
+  'msi_fatal_error': { description: 'MSI Fatal Error', severity: 'error', action: 'Critical MSI installation failure - check Windows Event Log', category: 'msi_installer' },
+  'msi_conflict_error': { description: 'MSI Installation Conflict', severity: 'error', action: 'Another MSI installation is currently running', category: 'msi_installer' },
+  'msi_reboot_required': { description: 'MSI Reboot Required', severity: 'warning', action: 'Installation successful but requires system restart', category: 'msi_installer' },
+  'msi_timeout': { description: 'MSI Installation Timeout', severity: 'error', action: 'MSI installer did not respond within timeout period', category: 'timeout' },
+}
+
+/** The built-in codes, for showing alongside the org's entries. */
+export function builtinInstallErrorCodes(): [string, InstallErrorInfo][] {
+  return Object.entries(BUILTIN_ERROR_CODES)
+}
+
+/** Installer exit code mentioned in an error message, e.g. "exit code 1603" or "0x80070643". */
+export function errorCodeOf(message: string): string | undefined {
+  const match = message.match(/\b(?:exit|error|return)\s*code[:\s]*(-?\d+|0x[0-9a-f]+)/i) || message.match(/\b(0x[0-9a-f]{8})\b/i)
+  return match?.[1]
+}
+
+const compiled = new Map<string, RegExp | null>()
+
+/** The entry's pattern as a case-insensitive regex, or null if it doesn't compile. */
+export function compileErrorPattern(pattern: string): RegExp | null {
+  if (!compiled.has(pattern)) {
+    let regex: RegExp | null = null
+    try {
+      regex = new RegExp(pattern, 'i')
+    } catch {
+      // Reported by settings validation; never matches.
+    }
+    compiled.set(pattern, regex)
+  }
+  return compiled.get(pattern)!
+}
+
+const sameCode = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * The catalog entry for an error. The error's own code is tried first, then a
+ * code read out of its message (Cimian reports most codes only in the text).
+ */
+export function lookupInstallError(
+  error: { code?: string; message?: string },
+  orgCodes: InstallErrorCode[] = []
+): InstallErrorInfo | null {
+  const message = error.message ?? ''
+  const codes = [error.code, errorCodeOf(message)].filter((c): c is string => !!c)
+
+  for (const entry of orgCodes) {
+    const byCode = entry.code && codes.some((c) => sameCode(c, entry.code!))
+    const byPattern = !byCode && entry.pattern && message && compileErrorPattern(entry.pattern)?.test(message)
+    if (byCode || byPattern) {
+      const { description, severity, action, category, id } = entry
+      return { description, severity, action, category, matchedBy: id }
+    }
+  }
+  for (const code of codes) {
+    const info = BUILTIN_ERROR_CODES[code.toLowerCase()] || BUILTIN_ERROR_CODES[code]
+    if (info) return info
+  }
+  return null
+}
@@ -0,0 +1,34 @@
+/**
+ * Install Item Status Buckets
+ * How a Cimian/Munki item status (currentStatus) is counted on the Installs
+ * pages: errors, warnings (needs attention) and pending (scheduled changes).
+ * An item can be in none of them (installed, removed).
+ */
+
+export type InstallStatusBucket = 'errors' | 'warnings' | 'pending'
+
+export function isErrorInstallStatus(status: string | null | undefined): boolean {
+  const s = (status || '').toLowerCase()
+  return s.includes('error') || s.includes('failed') || s.includes('problem') || s === 'needs_reinstall'
+}
+
+export function isWarningInstallStatus(status: string | null | undefined): boolean {
+  const s = (status || '').toLowerCase()
+  // Warnings are issues that need attention - NOT pending changes
+  return s.includes('warning') || s === 'needs-attention'
+}
+
+export function isPendingInstallStatus(status: string | null | undefined): boolean {
+  const s = (status || '').toLowerCase()
+  // Pending are scheduled changes - installations, removals, updates
+  return s.includes('will-be-installed') || s.includes('update-available') ||
+         s.includes('update_available') || s.includes('will-be-removed') ||
+         s.includes('pending') || s.includes('scheduled') ||
+         s === 'managed-update-available'
+}
+
+export function installStatusInBucket(status: string | null | undefined, bucket: InstallStatusBucket): boolean {
+  if (bucket === 'errors') return isErrorInstallStatus(status)
+  if (bucket === 'warnings') return isWarningInstallStatus(status)
+  return isPendingInstallStatus(status)
+}
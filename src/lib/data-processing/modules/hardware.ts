@@ -4,6 +4,9 @@
  */
 
 export interface HardwareInfo {
+  manufacturer?: string
+  model?: string
+  biosVersion?: string
   processor?: string
   processorSpeed?: string
   cores?: number
@@ -51,6 +54,10 @@ export function extractHardware(deviceModules: any): HardwareInfo {
   
   
   const hardwareInfo: HardwareInfo = {
+    manufacturer: hardware.manufacturer || hardware.system?.hardware_vendor,
+    model: hardware.model || hardware.system?.model_name,
+    // Windows reports the SMBIOS BIOS version, Macs the system firmware (boot ROM) version
+    biosVersion: hardware.bios?.version || hardware.bios?.smbiosBiosVersion || hardware.system?.boot_rom_version || hardware.system?.bootRomVersion,
     processor: hardware.processor?.name,
     // Support both snake_case and camelCase for processor speed
     processorSpeed: hardware.processor?.speed || hardware.processor?.base_speed || hardware.processor?.baseSpeed,
@@ -1,4 +1,6 @@
 import { normalizeCimianTimestamp } from '../../time'
+import { lookupInstallError, type InstallErrorInfo } from '../install-error-codes'
+import type { InstallErrorCode } from '../../settings/types'
 
 /**
  * Installs Status Module
@@ -14,7 +16,7 @@ export type StandardInstallStatus = 'Installed' | 'Pending' | 'Warning' | 'Error
  * Falls back to case-insensitive string comparison if either side cannot be parsed.
  * Used to recognize when the device has a newer version than the repo (which is fine).
  */
-function compareSemanticVersions(a: string, b: string): number {
+export function compareSemanticVersions(a: string, b: string): number {
   if (!a && !b) return 0
   if (!a) return -1
   if (!b) return 1
@@ -53,145 +55,34 @@ export enum ErrorCategory {
   SYSTEM = 'system'
 }
 
-interface ErrorCodeMapping {
-  description: string
-  severity: 'error' | 'warning'
-  action: string
+export interface ErrorCodeInfo extends Omit<InstallErrorInfo, 'category'> {
   category: ErrorCategory
 }
 
-const ERROR_CODE_MAPPINGS: Record<string, ErrorCodeMapping> = {
-  // MSI Error Codes
-  '1603': { 
-    description: 'Fatal Installation Error', 
-    severity: 'error', 
-    action: 'Check system requirements and installer logs',
-    category: ErrorCategory.MSI_INSTALLER
-  },
-  '1618': { 
-    description: 'Installer Conflict', 
-    severity: 'error', 
-    action: 'Another installation is in progress - wait and retry',
-    category: ErrorCategory.MSI_INSTALLER
-  },
-  '3010': { 
-    description: 'Reboot Required', 
-    severity: 'warning', 
-    action: 'System restart needed to complete installation',
-    category: ErrorCategory.MSI_INSTALLER
-  },
-  
-  // Architecture Errors
-  'ARCH_MISMATCH': { 
-    description: 'Architecture Incompatibility', 
-    severity: 'error', 
-    action: 'Package not compatible with system architecture',
-    category: ErrorCategory.ARCHITECTURE
-  },
-  'architecture_check': { 
-    description: 'Architecture Validation Failed', 
-    severity: 'error', 
-    action: 'Package architecture not supported on this system',
-    category: ErrorCategory.ARCHITECTURE
-  },
-  
-  // Chocolatey Errors  
-  'CHOCO_DEPENDENCY': { 
-    description: 'Dependency Resolution Failed', 
-    severity: 'error', 
-    action: 'Required dependencies unavailable or incompatible',
-    category: ErrorCategory.CHOCOLATEY
-  },
-  'chocolatey_install': { 
-    description: 'Chocolatey Installation Failed', 
-    severity: 'error', 
-    action: 'Check Chocolatey logs and package availability',
-    category: ErrorCategory.CHOCOLATEY
-  },
-  'chocolatey_upgrade': { 
-    description: 'Chocolatey Upgrade Failed', 
-    severity: 'error', 
-    action: 'Check package version compatibility',
-    category: ErrorCategory.CHOCOLATEY
-  },
-  
-  // EXE Errors
-  'EXE_TIMEOUT': { 
-    description: 'Installation Timeout', 
-    severity: 'error', 
-    action: 'Installation process exceeded time limit',
-    category: ErrorCategory.TIMEOUT
-  },
-  'exe_timeout': { 
-    description: 'EXE Installer Timeout', 
-    severity: 'error', 
-    action: 'Installer did not complete within expected time',
-    category: ErrorCategory.TIMEOUT
-  },
-  'exe_exit_code_error': { 
-    description: 'EXE Installer Failed', 
-    severity: 'error', 
-    action: 'Check installer exit code and system requirements',
-    category: ErrorCategory.EXE_INSTALLER
-  },
-  
-  // PowerShell Errors
-  'PS_SCRIPT_FAILED': { 
-    description: 'Script Execution Failed', 
-    severity: 'error', 
-    action: 'Pre/post installation script encountered an error',
-    category: ErrorCategory.POWERSHELL
-  },
-  
-  // MSI Specific Actions
-  'msi_fatal_error': { 
-    description: 'MSI Fatal Error', 
-    severity: 'error', 
-    action: 'Critical MSI installation failure - check Windows Event Log',
-    category: ErrorCategory.MSI_INSTALLER
-  },
-  'msi_conflict_error': { 
-    description: 'MSI Installation Conflict', 
-    severity: 'error', 
-    action: 'Another MSI installation is currently running',
-    category: ErrorCategory.MSI_INSTALLER
-  },
-  'msi_reboot_required': { 
-    description: 'MSI Reboot Required', 
-    severity: 'warning', 
-    action: 'Installation successful but requires system restart',
-    category: ErrorCategory.MSI_INSTALLER
-  },
-  'msi_timeout': { 
-    description: 'MSI Installation Timeout', 
-    severity: 'error', 
-    action: 'MSI installer did not respond within timeout period',
-    category: ErrorCategory.TIMEOUT
-  }
-}
-
 /**
- * Get enhanced error information from error code
+ * Get enhanced error information from error code (and message, for codes
+ * only given in the text). `orgCodes` are the org's catalog entries from
+ * settings; see install-error-codes.ts.
  */
-export function getErrorCodeInfo(code?: string): ErrorCodeMapping | null {
-  if (!code) return null
-  return ERROR_CODE_MAPPINGS[code.toLowerCase()] || ERROR_CODE_MAPPINGS[code] || null
+export function getErrorCodeInfo(code?: string, orgCodes: InstallErrorCode[] = [], message?: string): ErrorCodeInfo | null {
+  if (!code && !message) return null
+  const info = lookupInstallError({ code, message }, orgCodes)
+  return info && { ...info, category: info.category as ErrorCategory }
 }
 
 /**
  * Categorize error based on code and message content
  */
-export function categorizeError(error: ErrorMessage): ErrorCategory {
-  const code = error.code?.toLowerCase() || ''
+export function categorizeError(error: ErrorMessage, orgCodes: InstallErrorCode[] = []): ErrorCategory {
   const message = error.message.toLowerCase()
   
-  // Check code-based categorization first
-  const codeInfo = getErrorCodeInfo(code)
+  // Check the catalog (code, then org message patterns) first
+  const codeInfo = getErrorCodeInfo(error.code, orgCodes, error.message)
   if (codeInfo) return codeInfo.category
   
   // Fallback to message-based categorization
   if (message.includes('architecture') || message.includes('arch')) return ErrorCategory.ARCHITECTURE
-  if (message.includes('msi') || ['1603', '1618', '3010'].includes(code)) return ErrorCategory.MSI_INSTALLER
+  if (message.includes('msi')) return ErrorCategory.MSI_INSTALLER
   if (message.includes('exe') || message.includes('executable')) return ErrorCategory.EXE_INSTALLER
   if (message.includes('chocolatey') || message.includes('choco')) return ErrorCategory.CHOCOLATEY
   if (message.includes('powershell') || message.includes('script')) return ErrorCategory.POWERSHELL
@@ -204,12 +95,12 @@ export function categorizeError(error: ErrorMessage): ErrorCategory {
 /**
  * Get user-friendly error description
  */
-export function getErrorDescription(error: ErrorMessage): string {
-  const codeInfo = getErrorCodeInfo(error.code)
+export function getErrorDescription(error: ErrorMessage, orgCodes: InstallErrorCode[] = []): string {
+  const codeInfo = getErrorCodeInfo(error.code, orgCodes, error.message)
   if (codeInfo) return codeInfo.description
   
   // Fallback descriptions based on category
-  const category = categorizeError(error)
+  const category = categorizeError(error, orgCodes)
   switch (category) {
     case ErrorCategory.ARCHITECTURE:
       return 'Architecture Compatibility Issue'
@@ -233,15 +124,15 @@ export function getErrorDescription(error: ErrorMessage): string {
 /**
  * Get recommended action for error
  */
-export function getRecommendedAction(error: ErrorMessage): string {
-  const codeInfo = getErrorCodeInfo(error.code)
+export function getRecommendedAction(error: ErrorMessage, orgCodes: InstallErrorCode[] = []): string {
+  const codeInfo = getErrorCodeInfo(error.code, orgCodes, error.message)
   if (codeInfo) return codeInfo.action
   
   // Enhanced context-based recommendations
   if (error.context?.recommendedAction) return error.context.recommendedAction
   
   // Fallback recommendations based on category
-  const category = categorizeError(error)
+  const category = categorizeError(error, orgCodes)
   switch (category) {
     case ErrorCategory.ARCHITECTURE:
       return 'Verify package architecture compatibility with your system'
@@ -0,0 +1,40 @@
+import { cleanSerials, describeBulkJob, retrySerials, summarizeBulkJob, validateBulkRequest, withInterruption } from './bulk'
+
+const job = {
+  serials: ['A1', 'B2', 'C3', 'D4'],
+  results: [
+    { serialNumber: 'B2', ok: true, status: 200 },
+    { serialNumber: 'A1', ok: false, status: 404, detail: 'Device not found' },
+    { serialNumber: 'C3', ok: false, status: 0, detail: 'fetch failed' },
+  ],
+}
+
+describe('bulk device actions', () => {
+  it('validates job requests', () => {
+    expect(validateBulkRequest({ action: 'archive', serials: ['A1'] })).toEqual([])
+    expect(validateBulkRequest({ action: 'tag', serials: ['A1'], tags: { add: ['loaner'] } })).toEqual([])
+    expect(validateBulkRequest({ action: 'wipe', serials: [] }).map((e) => e.path)).toEqual(['action', 'serials'])
+    expect(validateBulkRequest({ action: 'tag', serials: ['A1'] }).map((e) => e.path)).toEqual(['tags'])
+    expect(validateBulkRequest({ action: 'tag', serials: ['A1'], tags: { remove: ['a,b'] } }).map((e) => e.path)).toEqual(['tags.remove'])
+    expect(validateBulkRequest({ action: 'delete', serials: ['A1'], tags: { add: ['x'] } }).map((e) => e.path)).toEqual(['tags'])
+    expect(validateBulkRequest({ action: 'clearInstallErrors', serials: ['A1'] })).toEqual([])
+  })
+
+  it('summarizes progress and retries failures plus devices never reached', () => {
+    expect(summarizeBulkJob(job)).toEqual({ requested: 4, succeeded: 1, failed: 2, pending: 1 })
+    expect(retrySerials(job)).toEqual(['A1', 'C3', 'D4'])
+  })
+
+  it('cleans serials and describes jobs', () => {
+    expect(cleanSerials([' A1', 'A1', '', 'B2 '])).toEqual(['A1', 'B2'])
+    expect(describeBulkJob({ action: 'tag', serials: ['A1', 'B2'], tags: { add: ['loaner'], remove: ['spare'] } })).toBe('Tag 2 devices +loaner -spare')
+    expect(describeBulkJob({ action: 'clearInstallErrors', serials: ['A1'] })).toBe('Clear install errors 1 device')
+  })
+
+  it('reads a running job as interrupted only once its runner stops writing it', () => {
+    const running = { id: 'j1', action: 'archive' as const, ...job, state: 'running' as const, createdAt: '2026-10-18T10:00:00Z', updatedAt: '2026-10-18T10:00:00Z' }
+    expect(withInterruption(running, new Date('2026-10-18T10:01:00Z')).state).toBe('running')
+    expect(withInterruption(running, new Date('2026-10-18T10:05:00Z')).state).toBe('interrupted')
+    expect(withInterruption({ ...running, state: 'done' }, new Date('2026-10-18T10:05:00Z')).state).toBe('done')
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * Bulk device actions: archive, unarchive, delete, tag and clear install
+ * errors on a selection from the fleet lists. Each request becomes a job the
+ * server works through device by device, recording a `BulkResult` per device
+ * (the shape `/api/admin/devices/bulk-delete` has always returned), so the
+ * list can show progress and retry just the failures.
+ *
+ * Jobs are run by bulkRunner.ts and persisted through store.ts.
+ */
+
+import { MAX_TAG_LENGTH, normalizeTag } from "./groups"
+
+export const BULK_ACTIONS = ["archive", "unarchive", "delete", "tag", "clearInstallErrors"] as const
+
+export type BulkAction = (typeof BULK_ACTIONS)[number]
+
+export const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+  archive: "Archive",
+  unarchive: "Unarchive",
+  delete: "Delete",
+  tag: "Tag",
+  clearInstallErrors: "Clear install errors",
+}
+
+/** Devices one job may cover. */
+export const MAX_BULK_DEVICES = 1000
+
+/** Jobs kept in the history, newest first. */
+export const MAX_BULK_JOBS = 50
+
+/**
+ * A running job's runner writes it at least this often; one not written for
+ * BULK_STALE_MS was cut off by a restart.
+ */
+export const BULK_HEARTBEAT_MS = 15000
+export const BULK_STALE_MS = 120000
+
+/** The outcome for one device. `status` is the upstream HTTP status, 0 when it was never reached. */
+export interface BulkResult {
+  serialNumber: string
+  ok: boolean
+  status: number
+  detail?: string
+}
+
+export interface BulkJob {
+  id: string
+  action: BulkAction
+  /** Tag actions: the tags to add and remove. */
+  tags?: { add?: string[]; remove?: string[] }
+  /** Every device the job covers, in the order they were picked. */
+  serials: string[]
+  /** One per device done so far, in completion order. */
+  results: BulkResult[]
+  state: "running" | "done" | "interrupted"
+  /** The job whose failures this one retries. */
+  retryOf?: string
+  createdBy?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface BulkValidationError {
+  path: string
+  message: string
+}
+
+export interface BulkSummary {
+  requested: number
+  succeeded: number
+  failed: number
+  /** Devices not yet done. */
+  pending: number
+}
+
+/** Checks a job request: `{ action, serials, tags? }`. */
+export function validateBulkRequest(input: unknown): BulkValidationError[] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return [{ path: "", message: "must be an object" }]
+  }
+  const v = input as Record<string, unknown>
+  const errors: BulkValidationError[] = []
+  if (!BULK_ACTIONS.includes(v.action as BulkAction)) {
+    errors.push({ path: "action", message: `must be one of ${BULK_ACTIONS.join(", ")}` })
+  }
+  if (!Array.isArray(v.serials) || v.serials.some((s) => typeof s !== "string" || !s.trim())) {
+    errors.push({ path: "serials", message: "must be a list of serial numbers" })
+  } else if (v.serials.length === 0) {
+    errors.push({ path: "serials", message: "must name at least one device" })
+  } else if (new Set(v.serials.map((s: string) => s.trim())).size > MAX_BULK_DEVICES) {
+    errors.push({ path: "serials", message: `can name at most ${MAX_BULK_DEVICES} devices` })
+  }
+  if (v.action === "tag") {
+    const tags = v.tags as Record<string, unknown> | undefined
+    const lists = ["add", "remove"].filter((key) => tags?.[key] !== undefined)
+    if (!tags || typeof tags !== "object" || lists.length === 0) {
+      errors.push({ path: "tags", message: "needs tags to add or remove" })
+    }
+    for (const key of lists) {
+      const list = tags![key]
+      if (!Array.isArray(list) || list.some((t) => typeof t !== "string" || !normalizeTag(t) || t.includes(","))) {
+        errors.push({ path: `tags.${key}`, message: "must be a list of tags without commas" })
+      } else if (list.some((t: string) => normalizeTag(t).length > MAX_TAG_LENGTH)) {
+        errors.push({ path: `tags.${key}`, message: `tags must be at most ${MAX_TAG_LENGTH} characters` })
+      }
+    }
+  } else if (v.tags !== undefined) {
+    errors.push({ path: "tags", message: "only tag actions take tags" })
+  }
+  return errors
+}
+
+/** Trimmed, de-duplicated serial numbers, in the order given. */
+export function cleanSerials(serials: string[]): string[] {
+  return [...new Set(serials.map((s) => s.trim()).filter(Boolean))]
+}
+
+export function summarizeBulkJob(job: Pick<BulkJob, "serials" | "results">): BulkSummary {
+  const succeeded = job.results.filter((r) => r.ok).length
+  return {
+    requested: job.serials.length,
+    succeeded,
+    failed: job.results.length - succeeded,
+    pending: job.serials.length - job.results.length,
+  }
+}
+
+/**
+ * Devices a retry should cover: the ones that failed plus, for a job cut off
+ * by a restart, the ones it never reached.
+ */
+export function retrySerials(job: Pick<BulkJob, "serials" | "results">): string[] {
+  const done = new Map(job.results.map((r) => [r.serialNumber, r.ok]))
+  return job.serials.filter((s) => done.get(s) !== true)
+}
+
+/**
+ * The job as stored, with a running job its runner stopped writing (no
+ * heartbeat for BULK_STALE_MS) marked interrupted. Whichever process runs a
+ * job, the store says whether it is still going.
+ */
+export function withInterruption(job: BulkJob, now = new Date()): BulkJob {
+  const stale = now.getTime() - Date.parse(job.updatedAt) > BULK_STALE_MS
+  return job.state === "running" && stale ? { ...job, state: "interrupted" } : job
+}
+
+/** e.g. "Archive 12 devices", "Tag 3 devices +loaner -spare". */
+export function describeBulkJob(job: Pick<BulkJob, "action" | "serials" | "tags">): string {
+  const devices = `${job.serials.length} device${job.serials.length === 1 ? "" : "s"}`
+  const tags = [...(job.tags?.add ?? []).map((t) => `+${t}`), ...(job.tags?.remove ?? []).map((t) => `-${t}`)]
+  return [BULK_ACTION_LABELS[job.action], devices, ...tags].join(" ")
+}
@@ -0,0 +1,134 @@
+/**
+ * Runs bulk jobs (see bulk.ts) on the server. A job is started by the bulk
+ * route and worked through in the background, a few devices at a time, while
+ * the list polls it. Jobs in progress are written to the store as they go and
+ * at least every BULK_HEARTBEAT_MS, so any process can report on them and one
+ * cut off by a restart reads as interrupted (withInterruption) and can be
+ * retried.
+ */
+
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { BULK_HEARTBEAT_MS, BulkJob, BulkResult, withInterruption } from "./bulk"
+import { applyTagChanges } from "./groups"
+import { loadBulkJobs, loadDeviceGroups, recordBulkJob, saveDeviceGroups } from "./store"
+
+const BULK_CONCURRENCY = 6
+
+/** Results between store writes while a job runs. */
+const PERSIST_EVERY = 20
+
+const running = new Map<string, BulkJob>()
+
+/**
+ * The outcome of one upstream device request, in the `BulkResult` shape: the
+ * upstream status, with its `detail` or `error` (or body text) on failure.
+ */
+export async function deviceRequestResult(serialNumber: string, url: string, method: string): Promise<BulkResult> {
+  try {
+    const response = await fetch(url, { method, headers: getInternalApiHeaders(), cache: "no-store" })
+    let detail: string | undefined
+    if (!response.ok) {
+      const text = await response.text().catch(() => "")
+      try {
+        const data = JSON.parse(text)
+        detail = data?.detail || data?.error
+      } catch {
+        detail = text || undefined
+      }
+    }
+    return { serialNumber, ok: response.ok, status: response.status, ...(detail ? { detail: String(detail) } : {}) }
+  } catch (error) {
+    return { serialNumber, ok: false, status: 0, detail: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/** The upstream request that performs a per-device action. */
+function actionRequest(apiBaseUrl: string, action: BulkJob["action"], serialNumber: string): { url: string; method: string } {
+  const serial = encodeURIComponent(serialNumber)
+  switch (action) {
+    case "archive":
+      return { url: `${apiBaseUrl}/api/v1/device/${serial}/archive`, method: "PATCH" }
+    case "unarchive":
+      return { url: `${apiBaseUrl}/api/v1/device/${serial}/unarchive`, method: "PATCH" }
+    case "delete":
+      return { url: `${apiBaseUrl}/api/v1/device/${serial}?confirm=true`, method: "DELETE" }
+    case "clearInstallErrors":
+      // Scoped to the device: the fleet-wide `/admin/installs/clear-errors`
+      // only takes `days` and would clear every device's errors
+      return { url: `${apiBaseUrl}/api/v1/device/${serial}/install-errors`, method: "DELETE" }
+    default:
+      throw new Error(`${action} is not a per-device action`)
+  }
+}
+
+/** Tags are one document, so the whole selection is tagged in a single write. */
+async function runTagJob(apiBaseUrl: string, job: BulkJob) {
+  try {
+    const doc = await loadDeviceGroups(apiBaseUrl)
+    await saveDeviceGroups(apiBaseUrl, applyTagChanges(doc, job.serials, job.tags ?? {}))
+    job.results = job.serials.map((serialNumber) => ({ serialNumber, ok: true, status: 200 }))
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    job.results = job.serials.map((serialNumber) => ({ serialNumber, ok: false, status: 0, detail }))
+  }
+}
+
+async function runJob(apiBaseUrl: string, job: BulkJob) {
+  // recordBulkJob queues writes, so the last one started is the last to land
+  let saved = Promise.resolve()
+  const persist = () => {
+    const snapshot = { ...job, results: [...job.results], updatedAt: new Date().toISOString() }
+    saved = recordBulkJob(apiBaseUrl, snapshot).catch((error) => console.warn(`[BULK] could not record job ${job.id}:`, error))
+  }
+  const heartbeat = setInterval(persist, BULK_HEARTBEAT_MS)
+
+  try {
+    if (job.action === "tag") {
+      await runTagJob(apiBaseUrl, job)
+    } else {
+      const queue = [...job.serials]
+      const worker = async () => {
+        for (let serial = queue.shift(); serial; serial = queue.shift()) {
+          const { url, method } = actionRequest(apiBaseUrl, job.action, serial)
+          job.results.push(await deviceRequestResult(serial, url, method))
+          job.updatedAt = new Date().toISOString()
+          if (job.results.length % PERSIST_EVERY === 0) persist()
+        }
+      }
+      await Promise.all(Array.from({ length: BULK_CONCURRENCY }, worker))
+    }
+  } finally {
+    clearInterval(heartbeat)
+  }
+
+  job.state = "done"
+  job.updatedAt = new Date().toISOString()
+  persist()
+  await saved
+  running.delete(job.id)
+}
+
+/** Records the job and starts it in the background; resolves once it is recorded. */
+export async function startBulkJob(apiBaseUrl: string, job: BulkJob): Promise<void> {
+  await recordBulkJob(apiBaseUrl, job)
+  running.set(job.id, job)
+  runJob(apiBaseUrl, job).catch((error) => {
+    console.error(`[BULK] job ${job.id} failed:`, error)
+    running.delete(job.id)
+  })
+}
+
+/** The job's latest progress: from this process if it runs it, else as stored. */
+function live(job: BulkJob): BulkJob {
+  return running.get(job.id) ?? withInterruption(job)
+}
+
+/** Recent jobs, newest first, with the latest progress of the ones running here. */
+export async function listBulkJobs(apiBaseUrl: string): Promise<BulkJob[]> {
+  return (await loadBulkJobs(apiBaseUrl)).map(live)
+}
+
+export async function getBulkJob(apiBaseUrl: string, id: string): Promise<BulkJob | undefined> {
+  const job = running.get(id) ?? (await loadBulkJobs(apiBaseUrl)).find((j) => j.id === id)
+  return job && live(job)
+}
@@ -0,0 +1,40 @@
+import { compareColumn, compareDevices, parseCompareDevices } from './compare'
+
+const device = (serialNumber: string, opts: { bios: string; firefox: string; profiles: string[] }) => ({
+  serialNumber,
+  name: `Render ${serialNumber}`,
+  modules: {
+    hardware: { model: 'Z4 G5', bios: { version: opts.bios }, processor: { name: 'Xeon W5', cores: 16 } },
+    applications: { installedApplications: [{ name: 'Firefox', version: opts.firefox }, { name: 'Houdini', version: '20.5' }] },
+    profiles: { configurationProfiles: opts.profiles.map((name) => ({ profileName: name, uuid: name })) },
+  },
+})
+
+describe('device comparison', () => {
+  it('parses the devices param without duplicates', () => {
+    expect(parseCompareDevices(' A, b,,B ,C')).toEqual(['A', 'b', 'C'])
+    expect(parseCompareDevices(null)).toEqual([])
+  })
+
+  it('marks rows that differ, counting a missing value as a difference', () => {
+    const columns = [
+      compareColumn(device('R1', { bios: '1.10', firefox: '121.0', profiles: ['Wi-Fi', 'Proxy'] })),
+      compareColumn(device('R2', { bios: '1.10', firefox: '121.0', profiles: ['Wi-Fi', 'Proxy'] })),
+      compareColumn(device('R3', { bios: '1.08', firefox: '120.0', profiles: ['Wi-Fi'] })),
+    ]
+    const sections = Object.fromEntries(compareDevices(columns).map((s) => [s.module, s]))
+
+    expect(sections.hardware.rows.filter((r) => r.differs)).toEqual([
+      { field: 'BIOS', values: ['1.10', '1.10', '1.08'], differs: true },
+    ])
+    expect(sections.applications.rows).toEqual([
+      { field: 'Firefox', values: ['121.0', '121.0', '120.0'], differs: true },
+      { field: 'Houdini', values: ['20.5', '20.5', '20.5'], differs: false },
+    ])
+    expect(sections.profiles.rows.find((r) => r.field === 'Proxy')).toMatchObject({
+      values: ['Installed', 'Installed', undefined],
+      differs: true,
+    })
+    expect(sections.profiles.differing).toBe(1)
+  })
+})
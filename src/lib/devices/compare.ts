@@ -0,0 +1,113 @@
+/**
+ * Side-by-side device comparison: lines several devices up module by module
+ * and marks the rows where they differ. Rows come from the same processors
+ * as device snapshots (history.ts), plus each device's managed installs and
+ * configuration profiles, so "different" means a different app version, a
+ * missing profile or another BIOS rather than differently shaped JSON.
+ */
+
+import { extractInstalls } from "../data-processing/modules/installs"
+import { extractProfiles } from "../data-processing/modules/profiles"
+import type { InventoryFieldMapping } from "../settings/types"
+import { captureSnapshot } from "./history"
+
+export const COMPARE_MODULES = ["system", "hardware", "installs", "applications", "security", "profiles"] as const
+
+export type CompareModule = (typeof COMPARE_MODULES)[number]
+
+export const COMPARE_MODULE_LABELS: Record<CompareModule, string> = {
+  system: "Operating system",
+  hardware: "Hardware",
+  installs: "Managed installs",
+  applications: "Applications",
+  security: "Security",
+  profiles: "Profiles",
+}
+
+/** Devices one comparison lines up. */
+export const MAX_COMPARE_DEVICES = 8
+
+export interface CompareColumn {
+  serialNumber: string
+  deviceName: string
+  /** Field -> value per module; a missing field is absent on that device. */
+  modules: Record<CompareModule, Record<string, string>>
+}
+
+export interface CompareRow {
+  field: string
+  /** One per column, in column order; undefined when the device lacks it. */
+  values: (string | undefined)[]
+  differs: boolean
+}
+
+export interface CompareSection {
+  module: CompareModule
+  rows: CompareRow[]
+  differing: number
+}
+
+/** The `devices` param: trimmed, de-duplicated, at most MAX_COMPARE_DEVICES. */
+export function parseCompareDevices(param: string | null): string[] {
+  const serials: string[] = []
+  for (const raw of (param ?? "").split(",")) {
+    const serial = raw.trim()
+    if (serial && !serials.some((s) => s.toLowerCase() === serial.toLowerCase())) serials.push(serial)
+  }
+  return serials.slice(0, MAX_COMPARE_DEVICES)
+}
+
+/** A device record (`{ serialNumber, name, modules }`) as one comparison column. */
+export function compareColumn(device: any, fields?: InventoryFieldMapping[]): CompareColumn {
+  const modules = device?.modules ?? {}
+  const snapshot = captureSnapshot(device, fields)
+
+  const installs: Record<string, string> = {}
+  for (const pkg of extractInstalls(modules).packages) {
+    const name = pkg.displayName || pkg.name
+    if (!name) continue
+    const version = pkg.installedVersion || pkg.version
+    installs[name] = [version, pkg.status].filter(Boolean).join(" · ")
+  }
+
+  const profiles: Record<string, string> = {}
+  for (const profile of extractProfiles(modules).profiles) {
+    const name = profile.displayName || profile.uuid
+    if (name) profiles[name] = profile.type === "User" ? "Installed (user)" : "Installed"
+  }
+
+  return {
+    serialNumber: device?.serialNumber ?? "",
+    deviceName: modules.inventory?.deviceName || device?.name || device?.serialNumber || "Unknown Device",
+    modules: {
+      system: snapshot.modules.system,
+      hardware: snapshot.modules.hardware,
+      installs,
+      applications: snapshot.modules.applications,
+      security: snapshot.modules.security,
+      profiles,
+    },
+  }
+}
+
+const LIST_MODULES: readonly CompareModule[] = ["installs", "applications", "profiles"]
+
+const normalized = (value: string | undefined) => value?.trim().toLowerCase()
+
+/**
+ * The columns' rows per module. A row differs when any two devices disagree,
+ * counting "absent" as a value, so a profile one device lacks is a difference.
+ * Differing rows keep their place; callers filter on `differs`.
+ */
+export function compareDevices(columns: CompareColumn[]): CompareSection[] {
+  return COMPARE_MODULES.map((module) => {
+    const fieldNames = [...new Set(columns.flatMap((c) => Object.keys(c.modules[module] ?? {})))]
+    // Named lists read alphabetically; property modules keep the processors' order
+    if (LIST_MODULES.includes(module)) fieldNames.sort((a, b) => a.localeCompare(b))
+    const rows = fieldNames.map((field) => {
+      const values = columns.map((c) => c.modules[module]?.[field])
+      return { field, values, differs: new Set(values.map(normalized)).size > 1 }
+    })
+    return { module, rows, differing: rows.filter((r) => r.differs).length }
+  })
+}
@@ -0,0 +1,57 @@
+import { captureBaseline, evaluateDrift, resolveBaseline } from './drift'
+import { getDeviceContext } from '../rules/deviceContext'
+
+const mac = (serialNumber: string, opts: { build: string; firefox?: string; profiles: string[]; fileVault: boolean; usage?: string }) => ({
+  serialNumber,
+  modules: {
+    system: { operatingSystem: { name: 'macOS', platform: 'Darwin', version: '15.1', build: opts.build } },
+    inventory: { usage: opts.usage ?? 'Shared', catalog: 'Curriculum' },
+    applications: {
+      installedApplications: [
+        { name: 'Nuke', version: '15.1' },
+        ...(opts.firefox ? [{ name: 'Firefox', version: opts.firefox }] : []),
+      ],
+    },
+    profiles: { configurationProfiles: opts.profiles.map((name) => ({ profileName: name, uuid: name })) },
+    security: { fileVault: { enabled: opts.fileVault }, firewall: { globalState: 1 }, systemIntegrityProtection: { enabled: true } },
+  },
+})
+
+describe('baseline drift', () => {
+  it('picks the most specific enabled baseline', () => {
+    const ctx = getDeviceContext(mac('M1', { build: '24B83', profiles: [], fileVault: true, usage: 'Assigned' }))
+    const drift = {
+      baselines: [
+        { id: 'fleet', osBuild: '24B83' },
+        { id: 'assigned', when: { inventory: { usage: { eq: 'Assigned' } } }, osBuild: '24B83' },
+        { id: 'off', when: { inventory: { usage: { eq: 'Assigned' }, catalog: { eq: 'Curriculum' } } }, osBuild: '24B83', enabled: false },
+      ],
+    }
+    expect(resolveBaseline(ctx, drift)?.id).toBe('assigned')
+    expect(resolveBaseline({ inventory: {}, device: {} }, drift)?.id).toBe('fleet')
+  })
+
+  it('scores a device by the expectations it misses', () => {
+    const golden = captureBaseline(mac('GOLD', { build: '24B83', firefox: '121.0', profiles: ['Wi-Fi'], fileVault: true }), 'lab')
+    expect(golden).toMatchObject({
+      id: 'lab',
+      sourceSerial: 'GOLD',
+      osBuild: '24B83',
+      applications: [{ name: 'Firefox', version: '121.0' }, { name: 'Nuke', version: '15.1' }],
+      profiles: ['Wi-Fi'],
+    })
+    expect(golden.securityChecks).toEqual(expect.arrayContaining(['encryption', 'firewall', 'sip']))
+
+    expect(evaluateDrift(mac('M2', { build: '24B83', firefox: '121.0', profiles: ['Wi-Fi'], fileVault: true }), golden).score).toBe(0)
+
+    const result = evaluateDrift(mac('M3', { build: '24A335', profiles: [], fileVault: false }), golden)
+    expect(result.deviations.map((d) => `${d.kind}:${d.subject}`)).toEqual([
+      'os:OS build',
+      'application:Firefox',
+      'profile:Wi-Fi',
+      'security:encryption',
+    ])
+    expect(result.deviations[0]).toMatchObject({ expected: '24B83', actual: '24A335' })
+    expect(result.score).toBe(Math.round((4 / result.expected) * 100))
+  })
+})
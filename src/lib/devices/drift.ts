@@ -0,0 +1,215 @@
+/**
+ * Baseline drift: how far a device has moved from the golden image of its
+ * segment. A baseline (settings.drift) lists the OS build, applications and
+ * versions, configuration profiles and security checks a segment should
+ * have; each device is measured against the most specific baseline whose
+ * `when` matches it, the way status thresholds are picked.
+ *
+ * The score is the share of the baseline's expectations the device misses,
+ * 0 (matches) to 100 (nothing as expected). Device state is read through the
+ * same processors and security rules the device page renders from.
+ */
+
+import { extractApplications } from "../data-processing/modules/applications"
+import { extractProfiles } from "../data-processing/modules/profiles"
+import { extractSystem } from "../data-processing/modules/system"
+import { getDeviceContext } from "../rules/deviceContext"
+import { conditionMatches, conditionSpecificity, DeviceContext, evaluateSecurity } from "../rules/evaluateSecurity"
+import { securityCheckStates, SIMULATED_CHECKS } from "../rules/simulate"
+import { DEFAULT_INVENTORY_FIELDS, DEFAULT_SECURITY_CONFIG } from "../settings/defaults"
+import type { Baseline, DriftSettings, InventoryFieldMapping, SecurityConfig } from "../settings/types"
+import { normalizeKeys } from "../utils/powershell-parser"
+
+export type DeviationKind = "os" | "application" | "profile" | "security"
+
+export interface Deviation {
+  kind: DeviationKind
+  /** The OS, application or profile name, or the security check. */
+  subject: string
+  expected: string
+  /** Undefined when the device lacks it altogether. */
+  actual?: string
+}
+
+export interface DriftResult {
+  baselineId: string
+  baselineLabel: string
+  /** 0-100, share of the baseline's expectations missed. */
+  score: number
+  /** Expectations checked. */
+  expected: number
+  deviations: Deviation[]
+}
+
+export interface DriftOptions {
+  fields?: InventoryFieldMapping[]
+  security?: SecurityConfig
+}
+
+const yes = (v: unknown) => v === true || v === 1 || (typeof v === "string" && ["on", "true", "1", "enabled"].includes(v.toLowerCase()))
+
+/** Enabled state per security check from the raw security module, read the
+ * way the Security tab reads it; undefined where the platform lacks the check. */
+function securityStatesOf(device: any, platform: string | undefined): Record<string, boolean | undefined> {
+  const security = device?.modules?.security ? (normalizeKeys(device.modules.security) as any) : null
+  if (!security) return {}
+  const isMac = platform === "macOS"
+  return securityCheckStates({
+    serialNumber: device?.serialNumber ?? "",
+    platform,
+    encryptionEnabled: isMac
+      ? yes(security.fileVault?.enabled) || yes(security.fileVault?.status)
+      : yes(security.encryption?.bitLocker?.isEnabled) || yes(security.encryption?.diskEncryption),
+    firewallEnabled: yes(security.firewall?.isEnabled) || yes(security.firewall?.enabled) || yes(security.firewall?.globalState),
+    sipEnabled: yes(security.systemIntegrityProtection?.enabled),
+    rdpEnabled: yes(security.rdp?.isEnabled),
+    secureShell: isMac
+      ? { isServiceRunning: yes(security.ssh?.enabled) }
+      : security.secureShell ?? null,
+  })
+}
+
+/** e.g. "Firefox: 120.0, expected 121.0", "Wi-Fi missing". */
+export function describeDeviation(d: Deviation): string {
+  if (d.actual === undefined) return d.kind === "security" ? `${d.subject} not reported` : `${d.subject} missing`
+  return `${d.subject}: ${d.actual}, expected ${d.expected}`
+}
+
+/** The enabled baseline that applies to a device: the most specific match, later wins ties. */
+export function resolveBaseline(ctx: DeviceContext, drift: DriftSettings | undefined): Baseline | undefined {
+  let found: Baseline | undefined
+  let bestSpecificity = -1
+  for (const baseline of drift?.baselines ?? []) {
+    if (baseline.enabled === false) continue
+    if (baseline.when && !conditionMatches(baseline.when, ctx)) continue
+    const spec = baseline.when ? conditionSpecificity(baseline.when) : 0
+    if (spec >= bestSpecificity) {
+      bestSpecificity = spec
+      found = baseline
+    }
+  }
+  return found
+}
+
+const key = (s: string) => s.trim().toLowerCase()
+
+/** How `device` (`{ serialNumber, modules }`) deviates from `baseline`. */
+export function evaluateDrift(device: any, baseline: Baseline, opts: DriftOptions = {}): DriftResult {
+  const modules = device?.modules ?? {}
+  const ctx = getDeviceContext(device, opts.fields ?? DEFAULT_INVENTORY_FIELDS)
+  const deviations: Deviation[] = []
+  let expected = 0
+
+  if (baseline.osBuild) {
+    expected++
+    const build = extractSystem({ modules }).operatingSystem.build?.trim()
+    if (build !== baseline.osBuild.trim()) {
+      deviations.push({ kind: "os", subject: "OS build", expected: baseline.osBuild, ...(build ? { actual: build } : {}) })
+    }
+  }
+
+  const installed = new Map<string, string>()
+  for (const app of extractApplications(modules).applications) {
+    if (app.name) installed.set(key(app.name), app.version?.trim() ?? "")
+  }
+  for (const app of baseline.applications ?? []) {
+    expected++
+    const version = installed.get(key(app.name))
+    const want = app.version?.trim()
+    if (version === undefined) {
+      deviations.push({ kind: "application", subject: app.name, expected: want || "Installed" })
+    } else if (want && version !== want) {
+      deviations.push({ kind: "application", subject: app.name, expected: want, actual: version || "Unknown version" })
+    }
+  }
+
+  const profiles = new Set(extractProfiles(modules).profiles.map((p) => key(p.displayName || p.uuid || "")))
+  for (const profile of baseline.profiles ?? []) {
+    expected++
+    if (!profiles.has(key(profile))) deviations.push({ kind: "profile", subject: profile, expected: "Installed" })
+  }
+
+  const states = securityStatesOf(device, ctx.device.platform as string | undefined)
+  for (const check of baseline.securityChecks ?? []) {
+    const enabled = states[check]
+    // A check the platform doesn't have (RDP on a Mac) can't drift
+    if (modules.security && enabled === undefined) continue
+    expected++
+    const severity = evaluateSecurity(check, enabled, ctx, opts.security ?? DEFAULT_SECURITY_CONFIG)
+    if (severity !== "ok") {
+      deviations.push({
+        kind: "security",
+        subject: check,
+        expected: "ok",
+        ...(enabled !== undefined ? { actual: `${enabled ? "on" : "off"} (${severity})` } : {}),
+      })
+    }
+  }
+
+  return {
+    baselineId: baseline.id,
+    baselineLabel: baseline.label || baseline.id,
+    score: expected ? Math.round((deviations.length / expected) * 100) : 0,
+    expected,
+    deviations,
+  }
+}
+
+/**
+ * A baseline spec from a device as it is now: its OS build, applications
+ * with their versions, profiles, and the security checks the org's rules
+ * currently rate ok. The caller names it and picks the segment.
+ */
+export function captureBaseline(device: any, id: string, opts: DriftOptions = {}): Baseline {
+  const modules = device?.modules ?? {}
+  const ctx = getDeviceContext(device, opts.fields ?? DEFAULT_INVENTORY_FIELDS)
+  const osBuild = extractSystem({ modules }).operatingSystem.build?.trim()
+  const applications = extractApplications(modules)
+    .applications.filter((app) => app.name?.trim())
+    .map((app) => ({ name: app.name.trim(), ...(app.version?.trim() ? { version: app.version.trim() } : {}) }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  const profiles = [...new Set(extractProfiles(modules).profiles.map((p) => p.displayName).filter(Boolean))].sort()
+  const states = securityStatesOf(device, ctx.device.platform as string | undefined)
+  const securityChecks = SIMULATED_CHECKS.filter(
+    (check) => states[check] !== undefined && evaluateSecurity(check, states[check], ctx, opts.security ?? DEFAULT_SECURITY_CONFIG) === "ok"
+  )
+  return {
+    id,
+    ...(device?.serialNumber ? { sourceSerial: device.serialNumber } : {}),
+    ...(osBuild ? { osBuild } : {}),
+    ...(applications.length ? { applications } : {}),
+    ...(profiles.length ? { profiles } : {}),
+    ...(securityChecks.length ? { securityChecks } : {}),
+  }
+}
+
+export interface DeviceDrift extends DriftResult {
+  serialNumber: string
+  deviceName: string
+}
+
+export interface BaselineDriftSummary {
+  baselineId: string
+  baselineLabel: string
+  devices: number
+  /** Devices with at least one deviation. */
+  drifted: number
+  averageScore: number
+}
+
+/** Per-baseline totals for the drift report, in settings order; disabled baselines are left out. */
+export function summarizeDrift(drift: DriftSettings | undefined, rows: DeviceDrift[]): BaselineDriftSummary[] {
+  return (drift?.baselines ?? [])
+    .filter((baseline) => baseline.enabled !== false)
+    .map((baseline) => {
+      const measured = rows.filter((r) => r.baselineId === baseline.id)
+      const total = measured.reduce((sum, r) => sum + r.score, 0)
+      return {
+        baselineId: baseline.id,
+        baselineLabel: baseline.label || baseline.id,
+        devices: measured.length,
+        drifted: measured.filter((r) => r.deviations.length > 0).length,
+        averageScore: measured.length ? Math.round(total / measured.length) : 0,
+      }
+    })
+}
@@ -0,0 +1,74 @@
+import { applyTagChanges, DeviceGroup, groupQueryMatches, labelDevice, tagCounts, validateGroupInput, validateTagChange } from './groups'
+import { getDeviceContext } from '../rules/deviceContext'
+import { conditionMatches } from '../rules/evaluateSecurity'
+
+const device = (serialNumber: string, platform: string, inventory: Record<string, unknown>) => ({
+  serialNumber,
+  deviceName: serialNumber.toLowerCase(),
+  platform,
+  modules: { inventory },
+})
+
+const mac = device('MAC1', 'macOS', { usage: 'Lab', catalog: 'Production', location: 'Vancouver', tags: 'render' })
+const win = device('WIN1', 'Windows', { usage: 'Assigned', catalog: 'Testing', location: 'Toronto' })
+
+const group = (name: string, fields: Partial<DeviceGroup>): DeviceGroup => ({
+  id: name.toLowerCase(),
+  name,
+  type: 'static',
+  serials: [],
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: '2026-10-01T00:00:00Z',
+  ...fields,
+})
+
+describe('device groups', () => {
+  it('matches dynamic queries the way the list pages filter', () => {
+    expect(groupQueryMatches(mac, 'usages=lab,shared&platform=mac')).toBe(true)
+    expect(groupQueryMatches(win, 'usages=lab,shared&platform=mac')).toBe(false)
+    expect(groupQueryMatches(win, 'catalog=testing&q=toron')).toBe(true)
+    expect(groupQueryMatches(mac, 'tags=Render')).toBe(true)
+    expect(groupQueryMatches(win, 'tags=Render')).toBe(false)
+  })
+
+  it('labels a device with its merged tags and the groups it falls in', () => {
+    const doc = {
+      tags: { WIN1: ['render'] },
+      groups: [
+        group('Render Farm', { type: 'dynamic', query: 'tags=render' }),
+        group('Loaners', { serials: ['WIN1'] }),
+        group('Labs', { type: 'dynamic', query: 'usages=Lab' }),
+      ],
+    }
+    expect(labelDevice(mac, doc)).toMatchObject({ tags: ['render'], groups: ['Render Farm', 'Labs'] })
+    const labelled = labelDevice(win, doc)
+    expect(labelled).toMatchObject({ tags: ['render'], groups: ['Render Farm', 'Loaners'] })
+    // Rules see the groups as a multi-valued device fact
+    expect(conditionMatches({ device: { groups: { eq: 'Loaners' } } }, getDeviceContext(labelled))).toBe(true)
+  })
+
+  it('adds and removes tags, dropping devices left without any', () => {
+    let doc = applyTagChanges({ tags: {}, groups: [] }, ['MAC1', 'WIN1'], { add: ['  Spare  pool ', 'loaner'] })
+    expect(doc.tags).toEqual({ MAC1: ['Spare pool', 'loaner'], WIN1: ['Spare pool', 'loaner'] })
+    doc = applyTagChanges(doc, ['WIN1'], { add: ['LOANER'], remove: ['spare pool'] })
+    expect(doc.tags.WIN1).toEqual(['loaner'])
+    doc = applyTagChanges(doc, ['WIN1'], { remove: ['loaner'] })
+    expect(doc.tags).not.toHaveProperty('WIN1')
+    expect(tagCounts(doc)).toEqual([
+      { tag: 'loaner', devices: 1 },
+      { tag: 'Spare pool', devices: 1 },
+    ])
+  })
+
+  it('validates tag changes and groups', () => {
+    expect(validateTagChange({ serials: ['MAC1'], add: ['ok'] })).toEqual([])
+    expect(validateTagChange({ serials: [], add: ['a,b'] }).map((e) => e.path)).toEqual(['serials', 'add[0]'])
+    expect(validateTagChange({ serials: ['MAC1'] })).toEqual([{ path: '', message: 'needs tags to add or remove' }])
+
+    expect(validateGroupInput({ name: 'Labs', type: 'dynamic', query: 'usages=Lab&platform=mac' })).toEqual([])
+    expect(validateGroupInput({ name: 'Labs', type: 'dynamic' }).map((e) => e.path)).toEqual(['query'])
+    expect(validateGroupInput({ name: 'Labs', type: 'dynamic', query: 'status=active' })[0].message).toBe('unknown filter "status"')
+    expect(validateGroupInput({ name: ' ', type: 'team' }).map((e) => e.path)).toEqual(['name', 'type'])
+    expect(validateGroupInput({ add: ['MAC1'], remove: [''] }, undefined, true).map((e) => e.path)).toEqual(['remove'])
+  })
+})
@@ -0,0 +1,261 @@
+/**
+ * Device tags and groups kept by ReportMate itself, so devices can be grouped
+ * without touching the endpoint's Inventory.yaml. Admins tag devices and put
+ * them in static groups; a dynamic group is a saved list-page filter query
+ * (`usages=Lab&platform=mac`, see URL_STATE_CONVENTIONS.md) whose members are
+ * whichever devices match it right now.
+ *
+ * The device routes attach `tags` (the inventory's own tags plus these) and
+ * `groups` (group names) to each device, which is what the filters, rules
+ * engine and exports read. Persistence lives in store.ts.
+ */
+
+import { getDeviceFacts, getDeviceRowInventory, getDeviceTags } from "../rules/deviceContext"
+import { DEFAULT_INVENTORY_FIELDS } from "../settings/defaults"
+import type { InventoryFieldMapping } from "../settings/types"
+
+export interface DeviceGroup {
+  id: string
+  name: string
+  type: "static" | "dynamic"
+  /** Static groups: member serial numbers. */
+  serials: string[]
+  /** Dynamic groups: the filter query, without the leading `?`. */
+  query?: string
+  createdAt: string
+  updatedAt: string
+}
+
+/** Everything the store holds. */
+export interface DeviceGroupsDocument {
+  /** Serial number -> tags assigned in ReportMate. */
+  tags: Record<string, string[]>
+  groups: DeviceGroup[]
+}
+
+export interface GroupValidationError {
+  path: string
+  message: string
+}
+
+export const EMPTY_DEVICE_GROUPS: DeviceGroupsDocument = { tags: {}, groups: [] }
+
+export const MAX_TAG_LENGTH = 40
+export const MAX_GROUP_NAME_LENGTH = 80
+
+/** Built-in list params a dynamic group's query may use besides inventory keys. */
+const QUERY_PARAMS = ["platform", "q", "tags"]
+
+/** The list pages' plural params for the built-in inventory fields. */
+const PLURAL_PARAMS: Record<string, string> = {
+  usages: "usage",
+  catalogs: "catalog",
+  locations: "location",
+  fleets: "fleet",
+  areas: "area",
+}
+
+/** A tag as stored: trimmed, inner whitespace collapsed. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, " ")
+}
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+/** Case-insensitive union, keeping the first spelling seen. */
+function union(...lists: string[][]): string[] {
+  const out: string[] = []
+  for (const value of lists.flat()) {
+    if (!out.some((v) => sameText(v, value))) out.push(value)
+  }
+  return out
+}
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+/** A dynamic group's query as param -> values, canonical inventory keys in place of plurals. */
+export function parseGroupQuery(query: string): Record<string, string[]> {
+  const parsed: Record<string, string[]> = {}
+  for (const [param, value] of new URLSearchParams(query.startsWith("?") ? query.slice(1) : query)) {
+    const key = PLURAL_PARAMS[param] ?? param
+    const values = key === "q" ? [value.trim()].filter(Boolean) : splitList(value)
+    if (values.length) parsed[key] = [...(parsed[key] ?? []), ...values]
+  }
+  return parsed
+}
+
+/**
+ * Whether a device row passes a dynamic group's query, the way the list
+ * pages filter: OR within a param, AND across params, case-insensitive.
+ * `q` matches the serial number, device name or any inventory value.
+ */
+export function groupQueryMatches(
+  row: any,
+  query: string,
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS
+): boolean {
+  const parsed = parseGroupQuery(query)
+  const inventory = getDeviceRowInventory(row, fields)
+  for (const [key, values] of Object.entries(parsed)) {
+    if (key === "platform") {
+      const platform = getDeviceFacts(row).platform
+      const wanted = values.map((v) => (v === "win" ? "Windows" : v === "mac" ? "macOS" : v))
+      if (typeof platform !== "string" || !wanted.some((w) => sameText(w, platform))) return false
+    } else if (key === "tags") {
+      const tags = getDeviceTags(row)
+      if (!values.some((v) => tags.some((t) => sameText(t, v)))) return false
+    } else if (key === "q") {
+      const q = values[0].toLowerCase()
+      const haystack = [row?.serialNumber, row?.deviceName, row?.name, ...Object.values(inventory)]
+      if (!haystack.some((v) => typeof v === "string" && v.toLowerCase().includes(q))) return false
+    } else {
+      const value = inventory[key]
+      if (value === undefined || !values.some((v) => sameText(v, value))) return false
+    }
+  }
+  return true
+}
+
+/** Names of the groups a device row belongs to, in the document's order. */
+export function deviceGroupNames(
+  row: any,
+  groups: DeviceGroup[],
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS
+): string[] {
+  const serial = row?.serialNumber
+  return groups
+    .filter((g) =>
+      g.type === "dynamic" ? groupQueryMatches(row, g.query ?? "", fields) : Boolean(serial) && g.serials.includes(serial)
+    )
+    .map((g) => g.name)
+}
+
+/**
+ * The row with `tags` (its own plus those assigned in ReportMate) and
+ * `groups` (group names) attached. Dynamic queries on tags see the merged tags.
+ */
+export function labelDevice<T extends Record<string, any>>(
+  row: T,
+  doc: DeviceGroupsDocument,
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS
+): T & { tags: string[]; groups: string[] } {
+  const tags = union(getDeviceTags(row), doc.tags[row?.serialNumber] ?? [])
+  const tagged = { ...row, tags }
+  return { ...tagged, groups: deviceGroupNames(tagged, doc.groups, fields) }
+}
+
+/** Adds and removes tags on each of `serials`; devices left without tags are dropped from the map. */
+export function applyTagChanges(
+  doc: DeviceGroupsDocument,
+  serials: string[],
+  changes: { add?: string[]; remove?: string[] }
+): DeviceGroupsDocument {
+  const add = (changes.add ?? []).map(normalizeTag).filter(Boolean)
+  const remove = (changes.remove ?? []).map(normalizeTag)
+  const tags = { ...doc.tags }
+  for (const serial of serials) {
+    const next = union(tags[serial] ?? [], add).filter((t) => !remove.some((r) => sameText(r, t)))
+    if (next.length) tags[serial] = next
+    else delete tags[serial]
+  }
+  return { ...doc, tags }
+}
+
+/** Every tag assigned in ReportMate with how many devices carry it, by name. */
+export function tagCounts(doc: DeviceGroupsDocument): { tag: string; devices: number }[] {
+  const counts = new Map<string, { tag: string; devices: number }>()
+  for (const tags of Object.values(doc.tags)) {
+    for (const tag of tags) {
+      const entry = counts.get(tag.toLowerCase())
+      if (entry) entry.devices += 1
+      else counts.set(tag.toLowerCase(), { tag, devices: 1 })
+    }
+  }
+  return [...counts.values()].sort((a, b) => a.tag.localeCompare(b.tag))
+}
+
+function validateTagList(value: unknown, path: string, errors: GroupValidationError[]) {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: "must be a list of tags" })
+    return
+  }
+  value.forEach((tag, i) => {
+    if (typeof tag !== "string" || !normalizeTag(tag)) errors.push({ path: `${path}[${i}]`, message: "must be a non-empty string" })
+    else if (normalizeTag(tag).length > MAX_TAG_LENGTH) {
+      errors.push({ path: `${path}[${i}]`, message: `must be at most ${MAX_TAG_LENGTH} characters` })
+    } else if (tag.includes(",")) errors.push({ path: `${path}[${i}]`, message: "can't contain a comma" })
+  })
+}
+
+function validateSerials(value: unknown, path: string, errors: GroupValidationError[]) {
+  if (!Array.isArray(value) || value.some((s) => typeof s !== "string" || !s.trim())) {
+    errors.push({ path, message: "must be a list of serial numbers" })
+  }
+}
+
+/** Checks a bulk tag change: `{ serials, add?, remove? }`. */
+export function validateTagChange(input: unknown): GroupValidationError[] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return [{ path: "", message: "must be an object" }]
+  }
+  const v = input as Record<string, unknown>
+  const errors: GroupValidationError[] = []
+  validateSerials(v.serials, "serials", errors)
+  if (Array.isArray(v.serials) && v.serials.length === 0) errors.push({ path: "serials", message: "must name at least one device" })
+  if (v.add !== undefined) validateTagList(v.add, "add", errors)
+  if (v.remove !== undefined) validateTagList(v.remove, "remove", errors)
+  if (v.add === undefined && v.remove === undefined) errors.push({ path: "", message: "needs tags to add or remove" })
+  return errors
+}
+
+/**
+ * Checks the editable fields of a group, for create (`partial` false) or
+ * update. A dynamic group's query may use `platform`, `q`, `tags`, the
+ * plural list params and any inventory field key in `fields`.
+ */
+export function validateGroupInput(
+  input: unknown,
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS,
+  partial = false
+): GroupValidationError[] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return [{ path: "", message: "must be an object" }]
+  }
+  const v = input as Record<string, unknown>
+  const errors: GroupValidationError[] = []
+  if (!partial || v.name !== undefined) {
+    if (typeof v.name !== "string" || !v.name.trim()) errors.push({ path: "name", message: "is required" })
+    else if (v.name.trim().length > MAX_GROUP_NAME_LENGTH) {
+      errors.push({ path: "name", message: `must be at most ${MAX_GROUP_NAME_LENGTH} characters` })
+    }
+  }
+  if (!partial && v.type !== "static" && v.type !== "dynamic") {
+    errors.push({ path: "type", message: 'must be "static" or "dynamic"' })
+  }
+  if (v.query !== undefined) {
+    if (typeof v.query !== "string") errors.push({ path: "query", message: "must be a string" })
+    else {
+      const known = new Set([...QUERY_PARAMS, ...fields.map((f) => f.key)])
+      const parsed = parseGroupQuery(v.query)
+      if (Object.keys(parsed).length === 0) errors.push({ path: "query", message: "needs at least one filter" })
+      for (const key of Object.keys(parsed)) {
+        if (!known.has(key)) errors.push({ path: "query", message: `unknown filter "${key}"` })
+      }
+    }
+  } else if (!partial && v.type === "dynamic") {
+    errors.push({ path: "query", message: "is required for a dynamic group" })
+  }
+  for (const key of ["serials", "add", "remove"]) {
+    if (v[key] !== undefined) validateSerials(v[key], key, errors)
+  }
+  return errors
+}
+
+/** Whether a group other than `exceptId` already has `name`, case-insensitive. */
+export function groupNameTaken(groups: DeviceGroup[], name: string, exceptId?: string): boolean {
+  return groups.some((g) => g.id !== exceptId && sameText(g.name, name.trim()))
+}
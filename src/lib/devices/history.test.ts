@@ -0,0 +1,58 @@
+import { captureSnapshot, deviceHistory, diffSnapshots, EMPTY_DEVICE_SNAPSHOTS, recordSnapshot, snapshotsDue } from './history'
+
+const GB = 1024 * 1024 * 1024
+
+const device = (memoryGb: number, apps: Array<{ name: string; version: string }>, location = 'Vancouver') => ({
+  serialNumber: 'C02XK1JHJG5J',
+  lastSeen: '2026-03-02T12:00:00Z',
+  modules: {
+    hardware: { processor: { name: 'Intel Core i7', cores: 8 }, memory: { totalPhysical: memoryGb * GB } },
+    applications: { installedApplications: apps },
+    inventory: { location, usage: 'Assigned' },
+  },
+})
+
+describe('device history', () => {
+  it('diffs snapshots per module with application installs, removals and updates', () => {
+    const before = captureSnapshot(device(16, [{ name: 'Firefox', version: '120.0' }, { name: 'Zoom', version: '5.0' }]))
+    const after = captureSnapshot(device(32, [{ name: 'Firefox', version: '121.0' }, { name: 'Slack', version: '4.1' }], 'Toronto'))
+
+    const diff = diffSnapshots(before, after)
+    expect(diff.map((d) => d.module)).toEqual(['hardware', 'applications', 'inventory'])
+    expect(diff[0].changes).toEqual([{ field: 'Memory', before: '16 GB', after: '32 GB' }])
+    expect(diff[1]).toMatchObject({
+      added: ['Slack'],
+      removed: ['Zoom'],
+      changes: [{ field: 'Firefox', before: '120.0', after: '121.0' }],
+    })
+    expect(diff[2].changes).toEqual([{ field: 'Location', before: 'Vancouver', after: 'Toronto' }])
+  })
+
+  it('records only changed snapshots and builds a newest-first timeline', () => {
+    const first = captureSnapshot(device(16, []), undefined, new Date('2026-03-01T00:00:00Z'))
+    const same = captureSnapshot(device(16, []), undefined, new Date('2026-03-02T00:00:00Z'))
+    const upgraded = { ...captureSnapshot(device(32, []), undefined, new Date('2026-03-03T00:00:00Z')), collectedAt: undefined }
+
+    let doc = recordSnapshot(EMPTY_DEVICE_SNAPSHOTS, first).doc
+    const unchanged = recordSnapshot(doc, same)
+    expect(unchanged.recorded).toBe(false)
+    doc = recordSnapshot(unchanged.doc, upgraded).doc
+    expect(doc.snapshots).toHaveLength(2)
+
+    expect(deviceHistory(doc.snapshots)).toEqual([
+      expect.objectContaining({ at: '2026-03-03T00:00:00.000Z', module: 'hardware', summary: 'Memory 16 GB → 32 GB' }),
+    ])
+  })
+
+  it('snapshots the devices that checked in since the last pass, newest first', () => {
+    const rows = [
+      { serialNumber: 'A', lastSeen: '2026-03-01T00:00:00Z' },
+      { serialNumber: 'B', lastSeen: '2026-03-03T00:00:00Z' },
+      { serialNumber: 'C', lastSeen: '2026-03-02T00:00:00Z' },
+      { serialNumber: 'D' },
+    ]
+    const pass = { seen: { A: '2026-03-01T00:00:00Z', C: '2026-03-01T00:00:00Z' } }
+    expect(snapshotsDue(pass, rows, 5)).toEqual(['B', 'C'])
+    expect(snapshotsDue(pass, rows, 1)).toEqual(['B'])
+  })
+})
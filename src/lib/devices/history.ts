@@ -0,0 +1,243 @@
+/**
+ * Device history: compact point-in-time snapshots of what a device reports
+ * (OS, hardware, applications, security posture, network addresses and
+ * inventory fields), and semantic diffs between them. Snapshots are read
+ * through the same module processors the device page renders from, so a diff
+ * says "Memory 16 GB → 32 GB" rather than pointing at a JSON path.
+ *
+ * A snapshot is recorded only when it differs from the newest stored one, so
+ * the stored list is already the device's change history. Snapshots are
+ * taken by a scheduled pass over the devices that checked in since it last
+ * ran (snapshotsDue); persistence lives in store.ts.
+ */
+
+import { extractApplications } from "../data-processing/modules/applications"
+import { extractHardware } from "../data-processing/modules/hardware"
+import { extractNetwork } from "../data-processing/modules/network"
+import { extractSecurity } from "../data-processing/modules/security"
+import { extractSystem } from "../data-processing/modules/system"
+import { getDeviceInventoryContext } from "../rules/inventoryMapping"
+import { DEFAULT_INVENTORY_FIELDS } from "../settings/defaults"
+import type { InventoryFieldMapping } from "../settings/types"
+
+export const SNAPSHOT_MODULES = ["system", "hardware", "applications", "security", "network", "inventory"] as const
+
+export type SnapshotModule = (typeof SNAPSHOT_MODULES)[number]
+
+export const SNAPSHOT_MODULE_LABELS: Record<SnapshotModule, string> = {
+  system: "Operating system",
+  hardware: "Hardware",
+  applications: "Applications",
+  security: "Security",
+  network: "Network",
+  inventory: "Inventory",
+}
+
+/** Snapshots kept per device; the oldest are dropped first. */
+export const MAX_DEVICE_SNAPSHOTS = 200
+
+/** Flat label -> value per module; applications map name -> version. */
+export type SnapshotModules = Record<Exclude<SnapshotModule, "applications">, Record<string, string>> & {
+  applications: Record<string, string>
+}
+
+export interface DeviceSnapshot {
+  /** When the web tier recorded it. */
+  capturedAt: string
+  /** When the device collected the data, if it says. */
+  collectedAt?: string
+  modules: SnapshotModules
+}
+
+export interface DeviceSnapshotsDocument {
+  snapshots: DeviceSnapshot[]
+}
+
+export const EMPTY_DEVICE_SNAPSHOTS: DeviceSnapshotsDocument = { snapshots: [] }
+
+/** The check-in (`lastSeen`) each device was last snapshotted at, by serial number. */
+export interface SnapshotPassDocument {
+  seen: Record<string, string>
+}
+
+export const EMPTY_SNAPSHOT_PASS: SnapshotPassDocument = { seen: {} }
+
+export interface FieldChange {
+  field: string
+  before?: string
+  after?: string
+}
+
+export interface ModuleDiff {
+  module: SnapshotModule
+  /** Fields that changed; for applications, updated versions. */
+  changes: FieldChange[]
+  /** Applications only. */
+  added: string[]
+  removed: string[]
+}
+
+export interface HistoryEntry {
+  /** The newer snapshot's time. */
+  at: string
+  module: SnapshotModule
+  summary: string
+  diff: ModuleDiff
+}
+
+const text = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined
+  if (typeof value === "boolean") return value ? "On" : "Off"
+  const s = String(value).trim()
+  return s === "" ? undefined : s
+}
+
+/** The defined values only, so an absent field and an empty one compare equal. */
+function fields(entries: Record<string, unknown>): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const [key, value] of Object.entries(entries)) {
+    const t = text(value)
+    if (t !== undefined) out[key] = t
+  }
+  return out
+}
+
+/** The snapshot of a device record (`{ serialNumber, lastSeen, modules }`). */
+export function captureSnapshot(device: any, fieldsMapping: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS, now = new Date()): DeviceSnapshot {
+  const modules = device?.modules ?? {}
+  const system = extractSystem({ modules })
+  const os = system.operatingSystem
+  const hardware = extractHardware(modules)
+  const security = extractSecurity(modules)
+  const network = extractNetwork({ modules })
+
+  const applications: Record<string, string> = {}
+  for (const app of extractApplications(modules).applications) {
+    const name = app.name?.trim()
+    if (name) applications[name] = app.version?.trim() ?? ""
+  }
+
+  const ips = new Set<string>()
+  for (const ip of [network.ipAddress, ...(network.interfaces ?? []).flatMap((i) => [i.ipAddress, ...(i.ipAddresses ?? [])])]) {
+    const t = text(ip)
+    if (t) ips.add(t)
+  }
+
+  const inventory = getDeviceInventoryContext(modules.inventory as Record<string, unknown>, fieldsMapping)
+  const collectedAt = text(device?.collectedAt ?? device?.lastSeen)
+
+  return {
+    capturedAt: now.toISOString(),
+    ...(collectedAt ? { collectedAt } : {}),
+    modules: {
+      system: fields({
+        "OS": os.name,
+        "Version": os.displayVersion || os.version,
+        "Build": os.build,
+        "Edition": os.edition,
+        "Feature update": os.featureUpdate,
+      }),
+      hardware: fields({
+        "Model": hardware.model,
+        "BIOS": hardware.biosVersion,
+        "Processor": hardware.processor,
+        "Cores": hardware.cores,
+        "Memory": hardware.memory,
+        "Storage": hardware.storage,
+        "Graphics": hardware.graphics,
+        "Architecture": hardware.architecture,
+      }),
+      applications,
+      security: fields({
+        "Firewall": modules.security ? security.firewall?.enabled : undefined,
+        "Disk encryption": modules.security ? security.encryption?.diskEncryption : undefined,
+        "Antivirus": modules.security && security.antivirus?.installed ? security.antivirus.enabled : undefined,
+        "Antivirus product": security.antivirus?.product,
+        "SSH": modules.security?.secureShell ? security.secureShell?.isServiceRunning : undefined,
+      }),
+      network: fields({
+        "Hostname": network.hostname,
+        "IP addresses": [...ips].sort().join(", "),
+        "Domain": network.domain,
+      }),
+      inventory: fields(
+        Object.fromEntries(fieldsMapping.map((f) => [f.label || f.key, inventory[f.key]]))
+      ),
+    },
+  }
+}
+
+function diffFields(module: SnapshotModule, before: Record<string, string>, after: Record<string, string>): ModuleDiff {
+  const changes: FieldChange[] = []
+  const added: string[] = []
+  const removed: string[] = []
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const a = before[field]
+    const b = after[field]
+    if (a === b) continue
+    if (module === "applications" && a === undefined) added.push(field)
+    else if (module === "applications" && b === undefined) removed.push(field)
+    else changes.push({ field, ...(a !== undefined ? { before: a } : {}), ...(b !== undefined ? { after: b } : {}) })
+  }
+  const byName = (x: string, y: string) => x.localeCompare(y)
+  return { module, changes: changes.sort((x, y) => byName(x.field, y.field)), added: added.sort(byName), removed: removed.sort(byName) }
+}
+
+/** What changed from `before` to `after`, per module; unchanged modules are left out. */
+export function diffSnapshots(before: DeviceSnapshot, after: DeviceSnapshot): ModuleDiff[] {
+  return SNAPSHOT_MODULES.map((m) => diffFields(m, before.modules[m] ?? {}, after.modules[m] ?? {})).filter(
+    (d) => d.changes.length + d.added.length + d.removed.length > 0
+  )
+}
+
+/** e.g. "Memory 16 GB → 32 GB", "3 installed, 1 removed, 2 updated". */
+export function summarizeDiff(diff: ModuleDiff): string {
+  if (diff.module === "applications") {
+    const parts = [
+      diff.added.length ? `${diff.added.length} installed` : "",
+      diff.removed.length ? `${diff.removed.length} removed` : "",
+      diff.changes.length ? `${diff.changes.length} updated` : "",
+    ].filter(Boolean)
+    if (diff.added.length + diff.removed.length + diff.changes.length === 1) {
+      if (diff.added.length) return `${diff.added[0]} installed`
+      if (diff.removed.length) return `${diff.removed[0]} removed`
+      const c = diff.changes[0]
+      return `${c.field} ${c.before || "?"} → ${c.after || "?"}`
+    }
+    return parts.join(", ")
+  }
+  return diff.changes
+    .map((c) => (c.before === undefined ? `${c.field} ${c.after}` : c.after === undefined ? `${c.field} cleared` : `${c.field} ${c.before} → ${c.after}`))
+    .join("; ")
+}
+
+/** Changes between consecutive snapshots (stored oldest first), newest first. */
+export function deviceHistory(snapshots: DeviceSnapshot[]): HistoryEntry[] {
+  const entries: HistoryEntry[] = []
+  for (let i = 1; i < snapshots.length; i++) {
+    for (const diff of diffSnapshots(snapshots[i - 1], snapshots[i])) {
+      entries.push({ at: snapshots[i].collectedAt ?? snapshots[i].capturedAt, module: diff.module, summary: summarizeDiff(diff), diff })
+    }
+  }
+  return entries.reverse()
+}
+
+/** The snapshots with `snapshot` appended if anything changed since the newest one. */
+export function recordSnapshot(doc: DeviceSnapshotsDocument, snapshot: DeviceSnapshot): { doc: DeviceSnapshotsDocument; recorded: boolean } {
+  const latest = doc.snapshots[doc.snapshots.length - 1]
+  if (latest && diffSnapshots(latest, snapshot).length === 0) return { doc, recorded: false }
+  return { doc: { snapshots: [...doc.snapshots, snapshot].slice(-MAX_DEVICE_SNAPSHOTS) }, recorded: true }
+}
+
+/**
+ * Serial numbers of the device list rows that checked in since the snapshot
+ * pass last captured them, most recently seen first, at most `limit`; later
+ * passes take the rest.
+ */
+export function snapshotsDue(pass: SnapshotPassDocument, rows: any[], limit: number): string[] {
+  return rows
+    .filter((row) => row?.serialNumber && row.lastSeen && pass.seen[row.serialNumber] !== String(row.lastSeen))
+    .sort((a, b) => String(b.lastSeen).localeCompare(String(a.lastSeen)))
+    .slice(0, limit)
+    .map((row) => row.serialNumber)
+}
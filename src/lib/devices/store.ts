@@ -0,0 +1,113 @@
+/**
+ * Device snapshots live in FastAPI (`/api/v1/device/{serial}/snapshots`) as
+ * one opaque document per device, like the rollout samples, and the snapshot
+ * pass's progress (`/api/v1/device-snapshots`) as one document; device tags and
+ * groups (`/api/v1/device-groups`) as one document for the fleet, and bulk
+ * action jobs (`/api/v1/device-bulk-jobs`) as one list. The web tier owns
+ * their shape.
+ */
+
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { BulkJob, MAX_BULK_JOBS } from "./bulk"
+import { DeviceGroupsDocument, EMPTY_DEVICE_GROUPS } from "./groups"
+import { DeviceSnapshotsDocument, EMPTY_DEVICE_SNAPSHOTS, EMPTY_SNAPSHOT_PASS, SnapshotPassDocument } from "./history"
+
+const snapshotsUrl = (apiBaseUrl: string, serialNumber: string) =>
+  `${apiBaseUrl}/api/v1/device/${encodeURIComponent(serialNumber)}/snapshots`
+
+/** The device's snapshots, oldest first. A device never snapshotted has none. */
+export async function loadDeviceSnapshots(apiBaseUrl: string, serialNumber: string): Promise<DeviceSnapshotsDocument> {
+  const res = await fetch(snapshotsUrl(apiBaseUrl, serialNumber), { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return EMPTY_DEVICE_SNAPSHOTS
+  if (!res.ok) throw new Error(`Snapshot store returned ${res.status}`)
+  const data = await res.json()
+  return { snapshots: Array.isArray(data?.snapshots) ? data.snapshots : [] }
+}
+
+export async function saveDeviceSnapshots(apiBaseUrl: string, serialNumber: string, doc: DeviceSnapshotsDocument): Promise<void> {
+  const res = await fetch(snapshotsUrl(apiBaseUrl, serialNumber), {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify(doc),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Snapshot store returned ${res.status}`)
+}
+
+/** Which check-ins the snapshot pass has captured. A pass that never ran has seen none. */
+export async function loadSnapshotPass(apiBaseUrl: string): Promise<SnapshotPassDocument> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/device-snapshots`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return EMPTY_SNAPSHOT_PASS
+  if (!res.ok) throw new Error(`Snapshot store returned ${res.status}`)
+  const data = await res.json()
+  return { seen: data?.seen && typeof data.seen === "object" && !Array.isArray(data.seen) ? data.seen : {} }
+}
+
+export async function saveSnapshotPass(apiBaseUrl: string, doc: SnapshotPassDocument): Promise<void> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/device-snapshots`, {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify(doc),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Snapshot store returned ${res.status}`)
+}
+
+/** Tags and groups assigned in ReportMate. A store never written has none. */
+export async function loadDeviceGroups(apiBaseUrl: string): Promise<DeviceGroupsDocument> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/device-groups`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return EMPTY_DEVICE_GROUPS
+  if (!res.ok) throw new Error(`Device group store returned ${res.status}`)
+  const data = await res.json()
+  return {
+    tags: data?.tags && typeof data.tags === "object" && !Array.isArray(data.tags) ? data.tags : {},
+    groups: Array.isArray(data?.groups) ? data.groups : [],
+  }
+}
+
+export async function saveDeviceGroups(apiBaseUrl: string, doc: DeviceGroupsDocument): Promise<void> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/device-groups`, {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify(doc),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Device group store returned ${res.status}`)
+}
+
+/** Bulk jobs, newest first. A store never written has none. */
+export async function loadBulkJobs(apiBaseUrl: string): Promise<BulkJob[]> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/device-bulk-jobs`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return []
+  if (!res.ok) throw new Error(`Bulk job store returned ${res.status}`)
+  const data = await res.json()
+  return Array.isArray(data?.jobs) ? data.jobs : []
+}
+
+/** This process's bulk job writes, one at a time; see recordBulkJob. */
+let bulkJobWrites: Promise<unknown> = Promise.resolve()
+
+/**
+ * Writes `job` into the history, newest first, dropping what falls past
+ * MAX_BULK_JOBS. The history is one document rewritten whole, so writes are
+ * queued and each reloads it first: jobs running side by side keep each
+ * other's progress.
+ */
+export function recordBulkJob(apiBaseUrl: string, job: BulkJob): Promise<void> {
+  const write = bulkJobWrites.then(() => writeBulkJob(apiBaseUrl, job))
+  bulkJobWrites = write.catch(() => {})
+  return write
+}
+
+async function writeBulkJob(apiBaseUrl: string, job: BulkJob): Promise<void> {
+  const jobs = [job, ...(await loadBulkJobs(apiBaseUrl)).filter((j) => j.id !== job.id)]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_BULK_JOBS)
+  const res = await fetch(`${apiBaseUrl}/api/v1/device-bulk-jobs`, {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify({ jobs }),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Bulk job store returned ${res.status}`)
+}
@@ -0,0 +1,58 @@
+import { correlateIncidents } from './incidents'
+import type { IncidentEvent } from './incidents'
+
+const now = new Date('2026-03-02T12:00:00Z')
+const minutesAgo = (n: number) => new Date(now.getTime() - n * 60000).toISOString()
+
+const failed = (device: string, minutes: number, error = 'MSI exit code 1603', name = 'Firefox'): IncidentEvent => ({
+  device,
+  kind: 'install_error',
+  ts: minutesAgo(minutes),
+  payload: { failed_items: [{ name, displayName: `${name} Browser`, error }] },
+})
+
+describe('correlateIncidents', () => {
+  it('groups a package failing on enough devices into an incident with a root cause', () => {
+    const events = [
+      failed('A', 50),
+      failed('B', 40),
+      failed('C', 30, 'Installer timed out'),
+      failed('D', 20),
+      failed('E', 10),
+      failed('A', 5),
+      failed('F', 600), // hours before the rest: a separate, too-small cluster
+      failed('G', 8, 'exit 1', 'Chrome'),
+    ]
+    const incidents = correlateIncidents({ events, now }, { packageMinDevices: 5 })
+    expect(incidents).toHaveLength(1)
+    const [incident] = incidents
+    expect(incident).toMatchObject({
+      kind: 'packageFailure',
+      subject: 'Firefox',
+      title: 'Firefox Browser failing on 5 devices',
+      start: minutesAgo(50),
+      end: minutesAgo(5),
+      ongoing: true,
+    })
+    expect(incident.timeline).toHaveLength(6)
+    expect(incident.devices.map((d) => d.serialNumber)).toEqual(['A', 'B', 'C', 'D', 'E'])
+    expect(incident.rootCause).toMatchObject({ category: 'msi_installer', share: 0.8 })
+    expect(incident.rootCause.description).toBe('Fatal Installation Error')
+  })
+
+  it('finds devices in one location that went missing together', () => {
+    const daysAgo = (d: number, m = 0) => minutesAgo(d * 24 * 60 + m)
+    const devices = [
+      { serialNumber: 'L1', lastSeen: daysAgo(10, 0), location: 'Studio B' },
+      { serialNumber: 'L2', lastSeen: daysAgo(10, 20), location: 'Studio B' },
+      { serialNumber: 'L3', lastSeen: daysAgo(10, 45), location: 'Studio B' },
+      { serialNumber: 'L4', lastSeen: daysAgo(10, 30), location: 'Studio B', archived: true },
+      { serialNumber: 'L5', lastSeen: minutesAgo(5), location: 'Studio B' },
+      { serialNumber: 'O1', lastSeen: daysAgo(10, 0), location: 'Office' },
+      { serialNumber: 'O2', lastSeen: daysAgo(12, 0), location: 'Office' },
+    ]
+    const incidents = correlateIncidents({ devices, now })
+    expect(incidents.map((i) => [i.kind, i.subject, i.devices.length])).toEqual([['missingWave', 'Studio B', 3]])
+    expect(incidents[0].rootCause.description).toBe('3 devices in Studio B stopped checking in within 45 minutes of each other')
+  })
+})
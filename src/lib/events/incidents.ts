@@ -0,0 +1,296 @@
+/**
+ * Incident correlation: groups related events across devices into incidents,
+ * where bundleEvents (eventBundling.ts) only merges one device's events a few
+ * minutes apart. Two kinds are found:
+ *
+ * - a package failing on many devices, its error events no more than the
+ *   window apart from one to the next;
+ * - a wave of devices in one location going missing, their last check-ins
+ *   no more than the window apart.
+ *
+ * Each incident carries a timeline, the affected devices and a root-cause
+ * hint from categorizeError.
+ */
+
+import { calculateDeviceStatus } from "../data-processing/device-status"
+import { errorCodeOf } from "../data-processing/install-error-codes"
+import {
+  categorizeError,
+  ErrorCategory,
+  getErrorDescription,
+  getRecommendedAction,
+} from "../data-processing/modules/installs"
+import { getDeviceRowContext } from "../rules/deviceContext"
+import { resolveStatusThresholds } from "../rules/statusThresholds"
+import { DEFAULT_INVENTORY_FIELDS, DEFAULT_STATUS_SETTINGS } from "../settings/defaults"
+import type { InstallErrorCode, InventoryFieldMapping, StatusSettings } from "../settings/types"
+import { normalizeEventKind } from "./normalize"
+
+export const INCIDENT_DEFAULTS = {
+  /** Longest gap between two events (or check-ins) of one incident. */
+  windowMinutes: 60,
+  /** Devices a package must fail on to be an incident. */
+  packageMinDevices: 5,
+  /** Devices of one location that must go missing together. */
+  missingMinDevices: 3,
+} as const
+
+export type IncidentKind = "packageFailure" | "missingWave"
+
+/** An event as the events route normalizes it. */
+export interface IncidentEvent {
+  device: string
+  deviceName?: string
+  kind: string
+  ts: string
+  message?: string
+  payload?: Record<string, unknown>
+}
+
+/** A `/api/v1/devices` row. */
+export interface IncidentDeviceRow {
+  serialNumber: string
+  deviceName?: string
+  lastSeen?: string | null
+  archived?: boolean
+  [key: string]: unknown
+}
+
+export interface IncidentDevice {
+  serialNumber: string
+  deviceName: string
+  /** First and last time the device took part in the incident. */
+  firstSeen: string
+  lastSeen: string
+  /** The device's latest error, for package failures. */
+  error?: string
+}
+
+export interface IncidentTimelineEntry {
+  ts: string
+  device: string
+  deviceName: string
+  message: string
+}
+
+export interface RootCauseHint {
+  /** Most common error category across the affected devices (package failures). */
+  category?: ErrorCategory
+  /** Share of the devices whose error falls in that category, 0-1. */
+  share: number
+  description: string
+  action: string
+}
+
+export interface Incident {
+  /** `${kind}:${subject}:${start}`, stable while the incident grows. */
+  id: string
+  kind: IncidentKind
+  /** The package name or the location. */
+  subject: string
+  title: string
+  start: string
+  end: string
+  /** Its last event (or check-in) is within the window of now. */
+  ongoing: boolean
+  devices: IncidentDevice[]
+  /** Oldest first. */
+  timeline: IncidentTimelineEntry[]
+  rootCause: RootCauseHint
+}
+
+export interface IncidentOptions {
+  windowMinutes?: number
+  packageMinDevices?: number
+  missingMinDevices?: number
+  fields?: InventoryFieldMapping[]
+  status?: StatusSettings
+  /** The org's installer error catalog from settings. */
+  orgCodes?: InstallErrorCode[]
+}
+
+const iso = (ms: number) => new Date(ms).toISOString()
+
+interface Point {
+  ms: number
+  device: string
+  deviceName: string
+  message: string
+  error?: string
+}
+
+/** Splits points (sorted oldest first) wherever two are more than `gapMs` apart. */
+function clusters(points: Point[], gapMs: number): Point[][] {
+  const out: Point[][] = []
+  for (const p of points) {
+    const current = out[out.length - 1]
+    if (current && p.ms - current[current.length - 1].ms <= gapMs) current.push(p)
+    else out.push([p])
+  }
+  return out
+}
+
+function devicesOf(points: Point[]): IncidentDevice[] {
+  const byDevice = new Map<string, IncidentDevice>()
+  for (const p of points) {
+    const d = byDevice.get(p.device)
+    if (!d) {
+      byDevice.set(p.device, { serialNumber: p.device, deviceName: p.deviceName, firstSeen: iso(p.ms), lastSeen: iso(p.ms), ...(p.error ? { error: p.error } : {}) })
+      continue
+    }
+    d.lastSeen = iso(p.ms)
+    if (p.error) d.error = p.error
+  }
+  return [...byDevice.values()].sort((a, b) => a.firstSeen.localeCompare(b.firstSeen) || a.serialNumber.localeCompare(b.serialNumber))
+}
+
+/** Package name -> display name and error for every failed item an event reports. */
+function failedPackagesOf(event: IncidentEvent): Map<string, { label: string; error: string }> {
+  const packages = new Map<string, { label: string; error: string }>()
+  const payload = event.payload ?? {}
+  if (Array.isArray(payload.failed_items)) {
+    for (const item of payload.failed_items as Array<Record<string, unknown>>) {
+      const name = typeof item?.name === "string" ? item.name.trim() : ""
+      if (!name) continue
+      const label = typeof item.displayName === "string" && item.displayName.trim() ? item.displayName.trim() : name
+      packages.set(name, { label, error: typeof item.error === "string" ? item.error.trim() : "" })
+    }
+  }
+  if (packages.size === 0) {
+    for (const key of ["package", "packageName", "package_name", "item"]) {
+      const name = typeof payload[key] === "string" ? (payload[key] as string).trim() : ""
+      if (name) {
+        const error = [payload.error, payload.message, event.message].find((v): v is string => typeof v === "string" && v.trim() !== "")
+        packages.set(name, { label: name, error: error?.trim() ?? "" })
+        break
+      }
+    }
+  }
+  return packages
+}
+
+/** The most common error category among the devices' errors, described by a representative error. */
+function packageRootCause(devices: IncidentDevice[], orgCodes: InstallErrorCode[]): RootCauseHint {
+  const errors = devices.map((d) => d.error).filter((e): e is string => !!e)
+  if (errors.length === 0) {
+    return { share: 0, description: "No error details reported", action: "Check the install logs on an affected device" }
+  }
+  const byCategory = new Map<ErrorCategory, string[]>()
+  for (const message of errors) {
+    const category = categorizeError({ message, code: errorCodeOf(message) }, orgCodes)
+    byCategory.set(category, [...(byCategory.get(category) ?? []), message])
+  }
+  const [category, messages] = [...byCategory.entries()].sort((a, b) => b[1].length - a[1].length)[0]
+  const sample = { message: messages[0], code: errorCodeOf(messages[0]) }
+  return {
+    category,
+    share: messages.length / devices.length,
+    description: getErrorDescription(sample, orgCodes),
+    action: getRecommendedAction(sample, orgCodes),
+  }
+}
+
+function packageIncidents(events: IncidentEvent[], now: Date, opts: IncidentOptions): Incident[] {
+  const windowMs = (opts.windowMinutes ?? INCIDENT_DEFAULTS.windowMinutes) * 60000
+  const minDevices = opts.packageMinDevices ?? INCIDENT_DEFAULTS.packageMinDevices
+  const byPackage = new Map<string, { label: string; points: Point[] }>()
+  for (const event of events) {
+    const ms = Date.parse(event.ts)
+    if (!Number.isFinite(ms) || normalizeEventKind(event.kind) !== "error") continue
+    for (const [name, { label, error }] of failedPackagesOf(event)) {
+      const entry = byPackage.get(name) ?? { label, points: [] }
+      entry.points.push({
+        ms,
+        device: event.device,
+        deviceName: event.deviceName || event.device,
+        message: error ? `${label} failed: ${error}` : `${label} failed`,
+        error,
+      })
+      byPackage.set(name, entry)
+    }
+  }
+
+  const incidents: Incident[] = []
+  for (const [name, { label, points }] of byPackage) {
+    for (const cluster of clusters(points.sort((a, b) => a.ms - b.ms), windowMs)) {
+      const devices = devicesOf(cluster)
+      if (devices.length < minDevices) continue
+      const start = cluster[0].ms
+      const end = cluster[cluster.length - 1].ms
+      incidents.push({
+        id: `packageFailure:${name}:${iso(start)}`,
+        kind: "packageFailure",
+        subject: name,
+        title: `${label} failing on ${devices.length} devices`,
+        start: iso(start),
+        end: iso(end),
+        ongoing: now.getTime() - end <= windowMs,
+        devices,
+        timeline: cluster.map((p) => ({ ts: iso(p.ms), device: p.device, deviceName: p.deviceName, message: p.message })),
+        rootCause: packageRootCause(devices, opts.orgCodes ?? []),
+      })
+    }
+  }
+  return incidents
+}
+
+function missingIncidents(rows: IncidentDeviceRow[], now: Date, opts: IncidentOptions): Incident[] {
+  const windowMs = (opts.windowMinutes ?? INCIDENT_DEFAULTS.windowMinutes) * 60000
+  const minDevices = opts.missingMinDevices ?? INCIDENT_DEFAULTS.missingMinDevices
+  const fields = opts.fields ?? DEFAULT_INVENTORY_FIELDS
+  const config = opts.status ?? DEFAULT_STATUS_SETTINGS
+  const byLocation = new Map<string, Point[]>()
+  for (const row of rows) {
+    if (!row?.serialNumber || row.archived === true || !row.lastSeen) continue
+    const ms = Date.parse(row.lastSeen)
+    if (!Number.isFinite(ms)) continue
+    const ctx = getDeviceRowContext(row, fields)
+    const location = ctx.inventory.location
+    if (!location) continue
+    if (calculateDeviceStatus(row.lastSeen, resolveStatusThresholds(ctx, config).thresholds, false, now) !== "missing") continue
+    const deviceName = row.deviceName || row.serialNumber
+    byLocation.set(location, [
+      ...(byLocation.get(location) ?? []),
+      { ms, device: row.serialNumber, deviceName, message: `${deviceName} checked in for the last time` },
+    ])
+  }
+
+  const incidents: Incident[] = []
+  for (const [location, points] of byLocation) {
+    for (const cluster of clusters(points.sort((a, b) => a.ms - b.ms), windowMs)) {
+      if (cluster.length < minDevices) continue
+      const start = cluster[0].ms
+      const end = cluster[cluster.length - 1].ms
+      const minutes = Math.max(1, Math.round((end - start) / 60000))
+      incidents.push({
+        id: `missingWave:${location}:${iso(start)}`,
+        kind: "missingWave",
+        subject: location,
+        title: `${cluster.length} devices in ${location} went missing`,
+        start: iso(start),
+        end: iso(end),
+        // Missing devices stay missing, so the wave lasts until one of them checks in
+        ongoing: true,
+        devices: devicesOf(cluster),
+        timeline: cluster.map((p) => ({ ts: iso(p.ms), device: p.device, deviceName: p.deviceName, message: p.message })),
+        rootCause: {
+          share: 1,
+          description: `${cluster.length} devices in ${location} stopped checking in within ${minutes} minutes of each other`,
+          action: `Check the network, power and proxy at ${location} before looking at individual devices`,
+        },
+      })
+    }
+  }
+  return incidents
+}
+
+/** Incidents across the events and device rows, ongoing first, then newest first. */
+export function correlateIncidents(
+  input: { events?: IncidentEvent[]; devices?: IncidentDeviceRow[]; now: Date },
+  opts: IncidentOptions = {}
+): Incident[] {
+  return [
+    ...packageIncidents(input.events ?? [], input.now, opts),
+    ...missingIncidents(input.devices ?? [], input.now, opts),
+  ].sort((a, b) => Number(b.ongoing) - Number(a.ongoing) || b.end.localeCompare(a.end))
+}
@@ -0,0 +1,26 @@
+/**
+ * Live event subscriptions live in FastAPI (`/api/v1/events/subscriptions`)
+ * as one opaque document keyed by user, like saved views.
+ */
+
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { EMPTY_SUBSCRIPTIONS, SubscriptionsDocument } from "./subscriptions"
+
+/** The stored subscriptions. A store that has never been written is empty. */
+export async function loadSubscriptions(apiBaseUrl: string): Promise<SubscriptionsDocument> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/events/subscriptions`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return EMPTY_SUBSCRIPTIONS
+  if (!res.ok) throw new Error(`Subscription store returned ${res.status}`)
+  const data = await res.json()
+  return { users: data?.users && typeof data.users === "object" && !Array.isArray(data.users) ? data.users : {} }
+}
+
+export async function saveSubscriptions(apiBaseUrl: string, doc: SubscriptionsDocument): Promise<void> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/events/subscriptions`, {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify(doc),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Subscription store returned ${res.status}`)
+}
@@ -0,0 +1,55 @@
+import {
+  describeSubscription,
+  matchesSubscription,
+  normalizeSubscription,
+  parseSubscription,
+  subscriptionGroups,
+  subscriptionQuery,
+  validateSubscription,
+} from './subscriptions'
+
+describe('subscriptionGroups', () => {
+  it('joins one group per scoped value, per severity without a scope, and the fleet otherwise', () => {
+    expect(subscriptionGroups({ scope: 'catalog', values: ['Production', 'production', 'Lab West'] })).toEqual([
+      'catalog.production',
+      'catalog.lab%20west',
+    ])
+    expect(subscriptionGroups({ severities: ['error', 'warning'] })).toEqual(['severity.error', 'severity.warning'])
+    expect(subscriptionGroups({ scope: 'device', values: ['ABC123'], severities: ['error'] })).toEqual(['device.abc123'])
+    expect(subscriptionGroups({})).toEqual(['fleet'])
+  })
+})
+
+describe('matchesSubscription', () => {
+  const inventory = new Map([['A', { catalog: 'Production', platform: 'macOS' }]])
+
+  it('matches scope values case-insensitively and narrows by severity', () => {
+    const sub = { scope: 'catalog' as const, values: ['production'], severities: ['error' as const] }
+    expect(matchesSubscription({ device: 'A', kind: 'install_error' }, sub, inventory)).toBe(true)
+    expect(matchesSubscription({ device: 'A', kind: 'install_success' }, sub, inventory)).toBe(false)
+    expect(matchesSubscription({ device: 'B', kind: 'error' }, sub, inventory)).toBe(false)
+    expect(matchesSubscription({ device: 'B', kind: 'info', platform: 'Windows' }, { scope: 'platform', values: ['windows'] })).toBe(true)
+    expect(matchesSubscription({ device: 'b', kind: 'info' }, { scope: 'device', values: ['B'] })).toBe(true)
+  })
+})
+
+describe('parsing and validation', () => {
+  it('round-trips through the query string', () => {
+    const sub = parseSubscription(new URLSearchParams('scope=location&values=HQ,Lab&severities=Warning,error'))
+    expect(sub).toEqual({ scope: 'location', values: ['HQ', 'Lab'], severities: ['warning', 'error'] })
+    expect(subscriptionQuery(sub)).toBe('scope=location&values=HQ%2CLab&severities=error%2Cwarning')
+    expect(describeSubscription(sub)).toBe('warning and error events from locations HQ, Lab')
+  })
+
+  it('rejects unknown scopes and severities and a scope without values', () => {
+    expect(validateSubscription({ scope: 'department', values: ['IT'] }).map((e) => e.path)).toEqual(['scope'])
+    expect(validateSubscription({ scope: 'catalog' }).map((e) => e.path)).toEqual(['values'])
+    expect(validateSubscription({ severities: ['fatal'] }).map((e) => e.path)).toEqual(['severities'])
+    expect(validateSubscription({})).toEqual([])
+    expect(normalizeSubscription({ scope: 'usage', values: [' Lab ', 'Lab'], severities: ['warning', 'error'] })).toEqual({
+      scope: 'usage',
+      values: ['Lab'],
+      severities: ['warning', 'error'],
+    })
+  })
+})
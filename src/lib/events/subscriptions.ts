@@ -0,0 +1,168 @@
+/**
+ * Live event subscriptions: which part of the fleet's event stream a browser
+ * receives. A subscription maps to Web PubSub groups, and the negotiate route
+ * asks FastAPI for a token that joins only those groups, so events outside the
+ * scope never reach the browser. FastAPI publishes each event to the `fleet`
+ * group and to one group per attribute it has (see eventGroup).
+ *
+ * Groups can only union, so a subscription picks one scope (devices, an
+ * inventory dimension or platforms); severities narrow it further on the
+ * client, or choose the groups when there's no scope. Each user's dashboard
+ * subscription is kept in the store alongside (store.ts).
+ */
+
+import { EventSeverity, normalizeEventKind } from "./normalize"
+
+export const SUBSCRIPTION_SCOPES = ["device", "catalog", "location", "usage", "platform"] as const
+
+export type SubscriptionScope = (typeof SUBSCRIPTION_SCOPES)[number]
+
+export const EVENT_SEVERITIES = ["success", "warning", "error", "info", "system"] as const satisfies readonly EventSeverity[]
+
+export interface EventSubscription {
+  /** Part of the fleet to receive events for; the whole fleet when absent. */
+  scope?: SubscriptionScope
+  /** Serial numbers, inventory values or platforms (`Windows`, `macOS`) for the scope; any of them matches. */
+  values?: string[]
+  /** Severities after normalizeEventKind; every severity when absent. */
+  severities?: EventSeverity[]
+}
+
+/** Each user's dashboard subscription, keyed by viewUser. */
+export interface SubscriptionsDocument {
+  users: Record<string, EventSubscription>
+}
+
+export const EMPTY_SUBSCRIPTIONS: SubscriptionsDocument = { users: {} }
+
+/** Group every event is published to. */
+export const FLEET_GROUP = "fleet"
+
+/** Upper bound on the groups one token joins. */
+export const MAX_SUBSCRIPTION_VALUES = 50
+
+export interface SubscriptionValidationError {
+  path: string
+  message: string
+}
+
+/** The group events with this attribute are published to, e.g. `catalog.production`. */
+export function eventGroup(attribute: SubscriptionScope | "severity", value: string): string {
+  return `${attribute}.${encodeURIComponent(value.trim().toLowerCase())}`
+}
+
+/** The groups a token for this subscription joins. */
+export function subscriptionGroups(sub: EventSubscription): string[] {
+  if (sub.scope && sub.values?.length) return [...new Set(sub.values.map((v) => eventGroup(sub.scope!, v)))]
+  if (sub.severities?.length) return sub.severities.map((s) => eventGroup("severity", s))
+  return [FLEET_GROUP]
+}
+
+const same = (a: string | undefined, b: string) => (a ?? "").trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * Whether an event belongs to the subscription. The groups already scope what
+ * the socket delivers; this covers the severities a scoped token can't, and
+ * the polling fallback, which loads recent fleet events. Inventory scopes need
+ * the device's inventory (by serial number); events of devices without it don't match.
+ */
+export function matchesSubscription(
+  event: { device: string; kind: string; platform?: string },
+  sub: EventSubscription,
+  inventory?: Map<string, Record<string, string | undefined>>
+): boolean {
+  if (sub.severities?.length && !sub.severities.includes(normalizeEventKind(event.kind))) return false
+  if (!sub.scope || !sub.values?.length) return true
+  const values = sub.values
+  if (sub.scope === "device") return values.some((v) => same(event.device, v))
+  if (sub.scope === "platform") {
+    const platform = event.platform ?? inventory?.get(event.device)?.platform
+    return values.some((v) => same(platform, v))
+  }
+  const value = inventory?.get(event.device)?.[sub.scope]
+  return values.some((v) => same(value, v))
+}
+
+/** The lookup matchesSubscription takes, from device rows with flat inventory fields. */
+export function inventoryBySerial(
+  devices: { serialNumber?: string; platform?: string; catalog?: string; location?: string; usage?: string }[]
+): Map<string, Record<string, string | undefined>> {
+  const map = new Map<string, Record<string, string | undefined>>()
+  for (const d of devices) {
+    if (d.serialNumber) map.set(d.serialNumber, { platform: d.platform, catalog: d.catalog, location: d.location, usage: d.usage })
+  }
+  return map
+}
+
+const list = (params: URLSearchParams, key: string) =>
+  params
+    .getAll(key)
+    .flatMap((v) => v.split(","))
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+/** Reads `scope`, `values` and `severities`, as the negotiate route takes them. */
+export function parseSubscription(params: URLSearchParams): EventSubscription {
+  const scope = params.get("scope")?.trim()
+  const values = list(params, "values")
+  const severities = list(params, "severities").map((s) => s.toLowerCase())
+  return {
+    ...(scope ? { scope: scope as SubscriptionScope } : {}),
+    ...(values.length ? { values } : {}),
+    ...(severities.length ? { severities: severities as EventSeverity[] } : {}),
+  }
+}
+
+/** The subscription as a query string, empty parts omitted. Stable, so it can key a connection. */
+export function subscriptionQuery(sub: EventSubscription): string {
+  const params = new URLSearchParams()
+  if (sub.scope && sub.values?.length) {
+    params.set("scope", sub.scope)
+    params.set("values", sub.values.join(","))
+  }
+  if (sub.severities?.length) params.set("severities", [...sub.severities].sort().join(","))
+  return params.toString()
+}
+
+export function validateSubscription(value: unknown): SubscriptionValidationError[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return [{ path: "", message: "must be an object" }]
+  const sub = value as Record<string, unknown>
+  const errors: SubscriptionValidationError[] = []
+  if (sub.scope !== undefined && !(SUBSCRIPTION_SCOPES as readonly string[]).includes(sub.scope as string)) {
+    errors.push({ path: "scope", message: `must be one of ${SUBSCRIPTION_SCOPES.join(", ")}` })
+  }
+  if (sub.values !== undefined) {
+    if (!Array.isArray(sub.values) || !sub.values.every((v) => typeof v === "string" && v.trim() !== "")) {
+      errors.push({ path: "values", message: "must be a list of non-empty strings" })
+    } else if (sub.values.length > MAX_SUBSCRIPTION_VALUES) {
+      errors.push({ path: "values", message: `at most ${MAX_SUBSCRIPTION_VALUES} values` })
+    }
+  }
+  if (sub.scope !== undefined && !(Array.isArray(sub.values) && sub.values.length)) {
+    errors.push({ path: "values", message: "are required with a scope" })
+  }
+  if (sub.severities !== undefined) {
+    if (!Array.isArray(sub.severities) || !sub.severities.every((s) => (EVENT_SEVERITIES as readonly string[]).includes(s))) {
+      errors.push({ path: "severities", message: `must be a list of ${EVENT_SEVERITIES.join(", ")}` })
+    }
+  }
+  return errors
+}
+
+/** A validated subscription with values trimmed and deduplicated and empty parts dropped. */
+export function normalizeSubscription(sub: EventSubscription): EventSubscription {
+  const values = [...new Set((sub.values ?? []).map((v) => v.trim()))]
+  const severities = EVENT_SEVERITIES.filter((s) => sub.severities?.includes(s))
+  return {
+    ...(sub.scope && values.length ? { scope: sub.scope, values } : {}),
+    ...(severities.length ? { severities } : {}),
+  }
+}
+
+/** e.g. "error and warning events from catalog Production", "all events". */
+export function describeSubscription(sub: EventSubscription): string {
+  const kinds = sub.severities?.length ? `${sub.severities.join(" and ")} events` : "all events"
+  if (!sub.scope || !sub.values?.length) return kinds
+  const label = sub.values.length > 1 ? `${sub.scope}s` : sub.scope
+  return `${kinds} from ${label} ${sub.values.join(", ")}`
+}
@@ -0,0 +1,55 @@
+import { exportColumns, exportRows, indexDevices, parseExportFilters } from './datasets'
+import { DEFAULT_INVENTORY_FIELDS } from '../settings/defaults'
+import type { InventoryFieldMapping } from '../settings/types'
+
+const fields: InventoryFieldMapping[] = [
+  ...DEFAULT_INVENTORY_FIELDS,
+  { key: 'costCentre', sourceKey: 'cost_centre', label: 'Cost Centre', order: 8, visible: true, knownValues: [] },
+]
+
+const devices = [
+  { serialNumber: 'MAC1', deviceName: 'studio-mac', platform: 'macOS', tags: ['render-farm'], groups: ['Studio'], modules: { inventory: { usage: 'Lab', catalog: 'Production', location: 'Vancouver', cost_centre: 'VFX' } } },
+  { serialNumber: 'WIN1', deviceName: 'render-01', platform: 'Windows', modules: { inventory: { usage: 'Assigned', catalog: 'Testing', location: 'Toronto' } } },
+]
+
+// Security rows don't carry inventory; it comes from the device list.
+const security = [
+  { serialNumber: 'MAC1', deviceName: 'studio-mac', platform: 'macOS', firewallEnabled: true, cveCount: 3 },
+  { serialNumber: 'WIN1', deviceName: 'render-01', platform: 'Windows', firewallEnabled: false, cveCount: 0 },
+]
+
+const run = (query: string) => {
+  const columns = exportColumns('security', fields)
+  return [...exportRows(security, columns, parseExportFilters(new URLSearchParams(query)), indexDevices(devices), fields)]
+}
+
+describe('exportColumns', () => {
+  it('appends the visible inventory fields in mapping order', () => {
+    const headers = exportColumns('security', fields).map((c) => c.header)
+    expect(headers.slice(0, 3)).toEqual(['Device Name', 'Serial Number', 'Platform'])
+    expect(headers.slice(-7)).toEqual(['Usage', 'Catalog', 'Department', 'Location', 'Asset Tag', 'Owner', 'Cost Centre'])
+    expect(headers).not.toContain('Area')
+  })
+})
+
+describe('exportRows', () => {
+  it('fills inventory columns from the matching device', () => {
+    const columns = exportColumns('security', fields)
+    const [mac] = run('')
+    expect(mac[columns.findIndex((c) => c.key === 'firewall')]).toBe('Yes')
+    expect(mac[columns.findIndex((c) => c.key === 'usage')]).toBe('Lab')
+    expect(mac[columns.findIndex((c) => c.key === 'costCentre')]).toBe('VFX')
+    expect(mac[columns.findIndex((c) => c.key === 'tags')]).toBe('render-farm')
+    expect(mac[columns.findIndex((c) => c.key === 'groups')]).toBe('Studio')
+  })
+
+  it('filters like the list pages', () => {
+    expect(run('platform=win').map((r) => r[1])).toEqual(['WIN1'])
+    expect(run('usages=lab,shared').map((r) => r[1])).toEqual(['MAC1'])
+    expect(run('catalogs=Testing&locations=Vancouver')).toEqual([])
+    expect(run('q=TORONTO').map((r) => r[1])).toEqual(['WIN1'])
+    expect(run('tags=Render-Farm').map((r) => r[1])).toEqual(['MAC1'])
+    expect(run('groups=studio,lab&platform=win')).toEqual([])
+    expect(run('devices=win1').map((r) => r[1])).toEqual(['WIN1'])
+  })
+})
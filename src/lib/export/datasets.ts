@@ -0,0 +1,348 @@
+/**
+ * Fleet list exports: the columns each list exports and the filters they
+ * honour. Rows are the JSON the list pages load from their API routes; every
+ * dataset also gets the org's visible inventory fields (InventoryFieldMapping)
+ * as columns, read the way the pages read them, falling back to the device
+ * record for lists whose rows don't carry inventory. Every dataset also
+ * exports the device's tags and groups (see lib/devices/groups.ts).
+ */
+
+import { extractNetwork, NetworkInfo } from "@/src/lib/data-processing/modules/network"
+import { CLIENT_LABELS, ManagementClient } from "@/src/lib/installs/client-versions"
+import type { ReportCell } from "@/src/lib/reports/tables"
+import { getDeviceFacts, getDeviceRowInventory } from "@/src/lib/rules/deviceContext"
+import type { DeviceFacts, InventoryContext } from "@/src/lib/rules/evaluateSecurity"
+import type { InventoryFieldMapping } from "@/src/lib/settings/types"
+
+export const EXPORT_DATASETS = [
+  "devices",
+  "installs",
+  "applications",
+  "security",
+  "hardware",
+  "network",
+  "identity",
+  "peripherals",
+  "clients",
+] as const
+
+export type ExportDataset = (typeof EXPORT_DATASETS)[number]
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "xlsx"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+/** The list-page filters an export honours, as the pages put them in the URL. */
+export interface ExportFilters {
+  platform?: "Windows" | "macOS"
+  usages: string[]
+  catalogs: string[]
+  locations: string[]
+  tags: string[]
+  groups: string[]
+  /** Serial numbers, for exporting a selection. */
+  devices: string[]
+  q?: string
+  /** clients: only devices below the org's minimum client version. */
+  belowMinimum?: boolean
+}
+
+/** A row with what its columns read: the device facts and inventory, taken
+ * from the row or, where it lacks them, from the matching device record. */
+export interface ExportRow {
+  row: any
+  facts: DeviceFacts
+  inventory: InventoryContext
+}
+
+export interface ExportColumn {
+  /** Stable key, used for NDJSON properties. */
+  key: string
+  header: string
+  value: (r: ExportRow) => ReportCell
+}
+
+const text = (value: unknown): ReportCell => {
+  if (value === undefined || value === null) return null
+  const s = String(value).trim()
+  return s === "" ? null : s
+}
+
+const count = (value: unknown): ReportCell => (typeof value === "number" && Number.isFinite(value) ? value : null)
+
+const yesNo = (value: unknown): ReportCell => (typeof value === "boolean" ? (value ? "Yes" : "No") : null)
+
+const gb = (bytes: number): number => Math.round((bytes / 1073741824) * 10) / 10
+
+const named = (value: unknown): ReportCell => {
+  const first = Array.isArray(value) ? value[0] : value
+  if (typeof first === "string") return text(first)
+  return first && typeof first === "object" ? text(first.name || first.model || first.brand || first.description) : null
+}
+
+function memoryGb(memory: any): ReportCell {
+  if (typeof memory === "number") return memory > 1048576 ? gb(memory) : memory
+  if (typeof memory === "string") return text(memory)
+  if (!memory || typeof memory !== "object") return null
+  if (memory.totalFormatted) return text(memory.totalFormatted)
+  const bytes = Number(memory.physical_memory ?? memory.physicalMemory ?? memory.totalPhysical)
+  return Number.isFinite(bytes) && bytes > 0 ? gb(bytes) : null
+}
+
+function storageGb(storage: any): ReportCell {
+  if (!Array.isArray(storage)) return null
+  const bytes = storage.reduce((sum, drive) => {
+    const size = drive?.size ?? drive?.capacity
+    return sum + (typeof size === "number" ? size : 0)
+  }, 0)
+  return bytes > 0 ? gb(bytes) : null
+}
+
+// Several columns read the network info; extract it once per row.
+const networkInfo = new WeakMap<object, NetworkInfo>()
+function network(row: any): NetworkInfo {
+  let info = networkInfo.get(row)
+  if (!info) {
+    info = extractNetwork({ modules: row.raw ? { network: row.raw } : row.modules })
+    networkInfo.set(row, info)
+  }
+  return info
+}
+
+const deviceName: ExportColumn = {
+  key: "deviceName",
+  header: "Device Name",
+  value: ({ row }) =>
+    text(row.deviceName || row.modules?.inventory?.deviceName || row.modules?.inventory?.device_name || row.serialNumber),
+}
+const serialNumber: ExportColumn = { key: "serialNumber", header: "Serial Number", value: ({ row }) => text(row.serialNumber) }
+const platform: ExportColumn = { key: "platform", header: "Platform", value: ({ facts }) => text(facts.platform) }
+const lastSeen: ExportColumn = { key: "lastSeen", header: "Last Seen", value: ({ row }) => text(row.lastSeen) }
+
+const PERIPHERAL_COUNTS: [string, string, string][] = [
+  ["usb", "USB", "usbDevices"],
+  ["bluetooth", "Bluetooth", "bluetoothDevices"],
+  ["printers", "Printers", "printers"],
+  ["cameras", "Cameras", "cameras"],
+  ["audio", "Audio", "audioDevices"],
+  ["displays", "Displays", "displayDevices"],
+  ["input", "Input", "inputDevices"],
+  ["storage", "Storage", "storageDevices"],
+]
+
+/** Per-dataset columns, before the inventory columns. */
+export const EXPORT_COLUMNS: Record<ExportDataset, ExportColumn[]> = {
+  devices: [
+    deviceName,
+    serialNumber,
+    platform,
+    { key: "osName", header: "OS", value: ({ facts }) => text(facts.osName) },
+    { key: "osVersion", header: "OS Version", value: ({ facts }) => text(facts.osVersion) },
+    { key: "model", header: "Model", value: ({ facts }) => text(facts.model) },
+    lastSeen,
+    { key: "registered", header: "Registered", value: ({ row }) => text(row.createdAt) },
+  ],
+  installs: [
+    deviceName,
+    serialNumber,
+    { key: "install", header: "Install", value: ({ row }) => text(row.name) },
+    { key: "version", header: "Version", value: ({ row }) => text(row.version) },
+    { key: "status", header: "Status", value: ({ row }) => text(row.status) },
+    platform,
+    lastSeen,
+  ],
+  applications: [
+    { key: "application", header: "Application", value: ({ row }) => text(row.name) },
+    { key: "version", header: "Version", value: ({ row }) => text(row.version) },
+    { key: "vendor", header: "Vendor", value: ({ row }) => text(row.vendor || row.publisher) },
+    deviceName,
+    serialNumber,
+    platform,
+  ],
+  security: [
+    deviceName,
+    serialNumber,
+    platform,
+    { key: "firewall", header: "Firewall", value: ({ row }) => yesNo(row.firewallEnabled) },
+    { key: "encryption", header: "Encryption", value: ({ row }) => yesNo(row.encryptionEnabled) },
+    { key: "antivirus", header: "Antivirus", value: ({ row }) => text(row.antivirusName) },
+    { key: "antivirusEnabled", header: "Antivirus Enabled", value: ({ row }) => yesNo(row.antivirusEnabled) },
+    { key: "antivirusUpToDate", header: "Antivirus Up To Date", value: ({ row }) => yesNo(row.antivirusUpToDate) },
+    { key: "detections", header: "Detections", value: ({ row }) => count(row.detectionCount) },
+    { key: "tpm", header: "TPM", value: ({ row }) => yesNo(row.tpmPresent) },
+    { key: "secureBoot", header: "Secure Boot", value: ({ row }) => yesNo(row.secureBootEnabled) },
+    { key: "sip", header: "SIP", value: ({ row }) => yesNo(row.sipEnabled) },
+    { key: "gatekeeper", header: "Gatekeeper", value: ({ row }) => yesNo(row.gatekeeperEnabled) },
+    { key: "ssh", header: "SSH", value: ({ row }) => text(row.secureShell?.statusDisplay) },
+    { key: "rdp", header: "RDP", value: ({ row }) => yesNo(row.rdpEnabled) },
+    { key: "cves", header: "CVEs", value: ({ row }) => count(row.cveCount) },
+    { key: "criticalCves", header: "Critical CVEs", value: ({ row }) => count(row.criticalCveCount) },
+    { key: "expiredCerts", header: "Expired Certificates", value: ({ row }) => count(row.expiredCertCount) },
+    lastSeen,
+  ],
+  hardware: [
+    deviceName,
+    serialNumber,
+    { key: "manufacturer", header: "Manufacturer", value: ({ row }) => text(row.manufacturer) },
+    { key: "model", header: "Model", value: ({ row, facts }) => text(row.model || facts.model) },
+    { key: "processor", header: "Processor", value: ({ row }) => named(row.processor) },
+    { key: "cores", header: "Cores", value: ({ row }) => count(row.processorCores) },
+    { key: "architecture", header: "Architecture", value: ({ row, facts }) => text(row.architecture || facts.architecture) },
+    { key: "memory", header: "Memory (GB)", value: ({ row }) => memoryGb(row.memory) },
+    { key: "storage", header: "Storage (GB)", value: ({ row }) => storageGb(row.storage) },
+    { key: "graphics", header: "Graphics", value: ({ row }) => named(row.graphics ?? row.gpu) },
+    lastSeen,
+  ],
+  network: [
+    deviceName,
+    serialNumber,
+    { key: "ipAddress", header: "IP Address", value: ({ row }) => text(network(row).ipAddress) },
+    { key: "macAddress", header: "MAC Address", value: ({ row }) => text(network(row).macAddress) },
+    { key: "connectionType", header: "Connection", value: ({ row }) => text(network(row).connectionType) },
+    { key: "network", header: "Network", value: ({ row }) => text(network(row).ssid || network(row).networkName) },
+    { key: "hostname", header: "Hostname", value: ({ row }) => text(network(row).hostname) },
+    { key: "operatingSystem", header: "OS", value: ({ row, facts }) => text(row.operatingSystem || facts.osName) },
+    { key: "osVersion", header: "OS Version", value: ({ row, facts }) => text(row.osVersion || facts.osVersion) },
+    lastSeen,
+  ],
+  identity: [
+    deviceName,
+    serialNumber,
+    platform,
+    { key: "users", header: "Users", value: ({ row }) => count(row.totalUsers) },
+    { key: "admins", header: "Admins", value: ({ row }) => count(row.adminUsers) },
+    { key: "adminUsernames", header: "Admin Usernames", value: ({ row }) => text((row.adminUsernames ?? []).join("; ")) },
+    { key: "loggedIn", header: "Logged In", value: ({ row }) => count(row.currentlyLoggedIn) },
+    { key: "enrollmentType", header: "Enrollment", value: ({ row }) => text(row.enrollmentType) },
+    { key: "entraJoined", header: "Entra Joined", value: ({ row }) => yesNo(row.entraJoined) },
+    { key: "domainJoined", header: "Domain Joined", value: ({ row }) => yesNo(row.domainJoined) },
+    { key: "tenant", header: "Tenant", value: ({ row }) => text(row.tenantName) },
+    { key: "authMethod", header: "Auth Method", value: ({ row }) => text(row.authMethod) },
+    lastSeen,
+  ],
+  peripherals: [
+    deviceName,
+    serialNumber,
+    platform,
+    ...PERIPHERAL_COUNTS.map(([key, header, field]): ExportColumn => ({
+      key,
+      header,
+      value: ({ row }) => (Array.isArray(row[field]) ? row[field].length : 0),
+    })),
+    lastSeen,
+  ],
+  clients: [
+    deviceName,
+    serialNumber,
+    platform,
+    { key: "client", header: "Client", value: ({ row }) => text(CLIENT_LABELS[row.client as ManagementClient]) },
+    { key: "version", header: "Version", value: ({ row }) => text(row.version) },
+    { key: "buildsBehind", header: "Builds Behind", value: ({ row }) => count(row.buildsBehind) },
+    { key: "daysBehind", header: "Days Behind", value: ({ row }) => count(row.daysBehind) },
+    { key: "belowMinimum", header: "Below Minimum", value: ({ row }) => yesNo(row.belowMinimum) },
+    lastSeen,
+  ],
+}
+
+const joined = (value: string | string[] | undefined): ReportCell =>
+  Array.isArray(value) ? (value.length ? value.join(", ") : null) : text(value)
+
+/** Tags and groups, exported after every dataset's own columns. */
+const LABEL_COLUMNS: ExportColumn[] = [
+  { key: "tags", header: "Tags", value: ({ facts }) => joined(facts.tags) },
+  { key: "groups", header: "Groups", value: ({ facts }) => joined(facts.groups) },
+]
+
+/** The dataset's columns, tags and groups, then the visible inventory fields in mapping order. */
+export function exportColumns(dataset: ExportDataset, fields: InventoryFieldMapping[]): ExportColumn[] {
+  const inventory = [...fields]
+    .filter((f) => f.visible)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map((f): ExportColumn => ({ key: f.key, header: f.label, value: (r) => text(r.inventory[f.key]) }))
+  const base = [...EXPORT_COLUMNS[dataset], ...LABEL_COLUMNS]
+  return [...base.filter((c) => !inventory.some((i) => i.key === c.key)), ...inventory]
+}
+
+const list = (params: URLSearchParams, key: string) =>
+  params
+    .getAll(key)
+    .flatMap((v) => v.split(","))
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+/** Reads `platform`, `usages`, `catalogs`, `locations`, `tags`, `groups`, `devices`, `q` and `below` (see URL_STATE_CONVENTIONS.md). */
+export function parseExportFilters(params: URLSearchParams): ExportFilters {
+  const platform = params.get("platform")
+  const q = params.get("q")?.trim()
+  return {
+    ...(platform === "win" ? { platform: "Windows" as const } : platform === "mac" ? { platform: "macOS" as const } : {}),
+    usages: list(params, "usages"),
+    catalogs: list(params, "catalogs"),
+    locations: list(params, "locations"),
+    tags: list(params, "tags"),
+    groups: list(params, "groups"),
+    devices: list(params, "devices"),
+    ...(q ? { q } : {}),
+    ...(params.get("below") === "1" ? { belowMinimum: true } : {}),
+  }
+}
+
+/** Device records by serial number and device id, for rows to borrow inventory and facts from. */
+export function indexDevices(devices: any[]): Map<string, any> {
+  const index = new Map<string, any>()
+  for (const device of devices) {
+    if (device?.serialNumber) index.set(device.serialNumber, device)
+    if (device?.deviceId) index.set(device.deviceId, device)
+  }
+  return index
+}
+
+function toExportRow(row: any, devices: Map<string, any>, fields: InventoryFieldMapping[]): ExportRow {
+  const device = devices.get(row?.serialNumber) ?? devices.get(row?.deviceId)
+  const inventory = getDeviceRowInventory(row, fields)
+  const facts = getDeviceFacts(row)
+  if (device && device !== row) {
+    for (const [key, value] of Object.entries(getDeviceRowInventory(device, fields))) inventory[key] ??= value
+    for (const [key, value] of Object.entries(getDeviceFacts(device)) as [keyof DeviceFacts, any][]) {
+      // List facts (tags, groups) read as [] on rows that don't carry them
+      const current = facts[key]
+      if (current === undefined || (Array.isArray(current) && current.length === 0)) facts[key] = value
+    }
+  }
+  return { row, facts, inventory }
+}
+
+const inList = (selected: string[], value: string | undefined) =>
+  selected.length === 0 || selected.some((s) => s.toLowerCase() === (value ?? "").toLowerCase())
+
+const anyInList = (selected: string[], values: string | string[] | undefined) =>
+  selected.length === 0 || (Array.isArray(values) && values.some((v) => inList(selected, v)))
+
+/**
+ * The export's rows as cells, filtered like the list pages: the selected
+ * devices, platform, then inventory selections, tags and groups
+ * (case-insensitive), then `q` against every exported value. A generator, so
+ * writers can stream it.
+ */
+export function* exportRows(
+  rows: any[],
+  columns: ExportColumn[],
+  filters: ExportFilters,
+  devices: Map<string, any>,
+  fields: InventoryFieldMapping[]
+): Generator<ReportCell[]> {
+  const q = filters.q?.toLowerCase()
+  for (const row of rows) {
+    if (!inList(filters.devices, row?.serialNumber)) continue
+    const r = toExportRow(row, devices, fields)
+    if (filters.platform && r.facts.platform !== filters.platform) continue
+    if (!inList(filters.usages, r.inventory.usage)) continue
+    if (!inList(filters.catalogs, r.inventory.catalog)) continue
+    if (!inList(filters.locations, r.inventory.location)) continue
+    if (!anyInList(filters.tags, r.facts.tags)) continue
+    if (!anyInList(filters.groups, r.facts.groups)) continue
+    const cells = columns.map((c) => c.value(r))
+    if (q && !cells.some((cell) => cell !== null && String(cell).toLowerCase().includes(q))) continue
+    yield cells
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Loads an export's rows through the API route handlers the list pages fetch
+ * from, in-process, plus the device list the rows borrow inventory from.
+ * Filters the routes understand are passed through so FastAPI does the
+ * narrowing where it can; `exportRows` applies them all again either way.
+ */
+
+import { GET as getApplications } from "@/app/api/v1/applications/route"
+import { GET as getDevices } from "@/app/api/v1/devices/route"
+import { GET as getHardware } from "@/app/api/v1/hardware/route"
+import { GET as getIdentity } from "@/app/api/v1/identity/route"
+import { GET as getInstallsFilters } from "@/app/api/v1/installs/filters/route"
+import { GET as getInstalls } from "@/app/api/v1/installs/route"
+import { GET as getNetwork } from "@/app/api/v1/network/route"
+import { GET as getPeripherals } from "@/app/api/v1/peripherals/route"
+import { GET as getSecurity } from "@/app/api/v1/security/route"
+import { collectClientVersions } from "@/src/lib/installs/client-versions"
+import { callRoute } from "@/src/lib/reports/load"
+import type { ClientVersionSettings } from "@/src/lib/settings/types"
+import type { ExportDataset, ExportFilters } from "./datasets"
+
+const rowsOf = (data: any): any[] => (Array.isArray(data) ? data : Array.isArray(data?.devices) ? data.devices : [])
+
+async function loadDatasetRows(
+  dataset: ExportDataset,
+  filters: ExportFilters,
+  clientVersions: ClientVersionSettings
+): Promise<any[]> {
+  switch (dataset) {
+    case "devices":
+      return rowsOf(await callRoute(getDevices, "/api/v1/devices"))
+    case "installs": {
+      // Repeated params, as the Installs page sends them.
+      const params = new URLSearchParams()
+      filters.usages.forEach((v) => params.append("usages", v))
+      filters.catalogs.forEach((v) => params.append("catalogs", v))
+      return rowsOf(await callRoute(getInstalls, "/api/v1/installs", params))
+    }
+    case "applications": {
+      // Comma-joined, with the page's row cap, as the Applications page sends them.
+      const params = new URLSearchParams({ limit: "5000" })
+      for (const key of ["usages", "catalogs", "locations"] as const) {
+        if (filters[key].length) params.set(key, filters[key].join(","))
+      }
+      if (filters.platform) params.set("platforms", filters.platform)
+      return rowsOf(await callRoute(getApplications, "/api/v1/applications", params))
+    }
+    case "security":
+      return rowsOf(await callRoute(getSecurity, "/api/v1/security"))
+    case "hardware":
+      return rowsOf(await callRoute(getHardware, "/api/v1/hardware"))
+    case "network":
+      return rowsOf(await callRoute(getNetwork, "/api/v1/network"))
+    case "identity":
+      return rowsOf(await callRoute(getIdentity, "/api/v1/identity"))
+    case "peripherals":
+      return rowsOf(await callRoute(getPeripherals, "/api/v1/peripherals"))
+    case "clients": {
+      // One row per device and client, held against the org's minimum versions.
+      const { devices } = collectClientVersions(rowsOf(await callRoute(getInstallsFilters, "/api/v1/installs/filters")), clientVersions)
+      return filters.belowMinimum ? devices.filter((d) => d.belowMinimum) : devices
+    }
+  }
+}
+
+/** The dataset's rows and the fleet's device records. */
+export async function loadExport(
+  dataset: ExportDataset,
+  filters: ExportFilters,
+  clientVersions: ClientVersionSettings = {}
+): Promise<{ rows: any[]; devices: any[] }> {
+  const [rows, devices] = await Promise.all([
+    loadDatasetRows(dataset, filters, clientVersions),
+    dataset === "devices" ? Promise.resolve([]) : callRoute(getDevices, "/api/v1/devices").then(rowsOf),
+  ])
+  return { rows, devices: dataset === "devices" ? rows : devices }
+}
@@ -0,0 +1,61 @@
+/**
+ * Export rows written out as they're produced, for a streamed response body.
+ */
+
+import { csvRow } from "@/src/lib/reports/render"
+import type { ReportCell } from "@/src/lib/reports/tables"
+import { streamXlsx } from "@/src/lib/reports/xlsx"
+import type { ExportColumn, ExportFormat } from "./datasets"
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+}
+
+/** Headers are only quoted when they need it, like the pages' exports. */
+const csvHeader = (header: string) => (/[",\n]/.test(header) ? `"${header.replace(/"/g, '""')}"` : header)
+
+function* csvLines(columns: ExportColumn[], rows: Iterable<ReportCell[]>): Generator<string> {
+  yield columns.map((c) => csvHeader(c.header)).join(",")
+  for (const row of rows) yield `\n${csvRow(row)}`
+}
+
+/** One JSON object per line, keyed by column key. */
+function* ndjsonLines(columns: ExportColumn[], rows: Iterable<ReportCell[]>): Generator<string> {
+  for (const row of rows) {
+    yield `${JSON.stringify(Object.fromEntries(columns.map((c, i) => [c.key, row[i]])))}\n`
+  }
+}
+
+function chunks(format: ExportFormat, columns: ExportColumn[], rows: Iterable<ReportCell[]>, title: string) {
+  switch (format) {
+    case "csv":
+      return csvLines(columns, rows)
+    case "ndjson":
+      return ndjsonLines(columns, rows)
+    case "xlsx":
+      return streamXlsx(columns.map((c) => c.header), rows, title)
+  }
+}
+
+/** The rows in `format` as a response body, pulled a chunk at a time. */
+export function exportStream(
+  format: ExportFormat,
+  columns: ExportColumn[],
+  rows: Iterable<ReportCell[]>,
+  title: string
+): ReadableStream<Uint8Array> {
+  const source: Iterator<string | Buffer> | AsyncIterator<string | Buffer> = chunks(format, columns, rows, title)
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await source.next()
+      if (done) controller.close()
+      else controller.enqueue(typeof value === "string" ? encoder.encode(value) : new Uint8Array(value))
+    },
+    async cancel() {
+      await source.return?.(undefined)
+    },
+  })
+}
@@ -0,0 +1,44 @@
+import { collectClientVersions, isBelowMinimum } from './client-versions'
+
+const cimian = (serialNumber: string, version: string) => ({ serialNumber, modules: { installs: { cimian: { version } } } })
+const munki = (serialNumber: string, version: string) => ({ serialNumber, modules: { installs: { munki: { version } } } })
+
+describe('collectClientVersions', () => {
+  it('groups Cimian builds across encodings and counts builds and days behind', () => {
+    const { clients, devices } = collectClientVersions(
+      [
+        cimian('A', '2026.07.20.0632'),
+        cimian('B', '2026.7.2006'),
+        cimian('C', '2026.07.20.0600'),
+        cimian('D', '2026.7.5'),
+        { ...cimian('E', '2026.7.5'), archived: true },
+      ],
+      { minimumCimian: '2026.07.10.0000' }
+    )
+    expect(clients.cimian.versions).toEqual([
+      { version: '2026.07.20.0632', devices: 1, buildsBehind: 0, daysBehind: 0, belowMinimum: false },
+      { version: '2026.07.20.0600', devices: 2, buildsBehind: 1, daysBehind: 0, belowMinimum: false },
+      { version: '2026.07.05.0000', devices: 1, buildsBehind: 2, daysBehind: 15, belowMinimum: true },
+    ])
+    expect(clients.cimian).toMatchObject({ newest: '2026.07.20.0632', minimum: '2026.07.10.0000', devices: 4, current: 1, belowMinimum: 1 })
+    expect(devices[0]).toMatchObject({ serialNumber: 'D', belowMinimum: true, buildsBehind: 2 })
+  })
+
+  it('compares Munki versions numerically and treats equal versions as one build', () => {
+    const { clients } = collectClientVersions([munki('A', '6.10.0'), munki('B', '6.9'), munki('C', '6.9.0'), munki('D', '6.2.1')], {
+      minimumMunki: '6.5',
+    })
+    expect(clients.munki.versions.map((v) => [v.version, v.buildsBehind, v.belowMinimum])).toEqual([
+      ['6.10.0', 0, false],
+      ['6.9', 1, false],
+      ['6.9.0', 1, false],
+      ['6.2.1', 2, true],
+    ])
+    expect(clients.munki.versions[0].daysBehind).toBeUndefined()
+  })
+
+  it('never holds unreadable versions or unset floors against a device', () => {
+    expect(isBelowMinimum('cimian', 'dev-build', { minimumCimian: '2026.07.10.0000' })).toBe(false)
+    expect(isBelowMinimum('munki', '5.0', {})).toBe(false)
+  })
+})
@@ -0,0 +1,178 @@
+/**
+ * Cimian and Munki client health: which client builds the fleet runs, how far
+ * each device is behind the newest build seen, and which devices are below the
+ * org's minimum (ClientVersionSettings). The installs page, the export and
+ * the alert engine all read versions through here.
+ *
+ * Cimian versions are build stamps in several encodings, so they're compared
+ * and grouped by normalizeCimianVersion; Munki versions are dotted numbers.
+ * Input is the device records the installs filters endpoint returns
+ * (`modules.installs.cimian.version`, `modules.installs.munki.version`).
+ */
+
+import { normalizeCimianVersion } from "../data-processing/cimian-version"
+import { compareSemanticVersions } from "../data-processing/modules/installs"
+import type { ClientVersionSettings } from "../settings/types"
+
+export type ManagementClient = "cimian" | "munki"
+
+export const MANAGEMENT_CLIENTS = ["cimian", "munki"] as const satisfies readonly ManagementClient[]
+
+export const CLIENT_LABELS: Record<ManagementClient, string> = { cimian: "Cimian", munki: "Munki" }
+
+export interface ClientVersionDevice {
+  serialNumber: string
+  deviceId?: string
+  deviceName: string
+  client: ManagementClient
+  /** Cimian builds in canonical `YYYY.MM.DD.HHMM` form where they parse. */
+  version: string
+  /** Distinct builds newer than this one seen across the fleet. */
+  buildsBehind: number
+  /** Days between this build and the newest (Cimian, whose versions are build dates). */
+  daysBehind?: number
+  belowMinimum: boolean
+  platform?: string
+  lastSeen?: string
+}
+
+export interface ClientVersionGroup {
+  version: string
+  devices: number
+  buildsBehind: number
+  daysBehind?: number
+  belowMinimum: boolean
+}
+
+export interface ClientVersionSummary {
+  client: ManagementClient
+  newest?: string
+  /** The org's floor, if set. */
+  minimum?: string
+  devices: number
+  /** Devices on the newest build. */
+  current: number
+  belowMinimum: number
+  /** Newest first. */
+  versions: ClientVersionGroup[]
+}
+
+export interface ClientVersionReport {
+  clients: Record<ManagementClient, ClientVersionSummary>
+  /** Below the minimum first, then the furthest behind. */
+  devices: ClientVersionDevice[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** The version as it's grouped: Cimian's canonical stamp where it parses, else as reported. */
+function displayVersion(client: ManagementClient, version: string): string {
+  return client === "cimian" ? normalizeCimianVersion(version)?.canonical ?? version : version
+}
+
+/** Orders versions of a client oldest first. Unreadable Cimian stamps sort oldest. */
+export function compareClientVersions(client: ManagementClient, a: string, b: string): number {
+  if (client === "munki") return compareSemanticVersions(a, b)
+  const na = normalizeCimianVersion(a)
+  const nb = normalizeCimianVersion(b)
+  if (!na || !nb) return na ? 1 : nb ? -1 : a.localeCompare(b)
+  return Math.sign(na.sortKey - nb.sortKey)
+}
+
+/** Whether a version is readable enough to hold against the floor. */
+function comparable(client: ManagementClient, version: string): boolean {
+  return client === "munki" ? /^\d+(\.\d+)*/.test(version) : !!normalizeCimianVersion(version)
+}
+
+function buildTime(version: string): number | undefined {
+  const v = normalizeCimianVersion(version)
+  return v ? Date.UTC(v.year, v.month - 1, v.day, v.hour, v.minute) : undefined
+}
+
+/** The management clients a device reports, with their versions. */
+export function clientVersionsOf(device: any): { client: ManagementClient; version: string }[] {
+  const installs = device?.modules?.installs
+  return MANAGEMENT_CLIENTS.flatMap((client) => {
+    const version = installs?.[client]?.version
+    return typeof version === "string" && version.trim() ? [{ client, version: version.trim() }] : []
+  })
+}
+
+/** Whether a version is below the org's floor for its client; never when no floor is set. */
+export function isBelowMinimum(client: ManagementClient, version: string, policy: ClientVersionSettings = {}): boolean {
+  const minimum = client === "cimian" ? policy.minimumCimian : policy.minimumMunki
+  if (!minimum?.trim() || !comparable(client, version)) return false
+  return compareClientVersions(client, version, minimum.trim()) < 0
+}
+
+function summarize(client: ManagementClient, versions: Map<string, number>, policy: ClientVersionSettings): ClientVersionSummary {
+  const ordered = [...versions.keys()].sort((a, b) => compareClientVersions(client, b, a))
+  const newest = ordered[0]
+  const newestTime = newest ? buildTime(newest) : undefined
+  const minimum = (client === "cimian" ? policy.minimumCimian : policy.minimumMunki)?.trim() || undefined
+  const groups: ClientVersionGroup[] = []
+  let newer = -1
+  ordered.forEach((version, i) => {
+    const time = client === "cimian" ? buildTime(version) : undefined
+    // "6.6" and "6.6.0" are the same build.
+    if (i === 0 || compareClientVersions(client, ordered[i - 1], version) !== 0) newer++
+    groups.push({
+      version,
+      devices: versions.get(version)!,
+      buildsBehind: newer,
+      ...(time !== undefined && newestTime !== undefined ? { daysBehind: Math.floor((newestTime - time) / DAY_MS) } : {}),
+      belowMinimum: isBelowMinimum(client, version, policy),
+    })
+  })
+  return {
+    client,
+    newest,
+    minimum,
+    devices: groups.reduce((sum, g) => sum + g.devices, 0),
+    current: groups.filter((g) => g.buildsBehind === 0).reduce((sum, g) => sum + g.devices, 0),
+    belowMinimum: groups.filter((g) => g.belowMinimum).reduce((sum, g) => sum + g.devices, 0),
+    versions: groups,
+  }
+}
+
+/** Version distribution per client and every device's standing against the newest build and the floor. */
+export function collectClientVersions(devices: any[], policy: ClientVersionSettings = {}): ClientVersionReport {
+  const seen: { device: any; client: ManagementClient; version: string }[] = []
+  const versions: Record<ManagementClient, Map<string, number>> = { cimian: new Map(), munki: new Map() }
+  for (const device of devices) {
+    if (!device?.serialNumber || device.archived === true) continue
+    for (const { client, version } of clientVersionsOf(device)) {
+      const shown = displayVersion(client, version)
+      versions[client].set(shown, (versions[client].get(shown) ?? 0) + 1)
+      seen.push({ device, client, version: shown })
+    }
+  }
+
+  const clients = {
+    cimian: summarize("cimian", versions.cimian, policy),
+    munki: summarize("munki", versions.munki, policy),
+  }
+  const groups = new Map(MANAGEMENT_CLIENTS.flatMap((c) => clients[c].versions.map((g) => [`${c}|${g.version}`, g] as const)))
+  const rows = seen.map(({ device, client, version }): ClientVersionDevice => {
+    const group = groups.get(`${client}|${version}`)!
+    return {
+      serialNumber: device.serialNumber,
+      ...(device.deviceId ? { deviceId: device.deviceId } : {}),
+      deviceName: device.deviceName || device.modules?.inventory?.deviceName || device.serialNumber,
+      client,
+      version,
+      buildsBehind: group.buildsBehind,
+      ...(group.daysBehind !== undefined ? { daysBehind: group.daysBehind } : {}),
+      belowMinimum: group.belowMinimum,
+      platform: device.platform || device.modules?.inventory?.platform || undefined,
+      lastSeen: device.lastSeen || undefined,
+    }
+  })
+  rows.sort(
+    (a, b) =>
+      Number(b.belowMinimum) - Number(a.belowMinimum) ||
+      b.buildsBehind - a.buildsBehind ||
+      a.deviceName.localeCompare(b.deviceName)
+  )
+  return { clients, devices: rows }
+}
@@ -0,0 +1,103 @@
+import {
+  collectRollout,
+  collectRollouts,
+  historyLookupsFor,
+  parseRolloutFilters,
+  reachedAtFromHistory,
+  recordRolloutSample,
+  rolloutFiltersQuery,
+  rolloutTimeline,
+  sampleRollouts,
+  storedReachedAt,
+} from './rollout'
+
+const now = new Date('2026-10-14T12:00:00Z')
+
+const record = (serialNumber: string, installedVersion: string, extra: Record<string, unknown> = {}) => ({
+  serialNumber,
+  deviceName: serialNumber,
+  itemName: 'Chrome',
+  latestVersion: '120.0.2',
+  installedVersion,
+  currentStatus: 'Installed',
+  catalog: 'Production',
+  ...extra,
+})
+
+const fleet = [
+  record('A', '120.0.2'),
+  record('B', '121.0'),
+  record('C', '119.5', { currentStatus: 'Pending' }),
+  record('D', '119.5', { currentStatus: 'Error' }),
+  record('E', '', { currentStatus: 'Pending', catalog: 'Testing', manifest: 'Shared/Lab/B1' }),
+  { ...record('F', '2.0'), itemName: 'Firefox', latestVersion: '2.0' },
+]
+
+describe('collectRollouts', () => {
+  it('tracks the newest catalog version and counts devices by state, least complete first', () => {
+    const [chrome, firefox] = collectRollouts(fleet)
+    expect(chrome).toMatchObject({ name: 'Chrome', version: '120.0.2', counts: { updated: 2, pending: 2, error: 1, total: 5 } })
+    expect(chrome.oldVersions).toEqual([{ version: '119.5', devices: 2 }, { version: 'not installed', devices: 1 }])
+    expect(firefox.counts).toEqual({ updated: 1, pending: 0, error: 0, total: 1 })
+  })
+
+  it('narrows the target devices by catalog and manifest prefix', () => {
+    expect(collectRollouts(fleet, { catalogs: ['production'] })[0].counts.total).toBe(4)
+    expect(collectRollouts(fleet, { manifests: ['Shared/Lab'] })[0].counts).toMatchObject({ pending: 1, total: 1 })
+    expect(collectRollouts(fleet, { manifests: ['Shared/La'] })).toEqual([])
+  })
+})
+
+describe('collectRollout', () => {
+  it('dates the start from package history and flags devices stuck on old versions', () => {
+    const rollout = collectRollout(fleet, 'chrome', {}, { A: '2026-10-10T08:00:00Z', B: '2026-10-13T08:00:00Z' }, [], now)!
+    expect(rollout.startedAt).toBe('2026-10-10T08:00:00.000Z')
+    expect(rollout.devices.filter((d) => d.stuck).map((d) => d.serialNumber)).toEqual(['C', 'D', 'E'])
+
+    const timeline = rolloutTimeline(rollout, [{ date: '2026-10-12', updated: 1, pending: 3, error: 1, total: 5 }], now)
+    expect(timeline.map((p) => p.date)).toEqual(['2026-10-10', '2026-10-11', '2026-10-12', '2026-10-13', '2026-10-14'])
+    expect(timeline[0]).toEqual({ date: '2026-10-10', updated: 1, total: 5 })
+    expect(timeline[2]).toMatchObject({ pending: 3, error: 1 })
+    expect(timeline[4]).toEqual({ date: '2026-10-14', updated: 2, pending: 2, error: 1, total: 5 })
+  })
+
+  it('tracks an older version when asked and returns null for unknown packages', () => {
+    expect(collectRollout(fleet, 'Chrome', { version: '119.5' })!.counts).toMatchObject({ updated: 4, pending: 1 })
+    expect(collectRollout(fleet, 'Safari')).toBeNull()
+  })
+})
+
+describe('sampleRollouts', () => {
+  it('samples each newest version and reads update times a few devices per pass', () => {
+    const fleetSeen = fleet.map((r, i) => ({ ...r, lastSeen: `2026-10-1${i}T00:00:00Z` }))
+    const empty = { rollouts: {} }
+    expect(historyLookupsFor(empty, fleetSeen, 2).map((d) => d.serialNumber)).toEqual(['F', 'B'])
+
+    const history = { packages: [{ packageName: 'Chrome', latestVersion: '120.0.2', lastUpdateTime: '2026-10-11T00:00:00Z' }] }
+    const doc = sampleRollouts(empty, fleetSeen, { B: history, F: { packages: [] } }, now)
+    expect(doc.rollouts['chrome|120.0.2||']).toEqual([{ date: '2026-10-14', updated: 2, pending: 2, error: 1, total: 5 }])
+    // B's history says when; F's doesn't, and isn't asked again
+    expect(storedReachedAt(doc, 'Chrome', '120.0.2')).toEqual({ B: '2026-10-11T00:00:00Z' })
+    expect(historyLookupsFor(doc, fleetSeen, 5).map((d) => d.serialNumber)).toEqual(['A'])
+  })
+})
+
+describe('rollout helpers', () => {
+  it('reads the update time for the tracked version only', () => {
+    const history = { packages: [{ packageName: 'Chrome', latestVersion: '120.0.2', lastUpdateTime: '2026-10-11T00:00:00Z' }] }
+    expect(reachedAtFromHistory(history, 'chrome', '120.0.2')).toBe('2026-10-11T00:00:00Z')
+    expect(reachedAtFromHistory(history, 'chrome', '121')).toBeUndefined()
+  })
+
+  it('keeps one sample per day within the history window', () => {
+    const counts = { updated: 1, pending: 0, error: 0, total: 1 }
+    const samples = recordRolloutSample([{ date: '2026-08-01', ...counts }, { date: '2026-10-14', ...counts, updated: 0 }], counts, now)
+    expect(samples).toEqual([{ date: '2026-10-14', ...counts }])
+  })
+
+  it('round-trips filters through the query string', () => {
+    const filters = parseRolloutFilters(new URLSearchParams('version=1.2&catalogs=Production,Testing&manifests=Shared%2FLab'))
+    expect(filters).toEqual({ version: '1.2', catalogs: ['Production', 'Testing'], manifests: ['Shared/Lab'] })
+    expect(parseRolloutFilters(new URLSearchParams(rolloutFiltersQuery(filters)))).toEqual(filters)
+  })
+})
@@ -0,0 +1,378 @@
+/**
+ * Rollout tracking for managed install versions: how far the newest version
+ * of a package has got across the devices that are meant to get it (those
+ * whose catalog/manifest match), which devices are erroring on it and which
+ * are stuck on an older version. The daily samples behind the chart are
+ * recorded by a scheduled pass (sampleRollouts) and live in store.ts.
+ *
+ * Input is the flattened bulk install records (one per device and item) from
+ * fetchBulkInstallRecords. When each device reached the version comes from
+ * its package history; pending and erroring counts can't be reconstructed, so
+ * they're only charted from the days a sample was recorded.
+ */
+
+import { isErrorInstallStatus } from "../data-processing/install-status"
+import { compareSemanticVersions, standardizeInstallStatus } from "../data-processing/modules/installs"
+
+/** Devices still not on the version this long after the rollout started are stuck. */
+export const ROLLOUT_STUCK_HOURS = 72
+/** Days of samples kept and charted per rollout. */
+export const ROLLOUT_HISTORY_DAYS = 30
+
+export type RolloutState = "updated" | "pending" | "error"
+
+export interface RolloutFilters {
+  /** Version to track; defaults to the newest version the catalogs offer. */
+  version?: string
+  catalogs?: string[]
+  /** Manifest prefixes, e.g. "Assigned/Staff" matches "Assigned/Staff/IT/B1115". */
+  manifests?: string[]
+}
+
+export interface RolloutDevice {
+  serialNumber: string
+  deviceId?: string
+  deviceName: string
+  catalog?: string
+  manifest?: string
+  installedVersion?: string
+  status: string
+  state: RolloutState
+  lastSeen?: string
+  /** When the device got the tracked version, if its package history says. */
+  reachedAt?: string
+  stuck: boolean
+}
+
+export interface RolloutCounts {
+  updated: number
+  pending: number
+  error: number
+  total: number
+}
+
+/** One day's counts, as recorded when the rollout was looked at that day. */
+export interface RolloutSample extends RolloutCounts {
+  date: string
+}
+
+export interface RolloutSummary {
+  key: string
+  name: string
+  version: string
+  counts: RolloutCounts
+  /** Installed versions among devices not yet updated, most common first. */
+  oldVersions: { version: string; devices: number }[]
+}
+
+export interface Rollout extends RolloutSummary {
+  startedAt?: string
+  devices: RolloutDevice[]
+}
+
+export interface RolloutTimelinePoint {
+  date: string
+  updated: number
+  /** Unset on days no sample was recorded. */
+  pending?: number
+  error?: number
+  total: number
+}
+
+/** Stored samples per rollout, keyed by rolloutKey. */
+export interface RolloutSamplesDocument {
+  rollouts: Record<string, RolloutSample[]>
+  /**
+   * Per fleet-wide rollout key, when each updated device got the version
+   * (reachedAtFromHistory), or null when its package history doesn't say.
+   * Filled a few devices per sampling pass; see sampleRollouts.
+   */
+  reachedAt?: Record<string, Record<string, string | null>>
+}
+
+export const EMPTY_ROLLOUT_SAMPLES: RolloutSamplesDocument = { rollouts: {} }
+
+/** Package names compare case-insensitively, as the installs widgets match them. */
+export const packageKey = (name: string) => name.trim().toLowerCase()
+
+/** Samples are per package, version and target filter: a different filter is a different denominator. */
+export function rolloutKey(name: string, version: string, filters: RolloutFilters = {}): string {
+  const part = (values?: string[]) => [...(values ?? [])].map((v) => v.toLowerCase()).sort().join(",")
+  return [packageKey(name), version, part(filters.catalogs), part(filters.manifests)].join("|")
+}
+
+const recordName = (r: any): string => r?.itemName || r?.raw?.item_name || r?.raw?.name || ""
+const recordManifest = (r: any): string => r?.manifest || r?.raw?.manifest || ""
+
+/** The installed version; Munki often reports only the catalog version for installed items. */
+function installedVersionOf(r: any): string {
+  const installed = r?.installedVersion || r?.raw?.installed_version || r?.raw?.installedVersion || ""
+  if (installed) return installed
+  return standardizeInstallStatus(r?.currentStatus || "") === "Installed" ? r?.latestVersion || "" : ""
+}
+
+const list = (params: URLSearchParams, key: string) =>
+  params
+    .getAll(key)
+    .flatMap((v) => v.split(","))
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+/** Reads `version`, `catalogs` and `manifests` (see URL_STATE_CONVENTIONS.md). */
+export function parseRolloutFilters(params: URLSearchParams): RolloutFilters {
+  const version = params.get("version")?.trim()
+  return { ...(version ? { version } : {}), catalogs: list(params, "catalogs"), manifests: list(params, "manifests") }
+}
+
+/** The filters as a query string, defaults omitted. */
+export function rolloutFiltersQuery(filters: RolloutFilters): string {
+  const params = new URLSearchParams()
+  if (filters.version) params.set("version", filters.version)
+  if (filters.catalogs?.length) params.set("catalogs", filters.catalogs.join(","))
+  if (filters.manifests?.length) params.set("manifests", filters.manifests.join(","))
+  return params.toString()
+}
+
+/** Whether a device is one the rollout targets. */
+export function matchesRolloutFilters(record: any, filters: RolloutFilters = {}): boolean {
+  if (record?.archived === true) return false
+  if (filters.catalogs?.length) {
+    const catalog = String(record?.catalog || "").toLowerCase()
+    if (!filters.catalogs.some((c) => c.toLowerCase() === catalog)) return false
+  }
+  if (filters.manifests?.length) {
+    const manifest = recordManifest(record).toLowerCase()
+    if (!filters.manifests.some((m) => manifest === m.toLowerCase() || manifest.startsWith(`${m.toLowerCase()}/`))) return false
+  }
+  return true
+}
+
+/** Catalogs and manifests among the records, for the filter pickers. */
+export function rolloutFilterOptions(records: any[]): { catalogs: string[]; manifests: string[] } {
+  const unique = (values: string[]) => [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b))
+  return { catalogs: unique(records.map((r) => r?.catalog || "")), manifests: unique(records.map(recordManifest)) }
+}
+
+/** Newest version the catalogs offer for the package among these records. */
+function newestVersion(records: any[]): string {
+  return records
+    .map((r) => r?.latestVersion || "")
+    .filter(Boolean)
+    .reduce((newest: string, v: string) => (compareSemanticVersions(v, newest) > 0 ? v : newest), "")
+}
+
+function stateOf(record: any, version: string): RolloutState {
+  const installed = installedVersionOf(record)
+  if (installed && compareSemanticVersions(installed, version) >= 0) return "updated"
+  return isErrorInstallStatus(record?.currentStatus) ? "error" : "pending"
+}
+
+function countStates(states: RolloutState[]): RolloutCounts {
+  const counts: RolloutCounts = { updated: 0, pending: 0, error: 0, total: states.length }
+  for (const state of states) counts[state]++
+  return counts
+}
+
+function oldVersionsOf(records: any[], version: string): RolloutSummary["oldVersions"] {
+  const byVersion = new Map<string, number>()
+  for (const r of records) {
+    if (stateOf(r, version) === "updated") continue
+    const installed = installedVersionOf(r) || "not installed"
+    byVersion.set(installed, (byVersion.get(installed) ?? 0) + 1)
+  }
+  return [...byVersion.entries()].map(([v, devices]) => ({ version: v, devices })).sort((a, b) => b.devices - a.devices)
+}
+
+/** Every package's rollout of its newest version, least complete first. */
+export function collectRollouts(records: any[], filters: Omit<RolloutFilters, "version"> = {}): RolloutSummary[] {
+  const byPackage = new Map<string, { name: string; records: any[] }>()
+  for (const record of records) {
+    const name = recordName(record)
+    if (!name || !matchesRolloutFilters(record, filters)) continue
+    const key = packageKey(name)
+    if (!byPackage.has(key)) byPackage.set(key, { name, records: [] })
+    byPackage.get(key)!.records.push(record)
+  }
+
+  const summaries: RolloutSummary[] = []
+  for (const [key, { name, records: pkgRecords }] of byPackage) {
+    const version = newestVersion(pkgRecords)
+    if (!version) continue
+    summaries.push({
+      key,
+      name,
+      version,
+      counts: countStates(pkgRecords.map((r) => stateOf(r, version))),
+      oldVersions: oldVersionsOf(pkgRecords, version),
+    })
+  }
+  const done = (s: RolloutSummary) => s.counts.updated / s.counts.total
+  return summaries.sort((a, b) => done(a) - done(b) || b.counts.total - a.counts.total || a.name.localeCompare(b.name))
+}
+
+/**
+ * One package's rollout. `reachedAt` maps serial numbers to when the device
+ * got the version (see reachedAtFromHistory); `samples` are the stored
+ * samples, whose first day stands in for the start when nothing else says.
+ */
+export function collectRollout(
+  records: any[],
+  packageName: string,
+  filters: RolloutFilters = {},
+  reachedAt: Record<string, string> = {},
+  samples: RolloutSample[] = [],
+  now = new Date()
+): Rollout | null {
+  const key = packageKey(packageName)
+  const pkgRecords = records.filter((r) => packageKey(recordName(r)) === key && matchesRolloutFilters(r, filters))
+  const version = filters.version || newestVersion(pkgRecords)
+  if (pkgRecords.length === 0 || !version) return null
+
+  const reached = pkgRecords
+    .map((r) => Date.parse(reachedAt[r.serialNumber] ?? ""))
+    .filter((ms) => Number.isFinite(ms))
+  const startMs = Math.min(...reached, samples.length ? Date.parse(`${samples[0].date}T00:00:00Z`) : Infinity)
+  const startedAt = Number.isFinite(startMs) ? new Date(startMs).toISOString() : undefined
+  const stuckAfter = startMs + ROLLOUT_STUCK_HOURS * 3600000
+
+  const devices = pkgRecords.map((r): RolloutDevice => {
+    const state = stateOf(r, version)
+    return {
+      serialNumber: r.serialNumber,
+      deviceId: r.deviceId,
+      deviceName: r.deviceName || r.serialNumber,
+      catalog: r.catalog || undefined,
+      manifest: recordManifest(r) || undefined,
+      installedVersion: installedVersionOf(r) || undefined,
+      status: r.currentStatus || "",
+      state,
+      lastSeen: r.lastSeen || undefined,
+      reachedAt: state === "updated" ? reachedAt[r.serialNumber] : undefined,
+      stuck: state !== "updated" && Number.isFinite(startMs) && now.getTime() > stuckAfter,
+    }
+  })
+
+  return {
+    key,
+    name: recordName(pkgRecords[0]),
+    version,
+    counts: countStates(devices.map((d) => d.state)),
+    oldVersions: oldVersionsOf(pkgRecords, version),
+    startedAt,
+    devices,
+  }
+}
+
+/**
+ * When the device got `version` of the package, from its
+ * `/package-history` response, or undefined if the history is about a
+ * different version.
+ */
+export function reachedAtFromHistory(history: any, packageName: string, version: string): string | undefined {
+  const packages: any[] = Array.isArray(history?.packages) ? history.packages : []
+  const entry = packages.find(
+    (p) => packageKey(p?.packageName || "") === packageKey(packageName) || packageKey(p?.displayName || "") === packageKey(packageName)
+  )
+  if (!entry?.latestVersion || compareSemanticVersions(entry.latestVersion, version) !== 0) return undefined
+  return entry.lastUpdateTime || entry.lastInstallTime || undefined
+}
+
+/** `samples` with today's counts in place of any earlier sample from today, trimmed to the history window. */
+export function recordRolloutSample(samples: RolloutSample[], counts: RolloutCounts, now = new Date()): RolloutSample[] {
+  const date = now.toISOString().slice(0, 10)
+  const cutoff = new Date(now.getTime() - (ROLLOUT_HISTORY_DAYS - 1) * 86400000).toISOString().slice(0, 10)
+  return [...samples.filter((s) => s.date !== date && s.date >= cutoff), { date, ...counts }].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** Each package's rollout of its newest version across the whole fleet. */
+function fleetRollouts(records: any[]): Rollout[] {
+  const byPackage = new Map<string, any[]>()
+  for (const record of records) {
+    const key = packageKey(recordName(record))
+    if (!key) continue
+    if (!byPackage.has(key)) byPackage.set(key, [])
+    byPackage.get(key)!.push(record)
+  }
+  return [...byPackage.entries()].flatMap(([key, pkgRecords]) => collectRollout(pkgRecords, key) ?? [])
+}
+
+/**
+ * Devices whose package history the next sampling pass should read: those
+ * on the newest version of some package with no update time stored for it,
+ * most recently seen first, at most `limit`. One history covers every
+ * package on the device.
+ */
+export function historyLookupsFor(doc: RolloutSamplesDocument, records: any[], limit: number): { serialNumber: string; deviceId?: string; lastSeen?: string }[] {
+  const devices = new Map<string, RolloutDevice>()
+  for (const rollout of fleetRollouts(records)) {
+    const known = doc.reachedAt?.[rolloutKey(rollout.name, rollout.version)] ?? {}
+    for (const d of rollout.devices) {
+      if (d.state === "updated" && !(d.serialNumber in known) && !devices.has(d.serialNumber)) devices.set(d.serialNumber, d)
+    }
+  }
+  return [...devices.values()]
+    .sort((a, b) => (b.lastSeen ?? "").localeCompare(a.lastSeen ?? ""))
+    .slice(0, limit)
+    .map(({ serialNumber, deviceId, lastSeen }) => ({ serialNumber, deviceId, lastSeen }))
+}
+
+/**
+ * The scheduled sampling pass: today's counts for each package's fleet-wide
+ * rollout of its newest version, plus the update times read from
+ * `histories` (package-history responses by serial number). Update times of
+ * versions no longer the newest are dropped; samples age out of the window.
+ */
+export function sampleRollouts(
+  doc: RolloutSamplesDocument,
+  records: any[],
+  histories: Record<string, unknown> = {},
+  now = new Date()
+): RolloutSamplesDocument {
+  const rollouts = { ...doc.rollouts }
+  const reachedAt: Record<string, Record<string, string | null>> = {}
+  for (const rollout of fleetRollouts(records)) {
+    const key = rolloutKey(rollout.name, rollout.version)
+    rollouts[key] = recordRolloutSample(rollouts[key] ?? [], rollout.counts, now)
+    const known = { ...doc.reachedAt?.[key] }
+    for (const d of rollout.devices) {
+      if (d.state === "updated" && !(d.serialNumber in known) && d.serialNumber in histories) {
+        known[d.serialNumber] = reachedAtFromHistory(histories[d.serialNumber], rollout.name, rollout.version) ?? null
+      }
+    }
+    reachedAt[key] = known
+  }
+  return { rollouts, reachedAt }
+}
+
+/** The stored update times of a fleet-wide rollout, for collectRollout. */
+export function storedReachedAt(doc: RolloutSamplesDocument, name: string, version: string): Record<string, string> {
+  const known = doc.reachedAt?.[rolloutKey(name, version)] ?? {}
+  return Object.fromEntries(Object.entries(known).filter((entry): entry is [string, string] => typeof entry[1] === "string"))
+}
+
+/**
+ * Daily points from the rollout start (at most ROLLOUT_HISTORY_DAYS back) to
+ * today. Today is the live count and recorded samples are used as-is; other
+ * days count the devices whose package history shows they had the version by
+ * the end of that day.
+ */
+export function rolloutTimeline(rollout: Rollout, samples: RolloutSample[] = [], now = new Date()): RolloutTimelinePoint[] {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const earliest = today - (ROLLOUT_HISTORY_DAYS - 1) * 86400000
+  const start = rollout.startedAt ? Math.max(earliest, Date.parse(rollout.startedAt.slice(0, 10) + "T00:00:00Z")) : today
+  const sampleByDate = new Map(samples.map((s) => [s.date, s]))
+  const reached = rollout.devices.map((d) => (d.reachedAt ? Date.parse(d.reachedAt) : NaN))
+
+  const points: RolloutTimelinePoint[] = []
+  for (let day = start; day <= today; day += 86400000) {
+    const date = new Date(day).toISOString().slice(0, 10)
+    const sample = day === today ? { date, ...rollout.counts } : sampleByDate.get(date)
+    if (sample) {
+      points.push({ date, updated: sample.updated, pending: sample.pending, error: sample.error, total: sample.total })
+    } else {
+      const updated = reached.filter((ms) => ms < day + 86400000).length
+      points.push({ date, updated, total: rollout.counts.total })
+    }
+  }
+  return points
+}
@@ -0,0 +1,50 @@
+/**
+ * Triage state (`/api/v1/installs/triage`) and rollout samples
+ * (`/api/v1/installs/rollouts`) live in FastAPI as opaque documents, like
+ * saved views and alert state; the web tier owns their shape.
+ */
+
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { EMPTY_ROLLOUT_SAMPLES, RolloutSamplesDocument } from "./rollout"
+import { EMPTY_TRIAGE_DOCUMENT, TriageDocument } from "./triage"
+
+/** The stored triage state. A store that has never been written is empty. */
+export async function loadTriage(apiBaseUrl: string): Promise<TriageDocument> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/installs/triage`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return EMPTY_TRIAGE_DOCUMENT
+  if (!res.ok) throw new Error(`Triage store returned ${res.status}`)
+  const data = await res.json()
+  return { packages: data?.packages && typeof data.packages === "object" ? data.packages : {} }
+}
+
+export async function saveTriage(apiBaseUrl: string, doc: TriageDocument): Promise<void> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/installs/triage`, {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify(doc),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Triage store returned ${res.status}`)
+}
+
+/** Stored daily rollout samples. A store that has never been written is empty. */
+export async function loadRolloutSamples(apiBaseUrl: string): Promise<RolloutSamplesDocument> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/installs/rollouts`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return EMPTY_ROLLOUT_SAMPLES
+  if (!res.ok) throw new Error(`Rollout store returned ${res.status}`)
+  const data = await res.json()
+  return {
+    rollouts: data?.rollouts && typeof data.rollouts === "object" ? data.rollouts : {},
+    reachedAt: data?.reachedAt && typeof data.reachedAt === "object" ? data.reachedAt : {},
+  }
+}
+
+export async function saveRolloutSamples(apiBaseUrl: string, doc: RolloutSamplesDocument): Promise<void> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/installs/rollouts`, {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify(doc),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Rollout store returned ${res.status}`)
+}
@@ -0,0 +1,56 @@
+import { applyTriageUpdate, collectInstallFailures, failingAfterFix, validateTriageUpdate } from './triage'
+import { ErrorCategory } from '../data-processing/modules/installs'
+
+const now = new Date('2026-10-14T12:00:00Z')
+
+const device = (serialNumber: string, items: any[]) => ({ serialNumber, modules: { installs: { cimian: { items } } } })
+
+const failing = (lastSuccess: string | null, lastError = 'MSI exit code 1603') => ({
+  itemName: 'Chrome',
+  currentStatus: 'Error',
+  lastError,
+  recentAttempts: [
+    ...(lastSuccess ? [{ timestamp: lastSuccess, status: 'success' }] : []),
+    { timestamp: '2026-10-14T09:00:00Z', status: 'failed' },
+    { timestamp: '2026-10-14T10:00:00Z', status: 'failed' },
+  ],
+})
+
+describe('collectInstallFailures', () => {
+  it('groups failing devices per package with categories and first/last seen', () => {
+    const [chrome, ...rest] = collectInstallFailures([
+      device('A', [failing('2026-10-13T08:00:00Z')]),
+      device('B', [{ ...failing(null, 'Operation timed out'), itemName: 'chrome' }]),
+      device('C', [{ itemName: 'Chrome', currentStatus: 'Installed', recentAttempts: [{ timestamp: '2026-10-14T08:00:00Z', status: 'success' }] }]),
+    ], now)
+    expect(rest).toEqual([])
+    expect(chrome.devices.map((d) => d.serialNumber).sort()).toEqual(['A', 'B'])
+    expect(chrome.categories).toEqual({ [ErrorCategory.MSI_INSTALLER]: 1, [ErrorCategory.TIMEOUT]: 1 })
+    expect(chrome.firstSeen).toBe('2026-10-14T09:00:00.000Z')
+    expect(chrome.lastSeen).toBe('2026-10-14T10:00:00.000Z')
+    expect(chrome.timeline[chrome.timeline.length - 1]).toEqual({ date: '2026-10-14', counts: { msi_installer: 2, timeout: 2 } })
+  })
+
+  it('flags a regression when enough devices were fine within the last day', () => {
+    const fleet = (n: number, lastSuccess: string) => Array.from({ length: n }, (_, i) => device(`D${i}`, [failing(lastSuccess)]))
+    const [recent] = collectInstallFailures(fleet(5, '2026-10-14T02:00:00Z'), now)
+    expect(recent).toMatchObject({ newlyFailing: 5, regression: true })
+    const [old] = collectInstallFailures(fleet(5, '2026-10-10T02:00:00Z'), now)
+    expect(old).toMatchObject({ newlyFailing: 0, regression: false })
+  })
+})
+
+describe('triage updates', () => {
+  it('requires a catalog to mark a package fixed and keeps the earliest first-seen', () => {
+    expect(validateTriageUpdate({ status: 'fixed' })).toEqual([{ path: 'fixedInCatalog', message: 'is required when marking a package fixed' }])
+    expect(validateTriageUpdate({})).toHaveLength(1)
+
+    const first = applyTriageUpdate(undefined, 'Chrome', { status: 'investigating', note: 'Looks like 1603', firstSeen: '2026-10-10T00:00:00Z' }, 'ana@example.com', now)
+    const fixed = applyTriageUpdate(first, 'Chrome', { status: 'fixed', fixedInCatalog: 'Production', firstSeen: '2026-10-12T00:00:00Z' }, 'ana@example.com', now)
+    expect(fixed).toMatchObject({ status: 'fixed', fixedInCatalog: 'Production', fixedAt: now.toISOString(), firstSeen: '2026-10-10T00:00:00Z' })
+    expect(fixed.notes).toHaveLength(1)
+
+    const [chrome] = collectInstallFailures([device('A', [{ ...failing(null), recentAttempts: [{ timestamp: '2026-10-14T13:00:00Z', status: 'failed' }] }])], now)
+    expect(failingAfterFix(chrome, fixed)).toBe(true)
+  })
+})
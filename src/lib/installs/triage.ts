@@ -0,0 +1,289 @@
+/**
+ * Install failure triage: the installs data grouped per package (which
+ * devices fail it, with what kind of error, since when) plus the team's
+ * triage state for each package, which store.ts persists.
+ *
+ * History comes from each item's `recentAttempts`, which Cimian keeps short,
+ * so first-seen is also remembered on the triage record once someone triages
+ * the package.
+ */
+
+import { isErrorInstallStatus } from "../data-processing/install-status"
+import { categorizeError, ErrorCategory } from "../data-processing/modules/installs"
+import { errorCodeOf } from "../data-processing/install-error-codes"
+import type { InstallErrorCode } from "../settings/types"
+
+export const TRIAGE_STATUSES = ["new", "acknowledged", "investigating", "fixed"] as const
+
+export type TriageStatus = (typeof TRIAGE_STATUSES)[number]
+
+export interface TriageNote {
+  at: string
+  by: string
+  text: string
+}
+
+/** The team's state for one package, keyed by triageKey(name). */
+export interface PackageTriage {
+  package: string
+  status: TriageStatus
+  /** Catalog the fix was promoted to, and when; set with status "fixed". */
+  fixedInCatalog?: string
+  fixedAt?: string
+  notes: TriageNote[]
+  /** Earliest failure seen, kept because device attempt history rolls over. */
+  firstSeen?: string
+  updatedAt: string
+  updatedBy: string
+}
+
+export interface TriageDocument {
+  packages: Record<string, PackageTriage>
+}
+
+export const EMPTY_TRIAGE_DOCUMENT: TriageDocument = { packages: {} }
+
+export const MAX_TRIAGE_NOTE_LENGTH = 2000
+export const MAX_TRIAGE_NOTES = 100
+
+/** Devices that were fine within this window and are failing now count towards a regression. */
+export const REGRESSION_WINDOW_HOURS = 24
+export const REGRESSION_MIN_DEVICES = 5
+/** Days of error history charted per package. */
+export const TIMELINE_DAYS = 14
+
+export interface FailingDevice {
+  serialNumber: string
+  deviceName: string
+  version?: string
+  status: string
+  message: string
+  code?: string
+  category: ErrorCategory
+  /** Latest attempt, failed or not. */
+  lastAttempt?: string
+  /** Latest successful attempt, if any is still in the history. */
+  lastSuccess?: string
+  /** Earliest failure after the last success. */
+  failingSince?: string
+}
+
+export interface TimelineDay {
+  /** UTC date, YYYY-MM-DD. */
+  date: string
+  counts: Partial<Record<ErrorCategory, number>>
+}
+
+export interface PackageFailures {
+  key: string
+  name: string
+  devices: FailingDevice[]
+  categories: Partial<Record<ErrorCategory, number>>
+  firstSeen?: string
+  lastSeen?: string
+  /** Failing devices that had a successful attempt within REGRESSION_WINDOW_HOURS. */
+  newlyFailing: number
+  regression: boolean
+  timeline: TimelineDay[]
+}
+
+export const TRIAGE_STATUS_LABELS: Record<TriageStatus, string> = {
+  new: "New",
+  acknowledged: "Acknowledged",
+  investigating: "Investigating",
+  fixed: "Fixed",
+}
+
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  [ErrorCategory.ARCHITECTURE]: "Architecture",
+  [ErrorCategory.MSI_INSTALLER]: "MSI installer",
+  [ErrorCategory.EXE_INSTALLER]: "EXE installer",
+  [ErrorCategory.CHOCOLATEY]: "Chocolatey",
+  [ErrorCategory.POWERSHELL]: "PowerShell",
+  [ErrorCategory.TIMEOUT]: "Timeout",
+  [ErrorCategory.DEPENDENCY]: "Dependency",
+  [ErrorCategory.SYSTEM]: "System",
+}
+
+/** Package names compare case-insensitively, as the installs widgets match them. */
+export const triageKey = (name: string) => name.trim().toLowerCase()
+
+const OK_ATTEMPT = /success|installed|complete|updated|removed/i
+
+/** An attempt can be neither, e.g. skipped or deferred. */
+interface Attempt {
+  at: number
+  ok: boolean
+  failed: boolean
+}
+
+function attemptsOf(item: any): Attempt[] {
+  const raw = item.recentAttempts || item.recent_attempts
+  if (!Array.isArray(raw)) return []
+  return raw
+    .map((a: any) => ({ at: Date.parse(a?.timestamp), status: String(a?.status ?? "") }))
+    .filter((a) => Number.isFinite(a.at))
+    .map((a) => {
+      const failed = isErrorInstallStatus(a.status)
+      return { at: a.at, ok: !failed && OK_ATTEMPT.test(a.status), failed }
+    })
+    .sort((a, b) => a.at - b.at)
+}
+
+/** Cimian items, or Munki's when there are none (as the Installs page reads them). */
+function installItems(device: any): any[] {
+  const cimian = device?.modules?.installs?.cimian?.items
+  return Array.isArray(cimian) && cimian.length > 0 ? cimian : device?.modules?.installs?.munki?.items || []
+}
+
+const iso = (ms: number | undefined) => (ms === undefined ? undefined : new Date(ms).toISOString())
+
+function emptyTimeline(now: Date): TimelineDay[] {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  return Array.from({ length: TIMELINE_DAYS }, (_, i) => ({
+    date: new Date(today - (TIMELINE_DAYS - 1 - i) * 86400000).toISOString().slice(0, 10),
+    counts: {},
+  }))
+}
+
+/**
+ * Failing packages across the fleet, most failing devices first. Devices
+ * whose item recovered still contribute their failed attempts to the
+ * timeline. `orgCodes` is the org's installer error catalog from settings.
+ */
+export function collectInstallFailures(devices: any[], now = new Date(), orgCodes: InstallErrorCode[] = []): PackageFailures[] {
+  const packages = new Map<string, PackageFailures & { firstMs?: number; lastMs?: number }>()
+  const windowStart = now.getTime() - REGRESSION_WINDOW_HOURS * 3600000
+
+  for (const device of devices) {
+    if (device?.archived === true) continue
+    for (const item of installItems(device)) {
+      const name: string = item.itemName || item.name || item.displayName || ""
+      if (!name) continue
+      const status = item.currentStatus || item.status || ""
+      const failing = isErrorInstallStatus(status)
+      const attempts = attemptsOf(item)
+      const failed = attempts.filter((a) => a.failed)
+      if (!failing && failed.length === 0) continue
+
+      const key = triageKey(name)
+      let pkg = packages.get(key)
+      if (!pkg) {
+        pkg = { key, name, devices: [], categories: {}, newlyFailing: 0, regression: false, timeline: emptyTimeline(now) }
+        packages.set(key, pkg)
+      }
+
+      const message = String(item.lastError || "").trim() || status
+      const code = errorCodeOf(message)
+      const category = categorizeError({ message, code }, orgCodes)
+
+      for (const attempt of failed) {
+        const day = pkg.timeline.find((d) => d.date === iso(attempt.at)!.slice(0, 10))
+        if (day) day.counts[category] = (day.counts[category] ?? 0) + 1
+      }
+      if (!failing) continue
+
+      const lastSuccess = [...attempts].reverse().find((a) => a.ok)?.at
+      const failingSince = failed.find((a) => lastSuccess === undefined || a.at > lastSuccess)?.at
+      const lastAttemptRaw = Date.parse(item.lastAttemptTime || item.last_attempt_time || item.lastUpdate || "")
+      const lastAttempt = attempts.length ? attempts[attempts.length - 1].at : Number.isFinite(lastAttemptRaw) ? lastAttemptRaw : undefined
+
+      pkg.devices.push({
+        serialNumber: device.serialNumber || device.deviceId || "Unknown",
+        deviceName: device.modules?.inventory?.deviceName || device.deviceName || device.serialNumber || "Unknown",
+        ...(item.version || item.latestVersion ? { version: item.version || item.latestVersion } : {}),
+        status,
+        message,
+        ...(code ? { code } : {}),
+        category,
+        ...(lastAttempt !== undefined ? { lastAttempt: iso(lastAttempt) } : {}),
+        ...(lastSuccess !== undefined ? { lastSuccess: iso(lastSuccess) } : {}),
+        ...(failingSince !== undefined ? { failingSince: iso(failingSince) } : {}),
+      })
+      pkg.categories[category] = (pkg.categories[category] ?? 0) + 1
+      if (lastSuccess !== undefined && lastSuccess >= windowStart) pkg.newlyFailing++
+
+      const first = failingSince ?? lastAttempt
+      if (first !== undefined && (pkg.firstMs === undefined || first < pkg.firstMs)) pkg.firstMs = first
+      if (lastAttempt !== undefined && (pkg.lastMs === undefined || lastAttempt > pkg.lastMs)) pkg.lastMs = lastAttempt
+    }
+  }
+
+  return [...packages.values()]
+    .filter((p) => p.devices.length > 0)
+    .map(({ firstMs, lastMs, ...p }) => ({
+      ...p,
+      ...(firstMs !== undefined ? { firstSeen: iso(firstMs) } : {}),
+      ...(lastMs !== undefined ? { lastSeen: iso(lastMs) } : {}),
+      regression: p.newlyFailing >= REGRESSION_MIN_DEVICES,
+      devices: p.devices.sort((a, b) => (b.lastAttempt ?? "").localeCompare(a.lastAttempt ?? "")),
+    }))
+    .sort((a, b) => Number(b.regression) - Number(a.regression) || b.devices.length - a.devices.length || a.name.localeCompare(b.name))
+}
+
+/** First seen, from the live data or the triage record, whichever is earlier. */
+export function firstSeenOf(failures: PackageFailures, triage: PackageTriage | undefined): string | undefined {
+  const seen = [failures.firstSeen, triage?.firstSeen].filter((s): s is string => !!s).sort()
+  return seen[0]
+}
+
+/** A package marked fixed whose devices have failed again since. */
+export function failingAfterFix(failures: PackageFailures, triage: PackageTriage | undefined): boolean {
+  return triage?.status === "fixed" && !!triage.fixedAt && !!failures.lastSeen && failures.lastSeen > triage.fixedAt
+}
+
+export interface TriageValidationError {
+  path: string
+  message: string
+}
+
+/** Checks a PUT body: `{ status?, fixedInCatalog?, note?, firstSeen? }`. */
+export function validateTriageUpdate(body: any): TriageValidationError[] {
+  const errors: TriageValidationError[] = []
+  if (!body || typeof body !== "object") return [{ path: "", message: "must be an object" }]
+  if (body.status !== undefined && !TRIAGE_STATUSES.includes(body.status)) {
+    errors.push({ path: "status", message: `must be one of ${TRIAGE_STATUSES.join(", ")}` })
+  }
+  if (body.fixedInCatalog !== undefined && (typeof body.fixedInCatalog !== "string" || body.fixedInCatalog.length > 100)) {
+    errors.push({ path: "fixedInCatalog", message: "must be a catalog name" })
+  }
+  if (body.status === "fixed" && !(typeof body.fixedInCatalog === "string" && body.fixedInCatalog.trim())) {
+    errors.push({ path: "fixedInCatalog", message: "is required when marking a package fixed" })
+  }
+  if (body.note !== undefined && (typeof body.note !== "string" || !body.note.trim() || body.note.length > MAX_TRIAGE_NOTE_LENGTH)) {
+    errors.push({ path: "note", message: `must be 1-${MAX_TRIAGE_NOTE_LENGTH} characters` })
+  }
+  if (body.firstSeen !== undefined && (typeof body.firstSeen !== "string" || Number.isNaN(Date.parse(body.firstSeen)))) {
+    errors.push({ path: "firstSeen", message: "must be an ISO timestamp" })
+  }
+  if (body.status === undefined && body.note === undefined) {
+    errors.push({ path: "", message: "needs a status or a note" })
+  }
+  return errors
+}
+
+/** Applies a validated update; notes are appended, newest last, and capped. */
+export function applyTriageUpdate(
+  existing: PackageTriage | undefined,
+  packageName: string,
+  body: { status?: TriageStatus; fixedInCatalog?: string; note?: string; firstSeen?: string },
+  user: string,
+  now = new Date()
+): PackageTriage {
+  const at = now.toISOString()
+  const status = body.status ?? existing?.status ?? "new"
+  const firstSeen = [existing?.firstSeen, body.firstSeen].filter((s): s is string => !!s).sort()[0]
+  const notes = body.note?.trim() ? [...(existing?.notes ?? []), { at, by: user, text: body.note.trim() }] : existing?.notes ?? []
+  const fixed = status === "fixed"
+  const fixedInCatalog = fixed ? body.fixedInCatalog?.trim() || existing?.fixedInCatalog : undefined
+  const fixedAt = fixed ? (body.status === "fixed" ? at : existing?.fixedAt ?? at) : undefined
+  return {
+    package: existing?.package ?? packageName,
+    status,
+    ...(fixedInCatalog ? { fixedInCatalog, fixedAt } : {}),
+    notes: notes.slice(-MAX_TRIAGE_NOTES),
+    ...(firstSeen ? { firstSeen } : {}),
+    updatedAt: at,
+    updatedBy: user,
+  }
+}
@@ -0,0 +1,36 @@
+import { parseReportUrl, reportTitle } from './definition'
+
+describe('parseReportUrl', () => {
+  it('reads the Applications report the page URL shows', () => {
+    expect(parseReportUrl('https://reportmate.example.com/applications?type=usage&period=7&apps=Houdini,Maya&usages=Lab&platform=win')).toEqual({
+      report: {
+        kind: 'applicationsUsage',
+        days: 7,
+        apps: ['Houdini', 'Maya'],
+        usages: ['Lab'],
+        catalogs: [],
+        locations: [],
+        rooms: [],
+        fleets: [],
+        areas: [],
+        platform: 'Windows',
+      },
+    })
+    const missing = parseReportUrl('/applications?type=versions&mode=missing&apps=Nuke')
+    expect('report' in missing && missing.report.kind).toBe('applicationsMissing')
+    const drillDown = parseReportUrl('/applications/usage/Adobe%20Photoshop?catalogs=Production')
+    expect('report' in drillDown && drillDown.report).toMatchObject({ kind: 'applicationUsageByDevice', app: 'Adobe Photoshop', days: 30, catalogs: ['Production'] })
+  })
+
+  it('rejects pages that are not reports or have no report picked', () => {
+    expect(parseReportUrl('/devices')).toEqual({ error: 'must be an Applications or Installs report URL' })
+    expect(parseReportUrl('/applications')).toHaveProperty('error')
+    expect(parseReportUrl('/applications?type=versions&mode=missing')).toEqual({ error: 'a missing-applications report needs apps=' })
+    expect(parseReportUrl('/applications?type=usage&period=-1')).toEqual({ error: 'period must be a positive number of days' })
+  })
+
+  it('titles installs reports by their status filter', () => {
+    const parsed = parseReportUrl('/installs?filter=errors&installs=Chrome')
+    expect('report' in parsed && reportTitle(parsed.report)).toBe('Installs with errors, Chrome')
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Which report a page URL describes. Scheduled reports are stored as the URL
+ * the page itself shows (see URL_STATE_CONVENTIONS.md), so a schedule is set
+ * up by opening the report and copying its address; this reads the same
+ * params the pages hydrate from.
+ */
+
+export type ReportPlatform = "Windows" | "macOS"
+
+/** Inventory selections shared by the report pages. */
+export interface ReportScope {
+  usages: string[]
+  catalogs: string[]
+  locations: string[]
+  rooms: string[]
+  fleets: string[]
+  areas: string[]
+  platform?: ReportPlatform
+}
+
+export type ReportRequest =
+  | ({ kind: "applicationsUsage"; days: number; apps: string[] } & ReportScope)
+  | ({ kind: "applicationsVersions"; apps: string[]; versions: string[] } & ReportScope)
+  | ({ kind: "applicationsMissing"; apps: string[] } & ReportScope)
+  | ({ kind: "applicationUsageByDevice"; app: string; days: number } & ReportScope)
+  | ({ kind: "installs"; installs: string[]; status?: "errors" | "warnings" | "pending" } & ReportScope)
+
+/** The usage period the Applications page and drill-down default to. */
+export const DEFAULT_REPORT_DAYS = 30
+
+const list = (params: URLSearchParams, key: string): string[] => {
+  // Comma-separated per the conventions; repeated params are accepted too.
+  return params
+    .getAll(key)
+    .flatMap((v) => v.split(","))
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
+function scopeOf(params: URLSearchParams): ReportScope {
+  const platform = params.get("platform")
+  return {
+    usages: list(params, "usages"),
+    catalogs: list(params, "catalogs"),
+    locations: list(params, "locations"),
+    rooms: list(params, "rooms"),
+    fleets: list(params, "fleets"),
+    areas: list(params, "areas"),
+    ...(platform === "win" ? { platform: "Windows" as const } : platform === "mac" ? { platform: "macOS" as const } : {}),
+  }
+}
+
+function daysOf(params: URLSearchParams, key: string): number | string {
+  const raw = params.get(key)
+  if (raw === null) return DEFAULT_REPORT_DAYS
+  const n = Number(raw)
+  return Number.isInteger(n) && n > 0 ? n : `${key} must be a positive number of days`
+}
+
+/**
+ * Reads a report URL, absolute or relative. Returns an error message for
+ * pages that aren't reports or URLs without a report selected.
+ */
+export function parseReportUrl(url: string): { report: ReportRequest } | { error: string } {
+  let parsed: URL
+  try {
+    parsed = new URL(url, "http://reportmate.local")
+  } catch {
+    return { error: "is not a URL" }
+  }
+  const params = parsed.searchParams
+  const path = parsed.pathname.replace(/\/+$/, "")
+  const scope = scopeOf(params)
+
+  if (path === "/applications") {
+    const type = params.get("type")
+    const apps = list(params, "apps")
+    if (type === "usage") {
+      const days = daysOf(params, "period")
+      if (typeof days === "string") return { error: days }
+      return { report: { kind: "applicationsUsage", days, apps, ...scope } }
+    }
+    if (type === "versions") {
+      if (params.get("mode") === "missing") {
+        if (apps.length === 0) return { error: "a missing-applications report needs apps=" }
+        return { report: { kind: "applicationsMissing", apps, ...scope } }
+      }
+      return { report: { kind: "applicationsVersions", apps, versions: list(params, "versions"), ...scope } }
+    }
+    return { error: "pick a report on the Applications page first (type=usage or type=versions)" }
+  }
+
+  const drillDown = /^\/applications\/usage\/([^/]+)$/.exec(path)
+  if (drillDown) {
+    const days = daysOf(params, "days")
+    if (typeof days === "string") return { error: days }
+    return { report: { kind: "applicationUsageByDevice", app: decodeURIComponent(drillDown[1]), days, ...scope } }
+  }
+
+  if (path === "/installs") {
+    const filter = params.get("filter")
+    return {
+      report: {
+        kind: "installs",
+        installs: list(params, "installs"),
+        ...(filter === "errors" || filter === "warnings" || filter === "pending" ? { status: filter } : {}),
+        ...scope,
+      },
+    }
+  }
+
+  return { error: "must be an Applications or Installs report URL" }
+}
+
+/** Human title for a report, used in file names, mail subjects and headings. */
+export function reportTitle(report: ReportRequest): string {
+  const apps = (names: string[]) => (names.length ? names.join(", ") : "all applications")
+  switch (report.kind) {
+    case "applicationsUsage":
+      return `Application usage, ${apps(report.apps)}, last ${report.days} days`
+    case "applicationsVersions":
+      return `Application versions, ${apps(report.apps)}`
+    case "applicationsMissing":
+      return `Devices missing ${apps(report.apps)}`
+    case "applicationUsageByDevice":
+      return `${report.app} usage by device, last ${report.days} days`
+    case "installs":
+      return `Installs${report.status ? ` with ${report.status}` : ""}${report.installs.length ? `, ${report.installs.join(", ")}` : ""}`
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Report delivery over the alert channels: email carries the file as an
+ * attachment, webhook, Slack and Teams channels get a link to download it
+ * from the report history.
+ */
+
+import { DeliveryOptions, postToChannel } from "@/src/lib/alerts/channels"
+import { sendMail, smtpConfigFromEnv } from "@/src/lib/alerts/smtp"
+import type { AlertChannel } from "@/src/lib/settings/types"
+import type { RenderedReport } from "./render"
+import type { ReportDelivery, ReportRun } from "./schedule"
+
+export interface DeliveredReport {
+  run: ReportRun
+  /** Heading for messages, e.g. "Houdini licensing review". */
+  title: string
+  /** The report table's own title, which says what was selected. */
+  description: string
+  rowCount: number
+  file: RenderedReport
+}
+
+function absolute(path: string, options: DeliveryOptions): string {
+  return options.baseUrl ? new URL(path, options.baseUrl).toString() : path
+}
+
+function downloadPath(run: ReportRun): string {
+  return `/api/reports/history/${encodeURIComponent(run.id)}/file`
+}
+
+async function send(channel: AlertChannel, report: DeliveredReport, options: DeliveryOptions): Promise<void> {
+  const { run } = report
+  const download = absolute(downloadPath(run), options)
+  const page = absolute(run.url, options)
+  const summary = `${report.description} (${report.rowCount} rows)`
+
+  switch (channel.type) {
+    case "email": {
+      const smtp = options.smtp ?? smtpConfigFromEnv()
+      if (!smtp) throw new Error("SMTP is not configured (SMTP_HOST, SMTP_FROM)")
+      await sendMail(smtp, {
+        to: channel.to ?? [],
+        subject: `[ReportMate] ${report.title}`,
+        text: [summary, `Open the report: ${page}`].join("\n\n"),
+        attachments: [{ filename: run.fileName ?? `report.${report.file.extension}`, contentType: report.file.contentType, content: report.file.content }],
+      })
+      return
+    }
+    case "webhook":
+      return postToChannel(
+        channel,
+        {
+          source: "reportmate",
+          report: {
+            runId: run.id,
+            scheduleId: run.scheduleId,
+            title: report.title,
+            description: report.description,
+            slot: run.slot,
+            format: run.format,
+            fileName: run.fileName,
+            rowCount: report.rowCount,
+            download,
+            page,
+          },
+        },
+        options
+      )
+    case "slack":
+      return postToChannel(channel, { text: `*${report.title}*\n${summary}\n<${download}|Download ${run.fileName}> · <${page}|Open report>` }, options)
+    case "teams":
+      return postToChannel(
+        channel,
+        {
+          "@type": "MessageCard",
+          "@context": "https://schema.org/extensions",
+          summary: report.title,
+          title: report.title,
+          text: summary,
+          potentialAction: [
+            { "@type": "OpenUri", name: `Download ${run.format.toUpperCase()}`, targets: [{ os: "default", uri: download }] },
+            { "@type": "OpenUri", name: "Open report", targets: [{ os: "default", uri: page }] },
+          ],
+        },
+        options
+      )
+  }
+}
+
+/** Sends a finished report to one channel. Never throws; failures come back in the result. */
+export async function deliverReport(channel: AlertChannel, report: DeliveredReport, options: DeliveryOptions = {}): Promise<ReportDelivery> {
+  try {
+    await send(channel, report, options)
+    return { channelId: channel.id, ok: true }
+  } catch (err) {
+    return { channelId: channel.id, ok: false, error: err instanceof Error ? err.message : String(err) }
+  }
+}
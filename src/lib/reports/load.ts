@@ -0,0 +1,98 @@
+/**
+ * Loads a report's data by calling the API route handlers the report pages
+ * fetch from, in-process (no HTTP hop through the auth middleware), so a
+ * scheduled report is the data the page would show.
+ */
+
+import { NextRequest } from "next/server"
+import { GET as getApplications } from "@/app/api/v1/applications/route"
+import { GET as getApplicationFilters } from "@/app/api/v1/applications/filters/route"
+import { GET as getUsage } from "@/app/api/v1/applications/usage/route"
+import { GET as getUsageByDevice } from "@/app/api/v1/applications/usage/by-device/route"
+import { GET as getInstalls } from "@/app/api/v1/installs/route"
+import { ReportRequest, ReportScope, reportTitle } from "./definition"
+import {
+  installRows,
+  missingRows,
+  REPORT_COLUMNS,
+  ReportCell,
+  ReportTable,
+  usageByDeviceRows,
+  usageRows,
+  versionRows,
+} from "./tables"
+
+type Handler = (request: NextRequest) => Promise<Response>
+
+/** Calls an API route handler in-process and returns its JSON, throwing on an error status. */
+export async function callRoute(handler: Handler, path: string, params: URLSearchParams = new URLSearchParams()): Promise<any> {
+  const query = params.toString()
+  const res = await handler(new NextRequest(`http://reportmate.local${path}${query ? `?${query}` : ""}`))
+  const data = await res.json().catch(() => null)
+  if (!res.ok) throw new Error(`${path} returned ${res.status}${data?.details ? `: ${String(data.details).slice(0, 200)}` : ""}`)
+  return data
+}
+
+/** Scope params the way the Applications page sends them (comma-joined). */
+function applicationParams(scope: ReportScope, apps: string[]): URLSearchParams {
+  const params = new URLSearchParams()
+  if (apps.length) params.set("applicationNames", apps.join(","))
+  for (const key of ["usages", "catalogs", "locations", "rooms", "fleets", "areas"] as const) {
+    if (scope[key].length) params.set(key, scope[key].join(","))
+  }
+  if (scope.platform) params.set("platforms", scope.platform)
+  return params
+}
+
+async function loadRows(report: ReportRequest): Promise<ReportCell[][]> {
+  switch (report.kind) {
+    case "applicationsUsage": {
+      const params = applicationParams(report, report.apps)
+      params.set("days", String(report.days))
+      const data = await callRoute(getUsage, "/api/v1/applications/usage", params)
+      if (data?.status === "unavailable") throw new Error(data.message || "Usage tracking is not available")
+      return usageRows(data?.applications ?? [])
+    }
+    case "applicationsVersions": {
+      const params = applicationParams(report, report.apps)
+      if (!report.apps.length) params.set("limit", "5000")
+      const data = await callRoute(getApplications, "/api/v1/applications", params)
+      return versionRows(Array.isArray(data) ? data : [], report.versions)
+    }
+    case "applicationsMissing": {
+      const [items, filters] = await Promise.all([
+        callRoute(getApplications, "/api/v1/applications", new URLSearchParams({ applicationNames: report.apps.join(",") })),
+        callRoute(getApplicationFilters, "/api/v1/applications/filters"),
+      ])
+      return missingRows(filters?.devices ?? [], Array.isArray(items) ? items : [], report)
+    }
+    case "applicationUsageByDevice": {
+      const params = new URLSearchParams({ app: report.app, days: String(report.days) })
+      for (const key of ["usages", "catalogs", "locations"] as const) {
+        if (report[key].length) params.set(key, report[key].join(","))
+      }
+      const data = await callRoute(getUsageByDevice, "/api/v1/applications/usage/by-device", params)
+      return usageByDeviceRows(data?.devices ?? [])
+    }
+    case "installs": {
+      // The installs route takes repeated params, as the Installs page sends them.
+      const params = new URLSearchParams()
+      for (const [key, values] of [
+        ["installs", report.installs],
+        ["usages", report.usages],
+        ["catalogs", report.catalogs],
+        ["rooms", report.rooms],
+        ["fleets", report.fleets],
+        ["areas", report.areas],
+      ] as const) {
+        values.forEach((v) => params.append(key, v))
+      }
+      const data = await callRoute(getInstalls, "/api/v1/installs", params)
+      return installRows(Array.isArray(data) ? data : [], report)
+    }
+  }
+}
+
+export async function loadReportTable(report: ReportRequest): Promise<ReportTable> {
+  return { title: reportTitle(report), columns: REPORT_COLUMNS[report.kind], rows: await loadRows(report) }
+}
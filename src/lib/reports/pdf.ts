@@ -0,0 +1,106 @@
+/**
+ * Minimal PDF writer for report tables: landscape A4, Helvetica, the header
+ * row repeated on every page, cells cut to their column. Text outside
+ * Latin-1 prints as "?" (standard fonts only carry WinAnsi).
+ */
+
+import type { ReportCell, ReportTable } from "./tables"
+
+const PAGE_WIDTH = 842
+const PAGE_HEIGHT = 595
+const MARGIN = 36
+const FONT_SIZE = 7
+const LINE_HEIGHT = 10
+const TITLE_SIZE = 12
+/** Average Helvetica glyph width as a fraction of the font size. */
+const CHAR_WIDTH = 0.52
+const CELL_PADDING = 4
+
+const text = (cell: ReportCell) => (cell === null ? "" : String(cell))
+
+function pdfString(s: string): string {
+  // WinAnsi keeps the ellipsis at 0x85, where Latin-1 has a control character.
+  const latin1 = s.replace(/…/g, "\x85").replace(/[^\x20-\xff]/g, "?")
+  return `(${latin1.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)")})`
+}
+
+function fit(s: string, width: number, size = FONT_SIZE): string {
+  const max = Math.floor((width - CELL_PADDING) / (size * CHAR_WIDTH))
+  if (s.length <= max) return s
+  return max <= 1 ? "" : `${s.slice(0, max - 1)}…`
+}
+
+/** Column widths proportional to their content length, capped so one long column can't crowd out the rest. */
+function columnWidths(table: ReportTable): number[] {
+  const available = PAGE_WIDTH - 2 * MARGIN
+  const sample = table.rows.slice(0, 500)
+  const wanted = table.columns.map((name, c) =>
+    Math.min(40, Math.max(name.length, 4, ...sample.map((r) => text(r[c]).length)))
+  )
+  const total = wanted.reduce((a, b) => a + b, 0)
+  return wanted.map((w) => (w / total) * available)
+}
+
+function line(cells: string[], widths: number[], y: number, font: "F1" | "F2"): string {
+  let x = MARGIN
+  return cells
+    .map((cell, c) => {
+      const op = `BT /${font} ${FONT_SIZE} Tf ${x.toFixed(1)} ${y.toFixed(1)} Td ${pdfString(fit(cell, widths[c]))} Tj ET`
+      x += widths[c]
+      return op
+    })
+    .join("\n")
+}
+
+/** Renders the table; `subtitle` goes under the title (e.g. when it was generated). */
+export function renderPdf(table: ReportTable, subtitle = ""): Buffer {
+  const widths = columnWidths(table)
+  const top = PAGE_HEIGHT - MARGIN
+  const firstRowY = top - TITLE_SIZE - (subtitle ? LINE_HEIGHT + 4 : 0) - 14
+  const rowsPerPage = Math.max(1, Math.floor((firstRowY - MARGIN - LINE_HEIGHT) / LINE_HEIGHT))
+  const pages: string[][][] = []
+  for (let i = 0; i < Math.max(1, table.rows.length); i += rowsPerPage) {
+    pages.push(table.rows.slice(i, i + rowsPerPage).map((r) => r.map(text)))
+  }
+
+  const streams = pages.map((rows, p) => {
+    const ops = [
+      `BT /F2 ${TITLE_SIZE} Tf ${MARGIN} ${top - TITLE_SIZE} Td ${pdfString(fit(table.title, PAGE_WIDTH - 2 * MARGIN, TITLE_SIZE))} Tj ET`,
+    ]
+    if (subtitle) ops.push(`BT /F1 ${FONT_SIZE + 1} Tf ${MARGIN} ${top - TITLE_SIZE - LINE_HEIGHT - 4} Td ${pdfString(subtitle)} Tj ET`)
+    ops.push(line(table.columns, widths, firstRowY, "F2"))
+    ops.push(`0.6 G 0.5 w ${MARGIN} ${firstRowY - 3} m ${PAGE_WIDTH - MARGIN} ${firstRowY - 3} l S`)
+    rows.forEach((cells, i) => ops.push(line(cells, widths, firstRowY - (i + 1) * LINE_HEIGHT, "F1")))
+    if (table.rows.length === 0) ops.push(`BT /F1 ${FONT_SIZE} Tf ${MARGIN} ${firstRowY - LINE_HEIGHT} Td (No rows) Tj ET`)
+    ops.push(`BT /F1 ${FONT_SIZE} Tf ${PAGE_WIDTH - MARGIN - 60} ${MARGIN / 2} Td (Page ${p + 1} of ${pages.length}) Tj ET`)
+    return ops.join("\n")
+  })
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page.
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, p) => `${5 + 2 * p} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ]
+  streams.forEach((stream, p) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + 2 * p} 0 R >>`
+    )
+    objects.push(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`)
+  })
+
+  // Offsets are byte offsets; everything is written as latin1, one byte per char.
+  let out = "%PDF-1.4\n"
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(out.length)
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xref = out.length
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("")
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  return Buffer.from(out, "latin1")
+}
@@ -0,0 +1,42 @@
+/**
+ * A report table as a file in the schedule's format.
+ */
+
+import type { ReportFormat } from "@/src/lib/settings/types"
+import { renderPdf } from "./pdf"
+import type { ReportCell, ReportTable } from "./tables"
+import { renderXlsx } from "./xlsx"
+
+export interface RenderedReport {
+  content: Buffer
+  contentType: string
+  extension: ReportFormat
+}
+
+/** A CSV data line with every field quoted, the way the pages' Export CSV buttons write them. */
+export function csvRow(row: ReportCell[]): string {
+  return row.map((cell) => `"${String(cell ?? "").replace(/"/g, '""')}"`).join(",")
+}
+
+export function renderCsv(table: ReportTable): string {
+  return [table.columns.join(","), ...table.rows.map(csvRow)].join("\n")
+}
+
+export function renderReport(table: ReportTable, format: ReportFormat, generatedAt: Date): RenderedReport {
+  switch (format) {
+    case "csv":
+      return { content: Buffer.from(renderCsv(table), "utf8"), contentType: "text/csv; charset=utf-8", extension: "csv" }
+    case "xlsx":
+      return {
+        content: renderXlsx(table, table.title),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extension: "xlsx",
+      }
+    case "pdf":
+      return {
+        content: renderPdf(table, `Generated ${generatedAt.toISOString().replace("T", " ").slice(0, 16)} UTC · ${table.rows.length} rows`),
+        contentType: "application/pdf",
+        extension: "pdf",
+      }
+  }
+}
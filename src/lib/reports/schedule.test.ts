@@ -0,0 +1,57 @@
+import { dueSlot, lastSlots, latestSlot, nextSlot, reportFileName, ReportRun } from './schedule'
+import { renderCsv, renderReport } from './render'
+import type { ReportSchedule } from '../settings/types'
+
+const weekly: ReportSchedule = {
+  id: 'houdini',
+  name: 'Houdini licensing review',
+  url: '/applications?type=usage&apps=Houdini',
+  format: 'xlsx',
+  frequency: 'weekly',
+  channels: [],
+}
+
+// Wednesday 2026-10-14, 10:00 UTC.
+const now = new Date('2026-10-14T10:00:00Z')
+
+describe('report slots', () => {
+  it('finds the latest and next slot for each frequency', () => {
+    expect(latestSlot(weekly, now).toISOString()).toBe('2026-10-12T07:00:00.000Z')
+    expect(nextSlot(weekly, now).toISOString()).toBe('2026-10-19T07:00:00.000Z')
+    expect(latestSlot({ ...weekly, frequency: 'daily', hour: 11 }, now).toISOString()).toBe('2026-10-13T11:00:00.000Z')
+    expect(latestSlot({ ...weekly, frequency: 'monthly', dayOfMonth: 20 }, now).toISOString()).toBe('2026-09-20T07:00:00.000Z')
+    expect(nextSlot({ ...weekly, frequency: 'monthly', dayOfMonth: 20 }, now).toISOString()).toBe('2026-10-20T07:00:00.000Z')
+  })
+
+  it('is due once per slot, within the catch-up window', () => {
+    const monday = new Date('2026-10-12T07:05:00Z')
+    expect(dueSlot(weekly, undefined, monday)?.toISOString()).toBe('2026-10-12T07:00:00.000Z')
+    expect(dueSlot(weekly, '2026-10-05T07:00:00.000Z', monday)).toBeDefined()
+    expect(dueSlot(weekly, '2026-10-12T07:00:00.000Z', monday)).toBeUndefined()
+    expect(dueSlot(weekly, undefined, now)).toBeUndefined()
+    expect(dueSlot({ ...weekly, enabled: false }, undefined, monday)).toBeUndefined()
+  })
+
+  it('takes the last slot from scheduled runs only', () => {
+    const run = (scheduleId: string, slot: string, manual = false) => ({ scheduleId, slot, manual }) as ReportRun
+    const slots = lastSlots([run('a', '2026-10-12T07:00:00.000Z'), run('a', '2026-10-13T09:30:00.000Z', true), run('a', '2026-10-05T07:00:00.000Z')])
+    expect(slots.get('a')).toBe('2026-10-12T07:00:00.000Z')
+  })
+})
+
+describe('report files', () => {
+  const table = { title: 'Usage', columns: ['Application', 'Hours'], rows: [['Say "hi"', 1.5], ['Maya', null]] }
+
+  it('names files after the schedule and slot', () => {
+    expect(reportFileName(weekly, new Date('2026-10-12T07:00:00Z'), 'pdf')).toBe('houdini-licensing-review-2026-10-12.pdf')
+  })
+
+  it('renders CSV like the pages export it, and XLSX and PDF files', () => {
+    expect(renderCsv(table)).toBe('Application,Hours\n"Say ""hi""","1.5"\n"Maya",""')
+    const xlsx = renderReport(table, 'xlsx', now)
+    expect(xlsx.content.subarray(0, 4).toString('hex')).toBe('504b0304')
+    const pdf = renderReport(table, 'pdf', now).content.toString('latin1')
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf).toContain('(Say "hi") Tj')
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * When a report schedule runs. A scheduler calls the run route every few
+ * minutes; each schedule runs once per slot (its day and hour, UTC), judged
+ * against the slot of its last recorded run, so a missed call or a restart
+ * doesn't send a report twice or skip it.
+ */
+
+import type { ReportFormat, ReportSchedule } from "@/src/lib/settings/types"
+
+export const DEFAULT_REPORT_HOUR = 7
+export const DEFAULT_REPORT_DAY_OF_WEEK = 1
+export const DEFAULT_REPORT_DAY_OF_MONTH = 1
+
+/** How late a slot may still run, e.g. after the scheduler was down. Older
+ * slots are skipped rather than delivering a stale report. */
+export const CATCH_UP_HOURS = 12
+
+const HOUR = 3600000
+const DAY = 24 * HOUR
+
+export interface ReportDelivery {
+  channelId: string
+  ok: boolean
+  error?: string
+}
+
+/** One run of a schedule, kept as the downloadable report history. */
+export interface ReportRun {
+  id: string
+  scheduleId: string
+  scheduleName: string
+  url: string
+  /** The slot this run was for (ISO); manual runs use their start time. */
+  slot: string
+  manual?: boolean
+  startedAt: string
+  finishedAt: string
+  status: "succeeded" | "failed"
+  format: ReportFormat
+  /** Set when a file was produced and stored. */
+  fileName?: string
+  rowCount?: number
+  error?: string
+  deliveries: ReportDelivery[]
+}
+
+function onScheduleDay(schedule: ReportSchedule, day: Date): boolean {
+  switch (schedule.frequency) {
+    case "daily":
+      return true
+    case "weekly":
+      return day.getUTCDay() === (schedule.dayOfWeek ?? DEFAULT_REPORT_DAY_OF_WEEK)
+    case "monthly":
+      return day.getUTCDate() === (schedule.dayOfMonth ?? DEFAULT_REPORT_DAY_OF_MONTH)
+  }
+}
+
+/** The most recent slot at or before `now`. */
+export function latestSlot(schedule: ReportSchedule, now: Date): Date {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), schedule.hour ?? DEFAULT_REPORT_HOUR)
+  // A monthly slot is at most a month back; dayOfMonth is capped at 28 so every month has one.
+  for (let back = 0; back <= 31; back++) {
+    const slot = new Date(today - back * DAY)
+    if (slot <= now && onScheduleDay(schedule, slot)) return slot
+  }
+  throw new Error(`No slot found for schedule ${schedule.id}`)
+}
+
+/** The first slot after `now`, for showing when a schedule runs next. */
+export function nextSlot(schedule: ReportSchedule, now: Date): Date {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), schedule.hour ?? DEFAULT_REPORT_HOUR)
+  for (let ahead = 0; ahead <= 31; ahead++) {
+    const slot = new Date(today + ahead * DAY)
+    if (slot > now && onScheduleDay(schedule, slot)) return slot
+  }
+  throw new Error(`No slot found for schedule ${schedule.id}`)
+}
+
+/**
+ * The slot to run now, or undefined when the schedule is disabled, its latest
+ * slot already ran (`lastSlot`, from the run history) or is past catching up.
+ */
+export function dueSlot(schedule: ReportSchedule, lastSlot: string | undefined, now: Date): Date | undefined {
+  if (schedule.enabled === false) return undefined
+  const slot = latestSlot(schedule, now)
+  if (now.getTime() - slot.getTime() > CATCH_UP_HOURS * HOUR) return undefined
+  if (lastSlot && new Date(lastSlot).getTime() >= slot.getTime()) return undefined
+  return slot
+}
+
+/** The newest scheduled (not manual) slot per schedule id in a run history. */
+export function lastSlots(runs: ReportRun[]): Map<string, string> {
+  const slots = new Map<string, string>()
+  for (const run of runs) {
+    if (run.manual) continue
+    const seen = slots.get(run.scheduleId)
+    if (!seen || run.slot > seen) slots.set(run.scheduleId, run.slot)
+  }
+  return slots
+}
+
+/** e.g. "houdini-licensing-review-2026-10-19.xlsx". */
+export function reportFileName(schedule: Pick<ReportSchedule, "name">, slot: Date, format: ReportFormat): string {
+  const slug = schedule.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+  return `${slug || "report"}-${slot.toISOString().slice(0, 10)}.${format}`
+}
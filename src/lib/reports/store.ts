@@ -0,0 +1,70 @@
+/**
+ * Report history lives in FastAPI: the runs as one opaque list
+ * (`/api/v1/reports/runs`), like alert state, and each run's file as a blob
+ * under `/api/v1/reports/files/{runId}`. The web tier owns the run shape and
+ * prunes the history.
+ */
+
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import type { ReportRun } from "./schedule"
+
+/** Runs kept in the history; files of older runs are deleted. */
+export const MAX_REPORT_RUNS = 500
+
+/** The run history, newest first. A store that has never been written is empty. */
+export async function loadReportRuns(apiBaseUrl: string): Promise<ReportRun[]> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/reports/runs`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return []
+  if (!res.ok) throw new Error(`Report store returned ${res.status}`)
+  const data = await res.json()
+  return Array.isArray(data?.runs) ? data.runs : []
+}
+
+export async function saveReportFile(apiBaseUrl: string, runId: string, contentType: string, content: Buffer): Promise<void> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/reports/files/${encodeURIComponent(runId)}`, {
+    method: "PUT",
+    headers: { ...getInternalApiHeaders(), "Content-Type": contentType },
+    body: new Uint8Array(content),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Report store returned ${res.status}`)
+}
+
+/** The stored file as FastAPI returns it, or null when it's gone. */
+export async function loadReportFile(apiBaseUrl: string, runId: string): Promise<Response | null> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/reports/files/${encodeURIComponent(runId)}`, {
+    headers: getInternalApiHeaders(),
+    cache: "no-store",
+  })
+  if (res.status === 404) return null
+  if (!res.ok) throw new Error(`Report store returned ${res.status}`)
+  return res
+}
+
+/**
+ * Adds finished runs to the front of the history (reloaded here, so runs
+ * recorded since the caller loaded it are kept) and drops what falls past
+ * MAX_REPORT_RUNS, files included.
+ */
+export async function recordReportRuns(apiBaseUrl: string, added: ReportRun[]): Promise<void> {
+  const runs = [...added, ...(await loadReportRuns(apiBaseUrl))]
+  const kept = runs.slice(0, MAX_REPORT_RUNS)
+  const res = await fetch(`${apiBaseUrl}/api/v1/reports/runs`, {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify({ runs: kept }),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`Report store returned ${res.status}`)
+
+  const dropped = runs.slice(MAX_REPORT_RUNS).filter((run) => run.fileName)
+  await Promise.all(
+    dropped.map((run) =>
+      fetch(`${apiBaseUrl}/api/v1/reports/files/${encodeURIComponent(run.id)}`, {
+        method: "DELETE",
+        headers: getInternalApiHeaders(),
+        cache: "no-store",
+      }).catch((error) => console.warn(`[REPORTS] could not delete file of run ${run.id}:`, error))
+    )
+  )
+}
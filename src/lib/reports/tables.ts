@@ -0,0 +1,126 @@
+/**
+ * Report data as a table, with the columns the pages' Export CSV buttons use,
+ * so a scheduled report reads like the export someone would have downloaded.
+ * Builders take the JSON the report's API routes return.
+ */
+
+import { installStatusInBucket } from "@/src/lib/data-processing/install-status"
+import type { ReportRequest } from "./definition"
+
+export type ReportCell = string | number | null
+
+export interface ReportTable {
+  title: string
+  columns: string[]
+  rows: ReportCell[][]
+}
+
+const hours = (n: number | null | undefined) => (n == null ? null : Math.round(n * 10) / 10)
+
+const byText = (a: ReportCell, b: ReportCell) => String(a ?? "").localeCompare(String(b ?? ""))
+
+/** `/api/v1/applications/usage` applications, most used first. */
+export function usageRows(applications: any[]): ReportCell[][] {
+  return [...applications]
+    .sort((a, b) => (b.activeHours ?? b.totalHours ?? 0) - (a.activeHours ?? a.totalHours ?? 0))
+    .map((app) => [
+      app.name,
+      hours(app.activeHours),
+      hours(app.foregroundHours),
+      hours(app.totalHours),
+      app.launchCount ?? 0,
+      app.deviceCount ?? 0,
+      app.userCount ?? 0,
+      app.lastUsed || null,
+      app.isSingleUser ? "Yes" : "No",
+    ])
+}
+
+/** `/api/v1/applications` rows, narrowed to the picked versions. */
+export function versionRows(items: any[], versions: string[]): ReportCell[][] {
+  return items
+    .filter((app) => versions.length === 0 || versions.includes(app.version))
+    .map((app) => [
+      app.name,
+      app.version || null,
+      app.usage || null,
+      app.catalog || null,
+      app.department || app.area || null,
+      app.location || null,
+      app.deviceName || app.serialNumber,
+      app.serialNumber,
+    ])
+    .sort((a, b) => byText(a[0], b[0]) || byText(a[1], b[1]) || byText(a[6], b[6]))
+}
+
+/**
+ * Devices (the applications filters `devices` list) without any of the apps,
+ * within the same usage/catalog/location/room selection as the page.
+ */
+export function missingRows(devices: any[], items: any[], report: Extract<ReportRequest, { kind: "applicationsMissing" }>): ReportCell[][] {
+  const having = new Set(items.map((app) => app.serialNumber))
+  const lower = (values: string[]) => values.map((v) => v.toLowerCase())
+  const [usages, catalogs, locations] = [lower(report.usages), lower(report.catalogs), lower(report.locations)]
+  return devices
+    .filter((d) => {
+      if (having.has(d.serialNumber)) return false
+      if (usages.length && !usages.includes((d.usage || "").toLowerCase())) return false
+      if (catalogs.length && !catalogs.includes((d.catalog || "").toLowerCase())) return false
+      if (locations.length && !locations.includes((d.location || "").toLowerCase())) return false
+      const room = (d.room || d.location || "").toLowerCase()
+      if (report.rooms.length && !report.rooms.some((r) => room.includes(r.toLowerCase()))) return false
+      return true
+    })
+    .map((d) => [d.name || d.serialNumber, d.serialNumber, d.location || null, d.catalog || null, report.apps.join(", ")])
+    .sort((a, b) => byText(a[0], b[0]))
+}
+
+/** `/api/v1/applications/usage/by-device` devices, heaviest use first. */
+export function usageByDeviceRows(devices: any[]): ReportCell[][] {
+  return [...devices]
+    .sort((a, b) => (b.totalHours ?? 0) - (a.totalHours ?? 0))
+    .map((d) => [
+      d.usage || null,
+      d.catalog || null,
+      d.area || d.department || null,
+      d.location || null,
+      d.deviceName,
+      d.serialNumber,
+      d.assetTag || null,
+      d.totalHours == null ? null : Math.round(d.totalHours * 100) / 100,
+      d.launchCount ?? 0,
+      (d.users ?? []).join("; "),
+      (d.appVariants ?? []).join("; "),
+      d.firstUsed || null,
+      d.lastUsed || null,
+    ])
+}
+
+/** `/api/v1/installs` records, optionally only those in a status bucket. */
+export function installRows(records: any[], report: Extract<ReportRequest, { kind: "installs" }>): ReportCell[][] {
+  return records
+    .filter((r) => !report.platform || (report.platform === "macOS" ? r.platform === "Macintosh" : r.platform === report.platform))
+    .filter((r) => !report.status || installStatusInBucket(r.status, report.status))
+    .map((r) => [
+      r.deviceName,
+      r.serialNumber,
+      r.name,
+      r.version || null,
+      r.status || null,
+      r.usage || null,
+      r.catalog || null,
+      r.room || null,
+      r.fleet || null,
+      r.platform || null,
+      r.lastSeen || null,
+    ])
+    .sort((a, b) => byText(a[0], b[0]) || byText(a[2], b[2]))
+}
+
+export const REPORT_COLUMNS: Record<ReportRequest["kind"], string[]> = {
+  applicationsUsage: ["Application", "Active Hours", "Foreground Hours", "Process Hours", "Launches", "Devices", "Users", "Last Used", "Single User"],
+  applicationsVersions: ["Application", "Version", "Usage", "Catalog", "Area", "Location", "Device", "Serial Number"],
+  applicationsMissing: ["Device", "Serial Number", "Location", "Catalog", "Missing Application"],
+  applicationUsageByDevice: ["Usage", "Catalog", "Area", "Location", "Device", "Serial", "Asset Tag", "Hours", "Launches", "Users", "Variants", "First Used", "Last Used"],
+  installs: ["Device Name", "Serial Number", "Install", "Version", "Status", "Usage", "Catalog", "Room", "Fleet", "Platform", "Last Seen"],
+}
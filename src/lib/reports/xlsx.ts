@@ -0,0 +1,260 @@
+/**
+ * Minimal XLSX writer: one worksheet, a bold header row, numbers as numbers
+ * and everything else as inline strings. Enough for report attachments and
+ * streamed exports without pulling a spreadsheet library into the web tier.
+ */
+
+import { Readable } from "node:stream"
+import { createDeflateRaw, deflateRawSync } from "node:zlib"
+import type { ReportCell, ReportTable } from "./tables"
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/** CRC-32 of `data`, continuing from `previous` for data read in chunks. */
+function crc32(data: Buffer, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/** 1980-01-01, the earliest date a zip entry can carry. */
+const DOS_EPOCH = (1 << 5) | 1
+
+/** UTF-8 names; bit 3 (sizes in a trailing data descriptor) for streamed entries. */
+const UTF8_NAMES = 0x0800
+const DATA_DESCRIPTOR = 0x0008
+
+interface ZipEntryInfo {
+  name: Buffer
+  flags: number
+  crc: number
+  compressedSize: number
+  size: number
+  offset: number
+}
+
+function localHeader(entry: ZipEntryInfo): Buffer {
+  const local = Buffer.alloc(30)
+  local.writeUInt32LE(0x04034b50, 0)
+  local.writeUInt16LE(20, 4) // version needed
+  local.writeUInt16LE(entry.flags, 6)
+  local.writeUInt16LE(8, 8) // deflate
+  local.writeUInt16LE(0, 10) // time
+  local.writeUInt16LE(DOS_EPOCH, 12)
+  local.writeUInt32LE(entry.crc, 14)
+  local.writeUInt32LE(entry.compressedSize, 18)
+  local.writeUInt32LE(entry.size, 22)
+  local.writeUInt16LE(entry.name.length, 26)
+  local.writeUInt16LE(0, 28)
+  return Buffer.concat([local, entry.name])
+}
+
+function centralDirectory(entries: ZipEntryInfo[], offset: number): Buffer {
+  const centrals = entries.map((entry) => {
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // version made by
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(entry.flags, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(0, 12)
+    central.writeUInt16LE(DOS_EPOCH, 14)
+    central.writeUInt32LE(entry.crc, 16)
+    central.writeUInt32LE(entry.compressedSize, 20)
+    central.writeUInt32LE(entry.size, 24)
+    central.writeUInt16LE(entry.name.length, 28)
+    central.writeUInt32LE(entry.offset, 42)
+    return Buffer.concat([central, entry.name])
+  })
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([directory, end])
+}
+
+/** A zip archive of deflated entries (fixed timestamps, no extra fields). */
+export function zip(entries: { name: string; data: Buffer }[]): Buffer {
+  const parts: Buffer[] = []
+  const infos: ZipEntryInfo[] = []
+  let offset = 0
+  for (const entry of entries) {
+    const compressed = deflateRawSync(entry.data)
+    const info = {
+      name: Buffer.from(entry.name, "utf8"),
+      flags: UTF8_NAMES,
+      crc: crc32(entry.data),
+      compressedSize: compressed.length,
+      size: entry.data.length,
+      offset,
+    }
+    const local = localHeader(info)
+    parts.push(local, compressed)
+    infos.push(info)
+    offset += local.length + compressed.length
+  }
+  return Buffer.concat([...parts, centralDirectory(infos, offset)])
+}
+
+/**
+ * The same archive written as it goes: each entry's content is deflated as
+ * its chunks arrive, with sizes and CRC in a data descriptor after it, so
+ * only one chunk is held at a time.
+ */
+export async function* zipStream(
+  entries: { name: string; chunks: Iterable<Buffer> | AsyncIterable<Buffer> }[]
+): AsyncGenerator<Buffer> {
+  const infos: ZipEntryInfo[] = []
+  let offset = 0
+  for (const entry of entries) {
+    const info = { name: Buffer.from(entry.name, "utf8"), flags: UTF8_NAMES | DATA_DESCRIPTOR, crc: 0, compressedSize: 0, size: 0, offset }
+    const local = localHeader(info)
+    yield local
+
+    async function* counted() {
+      for await (const chunk of entry.chunks) {
+        info.crc = crc32(chunk, info.crc)
+        info.size += chunk.length
+        yield chunk
+      }
+    }
+    for await (const out of Readable.from(counted()).pipe(createDeflateRaw())) {
+      info.compressedSize += out.length
+      yield out as Buffer
+    }
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(0x08074b50, 0)
+    descriptor.writeUInt32LE(info.crc, 4)
+    descriptor.writeUInt32LE(info.compressedSize, 8)
+    descriptor.writeUInt32LE(info.size, 12)
+    yield descriptor
+    infos.push(info)
+    offset += local.length + info.compressedSize + descriptor.length
+  }
+  yield centralDirectory(infos, offset)
+}
+
+const escapeXml = (s: string) =>
+  s
+    // Control characters other than tab/newline aren't allowed in XML 1.0.
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+
+function columnName(index: number): string {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  return name
+}
+
+function rowXml(cells: ReportCell[], r: number, style = ""): string {
+  return `<row r="${r}">${cells
+    .map((cell, c) => {
+      const ref = `${columnName(c)}${r}`
+      if (cell === null || cell === "") return ""
+      if (typeof cell === "number" && Number.isFinite(cell)) return `<c r="${ref}"${style}><v>${cell}</v></c>`
+      return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`
+    })
+    .join("")}</row>`
+}
+
+/** Everything before the first data row: frozen bold header and column widths. */
+function sheetHead(columns: string[], widths: number[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    `<cols>${widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join("")}</cols>`,
+    "<sheetData>",
+    rowXml(columns, 1, ' s="1"'),
+  ].join("")
+}
+
+const SHEET_TAIL = "</sheetData></worksheet>"
+
+function sheetXml(table: ReportTable): string {
+  const widths = table.columns.map((name, c) =>
+    Math.min(60, Math.max(name.length, ...table.rows.slice(0, 500).map((r) => String(r[c] ?? "").length)) + 2)
+  )
+  return sheetHead(table.columns, widths) + table.rows.map((cells, i) => rowXml(cells, i + 2)).join("") + SHEET_TAIL
+}
+
+/** The workbook parts other than the sheet itself. */
+function workbookParts(sheetName: string): Record<string, string> {
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Report")
+  return {
+    "[Content_Types].xml":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      "</Types>",
+    "_rels/.rels":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>",
+    "xl/workbook.xml":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>",
+    "xl/_rels/workbook.xml.rels":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      "</Relationships>",
+    "xl/styles.xml":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      "</styleSheet>",
+  }
+}
+
+/** Renders the table as a single-sheet workbook. */
+export function renderXlsx(table: ReportTable, sheetName = "Report"): Buffer {
+  const files = { ...workbookParts(sheetName), "xl/worksheets/sheet1.xml": sheetXml(table) }
+  return zip(Object.entries(files).map(([path, content]) => ({ name: path, data: Buffer.from(content, "utf8") })))
+}
+
+/**
+ * Streams a single-sheet workbook row by row. Column widths come from the
+ * headers since the rows aren't known up front.
+ */
+export function streamXlsx(columns: string[], rows: Iterable<ReportCell[]>, sheetName = "Report"): AsyncGenerator<Buffer> {
+  const widths = columns.map((name) => Math.min(60, Math.max(12, name.length + 2)))
+  function* sheet() {
+    yield Buffer.from(sheetHead(columns, widths), "utf8")
+    let r = 2
+    for (const cells of rows) yield Buffer.from(rowXml(cells, r++), "utf8")
+    yield Buffer.from(SHEET_TAIL, "utf8")
+  }
+  return zipStream([
+    ...Object.entries(workbookParts(sheetName)).map(([path, content]) => ({ name: path, chunks: [Buffer.from(content, "utf8")] })),
+    { name: "xl/worksheets/sheet1.xml", chunks: sheet() },
+  ])
+}
@@ -0,0 +1,120 @@
+/**
+ * Builds the device context the security rules engine matches on: the mapped
+ * inventory values plus device facts (platform, OS, model, enrollment, tags, groups)
+ * read through the same module processors the device page renders from, so a
+ * rule sees exactly what the UI shows.
+ */
+
+import { extractHardware } from "@/src/lib/data-processing/modules/hardware"
+import { extractManagement } from "@/src/lib/data-processing/modules/management"
+import { extractSystem } from "@/src/lib/data-processing/modules/system"
+import { DEFAULT_INVENTORY_FIELDS } from "@/src/lib/settings/defaults"
+import { InventoryFieldMapping } from "@/src/lib/settings/types"
+import { DeviceContext, DeviceFacts, InventoryContext } from "./evaluateSecurity"
+import { getDeviceInventoryContext, normalizeInventoryValue } from "./inventoryMapping"
+
+function clean(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined
+  const s = String(value).trim()
+  return s === "" ? undefined : s
+}
+
+/** Portable platform vocabulary shared with the platform filter. */
+function platformOf(isMac: boolean, osName: string | undefined, rawPlatform: string | undefined): string | undefined {
+  if (isMac) return "macOS"
+  const probe = `${osName ?? ""} ${rawPlatform ?? ""}`.toLowerCase()
+  if (probe.includes("windows")) return "Windows"
+  if (probe.includes("mac") || probe.includes("darwin")) return "macOS"
+  if (probe.includes("linux")) return "Linux"
+  return clean(rawPlatform)
+}
+
+/** Mac reports how it enrolled in MDM (ADE / user approved); Windows reports its
+ * join state. Same vocabulary the Management tab displays. */
+function enrollmentTypeOf(modules: any, isMac: boolean): string | undefined {
+  const mdm = extractManagement(modules).mdmEnrollment
+  if (isMac) {
+    if (mdm.installedFromDep) return "Automated Device Enrollment"
+    if (mdm.userApproved) return "User Approved Enrollment"
+    if (mdm.enrolled) return "MDM Enrolled"
+    return undefined
+  }
+  const rawMdm = modules?.management?.mdm_enrollment || modules?.management?.mdmEnrollment || {}
+  const deviceState = modules?.management?.device_state || modules?.management?.deviceState || {}
+  return clean(rawMdm.enrollment_type || rawMdm.enrollmentType || deviceState.status)
+}
+
+/** The device's tags: the list the device routes attach (inventory tags plus
+ * those assigned in ReportMate), else the inventory's own. */
+export function getDeviceTags(device: any): string[] {
+  const raw = device?.tags ?? device?.modules?.inventory?.tags
+  const list = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : []
+  return list.map(clean).filter((t): t is string => t !== undefined)
+}
+
+/** Names of the ReportMate groups the device routes found the device in. */
+function groupsOf(device: any): string[] {
+  const raw = device?.groups
+  return Array.isArray(raw) ? raw.map(clean).filter((g): g is string => g !== undefined) : []
+}
+
+/** Device facts for rule matching. Accepts the raw device payload (with
+ * `modules`); missing modules simply leave their facts undefined. */
+export function getDeviceFacts(device: any): DeviceFacts {
+  const modules = device?.modules ?? {}
+  const system = extractSystem({ modules })
+  const hardware = extractHardware(modules)
+  const os = system.operatingSystem
+
+  const facts: DeviceFacts = {
+    platform: platformOf(system.isMac, os.name, device?.platform),
+    osName: clean(os.name),
+    osVersion: clean(os.displayVersion || os.version),
+    osBuild: clean(os.build),
+    osEdition: clean(os.edition),
+    model: clean(modules.hardware?.model || modules.hardware?.system?.model_name || modules.hardware?.system?.modelName),
+    architecture: clean(hardware.architecture || os.architecture),
+    enrollmentType: enrollmentTypeOf(modules, system.isMac),
+    tags: getDeviceTags(device),
+    groups: groupsOf(device),
+  }
+  for (const key of Object.keys(facts) as (keyof DeviceFacts)[]) {
+    if (facts[key] === undefined) delete facts[key]
+  }
+  return facts
+}
+
+/** Full rules-engine context for a device: mapped inventory plus device facts. */
+export function getDeviceContext(
+  device: any,
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS
+): DeviceContext {
+  return {
+    inventory: getDeviceInventoryContext(device?.modules?.inventory as Record<string, unknown>, fields),
+    device: getDeviceFacts(device),
+  }
+}
+
+/** Mapped inventory for a device row as list pages and the dashboard hold it:
+ * raw inventory under `modules.inventory` or `inventory` when present,
+ * otherwise the canonical keys (usage, catalog, ...) the row was flattened to. */
+export function getDeviceRowInventory(
+  row: any,
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS
+): InventoryContext {
+  const raw = row?.modules?.inventory ?? row?.inventory
+  const inventory = getDeviceInventoryContext(raw as Record<string, unknown>, fields)
+  for (const f of fields) {
+    const value = clean(row?.[f.key])
+    if (inventory[f.key] === undefined && value !== undefined) inventory[f.key] = normalizeInventoryValue(value, f)
+  }
+  return inventory
+}
+
+/** Rules-engine context for a device row (see getDeviceRowInventory). */
+export function getDeviceRowContext(
+  row: any,
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS
+): DeviceContext {
+  return { inventory: getDeviceRowInventory(row, fields), device: getDeviceFacts(row) }
+}
@@ -0,0 +1,176 @@
+import {
+  evaluateSecurity,
+  explainSecurity,
+  operatorMatches,
+  conditionMatches,
+  conditionSpecificity,
+  type DeviceContext,
+} from './evaluateSecurity'
+import type { SecurityConfig, SecurityRule } from '../settings/types'
+
+const inv = (inventory: DeviceContext['inventory']): DeviceContext => ({ inventory, device: {} })
+
+const config = (rules: SecurityRule[]): SecurityConfig => ({
+  defaults: { encryption: { enabledSeverity: 'ok', disabledSeverity: 'danger' } },
+  rules,
+})
+
+describe('operatorMatches', () => {
+  it('keeps the original in/eq/ne semantics', () => {
+    expect(operatorMatches({ in: ['Lab', 'Shared'] }, 'Lab')).toBe(true)
+    expect(operatorMatches({ in: ['Lab'] }, undefined)).toBe(false)
+    expect(operatorMatches({ eq: 'Lab' }, 'lab')).toBe(false)
+    expect(operatorMatches({ ne: 'Lab' }, undefined)).toBe(true)
+  })
+
+  it('treats notIn like ne: a missing value passes', () => {
+    expect(operatorMatches({ notIn: ['Vancouver'] }, 'Toronto')).toBe(true)
+    expect(operatorMatches({ notIn: ['Vancouver'] }, 'Vancouver')).toBe(false)
+    expect(operatorMatches({ notIn: ['Vancouver'] }, undefined)).toBe(true)
+  })
+
+  it('matches regex and glob case-insensitively and never throws on a bad pattern', () => {
+    expect(operatorMatches({ matches: '^(lab|shared)$' }, 'Lab')).toBe(true)
+    expect(operatorMatches({ matches: '(' }, 'Lab')).toBe(false)
+    expect(operatorMatches({ glob: 'van*' }, 'Vancouver Studio')).toBe(true)
+    expect(operatorMatches({ glob: 'R?-1.2' }, 'R7-1.2')).toBe(true)
+    expect(operatorMatches({ glob: 'R?-1.2' }, 'R7-1x2')).toBe(false)
+  })
+
+  it('compares numerically and rejects non-numeric values', () => {
+    expect(operatorMatches({ gte: 3, lt: 5 }, '4')).toBe(true)
+    expect(operatorMatches({ gt: 4 }, '4')).toBe(false)
+    expect(operatorMatches({ lte: 10 }, 'ten')).toBe(false)
+    expect(operatorMatches({ lte: 10 }, undefined)).toBe(false)
+  })
+
+  it('supports exists and missing', () => {
+    expect(operatorMatches({ exists: true }, 'x')).toBe(true)
+    expect(operatorMatches({ exists: true }, undefined)).toBe(false)
+    expect(operatorMatches({ exists: false }, undefined)).toBe(true)
+    expect(operatorMatches({ missing: true }, undefined)).toBe(true)
+    expect(operatorMatches({ missing: true }, 'x')).toBe(false)
+  })
+})
+
+describe('conditionMatches / conditionSpecificity', () => {
+  const labOrSharedNotVancouver = {
+    anyOf: [
+      { inventory: { usage: { eq: 'Lab' } } },
+      { inventory: { usage: { eq: 'Shared' } } },
+    ],
+    not: { inventory: { location: { eq: 'Vancouver' } } },
+  }
+
+  it('evaluates anyOf / not groups', () => {
+    expect(conditionMatches(labOrSharedNotVancouver, inv({ usage: 'Lab', location: 'Toronto' }))).toBe(true)
+    expect(conditionMatches(labOrSharedNotVancouver, inv({ usage: 'Shared' }))).toBe(true)
+    expect(conditionMatches(labOrSharedNotVancouver, inv({ usage: 'Lab', location: 'Vancouver' }))).toBe(false)
+    expect(conditionMatches(labOrSharedNotVancouver, inv({ usage: 'Assigned' }))).toBe(false)
+  })
+
+  it('requires every allOf branch and ignores an empty anyOf', () => {
+    const when = { allOf: [{ inventory: { usage: { eq: 'Lab' } } }, { inventory: { catalog: { eq: 'Production' } } }], anyOf: [] }
+    expect(conditionMatches(when, inv({ usage: 'Lab', catalog: 'Production' }))).toBe(true)
+    expect(conditionMatches(when, inv({ usage: 'Lab', catalog: 'Testing' }))).toBe(false)
+    expect(conditionSpecificity(when)).toBe(2)
+  })
+
+  it('ranks equivalent forms identically, independent of the device', () => {
+    expect(conditionSpecificity(labOrSharedNotVancouver)).toBe(
+      conditionSpecificity({ inventory: { usage: { in: ['Lab', 'Shared'] }, location: { ne: 'Vancouver' } } })
+    )
+    expect(conditionSpecificity({ anyOf: [{ inventory: { usage: { eq: 'Lab' }, area: { eq: 'A' } } }, { inventory: { usage: { eq: 'Shared' } } }] })).toBe(1)
+    expect(conditionSpecificity({ inventory: { usage: { in: ['Lab'], ne: 'x' } } })).toBe(1)
+  })
+})
+
+describe('evaluateSecurity', () => {
+  const base: SecurityRule = { id: 'r1', check: 'encryption', state: 'disabled', severity: 'neutral' }
+
+  it('falls back to the baseline when nothing matches', () => {
+    expect(evaluateSecurity('encryption', false, inv({ usage: 'Assigned' }), config([
+      { ...base, when: { inventory: { usage: { in: ['Lab'] } } } },
+    ]))).toBe('danger')
+    expect(evaluateSecurity('encryption', undefined, inv({}), config([]))).toBe('unknown')
+  })
+
+  it('lets the more specific grouped rule win over a broader one', () => {
+    const rules: SecurityRule[] = [
+      { ...base, id: 'lab-or-shared', severity: 'neutral', when: { inventory: { usage: { in: ['Lab', 'Shared'] } } } },
+      {
+        ...base,
+        id: 'lab-not-vancouver',
+        severity: 'warning',
+        when: { inventory: { usage: { eq: 'Lab' } }, not: { inventory: { location: { eq: 'Vancouver' } } } },
+      },
+    ]
+    expect(evaluateSecurity('encryption', false, inv({ usage: 'Lab', location: 'Toronto' }), config(rules))).toBe('warning')
+    expect(evaluateSecurity('encryption', false, inv({ usage: 'Lab', location: 'Vancouver' }), config(rules))).toBe('neutral')
+  })
+
+  it('breaks specificity ties by the later rule', () => {
+    const rules: SecurityRule[] = [
+      { ...base, id: 'a', severity: 'neutral', when: { inventory: { usage: { glob: 'L*' } } } },
+      { ...base, id: 'b', severity: 'warning', when: { inventory: { usage: { matches: '^lab$' } } } },
+    ]
+    expect(evaluateSecurity('encryption', false, inv({ usage: 'Lab' }), config(rules))).toBe('warning')
+  })
+})
+
+describe('device facts', () => {
+  const ctx = (device: DeviceContext['device'], inventory: DeviceContext['inventory'] = {}): DeviceContext => ({ inventory, device })
+
+  it('matches single-valued facts alongside inventory', () => {
+    const when = { device: { platform: { eq: 'macOS' }, model: { glob: 'VMware*' } }, inventory: { usage: { eq: 'Lab' } } }
+    expect(conditionMatches(when, ctx({ platform: 'macOS', model: 'VMware7,1' }, { usage: 'Lab' }))).toBe(true)
+    expect(conditionMatches(when, ctx({ platform: 'macOS', model: 'MacBookPro18,3' }, { usage: 'Lab' }))).toBe(false)
+    expect(conditionSpecificity(when)).toBe(3)
+  })
+
+  it('needs one tag for positive operators and every tag for negative ones', () => {
+    const tags = ['render', 'gpu']
+    expect(conditionMatches({ device: { tags: { in: ['gpu'] } } }, ctx({ tags }))).toBe(true)
+    expect(conditionMatches({ device: { tags: { eq: 'cpu' } } }, ctx({ tags }))).toBe(false)
+    expect(conditionMatches({ device: { tags: { notIn: ['gpu'] } } }, ctx({ tags }))).toBe(false)
+    expect(conditionMatches({ device: { tags: { ne: 'kiosk' } } }, ctx({ tags }))).toBe(true)
+    expect(conditionMatches({ device: { tags: { missing: true } } }, ctx({ tags: [] }))).toBe(true)
+  })
+
+  it('lets a platform rule relax a check for server editions', () => {
+    const rules: SecurityRule[] = [
+      { id: 'rdp-server', check: 'rdp', state: 'enabled', severity: 'ok', when: { device: { osEdition: { matches: 'server' } } } },
+    ]
+    const cfg: SecurityConfig = { defaults: { rdp: { enabledSeverity: 'warning', disabledSeverity: 'ok' } }, rules }
+    expect(evaluateSecurity('rdp', true, ctx({ osEdition: 'Windows Server 2022 Standard' }), cfg)).toBe('ok')
+    expect(evaluateSecurity('rdp', true, ctx({ osEdition: 'Windows 11 Enterprise' }), cfg)).toBe('warning')
+  })
+})
+
+describe('explainSecurity', () => {
+  it('records the baseline, every rule for the check and the winner', () => {
+    const rules: SecurityRule[] = [
+      { id: 'off', check: 'encryption', state: 'disabled', severity: 'ok', enabled: false },
+      { id: 'enabled-only', check: 'encryption', state: 'enabled', severity: 'ok' },
+      { id: 'other-check', check: 'firewall', severity: 'ok' },
+      { id: 'lab', check: 'encryption', state: 'disabled', severity: 'neutral', when: { inventory: { usage: { eq: 'Lab' } } } },
+      { id: 'shared', check: 'encryption', state: 'disabled', severity: 'warning', when: { inventory: { usage: { eq: 'Shared' } } } },
+    ]
+    const trace = explainSecurity('encryption', false, inv({ usage: 'Lab' }), config(rules))
+    expect(trace.severity).toBe('neutral')
+    expect(trace.baseline).toEqual({ severity: 'danger', source: 'default' })
+    expect(trace.winner).toBe('lab')
+    expect(trace.considered.map((e) => [e.ruleId, e.outcome, e.specificity])).toEqual([
+      ['off', 'disabled', undefined],
+      ['enabled-only', 'state-mismatch', undefined],
+      ['lab', 'matched', 1],
+      ['shared', 'no-match', undefined],
+    ])
+  })
+
+  it('leaves the winner unset when the baseline stands', () => {
+    const trace = explainSecurity('custom', true, inv({}), config([]))
+    expect(trace).toMatchObject({ severity: 'ok', baseline: { source: 'fallback' }, considered: [] })
+    expect(trace.winner).toBeUndefined()
+  })
+})
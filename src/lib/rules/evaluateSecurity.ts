@@ -1,14 +1,16 @@
 /**
  * Pure, side-effect-free security severity evaluator.
  *
- * Given a logical check, its enabled state, and the device's inventory context,
- * returns the severity to render. Defaults reproduce ReportMate's historical
+ * Given a logical check, its enabled state, and the device's context (inventory
+ * values plus device facts), returns the severity to render. Defaults reproduce ReportMate's historical
  * coloring; org rules override it (e.g. "shared devices with encryption off
  * shouldn't be red"). Kept pure so the identical logic ports to Swift/C#.
  */
 
 import {
+  DeviceFactKey,
   RuleCondition,
+  RuleOperator,
   SecurityConfig,
   SecurityRule,
   Severity,
@@ -17,63 +19,214 @@ import {
 /** Canonical-key -> value map for a single device (e.g. { usage: "Shared" }). */
 export type InventoryContext = Record<string, string | undefined>
 
+/** Fact-key -> value map for a single device (e.g. { platform: "macOS" }).
+ * `tags` and `groups` carry every tag and group name; the other facts are
+ * single strings. */
+export type DeviceFacts = Partial<Record<DeviceFactKey, string | string[]>>
+
+/** Everything a rule condition can match on for one device. */
+export interface DeviceContext {
+  inventory: InventoryContext
+  device: DeviceFacts
+}
+
 function stateMatches(state: SecurityRule["state"], enabled: boolean): boolean {
   if (!state || state === "any") return true
   return state === "enabled" ? enabled : !enabled
 }
 
-/** Returns the number of inventory conditions matched, or -1 if the rule's
- * `when` does not match the context at all. More matched conditions = more
- * specific rule. A rule with no `when` matches everything at specificity 0. */
-function whenSpecificity(when: RuleCondition | undefined, ctx: InventoryContext): number {
-  if (!when || !when.inventory) return 0
-  let matched = 0
-  for (const [key, op] of Object.entries(when.inventory)) {
-    if (!op) continue
-    const value = ctx[key]
-    if (op.in && (value === undefined || !op.in.includes(value))) return -1
-    if (op.eq !== undefined && value !== op.eq) return -1
-    if (op.ne !== undefined && value === op.ne) return -1
-    matched += 1
+/** Case-insensitive glob (`*` any run, `?` one character), anchored. */
+function globToRegExp(glob: string): RegExp {
+  const body = glob
+    .split("")
+    .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("")
+  return new RegExp(`^${body}$`, "i")
+}
+
+/** Regex test that treats an invalid pattern as "no match" rather than throwing,
+ * so one bad rule can't break rendering. */
+function regexMatches(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, "i").test(value)
+  } catch {
+    return false
   }
-  return matched
 }
 
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") return undefined
+  const n = Number(value)
+  return Number.isFinite(n) ? n : undefined
+}
+
+/** True when every operator present holds for `value`. */
+export function operatorMatches(op: RuleOperator, value: string | undefined): boolean {
+  const present = value !== undefined
+  if (op.exists !== undefined && op.exists !== present) return false
+  if (op.missing !== undefined && op.missing === present) return false
+  if (op.in && (value === undefined || !op.in.includes(value))) return false
+  if (op.notIn && value !== undefined && op.notIn.includes(value)) return false
+  if (op.eq !== undefined && value !== op.eq) return false
+  if (op.ne !== undefined && value === op.ne) return false
+  if (op.matches !== undefined && (value === undefined || !regexMatches(op.matches, value))) return false
+  if (op.glob !== undefined && (value === undefined || !globToRegExp(op.glob).test(value))) return false
+  if (op.gt !== undefined || op.gte !== undefined || op.lt !== undefined || op.lte !== undefined) {
+    const n = toNumber(value)
+    if (n === undefined) return false
+    if (op.gt !== undefined && !(n > op.gt)) return false
+    if (op.gte !== undefined && !(n >= op.gte)) return false
+    if (op.lt !== undefined && !(n < op.lt)) return false
+    if (op.lte !== undefined && !(n <= op.lte)) return false
+  }
+  return true
+}
+
+/** Multi-valued variant: positive operators need some value to match, `ne` /
+ * `notIn` need every value to. No values at all is treated as missing. */
+function multiOperatorMatches(op: RuleOperator, values: string[]): boolean {
+  if (values.length === 0) return operatorMatches(op, undefined)
+  const { ne, notIn, ...positive } = op
+  if ((ne !== undefined || notIn) && !values.every((v) => operatorMatches({ ne, notIn }, v))) return false
+  return values.some((v) => operatorMatches(positive, v))
+}
+
+function factMatches(op: RuleOperator, value: string | string[] | undefined): boolean {
+  return Array.isArray(value) ? multiOperatorMatches(op, value) : operatorMatches(op, value)
+}
+
+/** Whether a condition holds for the context. See RuleCondition for semantics. */
+export function conditionMatches(when: RuleCondition, ctx: DeviceContext): boolean {
+  for (const [key, op] of Object.entries(when.inventory ?? {})) {
+    if (op && !operatorMatches(op, ctx.inventory[key])) return false
+  }
+  for (const [key, op] of Object.entries(when.device ?? {})) {
+    if (op && !factMatches(op, ctx.device[key as DeviceFactKey])) return false
+  }
+  if (when.allOf && !when.allOf.every((c) => conditionMatches(c, ctx))) return false
+  if (when.anyOf && when.anyOf.length > 0 && !when.anyOf.some((c) => conditionMatches(c, ctx))) return false
+  if (when.not && conditionMatches(when.not, ctx)) return false
+  return true
+}
+
+/** Static specificity of a condition — it depends only on the rule, never on the
+ * device, so native ports rank rules identically:
+ *  - each constrained inventory or device key counts 1 (however many operators it has)
+ *  - `allOf` adds the sum of its branches
+ *  - `anyOf` adds the weakest branch (what's guaranteed whichever one matched),
+ *    so `anyOf: [usage eq Lab, usage eq Shared]` ranks the same as `usage in [Lab, Shared]`
+ *  - `not` adds the specificity of the negated condition, so `not location eq X`
+ *    ranks the same as `location ne X` */
+export function conditionSpecificity(when: RuleCondition): number {
+  let spec =
+    Object.values(when.inventory ?? {}).filter(Boolean).length +
+    Object.values(when.device ?? {}).filter(Boolean).length
+  if (when.allOf) spec += when.allOf.reduce((sum, c) => sum + conditionSpecificity(c), 0)
+  if (when.anyOf && when.anyOf.length > 0) spec += Math.min(...when.anyOf.map(conditionSpecificity))
+  if (when.not) spec += conditionSpecificity(when.not)
+  return spec
+}
+
+/** Returns the rule's specificity, or -1 if its `when` does not match the
+ * context at all. More conditions = more specific rule. A rule with no `when`
+ * matches everything at specificity 0. */
+function whenSpecificity(when: RuleCondition | undefined, ctx: DeviceContext): number {
+  if (!when) return 0
+  return conditionMatches(when, ctx) ? conditionSpecificity(when) : -1
+}
+
+/** Where the baseline came from: the org/default table, or the generic
+ * fallback for checks the table doesn't list. */
+export type BaselineSource = "default" | "fallback"
+
 function baselineSeverity(
   check: string,
   enabled: boolean,
   config: SecurityConfig
-): Severity {
+): { severity: Severity; source: BaselineSource } {
   const def = config.defaults?.[check]
-  if (def) return enabled ? def.enabledSeverity : def.disabledSeverity
+  if (def) return { severity: enabled ? def.enabledSeverity : def.disabledSeverity, source: "default" }
   // Generic fallback for unknown checks: on is fine, off is a soft warning.
-  return enabled ? "ok" : "warning"
+  return { severity: enabled ? "ok" : "warning", source: "fallback" }
 }
 
-export function evaluateSecurity(
+/** Why a rule for this check did or didn't apply. */
+export type RuleOutcome = "disabled" | "state-mismatch" | "no-match" | "matched"
+
+export interface RuleTraceEntry {
+  ruleId: string
+  /** Position in `config.rules`; later wins specificity ties. */
+  index: number
+  severity: Severity
+  outcome: RuleOutcome
+  /** Set when the rule matched. */
+  specificity?: number
+}
+
+/** The full decision behind one severity, for explain-why UIs. */
+export interface SecurityEvaluation {
+  check: string
+  enabled: boolean | undefined
+  severity: Severity
+  /** Absent when `enabled` is unknown (nothing is evaluated). */
+  baseline?: { severity: Severity; source: BaselineSource }
+  /** Every rule targeting this check, in config order. */
+  considered: RuleTraceEntry[]
+  /** Id of the rule that set the severity; absent when the baseline stands. */
+  winner?: string
+}
+
+/** evaluateSecurity with its reasoning: the baseline, each rule for the check
+ * and why it did or didn't apply, and which rule won. */
+export function explainSecurity(
   check: string,
   enabled: boolean | undefined,
-  ctx: InventoryContext,
+  ctx: DeviceContext,
   config: SecurityConfig
-): Severity {
-  if (enabled === undefined) return "unknown"
+): SecurityEvaluation {
+  if (enabled === undefined) return { check, enabled, severity: "unknown", considered: [] }
 
-  let severity = baselineSeverity(check, enabled, config)
+  const baseline = baselineSeverity(check, enabled, config)
+  let severity = baseline.severity
+  let winner: string | undefined
   let bestSpecificity = -1
+  const considered: RuleTraceEntry[] = []
 
   const rules = config.rules ?? []
-  for (const rule of rules) {
-    if (rule.enabled === false) continue
-    if (rule.check !== check) continue
-    if (!stateMatches(rule.state, enabled)) continue
+  rules.forEach((rule, index) => {
+    if (rule.check !== check) return
+    const entry: RuleTraceEntry = { ruleId: rule.id, index, severity: rule.severity, outcome: "matched" }
+    considered.push(entry)
+    if (rule.enabled === false) {
+      entry.outcome = "disabled"
+      return
+    }
+    if (!stateMatches(rule.state, enabled)) {
+      entry.outcome = "state-mismatch"
+      return
+    }
     const spec = whenSpecificity(rule.when, ctx)
-    if (spec < 0) continue
+    if (spec < 0) {
+      entry.outcome = "no-match"
+      return
+    }
+    entry.specificity = spec
     // Most-specific wins; ties broken by later-in-array (>= so later overrides).
     if (spec >= bestSpecificity) {
       bestSpecificity = spec
       severity = rule.severity
+      winner = rule.id
     }
-  }
+  })
+
+  return { check, enabled, severity, baseline, considered, winner }
+}
 
-  return severity
+export function evaluateSecurity(
+  check: string,
+  enabled: boolean | undefined,
+  ctx: DeviceContext,
+  config: SecurityConfig
+): Severity {
+  return explainSecurity(check, enabled, ctx, config).severity
 }
@@ -0,0 +1,70 @@
+import {
+  expandInventorySelection,
+  foldInventoryOptions,
+  getDeviceInventoryContext,
+  normalizeInventoryRow,
+  normalizeInventoryValue,
+  suggestAliases,
+} from './inventoryMapping'
+import type { InventoryFieldMapping } from '../settings/types'
+
+const usage: InventoryFieldMapping = {
+  key: 'usage',
+  sourceKey: 'usage',
+  label: 'Usage',
+  order: 0,
+  visible: true,
+  knownValues: ['Assigned', 'Shared', 'Lab'],
+  aliases: { Labs: 'Lab', 'Computer Lab': 'Lab' },
+}
+
+describe('normalizeInventoryValue', () => {
+  it('cleans, applies aliases case-insensitively and adopts known value casing', () => {
+    expect(normalizeInventoryValue('LAB ', usage)).toBe('Lab')
+    expect(normalizeInventoryValue('labs', usage)).toBe('Lab')
+    expect(normalizeInventoryValue('computer lab,', usage)).toBe('Lab')
+    expect(normalizeInventoryValue('Kiosk', usage)).toBe('Kiosk')
+    expect(normalizeInventoryValue(' ;', usage)).toBeUndefined()
+  })
+
+  it('feeds the rules context', () => {
+    expect(getDeviceInventoryContext({ usage: 'Labs' }, [usage])).toEqual({ usage: 'Lab' })
+  })
+})
+
+describe('normalizeInventoryRow', () => {
+  it('rewrites flat and nested inventory values and keeps unchanged rows as-is', () => {
+    const row = { usage: 'labs', modules: { inventory: { usage: 'shared' }, system: {} } }
+    const normalized = normalizeInventoryRow(row, [usage])
+    expect(normalized).toEqual({ usage: 'Lab', modules: { inventory: { usage: 'Shared' }, system: {} } })
+    expect(normalized.modules.system).toBe(row.modules.system)
+    const clean = { usage: 'Lab' }
+    expect(normalizeInventoryRow(clean, [usage])).toBe(clean)
+  })
+})
+
+describe('raw-value filters', () => {
+  const raw = ['lab', 'Labs', 'computer lab', 'assigned', 'Kiosk']
+
+  it('folds options and expands selections back to every raw spelling', () => {
+    expect(foldInventoryOptions(raw, usage)).toEqual(['Assigned', 'Kiosk', 'Lab'])
+    expect(expandInventorySelection(['Lab'], raw, usage)).toEqual(['Lab', 'lab', 'Labs', 'computer lab'])
+    expect(expandInventorySelection(['labs'], raw, usage)).toEqual(['labs', 'lab', 'Labs', 'computer lab'])
+    expect(expandInventorySelection([], raw, usage)).toEqual([])
+  })
+})
+
+describe('suggestAliases', () => {
+  it('merges variants into known values or the tidiest variant', () => {
+    const field = { knownValues: ['Lab'] }
+    expect(suggestAliases(['Lab', 'lab', 'LAB ', 'Labs', 'Studio', 'studio,', 'STUDIOS'], field)).toEqual({
+      Labs: 'Lab',
+      'studio,': 'Studio',
+      STUDIOS: 'Studio',
+    })
+  })
+
+  it('skips variants the field already normalizes', () => {
+    expect(suggestAliases(['Labs', 'Lab'], usage)).toEqual({})
+  })
+})
@@ -1,11 +1,13 @@
 /**
  * Turns raw inventory JSON into display rows using the org's field mapping, and
  * builds the canonical inventory context the security evaluator consumes.
+ * Values pass through the field's aliases on the way, so "Labs" and "lab"
+ * read as "Lab" everywhere.
  */
 
 import { DEFAULT_INVENTORY_FIELDS } from "@/src/lib/settings/defaults"
 import {
-  CanonicalInventoryKey,
+  InventoryFieldKey,
   InventoryFieldMapping,
 } from "@/src/lib/settings/types"
 import { InventoryContext } from "./evaluateSecurity"
@@ -32,8 +34,141 @@ function resolveValue(raw: Record<string, unknown>, sourceKey: string): string |
   return undefined
 }
 
+// Inventory YAMLs occasionally ship values with trailing commas/semicolons
+// (e.g. "Foundation Studio,") and stray whitespace.
+const cleanValue = (value: string) => value.replace(/[,;]+\s*$/, "").trim()
+
+/** The value a field reports for `value`: cleaned, then rewritten by the
+ * field's aliases, then given the casing of a matching known value. */
+export function normalizeInventoryValue(
+  value: string,
+  field: Pick<InventoryFieldMapping, "aliases" | "knownValues">
+): string | undefined {
+  const cleaned = cleanValue(value)
+  if (cleaned === "") return undefined
+  const folded = cleaned.toLowerCase()
+  for (const [variant, target] of Object.entries(field.aliases ?? {})) {
+    if (cleanValue(variant).toLowerCase() === folded) return target
+  }
+  return field.knownValues?.find((k) => k.toLowerCase() === folded) ?? cleaned
+}
+
+function normalizeKeys(
+  record: Record<string, unknown>,
+  fields: InventoryFieldMapping[],
+  keysOf: (f: InventoryFieldMapping) => string[]
+): Record<string, unknown> {
+  let out = record
+  for (const f of fields) {
+    for (const key of keysOf(f)) {
+      const value = record[key]
+      if (typeof value !== "string") continue
+      const normalized = normalizeInventoryValue(value, f)
+      if (normalized === value) continue
+      if (out === record) out = { ...record }
+      out[key] = normalized
+    }
+  }
+  return out
+}
+
+/**
+ * A device row with its inventory values normalized: flat canonical keys
+ * (`row.usage`) and raw inventory under `inventory` / `modules.inventory`.
+ * Returns the row itself when nothing changes, so memoized consumers keep
+ * their references.
+ */
+export function normalizeInventoryRow<T>(row: T, fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS): T {
+  if (!row || typeof row !== "object") return row
+  const source = row as Record<string, any>
+  const sourceKeys = (f: InventoryFieldMapping) => [f.sourceKey, toSnake(f.sourceKey), toCamel(f.sourceKey)]
+  let out = normalizeKeys(source, fields, (f) => [f.key])
+  if (source.inventory && typeof source.inventory === "object") {
+    const inventory = normalizeKeys(source.inventory, fields, sourceKeys)
+    if (inventory !== source.inventory) out = { ...out, inventory }
+  }
+  if (source.modules?.inventory && typeof source.modules.inventory === "object") {
+    const inventory = normalizeKeys(source.modules.inventory, fields, sourceKeys)
+    if (inventory !== source.modules.inventory) out = { ...out, modules: { ...source.modules, inventory } }
+  }
+  return out as T
+}
+
+/** Filter options for a field from its observed values: each normalized
+ * once, case-insensitively unique, sorted. */
+export function foldInventoryOptions(
+  values: string[],
+  field: Pick<InventoryFieldMapping, "aliases" | "knownValues">
+): string[] {
+  const seen = new Map<string, string>()
+  for (const value of values) {
+    const normalized = normalizeInventoryValue(value, field)
+    if (normalized !== undefined && !seen.has(normalized.toLowerCase())) seen.set(normalized.toLowerCase(), normalized)
+  }
+  return [...seen.values()].sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * The raw spellings behind a selection of normalized values: every observed
+ * value that normalizes to a selected one, plus the selections themselves.
+ * For filters that still run on raw values, such as the installs and
+ * applications APIs.
+ */
+export function expandInventorySelection(
+  selected: string[],
+  values: string[],
+  field: Pick<InventoryFieldMapping, "aliases" | "knownValues">
+): string[] {
+  if (selected.length === 0) return selected
+  const wanted = new Set(selected.map((s) => (normalizeInventoryValue(s, field) ?? s).toLowerCase()))
+  const out = [...selected]
+  for (const value of values) {
+    if (out.includes(value)) continue
+    if (wanted.has((normalizeInventoryValue(value, field) ?? "").toLowerCase())) out.push(value)
+  }
+  return out
+}
+
+/** Loose identity for spotting variants of one value: "LAB ", "lab" and
+ * "Labs" all fold to "lab". */
+function mergeKey(value: string): string {
+  const key = cleanValue(value).toLowerCase().replace(/[^a-z0-9]/g, "")
+  return key.length > 3 && key.endsWith("s") && !key.endsWith("ss") ? key.slice(0, -1) : key
+}
+
+/**
+ * Suggested aliases for observed values (e.g. discovery sample values): each
+ * group of variants is merged into a known value when one matches, otherwise
+ * into the tidiest variant (clean, capitalized, shortest). Variants the
+ * field already normalizes to that value are left out.
+ */
+export function suggestAliases(
+  values: string[],
+  field: Pick<InventoryFieldMapping, "aliases" | "knownValues">
+): Record<string, string> {
+  const groups = new Map<string, string[]>()
+  for (const value of values) {
+    const key = mergeKey(value)
+    if (key === "") continue
+    groups.set(key, [...(groups.get(key) ?? []), value])
+  }
+  const targets = [...(field.knownValues ?? []), ...Object.values(field.aliases ?? {})]
+  const tidiness = (v: string) =>
+    (v === cleanValue(v) ? 0 : 4) + (/^[A-Z]/.test(v) ? 0 : 2) + (v === v.toUpperCase() ? 1 : 0)
+  const suggestions: Record<string, string> = {}
+  for (const [key, variants] of groups) {
+    const target =
+      targets.find((t) => mergeKey(t) === key) ??
+      [...variants].sort((a, b) => tidiness(a) - tidiness(b) || a.length - b.length)[0]
+    for (const variant of variants) {
+      if (variant !== target && normalizeInventoryValue(variant, field) !== target) suggestions[variant] = target
+    }
+  }
+  return suggestions
+}
+
 export interface MappedInventoryRow {
-  key: CanonicalInventoryKey
+  key: InventoryFieldKey
   label: string
   value: string
 }
@@ -48,7 +183,8 @@ export function mapInventory(
     .filter((f) => f.visible)
     .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
     .map((f) => {
-      const value = resolveValue(raw, f.sourceKey)
+      const found = resolveValue(raw, f.sourceKey)
+      const value = found === undefined ? undefined : normalizeInventoryValue(found, f)
       return value === undefined ? null : { key: f.key, label: f.label, value }
     })
     .filter((row): row is MappedInventoryRow => row !== null)
@@ -63,7 +199,8 @@ export function getDeviceInventoryContext(
   const raw = (rawInventory ?? {}) as Record<string, unknown>
   const ctx: InventoryContext = {}
   for (const f of fields) {
-    const value = resolveValue(raw, f.sourceKey)
+    const found = resolveValue(raw, f.sourceKey)
+    const value = found === undefined ? undefined : normalizeInventoryValue(found, f)
     if (value !== undefined) ctx[f.key] = value
   }
   return ctx
@@ -0,0 +1,26 @@
+import { deviceRecordContexts, simulateSecurityRules } from './simulate'
+import type { SecurityConfig } from '../settings/types'
+
+const saved: SecurityConfig = {
+  defaults: { encryption: { enabledSeverity: 'ok', disabledSeverity: 'danger' } },
+  rules: [],
+}
+const draft: SecurityConfig = {
+  ...saved,
+  rules: [{ id: 'kiosks', check: 'encryption', state: 'disabled', severity: 'neutral', when: { device: { model: { eq: 'Mac mini' } } } }],
+}
+
+const rows = [
+  { serialNumber: 'MINI1', platform: 'macOS', encryptionEnabled: false },
+  { serialNumber: 'MINI2', platform: 'macOS', encryptionEnabled: false },
+]
+
+describe('simulateSecurityRules', () => {
+  it('matches rules on device facts from the device records', () => {
+    const contexts = deviceRecordContexts([{ serialNumber: 'MINI1', modules: { hardware: { model: 'Mac mini' } } }])
+    const result = simulateSecurityRules(rows, saved, draft, undefined, contexts)
+    expect(result.changes.map((c) => [c.serialNumber, c.from, c.to])).toEqual([['MINI1', 'danger', 'neutral']])
+    // MINI2 has no record, so the preview can only see its summary row
+    expect(result.summaryOnlyCount).toBe(1)
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Dry-run of a draft SecurityConfig against the fleet: evaluates every device
+ * twice (saved vs. draft) and reports which check severities would change.
+ * Check states come from the `/api/v1/security` summary rows; rules match on
+ * the device records' context, the one the device page evaluates.
+ */
+
+import { DEFAULT_INVENTORY_FIELDS } from "@/src/lib/settings/defaults"
+import {
+  InventoryFieldMapping,
+  SecurityCheckId,
+  SecurityConfig,
+  Severity,
+} from "@/src/lib/settings/types"
+import { getDeviceContext } from "./deviceContext"
+import { DeviceContext, DeviceFacts, evaluateSecurity } from "./evaluateSecurity"
+
+/** The subset of a `/api/v1/security` row the simulator reads. Inventory values
+ * arrive flattened onto the row under their canonical keys. */
+export interface SecurityDeviceSummary {
+  deviceId?: string
+  serialNumber: string
+  deviceName?: string
+  platform?: string
+  encryptionEnabled?: boolean
+  firewallEnabled?: boolean
+  sipEnabled?: boolean
+  rdpEnabled?: boolean
+  secureShell?: { isServiceRunning?: boolean } | null
+  tags?: string[]
+  groups?: string[]
+  [key: string]: unknown
+}
+
+export const SIMULATED_CHECKS: SecurityCheckId[] = ["encryption", "firewall", "ssh", "rdp", "sip"]
+
+export interface SeverityChange {
+  serialNumber: string
+  deviceName?: string
+  check: SecurityCheckId
+  enabled: boolean
+  from: Severity
+  to: Severity
+}
+
+export interface CheckSimulationSummary {
+  check: SecurityCheckId
+  /** Devices that report this check at all. */
+  evaluated: number
+  changed: number
+  /** "from→to" -> device count, e.g. { "danger→neutral": 12 }. */
+  transitions: Record<string, number>
+}
+
+export interface SimulationResult {
+  deviceCount: number
+  /** Devices with no `/api/v1/devices` record, matched on their summary row's
+   * facts alone; rules on other facts can't match them in the preview. */
+  summaryOnlyCount: number
+  changedDeviceCount: number
+  checks: CheckSimulationSummary[]
+  changes: SeverityChange[]
+}
+
+/** Per-check enabled state for a summary row; undefined when the platform
+ * doesn't have the check (RDP on macOS, SIP on Windows). */
+export function securityCheckStates(row: SecurityDeviceSummary): Record<string, boolean | undefined> {
+  const isWindows = (row.platform ?? "").toLowerCase().includes("windows")
+  return {
+    encryption: row.encryptionEnabled,
+    firewall: row.firewallEnabled,
+    ssh: row.secureShell ? Boolean(row.secureShell.isServiceRunning) : undefined,
+    rdp: isWindows ? row.rdpEnabled : undefined,
+    sip: isWindows ? undefined : row.sipEnabled,
+  }
+}
+
+/** Rules-engine context from a summary row. Only the facts the summary carries
+ * are populated; rules on other facts simply won't match here, so prefer the
+ * device record's context (deviceRecordContexts) where there is one. */
+export function summaryRowContext(
+  row: SecurityDeviceSummary,
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS
+): DeviceContext {
+  const inventory: DeviceContext["inventory"] = {}
+  for (const f of fields) {
+    const v = row[f.key]
+    if (v !== undefined && v !== null && String(v).trim() !== "") inventory[f.key] = String(v)
+  }
+  const device: DeviceFacts = {}
+  for (const key of ["platform", "osName", "osVersion", "osBuild", "osEdition", "model", "architecture", "enrollmentType"] as const) {
+    const v = row[key]
+    if (typeof v === "string" && v.trim() !== "") device[key] = v
+  }
+  if (Array.isArray(row.tags)) device.tags = row.tags
+  if (Array.isArray(row.groups)) device.groups = row.groups
+  return { inventory, device }
+}
+
+/** Rules-engine contexts of `/api/v1/devices` records by serial number, built
+ * exactly as the device page builds them (getDeviceContext). */
+export function deviceRecordContexts(
+  records: unknown[],
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS
+): Map<string, DeviceContext> {
+  const contexts = new Map<string, DeviceContext>()
+  for (const record of records as { serialNumber?: string }[]) {
+    if (record?.serialNumber) contexts.set(record.serialNumber, getDeviceContext(record, fields))
+  }
+  return contexts
+}
+
+export function simulateSecurityRules(
+  devices: SecurityDeviceSummary[],
+  saved: SecurityConfig,
+  draft: SecurityConfig,
+  fields: InventoryFieldMapping[] = DEFAULT_INVENTORY_FIELDS,
+  contexts: Map<string, DeviceContext> = new Map()
+): SimulationResult {
+  const summaries = new Map<string, CheckSimulationSummary>(
+    SIMULATED_CHECKS.map((check) => [check, { check, evaluated: 0, changed: 0, transitions: {} }])
+  )
+  const changes: SeverityChange[] = []
+  const changedDevices = new Set<string>()
+  let summaryOnlyCount = 0
+
+  for (const row of devices) {
+    let ctx = contexts.get(row.serialNumber)
+    if (!ctx) {
+      ctx = summaryRowContext(row, fields)
+      summaryOnlyCount += 1
+    }
+    const states = securityCheckStates(row)
+    for (const check of SIMULATED_CHECKS) {
+      const enabled = states[check]
+      if (enabled === undefined) continue
+      const summary = summaries.get(check)!
+      summary.evaluated += 1
+      const from = evaluateSecurity(check, enabled, ctx, saved)
+      const to = evaluateSecurity(check, enabled, ctx, draft)
+      if (from === to) continue
+      summary.changed += 1
+      const transition = `${from}→${to}`
+      summary.transitions[transition] = (summary.transitions[transition] ?? 0) + 1
+      changes.push({ serialNumber: row.serialNumber, deviceName: row.deviceName, check, enabled, from, to })
+      changedDevices.add(row.serialNumber)
+    }
+  }
+
+  return {
+    deviceCount: devices.length,
+    summaryOnlyCount,
+    changedDeviceCount: changedDevices.size,
+    checks: [...summaries.values()],
+    changes,
+  }
+}
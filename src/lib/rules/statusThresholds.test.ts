@@ -0,0 +1,45 @@
+import { resolveStatusThresholds } from './statusThresholds'
+import { getDeviceRowContext } from './deviceContext'
+import type { StatusSettings } from '../settings/types'
+import type { DeviceContext } from './evaluateSecurity'
+
+const ctx = (inventory: DeviceContext['inventory'], device: DeviceContext['device'] = {}): DeviceContext => ({ inventory, device })
+
+const config: StatusSettings = {
+  defaults: { activeThresholdHours: 24, staleThresholdHours: 168 },
+  rules: [
+    { id: 'laptops', when: { inventory: { usage: { eq: 'Assigned' } } }, thresholds: { activeThresholdHours: 72, staleThresholdHours: 336 } },
+    { id: 'lab', when: { inventory: { usage: { eq: 'Lab' } } }, thresholds: { activeThresholdHours: 96, staleThresholdHours: 240 } },
+    {
+      id: 'lab-mac',
+      when: { inventory: { usage: { eq: 'Lab' } }, device: { platform: { eq: 'macOS' } } },
+      thresholds: { activeThresholdHours: 120, staleThresholdHours: 240 },
+    },
+  ],
+}
+
+describe('resolveStatusThresholds', () => {
+  it('falls back to the defaults when no rule matches', () => {
+    expect(resolveStatusThresholds(ctx({ usage: 'Shared' }), config)).toEqual({ thresholds: config.defaults })
+  })
+
+  it('picks the most specific matching rule', () => {
+    expect(resolveStatusThresholds(ctx({ usage: 'Lab' }), config).ruleId).toBe('lab')
+    expect(resolveStatusThresholds(ctx({ usage: 'Lab' }, { platform: 'macOS' }), config).ruleId).toBe('lab-mac')
+  })
+
+  it('skips disabled rules', () => {
+    const off = { ...config, rules: config.rules.map((r) => ({ ...r, enabled: false })) }
+    expect(resolveStatusThresholds(ctx({ usage: 'Assigned' }), off).ruleId).toBeUndefined()
+  })
+})
+
+describe('getDeviceRowContext', () => {
+  it('reads flattened list rows as well as raw inventory', () => {
+    expect(getDeviceRowContext({ usage: 'Lab', catalog: 'Production', platform: 'macOS' })).toMatchObject({
+      inventory: { usage: 'Lab', catalog: 'Production' },
+      device: { platform: 'macOS' },
+    })
+    expect(getDeviceRowContext({ usage: 'Shared', modules: { inventory: { usage: 'Lab' } } }).inventory.usage).toBe('Lab')
+  })
+})
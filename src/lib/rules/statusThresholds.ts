@@ -0,0 +1,40 @@
+/**
+ * Picks the status thresholds (hours until a device counts as stale, then
+ * missing) for one device from the org's status settings. Same matching as the
+ * security rules: the most specific matching rule wins and later rules win
+ * ties, so the logic ports to Swift/C# unchanged.
+ */
+
+import { DEFAULT_STATUS_SETTINGS } from "@/src/lib/settings/defaults"
+import { StatusSettings, StatusThresholds } from "@/src/lib/settings/types"
+import { conditionMatches, conditionSpecificity, DeviceContext } from "./evaluateSecurity"
+
+export interface StatusThresholdResolution {
+  thresholds: StatusThresholds
+  /** Id of the rule that supplied the thresholds; absent when the defaults apply. */
+  ruleId?: string
+}
+
+/** True when any enabled rule could change a device's thresholds, i.e. when
+ * building device contexts is worth it. */
+export function hasStatusRules(config: StatusSettings | undefined): boolean {
+  return (config?.rules ?? []).some((r) => r.enabled !== false)
+}
+
+export function resolveStatusThresholds(
+  ctx: DeviceContext,
+  config: StatusSettings = DEFAULT_STATUS_SETTINGS
+): StatusThresholdResolution {
+  let resolution: StatusThresholdResolution = { thresholds: config.defaults }
+  let bestSpecificity = -1
+  for (const rule of config.rules ?? []) {
+    if (rule.enabled === false) continue
+    if (rule.when && !conditionMatches(rule.when, ctx)) continue
+    const spec = rule.when ? conditionSpecificity(rule.when) : 0
+    if (spec >= bestSpecificity) {
+      bestSpecificity = spec
+      resolution = { thresholds: rule.thresholds, ruleId: rule.id }
+    }
+  }
+  return resolution
+}
@@ -0,0 +1,65 @@
+import { applySettingsImport, createSettingsBundle, parseSettingsBundle, serializeSettingsBundle, SettingsBundleEncoding } from './bundle'
+import type { SettingsDocument } from './types'
+
+const staging: SettingsDocument = {
+  schemaVersion: 1,
+  general: { fleetName: 'Staging', onboardingCompletedAt: '2026-01-01T00:00:00Z' },
+  security: {
+    defaults: { firewall: { enabledSeverity: 'ok', disabledSeverity: 'danger' } },
+    rules: [{ id: 'lab', check: 'encryption', state: 'disabled', severity: 'neutral', when: { inventory: { usage: { eq: 'Lab' } } } }],
+  },
+}
+
+describe('settings bundles', () => {
+  it.each(['json', 'yaml'] as const)('round-trips through %s', async (encoding: SettingsBundleEncoding) => {
+    const text = serializeSettingsBundle(await createSettingsBundle(staging, { source: 'Staging' }), encoding)
+    const parsed = await parseSettingsBundle(text)
+    expect(parsed.errors).toEqual([])
+    expect(parsed.settings).toEqual(staging)
+    expect(parsed.bundle?.source).toBe('Staging')
+  })
+
+  it('rejects edited files, newer schemas and invalid documents', async () => {
+    const bundle = await createSettingsBundle(staging)
+    const edited = JSON.parse(serializeSettingsBundle(bundle, 'json'))
+    edited.settings.security.rules[0].severity = 'ok'
+    expect((await parseSettingsBundle(JSON.stringify(edited))).errors[0].path).toBe('checksum')
+
+    const newer = await createSettingsBundle({ ...staging, schemaVersion: 99 })
+    expect((await parseSettingsBundle(serializeSettingsBundle(newer, 'json'))).errors[0].path).toBe('schemaVersion')
+
+    const invalid = await createSettingsBundle({ ...staging, security: { defaults: {}, rules: [{ id: 'x', check: 'ssh', severity: 'red' as never }] } })
+    expect((await parseSettingsBundle(serializeSettingsBundle(invalid, 'yaml'))).errors).toEqual([
+      { path: 'security.rules[0].severity', message: 'must be one of ok, warning, danger, neutral, unknown' },
+    ])
+
+    expect((await parseSettingsBundle('{"schemaVersion": 1}')).errors[0].path).toBe('format')
+  })
+})
+
+describe('applySettingsImport', () => {
+  const production: SettingsDocument = {
+    schemaVersion: 1,
+    general: { fleetName: 'Production', onboardingCompletedAt: '2025-06-01T00:00:00Z' },
+    security: {
+      defaults: {},
+      rules: [
+        { id: 'lab', check: 'encryption', state: 'disabled', severity: 'warning' },
+        { id: 'prod-only', check: 'ssh', state: 'enabled', severity: 'ok' },
+      ],
+    },
+  }
+
+  it('merges rules by id and keeps local-only rules', () => {
+    const merged = applySettingsImport(production, staging, 'merge')
+    expect(merged.security?.rules.map((r) => [r.id, r.severity])).toEqual([['lab', 'neutral'], ['prod-only', 'ok']])
+    expect(merged.security?.defaults.firewall?.disabledSeverity).toBe('danger')
+    expect(merged.general).toMatchObject({ fleetName: 'Staging', onboardingCompletedAt: '2025-06-01T00:00:00Z' })
+  })
+
+  it('replaces everything but the onboarding state', () => {
+    const replaced = applySettingsImport(production, staging, 'replace')
+    expect(replaced.security?.rules.map((r) => r.id)).toEqual(['lab'])
+    expect(replaced.general?.onboardingCompletedAt).toBe('2025-06-01T00:00:00Z')
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Portable settings bundles for moving a SettingsDocument between ReportMate
+ * instances (e.g. staging -> production). A bundle wraps the document with a
+ * SHA-256 checksum of its canonical JSON, so a truncated or hand-edited file is
+ * rejected on import. It's an integrity check, not a signature: anyone can
+ * recompute it.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml"
+import { CURRENT_SCHEMA_VERSION, DEFAULT_STATUS_SETTINGS, withDefaults } from "./defaults"
+import { stableStringify } from "./diff"
+import { migrateSettings } from "./migrate"
+import { SettingsDocument } from "./types"
+import { SettingsValidationError, validateSettingsDocument } from "./validate"
+
+export const SETTINGS_BUNDLE_FORMAT = "reportmate-settings"
+
+export type SettingsBundleEncoding = "json" | "yaml"
+
+export interface SettingsBundle {
+  format: typeof SETTINGS_BUNDLE_FORMAT
+  exportedAt: string
+  /** Free-form origin label, e.g. the fleet name of the exporting instance. */
+  source?: string | null
+  schemaVersion: number
+  /** `sha256:<hex>` of the canonical JSON of `settings`. */
+  checksum: string
+  settings: SettingsDocument
+}
+
+export interface ParsedSettingsBundle {
+  bundle?: SettingsBundle
+  /** The bundled document migrated to the current schema; set only when
+   * `errors` is empty. */
+  settings?: SettingsDocument
+  errors: SettingsValidationError[]
+}
+
+export type SettingsImportMode = "merge" | "replace"
+
+async function checksumOf(settings: SettingsDocument): Promise<string> {
+  const bytes = new TextEncoder().encode(stableStringify(settings))
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+  return `sha256:${hex}`
+}
+
+export async function createSettingsBundle(
+  settings: SettingsDocument,
+  meta: { source?: string | null } = {}
+): Promise<SettingsBundle> {
+  return {
+    format: SETTINGS_BUNDLE_FORMAT,
+    exportedAt: new Date().toISOString(),
+    source: meta.source ?? null,
+    schemaVersion: settings.schemaVersion,
+    checksum: await checksumOf(settings),
+    settings,
+  }
+}
+
+export function serializeSettingsBundle(bundle: SettingsBundle, encoding: SettingsBundleEncoding): string {
+  return encoding === "yaml" ? stringifyYaml(bundle) : `${JSON.stringify(bundle, null, 2)}\n`
+}
+
+/** Parses a JSON or YAML bundle and checks its format, checksum, schema
+ * version and document structure before migrating it. */
+export async function parseSettingsBundle(text: string): Promise<ParsedSettingsBundle> {
+  let raw: unknown
+  try {
+    raw = text.trimStart().startsWith("{") ? JSON.parse(text) : parseYaml(text)
+  } catch (err) {
+    return { errors: [{ path: "", message: `Not valid JSON or YAML: ${err instanceof Error ? err.message : String(err)}` }] }
+  }
+
+  const candidate = raw as Partial<SettingsBundle> | null
+  if (!candidate || typeof candidate !== "object" || candidate.format !== SETTINGS_BUNDLE_FORMAT) {
+    return { errors: [{ path: "format", message: "Not a ReportMate settings export" }] }
+  }
+
+  const errors = validateSettingsDocument(candidate.settings)
+  if (errors.length) return { errors }
+  const bundle = candidate as SettingsBundle
+
+  if (bundle.settings.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return {
+      bundle,
+      errors: [{
+        path: "schemaVersion",
+        message: `Exported by a newer ReportMate (schema v${bundle.settings.schemaVersion}); this instance understands up to v${CURRENT_SCHEMA_VERSION}`,
+      }],
+    }
+  }
+  if (typeof bundle.checksum !== "string" || bundle.checksum !== (await checksumOf(bundle.settings))) {
+    return { bundle, errors: [{ path: "checksum", message: "Checksum mismatch: the file was modified or is incomplete" }] }
+  }
+
+  return { bundle, settings: migrateSettings(bundle.settings), errors: [] }
+}
+
+function mergeByKey<T>(current: T[], incoming: T[], keyOf: (item: T) => string): T[] {
+  const replacements = new Map(incoming.map((item) => [keyOf(item), item]))
+  const merged = current.map((item) => replacements.get(keyOf(item)) ?? item)
+  const existing = new Set(current.map(keyOf))
+  return [...merged, ...incoming.filter((item) => !existing.has(keyOf(item)))]
+}
+
+/**
+ * Applies `incoming` on top of `current`. Replace takes the incoming document
+ * as-is. Merge keeps everything not in the import: general settings, security
+ * defaults and status thresholds merge per key, inventory fields per canonical
+ * key, and rules and alert channels per id (a matching entry is replaced in
+ * place; new ones are appended).
+ * Either way this instance's onboarding state is kept.
+ */
+export function applySettingsImport(
+  current: SettingsDocument,
+  incoming: SettingsDocument,
+  mode: SettingsImportMode
+): SettingsDocument {
+  const onboardingCompletedAt =
+    current.general?.onboardingCompletedAt ?? incoming.general?.onboardingCompletedAt ?? null
+  if (mode === "replace") {
+    return {
+      ...incoming,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      general: { ...incoming.general, onboardingCompletedAt },
+    }
+  }
+
+  const base = withDefaults(current)
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    general: { ...base.general, ...(incoming.general ?? {}), onboardingCompletedAt },
+    inventory: {
+      fields: mergeByKey(base.inventory?.fields ?? [], incoming.inventory?.fields ?? [], (f) => f.key),
+    },
+    security: {
+      defaults: { ...base.security?.defaults, ...(incoming.security?.defaults ?? {}) },
+      rules: mergeByKey(base.security?.rules ?? [], incoming.security?.rules ?? [], (r) => r.id),
+    },
+    status: {
+      defaults: { ...DEFAULT_STATUS_SETTINGS.defaults, ...base.status?.defaults, ...(incoming.status?.defaults ?? {}) },
+      rules: mergeByKey(base.status?.rules ?? [], incoming.status?.rules ?? [], (r) => r.id),
+    },
+    alerts: {
+      rules: mergeByKey(base.alerts?.rules ?? [], incoming.alerts?.rules ?? [], (r) => r.id),
+      channels: mergeByKey(base.alerts?.channels ?? [], incoming.alerts?.channels ?? [], (c) => c.id),
+    },
+    reports: {
+      schedules: mergeByKey(base.reports?.schedules ?? [], incoming.reports?.schedules ?? [], (s) => s.id),
+    },
+    installErrors: {
+      codes: mergeByKey(base.installErrors?.codes ?? [], incoming.installErrors?.codes ?? [], (c) => c.id),
+    },
+    clientVersions: { ...base.clientVersions, ...(incoming.clientVersions ?? {}) },
+    drift: {
+      baselines: mergeByKey(base.drift?.baselines ?? [], incoming.drift?.baselines ?? [], (b) => b.id),
+    },
+  }
+}
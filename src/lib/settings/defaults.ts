@@ -5,9 +5,15 @@
  */
 
 import {
+  AlertSettings,
+  ClientVersionSettings,
+  DriftSettings,
+  InstallErrorSettings,
   InventoryFieldMapping,
+  ReportSettings,
   SecurityConfig,
   SettingsDocument,
+  StatusSettings,
 } from "./types"
 
 export const CURRENT_SCHEMA_VERSION = 1
@@ -42,11 +48,48 @@ export const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
   rules: [],
 }
 
+/** The thresholds calculateDeviceStatus has always used: active within 24
+ * hours, stale within 7 days, missing after that. */
+export const DEFAULT_STATUS_SETTINGS: StatusSettings = {
+  defaults: { activeThresholdHours: 24, staleThresholdHours: 168 },
+  rules: [],
+}
+
+/** No alert rules or channels until an org defines them. */
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  rules: [],
+  channels: [],
+}
+
+/** No scheduled reports until an org defines them. */
+export const DEFAULT_REPORT_SETTINGS: ReportSettings = {
+  schedules: [],
+}
+
+/** Only the built-in installer error catalog until an org adds entries. */
+export const DEFAULT_INSTALL_ERROR_SETTINGS: InstallErrorSettings = {
+  codes: [],
+}
+
+/** No minimum client version until an org sets one. */
+export const DEFAULT_CLIENT_VERSION_SETTINGS: ClientVersionSettings = {}
+
+/** No baselines until an org marks one; devices report no drift. */
+export const DEFAULT_DRIFT_SETTINGS: DriftSettings = {
+  baselines: [],
+}
+
 export const DEFAULT_SETTINGS: SettingsDocument = {
   schemaVersion: CURRENT_SCHEMA_VERSION,
   general: { onboardingCompletedAt: null },
   inventory: { fields: DEFAULT_INVENTORY_FIELDS },
   security: DEFAULT_SECURITY_CONFIG,
+  status: DEFAULT_STATUS_SETTINGS,
+  alerts: DEFAULT_ALERT_SETTINGS,
+  reports: DEFAULT_REPORT_SETTINGS,
+  installErrors: DEFAULT_INSTALL_ERROR_SETTINGS,
+  clientVersions: DEFAULT_CLIENT_VERSION_SETTINGS,
+  drift: DEFAULT_DRIFT_SETTINGS,
 }
 
 /** Starter rules seeded by onboarding: shared/lab devices aren't expected to be
@@ -82,5 +125,23 @@ export function withDefaults(doc: SettingsDocument | null | undefined): Settings
       defaults: { ...structuredClone(DEFAULT_SECURITY_CONFIG.defaults), ...(doc.security?.defaults ?? {}) },
       rules: doc.security?.rules ? structuredClone(doc.security.rules) : [],
     },
+    status: {
+      defaults: { ...DEFAULT_STATUS_SETTINGS.defaults, ...(doc.status?.defaults ?? {}) },
+      rules: doc.status?.rules ? structuredClone(doc.status.rules) : [],
+    },
+    alerts: {
+      rules: doc.alerts?.rules ? structuredClone(doc.alerts.rules) : [],
+      channels: doc.alerts?.channels ? structuredClone(doc.alerts.channels) : [],
+    },
+    reports: {
+      schedules: doc.reports?.schedules ? structuredClone(doc.reports.schedules) : [],
+    },
+    installErrors: {
+      codes: doc.installErrors?.codes ? structuredClone(doc.installErrors.codes) : [],
+    },
+    clientVersions: { ...(doc.clientVersions ?? {}) },
+    drift: {
+      baselines: doc.drift?.baselines ? structuredClone(doc.drift.baselines) : [],
+    },
   }
 }
@@ -0,0 +1,55 @@
+import { diffSettings } from './diff'
+import type { SecurityRule, SettingsDocument } from './types'
+
+const rule = (id: string, patch: Partial<SecurityRule> = {}): SecurityRule => ({
+  id,
+  check: 'encryption',
+  state: 'disabled',
+  severity: 'neutral',
+  ...patch,
+})
+
+const doc = (rules: SecurityRule[], patch: Partial<SettingsDocument> = {}): SettingsDocument => ({
+  schemaVersion: 1,
+  security: { defaults: {}, rules },
+  ...patch,
+})
+
+describe('diffSettings', () => {
+  it('is empty for equivalent documents, regardless of key order or defaults', () => {
+    expect(diffSettings(doc([rule('a')]), doc([{ severity: 'neutral', state: 'disabled', check: 'encryption', id: 'a' }]))).toEqual([])
+    expect(diffSettings(null, { schemaVersion: 1 })).toEqual([])
+  })
+
+  it('reports added, removed and changed rules by id with the changed properties', () => {
+    const changes = diffSettings(
+      doc([rule('a'), rule('b')]),
+      doc([rule('b', { severity: 'warning', when: { inventory: { usage: { eq: 'Lab' } } } }), rule('c')])
+    )
+    expect(changes.map((c) => [c.key, c.kind, c.fields])).toEqual([
+      ['a', 'removed', undefined],
+      ['b', 'changed', ['severity', 'when']],
+      ['c', 'added', undefined],
+    ])
+  })
+
+  it('flags a rule that moved relative to the others, but not ones shifted by an insert', () => {
+    expect(diffSettings(doc([rule('a'), rule('b')]), doc([rule('b'), rule('a')])).map((c) => [c.key, c.fields])).toEqual([
+      ['b', ['position']],
+      ['a', ['position']],
+    ])
+    expect(diffSettings(doc([rule('a'), rule('b')]), doc([rule('new'), rule('a'), rule('b')])).map((c) => c.kind)).toEqual(['added'])
+  })
+
+  it('diffs security defaults per check and inventory fields per key', () => {
+    const before = doc([], { inventory: { fields: [{ key: 'usage', sourceKey: 'usage', label: 'Usage', order: 0, visible: true }] } })
+    const after: SettingsDocument = {
+      ...doc([], { inventory: { fields: [{ key: 'usage', sourceKey: 'Usage', label: 'Usage', order: 0, visible: true }] } }),
+      security: { defaults: { firewall: { enabledSeverity: 'ok', disabledSeverity: 'danger' } }, rules: [] },
+    }
+    expect(diffSettings(before, after).map((c) => [c.section, c.key, c.fields])).toEqual([
+      ['inventory', 'usage', ['sourceKey']],
+      ['securityDefaults', 'firewall', ['disabledSeverity']],
+    ])
+  })
+})
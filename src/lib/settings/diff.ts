@@ -0,0 +1,144 @@
+/**
+ * Structured diff between two settings documents, for the revision history.
+ * Both sides are read like stored documents (migrated, invalid entries dropped,
+ * defaulted) so a revision saved under an older schema compares against the
+ * current shape. Entries are keyed the way admins think about them: inventory
+ * fields by canonical key, security defaults by check, rules by id, status
+ * thresholds by name, alert channels and report schedules by id.
+ */
+
+import { SettingsDocument } from "./types"
+import { readSettingsDocument } from "./validate"
+
+export type SettingsDiffSection =
+  | "general"
+  | "inventory"
+  | "securityDefaults"
+  | "securityRules"
+  | "statusDefaults"
+  | "statusRules"
+  | "alertRules"
+  | "alertChannels"
+  | "reportSchedules"
+  | "installErrorCodes"
+  | "clientVersions"
+  | "baselines"
+
+export interface SettingsChange {
+  section: SettingsDiffSection
+  /** Field key, check id, rule id, or general setting name. */
+  key: string
+  kind: "added" | "removed" | "changed"
+  /** Properties that differ, for `changed` entries (e.g. ["label", "visible"]).
+   * Rules report "position" when they moved, since order breaks ties. */
+  fields?: string[]
+  before?: unknown
+  after?: unknown
+}
+
+/** JSON with object keys sorted (and undefined properties dropped), so equality
+ * and checksums ignore key order. */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`)
+    return `{${entries.join(",")}}`
+  }
+  return JSON.stringify(value) ?? "null"
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b)
+}
+
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  return [...keys].filter((k) => !sameValue(before[k], after[k])).sort()
+}
+
+/** Rank of each key among the keys present on both sides, so an insertion or
+ * removal doesn't count as every later entry moving. */
+function relativeOrder(keys: string[], common: Set<string>): Map<string, number> {
+  return new Map(keys.filter((k) => common.has(k)).map((k, i) => [k, i]))
+}
+
+/** Diffs two keyed lists. `position` adds a "position" field when an entry
+ * present on both sides moved relative to the others. */
+function diffKeyed<T extends object>(
+  section: SettingsDiffSection,
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string,
+  position = false
+): SettingsChange[] {
+  const beforeIndex = new Map(before.map((item, i) => [keyOf(item), i]))
+  const afterIndex = new Map(after.map((item, i) => [keyOf(item), i]))
+  const common = new Set([...beforeIndex.keys()].filter((k) => afterIndex.has(k)))
+  const beforeRank = relativeOrder([...beforeIndex.keys()], common)
+  const afterRank = relativeOrder([...afterIndex.keys()], common)
+  const changes: SettingsChange[] = []
+
+  for (const [key, i] of beforeIndex) {
+    if (!afterIndex.has(key)) changes.push({ section, key, kind: "removed", before: before[i] })
+  }
+  for (const [key, j] of afterIndex) {
+    const i = beforeIndex.get(key)
+    if (i === undefined) {
+      changes.push({ section, key, kind: "added", after: after[j] })
+      continue
+    }
+    const fields = changedFields(before[i] as Record<string, unknown>, after[j] as Record<string, unknown>)
+    if (position && beforeRank.get(key) !== afterRank.get(key)) fields.push("position")
+    if (fields.length) changes.push({ section, key, kind: "changed", fields, before: before[i], after: after[j] })
+  }
+  return changes
+}
+
+function diffRecord(
+  section: SettingsDiffSection,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): SettingsChange[] {
+  const changes: SettingsChange[] = []
+  for (const key of [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()) {
+    const a = before[key]
+    const b = after[key]
+    if (a === undefined && b !== undefined) changes.push({ section, key, kind: "added", after: b })
+    else if (a !== undefined && b === undefined) changes.push({ section, key, kind: "removed", before: a })
+    else if (!sameValue(a, b)) {
+      const fields =
+        a && b && typeof a === "object" && typeof b === "object"
+          ? changedFields(a as Record<string, unknown>, b as Record<string, unknown>)
+          : undefined
+      changes.push({ section, key, kind: "changed", fields, before: a, after: b })
+    }
+  }
+  return changes
+}
+
+/** What changed going from `before` to `after`. Empty when equivalent. */
+export function diffSettings(
+  before: SettingsDocument | null | undefined,
+  after: SettingsDocument | null | undefined
+): SettingsChange[] {
+  const a = readSettingsDocument(before).settings
+  const b = readSettingsDocument(after).settings
+
+  return [
+    ...diffRecord("general", a.general ?? {}, b.general ?? {}),
+    ...diffKeyed("inventory", a.inventory?.fields ?? [], b.inventory?.fields ?? [], (f) => f.key),
+    ...diffRecord("securityDefaults", a.security?.defaults ?? {}, b.security?.defaults ?? {}),
+    ...diffKeyed("securityRules", a.security?.rules ?? [], b.security?.rules ?? [], (r) => r.id, true),
+    ...diffRecord("statusDefaults", { ...a.status?.defaults }, { ...b.status?.defaults }),
+    ...diffKeyed("statusRules", a.status?.rules ?? [], b.status?.rules ?? [], (r) => r.id, true),
+    ...diffKeyed("alertRules", a.alerts?.rules ?? [], b.alerts?.rules ?? [], (r) => r.id),
+    ...diffKeyed("alertChannels", a.alerts?.channels ?? [], b.alerts?.channels ?? [], (c) => c.id),
+    ...diffKeyed("reportSchedules", a.reports?.schedules ?? [], b.reports?.schedules ?? [], (s) => s.id),
+    ...diffKeyed("installErrorCodes", a.installErrors?.codes ?? [], b.installErrors?.codes ?? [], (c) => c.id, true),
+    ...diffRecord("clientVersions", { ...a.clientVersions }, { ...b.clientVersions }),
+    ...diffKeyed("baselines", a.drift?.baselines ?? [], b.drift?.baselines ?? [], (x) => x.id, true),
+  ]
+}
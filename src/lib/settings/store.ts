@@ -0,0 +1,20 @@
+/**
+ * Server-side read of the org settings document (`/api/v1/settings`) for the
+ * API routes that evaluate against it. Client code goes through
+ * SettingsProvider instead.
+ */
+
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import type { SettingsDocument, SettingsResponse } from "./types"
+import { readSettingsDocument } from "./validate"
+
+/**
+ * The saved settings as consumers see them (readSettingsDocument: migrated,
+ * invalid entries dropped, defaults filled in). Settings that were never
+ * saved come back as the defaults; an unreadable store throws.
+ */
+export async function loadOrgSettings(apiBaseUrl: string): Promise<SettingsDocument> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/settings`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (!res.ok) throw new Error(`Settings store returned ${res.status}`)
+  return readSettingsDocument(((await res.json()) as SettingsResponse)?.value).settings
+}
@@ -7,8 +7,9 @@
 
 export type Severity = "ok" | "warning" | "danger" | "neutral" | "unknown"
 
-/** Canonical inventory fields ReportMate understands. Fixed enum so rules and
- * native apps reference stable keys; only the mapping/labels are configurable. */
+/** Built-in canonical inventory fields ReportMate understands. Fixed enum so
+ * rules and native apps reference stable keys; only the mapping/labels are
+ * configurable. Orgs add their own fields on top (see InventoryFieldMapping.custom). */
 export const CANONICAL_INVENTORY_KEYS = [
   "usage",
   "catalog",
@@ -22,9 +23,79 @@ export const CANONICAL_INVENTORY_KEYS = [
 
 export type CanonicalInventoryKey = (typeof CANONICAL_INVENTORY_KEYS)[number]
 
+/** A built-in canonical key or an org-defined custom field key (camelCase,
+ * e.g. "costCenter"). */
+export type InventoryFieldKey = CanonicalInventoryKey | (string & {})
+
+/** Shape of a custom field key: camelCase, starting with a letter. */
+export const CUSTOM_INVENTORY_KEY_PATTERN = /^[a-z][A-Za-z0-9]*$/
+
+/** URL params the list pages, exports and saved views already read (see
+ * URL_STATE_CONVENTIONS.md). A custom field's selection is a URL param named
+ * after its key, so custom keys can't be any of these. */
+export const RESERVED_URL_PARAMS = [
+  "platform",
+  "q",
+  "search",
+  "status",
+  "type",
+  "mode",
+  "period",
+  "incident",
+  "apps",
+  "usages",
+  "catalogs",
+  "locations",
+  "rooms",
+  "fleets",
+  "areas",
+  "tags",
+  "groups",
+  "versions",
+  "version",
+  "manifests",
+  "show",
+  "below",
+  "devices",
+  "diff",
+  "baseline",
+  "processor",
+  "osVersion",
+  "filter",
+  "installs",
+  "format",
+  "view",
+  "sort",
+  "dir",
+  "tab",
+  "from",
+] as const
+
+/** Device facts rules can match on, derived from the system, hardware and
+ * management modules rather than Inventory.yaml. Fixed enum for the same reason
+ * as CANONICAL_INVENTORY_KEYS. `tags` and `groups` (ReportMate device groups,
+ * by name) are multi-valued. */
+export const DEVICE_FACT_KEYS = [
+  "platform",
+  "osName",
+  "osVersion",
+  "osBuild",
+  "osEdition",
+  "model",
+  "architecture",
+  "enrollmentType",
+  "tags",
+  "groups",
+] as const
+
+export type DeviceFactKey = (typeof DEVICE_FACT_KEYS)[number]
+
 export interface InventoryFieldMapping {
-  /** Canonical key (fixed). */
-  key: CanonicalInventoryKey
+  /** Canonical key: fixed for built-in fields, chosen by the admin for custom ones. */
+  key: InventoryFieldKey
+  /** Org-defined field added in the mapping editor. Custom fields can be
+   * removed; built-in ones leave this unset. */
+  custom?: boolean
   /** Key as it appears in the device's Inventory.yaml / inventory JSON. */
   sourceKey: string
   /** Display label. */
@@ -35,6 +106,9 @@ export interface InventoryFieldMapping {
   visible: boolean
   /** Known/allowed values (e.g. usage values), used by rules + filters. */
   knownValues?: string[]
+  /** Variant -> value rewrites applied wherever the field is read, e.g.
+   * { "Labs": "Lab" }. Variants match case-insensitively. */
+  aliases?: Record<string, string>
 }
 
 export interface SecurityCheckDefault {
@@ -45,16 +119,67 @@ export interface SecurityCheckDefault {
 /** Logical security checks the UI colors. Open-ended (string) so orgs can add. */
 export type SecurityCheckId = "encryption" | "firewall" | "ssh" | "rdp" | "sip" | (string & {})
 
+/** Operators applied to a single inventory value. Every operator present must
+ * hold (they're AND-ed). A value the device doesn't report only satisfies the
+ * negative operators (`ne`, `notIn`) and `missing`. */
 export interface RuleOperator {
   in?: string[]
+  notIn?: string[]
   eq?: string
   ne?: string
+  /** Case-insensitive regular expression, e.g. "^(Lab|Shared)". */
+  matches?: string
+  /** Case-insensitive glob with `*` and `?`, e.g. "Van*". */
+  glob?: string
+  /** Numeric comparisons; non-numeric values never match. */
+  gt?: number
+  gte?: number
+  lt?: number
+  lte?: number
+  /** `exists: true` requires the device to report a value; `false` requires it not to. */
+  exists?: boolean
+  /** Shorthand for `exists: false`. */
+  missing?: boolean
 }
 
+/** Names of every operator, in the order editors list them. */
+export const RULE_OPERATOR_NAMES = [
+  "in",
+  "notIn",
+  "eq",
+  "ne",
+  "matches",
+  "glob",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "exists",
+  "missing",
+] as const satisfies readonly (keyof RuleOperator)[]
+
+export type RuleOperatorName = (typeof RULE_OPERATOR_NAMES)[number]
+
+/** A rule's match condition. Every part present is AND-ed: the inventory and
+ * device keys, `allOf`, at least one `anyOf` branch, and the negation of `not`. Groups nest,
+ * so "Lab or Shared, but not in Vancouver" is
+ * `{ anyOf: [{ inventory: { usage: { eq: "Lab" } } }, { inventory: { usage: { eq: "Shared" } } }],
+ *    not: { inventory: { location: { eq: "Vancouver" } } } }`. */
 export interface RuleCondition {
-  /** Conditions on the device's inventory context, keyed by canonical key.
-   * Multiple keys are AND-ed. */
-  inventory?: Partial<Record<CanonicalInventoryKey, RuleOperator>>
+  /** Conditions on the device's inventory context, keyed by canonical key
+   * (built-in or custom). Multiple keys are AND-ed. */
+  inventory?: Partial<Record<InventoryFieldKey, RuleOperator>>
+  /** Conditions on device facts (platform, OS, model, ...). Multiple keys are
+   * AND-ed with each other and with `inventory`. For the multi-valued `tags`
+   * and `groups`, positive operators need one value to match and `ne`/`notIn`
+   * need every value to. */
+  device?: Partial<Record<DeviceFactKey, RuleOperator>>
+  /** Every branch must match. */
+  allOf?: RuleCondition[]
+  /** At least one branch must match. An empty list is ignored. */
+  anyOf?: RuleCondition[]
+  /** Must not match. */
+  not?: RuleCondition
 }
 
 export interface SecurityRule {
@@ -76,6 +201,226 @@ export interface SecurityConfig {
   rules: SecurityRule[]
 }
 
+/** Hours since the last check-in that separate active from stale and stale
+ * from missing (see calculateDeviceStatus). */
+export interface StatusThresholds {
+  activeThresholdHours: number
+  staleThresholdHours: number
+}
+
+/** Thresholds for one segment of the fleet, e.g. laptops that travel or lab
+ * machines that are powered off at weekends. */
+export interface StatusThresholdRule {
+  id: string
+  /** Admin-facing name, e.g. "Lab machines". */
+  label?: string
+  /** Which devices the rule covers (usage, catalog, platform, ...). No `when`
+   * matches every device. */
+  when?: RuleCondition
+  thresholds: StatusThresholds
+  enabled?: boolean
+}
+
+export interface StatusSettings {
+  /** Thresholds for devices no rule matches. */
+  defaults: StatusThresholds
+  /** The most specific matching rule wins; ties go to the later rule, as with
+   * security rules. */
+  rules: StatusThresholdRule[]
+}
+
+/** What an alert rule watches: a burst of events for the same package, devices
+ * reaching a status (see calculateDeviceStatus), security checks reaching a
+ * severity (see evaluateSecurity), a spike in rejected check-ins, or devices
+ * running a Cimian/Munki client below the org's minimum (ClientVersionSettings). */
+export type AlertRuleKind = "eventBurst" | "deviceStatus" | "securityCheck" | "ingestFailures" | "clientVersion"
+
+export const ALERT_RULE_KINDS = [
+  "eventBurst",
+  "deviceStatus",
+  "securityCheck",
+  "ingestFailures",
+  "clientVersion",
+] as const satisfies readonly AlertRuleKind[]
+
+export type AlertSeverity = "info" | "warning" | "critical"
+
+export interface AlertRule {
+  id: string
+  /** Admin-facing name, e.g. "Package failing fleet-wide". */
+  label?: string
+  kind: AlertRuleKind
+  severity: AlertSeverity
+  /** Ids of the channels notified when the rule fires. */
+  channels: string[]
+  enabled?: boolean
+  /** eventBurst: event kind counted, after normalizeEventKind (default "error"). */
+  eventKind?: string
+  /** eventBurst: distinct devices reporting the same package; ingestFailures:
+   * rejected check-ins. Fires at this many within the window. */
+  threshold?: number
+  /** eventBurst / ingestFailures: how far back to count (minutes). */
+  windowMinutes?: number
+  /** deviceStatus: fires at "stale" (stale or missing) or "missing" (default). */
+  status?: "stale" | "missing"
+  /** securityCheck: checks watched; every check the summary carries when absent. */
+  checks?: string[]
+  /** securityCheck: fires at "warning" (warning or danger) or "danger" (default). */
+  checkSeverity?: "warning" | "danger"
+  /** deviceStatus / securityCheck / clientVersion: which devices the rule covers. */
+  when?: RuleCondition
+  /** Minutes before the same rule and subject notifies again after resolving,
+   * so a flapping device or package doesn't page on every run (default 60). */
+  throttleMinutes?: number
+  /** Re-notify an unacknowledged alert this often while it stays open
+   * (minutes). Absent or 0 notifies once. */
+  repeatMinutes?: number
+}
+
+export type AlertChannelType = "webhook" | "slack" | "teams" | "email"
+
+export const ALERT_CHANNEL_TYPES = ["webhook", "slack", "teams", "email"] as const satisfies readonly AlertChannelType[]
+
+/** Where alerts are delivered. Webhook-style channels take either the URL or
+ * the name of an environment variable holding it; the settings document is
+ * readable by every signed-in user, so URLs carrying a token belong in `urlEnv`. */
+export interface AlertChannel {
+  id: string
+  label?: string
+  type: AlertChannelType
+  enabled?: boolean
+  /** webhook / slack / teams: incoming webhook URL. */
+  url?: string
+  /** webhook / slack / teams: environment variable holding the URL. */
+  urlEnv?: string
+  /** webhook: extra request headers. */
+  headers?: Record<string, string>
+  /** email: recipients. The SMTP server comes from the SMTP_* environment. */
+  to?: string[]
+}
+
+export interface AlertSettings {
+  rules: AlertRule[]
+  channels: AlertChannel[]
+}
+
+export type ReportFormat = "csv" | "xlsx" | "pdf"
+
+export const REPORT_FORMATS = ["csv", "xlsx", "pdf"] as const satisfies readonly ReportFormat[]
+
+export type ReportFrequency = "daily" | "weekly" | "monthly"
+
+export const REPORT_FREQUENCIES = ["daily", "weekly", "monthly"] as const satisfies readonly ReportFrequency[]
+
+/** A report page URL (Applications usage/versions/missing, an application's
+ * usage by device, Installs) rendered and delivered on a schedule. Times are UTC. */
+export interface ReportSchedule {
+  id: string
+  /** e.g. "Houdini licensing review". */
+  name: string
+  /** The report as the page shows it, e.g. `/applications?type=usage&period=30&apps=Houdini`. */
+  url: string
+  format: ReportFormat
+  frequency: ReportFrequency
+  /** weekly: 0 (Sunday) to 6 (default 1, Monday). */
+  dayOfWeek?: number
+  /** monthly: 1 to 28 (default 1). */
+  dayOfMonth?: number
+  /** Hour of day, 0 to 23 (default 7). */
+  hour?: number
+  /** Ids of the alert channels the result goes to: email attaches the file,
+   * webhook-style channels get a download link. */
+  channels: string[]
+  enabled?: boolean
+}
+
+export interface ReportSettings {
+  schedules: ReportSchedule[]
+}
+
+/** Values of ErrorCategory (data-processing/modules/installs.ts). */
+export type InstallErrorCategory =
+  | "architecture"
+  | "msi_installer"
+  | "exe_installer"
+  | "chocolatey"
+  | "powershell"
+  | "timeout"
+  | "dependency"
+  | "system"
+
+export const INSTALL_ERROR_CATEGORIES = [
+  "architecture",
+  "msi_installer",
+  "exe_installer",
+  "chocolatey",
+  "powershell",
+  "timeout",
+  "dependency",
+  "system",
+] as const satisfies readonly InstallErrorCategory[]
+
+/** An org-defined installer error: matched by exit code or by a regex on the
+ * message text, checked in order before the built-in catalog. */
+export interface InstallErrorCode {
+  id: string
+  /** Exit or error code as the installer reports it, e.g. "1603" or "0x80070643". */
+  code?: string
+  /** Case-insensitive regex tested against the error message. */
+  pattern?: string
+  description: string
+  /** Recommended action shown next to the error. */
+  action: string
+  category: InstallErrorCategory
+  severity: "error" | "warning"
+}
+
+export interface InstallErrorSettings {
+  codes: InstallErrorCode[]
+}
+
+/** The oldest Cimian and Munki client builds the org accepts. Devices below
+ * either floor are listed on the client versions page and can alert. */
+export interface ClientVersionSettings {
+  /** Cimian build stamp, e.g. "2026.07.20.0632" (any form normalizeCimianVersion reads). */
+  minimumCimian?: string
+  /** Dotted Munki version, e.g. "6.6.5". */
+  minimumMunki?: string
+}
+
+/** An application a baseline expects, by the name the Applications tab shows. */
+export interface BaselineApplication {
+  name: string
+  /** Exact version expected; any version counts when absent. */
+  version?: string
+}
+
+/** The expected state of one segment of the fleet (a golden image). Devices
+ * are measured against the most specific matching baseline; ties go to the
+ * later one, as with status rules. */
+export interface Baseline {
+  id: string
+  /** Admin-facing name, e.g. "Curriculum lab image". */
+  label?: string
+  /** Which devices the baseline covers (catalog, usage, platform, ...). No
+   * `when` matches every device. */
+  when?: RuleCondition
+  /** Serial number of the device the baseline was captured from, if any. */
+  sourceSerial?: string
+  /** Expected OS build, e.g. "26100.4349". */
+  osBuild?: string
+  applications?: BaselineApplication[]
+  /** Configuration profile names expected installed. */
+  profiles?: string[]
+  /** Security checks the org's security rules must rate ok (see evaluateSecurity). */
+  securityChecks?: SecurityCheckId[]
+  enabled?: boolean
+}
+
+export interface DriftSettings {
+  baselines: Baseline[]
+}
+
 export interface GeneralSettings {
   fleetName?: string
   defaultPlatformFilter?: string
@@ -93,6 +438,12 @@ export interface SettingsDocument {
   general?: GeneralSettings
   inventory?: InventorySettings
   security?: SecurityConfig
+  status?: StatusSettings
+  alerts?: AlertSettings
+  reports?: ReportSettings
+  installErrors?: InstallErrorSettings
+  clientVersions?: ClientVersionSettings
+  drift?: DriftSettings
 }
 
 /** Shape returned by GET /api/settings (proxy → FastAPI). */
@@ -104,6 +455,23 @@ export interface SettingsResponse {
   updatedBy?: string | null
 }
 
+/** One saved revision of the settings document, as listed by
+ * GET /api/settings/revisions (newest first). Every PUT appends one. */
+export interface SettingsRevisionSummary {
+  id: string
+  schemaVersion: number
+  updatedAt: string
+  updatedBy?: string | null
+  /** Set when this revision was written by restoring an older one. */
+  restoredFrom?: string | null
+}
+
+/** A revision with its full document (GET /api/settings/revisions/{id}). The
+ * document is stored as written, so it may predate CURRENT_SCHEMA_VERSION. */
+export interface SettingsRevision extends SettingsRevisionSummary {
+  value: SettingsDocument
+}
+
 /** One row from the inventory discovery endpoint. */
 export interface DiscoveredInventoryKey {
   key: string
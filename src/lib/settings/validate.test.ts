@@ -0,0 +1,210 @@
+import { errorsUnder, readSettingsDocument, validateSettingsDocument } from './validate'
+import type { SettingsDocument } from './types'
+
+const usage = { key: 'usage' as const, sourceKey: 'usage', label: 'Usage', order: 0, visible: true, knownValues: ['Assigned', 'Shared', 'Lab'] }
+
+const valid: SettingsDocument = {
+  schemaVersion: 1,
+  inventory: { fields: [usage] },
+  security: {
+    defaults: { encryption: { enabledSeverity: 'ok', disabledSeverity: 'danger' } },
+    rules: [{ id: 'shared', check: 'encryption', state: 'disabled', severity: 'neutral', when: { inventory: { usage: { in: ['Shared', 'Lab'] } } } }],
+  },
+}
+
+describe('validateSettingsDocument', () => {
+  it('accepts a valid document', () => {
+    expect(validateSettingsDocument(valid)).toEqual([])
+  })
+
+  it('reports field-level paths for unknown keys, duplicate ids and bad severities', () => {
+    const doc = {
+      ...valid,
+      security: {
+        defaults: { firewall: { enabledSeverity: 'ok', disabledSeverity: 'red' } },
+        rules: [
+          { id: 'a', check: 'ssh', severity: 'ok', when: { anyOf: [{ inventory: { building: { eq: 'B1' } } }] } },
+          { id: 'a', check: 'ssh', severity: 'bad', when: { device: { osBuild: { gte: 'x' } } } },
+        ],
+      },
+    }
+    expect(validateSettingsDocument(doc).map((e) => e.path)).toEqual([
+      'security.defaults.firewall.disabledSeverity',
+      'security.rules[0].when.anyOf[0].inventory.building',
+      'security.rules[1].id',
+      'security.rules[1].severity',
+      'security.rules[1].when.device.osBuild.gte',
+    ])
+  })
+
+  it('flags rule operands outside the field known values', () => {
+    const doc = {
+      ...valid,
+      security: { ...valid.security!, rules: [{ ...valid.security!.rules[0], when: { not: { inventory: { usage: { eq: 'Kiosk' } } } } }] },
+    }
+    expect(validateSettingsDocument(doc)).toEqual([
+      { path: 'security.rules[0].when.not.inventory.usage.eq', message: '"Kiosk" not in Usage known values' },
+    ])
+  })
+
+  it('accepts custom fields in conditions only once they are defined', () => {
+    const costCenter = { key: 'costCenter', sourceKey: 'cost_center', label: 'Cost Center', order: 1, visible: true, custom: true }
+    const rules = [{ ...valid.security!.rules[0], when: { inventory: { costCenter: { eq: 'CC-100' } } } }]
+    expect(validateSettingsDocument({ ...valid, inventory: { fields: [usage, costCenter] }, security: { ...valid.security!, rules } })).toEqual([])
+    expect(validateSettingsDocument({ ...valid, security: { ...valid.security!, rules } })).toEqual([
+      { path: 'security.rules[0].when.inventory.costCenter', message: 'unknown field "costCenter"' },
+    ])
+    const clashing = [usage, { ...costCenter, key: 'usage' }, { ...costCenter, key: 'Cost-Center' }, { ...costCenter, key: 'status' }, { ...costCenter, key: 'tags' }]
+    expect(validateSettingsDocument({ ...valid, inventory: { fields: clashing } }).map((e) => e.message)).toEqual([
+      '"usage" is a built-in field',
+      'duplicate field "usage"',
+      'must be camelCase letters and digits, e.g. costCenter',
+      '"status" is already a URL parameter of the list pages',
+      '"tags" is already a URL parameter of the list pages',
+    ])
+  })
+
+  it('checks status thresholds', () => {
+    const doc = {
+      ...valid,
+      status: {
+        defaults: { activeThresholdHours: 48, staleThresholdHours: 24 },
+        rules: [{ id: 'lab', when: { inventory: { usage: { eq: 'Lab' } } }, thresholds: { activeThresholdHours: 0, staleThresholdHours: 240 } }],
+      },
+    }
+    expect(validateSettingsDocument(doc)).toEqual([
+      { path: 'status.defaults.staleThresholdHours', message: 'must be at least the active threshold' },
+      { path: 'status.rules[0].thresholds.activeThresholdHours', message: 'must be a positive number of hours' },
+    ])
+  })
+
+  it('checks alert channels and the channels rules notify', () => {
+    const doc = {
+      ...valid,
+      alerts: {
+        channels: [
+          { id: 'teams', type: 'teams', urlEnv: 'ALERTS_TEAMS_URL' },
+          { id: 'hook', type: 'webhook', url: 'ftp://example.com', urlEnv: 'HOOK' },
+          { id: 'mail', type: 'email', to: ['ops'] },
+        ],
+        rules: [
+          { id: 'missing', kind: 'deviceStatus', severity: 'critical', channels: ['teams', 'pager'] },
+          { id: 'burst', kind: 'eventBurst', severity: 'loud', channels: [], threshold: 0, when: {} },
+        ],
+      },
+    }
+    expect(validateSettingsDocument(doc)).toEqual([
+      { path: 'alerts.channels[1].url', message: 'set either a URL or an environment variable holding it' },
+      { path: 'alerts.channels[2].to[0]', message: 'is not an email address' },
+      { path: 'alerts.rules[1].severity', message: 'must be one of info, warning, critical' },
+      { path: 'alerts.rules[1].threshold', message: 'must be a positive whole number' },
+      { path: 'alerts.rules[1].when', message: 'only applies to device status, security check and client version rules' },
+    ])
+    const fixed = {
+      ...doc,
+      alerts: { channels: [doc.alerts.channels[0]], rules: [doc.alerts.rules[0]] },
+    }
+    expect(validateSettingsDocument(fixed)).toEqual([
+      { path: 'alerts.rules[0].channels[1]', message: 'unknown channel "pager"' },
+    ])
+  })
+
+  it('checks report schedules, their report URL and the channels they go to', () => {
+    const doc = {
+      ...valid,
+      alerts: { channels: [{ id: 'mail', type: 'email', to: ['ops@example.com'] }], rules: [] },
+      reports: {
+        schedules: [
+          { id: 'houdini', name: 'Houdini', url: '/applications?type=usage&apps=Houdini', format: 'xlsx', frequency: 'weekly', channels: ['mail', 'pager'] },
+          { id: 'bad', name: 'Bad', url: '/devices', format: 'docx', frequency: 'weekly', dayOfWeek: 7, channels: [] },
+        ],
+      },
+    }
+    expect(validateSettingsDocument(doc)).toEqual([
+      { path: 'reports.schedules[1].url', message: 'must be an Applications or Installs report URL' },
+      { path: 'reports.schedules[1].format', message: 'must be one of csv, xlsx, pdf' },
+      { path: 'reports.schedules[1].dayOfWeek', message: 'must be a whole number from 0 to 6' },
+    ])
+    expect(validateSettingsDocument({ ...doc, reports: { schedules: [doc.reports.schedules[0]] } })).toEqual([
+      { path: 'reports.schedules[0].channels[1]', message: 'unknown channel "pager"' },
+    ])
+  })
+
+  it('checks installer error codes need a code or a valid pattern', () => {
+    const entry = { id: 'lic', pattern: 'license server .* unreachable', description: 'License server down', action: 'Check the VPN', category: 'system', severity: 'error' }
+    expect(validateSettingsDocument({ ...valid, installErrors: { codes: [entry] } })).toEqual([])
+    expect(validateSettingsDocument({
+      ...valid,
+      installErrors: {
+        codes: [
+          entry,
+          { ...entry, pattern: '(unclosed' },
+          { ...entry, id: 'none', pattern: undefined, category: 'network', severity: 'fatal' },
+        ],
+      },
+    })).toEqual([
+      { path: 'installErrors.codes[1].id', message: 'duplicate id "lic"' },
+      { path: 'installErrors.codes[1].pattern', message: 'is not a valid regular expression' },
+      { path: 'installErrors.codes[2]', message: 'needs a code or a message pattern' },
+      { path: 'installErrors.codes[2].category', message: 'must be one of architecture, msi_installer, exe_installer, chocolatey, powershell, timeout, dependency, system' },
+      { path: 'installErrors.codes[2].severity', message: 'must be error or warning' },
+    ])
+  })
+
+  it('checks minimum client versions parse', () => {
+    expect(validateSettingsDocument({ ...valid, clientVersions: { minimumCimian: '2026.7.2006', minimumMunki: '6.6.5' } })).toEqual([])
+    expect(validateSettingsDocument({ ...valid, clientVersions: { minimumCimian: '1.2.3', minimumMunki: 'latest' } })).toEqual([
+      { path: 'clientVersions.minimumCimian', message: 'must be a Cimian build stamp, e.g. 2026.07.20.0632' },
+      { path: 'clientVersions.minimumMunki', message: 'must be a dotted version, e.g. 6.6.5' },
+    ])
+  })
+
+  it('checks drift baselines expect something', () => {
+    const baseline = { id: 'lab', when: { inventory: { catalog: { eq: 'Curriculum' } } }, applications: [{ name: 'Houdini', version: '20.5' }] }
+    expect(validateSettingsDocument({ ...valid, drift: { baselines: [baseline] } })).toEqual([])
+    expect(validateSettingsDocument({
+      ...valid,
+      drift: { baselines: [baseline, { id: 'lab', applications: [{ version: '1.0' }], profiles: 'Wi-Fi' }, { id: 'empty', profiles: [] }] },
+    })).toEqual([
+      { path: 'drift.baselines[1].id', message: 'duplicate id "lab"' },
+      { path: 'drift.baselines[1].applications[0]', message: 'needs an application name' },
+      { path: 'drift.baselines[1].profiles', message: 'must be a list of strings' },
+      { path: 'drift.baselines[2]', message: 'needs an OS build, applications, profiles or security checks' },
+    ])
+  })
+})
+
+describe('readSettingsDocument', () => {
+  it('drops malformed entries, keeps the rest and reports what was dropped', () => {
+    const raw = {
+      ...valid,
+      security: { ...valid.security!, rules: [valid.security!.rules[0], { id: 'broken', check: 'ssh', severity: 'loud' }] },
+    }
+    const { settings, errors } = readSettingsDocument(raw)
+    expect(settings.security?.rules.map((r) => r.id)).toEqual(['shared'])
+    expect(settings.security?.defaults.firewall).toBeDefined()
+    expect(errorsUnder(errors, 'security.rules[1]')).toHaveLength(1)
+  })
+
+  it('drops invalid status rules and keeps standard thresholds for invalid defaults', () => {
+    const raw = {
+      ...valid,
+      status: {
+        defaults: { activeThresholdHours: -1, staleThresholdHours: 168 },
+        rules: [
+          { id: 'lab', thresholds: { activeThresholdHours: 96, staleThresholdHours: 240 } },
+          { id: 'broken', thresholds: { activeThresholdHours: 'a day' } },
+        ],
+      },
+    }
+    const { settings } = readSettingsDocument(raw)
+    expect(settings.status?.defaults).toEqual({ activeThresholdHours: 24, staleThresholdHours: 168 })
+    expect(settings.status?.rules.map((r) => r.id)).toEqual(['lab'])
+  })
+
+  it('falls back to defaults for a section with the wrong shape', () => {
+    const { settings, errors } = readSettingsDocument({ schemaVersion: 1, inventory: { fields: 'usage' } })
+    expect(settings.inventory?.fields.length).toBeGreaterThan(1)
+    expect(errors).toEqual([{ path: 'inventory.fields', message: 'must be a list' }])
+  })
+})
@@ -0,0 +1,799 @@
+/**
+ * Runtime validation of a SettingsDocument. The FastAPI tier stores the
+ * document as opaque JSONB, so it's checked on the way in (the PUT proxy,
+ * imports, restores) and on the way out (readSettingsDocument). Errors carry a
+ * JSON path (e.g. `security.rules[2].when.inventory.usage.in`) so editors can
+ * show them next to the offending field.
+ */
+
+import { normalizeCimianVersion } from "@/src/lib/data-processing/cimian-version"
+import { compileErrorPattern } from "@/src/lib/data-processing/install-error-codes"
+import { parseReportUrl } from "@/src/lib/reports/definition"
+import { DEFAULT_INVENTORY_FIELDS, DEFAULT_STATUS_SETTINGS, withDefaults } from "./defaults"
+import { migrateSettings } from "./migrate"
+import {
+  ALERT_CHANNEL_TYPES,
+  ALERT_RULE_KINDS,
+  CANONICAL_INVENTORY_KEYS,
+  CUSTOM_INVENTORY_KEY_PATTERN,
+  DEVICE_FACT_KEYS,
+  INSTALL_ERROR_CATEGORIES,
+  InventoryFieldMapping,
+  REPORT_FORMATS,
+  REPORT_FREQUENCIES,
+  RESERVED_URL_PARAMS,
+  RULE_OPERATOR_NAMES,
+  RuleCondition,
+  SettingsDocument,
+} from "./types"
+
+export interface SettingsValidationError {
+  path: string
+  message: string
+}
+
+const SEVERITIES = ["ok", "warning", "danger", "neutral", "unknown"]
+const RULE_STATES = ["enabled", "disabled", "any"]
+const ALERT_SEVERITIES = ["info", "warning", "critical"]
+const EVENT_KINDS = ["success", "warning", "error", "info", "system"]
+const ENV_NAME_PATTERN = /^[A-Z_][A-Z0-9_]*$/
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v)
+
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((s) => typeof s === "string")
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key
+
+function validateOperator(op: unknown, path: string, errors: SettingsValidationError[]) {
+  if (!isObject(op)) {
+    errors.push({ path, message: "must be an operator object" })
+    return
+  }
+  for (const [name, value] of Object.entries(op)) {
+    const at = join(path, name)
+    if (!(RULE_OPERATOR_NAMES as readonly string[]).includes(name)) {
+      errors.push({ path: at, message: `unknown operator "${name}"` })
+    } else if (name === "in" || name === "notIn") {
+      if (!isStringArray(value)) errors.push({ path: at, message: "must be a list of strings" })
+    } else if (name === "eq" || name === "ne" || name === "glob") {
+      if (typeof value !== "string") errors.push({ path: at, message: "must be a string" })
+    } else if (name === "matches") {
+      if (typeof value !== "string") {
+        errors.push({ path: at, message: "must be a string" })
+      } else {
+        try {
+          new RegExp(value, "i")
+        } catch {
+          errors.push({ path: at, message: "is not a valid regular expression" })
+        }
+      }
+    } else if (name === "exists" || name === "missing") {
+      if (typeof value !== "boolean") errors.push({ path: at, message: "must be true or false" })
+    } else if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push({ path: at, message: "must be a number" })
+    }
+  }
+}
+
+function validateKeyedOperators(
+  value: unknown,
+  allowed: readonly string[],
+  path: string,
+  errors: SettingsValidationError[]
+) {
+  if (!isObject(value)) {
+    errors.push({ path, message: "must be an object" })
+    return
+  }
+  for (const [key, op] of Object.entries(value)) {
+    if (!allowed.includes(key)) errors.push({ path: join(path, key), message: `unknown field "${key}"` })
+    else validateOperator(op, join(path, key), errors)
+  }
+}
+
+/** Inventory keys conditions may reference: the built-in ones plus any custom
+ * fields the document defines. */
+function inventoryKeysOf(inventory: unknown): string[] {
+  const custom = isObject(inventory) && Array.isArray(inventory.fields)
+    ? inventory.fields.filter((f) => isObject(f) && f.custom === true && typeof f.key === "string").map((f) => f.key as string)
+    : []
+  return [...CANONICAL_INVENTORY_KEYS, ...custom]
+}
+
+function validateCondition(
+  when: unknown,
+  path: string,
+  errors: SettingsValidationError[],
+  inventoryKeys: readonly string[] = CANONICAL_INVENTORY_KEYS
+) {
+  if (!isObject(when)) {
+    errors.push({ path, message: "must be a condition object" })
+    return
+  }
+  for (const key of Object.keys(when)) {
+    if (!["inventory", "device", "allOf", "anyOf", "not"].includes(key)) {
+      errors.push({ path: join(path, key), message: `unknown condition part "${key}"` })
+    }
+  }
+  if (when.inventory !== undefined) validateKeyedOperators(when.inventory, inventoryKeys, join(path, "inventory"), errors)
+  if (when.device !== undefined) validateKeyedOperators(when.device, DEVICE_FACT_KEYS, join(path, "device"), errors)
+  for (const group of ["allOf", "anyOf"] as const) {
+    const branches = when[group]
+    if (branches === undefined) continue
+    if (!Array.isArray(branches)) errors.push({ path: join(path, group), message: "must be a list of conditions" })
+    else branches.forEach((b, i) => validateCondition(b, join(join(path, group), i), errors, inventoryKeys))
+  }
+  if (when.not !== undefined) validateCondition(when.not, join(path, "not"), errors, inventoryKeys)
+}
+
+function validateInventory(inventory: unknown, errors: SettingsValidationError[]) {
+  if (!isObject(inventory)) {
+    errors.push({ path: "inventory", message: "must be an object" })
+    return
+  }
+  if (!Array.isArray(inventory.fields)) {
+    errors.push({ path: "inventory.fields", message: "must be a list" })
+    return
+  }
+  const seen = new Set<string>()
+  inventory.fields.forEach((field, i) => {
+    const path = join("inventory.fields", i)
+    if (!isObject(field)) {
+      errors.push({ path, message: "must be an object" })
+      return
+    }
+    const key = typeof field.key === "string" ? field.key : undefined
+    const builtIn = key !== undefined && (CANONICAL_INVENTORY_KEYS as readonly string[]).includes(key)
+    if (field.custom !== undefined && typeof field.custom !== "boolean") {
+      errors.push({ path: join(path, "custom"), message: "must be true or false" })
+    } else if (field.custom === true) {
+      if (key === undefined || !CUSTOM_INVENTORY_KEY_PATTERN.test(key)) {
+        errors.push({ path: join(path, "key"), message: "must be camelCase letters and digits, e.g. costCenter" })
+      } else if (builtIn) {
+        errors.push({ path: join(path, "key"), message: `"${key}" is a built-in field` })
+      } else if ((RESERVED_URL_PARAMS as readonly string[]).includes(key)) {
+        errors.push({ path: join(path, "key"), message: `"${key}" is already a URL parameter of the list pages` })
+      }
+    } else if (!builtIn) {
+      errors.push({ path: join(path, "key"), message: `must be one of ${CANONICAL_INVENTORY_KEYS.join(", ")}` })
+    }
+    if (key !== undefined && seen.has(key)) {
+      errors.push({ path: join(path, "key"), message: `duplicate field "${key}"` })
+    } else if (key !== undefined) {
+      seen.add(key)
+    }
+    if (typeof field.sourceKey !== "string" || field.sourceKey.trim() === "") {
+      errors.push({ path: join(path, "sourceKey"), message: "is required" })
+    }
+    if (typeof field.label !== "string") errors.push({ path: join(path, "label"), message: "must be a string" })
+    if (typeof field.order !== "number") errors.push({ path: join(path, "order"), message: "must be a number" })
+    if (typeof field.visible !== "boolean") errors.push({ path: join(path, "visible"), message: "must be true or false" })
+    if (field.knownValues !== undefined && !isStringArray(field.knownValues)) {
+      errors.push({ path: join(path, "knownValues"), message: "must be a list of strings" })
+    }
+    if (field.aliases !== undefined) {
+      if (!isObject(field.aliases)) {
+        errors.push({ path: join(path, "aliases"), message: "must be an object" })
+      } else {
+        for (const [variant, target] of Object.entries(field.aliases)) {
+          if (typeof target !== "string" || target.trim() === "") {
+            errors.push({ path: join(join(path, "aliases"), variant), message: "must be a non-empty string" })
+          }
+        }
+      }
+    }
+  })
+}
+
+function validateSecurity(security: unknown, errors: SettingsValidationError[], inventoryKeys: readonly string[]) {
+  if (!isObject(security)) {
+    errors.push({ path: "security", message: "must be an object" })
+    return
+  }
+  if (!isObject(security.defaults)) {
+    errors.push({ path: "security.defaults", message: "must be an object" })
+  } else {
+    for (const [check, def] of Object.entries(security.defaults)) {
+      const path = join("security.defaults", check)
+      if (!isObject(def)) {
+        errors.push({ path, message: "must be an object" })
+        continue
+      }
+      for (const key of ["enabledSeverity", "disabledSeverity"]) {
+        if (!SEVERITIES.includes(def[key] as string)) {
+          errors.push({ path: join(path, key), message: `must be one of ${SEVERITIES.join(", ")}` })
+        }
+      }
+    }
+  }
+
+  if (!Array.isArray(security.rules)) {
+    errors.push({ path: "security.rules", message: "must be a list" })
+    return
+  }
+  const ids = new Set<string>()
+  security.rules.forEach((rule, i) => {
+    const path = join("security.rules", i)
+    if (!isObject(rule)) {
+      errors.push({ path, message: "must be an object" })
+      return
+    }
+    if (typeof rule.id !== "string" || rule.id.trim() === "") {
+      errors.push({ path: join(path, "id"), message: "is required" })
+    } else if (ids.has(rule.id)) {
+      errors.push({ path: join(path, "id"), message: `duplicate rule id "${rule.id}"` })
+    } else {
+      ids.add(rule.id)
+    }
+    if (typeof rule.check !== "string" || rule.check.trim() === "") {
+      errors.push({ path: join(path, "check"), message: "is required" })
+    }
+    if (rule.state !== undefined && !RULE_STATES.includes(rule.state as string)) {
+      errors.push({ path: join(path, "state"), message: `must be one of ${RULE_STATES.join(", ")}` })
+    }
+    if (!SEVERITIES.includes(rule.severity as string)) {
+      errors.push({ path: join(path, "severity"), message: `must be one of ${SEVERITIES.join(", ")}` })
+    }
+    if (rule.enabled !== undefined && typeof rule.enabled !== "boolean") {
+      errors.push({ path: join(path, "enabled"), message: "must be true or false" })
+    }
+    if (rule.when !== undefined) validateCondition(rule.when, join(path, "when"), errors, inventoryKeys)
+  })
+}
+
+function validateThresholds(value: unknown, path: string, errors: SettingsValidationError[]) {
+  if (!isObject(value)) {
+    errors.push({ path, message: "must be an object" })
+    return
+  }
+  const valid = ["activeThresholdHours", "staleThresholdHours"].every((key) => {
+    const hours = value[key]
+    if (typeof hours === "number" && Number.isFinite(hours) && hours > 0) return true
+    errors.push({ path: join(path, key), message: "must be a positive number of hours" })
+    return false
+  })
+  if (valid && (value.staleThresholdHours as number) < (value.activeThresholdHours as number)) {
+    errors.push({ path: join(path, "staleThresholdHours"), message: "must be at least the active threshold" })
+  }
+}
+
+function validateStatus(status: unknown, errors: SettingsValidationError[], inventoryKeys: readonly string[]) {
+  if (!isObject(status)) {
+    errors.push({ path: "status", message: "must be an object" })
+    return
+  }
+  validateThresholds(status.defaults, "status.defaults", errors)
+  if (!Array.isArray(status.rules)) {
+    errors.push({ path: "status.rules", message: "must be a list" })
+    return
+  }
+  const ids = new Set<string>()
+  status.rules.forEach((rule, i) => {
+    const path = join("status.rules", i)
+    if (!isObject(rule)) {
+      errors.push({ path, message: "must be an object" })
+      return
+    }
+    if (typeof rule.id !== "string" || rule.id.trim() === "") {
+      errors.push({ path: join(path, "id"), message: "is required" })
+    } else if (ids.has(rule.id)) {
+      errors.push({ path: join(path, "id"), message: `duplicate rule id "${rule.id}"` })
+    } else {
+      ids.add(rule.id)
+    }
+    if (rule.label !== undefined && typeof rule.label !== "string") {
+      errors.push({ path: join(path, "label"), message: "must be a string" })
+    }
+    validateThresholds(rule.thresholds, join(path, "thresholds"), errors)
+    if (rule.enabled !== undefined && typeof rule.enabled !== "boolean") {
+      errors.push({ path: join(path, "enabled"), message: "must be true or false" })
+    }
+    if (rule.when !== undefined) validateCondition(rule.when, join(path, "when"), errors, inventoryKeys)
+  })
+}
+
+function validateAlertChannel(channel: Record<string, unknown>, path: string, errors: SettingsValidationError[]) {
+  if (!(ALERT_CHANNEL_TYPES as readonly string[]).includes(channel.type as string)) {
+    errors.push({ path: join(path, "type"), message: `must be one of ${ALERT_CHANNEL_TYPES.join(", ")}` })
+    return
+  }
+  if (channel.type === "email") {
+    if (!isStringArray(channel.to) || channel.to.length === 0) {
+      errors.push({ path: join(path, "to"), message: "must list at least one recipient" })
+    } else {
+      channel.to.forEach((address, i) => {
+        if (!/^[^\s@]+@[^\s@]+$/.test(address)) errors.push({ path: join(join(path, "to"), i), message: "is not an email address" })
+      })
+    }
+    return
+  }
+  if ((channel.url === undefined) === (channel.urlEnv === undefined)) {
+    errors.push({ path: join(path, "url"), message: "set either a URL or an environment variable holding it" })
+  } else if (channel.url !== undefined) {
+    if (typeof channel.url !== "string" || !/^https?:\/\/\S+$/.test(channel.url)) {
+      errors.push({ path: join(path, "url"), message: "must be an http(s) URL" })
+    }
+  } else if (typeof channel.urlEnv !== "string" || !ENV_NAME_PATTERN.test(channel.urlEnv)) {
+    errors.push({ path: join(path, "urlEnv"), message: "must be an environment variable name, e.g. ALERTS_TEAMS_URL" })
+  }
+  if (channel.headers !== undefined) {
+    if (!isObject(channel.headers)) {
+      errors.push({ path: join(path, "headers"), message: "must be an object" })
+    } else {
+      for (const [name, value] of Object.entries(channel.headers)) {
+        if (typeof value !== "string") errors.push({ path: join(join(path, "headers"), name), message: "must be a string" })
+      }
+    }
+  }
+}
+
+function positiveInteger(value: unknown, path: string, errors: SettingsValidationError[], min = 1) {
+  if (value === undefined) return
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    errors.push({ path, message: min === 0 ? "must be a whole number, 0 or more" : "must be a positive whole number" })
+  }
+}
+
+function validateAlertRule(
+  rule: Record<string, unknown>,
+  path: string,
+  errors: SettingsValidationError[],
+  inventoryKeys: readonly string[]
+) {
+  if (rule.label !== undefined && typeof rule.label !== "string") {
+    errors.push({ path: join(path, "label"), message: "must be a string" })
+  }
+  if (!(ALERT_RULE_KINDS as readonly string[]).includes(rule.kind as string)) {
+    errors.push({ path: join(path, "kind"), message: `must be one of ${ALERT_RULE_KINDS.join(", ")}` })
+  }
+  if (!ALERT_SEVERITIES.includes(rule.severity as string)) {
+    errors.push({ path: join(path, "severity"), message: `must be one of ${ALERT_SEVERITIES.join(", ")}` })
+  }
+  if (!isStringArray(rule.channels)) errors.push({ path: join(path, "channels"), message: "must be a list of channel ids" })
+  if (rule.enabled !== undefined && typeof rule.enabled !== "boolean") {
+    errors.push({ path: join(path, "enabled"), message: "must be true or false" })
+  }
+  if (rule.eventKind !== undefined && !EVENT_KINDS.includes(rule.eventKind as string)) {
+    errors.push({ path: join(path, "eventKind"), message: `must be one of ${EVENT_KINDS.join(", ")}` })
+  }
+  positiveInteger(rule.threshold, join(path, "threshold"), errors)
+  positiveInteger(rule.windowMinutes, join(path, "windowMinutes"), errors)
+  positiveInteger(rule.throttleMinutes, join(path, "throttleMinutes"), errors, 0)
+  positiveInteger(rule.repeatMinutes, join(path, "repeatMinutes"), errors, 0)
+  if (rule.status !== undefined && !["stale", "missing"].includes(rule.status as string)) {
+    errors.push({ path: join(path, "status"), message: "must be stale or missing" })
+  }
+  if (rule.checks !== undefined && !isStringArray(rule.checks)) {
+    errors.push({ path: join(path, "checks"), message: "must be a list of strings" })
+  }
+  if (rule.checkSeverity !== undefined && !["warning", "danger"].includes(rule.checkSeverity as string)) {
+    errors.push({ path: join(path, "checkSeverity"), message: "must be warning or danger" })
+  }
+  if (rule.when !== undefined) {
+    if (rule.kind !== "deviceStatus" && rule.kind !== "securityCheck" && rule.kind !== "clientVersion") {
+      errors.push({ path: join(path, "when"), message: "only applies to device status, security check and client version rules" })
+    } else {
+      validateCondition(rule.when, join(path, "when"), errors, inventoryKeys)
+    }
+  }
+}
+
+function validateAlerts(alerts: unknown, errors: SettingsValidationError[], inventoryKeys: readonly string[]) {
+  if (!isObject(alerts)) {
+    errors.push({ path: "alerts", message: "must be an object" })
+    return
+  }
+  for (const [list, validateEntry] of [
+    ["channels", (entry: Record<string, unknown>, path: string) => validateAlertChannel(entry, path, errors)],
+    ["rules", (entry: Record<string, unknown>, path: string) => validateAlertRule(entry, path, errors, inventoryKeys)],
+  ] as const) {
+    const entries = alerts[list]
+    if (!Array.isArray(entries)) {
+      errors.push({ path: join("alerts", list), message: "must be a list" })
+      continue
+    }
+    const ids = new Set<string>()
+    entries.forEach((entry, i) => {
+      const path = join(join("alerts", list), i)
+      if (!isObject(entry)) {
+        errors.push({ path, message: "must be an object" })
+        return
+      }
+      if (typeof entry.id !== "string" || entry.id.trim() === "") {
+        errors.push({ path: join(path, "id"), message: "is required" })
+      } else if (ids.has(entry.id)) {
+        errors.push({ path: join(path, "id"), message: `duplicate id "${entry.id}"` })
+      } else {
+        ids.add(entry.id)
+      }
+      validateEntry(entry, path)
+    })
+  }
+}
+
+function integerIn(value: unknown, min: number, max: number, path: string, errors: SettingsValidationError[]) {
+  if (value === undefined) return
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    errors.push({ path, message: `must be a whole number from ${min} to ${max}` })
+  }
+}
+
+function validateReportSchedule(schedule: Record<string, unknown>, path: string, errors: SettingsValidationError[]) {
+  if (typeof schedule.name !== "string" || schedule.name.trim() === "") {
+    errors.push({ path: join(path, "name"), message: "is required" })
+  }
+  if (typeof schedule.url !== "string") {
+    errors.push({ path: join(path, "url"), message: "is required" })
+  } else {
+    const parsed = parseReportUrl(schedule.url)
+    if ("error" in parsed) errors.push({ path: join(path, "url"), message: parsed.error })
+  }
+  if (!(REPORT_FORMATS as readonly string[]).includes(schedule.format as string)) {
+    errors.push({ path: join(path, "format"), message: `must be one of ${REPORT_FORMATS.join(", ")}` })
+  }
+  if (!(REPORT_FREQUENCIES as readonly string[]).includes(schedule.frequency as string)) {
+    errors.push({ path: join(path, "frequency"), message: `must be one of ${REPORT_FREQUENCIES.join(", ")}` })
+  }
+  integerIn(schedule.dayOfWeek, 0, 6, join(path, "dayOfWeek"), errors)
+  integerIn(schedule.dayOfMonth, 1, 28, join(path, "dayOfMonth"), errors)
+  integerIn(schedule.hour, 0, 23, join(path, "hour"), errors)
+  if (!isStringArray(schedule.channels)) errors.push({ path: join(path, "channels"), message: "must be a list of channel ids" })
+  if (schedule.enabled !== undefined && typeof schedule.enabled !== "boolean") {
+    errors.push({ path: join(path, "enabled"), message: "must be true or false" })
+  }
+}
+
+function validateReports(reports: unknown, errors: SettingsValidationError[]) {
+  if (!isObject(reports)) {
+    errors.push({ path: "reports", message: "must be an object" })
+    return
+  }
+  if (!Array.isArray(reports.schedules)) {
+    errors.push({ path: "reports.schedules", message: "must be a list" })
+    return
+  }
+  const ids = new Set<string>()
+  reports.schedules.forEach((schedule, i) => {
+    const path = join("reports.schedules", i)
+    if (!isObject(schedule)) {
+      errors.push({ path, message: "must be an object" })
+      return
+    }
+    if (typeof schedule.id !== "string" || schedule.id.trim() === "") {
+      errors.push({ path: join(path, "id"), message: "is required" })
+    } else if (ids.has(schedule.id)) {
+      errors.push({ path: join(path, "id"), message: `duplicate id "${schedule.id}"` })
+    } else {
+      ids.add(schedule.id)
+    }
+    validateReportSchedule(schedule, path, errors)
+  })
+}
+
+function validateInstallErrorCode(entry: Record<string, unknown>, path: string, errors: SettingsValidationError[]) {
+  const code = typeof entry.code === "string" ? entry.code.trim() : ""
+  const pattern = typeof entry.pattern === "string" ? entry.pattern : ""
+  if (entry.code !== undefined && typeof entry.code !== "string") errors.push({ path: join(path, "code"), message: "must be a string" })
+  if (entry.pattern !== undefined && typeof entry.pattern !== "string") {
+    errors.push({ path: join(path, "pattern"), message: "must be a string" })
+  } else if (pattern && !compileErrorPattern(pattern)) {
+    errors.push({ path: join(path, "pattern"), message: "is not a valid regular expression" })
+  }
+  if (!code && !pattern) errors.push({ path, message: "needs a code or a message pattern" })
+  for (const key of ["description", "action"]) {
+    if (typeof entry[key] !== "string" || (entry[key] as string).trim() === "") {
+      errors.push({ path: join(path, key), message: "is required" })
+    }
+  }
+  if (!(INSTALL_ERROR_CATEGORIES as readonly string[]).includes(entry.category as string)) {
+    errors.push({ path: join(path, "category"), message: `must be one of ${INSTALL_ERROR_CATEGORIES.join(", ")}` })
+  }
+  if (entry.severity !== "error" && entry.severity !== "warning") {
+    errors.push({ path: join(path, "severity"), message: "must be error or warning" })
+  }
+}
+
+function validateInstallErrors(installErrors: unknown, errors: SettingsValidationError[]) {
+  if (!isObject(installErrors)) {
+    errors.push({ path: "installErrors", message: "must be an object" })
+    return
+  }
+  if (!Array.isArray(installErrors.codes)) {
+    errors.push({ path: "installErrors.codes", message: "must be a list" })
+    return
+  }
+  const ids = new Set<string>()
+  installErrors.codes.forEach((entry, i) => {
+    const path = join("installErrors.codes", i)
+    if (!isObject(entry)) {
+      errors.push({ path, message: "must be an object" })
+      return
+    }
+    if (typeof entry.id !== "string" || entry.id.trim() === "") {
+      errors.push({ path: join(path, "id"), message: "is required" })
+    } else if (ids.has(entry.id)) {
+      errors.push({ path: join(path, "id"), message: `duplicate id "${entry.id}"` })
+    } else {
+      ids.add(entry.id)
+    }
+    validateInstallErrorCode(entry, path, errors)
+  })
+}
+
+function validateClientVersions(clientVersions: unknown, errors: SettingsValidationError[]) {
+  if (!isObject(clientVersions)) {
+    errors.push({ path: "clientVersions", message: "must be an object" })
+    return
+  }
+  const { minimumCimian, minimumMunki } = clientVersions
+  if (minimumCimian !== undefined && (typeof minimumCimian !== "string" || !normalizeCimianVersion(minimumCimian))) {
+    errors.push({ path: "clientVersions.minimumCimian", message: "must be a Cimian build stamp, e.g. 2026.07.20.0632" })
+  }
+  if (minimumMunki !== undefined && (typeof minimumMunki !== "string" || !/^\d+(\.\d+)*$/.test(minimumMunki.trim()))) {
+    errors.push({ path: "clientVersions.minimumMunki", message: "must be a dotted version, e.g. 6.6.5" })
+  }
+}
+
+function validateBaseline(baseline: Record<string, unknown>, path: string, errors: SettingsValidationError[], inventoryKeys: readonly string[]) {
+  for (const key of ["label", "sourceSerial", "osBuild"]) {
+    if (baseline[key] !== undefined && typeof baseline[key] !== "string") errors.push({ path: join(path, key), message: "must be a string" })
+  }
+  if (baseline.when !== undefined) validateCondition(baseline.when, join(path, "when"), errors, inventoryKeys)
+  if (baseline.applications !== undefined) {
+    if (!Array.isArray(baseline.applications)) {
+      errors.push({ path: join(path, "applications"), message: "must be a list" })
+    } else {
+      baseline.applications.forEach((app, i) => {
+        const appPath = join(join(path, "applications"), i)
+        if (!isObject(app) || typeof app.name !== "string" || app.name.trim() === "") {
+          errors.push({ path: appPath, message: "needs an application name" })
+        } else if (app.version !== undefined && typeof app.version !== "string") {
+          errors.push({ path: join(appPath, "version"), message: "must be a string" })
+        }
+      })
+    }
+  }
+  for (const key of ["profiles", "securityChecks"]) {
+    if (baseline[key] !== undefined && !isStringArray(baseline[key])) errors.push({ path: join(path, key), message: "must be a list of strings" })
+  }
+  if (baseline.enabled !== undefined && typeof baseline.enabled !== "boolean") {
+    errors.push({ path: join(path, "enabled"), message: "must be true or false" })
+  }
+  const expects = ["osBuild", "applications", "profiles", "securityChecks"].some((key) =>
+    Array.isArray(baseline[key]) ? (baseline[key] as unknown[]).length > 0 : typeof baseline[key] === "string" && baseline[key] !== ""
+  )
+  if (!expects) errors.push({ path, message: "needs an OS build, applications, profiles or security checks" })
+}
+
+function validateDrift(drift: unknown, errors: SettingsValidationError[], inventoryKeys: readonly string[]) {
+  if (!isObject(drift)) {
+    errors.push({ path: "drift", message: "must be an object" })
+    return
+  }
+  if (!Array.isArray(drift.baselines)) {
+    errors.push({ path: "drift.baselines", message: "must be a list" })
+    return
+  }
+  const ids = new Set<string>()
+  drift.baselines.forEach((baseline, i) => {
+    const path = join("drift.baselines", i)
+    if (!isObject(baseline)) {
+      errors.push({ path, message: "must be an object" })
+      return
+    }
+    if (typeof baseline.id !== "string" || baseline.id.trim() === "") {
+      errors.push({ path: join(path, "id"), message: "is required" })
+    } else if (ids.has(baseline.id)) {
+      errors.push({ path: join(path, "id"), message: `duplicate id "${baseline.id}"` })
+    } else {
+      ids.add(baseline.id)
+    }
+    validateBaseline(baseline, path, errors, inventoryKeys)
+  })
+}
+
+/** Operators whose operands are literal values a field's knownValues can vouch for. */
+const VALUE_OPERATORS = ["in", "notIn", "eq", "ne"] as const
+
+function knownValueConflicts(
+  when: RuleCondition,
+  fields: InventoryFieldMapping[],
+  path: string,
+  errors: SettingsValidationError[]
+) {
+  for (const [key, op] of Object.entries(when.inventory ?? {})) {
+    const field = fields.find((f) => f.key === key)
+    const known = field?.knownValues ?? []
+    if (!op || known.length === 0) continue
+    for (const name of VALUE_OPERATORS) {
+      const operand = op[name]
+      if (operand === undefined) continue
+      const unknown = (Array.isArray(operand) ? operand : [operand]).filter((v) => !known.includes(v))
+      if (unknown.length) {
+        errors.push({
+          path: join(join(join(path, "inventory"), key), name),
+          message: `${unknown.map((v) => `"${v}"`).join(", ")} not in ${field?.label ?? key} known values`,
+        })
+      }
+    }
+  }
+  ;(["allOf", "anyOf"] as const).forEach((group) =>
+    when[group]?.forEach((b, i) => knownValueConflicts(b, fields, join(join(path, group), i), errors))
+  )
+  if (when.not) knownValueConflicts(when.not, fields, join(path, "not"), errors)
+}
+
+/** Shape and type errors only: what makes a document unusable. */
+function validateStructure(value: unknown): SettingsValidationError[] {
+  const errors: SettingsValidationError[] = []
+  if (!isObject(value)) return [{ path: "", message: "must be a settings object" }]
+
+  if (typeof value.schemaVersion !== "number" || !Number.isInteger(value.schemaVersion) || value.schemaVersion < 1) {
+    errors.push({ path: "schemaVersion", message: "must be a positive integer" })
+  }
+  if (value.general !== undefined && !isObject(value.general)) {
+    errors.push({ path: "general", message: "must be an object" })
+  }
+  const inventoryKeys = inventoryKeysOf(value.inventory)
+  if (value.inventory !== undefined) validateInventory(value.inventory, errors)
+  if (value.security !== undefined) validateSecurity(value.security, errors, inventoryKeys)
+  if (value.status !== undefined) validateStatus(value.status, errors, inventoryKeys)
+  if (value.alerts !== undefined) validateAlerts(value.alerts, errors, inventoryKeys)
+  if (value.reports !== undefined) validateReports(value.reports, errors)
+  if (value.installErrors !== undefined) validateInstallErrors(value.installErrors, errors)
+  if (value.clientVersions !== undefined) validateClientVersions(value.clientVersions, errors)
+  if (value.drift !== undefined) validateDrift(value.drift, errors, inventoryKeys)
+  return errors
+}
+
+/** Every problem in `value`: structure first, then consistency between rule
+ * operands, alias targets and the inventory fields' known values, and between
+ * alert rules or report schedules and the channels they notify. Empty when
+ * it's valid. */
+export function validateSettingsDocument(value: unknown): SettingsValidationError[] {
+  const errors = validateStructure(value)
+  if (errors.length) return errors
+
+  const doc = value as SettingsDocument
+  const fields = doc.inventory?.fields?.length ? doc.inventory.fields : DEFAULT_INVENTORY_FIELDS
+  doc.security?.rules.forEach((rule, i) => {
+    if (rule.when) knownValueConflicts(rule.when, fields, `security.rules[${i}].when`, errors)
+  })
+  doc.status?.rules.forEach((rule, i) => {
+    if (rule.when) knownValueConflicts(rule.when, fields, `status.rules[${i}].when`, errors)
+  })
+  doc.drift?.baselines.forEach((baseline, i) => {
+    if (baseline.when) knownValueConflicts(baseline.when, fields, `drift.baselines[${i}].when`, errors)
+  })
+  doc.inventory?.fields.forEach((field, i) => {
+    const known = field.knownValues ?? []
+    if (known.length === 0) return
+    for (const [variant, target] of Object.entries(field.aliases ?? {})) {
+      if (!known.includes(target)) {
+        errors.push({ path: `inventory.fields[${i}].aliases.${variant}`, message: `"${target}" not in ${field.label} known values` })
+      }
+    }
+  })
+  const channelIds = new Set(doc.alerts?.channels.map((c) => c.id))
+  doc.alerts?.rules.forEach((rule, i) => {
+    if (rule.when) knownValueConflicts(rule.when, fields, `alerts.rules[${i}].when`, errors)
+    rule.channels.forEach((id, j) => {
+      if (!channelIds.has(id)) errors.push({ path: `alerts.rules[${i}].channels[${j}]`, message: `unknown channel "${id}"` })
+    })
+  })
+  doc.reports?.schedules.forEach((schedule, i) => {
+    schedule.channels.forEach((id, j) => {
+      if (!channelIds.has(id)) errors.push({ path: `reports.schedules[${i}].channels[${j}]`, message: `unknown channel "${id}"` })
+    })
+  })
+  return errors
+}
+
+/** Errors at `path` or anywhere beneath it. */
+export function errorsUnder(errors: SettingsValidationError[], path: string): SettingsValidationError[] {
+  return errors.filter((e) => e.path === path || e.path.startsWith(`${path}.`) || e.path.startsWith(`${path}[`))
+}
+
+/** Index of the list entry an error path points into, e.g. 2 for
+ * `security.rules[2].severity` under `security.rules`. */
+function entryIndex(path: string, list: string): number | undefined {
+  const m = path.startsWith(`${list}[`) ? /^\[(\d+)\]/.exec(path.slice(list.length)) : null
+  return m ? Number(m[1]) : undefined
+}
+
+/**
+ * Reads a stored document defensively: migrates it, then drops whatever is
+ * structurally invalid (a malformed rule, inventory field, check default,
+ * status threshold, alert channel, report schedule, installer error code or
+ * drift baseline, or a whole section that has the wrong shape, like an unreadable minimum
+ * client version) so consumers never see it, and
+ * fills the rest with defaults. Consistency problems are reported but kept.
+ * Returned errors describe the stored document, for editors to surface.
+ */
+export function readSettingsDocument(raw: unknown): { settings: SettingsDocument; errors: SettingsValidationError[] } {
+  if (raw === null || raw === undefined) return { settings: withDefaults(null), errors: [] }
+  if (!isObject(raw)) return { settings: withDefaults(null), errors: [{ path: "", message: "must be a settings object" }] }
+
+  const migrated = migrateSettings(raw as unknown as SettingsDocument) as unknown as Record<string, unknown>
+  const structural = validateStructure(migrated)
+  if (structural.length === 0) {
+    return { settings: withDefaults(migrated as unknown as SettingsDocument), errors: validateSettingsDocument(migrated) }
+  }
+
+  const badRules = new Set<number>()
+  const badFields = new Set<number>()
+  const badDefaults = new Set<string>()
+  const badStatusRules = new Set<number>()
+  const badAlertRules = new Set<number>()
+  const badAlertChannels = new Set<number>()
+  const badReportSchedules = new Set<number>()
+  const badErrorCodes = new Set<number>()
+  const badBaselines = new Set<number>()
+  let badStatusDefaults = false
+  const badSections = new Set<string>()
+  for (const { path } of structural) {
+    const rule = entryIndex(path, "security.rules")
+    const field = entryIndex(path, "inventory.fields")
+    const statusRule = entryIndex(path, "status.rules")
+    const alertRule = entryIndex(path, "alerts.rules")
+    const alertChannel = entryIndex(path, "alerts.channels")
+    const reportSchedule = entryIndex(path, "reports.schedules")
+    const errorCode = entryIndex(path, "installErrors.codes")
+    const baseline = entryIndex(path, "drift.baselines")
+    if (rule !== undefined) badRules.add(rule)
+    else if (field !== undefined) badFields.add(field)
+    else if (statusRule !== undefined) badStatusRules.add(statusRule)
+    else if (alertRule !== undefined) badAlertRules.add(alertRule)
+    else if (alertChannel !== undefined) badAlertChannels.add(alertChannel)
+    else if (reportSchedule !== undefined) badReportSchedules.add(reportSchedule)
+    else if (errorCode !== undefined) badErrorCodes.add(errorCode)
+    else if (baseline !== undefined) badBaselines.add(baseline)
+    else if (path.startsWith("security.defaults.")) badDefaults.add(path.split(".")[2])
+    else if (path === "status.defaults" || path.startsWith("status.defaults.")) badStatusDefaults = true
+    else badSections.add(path.split(/[.[]/)[0])
+  }
+
+  const doc = migrated as unknown as SettingsDocument
+  const cleaned: SettingsDocument = {
+    schemaVersion: badSections.has("schemaVersion") ? 1 : doc.schemaVersion,
+    general: badSections.has("general") ? undefined : doc.general,
+    inventory: badSections.has("inventory")
+      ? undefined
+      : doc.inventory && { fields: doc.inventory.fields.filter((_, i) => !badFields.has(i)) },
+    security: badSections.has("security")
+      ? undefined
+      : doc.security && {
+          defaults: Object.fromEntries(Object.entries(doc.security.defaults).filter(([check]) => !badDefaults.has(check))),
+          rules: doc.security.rules.filter((_, i) => !badRules.has(i)),
+        },
+    status: badSections.has("status")
+      ? undefined
+      : doc.status && {
+          defaults: badStatusDefaults ? DEFAULT_STATUS_SETTINGS.defaults : doc.status.defaults,
+          rules: doc.status.rules.filter((_, i) => !badStatusRules.has(i)),
+        },
+    alerts: badSections.has("alerts")
+      ? undefined
+      : doc.alerts && {
+          rules: doc.alerts.rules.filter((_, i) => !badAlertRules.has(i)),
+          channels: doc.alerts.channels.filter((_, i) => !badAlertChannels.has(i)),
+        },
+    reports: badSections.has("reports")
+      ? undefined
+      : doc.reports && { schedules: doc.reports.schedules.filter((_, i) => !badReportSchedules.has(i)) },
+    installErrors: badSections.has("installErrors")
+      ? undefined
+      : doc.installErrors && { codes: doc.installErrors.codes.filter((_, i) => !badErrorCodes.has(i)) },
+    clientVersions: badSections.has("clientVersions") ? undefined : doc.clientVersions,
+    drift: badSections.has("drift")
+      ? undefined
+      : doc.drift && { baselines: doc.drift.baselines.filter((_, i) => !badBaselines.has(i)) },
+  }
+  return { settings: withDefaults(cleaned), errors: structural }
+}
+
+export function isSettingsDocument(value: unknown): value is SettingsDocument {
+  return validateSettingsDocument(value).length === 0
+}
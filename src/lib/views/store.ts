@@ -0,0 +1,29 @@
+/**
+ * Saved views live in FastAPI (`/api/v1/views`) as one opaque document, like
+ * the settings document and alert state; the web tier owns its shape.
+ */
+
+import { getInternalApiHeaders } from "@/lib/api-auth"
+import { EMPTY_VIEWS_DOCUMENT, ViewsDocument } from "./views"
+
+/** The stored views. A store that has never been written is empty. */
+export async function loadViews(apiBaseUrl: string): Promise<ViewsDocument> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/views`, { headers: getInternalApiHeaders(), cache: "no-store" })
+  if (res.status === 404) return EMPTY_VIEWS_DOCUMENT
+  if (!res.ok) throw new Error(`View store returned ${res.status}`)
+  const data = await res.json()
+  return {
+    views: Array.isArray(data?.views) ? data.views : [],
+    preferences: data?.preferences && typeof data.preferences === "object" ? data.preferences : {},
+  }
+}
+
+export async function saveViews(apiBaseUrl: string, doc: ViewsDocument): Promise<void> {
+  const res = await fetch(`${apiBaseUrl}/api/v1/views`, {
+    method: "PUT",
+    headers: getInternalApiHeaders(),
+    body: JSON.stringify(doc),
+    cache: "no-store",
+  })
+  if (!res.ok) throw new Error(`View store returned ${res.status}`)
+}
@@ -0,0 +1,89 @@
+import {
+  canEditView,
+  defaultViewFor,
+  normalizeViewQuery,
+  preferencesFor,
+  removeView,
+  unshareView,
+  validatePreferences,
+  validateViewInput,
+  visibleViews,
+} from './views'
+import type { SavedView, ViewsDocument } from './views'
+
+const view = (id: string, owner: string, shared: boolean, path = '/installs'): SavedView => ({
+  id,
+  name: `View ${id}`,
+  path,
+  query: '',
+  shared,
+  owner,
+  createdAt: '2026-03-01T00:00:00Z',
+  updatedAt: '2026-03-01T00:00:00Z',
+})
+
+const labMacs = view('lab', 'ana@example.com', true)
+const mine = view('mine', 'sam@example.com', false)
+const anaDevices = view('private', 'ana@example.com', false, '/devices')
+
+describe('normalizeViewQuery', () => {
+  it('drops drill-down and empty params and sorts the rest', () => {
+    expect(normalizeViewQuery('?usages=Lab&from=%2Fdashboard&q=&platform=mac&catalogs=Production,Testing'))
+      .toBe('catalogs=Production%2CTesting&platform=mac&usages=Lab')
+    expect(normalizeViewQuery('')).toBe('')
+  })
+})
+
+describe('visibility and ownership', () => {
+  it('shows shared views and the user\'s own', () => {
+    expect(visibleViews([labMacs, mine, anaDevices], 'sam@example.com').map((v) => v.id)).toEqual(['lab', 'mine'])
+  })
+
+  it('lets owners edit their views and admins edit shared ones', () => {
+    expect(canEditView(labMacs, 'sam@example.com', false)).toBe(false)
+    expect(canEditView(labMacs, 'sam@example.com', true)).toBe(true)
+    expect(canEditView(mine, 'sam@example.com', false)).toBe(true)
+    expect(canEditView(anaDevices, 'sam@example.com', true)).toBe(false)
+  })
+})
+
+describe('validation', () => {
+  it('requires a name and a page path on create, and only checks what an update sends', () => {
+    expect(validateViewInput({ name: ' ', path: '/api/devices' }).map((e) => e.path)).toEqual(['name', 'path'])
+    expect(validateViewInput({ name: 'Lab Macs', path: '/installs', query: 'usages=Lab' })).toEqual([])
+    expect(validateViewInput({ shared: true }, true)).toEqual([])
+  })
+
+  it('rejects pins and defaults on views the user can\'t see or of another page', () => {
+    const visible = visibleViews([labMacs, mine, anaDevices], 'sam@example.com')
+    expect(validatePreferences({ pinned: ['lab'], defaults: { '/installs': 'mine' } }, visible)).toEqual([])
+    expect(validatePreferences({ pinned: ['private'], defaults: { '/devices': 'lab' } }, visible)).toEqual([
+      { path: 'pinned[0]', message: 'unknown view "private"' },
+      { path: 'defaults./devices', message: '"View lab" is a view of /installs' },
+    ])
+  })
+})
+
+describe('removing and unsharing', () => {
+  const doc: ViewsDocument = {
+    views: [labMacs, mine],
+    preferences: {
+      'ana@example.com': { pinned: ['lab'], defaults: { '/installs': 'lab' } },
+      'sam@example.com': { pinned: ['lab', 'mine'], defaults: { '/installs': 'lab' } },
+    },
+  }
+
+  it('drops every pin and default on a deleted view', () => {
+    const next = removeView(doc, 'lab')
+    expect(next.views).toEqual([mine])
+    expect(preferencesFor(next, 'sam@example.com')).toEqual({ pinned: ['mine'], defaults: {} })
+  })
+
+  it('keeps the owner\'s pins when a view stops being shared', () => {
+    const next = unshareView(doc, 'lab')
+    expect(next.views[0].shared).toBe(false)
+    expect(preferencesFor(next, 'ana@example.com').pinned).toEqual(['lab'])
+    expect(preferencesFor(next, 'sam@example.com')).toEqual({ pinned: ['mine'], defaults: {} })
+    expect(defaultViewFor(next.views, preferencesFor(next, 'ana@example.com'), '/installs')?.id).toBe('lab')
+  })
+})
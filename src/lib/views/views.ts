@@ -0,0 +1,175 @@
+/**
+ * Saved views: named URL states (see URL_STATE_CONVENTIONS.md) for a list
+ * page, personal or shared with the team. Each user also keeps their own pins
+ * and per-page defaults. Persistence lives in store.ts.
+ */
+
+export interface SavedView {
+  id: string
+  name: string
+  /** Page pathname, e.g. `/installs`. */
+  path: string
+  /** Query string without the leading `?`, as normalizeViewQuery leaves it. */
+  query: string
+  shared: boolean
+  /** Email (or subject id) of the user who saved it. */
+  owner: string
+  createdAt: string
+  updatedAt: string
+}
+
+/** A user's pinned views (toolbar order) and default view per page path. */
+export interface ViewPreferences {
+  pinned: string[]
+  defaults: Record<string, string>
+}
+
+/** Everything the store holds. */
+export interface ViewsDocument {
+  views: SavedView[]
+  preferences: Record<string, ViewPreferences>
+}
+
+/** What one user gets back from GET /api/views. */
+export interface ViewsResponse {
+  views: SavedView[]
+  preferences: ViewPreferences
+  user: string
+}
+
+export interface ViewValidationError {
+  path: string
+  message: string
+}
+
+export const EMPTY_VIEWS_DOCUMENT: ViewsDocument = { views: [], preferences: {} }
+
+export const MAX_VIEW_NAME_LENGTH = 80
+export const MAX_PINNED_VIEWS = 6
+
+/** Navigation-only params that don't describe the view itself. */
+const TRANSIENT_PARAMS = ["from"]
+
+/**
+ * Canonical query for a view: drops drill-down `from=` and empty values and
+ * sorts params, so the same filters saved twice compare equal.
+ */
+export function normalizeViewQuery(search: string): string {
+  const params = new URLSearchParams(search.startsWith("?") ? search.slice(1) : search)
+  const entries = [...params.entries()].filter(([key, value]) => value !== "" && !TRANSIENT_PARAMS.includes(key))
+  entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return new URLSearchParams(entries).toString()
+}
+
+export function viewHref(view: Pick<SavedView, "path" | "query">): string {
+  return view.query ? `${view.path}?${view.query}` : view.path
+}
+
+/** Who owns a view: the session email, or the subject id without one. */
+export function viewUser(user: { email?: string | null; id?: string } | undefined): string {
+  return user?.email || user?.id || ""
+}
+
+/** Shared views plus the user's own. */
+export function visibleViews(views: SavedView[], user: string): SavedView[] {
+  return views.filter((v) => v.shared || v.owner === user)
+}
+
+/** Owners edit their views; admins can also edit or remove shared ones. */
+export function canEditView(view: SavedView, user: string, admin: boolean): boolean {
+  return view.owner === user || (admin && view.shared)
+}
+
+export function preferencesFor(doc: ViewsDocument, user: string): ViewPreferences {
+  const prefs = doc.preferences[user]
+  return { pinned: prefs?.pinned ?? [], defaults: prefs?.defaults ?? {} }
+}
+
+/** The user's default view for a page, if it still exists and is visible. */
+export function defaultViewFor(views: SavedView[], prefs: ViewPreferences, path: string): SavedView | undefined {
+  const id = prefs.defaults[path]
+  return id ? views.find((v) => v.id === id && v.path === path) : undefined
+}
+
+/** Checks the user-editable fields of a view, for create (`partial` false) or update. */
+export function validateViewInput(input: unknown, partial = false): ViewValidationError[] {
+  const errors: ViewValidationError[] = []
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return [{ path: "", message: "must be an object" }]
+  }
+  const v = input as Record<string, unknown>
+  if (!partial || v.name !== undefined) {
+    if (typeof v.name !== "string" || !v.name.trim()) errors.push({ path: "name", message: "is required" })
+    else if (v.name.trim().length > MAX_VIEW_NAME_LENGTH) {
+      errors.push({ path: "name", message: `must be at most ${MAX_VIEW_NAME_LENGTH} characters` })
+    }
+  }
+  if (!partial || v.path !== undefined) {
+    if (typeof v.path !== "string" || !/^\/[^?#\s]*$/.test(v.path)) {
+      errors.push({ path: "path", message: "must be a page path starting with /" })
+    } else if (v.path.startsWith("/api/")) {
+      errors.push({ path: "path", message: "must be a page, not an API route" })
+    }
+  }
+  if (v.query !== undefined && typeof v.query !== "string") errors.push({ path: "query", message: "must be a string" })
+  if (v.shared !== undefined && typeof v.shared !== "boolean") errors.push({ path: "shared", message: "must be true or false" })
+  return errors
+}
+
+/** Checks a preferences update against the views the user can see. */
+export function validatePreferences(input: unknown, visible: SavedView[]): ViewValidationError[] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return [{ path: "", message: "must be an object" }]
+  }
+  const errors: ViewValidationError[] = []
+  const prefs = input as Record<string, unknown>
+  const byId = new Map(visible.map((v) => [v.id, v]))
+  if (!Array.isArray(prefs.pinned)) {
+    errors.push({ path: "pinned", message: "must be a list of view ids" })
+  } else {
+    if (prefs.pinned.length > MAX_PINNED_VIEWS) {
+      errors.push({ path: "pinned", message: `at most ${MAX_PINNED_VIEWS} views can be pinned` })
+    }
+    prefs.pinned.forEach((id, i) => {
+      if (typeof id !== "string" || !byId.has(id)) errors.push({ path: `pinned[${i}]`, message: `unknown view "${id}"` })
+    })
+  }
+  if (!prefs.defaults || typeof prefs.defaults !== "object" || Array.isArray(prefs.defaults)) {
+    errors.push({ path: "defaults", message: "must map page paths to view ids" })
+  } else {
+    for (const [path, id] of Object.entries(prefs.defaults)) {
+      const view = typeof id === "string" ? byId.get(id) : undefined
+      if (!view) errors.push({ path: `defaults.${path}`, message: `unknown view "${id}"` })
+      else if (view.path !== path) errors.push({ path: `defaults.${path}`, message: `"${view.name}" is a view of ${view.path}` })
+    }
+  }
+  return errors
+}
+
+function withoutView(prefs: ViewPreferences, id: string): ViewPreferences {
+  return {
+    pinned: prefs.pinned.filter((p) => p !== id),
+    defaults: Object.fromEntries(Object.entries(prefs.defaults).filter(([, v]) => v !== id)),
+  }
+}
+
+/** Removes a view along with every pin and default pointing at it. */
+export function removeView(doc: ViewsDocument, id: string): ViewsDocument {
+  const preferences = Object.fromEntries(
+    Object.entries(doc.preferences).map(([user, prefs]) => [user, withoutView(prefs, id)])
+  )
+  return { views: doc.views.filter((v) => v.id !== id), preferences }
+}
+
+/**
+ * Makes a view personal again. Other users lose their pins and defaults on
+ * it, since they can no longer see it.
+ */
+export function unshareView(doc: ViewsDocument, id: string): ViewsDocument {
+  const view = doc.views.find((v) => v.id === id)
+  if (!view) return doc
+  const preferences = Object.fromEntries(
+    Object.entries(doc.preferences).map(([user, prefs]) => [user, user === view.owner ? prefs : withoutView(prefs, id)])
+  )
+  return { views: doc.views.map((v) => (v.id === id ? { ...v, shared: false } : v)), preferences }
+}
@@ -2,8 +2,7 @@
 
 import { createContext, useContext, useMemo, ReactNode } from "react"
 import useSWR from "swr"
-import { withDefaults } from "@/src/lib/settings/defaults"
-import { migrateSettings } from "@/src/lib/settings/migrate"
+import { readSettingsDocument, SettingsValidationError } from "@/src/lib/settings/validate"
 import {
   InventoryFieldMapping,
   SecurityConfig,
@@ -14,6 +13,10 @@ import {
 interface SettingsContextValue {
   /** Fully-merged settings (defaults applied), always non-null. */
   settings: SettingsDocument
+  /** Problems in the stored document. Structurally invalid entries (e.g. a
+   * malformed rule) have been dropped from `settings`; editors show these
+   * inline so an admin can fix or re-save. */
+  validationErrors: SettingsValidationError[]
   /** Convenience accessors. */
   inventoryFields: InventoryFieldMapping[]
   securityConfig: SecurityConfig
@@ -43,12 +46,12 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
   )
 
   const value = useMemo<SettingsContextValue>(() => {
-    const raw = data?.value ? migrateSettings(data.value) : null
-    const settings = withDefaults(raw)
+    const { settings, errors } = readSettingsDocument(data?.value)
     const exists = Boolean(data?.exists)
     const onboarded = Boolean(settings.general?.onboardingCompletedAt)
     return {
       settings,
+      validationErrors: errors,
       inventoryFields: settings.inventory?.fields ?? [],
       securityConfig: settings.security!,
       isFirstTime: !exists || !onboarded,